@@ -11,6 +11,12 @@ import { LoggerModule } from './logger/logger.module';
 import { AuthModule } from './auth/auth.module';
 import { CacheModule } from './cache/cache.module';
 import { RealTimeModule } from './modules/real-time/real-time.module';
+import { AnswerEngineModule } from './modules/answer-engine/answer-engine.module';
+import { AiPlatformsModule } from './modules/ai-platforms/ai-platforms.module';
+import { BrandsModule } from './modules/brands/brands.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
+import { ConversationExplorerModule } from './modules/conversation-explorer/conversation-explorer.module';
+import { AgentAnalyticsModule } from './modules/agent-analytics/agent-analytics.module';
 import { ErrorHandlingModule } from './shared/error-handling.module';
 import { GlobalExceptionFilter } from './shared/filters/global-exception.filter';
 import { LoggerService } from './shared/services/logger.service';
@@ -21,6 +27,12 @@ import authConfig from './config/auth.config';
 import sentryConfig from './config/sentry.config';
 import redisConfig from './config/redis.config';
 import healthConfig from './config/health.config';
+import answerEngineConfig from './config/answer-engine.config';
+import aiPlatformsConfig from './config/ai-platforms.config';
+import notificationsConfig from './config/notifications.config';
+import realTimeConfig from './config/real-time.config';
+import conversationExplorerConfig from './config/conversation-explorer.config';
+import agentAnalyticsConfig from './config/agent-analytics.config';
 import { createMetricsConfig } from './config/metrics.config';
 import type { Request } from 'express';
 import type { TypeOrmModuleOptions } from '@nestjs/typeorm';
@@ -30,7 +42,7 @@ import type { TypeOrmModuleOptions } from '@nestjs/typeorm';
     // Configuration
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, authConfig, sentryConfig, redisConfig, healthConfig, createMetricsConfig],
+      load: [appConfig, authConfig, sentryConfig, redisConfig, healthConfig, createMetricsConfig, answerEngineConfig, aiPlatformsConfig, notificationsConfig, realTimeConfig, conversationExplorerConfig, agentAnalyticsConfig],
     }),
 
     // GraphQL
@@ -60,6 +72,7 @@ import type { TypeOrmModuleOptions } from '@nestjs/typeorm';
             rejectUnauthorized: false // Required for Supabase pooler connection
           },
           entities: [__dirname + '/**/*.entity{.ts,.js}'],
+          migrations: [__dirname + '/**/migrations/*{.ts,.js}'],
           synchronize: false, // Disable synchronize as we'll use migrations
           logging: process.env.NODE_ENV === 'development',
           retryAttempts: 3,
@@ -81,6 +94,12 @@ import type { TypeOrmModuleOptions } from '@nestjs/typeorm';
     AuthModule,
     CacheModule,
     RealTimeModule,
+    BrandsModule,
+    AnswerEngineModule,
+    AiPlatformsModule,
+    NotificationsModule,
+    ConversationExplorerModule,
+    AgentAnalyticsModule,
     
     // Metrics Module
     MetricsModule.register({
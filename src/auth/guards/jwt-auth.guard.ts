@@ -28,7 +28,8 @@ export class JwtAuthGuard implements CanActivate {
         id: payload.sub,
         email: payload.email,
         roles: payload.roles,
-        permissions: payload.permissions
+        permissions: payload.permissions,
+        organizationId: payload.organizationId
       };
       return true;
     } catch (error) {
@@ -8,6 +8,7 @@ export interface JwtPayload {
   email: string;
   roles: string[];
   permissions: string[];
+  organizationId?: string;
   iat?: number;
   exp?: number;
 }
@@ -25,6 +26,7 @@ export class JwtService {
       email: user.email || '',
       roles: user.roles || [],
       permissions: user.permissions || [],
+      organizationId: user.organizationId,
       iat: Math.floor(Date.now() / 1000)
     };
 
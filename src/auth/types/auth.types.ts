@@ -3,6 +3,7 @@ export interface User {
   email?: string;
   roles?: string[];
   permissions?: string[];
+  organizationId?: string;
   created_at?: string;
   updated_at?: string;
   googleProfile?: {
@@ -356,6 +356,15 @@ export class DistributedLockService implements OnModuleInit {
     }
   }
 
+  /**
+   * Checks whether locks can be taken, i.e. Redis is configured and
+   * connected
+   * @returns true if available, false otherwise
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.ensureConnection();
+  }
+
   /**
    * Checks if a lock exists
    * @param lockKey The key to check
@@ -0,0 +1,68 @@
+import { Logger } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+import { RedisConfig } from '../config/redis.config';
+
+/** Connection attempts made before giving up on an unreachable server */
+const MAX_CONNECT_ATTEMPTS = 5;
+
+/**
+ * Whether Redis should be used at all. Like the cache, tests always run
+ * in-memory.
+ */
+export function isRedisEnabled(config?: RedisConfig): config is RedisConfig {
+  return !!(config?.host && process.env.NODE_ENV !== 'test');
+}
+
+/**
+ * Open a Redis connection using the shared redis config. Resolves to null
+ * when Redis is disabled or cannot be reached, so callers can fall back to
+ * in-process behaviour. Once connected, the client keeps reconnecting on
+ * its own.
+ * @param config - Redis config
+ * @param name - Connection name used in log messages
+ */
+export async function connectRedis(
+  config: RedisConfig | undefined,
+  name: string,
+): Promise<RedisClientType | null> {
+  if (!isRedisEnabled(config)) {
+    return null;
+  }
+
+  const logger = new Logger(name);
+  let connected = false;
+  const client: RedisClientType = createClient({
+    socket: {
+      host: config.host,
+      port: config.port,
+      connectTimeout: 10000,
+      reconnectStrategy: retries =>
+        !connected && retries >= MAX_CONNECT_ATTEMPTS
+          ? new Error(`Gave up after ${retries} connection attempts`)
+          : Math.min(retries * 100, 10000),
+    },
+    password: config.password,
+    database: config.db,
+  });
+
+  client.on('error', err => {
+    logger.error(
+      `Redis client error: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    );
+  });
+  client.on('reconnecting', () => {
+    logger.log('Redis client reconnecting...');
+  });
+
+  try {
+    await client.connect();
+    connected = true;
+    logger.log('Redis client connected');
+    return client;
+  } catch (error) {
+    logger.warn(
+      `Redis unavailable, falling back to in-memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+    return null;
+  }
+}
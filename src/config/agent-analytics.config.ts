@@ -0,0 +1,189 @@
+import { registerAs } from '@nestjs/config';
+import { join } from 'path';
+
+export interface AgentAnalyticsConfig {
+  ingestion: {
+    /** Directory the batch importer reads access logs from */
+    dataDir: string;
+
+    /** Hits saved per database round trip */
+    batchSize: number;
+
+    /** Largest access log accepted by the upload endpoint */
+    maxUploadSize: string;
+  };
+  verification: {
+    /**
+     * JSON file of the IP ranges crawler operators publish, as CIDR lists
+     * keyed by crawler name
+     */
+    rangesFile: string;
+
+    /** Confirm crawlers through forward-confirmed reverse DNS */
+    reverseDns: boolean;
+
+    /** Longest wait for a DNS answer, in milliseconds */
+    dnsTimeout: number;
+
+    /** DNS confirmations run at the same time */
+    dnsConcurrency: number;
+
+    /** How long a verdict for a crawler and IP is cached, in milliseconds */
+    cacheTtl: number;
+  };
+  coverage: {
+    /**
+     * Sitemap priority from which a page is critical. When no page declares
+     * a priority, every page is.
+     */
+    criticalPriority: number;
+
+    /** Days after which a page AI crawlers have not fetched again is stale */
+    staleDays: number;
+
+    /** Days of crawler hits considered */
+    lookbackDays: number;
+
+    /** Most stale pages and orphan URLs listed */
+    maxListed: number;
+  };
+  anomalies: {
+    /** Whether crawl anomalies are detected on a schedule */
+    enabled: boolean;
+
+    /** Time between detection passes in milliseconds */
+    intervalMs: number;
+
+    /** Length of the window compared against the baseline, in hours */
+    windowHours: number;
+
+    /** Preceding windows averaged into the baseline */
+    baselineWindows: number;
+
+    /** Share of its baseline a bot's hits must fall to for a drop */
+    dropRatio: number;
+
+    /** Multiple of its baseline a bot's hits must reach for a spike */
+    spikeRatio: number;
+
+    /** Baseline hits per window below which rate changes are ignored */
+    minBaselineHits: number;
+
+    /** Rise of the 4xx or 5xx share of hits over its baseline for a surge */
+    errorRateIncrease: number;
+
+    /** Error responses in the window below which surges are ignored */
+    minErrorHits: number;
+  };
+  audit: {
+    /**
+     * Directory holding a local mirror of brand sites, one directory per
+     * host, e.g. "acme.com/pricing/index.html"
+     */
+    mirrorDir: string;
+
+    /** Characters below which a meta description is too short */
+    minDescriptionLength: number;
+
+    /** Characters above which answer engines cut a meta description off */
+    maxDescriptionLength: number;
+
+    /** Share of a page's words below which its own content is too thin */
+    minContentRatio: number;
+  };
+  referrals: {
+    /** Days an AI referral series covers when no start is given */
+    defaultDays: number;
+
+    /** Longest AI referral series returned, in days */
+    maxDays: number;
+
+    /** Largest conversion value the collector accepts */
+    maxConversionValue: number;
+
+    /** Collector events accepted from one client per window */
+    maxCollectorEvents: number;
+
+    /** Length of the collector rate limit window in milliseconds */
+    collectorWindowMs: number;
+  };
+}
+
+export default registerAs('agentAnalytics', (): AgentAnalyticsConfig => {
+  const dataDir =
+    process.env.AGENT_ANALYTICS_DATA_DIR ||
+    join(process.cwd(), 'data', 'agent-analytics');
+
+  return {
+    ingestion: {
+      dataDir,
+      batchSize: parseInt(process.env.CRAWLER_LOG_BATCH_SIZE || '1000', 10),
+      maxUploadSize: process.env.CRAWLER_LOG_MAX_UPLOAD_SIZE || '20mb',
+    },
+    verification: {
+      rangesFile:
+        process.env.CRAWLER_IP_RANGES_FILE ||
+        join(dataDir, 'crawler-ip-ranges.json'),
+      reverseDns: process.env.CRAWLER_REVERSE_DNS !== 'false',
+      dnsTimeout: parseInt(process.env.CRAWLER_DNS_TIMEOUT || '2000', 10),
+      dnsConcurrency: parseInt(process.env.CRAWLER_DNS_CONCURRENCY || '10', 10),
+      cacheTtl: parseInt(
+        process.env.CRAWLER_VERIFICATION_CACHE_TTL || '86400000',
+        10,
+      ),
+    },
+    coverage: {
+      criticalPriority: parseFloat(
+        process.env.CRAWL_COVERAGE_CRITICAL_PRIORITY || '0.8',
+      ),
+      staleDays: parseInt(process.env.CRAWL_COVERAGE_STALE_DAYS || '30', 10),
+      lookbackDays: parseInt(
+        process.env.CRAWL_COVERAGE_LOOKBACK_DAYS || '90',
+        10,
+      ),
+      maxListed: 100,
+    },
+    anomalies: {
+      enabled:
+        process.env.CRAWL_ANOMALIES_ENABLED !== 'false' &&
+        process.env.NODE_ENV !== 'test',
+      intervalMs: parseInt(
+        process.env.CRAWL_ANOMALIES_INTERVAL_MS || '3600000',
+        10,
+      ), // 1 hour
+      windowHours: parseInt(
+        process.env.CRAWL_ANOMALIES_WINDOW_HOURS || '24',
+        10,
+      ),
+      baselineWindows: parseInt(
+        process.env.CRAWL_ANOMALIES_BASELINE_WINDOWS || '14',
+        10,
+      ),
+      dropRatio: parseFloat(process.env.CRAWL_ANOMALIES_DROP_RATIO || '0.5'),
+      spikeRatio: parseFloat(process.env.CRAWL_ANOMALIES_SPIKE_RATIO || '3'),
+      minBaselineHits: 10,
+      errorRateIncrease: 0.2,
+      minErrorHits: 10,
+    },
+    audit: {
+      mirrorDir: process.env.PAGE_MIRROR_DIR || join(dataDir, 'mirror'),
+      minDescriptionLength: 50,
+      maxDescriptionLength: 160,
+      minContentRatio: parseFloat(
+        process.env.PAGE_AUDIT_MIN_CONTENT_RATIO || '0.5',
+      ),
+    },
+    referrals: {
+      defaultDays: 30,
+      maxDays: 366,
+      maxConversionValue: parseFloat(
+        process.env.AI_REFERRAL_MAX_CONVERSION_VALUE || '100000',
+      ),
+      maxCollectorEvents: parseInt(
+        process.env.AI_REFERRAL_MAX_COLLECTOR_EVENTS || '60',
+        10,
+      ),
+      collectorWindowMs: 60000, // 1 minute
+    },
+  };
+});
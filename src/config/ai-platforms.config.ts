@@ -0,0 +1,36 @@
+import { registerAs } from '@nestjs/config';
+import { join } from 'path';
+import { AIPlatform } from '../modules/ai-platforms/interfaces/platform-connector.interface';
+
+export interface AiPlatformsConfig {
+  /** Platforms prompts are submitted to */
+  enabled: AIPlatform[];
+
+  replay: {
+    /** Directory holding one `<platform>.json` recording per platform */
+    fixturesDir: string;
+  };
+}
+
+const parsePlatforms = (value: string | undefined): AIPlatform[] => {
+  const known = Object.values(AIPlatform) as string[];
+  if (!value) {
+    return [AIPlatform.CHATGPT, AIPlatform.PERPLEXITY, AIPlatform.COPILOT];
+  }
+  return value
+    .split(',')
+    .map(platform => platform.trim().toLowerCase())
+    .filter((platform): platform is AIPlatform => known.includes(platform));
+};
+
+export default registerAs(
+  'aiPlatforms',
+  (): AiPlatformsConfig => ({
+    enabled: parsePlatforms(process.env.AI_PLATFORMS_ENABLED),
+    replay: {
+      fixturesDir:
+        process.env.AI_PLATFORMS_FIXTURES_DIR ||
+        join(process.cwd(), 'fixtures', 'ai-platforms'),
+    },
+  }),
+);
@@ -0,0 +1,75 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AnswerEngineConfig {
+  sentiment: {
+    /** Which analyzer scores mentions: the offline lexicon or an LLM adapter */
+    provider: 'lexicon' | 'llm';
+  };
+  tracking: {
+    /** Whether tracked prompts are run on a schedule */
+    enabled: boolean;
+
+    /** Time between scheduled runs in milliseconds */
+    intervalMs: number;
+
+    /** How long a brand's run lock is held before it expires, in milliseconds */
+    lockTtlMs: number;
+  };
+  visibility: {
+    /** Whether daily visibility scores are recorded on a schedule */
+    enabled: boolean;
+
+    /** Time between recording passes in milliseconds */
+    intervalMs: number;
+
+    /** Length of the trailing window each daily score covers, in days */
+    windowDays: number;
+
+    /** Component weights for brands whose organization has none configured */
+    defaultWeights: {
+      mentions: number;
+      sentiment: number;
+      authority: number;
+    };
+  };
+}
+
+export default registerAs(
+  'answerEngine',
+  (): AnswerEngineConfig => ({
+    sentiment: {
+      provider: process.env.SENTIMENT_PROVIDER === 'llm' ? 'llm' : 'lexicon',
+    },
+    tracking: {
+      enabled:
+        process.env.PROMPT_TRACKING_ENABLED !== 'false' &&
+        process.env.NODE_ENV !== 'test',
+      intervalMs: parseInt(
+        process.env.PROMPT_TRACKING_INTERVAL_MS || '21600000',
+        10,
+      ), // 6 hours
+      lockTtlMs: parseInt(
+        process.env.PROMPT_TRACKING_LOCK_TTL_MS || '900000',
+        10,
+      ), // 15 minutes
+    },
+    visibility: {
+      enabled:
+        process.env.VISIBILITY_SCORE_ENABLED !== 'false' &&
+        process.env.NODE_ENV !== 'test',
+      intervalMs: parseInt(
+        process.env.VISIBILITY_SCORE_INTERVAL_MS || '3600000',
+        10,
+      ), // 1 hour
+      windowDays: parseInt(
+        process.env.VISIBILITY_SCORE_WINDOW_DAYS || '30',
+        10,
+      ),
+      defaultWeights: {
+        mentions: parseFloat(process.env.VISIBILITY_WEIGHT_MENTIONS || '0.4'),
+        sentiment: parseFloat(process.env.VISIBILITY_WEIGHT_SENTIMENT || '0.3'),
+        authority: parseFloat(process.env.VISIBILITY_WEIGHT_AUTHORITY || '0.3'),
+      },
+    },
+  }),
+);
@@ -1,17 +1,55 @@
 import { registerAs } from '@nestjs/config';
 
+export interface DatabaseConfig {
+  host: string;
+  port: number;
+  username: string;
+  password?: string;
+  database: string;
+  schema: string;
+  pooling: {
+    max: number;
+    min: number;
+    idleTimeoutMillis: number;
+    connectionTimeoutMillis: number;
+  };
+}
+
 export interface AppConfig {
   port: number;
   environment: string;
   apiPrefix: string;
   allowedOrigins: string[];
   clientUrl: string;
+  database: DatabaseConfig;
 }
 
+export const createDatabaseConfig = (): DatabaseConfig => ({
+  host: process.env.DB_HOST || 'localhost',
+  port: parseInt(process.env.DB_PORT || '5432', 10),
+  username: process.env.DB_USERNAME || 'postgres',
+  password: process.env.DB_PASSWORD,
+  database: process.env.DB_NAME || 'postgres',
+  schema: process.env.DB_SCHEMA || 'public',
+  pooling: {
+    max: parseInt(process.env.DB_POOL_MAX || '10', 10),
+    min: parseInt(process.env.DB_POOL_MIN || '2', 10),
+    idleTimeoutMillis: parseInt(
+      process.env.DB_POOL_IDLE_TIMEOUT || '30000',
+      10,
+    ),
+    connectionTimeoutMillis: parseInt(
+      process.env.DB_POOL_CONNECTION_TIMEOUT || '5000',
+      10,
+    ),
+  },
+});
+
 export default registerAs('app', (): AppConfig => ({
   port: parseInt(process.env.PORT || '3000', 10),
   environment: process.env.NODE_ENV || 'development',
   apiPrefix: process.env.API_PREFIX || 'api',
   allowedOrigins: (process.env.ALLOWED_ORIGINS || '').split(',').filter(Boolean),
-  clientUrl: process.env.CLIENT_URL || 'http://localhost:3000'
-})); 
\ No newline at end of file
+  clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
+  database: createDatabaseConfig(),
+}));
@@ -0,0 +1,104 @@
+import { registerAs } from '@nestjs/config';
+
+export interface ConversationExplorerConfig {
+  clustering: {
+    /** Cosine similarity a query needs to join an existing topic, in [0, 1] */
+    similarityThreshold: number;
+
+    /** Most frequent distinct queries clustered per request */
+    maxQueries: number;
+
+    /** Representative queries returned per topic */
+    representativeQueries: number;
+  };
+  trends: {
+    /** Queries a topic needs in the current window to be reported */
+    minVolume: number;
+
+    /** Length of the window emerging topics must first appear in, in days */
+    emergingWindowDays: number;
+
+    /** Length of the history emerging topics must be absent from, in days */
+    emergingBaselineDays: number;
+  };
+  searchVolume: {
+    /** Trailing window of observations behind a single query's estimate */
+    windowDays: number;
+
+    /** Real queries each observed occurrence stands for */
+    panelScale: number;
+
+    /** Model error of panel-based estimates, as a log-scale deviation */
+    panelLogError: number;
+
+    /** Share of a keyword's classic search volume asked to AI platforms */
+    aiShareOfSearch: number;
+
+    /** Error of keyword-based estimates, as a log-scale deviation */
+    keywordLogError: number;
+
+    /** Share of AI queries each platform handles, used to extrapolate */
+    platformShares: Record<string, number>;
+  };
+  gaps: {
+    /** Most asked topics analyzed per report */
+    maxTopics: number;
+
+    /** Share of a topic's terms a page must contain to cover it, in [0, 1] */
+    contentMatchThreshold: number;
+
+    /** Priority kept by a gap the brand already has a page for, in [0, 1] */
+    coveredContentWeight: number;
+  };
+}
+
+export default registerAs(
+  'conversationExplorer',
+  (): ConversationExplorerConfig => ({
+    clustering: {
+      similarityThreshold: parseFloat(
+        process.env.TOPIC_SIMILARITY_THRESHOLD || '0.3',
+      ),
+      maxQueries: parseInt(process.env.TOPIC_MAX_QUERIES || '5000', 10),
+      representativeQueries: parseInt(
+        process.env.TOPIC_REPRESENTATIVE_QUERIES || '3',
+        10,
+      ),
+    },
+    trends: {
+      minVolume: parseInt(process.env.TOPIC_MIN_VOLUME || '2', 10),
+      emergingWindowDays: parseInt(
+        process.env.TOPIC_EMERGING_WINDOW_DAYS || '7',
+        10,
+      ),
+      emergingBaselineDays: parseInt(
+        process.env.TOPIC_EMERGING_BASELINE_DAYS || '28',
+        10,
+      ),
+    },
+    searchVolume: {
+      windowDays: parseInt(process.env.SEARCH_VOLUME_WINDOW_DAYS || '30', 10),
+      panelScale: parseFloat(process.env.SEARCH_VOLUME_PANEL_SCALE || '100'),
+      panelLogError: parseFloat(
+        process.env.SEARCH_VOLUME_PANEL_LOG_ERROR || '0.3',
+      ),
+      aiShareOfSearch: parseFloat(process.env.SEARCH_VOLUME_AI_SHARE || '0.08'),
+      keywordLogError: parseFloat(
+        process.env.SEARCH_VOLUME_KEYWORD_LOG_ERROR || '0.7',
+      ),
+      platformShares: {
+        chatgpt: 0.6,
+        gemini: 0.15,
+        copilot: 0.15,
+        perplexity: 0.1,
+      },
+    },
+    gaps: {
+      maxTopics: parseInt(process.env.TOPIC_GAP_MAX_TOPICS || '50', 10),
+      contentMatchThreshold: parseFloat(
+        process.env.TOPIC_GAP_CONTENT_MATCH_THRESHOLD || '0.5',
+      ),
+      coveredContentWeight: 0.5,
+    },
+  }),
+);
@@ -0,0 +1,24 @@
+import 'reflect-metadata';
+import { DataSource } from 'typeorm';
+import { createDatabaseConfig } from './app.config';
+
+const dbConfig = createDatabaseConfig();
+
+/**
+ * Standalone data source used by the TypeORM CLI to run migrations
+ * outside of the Nest application context
+ */
+export default new DataSource({
+  type: 'postgres',
+  host: dbConfig.host,
+  port: dbConfig.port,
+  username: dbConfig.username,
+  password: dbConfig.password,
+  database: dbConfig.database,
+  schema: dbConfig.schema,
+  ssl:
+    process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : undefined,
+  entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+  migrations: [__dirname + '/../**/migrations/*{.ts,.js}'],
+  synchronize: false,
+});
@@ -0,0 +1,68 @@
+import { registerAs } from '@nestjs/config';
+
+export interface NotificationsConfig {
+  smtp: {
+    host: string;
+    port: number;
+
+    /** Connect over TLS from the start instead of upgrading with STARTTLS */
+    secure: boolean;
+    user?: string;
+    pass?: string;
+
+    /**
+     * Send credentials even when the server offers no TLS; only for relays on
+     * a trusted network
+     */
+    allowInsecureAuth: boolean;
+
+    /** Sender address of notification emails */
+    from: string;
+  };
+  retry: {
+    /** Attempts per delivery, including the first */
+    maxAttempts: number;
+
+    /** Wait before the first retry; doubles on each further retry */
+    initialDelayMs: number;
+    maxDelayMs: number;
+  };
+
+  /** Time allowed for a single delivery attempt, in milliseconds */
+  timeoutMs: number;
+
+  /**
+   * Let webhooks reach loopback and private addresses; for local development
+   * only
+   */
+  allowPrivateNetworks: boolean;
+}
+
+export default registerAs(
+  'notifications',
+  (): NotificationsConfig => ({
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: process.env.SMTP_FROM || 'alerts@localhost',
+    },
+    retry: {
+      maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3', 10),
+      initialDelayMs: parseInt(
+        process.env.NOTIFICATION_RETRY_DELAY_MS || '1000',
+        10,
+      ),
+      maxDelayMs: parseInt(
+        process.env.NOTIFICATION_MAX_RETRY_DELAY_MS || '30000',
+        10,
+      ),
+    },
+    timeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS || '10000', 10),
+    allowPrivateNetworks:
+      process.env.NOTIFICATIONS_ALLOW_PRIVATE_NETWORKS === 'true',
+  }),
+);
@@ -0,0 +1,24 @@
+import { registerAs } from '@nestjs/config';
+
+export interface RealTimeConfig {
+  replay: {
+    /** Events kept per brand for clients catching up after a reconnect */
+    maxEvents: number;
+
+    /** How long a kept event stays available for replay, in seconds */
+    ttlSeconds: number;
+  };
+}
+
+export default registerAs(
+  'realTime',
+  (): RealTimeConfig => ({
+    replay: {
+      maxEvents: parseInt(process.env.REALTIME_REPLAY_MAX_EVENTS || '200', 10),
+      ttlSeconds: parseInt(
+        process.env.REALTIME_REPLAY_TTL_SECONDS || '3600',
+        10,
+      ),
+    },
+  }),
+);
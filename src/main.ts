@@ -1,13 +1,17 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { LoggerService } from './logger/logger.service';
 import { ValidationPipe, RequestMethod } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
 import { AppConfig } from './config/app.config';
+import { RedisConfig } from './config/redis.config';
+import { AgentAnalyticsConfig } from './config/agent-analytics.config';
+import { RedisIoAdapter } from './modules/real-time/adapters/redis-io.adapter';
 
 async function bootstrap(): Promise<void> {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bufferLogs: true,
   });
 
@@ -19,6 +23,11 @@ async function bootstrap(): Promise<void> {
   const configService = app.get(ConfigService);
   const appConfig = configService.get<AppConfig>('app');
 
+  // WebSockets: share rooms across instances when Redis is available
+  const ioAdapter = new RedisIoAdapter(app);
+  await ioAdapter.connectToRedis(configService.get<RedisConfig>('redis'));
+  app.useWebSocketAdapter(ioAdapter);
+
   // Global Pipes
   app.useGlobalPipes(
     new ValidationPipe({
@@ -31,6 +40,23 @@ async function bootstrap(): Promise<void> {
     }),
   );
 
+  // Access logs, sitemaps, crawler policies, pages and traffic exports are
+  // uploaded as raw text
+  const agentAnalyticsConfig =
+    configService.get<AgentAnalyticsConfig>('agentAnalytics');
+  app.useBodyParser<{ type: string[]; limit?: string }>('text', {
+    type: [
+      'text/plain',
+      'text/markdown',
+      'text/html',
+      'text/csv',
+      'application/x-ndjson',
+      'application/xml',
+      'text/xml',
+    ],
+    limit: agentAnalyticsConfig?.ingestion.maxUploadSize,
+  });
+
   // CORS
   app.enableCors({
     origin: appConfig?.allowedOrigins || [],
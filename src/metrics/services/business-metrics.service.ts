@@ -105,6 +105,26 @@ export class BusinessMetricsService implements OnModuleInit {
       labelNames: ['endpoint'],
       buckets: [1000, 10000, 100000, 1000000, 10000000],
     });
+
+    // Prompt tracking metrics
+    this.metricsService.createCounter({
+      name: `${this.config.prefix}prompt_tracking_runs_total`,
+      help: 'Total number of prompt tracking runs',
+      labelNames: ['status'],
+    });
+
+    this.metricsService.createHistogram({
+      name: `${this.config.prefix}prompt_tracking_run_duration_seconds`,
+      help: 'Prompt tracking run duration in seconds',
+      labelNames: ['status'],
+      buckets: [1, 5, 15, 30, 60, 120, 300, 600],
+    });
+
+    this.metricsService.createCounter({
+      name: `${this.config.prefix}prompt_tracking_errors_total`,
+      help: 'Total number of prompts that failed on an AI platform',
+      labelNames: ['platform'],
+    });
   }
 
   /**
@@ -255,6 +275,40 @@ export class BusinessMetricsService implements OnModuleInit {
     );
   }
 
+  /**
+   * Tracks a completed prompt tracking run
+   * @param status Final run status
+   * @param durationSeconds Duration in seconds
+   */
+  trackPromptTrackingRun(status: string, durationSeconds: number): void {
+    if (!this.config.enabled) return;
+
+    this.metricsService.incrementCounter(
+      `${this.config.prefix}prompt_tracking_runs_total`,
+      1,
+      { status },
+    );
+    this.metricsService.observeHistogram(
+      `${this.config.prefix}prompt_tracking_run_duration_seconds`,
+      durationSeconds,
+      { status },
+    );
+  }
+
+  /**
+   * Tracks a prompt that failed on an AI platform
+   * @param platform AI platform
+   */
+  trackPromptTrackingError(platform: string): void {
+    if (!this.config.enabled) return;
+
+    this.metricsService.incrementCounter(
+      `${this.config.prefix}prompt_tracking_errors_total`,
+      1,
+      { platform },
+    );
+  }
+
   async recordUserActivity(userId: string, action: string): Promise<void> {
     this.metricsService.incrementCounter('user_activity_total', {
       user_id: userId,
@@ -0,0 +1,103 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../../auth/auth.module';
+import { CacheModule } from '../../cache/cache.module';
+import { BrandsModule } from '../brands/brands.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RealTimeModule } from '../real-time/real-time.module';
+import { CrawlerHitEntity } from './entities/crawler-hit.entity';
+import { UnknownBotEntity } from './entities/unknown-bot.entity';
+import { LoggedDomainEntity } from './entities/logged-domain.entity';
+import { CrawlAnomalyEntity } from './entities/crawl-anomaly.entity';
+import { CrawlerPolicyEntity } from './entities/crawler-policy.entity';
+import { PageOptimizationEntity } from './entities/page-optimization.entity';
+import { AiReferralEntity } from './entities/ai-referral.entity';
+import { AiReferralCollectorEntity } from './entities/ai-referral-collector.entity';
+import { AiReferralSessionEntity } from './entities/ai-referral-session.entity';
+import { AccessLogParser } from './services/access-log.parser';
+import { BotClassifier } from './services/bot-classifier';
+import { CrawlerVerifier } from './services/crawler-verifier';
+import { CrawlerLogService } from './services/crawler-log.service';
+import { CrawlCoverageService } from './services/crawl-coverage.service';
+import { SitemapIngestionService } from './services/sitemap-ingestion.service';
+import { CrawlAnomalyService } from './services/crawl-anomaly.service';
+import { CrawlAnomalyScheduler } from './services/crawl-anomaly.scheduler';
+import { CrawlerPolicyParser } from './services/crawler-policy.parser';
+import { CrawlerPolicyService } from './services/crawler-policy.service';
+import { PageHtmlParser } from './services/page-html.parser';
+import { PageAuditService } from './services/page-audit.service';
+import { ReferrerClassifier } from './services/referrer-classifier';
+import { AiReferralService } from './services/ai-referral.service';
+import { CrawlerLogController } from './controllers/crawler-log.controller';
+import { SitemapController } from './controllers/sitemap.controller';
+import { CrawlerPolicyController } from './controllers/crawler-policy.controller';
+import { PageAuditController } from './controllers/page-audit.controller';
+import { AiReferralController } from './controllers/ai-referral.controller';
+import { AiReferralCollectorController } from './controllers/ai-referral-collector.controller';
+import { CrawlerLogResolver } from './graphql/crawler-log.resolver';
+import { CrawlCoverageResolver } from './graphql/crawl-coverage.resolver';
+import { CrawlAnomalyResolver } from './graphql/crawl-anomaly.resolver';
+import { CrawlerPolicyResolver } from './graphql/crawler-policy.resolver';
+import { PageAuditResolver } from './graphql/page-audit.resolver';
+import { AiReferralResolver } from './graphql/ai-referral.resolver';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      CrawlerHitEntity,
+      UnknownBotEntity,
+      LoggedDomainEntity,
+      CrawlAnomalyEntity,
+      CrawlerPolicyEntity,
+      PageOptimizationEntity,
+      AiReferralEntity,
+      AiReferralCollectorEntity,
+      AiReferralSessionEntity,
+    ]),
+    AuthModule,
+    CacheModule,
+    BrandsModule,
+    RealTimeModule,
+    NotificationsModule,
+  ],
+  controllers: [
+    CrawlerLogController,
+    SitemapController,
+    CrawlerPolicyController,
+    PageAuditController,
+    AiReferralController,
+    AiReferralCollectorController,
+  ],
+  providers: [
+    AccessLogParser,
+    BotClassifier,
+    CrawlerVerifier,
+    CrawlerLogService,
+    CrawlCoverageService,
+    SitemapIngestionService,
+    CrawlAnomalyService,
+    CrawlAnomalyScheduler,
+    CrawlerPolicyParser,
+    CrawlerPolicyService,
+    PageHtmlParser,
+    PageAuditService,
+    ReferrerClassifier,
+    AiReferralService,
+    CrawlerLogResolver,
+    CrawlCoverageResolver,
+    CrawlAnomalyResolver,
+    CrawlerPolicyResolver,
+    PageAuditResolver,
+    AiReferralResolver,
+  ],
+  exports: [
+    BotClassifier,
+    CrawlerLogService,
+    CrawlCoverageService,
+    CrawlAnomalyService,
+    CrawlerPolicyService,
+    PageAuditService,
+    AiReferralService,
+  ],
+})
+export class AgentAnalyticsModule {}
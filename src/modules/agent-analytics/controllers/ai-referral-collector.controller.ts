@@ -0,0 +1,51 @@
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../../../auth/decorators/public.decorator';
+import { AiReferralService } from '../services/ai-referral.service';
+import { AiReferralCollectResult } from '../interfaces/ai-referral.interface';
+import { CollectAiReferralDto } from '../dto/ai-referral.dto';
+
+/**
+ * Receives events from the pages of brand sites, which identify themselves
+ * with the brand's site key. Events travel in the query
+ * string so sites can send them with `navigator.sendBeacon`, which needs no
+ * CORS preflight.
+ */
+@ApiTags('ai-referrals')
+@Controller('brands/:brandId/ai-referrals/collect')
+@Public()
+export class AiReferralCollectorController {
+  constructor(private readonly aiReferralService: AiReferralService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Count a session or conversion on a brand site',
+    description:
+      'Events whose referrer or utm_source is no AI platform are ignored',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Whether the event was counted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Page not on a brand domain or conversion value out of range',
+  })
+  @ApiResponse({ status: 401, description: 'Invalid site key' })
+  @ApiResponse({ status: 429, description: 'Too many events' })
+  async collect(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: CollectAiReferralDto,
+    @Ip() ip: string,
+  ): Promise<AiReferralCollectResult> {
+    return this.aiReferralService.collect(brandId, query, ip);
+  }
+}
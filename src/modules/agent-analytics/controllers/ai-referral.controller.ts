@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { ValidationError } from '../../../shared/errors';
+import { AiReferralService } from '../services/ai-referral.service';
+import { AiReferralImportResult } from '../interfaces/ai-referral.interface';
+import {
+  AiReferralUploadQueryDto,
+  ImportAiReferralsDto,
+} from '../dto/ai-referral.dto';
+
+@ApiTags('ai-referrals')
+@Controller('brands/:brandId/ai-referrals')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class AiReferralController {
+  constructor(private readonly aiReferralService: AiReferralService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upload a referrer-level traffic export',
+    description:
+      'Needs date, sessions, and referrer or landing page columns; conversions and revenue are optional',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('text/csv')
+  @ApiBody({ description: 'Traffic CSV', schema: { type: 'string' } })
+  @ApiResponse({ status: 200, description: 'Rows imported and skipped' })
+  @ApiResponse({
+    status: 400,
+    description: 'Malformed CSV, missing column or foreign domain',
+  })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async upload(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: AiReferralUploadQueryDto,
+    @Body() body: unknown,
+  ): Promise<AiReferralImportResult> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new ValidationError('Send the export as a text/csv body');
+    }
+    return this.aiReferralService.importCsv(brandId, query.domain, body);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import a traffic export from the ingestion directory',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Rows imported and skipped' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid path, malformed CSV or foreign domain',
+  })
+  @ApiResponse({ status: 404, description: 'Brand or file not found' })
+  async import(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() dto: ImportAiReferralsDto,
+  ): Promise<AiReferralImportResult> {
+    return this.aiReferralService.importFile(brandId, dto.domain, dto.file);
+  }
+}
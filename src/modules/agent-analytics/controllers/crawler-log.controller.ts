@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { ValidationError } from '../../../shared/errors';
+import { CrawlerLogService } from '../services/crawler-log.service';
+import { CrawlCoverageService } from '../services/crawl-coverage.service';
+import { CrawlerLogImportResult } from '../interfaces/crawler-log.interface';
+import {
+  CrawlerLogUploadQueryDto,
+  ImportCrawlerLogDto,
+} from '../dto/crawler-log.dto';
+
+@ApiTags('crawler-logs')
+@Controller('brands/:brandId/crawler-logs')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class CrawlerLogController {
+  constructor(
+    private readonly crawlerLogService: CrawlerLogService,
+    private readonly coverageService: CrawlCoverageService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Upload a web server access log' })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('text/plain', 'application/x-ndjson')
+  @ApiBody({
+    description:
+      'Access log in common/combined, JSON lines or CloudFront format',
+    schema: { type: 'string' },
+  })
+  @ApiResponse({ status: 200, description: 'AI crawler requests imported' })
+  @ApiResponse({ status: 400, description: 'Not a log, or foreign domain' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async upload(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: CrawlerLogUploadQueryDto,
+    @Body() body: unknown,
+  ): Promise<CrawlerLogImportResult> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new ValidationError(
+        'Send the access log as a text/plain or application/x-ndjson body',
+      );
+    }
+    return this.published(
+      brandId,
+      await this.crawlerLogService.importText(brandId, body, query),
+    );
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import an access log from the ingestion directory',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'AI crawler requests imported' })
+  @ApiResponse({ status: 400, description: 'Invalid path or foreign domain' })
+  @ApiResponse({ status: 404, description: 'Brand or file not found' })
+  async import(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() dto: ImportCrawlerLogDto,
+  ): Promise<CrawlerLogImportResult> {
+    return this.published(
+      brandId,
+      await this.crawlerLogService.importFile(brandId, dto.file, {
+        format: dto.format,
+        domain: dto.domain,
+      }),
+    );
+  }
+
+  /** Push the crawl coverage new hits result in */
+  private async published(
+    brandId: string,
+    result: CrawlerLogImportResult,
+  ): Promise<CrawlerLogImportResult> {
+    if (result.aiHits > 0) {
+      await this.coverageService.publish(brandId, 'crawler_logs_imported');
+    }
+    return result;
+  }
+}
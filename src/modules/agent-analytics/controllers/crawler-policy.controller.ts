@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { ValidationError } from '../../../shared/errors';
+import { CrawlerPolicyService } from '../services/crawler-policy.service';
+import { CrawlerPolicyReport } from '../interfaces/crawler-policy.interface';
+import {
+  CrawlerPolicyUploadQueryDto,
+  ImportCrawlerPolicyDto,
+} from '../dto/crawler-policy.dto';
+
+@ApiTags('crawler-policies')
+@Controller('brands/:brandId/crawler-policies')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class CrawlerPolicyController {
+  constructor(private readonly crawlerPolicyService: CrawlerPolicyService) {}
+
+  @Post('robots-txt')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Upload a brand domain's robots.txt" })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('text/plain')
+  @ApiBody({ description: 'robots.txt', schema: { type: 'string' } })
+  @ApiResponse({ status: 200, description: 'AI crawler access report' })
+  @ApiResponse({ status: 400, description: 'Empty body or foreign domain' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async uploadRobotsTxt(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: CrawlerPolicyUploadQueryDto,
+    @Body() body: unknown,
+  ): Promise<CrawlerPolicyReport> {
+    return this.crawlerPolicyService.savePolicy(brandId, query.domain, {
+      robotsTxt: this.text(body, 'robots.txt', 'text/plain'),
+    });
+  }
+
+  @Post('llms-txt')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Upload a brand domain's llms.txt" })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('text/markdown', 'text/plain')
+  @ApiBody({ description: 'llms.txt', schema: { type: 'string' } })
+  @ApiResponse({ status: 200, description: 'AI crawler access report' })
+  @ApiResponse({ status: 400, description: 'Empty body or foreign domain' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async uploadLlmsTxt(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: CrawlerPolicyUploadQueryDto,
+    @Body() body: unknown,
+  ): Promise<CrawlerPolicyReport> {
+    return this.crawlerPolicyService.savePolicy(brandId, query.domain, {
+      llmsTxt: this.text(body, 'llms.txt', 'text/markdown or text/plain'),
+    });
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import robots.txt and llms.txt from the ingestion directory',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'AI crawler access report' })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, invalid path or foreign domain',
+  })
+  @ApiResponse({ status: 404, description: 'Brand or file not found' })
+  async import(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() dto: ImportCrawlerPolicyDto,
+  ): Promise<CrawlerPolicyReport> {
+    return this.crawlerPolicyService.importFiles(brandId, dto.domain, {
+      robotsTxt: dto.robotsTxt,
+      llmsTxt: dto.llmsTxt,
+    });
+  }
+
+  /** The uploaded file, sent as a raw text body */
+  private text(body: unknown, file: string, types: string): string {
+    if (typeof body !== 'string') {
+      throw new ValidationError(`Send ${file} as a ${types} body`);
+    }
+    return body;
+  }
+}
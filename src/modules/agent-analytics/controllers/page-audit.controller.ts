@@ -0,0 +1,112 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { ValidationError } from '../../../shared/errors';
+import { PageAuditService } from '../services/page-audit.service';
+import {
+  PageAuditResult,
+  ValidationResult,
+} from '../interfaces/page-audit.interface';
+import { PageUrlDto } from '../dto/page-audit.dto';
+
+@ApiTags('page-audits')
+@Controller('brands/:brandId/page-audits')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class PageAuditController {
+  constructor(private readonly pageAuditService: PageAuditService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Audit a page's HTML" })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('text/html')
+  @ApiBody({ description: 'Page HTML', schema: { type: 'string' } })
+  @ApiResponse({
+    status: 200,
+    description: 'Open optimizations of the page, highest priority first',
+  })
+  @ApiResponse({ status: 400, description: 'Empty body or foreign URL' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async audit(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: PageUrlDto,
+    @Body() body: unknown,
+  ): Promise<PageAuditResult> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new ValidationError('Send the page as a text/html body');
+    }
+    return this.pageAuditService.auditHtml(brandId, query.url, body);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Audit a page from the local mirror' })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Open optimizations of the page, highest priority first',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or foreign URL' })
+  @ApiResponse({ status: 404, description: 'Brand or mirrored page not found' })
+  async import(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() dto: PageUrlDto,
+  ): Promise<PageAuditResult> {
+    return this.pageAuditService.auditMirror(brandId, dto.url);
+  }
+
+  @Post('optimizations/:optimizationId/validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Re-check a page after an optimization was implemented',
+    description:
+      'Audits the HTML sent as a text/html body, or the mirrored page when the body is empty',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiParam({ name: 'optimizationId', description: 'Optimization ID' })
+  @ApiConsumes('text/html')
+  @ApiBody({
+    description: 'Page HTML',
+    schema: { type: 'string' },
+    required: false,
+  })
+  @ApiResponse({ status: 200, description: 'Whether the page passed' })
+  @ApiResponse({
+    status: 404,
+    description: 'Optimization or mirrored page not found',
+  })
+  async validate(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Param('optimizationId', ParseUUIDPipe) optimizationId: string,
+    @Body() body: unknown,
+  ): Promise<ValidationResult> {
+    return this.pageAuditService.validateImplementation(
+      brandId,
+      optimizationId,
+      typeof body === 'string' && body.trim() ? body : undefined,
+    );
+  }
+}
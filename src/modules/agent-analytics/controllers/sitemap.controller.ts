@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { ValidationError } from '../../../shared/errors';
+import { SitemapIngestionService } from '../services/sitemap-ingestion.service';
+import { SitemapIngestionResult } from '../interfaces/crawl-coverage.interface';
+import { ImportSitemapFileDto } from '../dto/sitemap.dto';
+
+@ApiTags('sitemaps')
+@Controller('brands/:brandId/sitemaps')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class SitemapController {
+  constructor(
+    private readonly sitemapIngestionService: SitemapIngestionService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Upload a sitemap or sitemap index' })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiConsumes('application/xml', 'text/xml')
+  @ApiBody({ description: 'sitemap.xml', schema: { type: 'string' } })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Pages imported; sitemaps an index lists are returned as missing',
+  })
+  @ApiResponse({ status: 400, description: 'Not a sitemap' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async upload(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() body: unknown,
+  ): Promise<SitemapIngestionResult> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new ValidationError(
+        'Send the sitemap as an application/xml or text/xml body',
+      );
+    }
+    return this.sitemapIngestionService.importXml(brandId, body);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import a sitemap or sitemap index from the ingestion directory',
+  })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Pages imported' })
+  @ApiResponse({ status: 400, description: 'Invalid path or not a sitemap' })
+  @ApiResponse({ status: 404, description: 'Brand or file not found' })
+  async import(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Body() dto: ImportSitemapFileDto,
+  ): Promise<SitemapIngestionResult> {
+    return this.sitemapIngestionService.importFile(brandId, dto.file);
+  }
+}
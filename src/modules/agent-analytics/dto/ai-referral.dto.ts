@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AiReferralEvent } from '../interfaces/ai-referral.interface';
+
+export class AiReferralUploadQueryDto {
+  @ApiProperty({
+    description: 'Brand domain the export covers',
+    example: 'acme.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  domain: string;
+}
+
+export class ImportAiReferralsDto extends AiReferralUploadQueryDto {
+  @ApiProperty({
+    description: 'Path of the CSV, relative to the ingestion directory',
+    example: 'ga4/acme.com-sources.csv',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  file: string;
+}
+
+export class CollectAiReferralDto {
+  @ApiProperty({ description: "Site key of the brand's collector" })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  key: string;
+
+  @ApiProperty({
+    description:
+      'Session ID the site generated for the visit; a session is counted once',
+    example: '3f1c2b0a-6d0e-4a57-9a51-2c2b8d4f5e6a',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'Page the event happened on',
+    example: 'https://acme.com/pricing',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  url: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Referrer the visit started with; conversions are credited to the platform that referred their session',
+    example: 'https://chatgpt.com/',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  referrer?: string;
+
+  @ApiPropertyOptional({
+    enum: AiReferralEvent,
+    default: AiReferralEvent.SESSION,
+  })
+  @IsOptional()
+  @IsEnum(AiReferralEvent)
+  event?: AiReferralEvent;
+
+  @ApiPropertyOptional({ description: 'Revenue of a conversion' })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  @Min(0)
+  value?: number;
+}
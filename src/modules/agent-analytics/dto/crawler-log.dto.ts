@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { AccessLogFormat } from '../interfaces/crawler-log.interface';
+
+export class CrawlerLogUploadQueryDto {
+  @ApiPropertyOptional({
+    enum: AccessLogFormat,
+    description: 'Detected from the first line when omitted',
+  })
+  @IsOptional()
+  @IsEnum(AccessLogFormat)
+  format?: AccessLogFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'Brand domain the log was served for, for formats without the host',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  domain?: string;
+}
+
+export class ImportCrawlerLogDto extends CrawlerLogUploadQueryDto {
+  @ApiProperty({
+    description: 'Path of the log, relative to the ingestion directory',
+    example: 'nginx/access.log.gz',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  file: string;
+}
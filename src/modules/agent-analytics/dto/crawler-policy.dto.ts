@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CrawlerPolicyUploadQueryDto {
+  @ApiProperty({
+    description: 'Brand domain the file is served on',
+    example: 'acme.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  domain: string;
+}
+
+export class ImportCrawlerPolicyDto extends CrawlerPolicyUploadQueryDto {
+  @ApiPropertyOptional({
+    description: 'Path of robots.txt, relative to the ingestion directory',
+    example: 'acme.com/robots.txt',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  robotsTxt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Path of llms.txt, relative to the ingestion directory',
+    example: 'acme.com/llms.txt',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  llmsTxt?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class PageUrlDto {
+  @ApiProperty({
+    description: 'Absolute URL of the page on a brand domain',
+    example: 'https://acme.com/pricing',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  url: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ImportSitemapFileDto {
+  @ApiProperty({
+    description: 'Path of the sitemap, relative to the ingestion directory',
+    example: 'acme.com/sitemap_index.xml',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  file: string;
+}
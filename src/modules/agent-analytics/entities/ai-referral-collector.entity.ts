@@ -0,0 +1,25 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+
+/**
+ * Site key a brand's pages send with collector events. Only its hash is
+ * stored; rotating the key revokes the previous one.
+ */
+@Entity('ai_referral_collectors')
+@Index('IDX_ai_referral_collectors_brand', ['brandId'], { unique: true })
+export class AiReferralCollectorEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_ai_referral_collectors_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Hex SHA-256 of the site key */
+  @Column({ type: 'char', length: 64 })
+  keyHash: string;
+}
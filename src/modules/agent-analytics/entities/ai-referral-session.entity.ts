@@ -0,0 +1,40 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { AiReferralPlatform } from '../interfaces/ai-referral.interface';
+
+/**
+ * A visitor session the collector counted, so repeated session events of the
+ * same visit are not counted again and its conversion is credited to the
+ * platform that referred it, once
+ */
+@Entity('ai_referral_sessions')
+@Index('IDX_ai_referral_sessions_brand_session', ['brandId', 'sessionId'], {
+  unique: true,
+})
+export class AiReferralSessionEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_ai_referral_sessions_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Session ID the brand site generated for the visit */
+  @Column({ length: 64 })
+  sessionId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  platform: AiReferralPlatform;
+
+  /** Referrer the session was counted under; null for older sessions */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  referrer: string | null;
+
+  /** When the session's conversion was counted */
+  @Column({ type: 'timestamptz', nullable: true })
+  convertedAt: Date | null;
+}
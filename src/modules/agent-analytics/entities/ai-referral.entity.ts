@@ -0,0 +1,60 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  AiReferralPlatform,
+  AiReferralSource,
+} from '../interfaces/ai-referral.interface';
+
+/**
+ * Visits and conversions one AI platform referred to a brand domain on one
+ * day
+ */
+@Entity('ai_referrals')
+@Index(
+  'IDX_ai_referrals_brand_domain_day',
+  ['brandId', 'domain', 'date', 'platform', 'referrer', 'source'],
+  { unique: true },
+)
+export class AiReferralEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_ai_referrals_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Normalized domain the visitors landed on */
+  @Column({ length: 255 })
+  domain: string;
+
+  /** UTC date, e.g. "2025-04-01" */
+  @Column({ type: 'date' })
+  date: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  platform: AiReferralPlatform;
+
+  /**
+   * Known platform host the referrer matched, or the `utm_source` value that
+   * identified the platform
+   */
+  @Column({ length: 255 })
+  referrer: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  source: AiReferralSource;
+
+  @Column({ type: 'integer', default: 0 })
+  sessions: number;
+
+  /** Analytics tools may report fractional conversions */
+  @Column({ type: 'float', default: 0 })
+  conversions: number;
+
+  @Column({ type: 'float', default: 0 })
+  revenue: number;
+}
@@ -0,0 +1,60 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  CrawlAnomalySeverity,
+  CrawlAnomalyType,
+} from '../interfaces/crawl-anomaly.interface';
+
+/**
+ * A departure of a crawler's traffic to a brand domain from its baseline
+ */
+@Entity('crawl_anomalies')
+@Index('IDX_crawl_anomalies_brand_detected', ['brandId', 'detectedAt'])
+export class CrawlAnomalyEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_crawl_anomalies_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ type: 'varchar', length: 30 })
+  type: CrawlAnomalyType;
+
+  @Column({ type: 'varchar', length: 10 })
+  severity: CrawlAnomalySeverity;
+
+  @Column({ length: 255 })
+  domain: string;
+
+  /** Crawler name, or the product token of an unknown bot */
+  @Column({ length: 100 })
+  bot: string;
+
+  /**
+   * Usual value: hits per window for rate anomalies, share of error
+   * responses for surges, 0 for new bots
+   */
+  @Column({ type: 'float' })
+  baselineValue: number;
+
+  /** Value in the detection window, in the same unit */
+  @Column({ type: 'float' })
+  observedValue: number;
+
+  @Column({ type: 'timestamptz' })
+  windowStart: Date;
+
+  @Column({ type: 'timestamptz' })
+  windowEnd: Date;
+
+  @Column({ type: 'timestamptz' })
+  detectedAt: Date;
+
+  @Column('text')
+  message: string;
+}
@@ -0,0 +1,81 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  AiBotPurpose,
+  CrawlerVerification,
+} from '../interfaces/crawler-log.interface';
+
+/**
+ * A request an AI crawler made to one of a brand's domains
+ */
+@Entity('crawler_hits')
+@Index('IDX_crawler_hits_brand_requested', ['brandId', 'requestedAt'])
+@Index('IDX_crawler_hits_brand_domain_bot', [
+  'brandId',
+  'domain',
+  'bot',
+  'requestedAt',
+])
+@Index('IDX_crawler_hits_brand_line', ['brandId', 'lineHash'], {
+  unique: true,
+})
+export class CrawlerHitEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_crawler_hits_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Normalized domain, e.g. "example.com" */
+  @Column({ length: 255 })
+  domain: string;
+
+  /** Crawler name from the signature table, e.g. "GPTBot" */
+  @Column({ length: 50 })
+  bot: string;
+
+  @Column({ length: 50 })
+  operator: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  purpose: AiBotPurpose;
+
+  /** Path and query requested, e.g. "/pricing?plan=pro" */
+  @Column('text')
+  path: string;
+
+  @Column({ length: 10 })
+  method: string;
+
+  @Column('smallint')
+  status: number;
+
+  @Column({ type: 'integer', nullable: true })
+  bytes: number | null;
+
+  @Column({ length: 45 })
+  ip: string;
+
+  @Column('text')
+  userAgent: string;
+
+  /** Whether the request came from the crawler's operator */
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: CrawlerVerification.UNVERIFIED,
+  })
+  verification: CrawlerVerification;
+
+  @Column('timestamptz')
+  requestedAt: Date;
+
+  /** SHA-256 of the fields that identify the log line, so re-imports skip it */
+  @Column({ type: 'char', length: 64 })
+  lineHash: string;
+}
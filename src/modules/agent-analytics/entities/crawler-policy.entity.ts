@@ -0,0 +1,32 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+
+/**
+ * The robots.txt and llms.txt a brand domain serves, as last supplied
+ */
+@Entity('crawler_policies')
+@Index('IDX_crawler_policies_brand_domain', ['brandId', 'domain'], {
+  unique: true,
+})
+export class CrawlerPolicyEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_crawler_policies_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Normalized domain, e.g. "example.com" */
+  @Column({ length: 255 })
+  domain: string;
+
+  @Column({ type: 'text', nullable: true })
+  robotsTxt: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  llmsTxt: string | null;
+}
@@ -0,0 +1,31 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+
+/**
+ * A brand domain whose access logs were imported, and how far they reach.
+ * Crawl anomalies are detected up to that point, whether or not any AI
+ * crawler made the last requests.
+ */
+@Entity('logged_domains')
+@Index('IDX_logged_domains_brand_domain', ['brandId', 'domain'], {
+  unique: true,
+})
+export class LoggedDomainEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_logged_domains_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 255 })
+  domain: string;
+
+  /** Time of the latest request logged for the domain, by any client */
+  @Column('timestamptz')
+  loggedUntil: Date;
+}
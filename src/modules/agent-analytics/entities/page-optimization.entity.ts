@@ -0,0 +1,67 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  Optimization,
+  OptimizationCategory,
+  OptimizationPriority,
+  OptimizationStatus,
+  OptimizationType,
+} from '../interfaces/page-audit.interface';
+
+/**
+ * A change a page audit recommended for one page of a brand. A page has at
+ * most one open optimization of each type.
+ */
+@Entity('page_optimizations')
+@Index('IDX_page_optimizations_brand_url', ['brandId', 'url'])
+@Index('IDX_page_optimizations_brand_status', ['brandId', 'status'])
+@Index('IDX_page_optimizations_open_type', ['brandId', 'url', 'type'], {
+  unique: true,
+  where: `"status" = 'open'`,
+})
+export class PageOptimizationEntity extends BaseEntity implements Optimization {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_page_optimizations_brand',
+  })
+  brand?: BrandEntity;
+
+  /** Absolute URL of the page, without fragment */
+  @Column('text')
+  url: string;
+
+  @Column({ type: 'varchar', length: 40 })
+  type: OptimizationType;
+
+  @Column({ type: 'varchar', length: 20 })
+  category: OptimizationCategory;
+
+  @Column({ type: 'varchar', length: 10 })
+  priority: OptimizationPriority;
+
+  @Column({ type: 'varchar', length: 10 })
+  status: OptimizationStatus;
+
+  @Column({ length: 255 })
+  title: string;
+
+  @Column('text')
+  recommendation: string;
+
+  @Column({ type: 'text', nullable: true })
+  detail: string | null;
+
+  @Column({ type: 'timestamptz' })
+  detectedAt: Date;
+
+  @Column({ type: 'timestamptz' })
+  lastCheckedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolvedAt: Date | null;
+}
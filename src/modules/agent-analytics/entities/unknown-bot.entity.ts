@@ -0,0 +1,43 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+
+/**
+ * A self-declared bot without an AI signature that requested one of a
+ * brand's domains, counted rather than stored hit by hit
+ */
+@Entity('unknown_bots')
+@Index('IDX_unknown_bots_brand_domain_name', ['brandId', 'domain', 'name'], {
+  unique: true,
+})
+export class UnknownBotEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_unknown_bots_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 255 })
+  domain: string;
+
+  /** Product token of the user agent, e.g. "NewAIBot" */
+  @Column({ length: 100 })
+  name: string;
+
+  /** The first user agent seen for the bot */
+  @Column('text')
+  userAgent: string;
+
+  @Column('integer')
+  hits: number;
+
+  @Column('timestamptz')
+  firstSeenAt: Date;
+
+  @Column('timestamptz')
+  lastSeenAt: Date;
+}
@@ -0,0 +1,48 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { AiReferralService } from '../services/ai-referral.service';
+import { AiReferralSeries, AiReferralSeriesInput } from './ai-referral.types';
+
+@Resolver(() => AiReferralSeries)
+export class AiReferralResolver {
+  constructor(
+    private readonly aiReferralService: AiReferralService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  /**
+   * Daily visits and conversions AI platforms referred to each brand domain
+   */
+  @Query(() => [AiReferralSeries])
+  @UseGuards(JwtAuthGuard)
+  async aiReferralSeries(
+    @Args('input') input: AiReferralSeriesInput,
+  ): Promise<AiReferralSeries[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.aiReferralService.getSeries(input.brandId, {
+      domain: input.domain,
+      platform: input.platform,
+      source: input.source,
+      since: input.since,
+      until: input.until,
+    });
+  }
+
+  /**
+   * Issue a new site key for the brand's collector, revoking the previous
+   * one. The key is returned only here.
+   */
+  @Mutation(() => String)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async rotateAiReferralCollectorKey(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<string> {
+    return this.aiReferralService.rotateCollectorKey(brandId);
+  }
+}
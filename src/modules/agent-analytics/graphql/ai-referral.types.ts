@@ -0,0 +1,86 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  AiReferralPlatform,
+  AiReferralSource,
+} from '../interfaces/ai-referral.interface';
+
+registerEnumType(AiReferralPlatform, { name: 'AiReferralPlatform' });
+registerEnumType(AiReferralSource, { name: 'AiReferralSource' });
+
+@ObjectType()
+export class AiReferralTotals {
+  @Field(() => AiReferralPlatform)
+  platform: AiReferralPlatform;
+
+  @Field(() => Int)
+  sessions: number;
+
+  @Field(() => Float)
+  conversions: number;
+
+  @Field(() => Float)
+  revenue: number;
+}
+
+@ObjectType()
+export class AiReferralDay {
+  @Field({ description: 'UTC date, e.g. 2025-04-01' })
+  date: string;
+
+  @Field(() => Int)
+  sessions: number;
+
+  @Field(() => Float)
+  conversions: number;
+
+  @Field(() => Float)
+  revenue: number;
+
+  @Field(() => [AiReferralTotals])
+  platforms: AiReferralTotals[];
+}
+
+@ObjectType()
+export class AiReferralSeries {
+  @Field()
+  domain: string;
+
+  @Field(() => [AiReferralDay], {
+    description: 'Every day of the period, including days without traffic',
+  })
+  days: AiReferralDay[];
+
+  @Field(() => [AiReferralTotals], {
+    description: 'Per platform over the period, most sessions first',
+  })
+  totals: AiReferralTotals[];
+}
+
+@InputType()
+export class AiReferralSeriesInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field({ nullable: true })
+  domain?: string;
+
+  @Field(() => AiReferralPlatform, { nullable: true })
+  platform?: AiReferralPlatform;
+
+  @Field(() => AiReferralSource, { nullable: true })
+  source?: AiReferralSource;
+
+  @Field({ nullable: true, description: 'First day; defaults to 30 days ago' })
+  since?: Date;
+
+  @Field({ nullable: true, description: 'Last day; defaults to today' })
+  until?: Date;
+}
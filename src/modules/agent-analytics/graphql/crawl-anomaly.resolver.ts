@@ -0,0 +1,45 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { CrawlAnomalyService } from '../services/crawl-anomaly.service';
+import { CrawlAnomaliesInput, CrawlAnomaly } from './crawl-anomaly.types';
+
+@Resolver(() => CrawlAnomaly)
+export class CrawlAnomalyResolver {
+  constructor(
+    private readonly crawlAnomalyService: CrawlAnomalyService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [CrawlAnomaly])
+  @UseGuards(JwtAuthGuard)
+  async crawlAnomalies(
+    @Args('input') input: CrawlAnomaliesInput,
+  ): Promise<CrawlAnomaly[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.crawlAnomalyService.findByBrand(input.brandId, {
+      type: input.type,
+      domain: input.domain,
+      bot: input.bot,
+      since: input.since,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Look for crawl anomalies of a brand now rather than at the next
+   * scheduled pass
+   */
+  @Mutation(() => [CrawlAnomaly])
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async detectCrawlAnomalies(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<CrawlAnomaly[]> {
+    return this.crawlAnomalyService.detect(brandId);
+  }
+}
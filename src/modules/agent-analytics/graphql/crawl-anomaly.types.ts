@@ -0,0 +1,79 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  CrawlAnomalySeverity,
+  CrawlAnomalyType,
+} from '../interfaces/crawl-anomaly.interface';
+
+registerEnumType(CrawlAnomalyType, { name: 'CrawlAnomalyType' });
+registerEnumType(CrawlAnomalySeverity, { name: 'CrawlAnomalySeverity' });
+
+@ObjectType()
+export class CrawlAnomaly {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field(() => CrawlAnomalyType)
+  type: CrawlAnomalyType;
+
+  @Field(() => CrawlAnomalySeverity)
+  severity: CrawlAnomalySeverity;
+
+  @Field()
+  domain: string;
+
+  @Field()
+  bot: string;
+
+  @Field(() => Float, {
+    description:
+      'Usual hits per window, or usual share of error responses for surges',
+  })
+  baselineValue: number;
+
+  @Field(() => Float)
+  observedValue: number;
+
+  @Field()
+  windowStart: Date;
+
+  @Field()
+  windowEnd: Date;
+
+  @Field()
+  detectedAt: Date;
+
+  @Field()
+  message: string;
+}
+
+@InputType()
+export class CrawlAnomaliesInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field(() => CrawlAnomalyType, { nullable: true })
+  type?: CrawlAnomalyType;
+
+  @Field({ nullable: true })
+  domain?: string;
+
+  @Field({ nullable: true })
+  bot?: string;
+
+  @Field({ nullable: true })
+  since?: Date;
+
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+}
@@ -0,0 +1,60 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { SitemapImport } from '../../brands/graphql/brand-page.types';
+import { CrawlCoverageService } from '../services/crawl-coverage.service';
+import { SitemapIngestionService } from '../services/sitemap-ingestion.service';
+import {
+  CrawlCoverageInput,
+  CrawlCoverageReport,
+} from './crawl-coverage.types';
+
+@Resolver(() => CrawlCoverageReport)
+export class CrawlCoverageResolver {
+  constructor(
+    private readonly coverageService: CrawlCoverageService,
+    private readonly sitemapIngestionService: SitemapIngestionService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  /**
+   * How much of the brand's sitemaps AI crawlers fetch, with the pages they
+   * missed and the URLs they fetch outside the sitemaps
+   */
+  @Query(() => CrawlCoverageReport)
+  @UseGuards(JwtAuthGuard)
+  async crawlCoverage(
+    @Args('input') input: CrawlCoverageInput,
+  ): Promise<CrawlCoverageReport> {
+    await this.brandService.assertExists(input.brandId);
+    return this.coverageService.getReport(input.brandId, {
+      domain: input.domain,
+      staleDays: input.staleDays,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Import the pages of an uploaded sitemap.xml and publish the crawl
+   * coverage they result in. For a sitemap index, the sitemaps it lists are
+   * returned to be uploaded next.
+   */
+  @Mutation(() => SitemapImport)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async importBrandSitemap(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('xml') xml: string,
+  ): Promise<SitemapImport> {
+    const result = await this.sitemapIngestionService.importXml(brandId, xml);
+    return {
+      imported: result.imported,
+      skipped: result.skipped,
+      sitemaps: result.missing,
+    };
+  }
+}
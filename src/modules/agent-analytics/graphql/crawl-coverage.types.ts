@@ -0,0 +1,123 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { StalePageReason } from '../interfaces/crawl-coverage.interface';
+
+registerEnumType(StalePageReason, { name: 'StalePageReason' });
+
+@ObjectType()
+export class BotCoverage {
+  @Field()
+  bot: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => Int)
+  crawledPages: number;
+
+  @Field(() => Int)
+  criticalPagesCrawled: number;
+
+  @Field(() => Float)
+  coverage: number;
+
+  @Field()
+  lastCrawledAt: Date;
+}
+
+@ObjectType()
+export class StalePage {
+  @Field()
+  url: string;
+
+  @Field()
+  critical: boolean;
+
+  @Field(() => StalePageReason)
+  reason: StalePageReason;
+
+  @Field(() => Date, { nullable: true })
+  lastModified: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  lastCrawledAt: Date | null;
+}
+
+@ObjectType()
+export class OrphanUrl {
+  @Field()
+  url: string;
+
+  @Field(() => Int)
+  hits: number;
+
+  @Field(() => [String])
+  bots: string[];
+
+  @Field()
+  lastCrawledAt: Date;
+}
+
+@ObjectType()
+export class CrawlCoverageReport {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field(() => String, { nullable: true })
+  domain: string | null;
+
+  @Field()
+  generatedAt: Date;
+
+  @Field(() => Int)
+  pageCount: number;
+
+  @Field(() => Int)
+  criticalPageCount: number;
+
+  @Field(() => Float, {
+    description:
+      'Share of critical sitemap pages an AI crawler fetched within staleDays',
+  })
+  indexingRate: number;
+
+  @Field(() => Int)
+  staleDays: number;
+
+  @Field(() => [BotCoverage])
+  bots: BotCoverage[];
+
+  @Field(() => [StalePage])
+  stalePages: StalePage[];
+
+  @Field(() => Int)
+  staleCount: number;
+
+  @Field(() => [OrphanUrl])
+  orphanUrls: OrphanUrl[];
+
+  @Field(() => Int)
+  orphanCount: number;
+}
+
+@InputType()
+export class CrawlCoverageInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field({ nullable: true })
+  domain?: string;
+
+  @Field(() => Int, { nullable: true })
+  staleDays?: number;
+
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+}
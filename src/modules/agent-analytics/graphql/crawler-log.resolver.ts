@@ -0,0 +1,87 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { BotClassifier } from '../services/bot-classifier';
+import { CrawlerLogService } from '../services/crawler-log.service';
+import {
+  AiCrawler,
+  CrawledPage,
+  CrawledPagesInput,
+  CrawlerReverification,
+  CrawlStatsInput,
+  DomainCrawlStats,
+} from './crawler-log.types';
+
+@Resolver(() => DomainCrawlStats)
+export class CrawlerLogResolver {
+  constructor(
+    private readonly crawlerLogService: CrawlerLogService,
+    private readonly classifier: BotClassifier,
+    private readonly brandService: BrandService,
+  ) {}
+
+  /**
+   * AI crawlers recognized in access logs
+   */
+  @Query(() => [AiCrawler])
+  @UseGuards(JwtAuthGuard)
+  aiCrawlers(): AiCrawler[] {
+    return this.classifier
+      .list()
+      .map(({ name, operator, purpose }) => ({ name, operator, purpose }));
+  }
+
+  @Query(() => [DomainCrawlStats])
+  @UseGuards(JwtAuthGuard)
+  async crawlStats(
+    @Args('input') input: CrawlStatsInput,
+  ): Promise<DomainCrawlStats[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.crawlerLogService.getCrawlStats(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      {
+        domain: input.domain,
+        bot: input.bot,
+        verification: input.verification,
+      },
+    );
+  }
+
+  @Query(() => [CrawledPage])
+  @UseGuards(JwtAuthGuard)
+  async crawledPages(
+    @Args('input') input: CrawledPagesInput,
+  ): Promise<CrawledPage[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.crawlerLogService.getCrawledPages(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      {
+        domain: input.domain,
+        bot: input.bot,
+        verification: input.verification,
+        limit: input.limit,
+      },
+    );
+  }
+
+  /**
+   * Verify the stored crawler hits of a brand again, e.g. after the
+   * published IP ranges changed
+   */
+  @Mutation(() => CrawlerReverification)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async reverifyCrawlerHits(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<CrawlerReverification> {
+    return this.crawlerLogService.reverify(brandId);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  AiBotPurpose,
+  CrawlerVerification,
+} from '../interfaces/crawler-log.interface';
+
+registerEnumType(AiBotPurpose, { name: 'AiBotPurpose' });
+registerEnumType(CrawlerVerification, { name: 'CrawlerVerification' });
+
+@ObjectType()
+export class AiCrawler {
+  @Field()
+  name: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => AiBotPurpose)
+  purpose: AiBotPurpose;
+}
+
+@ObjectType()
+export class StatusCount {
+  @Field(() => Int)
+  status: number;
+
+  @Field(() => Int)
+  count: number;
+}
+
+@ObjectType()
+export class DomainCrawlStats {
+  @Field()
+  domain: string;
+
+  @Field()
+  bot: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => Int)
+  hits: number;
+
+  @Field(() => Int)
+  pages: number;
+
+  @Field(() => Int)
+  activeDays: number;
+
+  @Field(() => Float)
+  hitsPerDay: number;
+
+  @Field(() => Int)
+  verifiedHits: number;
+
+  @Field(() => Int)
+  spoofedHits: number;
+
+  @Field()
+  firstSeenAt: Date;
+
+  @Field()
+  lastSeenAt: Date;
+
+  @Field(() => [StatusCount])
+  statusCodes: StatusCount[];
+}
+
+@ObjectType()
+export class CrawledPage {
+  @Field()
+  domain: string;
+
+  @Field()
+  path: string;
+
+  @Field(() => Int)
+  hits: number;
+
+  @Field(() => [String])
+  bots: string[];
+
+  @Field()
+  lastCrawledAt: Date;
+
+  @Field(() => Int)
+  lastStatus: number;
+}
+
+@InputType()
+export class CrawlStatsInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field({ nullable: true })
+  domain?: string;
+
+  @Field({ nullable: true })
+  bot?: string;
+
+  @Field(() => [CrawlerVerification], { nullable: true })
+  verification?: CrawlerVerification[];
+}
+
+@InputType()
+export class CrawledPagesInput extends CrawlStatsInput {
+  @Field(() => Int, {
+    nullable: true,
+    description: 'At most 500; 100 by default',
+  })
+  limit?: number;
+}
+
+@ObjectType()
+export class CrawlerReverification {
+  @Field(() => Int)
+  checked: number;
+
+  @Field(() => Int)
+  updated: number;
+}
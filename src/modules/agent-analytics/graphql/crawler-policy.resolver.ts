@@ -0,0 +1,63 @@
+import { Resolver, Query, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { BrandService } from '../../brands/services/brand.service';
+import { CrawlerPolicyService } from '../services/crawler-policy.service';
+import {
+  CrawlerIntentInput,
+  CrawlerPolicyReport,
+  CrawlerPolicySuggestions,
+  UrlAccess,
+} from './crawler-policy.types';
+
+@Resolver(() => CrawlerPolicyReport)
+export class CrawlerPolicyResolver {
+  constructor(
+    private readonly crawlerPolicyService: CrawlerPolicyService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  /**
+   * Which AI crawlers a domain's robots.txt allows, with the problems found
+   * in its robots.txt and llms.txt
+   */
+  @Query(() => CrawlerPolicyReport)
+  @UseGuards(JwtAuthGuard)
+  async crawlerPolicy(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('domain') domain: string,
+  ): Promise<CrawlerPolicyReport> {
+    await this.brandService.assertExists(brandId);
+    return this.crawlerPolicyService.getReport(brandId, domain);
+  }
+
+  /**
+   * Whether each known AI crawler may fetch a URL
+   */
+  @Query(() => [UrlAccess])
+  @UseGuards(JwtAuthGuard)
+  async crawlerAccess(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('url') url: string,
+  ): Promise<UrlAccess[]> {
+    await this.brandService.assertExists(brandId);
+    return this.crawlerPolicyService.simulate(brandId, url);
+  }
+
+  /**
+   * robots.txt edits that give AI crawlers the access the brand intends
+   */
+  @Query(() => CrawlerPolicySuggestions)
+  @UseGuards(JwtAuthGuard)
+  async crawlerPolicySuggestions(
+    @Args('input') input: CrawlerIntentInput,
+  ): Promise<CrawlerPolicySuggestions> {
+    await this.brandService.assertExists(input.brandId);
+    return this.crawlerPolicyService.suggest(input.brandId, input.domain, {
+      training: input.training,
+      search: input.search,
+      assistant: input.assistant,
+      disallowPaths: input.disallowPaths,
+    });
+  }
+}
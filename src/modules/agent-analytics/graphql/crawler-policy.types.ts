@@ -0,0 +1,204 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { AiBotPurpose } from '../interfaces/crawler-log.interface';
+import {
+  AccessIntent,
+  PolicyIssueType,
+  RobotsRuleType,
+} from '../interfaces/crawler-policy.interface';
+
+registerEnumType(RobotsRuleType, { name: 'RobotsRuleType' });
+registerEnumType(PolicyIssueType, { name: 'PolicyIssueType' });
+registerEnumType(AccessIntent, { name: 'AccessIntent' });
+
+@ObjectType()
+export class RobotsRule {
+  @Field(() => RobotsRuleType)
+  type: RobotsRuleType;
+
+  @Field()
+  path: string;
+
+  @Field(() => Int)
+  line: number;
+}
+
+@ObjectType()
+export class BotAccess {
+  @Field()
+  bot: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => AiBotPurpose)
+  purpose: AiBotPurpose;
+
+  @Field(() => String, {
+    nullable: true,
+    description: 'User-agent group the crawler follows, or * for the default',
+  })
+  group: string | null;
+
+  @Field({ description: 'Whether the crawler may fetch the site root' })
+  allowed: boolean;
+
+  @Field(() => [String])
+  disallowed: string[];
+
+  @Field(() => [String])
+  allowedPaths: string[];
+}
+
+@ObjectType()
+export class PathAccess {
+  @Field()
+  path: string;
+
+  @Field(() => [String])
+  allowedBots: string[];
+
+  @Field(() => [String])
+  blockedBots: string[];
+}
+
+@ObjectType()
+export class PolicyIssue {
+  @Field(() => PolicyIssueType)
+  type: PolicyIssueType;
+
+  @Field()
+  message: string;
+
+  @Field(() => Int, { nullable: true })
+  line: number | null;
+
+  @Field(() => String, { nullable: true })
+  userAgent: string | null;
+
+  @Field(() => String, { nullable: true })
+  path: string | null;
+}
+
+@ObjectType()
+export class LlmsTxtSummary {
+  @Field(() => String, { nullable: true })
+  title: string | null;
+
+  @Field(() => String, { nullable: true })
+  summary: string | null;
+
+  @Field(() => [String])
+  sections: string[];
+
+  @Field(() => Int)
+  linkCount: number;
+}
+
+@ObjectType()
+export class CrawlerPolicyReport {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  domain: string;
+
+  @Field()
+  hasRobotsTxt: boolean;
+
+  @Field(() => LlmsTxtSummary, { nullable: true })
+  llmsTxt: LlmsTxtSummary | null;
+
+  @Field(() => [String])
+  sitemaps: string[];
+
+  @Field(() => [BotAccess])
+  bots: BotAccess[];
+
+  @Field(() => [PathAccess])
+  paths: PathAccess[];
+
+  @Field(() => [PolicyIssue])
+  issues: PolicyIssue[];
+
+  @Field()
+  updatedAt: Date;
+}
+
+@ObjectType()
+export class UrlAccess {
+  @Field()
+  bot: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => AiBotPurpose)
+  purpose: AiBotPurpose;
+
+  @Field()
+  allowed: boolean;
+
+  @Field(() => String, { nullable: true })
+  group: string | null;
+
+  @Field(() => RobotsRule, {
+    nullable: true,
+    description: 'Rule that decided access; null when no rule matches',
+  })
+  rule: RobotsRule | null;
+}
+
+@ObjectType()
+export class PolicySuggestion {
+  @Field(() => String, { nullable: true })
+  bot: string | null;
+
+  @Field()
+  message: string;
+
+  @Field(() => [String])
+  directives: string[];
+}
+
+@ObjectType()
+export class CrawlerPolicySuggestions {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  domain: string;
+
+  @Field(() => [PolicySuggestion])
+  suggestions: PolicySuggestion[];
+
+  @Field({ description: 'robots.txt with the suggestions applied' })
+  robotsTxt: string;
+}
+
+@InputType()
+export class CrawlerIntentInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  domain: string;
+
+  @Field(() => AccessIntent, { nullable: true })
+  training?: AccessIntent;
+
+  @Field(() => AccessIntent, { nullable: true })
+  search?: AccessIntent;
+
+  @Field(() => AccessIntent, { nullable: true })
+  assistant?: AccessIntent;
+
+  @Field(() => [String], { nullable: true })
+  disallowPaths?: string[];
+}
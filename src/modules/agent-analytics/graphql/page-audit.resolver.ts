@@ -0,0 +1,63 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { PageAuditService } from '../services/page-audit.service';
+import {
+  Optimization,
+  OptimizationValidation,
+  PageAuditResult,
+  PageOptimizationsInput,
+} from './page-audit.types';
+
+@Resolver(() => Optimization)
+export class PageAuditResolver {
+  constructor(
+    private readonly pageAuditService: PageAuditService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [Optimization])
+  @UseGuards(JwtAuthGuard)
+  async pageOptimizations(
+    @Args('input') input: PageOptimizationsInput,
+  ): Promise<Optimization[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.pageAuditService.findByBrand(input.brandId, {
+      url: input.url,
+      status: input.status,
+      priority: input.priority,
+      category: input.category,
+      limit: input.limit,
+    });
+  }
+
+  /**
+   * Audit a page from the local mirror of the brand's sites
+   */
+  @Mutation(() => PageAuditResult)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async auditPage(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('url') url: string,
+  ): Promise<PageAuditResult> {
+    return this.pageAuditService.auditMirror(brandId, url);
+  }
+
+  /**
+   * Re-check the mirrored page of an optimization after it was implemented
+   */
+  @Mutation(() => OptimizationValidation)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async validateOptimization(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<OptimizationValidation> {
+    return this.pageAuditService.validateImplementation(brandId, id);
+  }
+}
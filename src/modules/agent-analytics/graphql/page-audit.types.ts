@@ -0,0 +1,131 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  OptimizationCategory,
+  OptimizationPriority,
+  OptimizationStatus,
+  OptimizationType,
+} from '../interfaces/page-audit.interface';
+
+registerEnumType(OptimizationCategory, { name: 'OptimizationCategory' });
+registerEnumType(OptimizationType, { name: 'OptimizationType' });
+registerEnumType(OptimizationPriority, { name: 'OptimizationPriority' });
+registerEnumType(OptimizationStatus, { name: 'OptimizationStatus' });
+
+@ObjectType()
+export class AuditFinding {
+  @Field(() => OptimizationType)
+  type: OptimizationType;
+
+  @Field(() => OptimizationCategory)
+  category: OptimizationCategory;
+
+  @Field(() => OptimizationPriority)
+  priority: OptimizationPriority;
+
+  @Field()
+  title: string;
+
+  @Field()
+  recommendation: string;
+
+  @Field(() => String, { nullable: true })
+  detail: string | null;
+}
+
+@ObjectType()
+export class Optimization extends AuditFinding {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field()
+  url: string;
+
+  @Field(() => OptimizationStatus)
+  status: OptimizationStatus;
+
+  @Field()
+  detectedAt: Date;
+
+  @Field()
+  lastCheckedAt: Date;
+
+  @Field(() => Date, { nullable: true })
+  resolvedAt: Date | null;
+}
+
+@ObjectType()
+export class PageAuditResult {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  url: string;
+
+  @Field()
+  checkedAt: Date;
+
+  @Field(() => Float, {
+    description: "Share of the body's words that are the page's own content",
+  })
+  contentRatio: number;
+
+  @Field(() => [Optimization], {
+    description: 'Open optimizations of the page, highest priority first',
+  })
+  optimizations: Optimization[];
+
+  @Field(() => Int, {
+    description: 'Optimizations this audit found implemented',
+  })
+  resolved: number;
+}
+
+@ObjectType()
+export class OptimizationValidation {
+  @Field(() => Optimization)
+  optimization: Optimization;
+
+  @Field()
+  passed: boolean;
+
+  @Field()
+  checkedAt: Date;
+
+  @Field(() => AuditFinding, {
+    nullable: true,
+    description: 'The problem as the page still has it',
+  })
+  finding: AuditFinding | null;
+}
+
+@InputType()
+export class PageOptimizationsInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field({ nullable: true })
+  url?: string;
+
+  @Field(() => OptimizationStatus, { nullable: true })
+  status?: OptimizationStatus;
+
+  @Field(() => OptimizationPriority, { nullable: true })
+  priority?: OptimizationPriority;
+
+  @Field(() => OptimizationCategory, { nullable: true })
+  category?: OptimizationCategory;
+
+  @Field(() => Int, { nullable: true, description: 'At most 500, the default' })
+  limit?: number;
+}
@@ -0,0 +1,152 @@
+/**
+ * AI assistants and answer engines that send visitors to brand sites
+ */
+export enum AiReferralPlatform {
+  CHATGPT = 'chatgpt',
+  PERPLEXITY = 'perplexity',
+  COPILOT = 'copilot',
+  GEMINI = 'gemini',
+  CLAUDE = 'claude',
+  DEEPSEEK = 'deepseek',
+  META_AI = 'meta_ai',
+  GROK = 'grok',
+  MISTRAL = 'mistral',
+  YOU = 'you',
+  PHIND = 'phind',
+  POE = 'poe',
+}
+
+/**
+ * How AI referral traffic reached the platform
+ */
+export enum AiReferralSource {
+  /** Rows of an analytics export */
+  IMPORT = 'import',
+
+  /** Events sent by the collector endpoint */
+  COLLECTOR = 'collector',
+}
+
+export enum AiReferralEvent {
+  /** A visit that arrived from an AI platform */
+  SESSION = 'session',
+
+  /** A form fill, purchase or other goal of a visit from an AI platform */
+  CONVERSION = 'conversion',
+}
+
+export interface AiReferrerSignature {
+  platform: AiReferralPlatform;
+
+  /** Display name, e.g. "ChatGPT" */
+  name: string;
+
+  /** Referrer hosts; subdomains match as well */
+  hosts: string[];
+
+  /** `utm_source` values the platform tags its links with */
+  utmSources: string[];
+}
+
+/**
+ * The AI platform a visit came from, and the host that identified it
+ */
+export interface ClassifiedReferrer {
+  platform: AiReferralPlatform;
+
+  /**
+   * Known platform host the referrer matched, or the `utm_source` value when
+   * only that matched
+   */
+  referrer: string;
+}
+
+export interface AiReferralImportResult {
+  /** Rows attributed to an AI platform */
+  imported: number;
+
+  /** Rows from other referrers */
+  ignored: number;
+
+  /** Rows that could not be read, by line */
+  skipped: { line: number; reason: string }[];
+}
+
+/**
+ * An event the collector endpoint receives from a brand site
+ */
+export interface CollectedReferral {
+  /** Site key of the brand's collector */
+  key: string;
+
+  /** Session ID the brand site generated for the visit */
+  sessionId: string;
+
+  /** Page the event happened on */
+  url: string;
+
+  /**
+   * Referrer the visit started with. Conversions are credited to the
+   * platform that referred their session, so they need not send it.
+   */
+  referrer?: string;
+  event?: AiReferralEvent;
+
+  /** Revenue of a conversion */
+  value?: number;
+}
+
+export interface AiReferralCollectResult {
+  /**
+   * Whether the event came from an AI platform and was counted; a session
+   * is counted once
+   */
+  recorded: boolean;
+  platform: AiReferralPlatform | null;
+}
+
+export interface AiReferralTotals {
+  platform: AiReferralPlatform;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+}
+
+/**
+ * AI referral traffic to a domain on one day
+ */
+export interface AiReferralDay {
+  /** UTC date, e.g. "2025-04-01" */
+  date: string;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+
+  /** Platforms that sent traffic that day */
+  platforms: AiReferralTotals[];
+}
+
+/**
+ * Daily AI referral traffic of one brand domain
+ */
+export interface AiReferralSeries {
+  domain: string;
+
+  /** Every day of the period, including days without traffic */
+  days: AiReferralDay[];
+
+  /** Per platform over the period, most sessions first */
+  totals: AiReferralTotals[];
+}
+
+export interface AiReferralSeriesFilter {
+  domain?: string;
+  platform?: AiReferralPlatform;
+  source?: AiReferralSource;
+
+  /** First day included; defaults to 30 days before `until` */
+  since?: Date;
+
+  /** Last day included; defaults to today */
+  until?: Date;
+}
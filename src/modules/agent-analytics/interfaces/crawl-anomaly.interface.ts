@@ -0,0 +1,72 @@
+/**
+ * Ways AI crawler traffic can depart from its usual pattern
+ */
+export enum CrawlAnomalyType {
+  /** A bot visits a domain far less often than usual, or not at all */
+  CRAWL_DROP = 'crawl_drop',
+
+  /** A bot visits a domain far more often than usual */
+  CRAWL_SPIKE = 'crawl_spike',
+
+  /** A larger share than usual of a bot's requests got a 4xx response */
+  CLIENT_ERROR_SURGE = 'client_error_surge',
+
+  /** A larger share than usual of a bot's requests got a 5xx response */
+  SERVER_ERROR_SURGE = 'server_error_surge',
+
+  /** A crawler no signature knows started visiting a domain */
+  NEW_BOT = 'new_bot',
+}
+
+export enum CrawlAnomalySeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+/**
+ * One crawler seen in the detection window and the windows before it
+ */
+export interface CrawlWindowStats {
+  domain: string;
+  bot: string;
+
+  /** Hits in the detection window */
+  hits: number;
+  clientErrors: number;
+  serverErrors: number;
+
+  /** Hits over all baseline windows */
+  baselineHits: number;
+  baselineClientErrors: number;
+  baselineServerErrors: number;
+}
+
+export interface CrawlAnomalyFilter {
+  type?: CrawlAnomalyType;
+  domain?: string;
+  bot?: string;
+
+  /** Earliest detection time */
+  since?: Date;
+
+  /** Most anomalies returned */
+  limit?: number;
+}
+
+/**
+ * Payload of a crawl anomaly event, sent to notification destinations
+ */
+export interface CrawlAnomalyEvent {
+  id: string;
+  brandId: string;
+  type: CrawlAnomalyType;
+  severity: CrawlAnomalySeverity;
+  domain: string;
+  bot: string;
+  baselineValue: number;
+  observedValue: number;
+  windowStart: Date;
+  windowEnd: Date;
+  message: string;
+}
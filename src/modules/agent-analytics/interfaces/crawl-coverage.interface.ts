@@ -0,0 +1,110 @@
+/**
+ * Why a sitemap page needs AI crawlers to fetch it again
+ */
+export enum StalePageReason {
+  /** No AI crawler fetched the page in the lookback window */
+  NEVER_CRAWLED = 'never_crawled',
+
+  /** The last fetch is older than the stale threshold */
+  NOT_RECRAWLED = 'not_recrawled',
+
+  /** The sitemap says the page changed after its last fetch */
+  MODIFIED_SINCE_CRAWL = 'modified_since_crawl',
+}
+
+/**
+ * How much of a brand's sitemap one AI crawler fetched
+ */
+export interface BotCoverage {
+  bot: string;
+  operator: string;
+
+  /** Sitemap pages the bot fetched */
+  crawledPages: number;
+
+  /** Critical pages the bot fetched */
+  criticalPagesCrawled: number;
+
+  /** Share of critical pages the bot fetched, in [0, 1] */
+  coverage: number;
+  lastCrawledAt: Date;
+}
+
+/**
+ * A sitemap page AI crawlers have not fetched recently
+ */
+export interface StalePage {
+  url: string;
+  critical: boolean;
+  reason: StalePageReason;
+  lastModified: Date | null;
+
+  /** Last fetch by any AI crawler, if any */
+  lastCrawledAt: Date | null;
+}
+
+/**
+ * A URL AI crawlers fetch that no sitemap lists
+ */
+export interface OrphanUrl {
+  url: string;
+  hits: number;
+  bots: string[];
+  lastCrawledAt: Date;
+}
+
+/**
+ * How well AI crawlers cover the pages a brand's sitemaps list
+ */
+export interface CrawlCoverageReport {
+  brandId: string;
+
+  /** Domain the report is limited to, if any */
+  domain: string | null;
+  generatedAt: Date;
+
+  /** Sitemap pages, and those of them that are critical */
+  pageCount: number;
+  criticalPageCount: number;
+
+  /**
+   * AI Crawler Indexing Rate: share of critical pages some AI crawler
+   * fetched within the stale threshold, in [0, 1]
+   */
+  indexingRate: number;
+  staleDays: number;
+  bots: BotCoverage[];
+
+  /** Stale pages, critical and longest unvisited first */
+  stalePages: StalePage[];
+  staleCount: number;
+
+  /** Orphan URLs, most fetched first */
+  orphanUrls: OrphanUrl[];
+  orphanCount: number;
+}
+
+export interface CrawlCoverageOptions {
+  /** Only this domain */
+  domain?: string;
+
+  /** Days after which a page is stale; defaults to the configured value */
+  staleDays?: number;
+
+  /** Most stale pages and orphan URLs listed */
+  limit?: number;
+}
+
+/**
+ * Outcome of importing a sitemap file and the sitemaps it lists
+ */
+export interface SitemapIngestionResult {
+  imported: number;
+  skipped: { url: string; reason: string }[];
+
+  /** Sitemap files read */
+  files: string[];
+
+  /** Sitemaps an index lists that were not found next to it */
+  missing: string[];
+}
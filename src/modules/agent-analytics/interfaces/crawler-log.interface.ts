@@ -0,0 +1,232 @@
+/**
+ * Access log formats the importer understands
+ */
+export enum AccessLogFormat {
+  /** Apache/nginx common or combined log format */
+  COMBINED = 'combined',
+
+  /** One JSON object per line */
+  JSON = 'json',
+
+  /** Amazon CloudFront standard logs (W3C extended, tab-separated) */
+  CLOUDFRONT = 'cloudfront',
+}
+
+/**
+ * One request read from an access log
+ */
+export interface AccessLogEntry {
+  requestedAt: Date;
+  ip: string;
+  method: string;
+
+  /** Requested host, when the format records it */
+  host: string | null;
+
+  /** Path and query string, e.g. "/pricing?plan=pro" */
+  path: string;
+  status: number;
+  bytes: number | null;
+  userAgent: string;
+  referrer: string | null;
+}
+
+/**
+ * Outcome of reading one line of an access log, with the 1-based line number
+ * and the format the line was read as
+ */
+export type AccessLogLine = { line: number; format: AccessLogFormat } & (
+  | { entry: AccessLogEntry }
+  | { error: string }
+);
+
+/**
+ * What an AI crawler fetches content for
+ */
+export enum AiBotPurpose {
+  /** Collects content to train models */
+  TRAINING = 'training',
+
+  /** Indexes content for AI search results */
+  SEARCH = 'search',
+
+  /** Fetches a page on behalf of a user's conversation */
+  ASSISTANT = 'assistant',
+}
+
+/**
+ * How to recognize an AI crawler by its user agent
+ */
+export interface AiBotSignature {
+  /** Product token, e.g. "GPTBot" */
+  name: string;
+
+  /** Company running the crawler */
+  operator: string;
+  purpose: AiBotPurpose;
+  pattern: RegExp;
+
+  /**
+   * Domains the crawler's reverse DNS names fall under, for operators that
+   * document them
+   */
+  hostnames?: string[];
+}
+
+/**
+ * Whether a request claiming to be an AI crawler came from its operator
+ */
+export enum CrawlerVerification {
+  /** The IP is in a published range, or its DNS names confirm the operator */
+  VERIFIED = 'verified',
+
+  /** The operator publishes no way to check, or DNS gave no answer */
+  UNVERIFIED = 'unverified',
+
+  /** The IP is outside the published ranges and DNS does not confirm it */
+  SPOOFED = 'spoofed',
+}
+
+/**
+ * IP ranges crawler operators publish, as CIDR lists keyed by crawler name,
+ * e.g. `{ "GPTBot": ["20.171.206.0/24"] }`
+ */
+export type CrawlerIpRanges = Record<string, string[]>;
+
+export interface CrawlerLogImportOptions {
+  /** Format of the log; detected from its first lines when omitted */
+  format?: AccessLogFormat;
+
+  /**
+   * Brand domain the log was served for, used for formats that do not
+   * record the host. Defaults to the brand's only domain.
+   */
+  domain?: string;
+}
+
+/**
+ * Outcome of importing an access log
+ */
+export interface CrawlerLogImportResult {
+  format: AccessLogFormat;
+
+  /** Non-empty lines read, excluding comments */
+  lines: number;
+
+  /** AI crawler requests stored */
+  aiHits: number;
+
+  /** AI crawler requests skipped because an earlier import stored them */
+  duplicates: number;
+
+  /** Requests by other clients, which are not stored */
+  otherRequests: number;
+
+  /** AI crawler requests for hosts that are not brand domains */
+  foreignHosts: number;
+
+  /** AI crawler hits per bot */
+  bots: Record<string, number>;
+
+  /** Brand domain requests per bot that matches no AI signature */
+  unknownBots: Record<string, number>;
+
+  /** AI crawler hits per verification outcome */
+  verification: Record<CrawlerVerification, number>;
+
+  /** Unreadable lines, the first few of them */
+  errors: { line: number; reason: string }[];
+  errorCount: number;
+}
+
+/**
+ * Requests that received a status code
+ */
+export interface StatusCount {
+  status: number;
+  count: number;
+}
+
+/**
+ * How one bot crawled one brand domain over a range
+ */
+export interface DomainCrawlStats {
+  domain: string;
+  bot: string;
+  operator: string;
+  hits: number;
+
+  /** Distinct paths requested */
+  pages: number;
+
+  /** Distinct days with at least one hit */
+  activeDays: number;
+
+  /** Hits per day over the range */
+  hitsPerDay: number;
+
+  /** Hits from IPs confirmed to belong to the operator */
+  verifiedHits: number;
+
+  /** Hits from IPs that impersonate the crawler */
+  spoofedHits: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  statusCodes: StatusCount[];
+}
+
+/**
+ * How AI crawlers fetched one page over a range
+ */
+export interface CrawledPage {
+  domain: string;
+  path: string;
+  hits: number;
+  bots: string[];
+  lastCrawledAt: Date;
+
+  /** Status served on the most recent hit */
+  lastStatus: number;
+}
+
+/**
+ * How one bot crawled one page, ignoring the query string
+ */
+export interface PageCrawl {
+  domain: string;
+
+  /** Path without the query string, e.g. "/pricing" */
+  path: string;
+  bot: string;
+  operator: string;
+  hits: number;
+
+  /** Hits answered with a 2xx status */
+  successfulHits: number;
+  lastCrawledAt: Date;
+}
+
+/**
+ * Filters for crawl statistics
+ */
+export interface CrawlFilter {
+  /** Only this domain */
+  domain?: string;
+
+  /** Only this crawler */
+  bot?: string;
+
+  /** Only hits with one of these verification outcomes */
+  verification?: CrawlerVerification[];
+}
+
+/**
+ * Outcome of verifying the stored hits of a brand again
+ */
+export interface CrawlerReverificationResult {
+  /** Distinct crawler and IP pairs checked */
+  checked: number;
+
+  /** Hits whose verification outcome changed */
+  updated: number;
+}
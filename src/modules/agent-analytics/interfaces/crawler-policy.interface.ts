@@ -0,0 +1,204 @@
+import { AiBotPurpose } from './crawler-log.interface';
+
+export enum RobotsRuleType {
+  ALLOW = 'allow',
+  DISALLOW = 'disallow',
+}
+
+/**
+ * An Allow or Disallow line of robots.txt
+ */
+export interface RobotsRule {
+  type: RobotsRuleType;
+
+  /** Path pattern, where `*` matches any characters and a trailing `$` ends the path */
+  path: string;
+  line: number;
+}
+
+/**
+ * User-agent lines and the rules that follow them
+ */
+export interface RobotsGroup {
+  userAgents: { name: string; line: number }[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Problems with a brand's crawler policy files
+ */
+export enum PolicyIssueType {
+  /** A line robots.txt parsers do not understand */
+  INVALID_LINE = 'invalid_line',
+
+  /** An Allow or Disallow line before any User-agent line, which crawlers ignore */
+  RULE_WITHOUT_USER_AGENT = 'rule_without_user_agent',
+
+  /** The same path is both allowed and disallowed for a user agent */
+  CONFLICTING_RULES = 'conflicting_rules',
+
+  /** A user agent is named in more than one group, which crawlers merge */
+  DUPLICATE_GROUP = 'duplicate_group',
+
+  /**
+   * An AI crawler's own group replaces the `*` group, leaving open a path
+   * the `*` group disallows
+   */
+  WILDCARD_OVERRIDE = 'wildcard_override',
+
+  /** llms.txt points AI crawlers to a page robots.txt blocks them from */
+  BLOCKED_LLMS_LINK = 'blocked_llms_link',
+
+  /** llms.txt does not follow the llms.txt format */
+  INVALID_LLMS_TXT = 'invalid_llms_txt',
+}
+
+export interface PolicyIssue {
+  type: PolicyIssueType;
+  message: string;
+
+  /** Line of the file the issue was found on */
+  line: number | null;
+  userAgent: string | null;
+  path: string | null;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  issues: PolicyIssue[];
+}
+
+/**
+ * A link in an llms.txt file list
+ */
+export interface LlmsTxtLink {
+  title: string;
+  url: string;
+  notes: string | null;
+
+  /** H2 heading the link is listed under */
+  section: string | null;
+
+  /** Listed under "Optional", which AI tools may skip */
+  optional: boolean;
+  line: number;
+}
+
+export interface LlmsTxt {
+  title: string | null;
+  summary: string | null;
+  sections: string[];
+  links: LlmsTxtLink[];
+  issues: PolicyIssue[];
+}
+
+/**
+ * What robots.txt lets one AI crawler do
+ */
+export interface BotAccess {
+  bot: string;
+  operator: string;
+  purpose: AiBotPurpose;
+
+  /** User-agent the crawler follows, `*`, or null when no group applies */
+  group: string | null;
+
+  /** Whether the crawler may fetch the site root */
+  allowed: boolean;
+
+  /** Patterns disallowed for the crawler */
+  disallowed: string[];
+
+  /** Patterns explicitly allowed for the crawler */
+  allowedPaths: string[];
+}
+
+/**
+ * Which AI crawlers may fetch a path robots.txt mentions
+ */
+export interface PathAccess {
+  path: string;
+  allowedBots: string[];
+  blockedBots: string[];
+}
+
+export interface LlmsTxtSummary {
+  title: string | null;
+  summary: string | null;
+  sections: string[];
+  linkCount: number;
+}
+
+/**
+ * How a domain's robots.txt and llms.txt treat AI crawlers
+ */
+export interface CrawlerPolicyReport {
+  brandId: string;
+  domain: string;
+  hasRobotsTxt: boolean;
+  llmsTxt: LlmsTxtSummary | null;
+  sitemaps: string[];
+  bots: BotAccess[];
+  paths: PathAccess[];
+  issues: PolicyIssue[];
+  updatedAt: Date;
+}
+
+/**
+ * Whether one AI crawler may fetch a URL, and the rule deciding it
+ */
+export interface UrlAccess {
+  bot: string;
+  operator: string;
+  purpose: AiBotPurpose;
+  allowed: boolean;
+  group: string | null;
+
+  /** Longest matching rule, or null when no rule matches */
+  rule: RobotsRule | null;
+}
+
+export enum AccessIntent {
+  ALLOW = 'allow',
+  BLOCK = 'block',
+}
+
+/**
+ * How a brand wants AI crawlers to treat a domain, by crawler purpose.
+ * Purposes without an intent are left as they are.
+ */
+export interface CrawlerIntent {
+  training?: AccessIntent;
+  search?: AccessIntent;
+  assistant?: AccessIntent;
+
+  /** Paths to keep from AI crawlers that are otherwise allowed */
+  disallowPaths?: string[];
+}
+
+/**
+ * A change that brings the policy files in line with the brand's intent
+ */
+export interface PolicySuggestion {
+  /** Crawler the change is for, or null for the domain as a whole */
+  bot: string | null;
+  message: string;
+
+  /** robots.txt lines to add for the crawler */
+  directives: string[];
+}
+
+export interface CrawlerPolicySuggestions {
+  brandId: string;
+  domain: string;
+  suggestions: PolicySuggestion[];
+
+  /** robots.txt with the suggestions applied */
+  robotsTxt: string;
+}
+
+export interface CrawlerPolicyFiles {
+  robotsTxt?: string;
+  llmsTxt?: string;
+}
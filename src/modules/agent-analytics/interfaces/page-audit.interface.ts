@@ -0,0 +1,160 @@
+/**
+ * Areas of a page the audit checks
+ */
+export enum OptimizationCategory {
+  STRUCTURED_DATA = 'structured_data',
+  META = 'meta',
+  HEADINGS = 'headings',
+  CANONICAL = 'canonical',
+  CONTENT = 'content',
+}
+
+/**
+ * Changes that make a page easier for AI crawlers and answer engines to
+ * read and cite
+ */
+export enum OptimizationType {
+  /** No JSON-LD describes the page */
+  MISSING_STRUCTURED_DATA = 'missing_structured_data',
+
+  /** A JSON-LD block is not valid JSON or has no schema.org type */
+  INVALID_STRUCTURED_DATA = 'invalid_structured_data',
+
+  /** A schema.org item lacks properties its type needs */
+  INCOMPLETE_STRUCTURED_DATA = 'incomplete_structured_data',
+
+  MISSING_META_DESCRIPTION = 'missing_meta_description',
+  DUPLICATE_META_DESCRIPTION = 'duplicate_meta_description',
+
+  /** The meta description is too short to summarize the page, or too long */
+  META_DESCRIPTION_LENGTH = 'meta_description_length',
+
+  MISSING_H1 = 'missing_h1',
+  MULTIPLE_H1 = 'multiple_h1',
+
+  /** A heading is more than one level below the one before it */
+  SKIPPED_HEADING_LEVEL = 'skipped_heading_level',
+
+  MISSING_CANONICAL = 'missing_canonical',
+  MULTIPLE_CANONICALS = 'multiple_canonicals',
+
+  /** The canonical link is not an absolute http(s) URL */
+  INVALID_CANONICAL = 'invalid_canonical',
+
+  /** The canonical link points to another site */
+  CROSS_DOMAIN_CANONICAL = 'cross_domain_canonical',
+
+  /** Navigation, headers and footers outweigh the page's own content */
+  LOW_CONTENT_RATIO = 'low_content_ratio',
+}
+
+export enum OptimizationPriority {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
+
+export enum OptimizationStatus {
+  /** The page still has the problem */
+  OPEN = 'open',
+
+  /** The last audit of the page no longer found the problem */
+  RESOLVED = 'resolved',
+}
+
+export interface PageHeading {
+  level: number;
+  text: string;
+}
+
+/**
+ * What the audit reads from a page's HTML
+ */
+export interface PageSnapshot {
+  title: string | null;
+  metaDescriptions: string[];
+
+  /** `href` of each `<link rel="canonical">` */
+  canonicals: string[];
+  headings: PageHeading[];
+
+  /** Contents of each `<script type="application/ld+json">` */
+  jsonLd: string[];
+
+  /** Words of visible text in the body */
+  bodyWords: number;
+
+  /**
+   * Words outside navigation, headers, footers, sidebars and forms, or
+   * inside `<main>` or `<article>` when the page has them
+   */
+  contentWords: number;
+}
+
+/**
+ * A problem found on a page, before it is stored
+ */
+export interface AuditFinding {
+  type: OptimizationType;
+  category: OptimizationCategory;
+  priority: OptimizationPriority;
+  title: string;
+
+  /** What to change */
+  recommendation: string;
+
+  /** The markup at fault, when there is one to point to */
+  detail: string | null;
+}
+
+/**
+ * A change recommended for one page of a brand
+ */
+export interface Optimization extends AuditFinding {
+  id: string;
+  brandId: string;
+  url: string;
+  status: OptimizationStatus;
+  detectedAt: Date;
+  lastCheckedAt: Date;
+  resolvedAt: Date | null;
+}
+
+export interface PageAuditResult {
+  brandId: string;
+  url: string;
+  checkedAt: Date;
+
+  /** Share of the body's words that are the page's own content */
+  contentRatio: number;
+
+  /** Open optimizations of the page, highest priority first */
+  optimizations: Optimization[];
+
+  /** Optimizations this audit found implemented */
+  resolved: number;
+}
+
+/**
+ * Outcome of re-checking a page for one optimization
+ */
+export interface ValidationResult {
+  optimization: Optimization;
+
+  /** Whether the page no longer has the problem */
+  passed: boolean;
+  checkedAt: Date;
+
+  /** The problem as the page still has it, or null when it passed */
+  finding: AuditFinding | null;
+}
+
+export interface OptimizationFilter {
+  url?: string;
+  status?: OptimizationStatus;
+  priority?: OptimizationPriority;
+  category?: OptimizationCategory;
+
+  /** Most optimizations returned */
+  limit?: number;
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCrawlerHits1743897600000 implements MigrationInterface {
+  name = 'CreateCrawlerHits1743897600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "crawler_hits" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "bot" character varying(50) NOT NULL,
+        "operator" character varying(50) NOT NULL,
+        "purpose" character varying(20) NOT NULL,
+        "path" text NOT NULL,
+        "method" character varying(10) NOT NULL,
+        "status" smallint NOT NULL,
+        "bytes" integer,
+        "ip" character varying(45) NOT NULL,
+        "userAgent" text NOT NULL,
+        "requestedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_crawler_hits" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_crawler_hits_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_crawler_hits_brand_requested"
+        ON "crawler_hits" ("brandId", "requestedAt")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_crawler_hits_brand_domain_bot"
+        ON "crawler_hits" ("brandId", "domain", "bot", "requestedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_crawler_hits_brand_domain_bot"`);
+    await queryRunner.query(`DROP INDEX "IDX_crawler_hits_brand_requested"`);
+    await queryRunner.query(`DROP TABLE "crawler_hits"`);
+  }
+}
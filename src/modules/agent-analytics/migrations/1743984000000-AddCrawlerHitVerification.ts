@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCrawlerHitVerification1743984000000
+  implements MigrationInterface
+{
+  name = 'AddCrawlerHitVerification1743984000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "crawler_hits"
+        ADD "verification" character varying(20) NOT NULL DEFAULT 'unverified'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "crawler_hits" DROP COLUMN "verification"`,
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCrawlAnomalies1744070400000 implements MigrationInterface {
+  name = 'CreateCrawlAnomalies1744070400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "unknown_bots" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "userAgent" text NOT NULL,
+        "hits" integer NOT NULL,
+        "firstSeenAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "lastSeenAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_unknown_bots" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_unknown_bots_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_unknown_bots_brand_domain_name"
+        ON "unknown_bots" ("brandId", "domain", "name")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "crawl_anomalies" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "type" character varying(30) NOT NULL,
+        "severity" character varying(10) NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "bot" character varying(100) NOT NULL,
+        "baselineValue" double precision NOT NULL,
+        "observedValue" double precision NOT NULL,
+        "windowStart" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "windowEnd" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "detectedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "message" text NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_crawl_anomalies" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_crawl_anomalies_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_crawl_anomalies_brand_detected"
+        ON "crawl_anomalies" ("brandId", "detectedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_crawl_anomalies_brand_detected"`);
+    await queryRunner.query(`DROP TABLE "crawl_anomalies"`);
+    await queryRunner.query(`DROP INDEX "IDX_unknown_bots_brand_domain_name"`);
+    await queryRunner.query(`DROP TABLE "unknown_bots"`);
+  }
+}
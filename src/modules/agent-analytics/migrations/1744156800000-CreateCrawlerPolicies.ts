@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCrawlerPolicies1744156800000 implements MigrationInterface {
+  name = 'CreateCrawlerPolicies1744156800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "crawler_policies" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "robotsTxt" text,
+        "llmsTxt" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_crawler_policies" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_crawler_policies_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_crawler_policies_brand_domain"
+        ON "crawler_policies" ("brandId", "domain")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_crawler_policies_brand_domain"`);
+    await queryRunner.query(`DROP TABLE "crawler_policies"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePageOptimizations1744243200000
+  implements MigrationInterface
+{
+  name = 'CreatePageOptimizations1744243200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "page_optimizations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "url" text NOT NULL,
+        "type" character varying(40) NOT NULL,
+        "category" character varying(20) NOT NULL,
+        "priority" character varying(10) NOT NULL,
+        "status" character varying(10) NOT NULL,
+        "title" character varying(255) NOT NULL,
+        "recommendation" text NOT NULL,
+        "detail" text,
+        "detectedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "lastCheckedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "resolvedAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_page_optimizations" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_page_optimizations_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_page_optimizations_brand_url"
+        ON "page_optimizations" ("brandId", "url")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_page_optimizations_brand_status"
+        ON "page_optimizations" ("brandId", "status")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_page_optimizations_brand_status"`);
+    await queryRunner.query(`DROP INDEX "IDX_page_optimizations_brand_url"`);
+    await queryRunner.query(`DROP TABLE "page_optimizations"`);
+  }
+}
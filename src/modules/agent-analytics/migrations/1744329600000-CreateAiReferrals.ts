@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAiReferrals1744329600000 implements MigrationInterface {
+  name = 'CreateAiReferrals1744329600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "ai_referrals" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "date" date NOT NULL,
+        "platform" character varying(20) NOT NULL,
+        "referrer" character varying(255) NOT NULL,
+        "source" character varying(10) NOT NULL,
+        "sessions" integer NOT NULL DEFAULT 0,
+        "conversions" double precision NOT NULL DEFAULT 0,
+        "revenue" double precision NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_ai_referrals" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_ai_referrals_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_ai_referrals_brand_domain_day"
+        ON "ai_referrals" ("brandId", "domain", "date", "platform", "referrer", "source")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_ai_referrals_brand_domain_day"`);
+    await queryRunner.query(`DROP TABLE "ai_referrals"`);
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAiReferralCollectorKeys1744416000000
+  implements MigrationInterface
+{
+  name = 'AddAiReferralCollectorKeys1744416000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "ai_referral_collectors" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "keyHash" character(64) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_ai_referral_collectors" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_ai_referral_collectors_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_ai_referral_collectors_brand"
+        ON "ai_referral_collectors" ("brandId")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "ai_referral_sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "sessionId" character varying(64) NOT NULL,
+        "platform" character varying(20) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_ai_referral_sessions" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_ai_referral_sessions_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_ai_referral_sessions_brand_session"
+        ON "ai_referral_sessions" ("brandId", "sessionId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_ai_referral_sessions_brand_session"`,
+    );
+    await queryRunner.query(`DROP TABLE "ai_referral_sessions"`);
+    await queryRunner.query(`DROP INDEX "IDX_ai_referral_collectors_brand"`);
+    await queryRunner.query(`DROP TABLE "ai_referral_collectors"`);
+  }
+}
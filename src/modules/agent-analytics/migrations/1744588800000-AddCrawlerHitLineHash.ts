@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCrawlerHitLineHash1744588800000 implements MigrationInterface {
+  name = 'AddCrawlerHitLineHash1744588800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "crawler_hits" ADD "lineHash" character(64)
+    `);
+
+    // Same fields and separator as CrawlerLogService.lineHash
+    await queryRunner.query(`
+      UPDATE "crawler_hits" SET "lineHash" = encode(sha256(convert_to(
+        concat_ws(E'\\n',
+          "domain",
+          to_char("requestedAt" AT TIME ZONE 'UTC',
+            'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+          "ip",
+          "method",
+          "path",
+          "userAgent"),
+        'UTF8')), 'hex')
+    `);
+
+    // Logs imported twice before the key existed
+    await queryRunner.query(`
+      DELETE FROM "crawler_hits" "hit"
+      USING "crawler_hits" "kept"
+      WHERE "hit"."brandId" = "kept"."brandId"
+        AND "hit"."lineHash" = "kept"."lineHash"
+        AND ("hit"."createdAt", "hit"."id") > ("kept"."createdAt", "kept"."id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "crawler_hits" ALTER COLUMN "lineHash" SET NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_crawler_hits_brand_line"
+        ON "crawler_hits" ("brandId", "lineHash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_crawler_hits_brand_line"`);
+    await queryRunner.query(
+      `ALTER TABLE "crawler_hits" DROP COLUMN "lineHash"`,
+    );
+  }
+}
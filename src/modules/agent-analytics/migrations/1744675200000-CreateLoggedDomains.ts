@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLoggedDomains1744675200000 implements MigrationInterface {
+  name = 'CreateLoggedDomains1744675200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "logged_domains" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "loggedUntil" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_logged_domains" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_logged_domains_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_logged_domains_brand_domain"
+        ON "logged_domains" ("brandId", "domain")
+    `);
+
+    // Logs imported so far are known to reach at least their last AI hit
+    await queryRunner.query(`
+      INSERT INTO "logged_domains" ("brandId", "domain", "loggedUntil")
+      SELECT "brandId", "domain", MAX("requestedAt")
+      FROM "crawler_hits"
+      WHERE "deletedAt" IS NULL
+      GROUP BY "brandId", "domain"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_logged_domains_brand_domain"`);
+    await queryRunner.query(`DROP TABLE "logged_domains"`);
+  }
+}
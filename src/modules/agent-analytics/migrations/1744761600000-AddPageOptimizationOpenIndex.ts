@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPageOptimizationOpenIndex1744761600000
+  implements MigrationInterface
+{
+  name = 'AddPageOptimizationOpenIndex1744761600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Concurrent audits may have opened the same optimization twice; keep
+    // the one checked last
+    await queryRunner.query(`
+      DELETE FROM "page_optimizations" "duplicate"
+      USING "page_optimizations" "kept"
+      WHERE "duplicate"."status" = 'open'
+        AND "kept"."status" = 'open'
+        AND "duplicate"."brandId" = "kept"."brandId"
+        AND "duplicate"."url" = "kept"."url"
+        AND "duplicate"."type" = "kept"."type"
+        AND ("duplicate"."lastCheckedAt", "duplicate"."id")
+          < ("kept"."lastCheckedAt", "kept"."id")
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_page_optimizations_open_type"
+        ON "page_optimizations" ("brandId", "url", "type")
+        WHERE "status" = 'open'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_page_optimizations_open_type"`);
+  }
+}
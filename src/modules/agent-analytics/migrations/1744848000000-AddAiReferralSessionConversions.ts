@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAiReferralSessionConversions1744848000000
+  implements MigrationInterface
+{
+  name = 'AddAiReferralSessionConversions1744848000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "ai_referral_sessions"
+        ADD "referrer" character varying(255),
+        ADD "convertedAt" TIMESTAMP WITH TIME ZONE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "ai_referral_sessions"
+        DROP COLUMN "convertedAt",
+        DROP COLUMN "referrer"
+    `);
+  }
+}
@@ -0,0 +1,224 @@
+import { AccessLogParser } from '../access-log.parser';
+import {
+  AccessLogFormat,
+  AccessLogLine,
+} from '../../interfaces/crawler-log.interface';
+
+describe('AccessLogParser', () => {
+  const parser = new AccessLogParser();
+
+  const parseAll = async (
+    lines: string[],
+    format?: AccessLogFormat,
+  ): Promise<AccessLogLine[]> => {
+    const parsed: AccessLogLine[] = [];
+    for await (const line of parser.parse(lines, format)) {
+      parsed.push(line);
+    }
+    return parsed;
+  };
+
+  it('should parse combined log lines', async () => {
+    const [line] = await parseAll([
+      '20.171.207.1 - - [02/Apr/2025:13:55:36 +0200] "GET /pricing?plan=pro HTTP/1.1" 200 5120 "-" "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2; +https://openai.com/gptbot"',
+    ]);
+
+    expect(line).toEqual({
+      line: 1,
+      format: AccessLogFormat.COMBINED,
+      entry: {
+        requestedAt: new Date('2025-04-02T11:55:36Z'),
+        ip: '20.171.207.1',
+        method: 'GET',
+        host: null,
+        path: '/pricing?plan=pro',
+        status: 200,
+        bytes: 5120,
+        userAgent:
+          'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2; +https://openai.com/gptbot',
+        referrer: null,
+      },
+    });
+  });
+
+  it('should read the virtual host and common log lines', async () => {
+    const [vhost, common] = await parseAll([
+      'www.acme.com:443 1.2.3.4 - - [02/Apr/2025:00:00:00 +0000] "HEAD https://www.acme.com/docs HTTP/1.1" 304 - "https://perplexity.ai/" "PerplexityBot/1.0"',
+      '1.2.3.4 - frank [02/Apr/2025:00:00:00 -0100] "POST /api HTTP/1.0" 500 12',
+    ]);
+
+    expect(vhost).toMatchObject({
+      entry: {
+        host: 'www.acme.com',
+        method: 'HEAD',
+        path: '/docs',
+        status: 304,
+        bytes: null,
+        referrer: 'https://perplexity.ai/',
+        userAgent: 'PerplexityBot/1.0',
+      },
+    });
+    expect(common).toMatchObject({
+      entry: {
+        requestedAt: new Date('2025-04-02T01:00:00Z'),
+        userAgent: '',
+        status: 500,
+      },
+    });
+  });
+
+  it('should parse JSON lines with common field names', async () => {
+    const [nginx, caddyLike] = await parseAll([
+      JSON.stringify({
+        time_iso8601: '2025-04-02T10:00:00+00:00',
+        remote_addr: '52.0.0.1',
+        request: 'GET /blog/post HTTP/2.0',
+        status: '200',
+        body_bytes_sent: '812',
+        http_host: 'acme.com:443',
+        http_user_agent: 'ClaudeBot/1.0; +claudebot@anthropic.com',
+      }),
+      JSON.stringify({
+        ts: 1743588000,
+        ip: '52.0.0.2',
+        method: 'get',
+        uri: '/about',
+        status: 404,
+        user_agent: 'CCBot/2.0',
+      }),
+    ]);
+
+    expect(nginx).toEqual({
+      line: 1,
+      format: AccessLogFormat.JSON,
+      entry: {
+        requestedAt: new Date('2025-04-02T10:00:00Z'),
+        ip: '52.0.0.1',
+        method: 'GET',
+        host: 'acme.com',
+        path: '/blog/post',
+        status: 200,
+        bytes: 812,
+        userAgent: 'ClaudeBot/1.0; +claudebot@anthropic.com',
+        referrer: null,
+      },
+    });
+    expect(caddyLike).toMatchObject({
+      entry: {
+        requestedAt: new Date(1743588000 * 1000),
+        method: 'GET',
+        path: '/about',
+        status: 404,
+        host: null,
+      },
+    });
+  });
+
+  it('should parse CloudFront logs using the fields header', async () => {
+    const fields = [
+      'date',
+      'time',
+      'x-edge-location',
+      'sc-bytes',
+      'c-ip',
+      'cs-method',
+      'cs(Host)',
+      'cs-uri-stem',
+      'sc-status',
+      'cs(Referer)',
+      'cs(User-Agent)',
+      'cs-uri-query',
+      'x-host-header',
+    ];
+    const lines = await parseAll([
+      '#Version: 1.0',
+      `#Fields: ${fields.join(' ')}`,
+      [
+        '2025-04-02',
+        '08:30:00',
+        'FRA56-C1',
+        '2048',
+        '40.77.1.1',
+        'GET',
+        'd111111abcdef8.cloudfront.net',
+        '/features',
+        '200',
+        '-',
+        'Mozilla/5.0%20(compatible;%20Google-Extended)',
+        'ref=ai',
+        'www.acme.com',
+      ].join('\t'),
+    ]);
+
+    expect(lines).toEqual([
+      {
+        line: 3,
+        format: AccessLogFormat.CLOUDFRONT,
+        entry: {
+          requestedAt: new Date('2025-04-02T08:30:00Z'),
+          ip: '40.77.1.1',
+          method: 'GET',
+          host: 'www.acme.com',
+          path: '/features?ref=ai',
+          status: 200,
+          bytes: 2048,
+          userAgent: 'Mozilla/5.0 (compatible; Google-Extended)',
+          referrer: null,
+        },
+      },
+    ]);
+  });
+
+  it('should report unreadable lines and skip blank ones', async () => {
+    const lines = await parseAll(
+      ['', 'garbage', '{"path": "/x", "status": 200}'],
+      AccessLogFormat.JSON,
+    );
+
+    expect(lines).toEqual([
+      { line: 2, format: AccessLogFormat.JSON, error: 'Invalid JSON' },
+      { line: 3, format: AccessLogFormat.JSON, error: 'Missing timestamp' },
+    ]);
+  });
+
+  it('should report timestamps and sizes out of range', async () => {
+    const json = await parseAll(
+      [
+        '{"time": 99999999999999999999, "path": "/x", "status": 200}',
+        '{"time": 1743588000, "path": "/x", "status": 200, "bytes": 3000000000}',
+      ],
+      AccessLogFormat.JSON,
+    );
+    const combined = await parseAll([
+      '1.2.3.4 - - [02/Apr/2025:10:00:00 +0000] "GET / HTTP/1.1" 200 99999999999 "-" "GPTBot/1.2"',
+    ]);
+
+    expect([...json, ...combined]).toEqual([
+      {
+        line: 1,
+        format: AccessLogFormat.JSON,
+        error: 'Unreadable time "100000000000000000000"',
+      },
+      {
+        line: 2,
+        format: AccessLogFormat.JSON,
+        error: 'Invalid size "3000000000"',
+      },
+      {
+        line: 1,
+        format: AccessLogFormat.COMBINED,
+        error: 'Invalid size "99999999999"',
+      },
+    ]);
+  });
+
+  it('should detect the format from the first line', () => {
+    expect(parser.detectFormat('#Version: 1.0')).toBe(
+      AccessLogFormat.CLOUDFRONT,
+    );
+    expect(parser.detectFormat('{"status": 200}')).toBe(AccessLogFormat.JSON);
+    expect(parser.detectFormat('1.2.3.4 - - [...]')).toBe(
+      AccessLogFormat.COMBINED,
+    );
+  });
+});
@@ -0,0 +1,602 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Between, IsNull, QueryFailedError } from 'typeorm';
+import { createHash } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AiReferralService } from '../ai-referral.service';
+import { ReferrerClassifier } from '../referrer-classifier';
+import { AiReferralEntity } from '../../entities/ai-referral.entity';
+import { AiReferralCollectorEntity } from '../../entities/ai-referral-collector.entity';
+import { AiReferralSessionEntity } from '../../entities/ai-referral-session.entity';
+import {
+  AiReferralEvent,
+  AiReferralPlatform,
+  AiReferralSource,
+} from '../../interfaces/ai-referral.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import {
+  NotFoundError,
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+} from '../../../../shared/errors';
+
+describe('AiReferralService', () => {
+  let service: AiReferralService;
+  let dataDir: string;
+  let rawDays: Record<string, string>[];
+  let query: Record<string, jest.Mock>;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    insert: jest.Mock;
+    delete: jest.Mock;
+    createQueryBuilder: jest.Mock;
+    manager: { transaction: jest.Mock; withRepository: jest.Mock };
+  };
+  let collectorRepository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let sessionInsert: Record<string, jest.Mock>;
+  let sessionRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+  const now = new Date('2025-04-10T15:00:00Z');
+  const siteKey = 'site-key-of-acme';
+  const client = '203.0.113.7';
+
+  const event = (data: { url: string } & Record<string, unknown>) => ({
+    key: siteKey,
+    sessionId: 'session-1',
+    ...data,
+  });
+
+  const csv = [
+    'Date,Session source / medium,Landing page,Sessions,Conversions,Revenue',
+    '20250401,chatgpt.com / referral,/pricing,12,2,"$1,200.50"',
+    '20250401,chatgpt.com / referral,/docs,3,0,0',
+    '20250401,google / organic,/,40,1,50',
+    '20250402,(direct) / (none),/?utm_source=perplexity,5,,',
+    '2025-04-02,chat.openai.com / referral,/,abc,0,0',
+    'yesterday,claude.ai / referral,/,1,0,0',
+  ].join('\n');
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'ai-referrals-'));
+    rawDays = [];
+    query = {};
+    for (const method of [
+      'select',
+      'addSelect',
+      'where',
+      'andWhere',
+      'groupBy',
+      'addGroupBy',
+    ]) {
+      query[method] = jest.fn().mockReturnThis();
+    }
+    query.getRawMany = jest.fn(async () => rawDays);
+    repository = {
+      create: jest.fn(data => ({ ...data })),
+      save: jest.fn(async entities => entities),
+      update: jest.fn(async () => ({ affected: 1 })),
+      insert: jest.fn(async () => ({})),
+      delete: jest.fn(async () => ({ affected: 0 })),
+      createQueryBuilder: jest.fn(() => query),
+      manager: {
+        transaction: jest.fn(),
+        withRepository: jest.fn(target => target),
+      },
+    };
+    repository.manager.transaction.mockImplementation(async work =>
+      work(repository.manager),
+    );
+    collectorRepository = {
+      findOne: jest.fn(async () => ({
+        brandId,
+        keyHash: createHash('sha256').update(siteKey).digest('hex'),
+      })),
+      create: jest.fn(data => ({ ...data })),
+      save: jest.fn(async entity => entity),
+    };
+    sessionInsert = {};
+    for (const method of ['insert', 'values', 'orIgnore', 'returning']) {
+      sessionInsert[method] = jest.fn().mockReturnThis();
+    }
+    sessionInsert.execute = jest.fn(async () => ({ raw: [{ id: 'session' }] }));
+    sessionRepository = {
+      findOne: jest.fn(async () => ({
+        id: 'session',
+        brandId,
+        sessionId: 'session-1',
+        platform: AiReferralPlatform.CLAUDE,
+        referrer: 'claude.ai',
+        convertedAt: null,
+      })),
+      update: jest.fn(async () => ({ affected: 1 })),
+      createQueryBuilder: jest.fn(() => sessionInsert),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiReferralService,
+        ReferrerClassifier,
+        {
+          provide: getRepositoryToken(AiReferralEntity),
+          useValue: repository,
+        },
+        {
+          provide: getRepositoryToken(AiReferralCollectorEntity),
+          useValue: collectorRepository,
+        },
+        {
+          provide: getRepositoryToken(AiReferralSessionEntity),
+          useValue: sessionRepository,
+        },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn(async () => ({
+              id: brandId,
+              domains: ['https://www.acme.com'],
+            })),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({
+              ingestion: { dataDir },
+              referrals: {
+                defaultDays: 30,
+                maxDays: 366,
+                maxConversionValue: 1000,
+                maxCollectorEvents: 3,
+                collectorWindowMs: 60000,
+              },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AiReferralService>(AiReferralService);
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('importCsv', () => {
+    it('should store AI referrals summed per day, platform and referrer', async () => {
+      const result = await service.importCsv(brandId, 'acme.com', csv);
+
+      expect(result).toEqual({
+        imported: 3,
+        ignored: 1,
+        skipped: [
+          { line: 6, reason: 'Invalid sessions' },
+          { line: 7, reason: 'Invalid date' },
+        ],
+      });
+      expect(repository.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          brandId,
+          domain: 'acme.com',
+          date: '2025-04-01',
+          platform: AiReferralPlatform.CHATGPT,
+          referrer: 'chatgpt.com',
+          source: AiReferralSource.IMPORT,
+          sessions: 15,
+          conversions: 2,
+          revenue: 1200.5,
+        }),
+        expect.objectContaining({
+          date: '2025-04-02',
+          platform: AiReferralPlatform.PERPLEXITY,
+          referrer: 'perplexity',
+          sessions: 5,
+          conversions: 0,
+          revenue: 0,
+        }),
+      ]);
+    });
+
+    it('should replace the days of the export imported before', async () => {
+      await service.importCsv(brandId, 'acme.com', csv);
+
+      expect(repository.manager.transaction).toHaveBeenCalled();
+      expect(repository.delete).toHaveBeenCalledWith({
+        brandId,
+        domain: 'acme.com',
+        source: AiReferralSource.IMPORT,
+        date: Between('2025-04-01', '2025-04-02'),
+      });
+      expect(repository.delete.mock.invocationCallOrder[0]).toBeLessThan(
+        repository.save.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject a CSV without a sessions column', async () => {
+      await expect(
+        service.importCsv(brandId, 'acme.com', 'Date,Source\n20250401,x'),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a domain of another brand', async () => {
+      await expect(
+        service.importCsv(brandId, 'globex.com', csv),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.delete).not.toHaveBeenCalled();
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importFile', () => {
+    it('should import an export from the ingestion directory', async () => {
+      await writeFile(join(dataDir, 'sources.csv'), csv);
+
+      const result = await service.importFile(
+        brandId,
+        'acme.com',
+        'sources.csv',
+      );
+
+      expect(result.imported).toBe(3);
+    });
+
+    it('should report a missing file', async () => {
+      await expect(
+        service.importFile(brandId, 'acme.com', 'missing.csv'),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('rotateCollectorKey', () => {
+    it('should store only the hash of a new key', async () => {
+      const stored = { brandId, keyHash: 'old' };
+      collectorRepository.findOne.mockResolvedValueOnce(stored);
+
+      const key = await service.rotateCollectorKey(brandId);
+
+      expect(key).toHaveLength(32);
+      expect(collectorRepository.save).toHaveBeenCalledWith({
+        brandId,
+        keyHash: createHash('sha256').update(key).digest('hex'),
+      });
+    });
+  });
+
+  describe('collect', () => {
+    it('should add a session to the day of the event', async () => {
+      const result = await service.collect(
+        brandId,
+        event({
+          url: 'https://shop.acme.com/pricing',
+          referrer: 'https://chatgpt.com/',
+        }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({
+        recorded: true,
+        platform: AiReferralPlatform.CHATGPT,
+      });
+      expect(sessionInsert.values).toHaveBeenCalledWith({
+        brandId,
+        sessionId: 'session-1',
+        platform: AiReferralPlatform.CHATGPT,
+        referrer: 'chatgpt.com',
+      });
+      const [key, counts] = repository.update.mock.calls[0];
+      expect(key).toEqual({
+        brandId,
+        domain: 'shop.acme.com',
+        date: '2025-04-10',
+        platform: AiReferralPlatform.CHATGPT,
+        referrer: 'chatgpt.com',
+        source: AiReferralSource.COLLECTOR,
+      });
+      expect(counts.sessions()).toBe('"sessions" + 1');
+      expect(counts.revenue()).toBe('"revenue" + 0');
+      expect(repository.insert).not.toHaveBeenCalled();
+    });
+
+    it('should count a session once', async () => {
+      sessionInsert.execute.mockResolvedValueOnce({ raw: [] });
+
+      const result = await service.collect(
+        brandId,
+        event({ url: 'https://acme.com/', referrer: 'https://chatgpt.com/' }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({
+        recorded: false,
+        platform: AiReferralPlatform.CHATGPT,
+      });
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it("should create the row on the day's first event", async () => {
+      repository.update.mockResolvedValueOnce({ affected: 0 });
+
+      await service.collect(
+        brandId,
+        event({ url: 'https://acme.com/pricing?utm_source=claude.ai' }),
+        client,
+        now,
+      );
+
+      expect(repository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          platform: AiReferralPlatform.CLAUDE,
+          referrer: 'claude.ai',
+          sessions: 1,
+          conversions: 0,
+          revenue: 0,
+        }),
+      );
+    });
+
+    it('should credit a conversion to the platform of its session', async () => {
+      const result = await service.collect(
+        brandId,
+        event({
+          url: 'https://acme.com/thanks',
+          referrer: 'https://chatgpt.com/',
+          event: AiReferralEvent.CONVERSION,
+          value: 49.9,
+        }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({
+        recorded: true,
+        platform: AiReferralPlatform.CLAUDE,
+      });
+      expect(sessionRepository.findOne).toHaveBeenCalledWith({
+        where: { brandId, sessionId: 'session-1' },
+      });
+      expect(sessionInsert.execute).not.toHaveBeenCalled();
+      const [key, counts] = repository.update.mock.calls[0];
+      expect(key).toMatchObject({
+        platform: AiReferralPlatform.CLAUDE,
+        referrer: 'claude.ai',
+      });
+      expect(counts.conversions()).toBe('"conversions" + 1');
+      expect(counts.revenue()).toBe('"revenue" + 49.9');
+    });
+
+    it('should ignore a conversion without an AI session', async () => {
+      sessionRepository.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.collect(
+        brandId,
+        event({
+          url: 'https://acme.com/thanks?utm_source=chatgpt.com',
+          event: AiReferralEvent.CONVERSION,
+          value: 10,
+        }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({ recorded: false, platform: null });
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should count the conversion of a session once', async () => {
+      sessionRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      const result = await service.collect(
+        brandId,
+        event({
+          url: 'https://acme.com/thanks',
+          event: AiReferralEvent.CONVERSION,
+          value: 10,
+        }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({
+        recorded: false,
+        platform: AiReferralPlatform.CLAUDE,
+      });
+      expect(sessionRepository.update).toHaveBeenCalledWith(
+        { id: 'session', convertedAt: IsNull() },
+        { convertedAt: now },
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should add to the row another event created first', async () => {
+      repository.update.mockResolvedValueOnce({ affected: 0 });
+      repository.insert.mockRejectedValueOnce(
+        new QueryFailedError('INSERT', [], { code: '23505' } as never),
+      );
+
+      await service.collect(
+        brandId,
+        event({ url: 'https://acme.com/', referrer: 'perplexity.ai' }),
+        client,
+        now,
+      );
+
+      expect(repository.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore visits no AI platform referred', async () => {
+      const result = await service.collect(
+        brandId,
+        event({
+          url: 'https://acme.com/',
+          referrer: 'https://www.google.com/',
+        }),
+        client,
+        now,
+      );
+
+      expect(result).toEqual({ recorded: false, platform: null });
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid site key', async () => {
+      await expect(
+        service.collect(
+          brandId,
+          { ...event({ url: 'https://acme.com/' }), key: 'guessed' },
+          client,
+          now,
+        ),
+      ).rejects.toThrow(UnauthorizedError);
+
+      collectorRepository.findOne.mockResolvedValueOnce(null);
+      await expect(
+        service.collect(brandId, event({ url: 'https://acme.com/' }), client),
+      ).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject conversion values over the limit', async () => {
+      await expect(
+        service.collect(
+          brandId,
+          event({
+            url: 'https://acme.com/',
+            referrer: 'https://chatgpt.com/',
+            event: AiReferralEvent.CONVERSION,
+            value: 1000.01,
+          }),
+          client,
+          now,
+        ),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should limit the events of one client', async () => {
+      const send = (from: string) =>
+        service.collect(
+          brandId,
+          event({ url: 'https://acme.com/', referrer: 'chatgpt.com' }),
+          from,
+          now,
+        );
+
+      for (let i = 0; i < 3; i++) {
+        await send(client);
+      }
+
+      await expect(send(client)).rejects.toThrow(RateLimitError);
+      await expect(send('198.51.100.1')).resolves.toMatchObject({
+        recorded: true,
+      });
+    });
+
+    it('should reject pages outside the brand domains', async () => {
+      await expect(
+        service.collect(
+          brandId,
+          event({
+            url: 'https://globex.com/',
+            referrer: 'https://chatgpt.com/',
+          }),
+          client,
+        ),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.collect(brandId, event({ url: '/pricing' }), client),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getSeries', () => {
+    it('should fill in days without traffic', async () => {
+      rawDays = [
+        {
+          domain: 'acme.com',
+          date: '2025-04-09',
+          platform: AiReferralPlatform.PERPLEXITY,
+          sessions: '2',
+          conversions: '0',
+          revenue: '0',
+        },
+        {
+          domain: 'acme.com',
+          date: '2025-04-09',
+          platform: AiReferralPlatform.CHATGPT,
+          sessions: '5',
+          conversions: '1',
+          revenue: '10.005',
+        },
+      ];
+
+      const [series] = await service.getSeries(
+        brandId,
+        { since: new Date('2025-04-08T00:00:00Z') },
+        now,
+      );
+
+      expect(query.andWhere).toHaveBeenCalledWith(
+        'referral.date BETWEEN :since AND :until',
+        { since: '2025-04-08', until: '2025-04-10' },
+      );
+      expect(series.domain).toBe('acme.com');
+      expect(series.days.map(day => [day.date, day.sessions])).toEqual([
+        ['2025-04-08', 0],
+        ['2025-04-09', 7],
+        ['2025-04-10', 0],
+      ]);
+      expect(series.days[1].platforms.map(p => p.platform)).toEqual([
+        AiReferralPlatform.CHATGPT,
+        AiReferralPlatform.PERPLEXITY,
+      ]);
+      expect(series.totals[0]).toEqual({
+        platform: AiReferralPlatform.CHATGPT,
+        sessions: 5,
+        conversions: 1,
+        revenue: 10.01,
+      });
+    });
+
+    it('should return an empty series for a requested domain without traffic', async () => {
+      const series = await service.getSeries(
+        brandId,
+        { domain: 'WWW.Acme.com' },
+        now,
+      );
+
+      expect(series).toHaveLength(1);
+      expect(series[0].domain).toBe('acme.com');
+      expect(series[0].days).toHaveLength(30);
+      expect(series[0].totals).toEqual([]);
+    });
+
+    it('should reject a reversed period', async () => {
+      await expect(
+        service.getSeries(
+          brandId,
+          {
+            since: new Date('2025-04-10T00:00:00Z'),
+            until: new Date('2025-04-01T00:00:00Z'),
+          },
+          now,
+        ),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { BotClassifier } from '../bot-classifier';
+import { AiBotPurpose } from '../../interfaces/crawler-log.interface';
+
+describe('BotClassifier', () => {
+  const classifier = new BotClassifier();
+
+  it.each([
+    [
+      'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2; +https://openai.com/gptbot',
+      'GPTBot',
+    ],
+    ['Mozilla/5.0 (compatible; PerplexityBot/1.0)', 'PerplexityBot'],
+    [
+      'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)',
+      'ClaudeBot',
+    ],
+    ['CCBot/2.0 (https://commoncrawl.org/faq/)', 'CCBot'],
+    ['Mozilla/5.0 (compatible; Google-Extended)', 'Google-Extended'],
+    [
+      'Mozilla/5.0 (Linux; Android 5.0) AppleWebKit/537.36 (KHTML, like Gecko) Mobile Safari/537.36 (compatible; Bytespider; spider-feedback@bytedance.com)',
+      'Bytespider',
+    ],
+    ['Mozilla/5.0 (compatible; Claude-SearchBot/1.0)', 'Claude-SearchBot'],
+  ])('should recognize %s', (userAgent, name) => {
+    expect(classifier.classify(userAgent)?.name).toBe(name);
+  });
+
+  it('should describe the crawler operator and purpose', () => {
+    expect(classifier.classify('ChatGPT-User/1.0')).toMatchObject({
+      operator: 'OpenAI',
+      purpose: AiBotPurpose.ASSISTANT,
+    });
+  });
+
+  it('should not classify browsers and search engine crawlers', () => {
+    expect(
+      classifier.classify(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/124.0 Safari/537.36',
+      ),
+    ).toBeNull();
+    expect(
+      classifier.classify(
+        'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      ),
+    ).toBeNull();
+    expect(classifier.classify('')).toBeNull();
+  });
+
+  it('should name bots without an AI signature', () => {
+    expect(
+      classifier.unknownBot(
+        'Mozilla/5.0 (compatible; NewAIBot/1.0; +https://example.ai/bot)',
+      ),
+    ).toBe('NewAIBot');
+    expect(classifier.unknownBot('acme-crawler/2.3')).toBe('acme-crawler');
+  });
+
+  it('should not name AI crawlers, known bots or browsers as unknown', () => {
+    expect(classifier.unknownBot('GPTBot/1.2')).toBeNull();
+    expect(
+      classifier.unknownBot(
+        'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      ),
+    ).toBeNull();
+    expect(
+      classifier.unknownBot(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/124.0 Safari/537.36',
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CrawlAnomalyService } from '../crawl-anomaly.service';
+import { CrawlerLogService } from '../crawler-log.service';
+import { CrawlAnomalyEntity } from '../../entities/crawl-anomaly.entity';
+import { UnknownBotEntity } from '../../entities/unknown-bot.entity';
+import {
+  CrawlAnomalySeverity,
+  CrawlAnomalyType,
+  CrawlWindowStats,
+} from '../../interfaces/crawl-anomaly.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { NotificationService } from '../../../notifications/services/notification.service';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { DistributedLockService } from '../../../../cache/distributed-lock.service';
+import { FindOperator } from 'typeorm';
+import { ConflictError, ExternalServiceError } from '../../../../shared/errors';
+
+// Replace the gateway module wholesale so the test does not depend on the
+// socket server it wraps
+jest.mock('../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('CrawlAnomalyService', () => {
+  let service: CrawlAnomalyService;
+  let stored: CrawlAnomalyEntity[];
+  let stats: CrawlWindowStats[];
+  let unknownBots: Partial<UnknownBotEntity>[];
+  let crawlerLogService: {
+    getLoggedUntil: jest.Mock;
+    getWindowStats: jest.Mock;
+    getUnknownBots: jest.Mock;
+  };
+  let notificationService: { notify: jest.Mock };
+  let gateway: { emitCrawlerStatus: jest.Mock };
+  let lockService: { withLock: jest.Mock; isAvailable: jest.Mock };
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+
+  const brandId = 'brand-1';
+  const now = new Date('2025-04-30T12:00:00Z');
+  const logEnd = new Date('2025-04-30T06:00:00Z');
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const window = (
+    bot: string,
+    hits: number,
+    baselineHits: number,
+    errors: Partial<CrawlWindowStats> = {},
+  ): CrawlWindowStats => ({
+    domain: 'acme.com',
+    bot,
+    hits,
+    clientErrors: 0,
+    serverErrors: 0,
+    baselineHits,
+    baselineClientErrors: 0,
+    baselineServerErrors: 0,
+    ...errors,
+  });
+
+  beforeEach(async () => {
+    stored = [];
+    stats = [
+      window('GPTBot', 0, 1400),
+      window('ClaudeBot', 100, 140),
+      window('PerplexityBot', 50, 700, {
+        serverErrors: 30,
+        baselineServerErrors: 7,
+      }),
+      window('CCBot', 90, 1260, { clientErrors: 9 }),
+      window('Bytespider', 0, 70),
+    ];
+    unknownBots = [];
+
+    crawlerLogService = {
+      getLoggedUntil: jest.fn(async () => new Map([['acme.com', logEnd]])),
+      getWindowStats: jest.fn(async () => stats),
+      getUnknownBots: jest.fn(async () => unknownBots),
+    };
+    notificationService = { notify: jest.fn(async () => []) };
+    gateway = { emitCrawlerStatus: jest.fn() };
+    lockService = {
+      withLock: jest.fn(async (_key: string, fn: () => Promise<unknown>) =>
+        fn(),
+      ),
+      isAvailable: jest.fn(async () => true),
+    };
+    repository = {
+      create: jest.fn(data => ({ ...data })),
+      save: jest.fn(async (entities: CrawlAnomalyEntity[]) =>
+        entities.map((entity, i) => ({ ...entity, id: `anomaly-${i}` })),
+      ),
+      find: jest.fn(
+        async ({
+          where,
+        }: {
+          where: { domain: string; windowEnd: FindOperator<Date> };
+        }) =>
+          stored.filter(
+            anomaly =>
+              anomaly.domain === where.domain &&
+              anomaly.windowEnd > (where.windowEnd.value as Date),
+          ),
+      ),
+      createQueryBuilder: jest.fn(() => {
+        const params: Record<string, unknown> = {};
+        return {
+          where: jest.fn().mockReturnThis(),
+          andWhere: jest.fn(function (
+            this: unknown,
+            _condition: string,
+            values = {},
+          ) {
+            Object.assign(params, values);
+            return this;
+          }),
+          take: jest.fn().mockReturnThis(),
+          orderBy: jest.fn().mockReturnThis(),
+          addOrderBy: jest.fn().mockReturnThis(),
+          getMany: jest.fn(async () =>
+            stored.filter(
+              anomaly => !params.type || anomaly.type === params.type,
+            ),
+          ),
+        };
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlAnomalyService,
+        {
+          provide: getRepositoryToken(CrawlAnomalyEntity),
+          useValue: repository,
+        },
+        {
+          provide: BrandService,
+          useValue: {
+            assertExists: jest.fn(),
+            findAll: jest.fn(async () => [{ id: brandId }]),
+          },
+        },
+        { provide: CrawlerLogService, useValue: crawlerLogService },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: DistributedLockService, useValue: lockService },
+        { provide: AnalyticsGateway, useValue: gateway },
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+      ],
+    }).compile();
+
+    service = module.get<CrawlAnomalyService>(CrawlAnomalyService);
+  });
+
+  it('should compare each bot with its baseline up to where the logs end', async () => {
+    const anomalies = await service.detect(brandId, now);
+
+    expect(crawlerLogService.getWindowStats).toHaveBeenCalledWith(
+      brandId,
+      'acme.com',
+      new Date(logEnd.getTime() - 15 * 24 * HOUR_MS),
+      new Date(logEnd.getTime() - 24 * HOUR_MS),
+      logEnd,
+    );
+    expect(
+      anomalies.map(anomaly => [anomaly.type, anomaly.bot, anomaly.severity]),
+    ).toEqual([
+      [CrawlAnomalyType.CRAWL_DROP, 'GPTBot', CrawlAnomalySeverity.HIGH],
+      [CrawlAnomalyType.CRAWL_SPIKE, 'ClaudeBot', CrawlAnomalySeverity.HIGH],
+      [
+        CrawlAnomalyType.SERVER_ERROR_SURGE,
+        'PerplexityBot',
+        CrawlAnomalySeverity.HIGH,
+      ],
+    ]);
+    expect(anomalies[0]).toMatchObject({
+      brandId,
+      domain: 'acme.com',
+      baselineValue: 100,
+      observedValue: 0,
+      windowEnd: logEnd,
+      detectedAt: now,
+      message:
+        'GPTBot made 0 requests to acme.com in 24h, down from 100 on average',
+    });
+    expect(anomalies[2]).toMatchObject({
+      baselineValue: 0.01,
+      observedValue: 0.6,
+    });
+  });
+
+  it('should not look past now when the logs reach further', async () => {
+    const future = new Date(now.getTime() + HOUR_MS);
+    crawlerLogService.getLoggedUntil.mockResolvedValue(
+      new Map([['acme.com', future]]),
+    );
+
+    await service.detect(brandId, now);
+
+    expect(crawlerLogService.getWindowStats).toHaveBeenCalledWith(
+      brandId,
+      'acme.com',
+      expect.any(Date),
+      new Date(now.getTime() - 24 * HOUR_MS),
+      now,
+    );
+  });
+
+  it('should send each anomaly to dashboards and notification destinations', async () => {
+    await service.detect(brandId, now);
+
+    expect(gateway.emitCrawlerStatus).toHaveBeenCalledTimes(3);
+    expect(gateway.emitCrawlerStatus).toHaveBeenCalledWith(
+      expect.objectContaining({
+        brandId,
+        status: 'anomaly_detected',
+        details: expect.objectContaining({
+          id: 'anomaly-0',
+          type: CrawlAnomalyType.CRAWL_DROP,
+        }),
+      }),
+    );
+    expect(notificationService.notify).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'crawler.anomaly',
+        brandId,
+        subject: 'Crawl anomaly: GPTBot on acme.com',
+        payload: expect.objectContaining({
+          bot: 'GPTBot',
+          windowEnd: logEnd.toISOString(),
+        }),
+      }),
+    );
+  });
+
+  it('should not repeat an anomaly already reported for the window', async () => {
+    stored = [
+      {
+        type: CrawlAnomalyType.CRAWL_DROP,
+        domain: 'acme.com',
+        bot: 'GPTBot',
+        windowEnd: new Date(logEnd.getTime() - HOUR_MS),
+      } as CrawlAnomalyEntity,
+    ];
+
+    const anomalies = await service.detect(brandId, now);
+
+    expect(anomalies.map(anomaly => anomaly.bot)).toEqual([
+      'ClaudeBot',
+      'PerplexityBot',
+    ]);
+  });
+
+  it('should not repeat the anomalies of a domain whose logs stopped', async () => {
+    stored = await service.detect(brandId, now);
+    expect(stored).toHaveLength(3);
+
+    const later = new Date(now.getTime() + 3 * 24 * HOUR_MS);
+    await expect(service.detect(brandId, later)).resolves.toEqual([]);
+    expect(notificationService.notify).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report a bot no signature knows once', async () => {
+    stats = [];
+    unknownBots = [
+      {
+        domain: 'acme.com',
+        name: 'NewAIBot',
+        userAgent: 'NewAIBot/1.0',
+        hits: 12,
+        firstSeenAt: new Date('2025-04-29T00:00:00Z'),
+        lastSeenAt: logEnd,
+      },
+    ];
+
+    const [anomaly] = await service.detect(brandId, now);
+    expect(anomaly).toMatchObject({
+      type: CrawlAnomalyType.NEW_BOT,
+      domain: 'acme.com',
+      bot: 'NewAIBot',
+      observedValue: 12,
+      windowStart: new Date('2025-04-29T00:00:00Z'),
+    });
+
+    stored = [anomaly];
+    await expect(service.detect(brandId, now)).resolves.toEqual([]);
+  });
+
+  it('should keep anomalies whose notification fails', async () => {
+    notificationService.notify.mockRejectedValue(new Error('SMTP down'));
+
+    await expect(service.detect(brandId, now)).resolves.toHaveLength(3);
+    expect(repository.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not wait for notifications to be delivered', async () => {
+    notificationService.notify.mockReturnValue(new Promise(() => undefined));
+
+    await expect(service.detect(brandId, now)).resolves.toHaveLength(3);
+  });
+
+  it('should refuse to detect a brand that is already being detected', async () => {
+    lockService.withLock.mockResolvedValue(null);
+
+    await expect(service.detect(brandId, now)).rejects.toThrow(ConflictError);
+    expect(lockService.withLock).toHaveBeenCalledWith(
+      `crawl-anomalies:detect:${brandId}`,
+      expect.any(Function),
+      expect.objectContaining({ maxRetries: 1 }),
+    );
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should tell an unavailable lock service from a held lock', async () => {
+    lockService.withLock.mockResolvedValue(null);
+    lockService.isAvailable.mockResolvedValue(false);
+
+    await expect(service.detect(brandId, now)).rejects.toThrow(
+      ExternalServiceError,
+    );
+    await expect(service.detectAll(now)).rejects.toThrow(ExternalServiceError);
+  });
+
+  it('should count the anomalies of all brands under a lock', async () => {
+    await expect(service.detectAll(now)).resolves.toBe(3);
+    expect(lockService.withLock).toHaveBeenCalledWith(
+      'crawl-anomalies:detect',
+      expect.any(Function),
+      expect.objectContaining({ maxRetries: 1 }),
+    );
+
+    lockService.withLock.mockResolvedValue(null);
+    await expect(service.detectAll(now)).resolves.toBeNull();
+  });
+});
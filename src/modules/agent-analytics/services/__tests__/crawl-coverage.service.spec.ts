@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CrawlCoverageService } from '../crawl-coverage.service';
+import { CrawlerLogService } from '../crawler-log.service';
+import { BrandPageService } from '../../../brands/services/brand-page.service';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { StalePageReason } from '../../interfaces/crawl-coverage.interface';
+import { PageCrawl } from '../../interfaces/crawler-log.interface';
+
+// Replace the gateway module wholesale so the test does not depend on the
+// socket server it wraps
+jest.mock('../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('CrawlCoverageService', () => {
+  let service: CrawlCoverageService;
+  let pages: Record<string, unknown>[];
+  let crawls: PageCrawl[];
+  let gateway: { emitCrawlerStatus: jest.Mock };
+
+  const brandId = 'brand-1';
+  const now = new Date('2025-04-30T00:00:00Z');
+  const daysAgo = (days: number): Date =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const page = (
+    path: string,
+    priority: number | null,
+    lastModified: Date | null = null,
+  ): Record<string, unknown> => ({
+    url: `https://acme.com${path}`,
+    domain: 'acme.com',
+    path,
+    priority,
+    lastModified,
+  });
+
+  const crawl = (
+    path: string,
+    bot: string,
+    lastCrawledAt: Date,
+    successfulHits = 1,
+  ): PageCrawl => ({
+    domain: 'acme.com',
+    path,
+    bot,
+    operator: bot === 'GPTBot' ? 'OpenAI' : 'Anthropic',
+    hits: 2,
+    successfulHits,
+    lastCrawledAt,
+  });
+
+  beforeEach(async () => {
+    pages = [
+      page('/', 1),
+      page('/pricing', 0.9, daysAgo(2)),
+      page('/features/', 0.8),
+      page('/blog/old-post', 0.3),
+    ];
+    crawls = [
+      crawl('/', 'GPTBot', daysAgo(1)),
+      crawl('/', 'ClaudeBot', daysAgo(40)),
+      crawl('/pricing', 'GPTBot', daysAgo(5)),
+      crawl('/features', 'ClaudeBot', daysAgo(45)),
+      crawl('/wp-login.php', 'GPTBot', daysAgo(3), 0),
+      crawl('/careers', 'GPTBot', daysAgo(3)),
+      crawl('/careers', 'ClaudeBot', daysAgo(1)),
+    ];
+    gateway = { emitCrawlerStatus: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlCoverageService,
+        {
+          provide: BrandPageService,
+          useValue: { findByBrand: jest.fn(async () => pages) },
+        },
+        {
+          provide: CrawlerLogService,
+          useValue: { getPageCrawls: jest.fn(async () => crawls) },
+        },
+        { provide: AnalyticsGateway, useValue: gateway },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({
+              coverage: {
+                criticalPriority: 0.8,
+                staleDays: 30,
+                lookbackDays: 90,
+                maxListed: 10,
+              },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CrawlCoverageService>(CrawlCoverageService);
+  });
+
+  it('should measure coverage of critical sitemap pages per bot', async () => {
+    const report = await service.getReport(brandId, {}, now);
+
+    expect(report).toMatchObject({
+      pageCount: 4,
+      criticalPageCount: 3,
+      // "/" is fresh; "/pricing" changed after its crawl; "/features" is old
+      indexingRate: 0.3333,
+      staleDays: 30,
+    });
+    expect(report.bots).toEqual([
+      {
+        bot: 'ClaudeBot',
+        operator: 'Anthropic',
+        crawledPages: 2,
+        criticalPagesCrawled: 2,
+        coverage: 0.6667,
+        lastCrawledAt: daysAgo(40),
+      },
+      {
+        bot: 'GPTBot',
+        operator: 'OpenAI',
+        crawledPages: 2,
+        criticalPagesCrawled: 2,
+        coverage: 0.6667,
+        lastCrawledAt: daysAgo(1),
+      },
+    ]);
+  });
+
+  it('should list stale pages, critical and longest unvisited first', async () => {
+    const report = await service.getReport(brandId, {}, now);
+
+    expect(report.staleCount).toBe(3);
+    expect(report.stalePages).toEqual([
+      {
+        url: 'https://acme.com/features/',
+        critical: true,
+        reason: StalePageReason.NOT_RECRAWLED,
+        lastModified: null,
+        lastCrawledAt: daysAgo(45),
+      },
+      {
+        url: 'https://acme.com/pricing',
+        critical: true,
+        reason: StalePageReason.MODIFIED_SINCE_CRAWL,
+        lastModified: daysAgo(2),
+        lastCrawledAt: daysAgo(5),
+      },
+      {
+        url: 'https://acme.com/blog/old-post',
+        critical: false,
+        reason: StalePageReason.NEVER_CRAWLED,
+        lastModified: null,
+        lastCrawledAt: null,
+      },
+    ]);
+  });
+
+  it('should report successfully crawled URLs missing from the sitemap', async () => {
+    const report = await service.getReport(brandId, {}, now);
+
+    expect(report.orphanCount).toBe(1);
+    expect(report.orphanUrls).toEqual([
+      {
+        url: 'https://acme.com/careers',
+        hits: 4,
+        bots: ['ClaudeBot', 'GPTBot'],
+        lastCrawledAt: daysAgo(1),
+      },
+    ]);
+  });
+
+  it('should treat every page as critical without declared priorities', async () => {
+    pages = pages.map(entry => ({ ...entry, priority: null }));
+
+    const report = await service.getReport(brandId, { staleDays: 60 }, now);
+
+    expect(report.criticalPageCount).toBe(4);
+    expect(report.indexingRate).toBe(0.5);
+  });
+
+  it('should push the coverage as a crawler status event', async () => {
+    await service.publish(brandId, 'sitemap_imported');
+
+    expect(gateway.emitCrawlerStatus).toHaveBeenCalledWith(
+      expect.objectContaining({
+        brandId,
+        status: 'coverage_updated',
+        details: expect.objectContaining({
+          trigger: 'sitemap_imported',
+          criticalPageCount: 3,
+          orphanCount: 1,
+        }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,561 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { CrawlerLogService } from '../crawler-log.service';
+import { AccessLogParser } from '../access-log.parser';
+import { BotClassifier } from '../bot-classifier';
+import { CrawlerVerifier } from '../crawler-verifier';
+import { CrawlerHitEntity } from '../../entities/crawler-hit.entity';
+import { UnknownBotEntity } from '../../entities/unknown-bot.entity';
+import { LoggedDomainEntity } from '../../entities/logged-domain.entity';
+import {
+  AccessLogFormat,
+  AiBotPurpose,
+  CrawlerVerification,
+} from '../../interfaces/crawler-log.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('CrawlerLogService', () => {
+  let service: CrawlerLogService;
+  let dataDir: string;
+  let repository: {
+    create: jest.Mock;
+    createQueryBuilder: jest.Mock;
+    update: jest.Mock;
+    manager: { transaction: jest.Mock; withRepository: jest.Mock };
+  };
+  let hitInsert: Record<string, jest.Mock>;
+  let storedLines: Set<string>;
+  let unknownBotRepository: {
+    find: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+  };
+  let loggedDomainRepository: {
+    find: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+  };
+  let verifier: { verify: jest.Mock };
+  let domains: string[];
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+
+  const line = (host: string, path: string, agent: string, status = 200) =>
+    `${host} 20.171.207.1 - - [02/Apr/2025:10:00:00 +0000] "GET ${path} HTTP/1.1" ${status} 100 "-" "${agent}"`;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'crawler-logs-'));
+    domains = ['https://www.acme.com', 'acme.io'];
+    // Stands in for INSERT ... ON CONFLICT DO NOTHING RETURNING "lineHash"
+    storedLines = new Set();
+    hitInsert = {};
+    for (const method of ['insert', 'orIgnore', 'returning']) {
+      hitInsert[method] = jest.fn().mockReturnThis();
+    }
+    let inserting: CrawlerHitEntity[] = [];
+    hitInsert.values = jest.fn(hits => {
+      inserting = hits;
+      return hitInsert;
+    });
+    hitInsert.execute = jest.fn(async () => {
+      const raw = inserting
+        .filter(hit => !storedLines.has(hit.lineHash))
+        .map(hit => {
+          storedLines.add(hit.lineHash);
+          return { lineHash: hit.lineHash };
+        });
+      return { raw };
+    });
+
+    const manager = {
+      transaction: jest.fn(),
+      withRepository: jest.fn(target => target),
+    };
+    manager.transaction.mockImplementation(async work => work(manager));
+    repository = {
+      create: jest.fn(data => ({ ...data })),
+      createQueryBuilder: jest.fn(() => hitInsert),
+      update: jest.fn(),
+      manager,
+    };
+    unknownBotRepository = {
+      find: jest.fn(async () => []),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async entities => entities),
+    };
+    loggedDomainRepository = {
+      find: jest.fn(async () => []),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async entities => entities),
+    };
+    verifier = {
+      verify: jest.fn(async (_bot, ip: string) =>
+        ip.startsWith('20.171.')
+          ? CrawlerVerification.VERIFIED
+          : CrawlerVerification.UNVERIFIED,
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlerLogService,
+        AccessLogParser,
+        BotClassifier,
+        { provide: CrawlerVerifier, useValue: verifier },
+        { provide: getRepositoryToken(CrawlerHitEntity), useValue: repository },
+        {
+          provide: getRepositoryToken(UnknownBotEntity),
+          useValue: unknownBotRepository,
+        },
+        {
+          provide: getRepositoryToken(LoggedDomainEntity),
+          useValue: loggedDomainRepository,
+        },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn(async () => ({ id: brandId, domains })),
+            assertExists: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({
+              ingestion: { dataDir, batchSize: 2, maxUploadSize: '1mb' },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CrawlerLogService>(CrawlerLogService);
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should store AI crawler requests to brand domains', async () => {
+    const result = await service.importText(
+      brandId,
+      [
+        line(
+          'www.acme.com',
+          '/pricing',
+          'Mozilla/5.0 (compatible; GPTBot/1.2)',
+        ),
+        line('docs.acme.io', '/api', 'ClaudeBot/1.0'),
+        line('acme.com', '/', 'Mozilla/5.0 (Windows NT 10.0) Chrome/124.0'),
+        line('globex.com', '/', 'GPTBot/1.2'),
+        'not a log line',
+        line('acme.io', '/blog', 'GPTBot/1.2', 404),
+      ].join('\n'),
+    );
+
+    expect(result).toEqual({
+      format: AccessLogFormat.COMBINED,
+      lines: 6,
+      aiHits: 3,
+      duplicates: 0,
+      otherRequests: 1,
+      foreignHosts: 1,
+      bots: { GPTBot: 2, ClaudeBot: 1 },
+      unknownBots: {},
+      verification: {
+        [CrawlerVerification.VERIFIED]: 3,
+        [CrawlerVerification.UNVERIFIED]: 0,
+        [CrawlerVerification.SPOOFED]: 0,
+      },
+      errors: [{ line: 5, reason: 'Not a common or combined log line' }],
+      errorCount: 1,
+    });
+    expect(hitInsert.values).toHaveBeenCalledTimes(2);
+    expect(hitInsert.values.mock.calls[0][0][0]).toEqual({
+      brandId,
+      domain: 'acme.com',
+      bot: 'GPTBot',
+      operator: 'OpenAI',
+      purpose: AiBotPurpose.TRAINING,
+      path: '/pricing',
+      method: 'GET',
+      status: 200,
+      bytes: 100,
+      ip: '20.171.207.1',
+      userAgent: 'Mozilla/5.0 (compatible; GPTBot/1.2)',
+      verification: CrawlerVerification.VERIFIED,
+      requestedAt: new Date('2025-04-02T10:00:00Z'),
+      lineHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(hitInsert.values.mock.calls[1][0]).toEqual([
+      expect.objectContaining({ domain: 'acme.io', status: 404 }),
+    ]);
+    // One check per crawler and IP
+    expect(verifier.verify).toHaveBeenCalledTimes(2);
+    expect(unknownBotRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should verify crawler IPs while the log is read', async () => {
+    // Neither check finishes before both have started
+    let release: () => void = () => undefined;
+    const started = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    verifier.verify.mockImplementation(async () => {
+      if (verifier.verify.mock.calls.length === 2) {
+        release();
+      }
+      await started;
+      return CrawlerVerification.VERIFIED;
+    });
+
+    const result = await service.importText(
+      brandId,
+      [
+        line('acme.com', '/', 'GPTBot/1.2'),
+        line('acme.com', '/', 'GPTBot/1.2').replace(
+          '20.171.207.1',
+          '20.171.207.2',
+        ),
+      ].join('\n'),
+    );
+
+    expect(result.verification[CrawlerVerification.VERIFIED]).toBe(2);
+  });
+
+  it('should tally bots without an AI signature per domain', async () => {
+    unknownBotRepository.find.mockResolvedValue([
+      {
+        brandId,
+        domain: 'acme.io',
+        name: 'NewAIBot',
+        userAgent: 'NewAIBot/0.9',
+        hits: 5,
+        firstSeenAt: new Date('2025-03-01T00:00:00Z'),
+        lastSeenAt: new Date('2025-03-02T00:00:00Z'),
+      },
+    ]);
+
+    const result = await service.importText(
+      brandId,
+      [
+        line('acme.io', '/', 'Mozilla/5.0 (compatible; NewAIBot/1.0)'),
+        line('acme.com', '/', 'Mozilla/5.0 (compatible; NewAIBot/1.0)'),
+        line('acme.com', '/a', 'Mozilla/5.0 (compatible; NewAIBot/1.0)'),
+        line(
+          'acme.com',
+          '/',
+          'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+        ),
+        line('globex.com', '/', 'NewAIBot/1.0'),
+      ].join('\n'),
+    );
+
+    expect(result.otherRequests).toBe(5);
+    expect(result.unknownBots).toEqual({ NewAIBot: 3 });
+    expect(unknownBotRepository.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        domain: 'acme.io',
+        hits: 6,
+        firstSeenAt: new Date('2025-03-01T00:00:00Z'),
+        lastSeenAt: new Date('2025-04-02T10:00:00Z'),
+      }),
+      expect.objectContaining({
+        brandId,
+        domain: 'acme.com',
+        name: 'NewAIBot',
+        hits: 2,
+      }),
+    ]);
+  });
+
+  it('should record how far the logs of each domain reach', async () => {
+    loggedDomainRepository.find.mockResolvedValue([
+      {
+        brandId,
+        domain: 'acme.io',
+        loggedUntil: new Date('2025-05-01T00:00:00Z'),
+      },
+    ]);
+
+    await service.importText(
+      brandId,
+      [
+        line('acme.com', '/', 'Mozilla/5.0 (Windows NT 10.0) Chrome/124.0'),
+        line('acme.io', '/', 'GPTBot/1.2'),
+        line('globex.com', '/', 'GPTBot/1.2'),
+      ].join('\n'),
+    );
+
+    expect(loggedDomainRepository.save).toHaveBeenCalledWith([
+      {
+        brandId,
+        domain: 'acme.com',
+        loggedUntil: new Date('2025-04-02T10:00:00Z'),
+      },
+      {
+        brandId,
+        domain: 'acme.io',
+        loggedUntil: new Date('2025-05-01T00:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should skip lines an earlier import stored', async () => {
+    const log = [
+      line('acme.com', '/', 'GPTBot/1.2'),
+      line('acme.com', '/', 'GPTBot/1.2'),
+      line('acme.com', '/about', 'GPTBot/1.2'),
+    ].join('\n');
+
+    await expect(service.importText(brandId, log)).resolves.toMatchObject({
+      aiHits: 2,
+      duplicates: 1,
+    });
+    await expect(service.importText(brandId, log)).resolves.toMatchObject({
+      aiHits: 0,
+      duplicates: 3,
+      bots: {},
+    });
+    expect(repository.manager.transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not tally unknown bots again when a log is re-imported', async () => {
+    unknownBotRepository.find.mockResolvedValue([
+      {
+        brandId,
+        domain: 'acme.com',
+        name: 'NewAIBot',
+        userAgent: 'NewAIBot/1.0',
+        hits: 1,
+        firstSeenAt: new Date('2025-04-02T10:00:00Z'),
+        lastSeenAt: new Date('2025-04-02T10:00:00Z'),
+      },
+    ]);
+
+    const result = await service.importText(
+      brandId,
+      line('acme.com', '/', 'Mozilla/5.0 (compatible; NewAIBot/1.0)'),
+    );
+
+    expect(result.unknownBots).toEqual({});
+    expect(unknownBotRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should attribute logs without hosts to the given domain', async () => {
+    const log = JSON.stringify({
+      time: '2025-04-02T10:00:00Z',
+      request: 'GET /docs HTTP/1.1',
+      status: 200,
+      user_agent: 'PerplexityBot/1.0',
+    });
+
+    await expect(service.importText(brandId, log)).resolves.toMatchObject({
+      aiHits: 0,
+      errorCount: 1,
+    });
+
+    const result = await service.importText(brandId, log, {
+      domain: 'acme.io',
+    });
+    expect(result).toMatchObject({ format: AccessLogFormat.JSON, aiHits: 1 });
+    expect(hitInsert.values).toHaveBeenCalledWith([
+      expect.objectContaining({ domain: 'acme.io', bot: 'PerplexityBot' }),
+    ]);
+  });
+
+  it('should use the only brand domain when the log has no hosts', async () => {
+    domains = ['acme.com'];
+
+    const result = await service.importText(
+      brandId,
+      '1.2.3.4 - - [02/Apr/2025:10:00:00 +0000] "GET / HTTP/1.1" 200 1 "-" "CCBot/2.0"',
+    );
+
+    expect(result.aiHits).toBe(1);
+    expect(hitInsert.values).toHaveBeenCalledWith([
+      expect.objectContaining({ domain: 'acme.com', bot: 'CCBot' }),
+    ]);
+  });
+
+  it('should reject domains that are not the brand’s', async () => {
+    await expect(
+      service.importText(brandId, '', { domain: 'globex.com' }),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should import gzipped logs from the ingestion directory', async () => {
+    await writeFile(
+      join(dataDir, 'access.log.gz'),
+      gzipSync(line('acme.com', '/', 'Bytespider')),
+    );
+
+    const result = await service.importFile(brandId, 'access.log.gz');
+
+    expect(result).toMatchObject({ lines: 1, aiHits: 1 });
+  });
+
+  it('should refuse files outside the ingestion directory', async () => {
+    await expect(service.importFile(brandId, '../etc/passwd')).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(service.importFile(brandId, 'missing.log')).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+
+  it('should summarize crawls per domain and bot', async () => {
+    const builder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      setParameters: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getRawMany: jest
+        .fn()
+        .mockResolvedValueOnce([
+          {
+            domain: 'acme.com',
+            bot: 'GPTBot',
+            operator: 'OpenAI',
+            hits: '30',
+            pages: '12',
+            activeDays: '5',
+            verifiedHits: '20',
+            spoofedHits: '6',
+            firstSeenAt: '2025-04-01T00:00:00Z',
+            lastSeenAt: '2025-04-09T00:00:00Z',
+          },
+        ])
+        .mockResolvedValueOnce([
+          { domain: 'acme.com', bot: 'GPTBot', status: '404', count: '4' },
+          { domain: 'acme.com', bot: 'GPTBot', status: '200', count: '26' },
+        ]),
+    };
+    repository.createQueryBuilder.mockReturnValue(builder);
+
+    const stats = await service.getCrawlStats(
+      brandId,
+      new Date('2025-04-01T00:00:00Z'),
+      new Date('2025-04-11T00:00:00Z'),
+    );
+
+    expect(stats).toEqual([
+      {
+        domain: 'acme.com',
+        bot: 'GPTBot',
+        operator: 'OpenAI',
+        hits: 30,
+        pages: 12,
+        activeDays: 5,
+        hitsPerDay: 3,
+        verifiedHits: 20,
+        spoofedHits: 6,
+        firstSeenAt: new Date('2025-04-01T00:00:00Z'),
+        lastSeenAt: new Date('2025-04-09T00:00:00Z'),
+        statusCodes: [
+          { status: 200, count: 26 },
+          { status: 404, count: 4 },
+        ],
+      },
+    ]);
+  });
+
+  it('should filter crawl statistics by verification outcome', async () => {
+    const builder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      setParameters: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+    repository.createQueryBuilder.mockReturnValue(builder);
+
+    await service.getCrawlStats(
+      brandId,
+      new Date('2025-04-01T00:00:00Z'),
+      new Date('2025-04-11T00:00:00Z'),
+      { bot: 'GPTBot', verification: [CrawlerVerification.VERIFIED] },
+    );
+
+    expect(builder.andWhere).toHaveBeenCalledWith('hit.bot = :bot', {
+      bot: 'GPTBot',
+    });
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      'hit.verification IN (:...verification)',
+      { verification: [CrawlerVerification.VERIFIED] },
+    );
+  });
+
+  it('should cap how many crawled pages are listed', async () => {
+    await expect(
+      service.getCrawledPages(
+        brandId,
+        new Date('2025-04-01T00:00:00Z'),
+        new Date('2025-04-11T00:00:00Z'),
+        { limit: 100000 },
+      ),
+    ).rejects.toThrow(ValidationError);
+    expect(repository.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it('should store new verdicts when verifying hits again', async () => {
+    repository.createQueryBuilder.mockReturnValue({
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([
+        {
+          bot: 'GPTBot',
+          ip: '20.171.207.1',
+          verification: CrawlerVerification.UNVERIFIED,
+          hits: '12',
+        },
+        {
+          bot: 'GPTBot',
+          ip: '9.9.9.9',
+          verification: CrawlerVerification.UNVERIFIED,
+          hits: '3',
+        },
+      ]),
+    });
+
+    const result = await service.reverify(brandId);
+
+    expect(result).toEqual({ checked: 2, updated: 12 });
+    expect(verifier.verify).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'GPTBot' }),
+      '9.9.9.9',
+      true,
+    );
+    expect(repository.update).toHaveBeenCalledTimes(1);
+    expect(repository.update).toHaveBeenCalledWith(
+      {
+        brandId,
+        bot: 'GPTBot',
+        ip: '20.171.207.1',
+        verification: CrawlerVerification.UNVERIFIED,
+      },
+      { verification: CrawlerVerification.VERIFIED },
+    );
+  });
+});
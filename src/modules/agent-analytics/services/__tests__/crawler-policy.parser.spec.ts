@@ -0,0 +1,144 @@
+import { CrawlerPolicyParser } from '../crawler-policy.parser';
+import {
+  PolicyIssueType,
+  RobotsRuleType,
+} from '../../interfaces/crawler-policy.interface';
+
+describe('CrawlerPolicyParser', () => {
+  const parser = new CrawlerPolicyParser();
+
+  describe('parseRobotsTxt', () => {
+    it('should group consecutive user agents with the rules after them', () => {
+      const robots = parser.parseRobotsTxt(
+        [
+          '﻿# Acme',
+          'User-agent: GPTBot',
+          'user-agent: ClaudeBot # training crawlers',
+          'Disallow: /',
+          '',
+          'User-agent: *',
+          'Allow: /blog/',
+          'Disallow: /admin',
+          'Disallow:',
+          'Crawl-delay: 5',
+          'Sitemap: https://acme.com/sitemap.xml',
+        ].join('\r\n'),
+      );
+
+      expect(robots.groups).toEqual([
+        {
+          userAgents: [
+            { name: 'GPTBot', line: 2 },
+            { name: 'ClaudeBot', line: 3 },
+          ],
+          rules: [{ type: RobotsRuleType.DISALLOW, path: '/', line: 4 }],
+        },
+        {
+          userAgents: [{ name: '*', line: 6 }],
+          rules: [
+            { type: RobotsRuleType.ALLOW, path: '/blog/', line: 7 },
+            { type: RobotsRuleType.DISALLOW, path: '/admin', line: 8 },
+          ],
+        },
+      ]);
+      expect(robots.sitemaps).toEqual(['https://acme.com/sitemap.xml']);
+      expect(robots.issues).toEqual([]);
+    });
+
+    it('should report lines crawlers ignore', () => {
+      const robots = parser.parseRobotsTxt(
+        [
+          'Disallow: /private',
+          'User-agent: *',
+          'Disalow: /tmp',
+          'Disallow tmp',
+          'Disallow: tmp/',
+        ].join('\n'),
+      );
+
+      expect(robots.groups[0].rules).toEqual([]);
+      expect(
+        robots.issues.map(issue => [issue.type, issue.line, issue.message]),
+      ).toEqual([
+        [
+          PolicyIssueType.RULE_WITHOUT_USER_AGENT,
+          1,
+          '"Disallow: /private" comes before any User-agent line and applies to no crawler',
+        ],
+        [PolicyIssueType.INVALID_LINE, 3, 'Unknown directive "Disalow"'],
+        [PolicyIssueType.INVALID_LINE, 4, 'Missing ":"'],
+        [PolicyIssueType.INVALID_LINE, 5, 'Path "tmp/" must start with "/"'],
+      ]);
+    });
+  });
+
+  describe('parseLlmsTxt', () => {
+    it('should read the title, summary, sections and links', () => {
+      const llms = parser.parseLlmsTxt(
+        [
+          '# Acme',
+          '',
+          '> Acme makes anvils',
+          '> for professionals.',
+          '',
+          'Acme ships worldwide.',
+          '',
+          '## Docs',
+          '- [Quick start](https://acme.com/docs/start): Set up in minutes',
+          '- [API](/docs/api)',
+          '',
+          '## Optional',
+          '* [Changelog](https://acme.com/changelog)',
+        ].join('\n'),
+      );
+
+      expect(llms).toEqual({
+        title: 'Acme',
+        summary: 'Acme makes anvils for professionals.',
+        sections: ['Docs', 'Optional'],
+        links: [
+          {
+            title: 'Quick start',
+            url: 'https://acme.com/docs/start',
+            notes: 'Set up in minutes',
+            section: 'Docs',
+            optional: false,
+            line: 9,
+          },
+          {
+            title: 'API',
+            url: '/docs/api',
+            notes: null,
+            section: 'Docs',
+            optional: false,
+            line: 10,
+          },
+          {
+            title: 'Changelog',
+            url: 'https://acme.com/changelog',
+            notes: null,
+            section: 'Optional',
+            optional: true,
+            line: 13,
+          },
+        ],
+        issues: [],
+      });
+    });
+
+    it('should report a missing or repeated title', () => {
+      expect(parser.parseLlmsTxt('## Docs').issues).toEqual([
+        expect.objectContaining({
+          type: PolicyIssueType.INVALID_LLMS_TXT,
+          line: null,
+        }),
+      ]);
+      expect(parser.parseLlmsTxt('# Acme\n# Acme Corp').issues).toEqual([
+        expect.objectContaining({
+          type: PolicyIssueType.INVALID_LLMS_TXT,
+          line: 2,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CrawlerPolicyService } from '../crawler-policy.service';
+import { CrawlerPolicyParser } from '../crawler-policy.parser';
+import { BotClassifier } from '../bot-classifier';
+import { CrawlerPolicyEntity } from '../../entities/crawler-policy.entity';
+import {
+  AccessIntent,
+  PolicyIssueType,
+  RobotsRuleType,
+} from '../../interfaces/crawler-policy.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('CrawlerPolicyService', () => {
+  let service: CrawlerPolicyService;
+  let dataDir: string;
+  let stored: CrawlerPolicyEntity | null;
+  let repository: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+  };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+  const updatedAt = new Date('2025-04-10T00:00:00Z');
+
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /admin',
+    'Disallow: /drafts',
+    '',
+    'User-agent: GPTBot',
+    'User-agent: CCBot',
+    'Disallow: /',
+    '',
+    'User-agent: PerplexityBot',
+    'Disallow: /admin',
+    'Allow: /docs',
+    'Disallow: /docs',
+    '',
+    'Sitemap: https://acme.com/sitemap.xml',
+  ].join('\n');
+
+  const store = (files: Partial<CrawlerPolicyEntity>) => {
+    stored = {
+      id: 'policy-1',
+      brandId,
+      domain: 'acme.com',
+      robotsTxt: null,
+      llmsTxt: null,
+      updatedAt,
+      ...files,
+    } as CrawlerPolicyEntity;
+  };
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'crawler-policies-'));
+    stored = null;
+    repository = {
+      findOne: jest.fn(async () => stored),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async entity => ({ ...entity, updatedAt })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlerPolicyService,
+        CrawlerPolicyParser,
+        BotClassifier,
+        {
+          provide: getRepositoryToken(CrawlerPolicyEntity),
+          useValue: repository,
+        },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn(async () => ({
+              id: brandId,
+              domains: ['https://www.acme.com'],
+            })),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({ ingestion: { dataDir } })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CrawlerPolicyService>(CrawlerPolicyService);
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('savePolicy', () => {
+    it('should keep the stored version of a file left out', async () => {
+      store({ llmsTxt: '# Acme' });
+
+      const report = await service.savePolicy(brandId, 'WWW.Acme.com', {
+        robotsTxt,
+      });
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { brandId, domain: 'acme.com' },
+      });
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ robotsTxt, llmsTxt: '# Acme' }),
+      );
+      expect(report).toMatchObject({
+        domain: 'acme.com',
+        hasRobotsTxt: true,
+        llmsTxt: { title: 'Acme', linkCount: 0 },
+        sitemaps: ['https://acme.com/sitemap.xml'],
+      });
+    });
+
+    it('should reject a request without files or for another domain', async () => {
+      await expect(service.savePolicy(brandId, 'acme.com', {})).rejects.toThrow(
+        ValidationError,
+      );
+      await expect(
+        service.savePolicy(brandId, 'example.com', { robotsTxt }),
+      ).rejects.toThrow('example.com is not a domain of this brand');
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should import files from the ingestion directory', async () => {
+    await writeFile(join(dataDir, 'robots.txt'), robotsTxt);
+
+    await service.importFiles(brandId, 'acme.com', {
+      robotsTxt: 'robots.txt',
+    });
+    expect(repository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ robotsTxt, llmsTxt: null }),
+    );
+
+    await expect(
+      service.importFiles(brandId, 'acme.com', { llmsTxt: '../llms.txt' }),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  describe('getReport', () => {
+    it('should work out the access of each crawler and path', async () => {
+      store({ robotsTxt });
+
+      const report = await service.getReport(brandId, 'acme.com');
+
+      const bot = (name: string) =>
+        report.bots.find(access => access.bot === name);
+      expect(bot('GPTBot')).toMatchObject({
+        group: 'GPTBot',
+        allowed: false,
+        disallowed: ['/'],
+      });
+      expect(bot('ClaudeBot')).toMatchObject({
+        group: '*',
+        allowed: true,
+        disallowed: ['/admin', '/drafts'],
+      });
+      expect(report.llmsTxt).toBeNull();
+
+      const path = report.paths.find(access => access.path === '/drafts');
+      expect(path?.blockedBots).toEqual(
+        expect.arrayContaining(['GPTBot', 'CCBot', 'ClaudeBot']),
+      );
+      expect(path?.allowedBots).toContain('PerplexityBot');
+    });
+
+    it('should report rules that conflict or do not apply as intended', async () => {
+      store({
+        robotsTxt: `${robotsTxt}\n\nUser-agent: gptbot\nAllow: /blog`,
+        llmsTxt: [
+          '# Acme',
+          '## Docs',
+          '- [Guides](https://acme.com/guides)',
+          '- [Partner](https://partner.com/admin)',
+        ].join('\n'),
+      });
+
+      const { issues } = await service.getReport(brandId, 'acme.com');
+
+      expect(issues.map(issue => [issue.type, issue.line])).toEqual([
+        [PolicyIssueType.CONFLICTING_RULES, 12],
+        [PolicyIssueType.DUPLICATE_GROUP, 16],
+        [PolicyIssueType.WILDCARD_OVERRIDE, 3],
+        [PolicyIssueType.BLOCKED_LLMS_LINK, 3],
+      ]);
+      expect(issues[2]).toMatchObject({
+        userAgent: 'PerplexityBot',
+        path: '/drafts',
+      });
+      expect(issues[3].message).toBe(
+        'llms.txt lists https://acme.com/guides, which robots.txt blocks for GPTBot, CCBot',
+      );
+    });
+
+    it('should fail for a domain without stored files', async () => {
+      await expect(service.getReport(brandId, 'acme.com')).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe('simulate', () => {
+    it('should decide by the longest matching rule', async () => {
+      store({ robotsTxt });
+
+      const access = await service.simulate(
+        brandId,
+        'https://www.acme.com/docs/intro',
+      );
+
+      expect(access.find(bot => bot.bot === 'PerplexityBot')).toEqual({
+        bot: 'PerplexityBot',
+        operator: 'Perplexity',
+        purpose: expect.any(String),
+        group: 'PerplexityBot',
+        allowed: true,
+        rule: { type: RobotsRuleType.ALLOW, path: '/docs', line: 11 },
+      });
+      expect(access.find(bot => bot.bot === 'GPTBot')?.allowed).toBe(false);
+      expect(access.find(bot => bot.bot === 'ClaudeBot')).toMatchObject({
+        allowed: true,
+        rule: null,
+      });
+    });
+
+    it('should match wildcard rules without backtracking blowing up', async () => {
+      store({
+        robotsTxt: [
+          'User-agent: *',
+          'Disallow: /*a*a*a*a*a*a*a*a*a*a*a*a*b',
+          'Disallow: /*.pdf$',
+          'Allow: /',
+        ].join('\n'),
+      });
+
+      const started = Date.now();
+      const [slow] = await service.simulate(
+        brandId,
+        `https://www.acme.com/${'a'.repeat(2000)}`,
+      );
+      const [pdf] = await service.simulate(
+        brandId,
+        'https://www.acme.com/files/report.pdf',
+      );
+      const [query] = await service.simulate(
+        brandId,
+        'https://www.acme.com/files/report.pdf?download=1',
+      );
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(slow.allowed).toBe(true);
+      expect(pdf.allowed).toBe(false);
+      expect(query.allowed).toBe(true);
+    });
+
+    it('should reject a URL that is not absolute', async () => {
+      await expect(service.simulate(brandId, '/docs')).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe('suggest', () => {
+    it('should suggest groups that match the intent', async () => {
+      store({ robotsTxt });
+
+      const result = await service.suggest(brandId, 'acme.com', {
+        training: AccessIntent.ALLOW,
+        search: AccessIntent.BLOCK,
+        assistant: AccessIntent.ALLOW,
+      });
+
+      const suggestion = (name: string) =>
+        result.suggestions.find(item => item.bot === name);
+      expect(suggestion('GPTBot')?.directives).toEqual(['Allow: /']);
+      expect(suggestion('ClaudeBot')).toBeUndefined();
+      expect(suggestion('PerplexityBot')?.directives).toEqual(['Disallow: /']);
+      expect(result.suggestions.at(-1)).toMatchObject({
+        bot: null,
+        directives: [],
+      });
+
+      expect(result.robotsTxt).toBe(
+        [
+          'User-agent: *',
+          'Disallow: /admin',
+          'Disallow: /drafts',
+          '',
+          'Sitemap: https://acme.com/sitemap.xml',
+          '',
+          'User-agent: GPTBot',
+          'User-agent: CCBot',
+          'Allow: /',
+          '',
+          'User-agent: OAI-SearchBot',
+          'User-agent: PerplexityBot',
+          'User-agent: Claude-SearchBot',
+          'User-agent: Amazonbot',
+          'User-agent: YouBot',
+          'Disallow: /',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep paths out for crawlers it allows', async () => {
+      store({ robotsTxt, llmsTxt: '# Acme' });
+
+      const result = await service.suggest(brandId, 'acme.com', {
+        search: AccessIntent.ALLOW,
+        disallowPaths: ['/checkout'],
+      });
+
+      expect(
+        result.suggestions.find(item => item.bot === 'PerplexityBot'),
+      ).toMatchObject({
+        directives: [
+          'Disallow: /admin',
+          'Disallow: /docs',
+          'Disallow: /checkout',
+        ],
+      });
+      expect(result.suggestions.some(item => item.bot === null)).toBe(false);
+      await expect(
+        service.suggest(brandId, 'acme.com', { disallowPaths: ['checkout'] }),
+      ).rejects.toThrow('Path "checkout" must start with "/"');
+    });
+  });
+});
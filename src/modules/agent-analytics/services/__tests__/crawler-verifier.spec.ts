@@ -0,0 +1,168 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as dns } from 'dns';
+import { CrawlerVerifier } from '../crawler-verifier';
+import { BotClassifier } from '../bot-classifier';
+import { CrawlerVerification } from '../../interfaces/crawler-log.interface';
+import { CacheService } from '../../../../cache/cache.service';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('CrawlerVerifier', () => {
+  let verifier: CrawlerVerifier;
+  let cache: Map<string, unknown>;
+  let cacheService: { get: jest.Mock; set: jest.Mock };
+  let reverse: jest.SpyInstance;
+  let resolve4: jest.SpyInstance;
+
+  const classifier = new BotClassifier();
+  const gptBot = classifier.classify('GPTBot/1.2')!;
+  const googleExtended = classifier.classify('Google-Extended')!;
+  const ccBot = classifier.classify('CCBot/2.0')!;
+
+  const dnsError = (code: string): Error =>
+    Object.assign(new Error(`queryPtr ${code}`), { code });
+
+  beforeEach(() => {
+    cache = new Map();
+    cacheService = {
+      get: jest.fn(async key => cache.get(key) ?? null),
+      set: jest.fn(async (key, value) => {
+        cache.set(key, value);
+      }),
+    };
+    reverse = jest
+      .spyOn(dns.Resolver.prototype, 'reverse')
+      .mockRejectedValue(dnsError(dns.NOTFOUND));
+    resolve4 = jest
+      .spyOn(dns.Resolver.prototype, 'resolve4')
+      .mockResolvedValue([]);
+
+    verifier = new CrawlerVerifier(
+      cacheService as unknown as CacheService,
+      {
+        get: jest.fn(() => ({
+          verification: {
+            rangesFile: '',
+            reverseDns: true,
+            dnsTimeout: 100,
+            dnsConcurrency: 2,
+            cacheTtl: 60000,
+          },
+        })),
+      } as unknown as ConfigService,
+    );
+    verifier.loadRanges({
+      GPTBot: ['20.171.206.0/24', '2a01:111:f403::/48'],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should verify IPs in the published ranges', async () => {
+    await expect(verifier.verify(gptBot, '20.171.206.14')).resolves.toBe(
+      CrawlerVerification.VERIFIED,
+    );
+    await expect(
+      verifier.verify(gptBot, '2a01:111:f403:c000::1'),
+    ).resolves.toBe(CrawlerVerification.VERIFIED);
+  });
+
+  it('should flag IPs outside the published ranges as spoofed', async () => {
+    await expect(verifier.verify(gptBot, '203.0.113.7')).resolves.toBe(
+      CrawlerVerification.SPOOFED,
+    );
+  });
+
+  it('should leave crawlers without ranges or host names unverified', async () => {
+    await expect(verifier.verify(ccBot, '203.0.113.7')).resolves.toBe(
+      CrawlerVerification.UNVERIFIED,
+    );
+    await expect(verifier.verify(gptBot, 'unknown')).resolves.toBe(
+      CrawlerVerification.UNVERIFIED,
+    );
+    expect(reverse).not.toHaveBeenCalled();
+  });
+
+  it('should verify crawlers by forward-confirmed reverse DNS', async () => {
+    reverse.mockResolvedValue(['crawl-66-249-66-1.googlebot.com']);
+    resolve4.mockResolvedValue(['66.249.66.1']);
+
+    await expect(verifier.verify(googleExtended, '66.249.66.1')).resolves.toBe(
+      CrawlerVerification.VERIFIED,
+    );
+    expect(resolve4).toHaveBeenCalledWith('crawl-66-249-66-1.googlebot.com');
+  });
+
+  it('should flag reverse DNS names that do not confirm the operator', async () => {
+    reverse.mockResolvedValue(['googlebot.com.attacker.example']);
+    await expect(verifier.verify(googleExtended, '198.51.100.1')).resolves.toBe(
+      CrawlerVerification.SPOOFED,
+    );
+
+    reverse.mockResolvedValue(['crawl.googlebot.com']);
+    resolve4.mockResolvedValue(['66.249.66.1']);
+    await expect(verifier.verify(googleExtended, '198.51.100.2')).resolves.toBe(
+      CrawlerVerification.SPOOFED,
+    );
+
+    reverse.mockRejectedValue(dnsError(dns.NOTFOUND));
+    await expect(verifier.verify(googleExtended, '198.51.100.3')).resolves.toBe(
+      CrawlerVerification.SPOOFED,
+    );
+  });
+
+  it('should leave crawlers unverified when DNS does not answer', async () => {
+    reverse.mockRejectedValue(dnsError(dns.TIMEOUT));
+
+    await expect(verifier.verify(googleExtended, '66.249.66.1')).resolves.toBe(
+      CrawlerVerification.UNVERIFIED,
+    );
+  });
+
+  it('should cache verdicts per crawler and IP', async () => {
+    reverse.mockResolvedValue(['crawl.googlebot.com']);
+    resolve4.mockResolvedValue(['66.249.66.1']);
+
+    await verifier.verify(googleExtended, '66.249.66.1');
+    await verifier.verify(googleExtended, '66.249.66.1');
+    expect(reverse).toHaveBeenCalledTimes(1);
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'crawler-verification:google-extended:66.249.66.1',
+      CrawlerVerification.VERIFIED,
+      60000,
+    );
+
+    await verifier.verify(googleExtended, '66.249.66.1', true);
+    expect(reverse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bound how many DNS confirmations run at once', async () => {
+    let running = 0;
+    let most = 0;
+    reverse.mockImplementation(async () => {
+      most = Math.max(most, ++running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+      return ['crawl.googlebot.com'];
+    });
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map(host =>
+        verifier.verify(googleExtended, `198.51.100.${host}`),
+      ),
+    );
+
+    expect(reverse).toHaveBeenCalledTimes(5);
+    expect(most).toBe(2);
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(() => verifier.loadRanges({ GPTBot: ['20.171.206.0/33'] })).toThrow(
+      ValidationError,
+    );
+    expect(() => verifier.loadRanges({ GPTBot: ['not-an-ip'] })).toThrow(
+      ValidationError,
+    );
+  });
+});
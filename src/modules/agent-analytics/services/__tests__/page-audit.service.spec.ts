@@ -0,0 +1,333 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QueryFailedError } from 'typeorm';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PageAuditService } from '../page-audit.service';
+import { PageHtmlParser } from '../page-html.parser';
+import { PageOptimizationEntity } from '../../entities/page-optimization.entity';
+import {
+  OptimizationPriority,
+  OptimizationStatus,
+  OptimizationType,
+} from '../../interfaces/page-audit.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('PageAuditService', () => {
+  let service: PageAuditService;
+  let mirrorDir: string;
+  let stored: PageOptimizationEntity[];
+  let repository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+    manager: { transaction: jest.Mock; withRepository: jest.Mock };
+  };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+  const url = 'https://acme.com/pricing';
+  const now = new Date('2025-04-12T00:00:00Z');
+
+  const page = (head: string, body: string) =>
+    `<html><head>${head}</head><body>${body}</body></html>`;
+
+  const optimizedHead = [
+    '<meta name="description" content="Acme anvils come in three plans, from single workshops to whole factories.">',
+    `<link rel="canonical" href="${url}">`,
+    '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Product","name":"Anvil","offers":{"price":"99"}}</script>',
+  ].join('');
+  const optimizedBody =
+    '<nav>Home Docs</nav><main><h1>Pricing</h1><h2>Plans</h2><p>Pick the plan that fits your workshop.</p></main>';
+
+  beforeEach(async () => {
+    mirrorDir = await mkdtemp(join(tmpdir(), 'page-mirror-'));
+    stored = [];
+    repository = {
+      find: jest.fn(
+        async ({ where }: { where: Partial<PageOptimizationEntity> }) =>
+          stored.filter(
+            item => item.url === where.url && item.status === where.status,
+          ),
+      ),
+      findOne: jest.fn(
+        async ({ where }: { where: Partial<PageOptimizationEntity> }) =>
+          stored.find(item => item.id === where.id) ?? null,
+      ),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async (entities: PageOptimizationEntity[]) =>
+        entities.map(entity => {
+          if (!entity.id) {
+            entity.id = `optimization-${stored.length}`;
+            stored.push(entity);
+          }
+          return entity;
+        }),
+      ),
+      manager: {
+        transaction: jest.fn(async work => work(repository.manager)),
+        withRepository: jest.fn(target => target),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PageAuditService,
+        PageHtmlParser,
+        {
+          provide: getRepositoryToken(PageOptimizationEntity),
+          useValue: repository,
+        },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn(async () => ({
+              id: brandId,
+              domains: ['https://www.acme.com', 'acme.io'],
+            })),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({
+              audit: {
+                mirrorDir,
+                minDescriptionLength: 50,
+                maxDescriptionLength: 160,
+                minContentRatio: 0.5,
+              },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PageAuditService>(PageAuditService);
+  });
+
+  afterEach(async () => {
+    await rm(mirrorDir, { recursive: true, force: true });
+  });
+
+  describe('auditHtml', () => {
+    it('should find nothing to change on an optimized page', async () => {
+      const result = await service.auditHtml(
+        brandId,
+        `${url}#plans`,
+        page(optimizedHead, optimizedBody),
+        now,
+      );
+
+      expect(result).toEqual({
+        brandId,
+        url,
+        checkedAt: now,
+        contentRatio: 0.82,
+        optimizations: [],
+        resolved: 0,
+      });
+    });
+
+    it('should record prioritized optimizations for each problem', async () => {
+      const result = await service.auditHtml(
+        brandId,
+        url,
+        page(
+          [
+            '<meta name="description" content="Pricing">',
+            '<meta name="description" content="Plans">',
+            '<link rel="canonical" href="https://partner.com/pricing">',
+            '<script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"Article","headline":"Pricing"},{"name":"Untyped"}]}</script>',
+            '<script type="application/ld+json">{"@type": "Product",}</script>',
+          ].join(''),
+          '<header><nav>Home Docs Blog Careers Contact</nav></header><h1>Pricing</h1><h1>Plans</h1><h4>Team</h4><footer>Acme Inc. All rights reserved</footer>',
+        ),
+        now,
+      );
+
+      expect(
+        result.optimizations.map(item => [item.type, item.priority]),
+      ).toEqual([
+        [OptimizationType.INVALID_STRUCTURED_DATA, OptimizationPriority.HIGH],
+        [
+          OptimizationType.INCOMPLETE_STRUCTURED_DATA,
+          OptimizationPriority.MEDIUM,
+        ],
+        [
+          OptimizationType.DUPLICATE_META_DESCRIPTION,
+          OptimizationPriority.MEDIUM,
+        ],
+        [OptimizationType.MULTIPLE_H1, OptimizationPriority.MEDIUM],
+        [OptimizationType.CROSS_DOMAIN_CANONICAL, OptimizationPriority.MEDIUM],
+        [OptimizationType.LOW_CONTENT_RATIO, OptimizationPriority.MEDIUM],
+        [OptimizationType.META_DESCRIPTION_LENGTH, OptimizationPriority.LOW],
+        [OptimizationType.SKIPPED_HEADING_LEVEL, OptimizationPriority.LOW],
+      ]);
+      expect(result.optimizations[0]).toMatchObject({
+        brandId,
+        url,
+        status: OptimizationStatus.OPEN,
+        detectedAt: now,
+        detail: expect.stringContaining(
+          'An item of JSON-LD block 1 has no @type; JSON-LD block 2 is not valid JSON',
+        ),
+      });
+      expect(result.optimizations[1].detail).toBe(
+        'Article lacks author, datePublished',
+      );
+      expect(result.optimizations[7].detail).toBe('H4 "Team"');
+    });
+
+    it('should report what a bare page lacks', async () => {
+      const result = await service.auditHtml(
+        brandId,
+        'https://acme.io/about',
+        page('<title>About Acme</title>', '<p>About us</p>'),
+        now,
+      );
+
+      expect(result.optimizations.map(item => item.type)).toEqual([
+        OptimizationType.MISSING_STRUCTURED_DATA,
+        OptimizationType.MISSING_META_DESCRIPTION,
+        OptimizationType.MISSING_H1,
+        OptimizationType.MISSING_CANONICAL,
+      ]);
+      expect(result.optimizations[2].detail).toBe('Page title: "About Acme"');
+    });
+
+    it('should resolve optimizations a later audit no longer finds', async () => {
+      await service.auditHtml(
+        brandId,
+        url,
+        page(optimizedHead.replace(/<link[^>]*>/, ''), optimizedBody),
+        now,
+      );
+      const [missing] = stored;
+
+      const result = await service.auditHtml(
+        brandId,
+        url,
+        page(optimizedHead, optimizedBody),
+        new Date('2025-04-13T00:00:00Z'),
+      );
+
+      expect(result.resolved).toBe(1);
+      expect(missing).toMatchObject({
+        type: OptimizationType.MISSING_CANONICAL,
+        status: OptimizationStatus.RESOLVED,
+        resolvedAt: new Date('2025-04-13T00:00:00Z'),
+      });
+    });
+
+    it('should reject a page off the brand domains', async () => {
+      await expect(
+        service.auditHtml(brandId, 'https://example.com/', '<p>Hi</p>'),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.auditHtml(brandId, 'ftp://acme.com/', '<p>Hi</p>'),
+      ).rejects.toThrow('ftp://acme.com/ is not an absolute http(s) URL');
+    });
+  });
+
+  it('should audit again when another audit opened an optimization first', async () => {
+    repository.save.mockRejectedValueOnce(
+      new QueryFailedError('INSERT', [], { code: '23505' } as never),
+    );
+
+    const result = await service.auditHtml(brandId, url, page('', ''), now);
+
+    expect(repository.manager.transaction).toHaveBeenCalledTimes(2);
+    expect(result.optimizations.length).toBeGreaterThan(0);
+  });
+
+  it('should cap how many optimizations are listed', async () => {
+    await expect(
+      service.findByBrand(brandId, { limit: 100000 }),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should audit pages from the local mirror', async () => {
+    await mkdir(join(mirrorDir, 'acme.com', 'pricing'), { recursive: true });
+    await writeFile(
+      join(mirrorDir, 'acme.com', 'pricing', 'index.html'),
+      page(optimizedHead, optimizedBody),
+    );
+
+    await expect(service.auditMirror(brandId, url)).resolves.toMatchObject({
+      optimizations: [],
+    });
+    await expect(
+      service.auditMirror(brandId, 'https://acme.com/docs/'),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should keep mirror lookups inside the host’s directory', async () => {
+    await mkdir(join(mirrorDir, 'globex.com'), { recursive: true });
+    await writeFile(
+      join(mirrorDir, 'globex.com', 'secret.html'),
+      page(optimizedHead, optimizedBody),
+    );
+
+    await expect(
+      service.auditMirror(brandId, 'https://acme.com/..%2Fglobex.com/secret'),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      service.auditMirror(brandId, 'https://acme.com/pricing%00.html'),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  describe('validateImplementation', () => {
+    it('should pass once the page no longer has the problem', async () => {
+      const { optimizations } = await service.auditHtml(
+        brandId,
+        url,
+        page(optimizedHead, optimizedBody.replace('<h1>Pricing</h1>', '')),
+        now,
+      );
+      expect(optimizations.map(item => item.type)).toEqual([
+        OptimizationType.MISSING_H1,
+      ]);
+
+      const failed = await service.validateImplementation(
+        brandId,
+        optimizations[0].id,
+        page(optimizedHead, '<main><h2>Pricing</h2></main>'),
+        now,
+      );
+      expect(failed).toMatchObject({
+        passed: false,
+        optimization: { status: OptimizationStatus.OPEN },
+        finding: { type: OptimizationType.MISSING_H1 },
+      });
+
+      const passed = await service.validateImplementation(
+        brandId,
+        optimizations[0].id,
+        page(optimizedHead, optimizedBody),
+        now,
+      );
+      expect(passed).toEqual({
+        optimization: expect.objectContaining({
+          id: optimizations[0].id,
+          status: OptimizationStatus.RESOLVED,
+          resolvedAt: now,
+        }),
+        passed: true,
+        checkedAt: now,
+        finding: null,
+      });
+    });
+
+    it('should fail for an unknown optimization', async () => {
+      await expect(
+        service.validateImplementation(brandId, 'missing', '<p>Hi</p>'),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
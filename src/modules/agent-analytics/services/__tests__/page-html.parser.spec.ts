@@ -0,0 +1,57 @@
+import { PageHtmlParser } from '../page-html.parser';
+
+describe('PageHtmlParser', () => {
+  const parser = new PageHtmlParser();
+
+  it('should read the metadata, headings and structured data', () => {
+    const snapshot = parser.parse(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Pricing &amp; plans</title>
+          <META NAME="Description" CONTENT="Plans for teams of every size">
+          <link rel="alternate canonical" href='https://acme.com/pricing'>
+          <script type="application/ld+json; charset=utf-8">
+            {"@context": "https://schema.org", "@type": "Product"}
+          </script>
+          <script>var ignored = "<h1>Not a heading</h1>";</script>
+        </head>
+        <body>
+          <h1 class="title">Pricing</h1>
+          <!-- <h2>Commented out</h2> -->
+          <h3>Team&nbsp;plan</h3>
+        </body>
+      </html>`);
+
+    expect(snapshot).toMatchObject({
+      title: 'Pricing & plans',
+      metaDescriptions: ['Plans for teams of every size'],
+      canonicals: ['https://acme.com/pricing'],
+      headings: [
+        { level: 1, text: 'Pricing' },
+        { level: 3, text: 'Team plan' },
+      ],
+      jsonLd: ['{"@context": "https://schema.org", "@type": "Product"}'],
+    });
+  });
+
+  it('should count navigation, headers and footers as boilerplate', () => {
+    const snapshot = parser.parse(`<body>
+      <header><nav><a href="/">Home</a> <a href="/docs">Docs</a></nav></header>
+      <p>Anvils for professionals, forged in Ohio.</p>
+      <footer>© Acme 2025</footer>
+    </body>`);
+
+    expect(snapshot.bodyWords).toBe(10);
+    expect(snapshot.contentWords).toBe(6);
+  });
+
+  it('should take the content from main and article elements', () => {
+    const snapshot = parser.parse(`<body>
+      <div class="sidebar">Popular posts and other links</div>
+      <main><p>Anvils for professionals</p><aside>Related</aside></main>
+    </body>`);
+
+    expect(snapshot.bodyWords).toBe(9);
+    expect(snapshot.contentWords).toBe(3);
+  });
+});
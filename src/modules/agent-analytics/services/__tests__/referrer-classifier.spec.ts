@@ -0,0 +1,59 @@
+import { ReferrerClassifier } from '../referrer-classifier';
+import { AiReferralPlatform } from '../../interfaces/ai-referral.interface';
+
+describe('ReferrerClassifier', () => {
+  const classifier = new ReferrerClassifier();
+
+  it.each([
+    ['https://chatgpt.com/', AiReferralPlatform.CHATGPT, 'chatgpt.com'],
+    ['chat.openai.com', AiReferralPlatform.CHATGPT, 'chat.openai.com'],
+    [
+      'https://www.perplexity.ai/search?q=crm',
+      AiReferralPlatform.PERPLEXITY,
+      'perplexity.ai',
+    ],
+    [
+      `https://${'x'.repeat(300)}.chatgpt.com/`,
+      AiReferralPlatform.CHATGPT,
+      'chatgpt.com',
+    ],
+    [
+      'gemini.google.com / referral',
+      AiReferralPlatform.GEMINI,
+      'gemini.google.com',
+    ],
+    ['Claude.ai', AiReferralPlatform.CLAUDE, 'claude.ai'],
+  ])('should recognize %s', (referrer, platform, host) => {
+    expect(classifier.classify(referrer)).toEqual({
+      platform,
+      referrer: host,
+    });
+  });
+
+  it.each([
+    'https://www.google.com/',
+    'google.com / organic',
+    'notchatgpt.com',
+    '(direct)',
+    '(not set)',
+    '',
+    undefined,
+  ])('should ignore %s', referrer => {
+    expect(classifier.classify(referrer)).toBeNull();
+  });
+
+  it('should recognize the utm_source of a landing page', () => {
+    expect(
+      classifier.classifyLanding(
+        'https://acme.com/pricing?utm_source=chatgpt.com&utm_medium=referral',
+      ),
+    ).toEqual({
+      platform: AiReferralPlatform.CHATGPT,
+      referrer: 'chatgpt.com',
+    });
+    expect(
+      classifier.classifyLanding('https://acme.com/?utm_source=newsletter'),
+    ).toBeNull();
+    expect(classifier.classifyLanding('not a url')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { SitemapIngestionService } from '../sitemap-ingestion.service';
+import { CrawlCoverageService } from '../crawl-coverage.service';
+import { BrandPageService } from '../../../brands/services/brand-page.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+// Replace the gateway module wholesale so the test does not depend on the
+// socket server it wraps
+jest.mock('../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('SitemapIngestionService', () => {
+  let service: SitemapIngestionService;
+  let dataDir: string;
+  let brandPageService: { importSitemap: jest.Mock };
+  let coverageService: { publish: jest.Mock };
+
+  const brandId = 'brand-1';
+
+  const urlset = (...locs: string[]): string =>
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+    locs.map(loc => `<url><loc>${loc}</loc></url>`).join('') +
+    '</urlset>';
+
+  const index = (...locs: string[]): string =>
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+    locs.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('') +
+    '</sitemapindex>';
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'sitemaps-'));
+    brandPageService = {
+      importSitemap: jest.fn(async (_brandId, xml: string) =>
+        xml.includes('<sitemapindex')
+          ? {
+              imported: 0,
+              skipped: [],
+              sitemaps: [...xml.matchAll(/<loc>([^<]+)<\/loc>/g)].map(
+                match => match[1],
+              ),
+            }
+          : {
+              imported: (xml.match(/<url>/g) ?? []).length,
+              skipped: [],
+              sitemaps: [],
+            },
+      ),
+    };
+    coverageService = { publish: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SitemapIngestionService,
+        { provide: BrandPageService, useValue: brandPageService },
+        { provide: CrawlCoverageService, useValue: coverageService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => ({ ingestion: { dataDir } })) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SitemapIngestionService>(SitemapIngestionService);
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should import the sitemaps a local index lists', async () => {
+    await mkdir(join(dataDir, 'acme'));
+    await writeFile(
+      join(dataDir, 'acme', 'sitemap_index.xml'),
+      index(
+        'https://acme.com/sitemap-pages.xml',
+        'https://acme.com/sitemap-posts.xml.gz',
+        'https://acme.com/sitemap-products.xml',
+      ),
+    );
+    await writeFile(
+      join(dataDir, 'acme', 'sitemap-pages.xml'),
+      urlset('https://acme.com/', 'https://acme.com/pricing'),
+    );
+    await writeFile(
+      join(dataDir, 'acme', 'sitemap-posts.xml.gz'),
+      gzipSync(urlset('https://acme.com/blog/a')),
+    );
+
+    const result = await service.importFile(brandId, 'acme/sitemap_index.xml');
+
+    expect(result).toEqual({
+      imported: 3,
+      skipped: [],
+      files: [
+        'acme/sitemap_index.xml',
+        'acme/sitemap-pages.xml',
+        'acme/sitemap-posts.xml.gz',
+      ],
+      missing: ['https://acme.com/sitemap-products.xml'],
+    });
+    expect(coverageService.publish).toHaveBeenCalledWith(
+      brandId,
+      'sitemap_imported',
+    );
+  });
+
+  it('should return the sitemaps of an uploaded index as missing', async () => {
+    const result = await service.importXml(
+      brandId,
+      index('https://acme.com/sitemap-pages.xml'),
+    );
+
+    expect(result).toEqual({
+      imported: 0,
+      skipped: [],
+      files: [],
+      missing: ['https://acme.com/sitemap-pages.xml'],
+    });
+    expect(coverageService.publish).toHaveBeenCalled();
+  });
+
+  it('should refuse sitemaps that decompress past 50MB', async () => {
+    await writeFile(
+      join(dataDir, 'bomb.xml.gz'),
+      gzipSync(Buffer.alloc(51 * 1024 * 1024, ' ')),
+    );
+    await writeFile(join(dataDir, 'broken.xml.gz'), 'not gzip');
+
+    await expect(service.importFile(brandId, 'bomb.xml.gz')).rejects.toThrow(
+      'Sitemap bomb.xml.gz is larger than 50MB',
+    );
+    await expect(service.importFile(brandId, 'broken.xml.gz')).rejects.toThrow(
+      ValidationError,
+    );
+    expect(brandPageService.importSitemap).not.toHaveBeenCalled();
+  });
+
+  it('should only read files inside the ingestion directory', async () => {
+    await expect(service.importFile(brandId, '../sitemap.xml')).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(service.importFile(brandId, 'sitemap.xml')).rejects.toThrow(
+      NotFoundError,
+    );
+    expect(coverageService.publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AccessLogEntry,
+  AccessLogFormat,
+  AccessLogLine,
+} from '../interfaces/crawler-log.interface';
+
+/**
+ * Common and combined log format, optionally preceded by the virtual host as
+ * in Apache's vhost_combined:
+ * `[host[:port] ]ip ident user [time] "request" status bytes ["referrer" "agent"]`
+ */
+const COMBINED_PATTERN =
+  /^(?:(\S+?)(?::\d+)?\s+(?=\S+\s+\S+\s+\S+\s+\[))?(\S+)\s+\S+\s+\S+\s+\[([^\]]+)\]\s+"((?:[^"\\]|\\.)*)"\s+(\d{3})\s+(\d+|-)(?:\s+"((?:[^"\\]|\\.)*)"\s+"((?:[^"\\]|\\.)*)")?/;
+
+/** Time as written by common log format, e.g. "10/Oct/2000:13:55:36 -0700" */
+const CLF_TIME_PATTERN =
+  /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2})\s*([+-]\d{4})?$/;
+
+/** Largest response size the crawler_hits integer column holds */
+const MAX_BYTES = 2_147_483_647;
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+/**
+ * Keys JSON access logs commonly use for each field, in order of preference.
+ * Covers nginx `escape=json` templates, Caddy, and most log shippers.
+ */
+const JSON_KEYS = {
+  time: ['time', 'timestamp', '@timestamp', 'time_iso8601', 'time_local', 'ts'],
+  ip: ['remote_addr', 'client_ip', 'clientIp', 'ip', 'remote_ip', 'c-ip'],
+  method: ['method', 'request_method', 'httpMethod'],
+  host: ['host', 'http_host', 'server_name', 'hostname'],
+  path: ['request_uri', 'uri', 'path', 'url'],
+  request: ['request'],
+  status: ['status', 'status_code', 'statusCode', 'response_status'],
+  bytes: ['body_bytes_sent', 'bytes_sent', 'bytes', 'size', 'response_size'],
+  userAgent: ['http_user_agent', 'user_agent', 'userAgent', 'ua', 'agent'],
+  referrer: ['http_referer', 'referer', 'referrer'],
+};
+
+/**
+ * Reads web server access logs line by line, in common/combined, JSON or
+ * CloudFront format
+ */
+@Injectable()
+export class AccessLogParser {
+  /**
+   * Guess the format of a log from its first non-empty line
+   * @param line - First non-empty line of the log
+   */
+  detectFormat(line: string): AccessLogFormat {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#Version') || trimmed.startsWith('#Fields')) {
+      return AccessLogFormat.CLOUDFRONT;
+    }
+    if (trimmed.startsWith('{')) {
+      return AccessLogFormat.JSON;
+    }
+    return AccessLogFormat.COMBINED;
+  }
+
+  /**
+   * Parse the lines of a log. Blank lines and comments are skipped; lines
+   * that cannot be read are yielded with the reason.
+   * @param lines - Lines of the log
+   * @param format - Format of the log; detected from the first line when
+   * omitted
+   * @returns Entries and errors, by line
+   */
+  async *parse(
+    lines: AsyncIterable<string> | Iterable<string>,
+    format?: AccessLogFormat,
+  ): AsyncGenerator<AccessLogLine> {
+    let fields: string[] | null = null;
+    let number = 0;
+
+    for await (const raw of lines) {
+      number++;
+      const line = raw.replace(/\r$/, '');
+      if (!line.trim()) {
+        continue;
+      }
+      format ??= this.detectFormat(line);
+
+      if (line.startsWith('#')) {
+        if (format === AccessLogFormat.CLOUDFRONT && /^#Fields:/.test(line)) {
+          fields = line.slice('#Fields:'.length).trim().split(/\s+/);
+        }
+        continue;
+      }
+
+      try {
+        const entry = this.parseLine(line, format, fields);
+        yield { line: number, format, entry };
+      } catch (error) {
+        yield { line: number, format, error: (error as Error).message };
+      }
+    }
+  }
+
+  /**
+   * Parse one line of a log
+   * @param line - Log line
+   * @param format - Format of the log
+   * @param fields - CloudFront field names, from the `#Fields` header
+   * @throws {Error} When the line is not a valid entry
+   */
+  parseLine(
+    line: string,
+    format: AccessLogFormat,
+    fields: string[] | null = null,
+  ): AccessLogEntry {
+    switch (format) {
+      case AccessLogFormat.JSON:
+        return this.parseJson(line);
+      case AccessLogFormat.CLOUDFRONT:
+        return this.parseCloudFront(line, fields);
+      default:
+        return this.parseCombined(line);
+    }
+  }
+
+  private parseCombined(line: string): AccessLogEntry {
+    const match = line.match(COMBINED_PATTERN);
+    if (!match) {
+      throw new Error('Not a common or combined log line');
+    }
+
+    const [, host, ip, time, request, status, bytes, referrer, userAgent] =
+      match;
+    const { method, path } = this.parseRequest(this.unescape(request));
+    return {
+      requestedAt: this.parseClfTime(time),
+      ip,
+      method,
+      host: host ? host.toLowerCase() : null,
+      path,
+      status: parseInt(status, 10),
+      bytes: this.parseBytes(bytes),
+      userAgent: this.dash(this.unescape(userAgent ?? '')) ?? '',
+      referrer: this.dash(this.unescape(referrer ?? '')),
+    };
+  }
+
+  private parseJson(line: string): AccessLogEntry {
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error('Expected a JSON object');
+    }
+
+    const value = (keys: string[]): string | null => {
+      for (const key of keys) {
+        const found = (record as Record<string, unknown>)[key];
+        if (found !== undefined && found !== null && found !== '') {
+          return String(found);
+        }
+      }
+      return null;
+    };
+
+    const request = value(JSON_KEYS.request);
+    const fromRequest = request ? this.parseRequest(request) : null;
+    const path = value(JSON_KEYS.path) ?? fromRequest?.path;
+    if (!path) {
+      throw new Error('Missing request path');
+    }
+
+    const time = value(JSON_KEYS.time);
+    if (!time) {
+      throw new Error('Missing timestamp');
+    }
+
+    return {
+      requestedAt: this.parseTime(time),
+      ip: value(JSON_KEYS.ip) ?? '',
+      method: (
+        value(JSON_KEYS.method) ??
+        fromRequest?.method ??
+        'GET'
+      ).toUpperCase(),
+      host: value(JSON_KEYS.host)?.toLowerCase().replace(/:\d+$/, '') ?? null,
+      path: this.pathOf(path),
+      status: this.parseStatus(value(JSON_KEYS.status)),
+      bytes: this.parseBytes(value(JSON_KEYS.bytes)),
+      userAgent: value(JSON_KEYS.userAgent) ?? '',
+      referrer: this.dash(value(JSON_KEYS.referrer) ?? ''),
+    };
+  }
+
+  /**
+   * CloudFront standard logs: tab-separated, `-` for empty values, user
+   * agent and referrer URL-encoded
+   */
+  private parseCloudFront(
+    line: string,
+    fields: string[] | null,
+  ): AccessLogEntry {
+    if (!fields) {
+      throw new Error('Missing #Fields header');
+    }
+
+    const values = line.split('\t');
+    const value = (name: string): string | null => {
+      const index = fields.indexOf(name);
+      return index >= 0 ? this.dash(values[index] ?? '') : null;
+    };
+
+    const date = value('date');
+    const time = value('time');
+    const stem = value('cs-uri-stem');
+    if (!date || !time || !stem) {
+      throw new Error('Missing date, time or cs-uri-stem');
+    }
+
+    const query = value('cs-uri-query');
+    return {
+      requestedAt: this.parseTime(`${date}T${time}Z`),
+      ip: value('c-ip') ?? '',
+      method: (value('cs-method') ?? 'GET').toUpperCase(),
+      host:
+        (value('x-host-header') ?? value('cs(Host)'))?.toLowerCase() ?? null,
+      path: query ? `${stem}?${query}` : stem,
+      status: this.parseStatus(value('sc-status')),
+      bytes: this.parseBytes(value('sc-bytes')),
+      userAgent: this.decode(value('cs(User-Agent)') ?? ''),
+      referrer: this.dash(this.decode(value('cs(Referer)') ?? '')),
+    };
+  }
+
+  /** Method and path of a request line, e.g. "GET /docs HTTP/1.1" */
+  private parseRequest(request: string): { method: string; path: string } {
+    const [method, target] = request.trim().split(/\s+/);
+    if (!method || !target) {
+      throw new Error(`Unreadable request line "${request}"`);
+    }
+    return { method: method.toUpperCase(), path: this.pathOf(target) };
+  }
+
+  /** Path and query of a request target, which may be an absolute URL */
+  private pathOf(target: string): string {
+    if (/^https?:\/\//i.test(target)) {
+      try {
+        const url = new URL(target);
+        return `${url.pathname}${url.search}`;
+      } catch {
+        return target;
+      }
+    }
+    return target;
+  }
+
+  private parseClfTime(value: string): Date {
+    const match = value.match(CLF_TIME_PATTERN);
+    if (!match) {
+      throw new Error(`Unreadable time "${value}"`);
+    }
+
+    const [, day, month, year, hours, minutes, seconds, offset] = match;
+    const monthIndex = MONTHS.indexOf(month.toLowerCase());
+    if (monthIndex < 0) {
+      throw new Error(`Unreadable time "${value}"`);
+    }
+
+    const utc = Date.UTC(
+      parseInt(year, 10),
+      monthIndex,
+      parseInt(day, 10),
+      parseInt(hours, 10),
+      parseInt(minutes, 10),
+      parseInt(seconds, 10),
+    );
+    const offsetMinutes = offset
+      ? (offset[0] === '-' ? -1 : 1) *
+        (parseInt(offset.slice(1, 3), 10) * 60 + parseInt(offset.slice(3), 10))
+      : 0;
+    return new Date(utc - offsetMinutes * 60_000);
+  }
+
+  /** ISO 8601, common log format, or epoch seconds/milliseconds */
+  private parseTime(value: string): Date {
+    if (CLF_TIME_PATTERN.test(value)) {
+      return this.parseClfTime(value);
+    }
+    let date: Date;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      const epoch = parseFloat(value);
+      date = new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+    } else {
+      date = new Date(value);
+    }
+    if (isNaN(date.getTime())) {
+      throw new Error(`Unreadable time "${value}"`);
+    }
+    return date;
+  }
+
+  private parseStatus(value: string | null): number {
+    const status = parseInt(value ?? '', 10);
+    if (!(status >= 100 && status <= 599)) {
+      throw new Error(`Invalid status "${value ?? ''}"`);
+    }
+    return status;
+  }
+
+  private parseBytes(value: string | null): number | null {
+    const bytes = parseInt(value ?? '', 10);
+    if (isNaN(bytes)) {
+      return null;
+    }
+    if (bytes < 0 || bytes > MAX_BYTES) {
+      throw new Error(`Invalid size "${value ?? ''}"`);
+    }
+    return bytes;
+  }
+
+  /** Null for the `-` placeholder and empty values */
+  private dash(value: string): string | null {
+    return value === '-' || value === '' ? null : value;
+  }
+
+  /** Undo the backslash escapes servers write inside quoted fields */
+  private unescape(value: string): string {
+    return value.replace(/\\(x[0-9a-f]{2}|.)/gi, (_, escaped: string) =>
+      escaped.length === 3
+        ? String.fromCharCode(parseInt(escaped.slice(1), 16))
+        : escaped,
+    );
+  }
+
+  /** CloudFront URL-encodes some fields, twice for a few characters */
+  private decode(value: string): string {
+    let decoded = value;
+    for (let pass = 0; pass < 2 && /%[0-9a-f]{2}/i.test(decoded); pass++) {
+      try {
+        decoded = decodeURIComponent(decoded);
+      } catch {
+        break;
+      }
+    }
+    return decoded;
+  }
+}
@@ -0,0 +1,689 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  Between,
+  IsNull,
+  QueryFailedError,
+  Repository,
+  UpdateResult,
+} from 'typeorm';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { BaseService } from '../../../shared/classes/base.service';
+import {
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+} from '../../../shared/errors';
+import { parseCsv } from '../../../shared/utils/csv.utils';
+import { BrandService } from '../../brands/services/brand.service';
+import { normalizeDomain, ownDomain } from '../../brands/utils/domain.utils';
+import { AiReferralEntity } from '../entities/ai-referral.entity';
+import { AiReferralCollectorEntity } from '../entities/ai-referral-collector.entity';
+import { AiReferralSessionEntity } from '../entities/ai-referral-session.entity';
+import {
+  AiReferralCollectResult,
+  AiReferralEvent,
+  AiReferralImportResult,
+  AiReferralPlatform,
+  AiReferralSeries,
+  AiReferralSeriesFilter,
+  AiReferralSource,
+  AiReferralTotals,
+  ClassifiedReferrer,
+  CollectedReferral,
+} from '../interfaces/ai-referral.interface';
+import { ReferrerClassifier } from './referrer-classifier';
+import { resolveDataFile } from '../utils/data-file.utils';
+
+const DEFAULT_REFERRALS: AgentAnalyticsConfig['referrals'] = {
+  defaultDays: 30,
+  maxDays: 366,
+  maxConversionValue: 100000,
+  maxCollectorEvents: 60,
+  collectorWindowMs: 60000,
+};
+
+/** Clients tracked by the collector rate limit before idle ones are dropped */
+const MAX_TRACKED_CLIENTS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Postgres error code of a unique index violation */
+const UNIQUE_VIOLATION = '23505';
+
+const DATE_HEADERS = ['date', 'day'];
+const REFERRER_HEADERS = [
+  'referrer',
+  'referrer host',
+  'page referrer',
+  'source',
+  'session source',
+  'first user source',
+  'source / medium',
+  'session source / medium',
+];
+const LANDING_HEADERS = [
+  'landing page',
+  'landing page + query string',
+  'page location',
+  'url',
+];
+const SESSION_HEADERS = ['sessions', 'visits'];
+const CONVERSION_HEADERS = [
+  'conversions',
+  'key events',
+  'goal completions',
+  'transactions',
+];
+const REVENUE_HEADERS = ['revenue', 'total revenue', 'purchase revenue'];
+
+type ReferralCounts = Pick<
+  AiReferralEntity,
+  'sessions' | 'conversions' | 'revenue'
+>;
+
+type ReferralKey = Pick<
+  AiReferralEntity,
+  'brandId' | 'domain' | 'date' | 'platform' | 'referrer' | 'source'
+>;
+
+interface ImportRow extends ClassifiedReferrer, ReferralCounts {
+  date: string;
+}
+
+interface RawReferralDay {
+  domain: string;
+  date: string;
+  platform: AiReferralPlatform;
+  sessions: string;
+  conversions: string;
+  revenue: string;
+}
+
+/**
+ * Attributes visits and conversions of brand sites to the AI platforms that
+ * referred them, from analytics exports and the collector endpoint
+ */
+@Injectable()
+export class AiReferralService extends BaseService<AiReferralEntity> {
+  private readonly config: AgentAnalyticsConfig['referrals'];
+  private readonly dataDir: string;
+  private readonly eventLog = new Map<string, number[]>();
+
+  constructor(
+    @InjectRepository(AiReferralEntity)
+    repository: Repository<AiReferralEntity>,
+    @InjectRepository(AiReferralCollectorEntity)
+    private readonly collectorRepository: Repository<AiReferralCollectorEntity>,
+    @InjectRepository(AiReferralSessionEntity)
+    private readonly sessionRepository: Repository<AiReferralSessionEntity>,
+    private readonly brandService: BrandService,
+    private readonly classifier: ReferrerClassifier,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    const config = configService.get<AgentAnalyticsConfig>('agentAnalytics');
+    this.config = config?.referrals ?? DEFAULT_REFERRALS;
+    this.dataDir =
+      config?.ingestion.dataDir ??
+      join(process.cwd(), 'data', 'agent-analytics');
+  }
+
+  /**
+   * Import a referrer-level traffic export, e.g. a GA4 report of sessions by
+   * date and session source. Columns are found by their header: a date, a
+   * referrer or landing page, sessions, and optionally conversions and
+   * revenue. Rows from referrers other than AI platforms are counted but not
+   * stored. The export replaces the traffic imported for the domain between
+   * its first and last day, so importing the same export twice does not
+   * double its traffic and referrers a corrected export drops are removed.
+   * @param brandId - Brand ID
+   * @param domain - Brand domain the export covers
+   * @param csv - CSV text
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the CSV is malformed or lacks a required
+   * column, or the domain is not one of the brand's
+   */
+  async importCsv(
+    brandId: string,
+    domain: string,
+    csv: string,
+  ): Promise<AiReferralImportResult> {
+    const normalized = ownDomain(
+      await this.brandService.findById(brandId),
+      domain,
+    );
+    const rows = parseCsv(csv);
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const column = (names: string[]): number =>
+      header.findIndex(cell => names.includes(cell));
+    const dateColumn = column(DATE_HEADERS);
+    const referrerColumn = column(REFERRER_HEADERS);
+    const landingColumn = column(LANDING_HEADERS);
+    const sessionColumn = column(SESSION_HEADERS);
+    const conversionColumn = column(CONVERSION_HEADERS);
+    const revenueColumn = column(REVENUE_HEADERS);
+
+    if (
+      dateColumn < 0 ||
+      sessionColumn < 0 ||
+      (referrerColumn < 0 && landingColumn < 0)
+    ) {
+      throw new ValidationError(
+        'The CSV needs a date column, a sessions column, and a referrer or landing page column',
+        { header },
+      );
+    }
+
+    const result: AiReferralImportResult = {
+      imported: 0,
+      ignored: 0,
+      skipped: [],
+    };
+    const days = new Map<string, ImportRow>();
+    rows.slice(1).forEach((row, index) => {
+      const line = index + 2;
+      const date = this.parseDate(row[dateColumn]);
+      const sessions = this.parseNumber(row[sessionColumn]);
+      const conversions =
+        conversionColumn < 0 ? 0 : this.parseNumber(row[conversionColumn]);
+      const revenue =
+        revenueColumn < 0 ? 0 : this.parseNumber(row[revenueColumn]);
+
+      if (!date) {
+        result.skipped.push({ line, reason: 'Invalid date' });
+        return;
+      }
+      if (sessions === null || !Number.isInteger(sessions)) {
+        result.skipped.push({ line, reason: 'Invalid sessions' });
+        return;
+      }
+      if (conversions === null) {
+        result.skipped.push({ line, reason: 'Invalid conversions' });
+        return;
+      }
+      if (revenue === null) {
+        result.skipped.push({ line, reason: 'Invalid revenue' });
+        return;
+      }
+
+      const classified =
+        (referrerColumn < 0
+          ? null
+          : this.classifier.classify(row[referrerColumn])) ??
+        this.classifyLanding(row[landingColumn], normalized);
+      if (!classified) {
+        result.ignored++;
+        return;
+      }
+
+      // Exports split a day's traffic by landing page, device and the like
+      const key = `${date} ${classified.platform} ${classified.referrer}`;
+      const day = days.get(key);
+      days.set(key, {
+        ...classified,
+        date,
+        sessions: (day?.sessions ?? 0) + sessions,
+        conversions: (day?.conversions ?? 0) + conversions,
+        revenue: (day?.revenue ?? 0) + revenue,
+      });
+      result.imported++;
+    });
+
+    if (days.size === 0) {
+      return result;
+    }
+
+    const dates = [...days.values()].map(day => day.date).sort();
+    await this.repository.manager.transaction(async manager => {
+      const repository = manager.withRepository(this.repository);
+      await repository.delete({
+        brandId,
+        domain: normalized,
+        source: AiReferralSource.IMPORT,
+        date: Between(dates[0], dates[dates.length - 1]),
+      });
+      await repository.save(
+        [...days.values()].map(day =>
+          repository.create({
+            brandId,
+            domain: normalized,
+            source: AiReferralSource.IMPORT,
+            ...day,
+          }),
+        ),
+      );
+    });
+    return result;
+  }
+
+  /**
+   * Import a traffic export from the ingestion directory
+   * @param brandId - Brand ID
+   * @param domain - Brand domain the export covers
+   * @param fileName - Path of the CSV, relative to the ingestion directory
+   * @throws {NotFoundError} When the brand or file does not exist
+   * @throws {ValidationError} When the path leaves the ingestion directory,
+   * the CSV cannot be read, or the domain is not one of the brand's
+   */
+  async importFile(
+    brandId: string,
+    domain: string,
+    fileName: string,
+  ): Promise<AiReferralImportResult> {
+    const path = await resolveDataFile(
+      this.dataDir,
+      fileName,
+      'Traffic export',
+    );
+    return this.importCsv(brandId, domain, await readFile(path, 'utf8'));
+  }
+
+  /**
+   * Issue a new site key for the brand's collector, revoking the previous
+   * one. Only the key's hash is kept, so it is shown this once.
+   * @param brandId - Brand ID
+   * @returns The site key
+   * @throws {NotFoundError} When the brand does not exist
+   */
+  async rotateCollectorKey(brandId: string): Promise<string> {
+    await this.brandService.findById(brandId);
+    const key = randomBytes(24).toString('base64url');
+    const collector =
+      (await this.collectorRepository.findOne({ where: { brandId } })) ??
+      this.collectorRepository.create({ brandId });
+    collector.keyHash = this.hashKey(key);
+    await this.collectorRepository.save(collector);
+    return key;
+  }
+
+  /**
+   * Count an event a brand site reports. Events from visits no AI platform
+   * referred are ignored, and a session is counted once. A conversion is
+   * credited to the platform that referred its session, once per session,
+   * and ignored when no AI session was recorded for it.
+   * @param brandId - Brand ID
+   * @param event - Site key, session, page, referrer and kind of the event
+   * @param client - Address the event came from
+   * @param now - Time the event was received
+   * @throws {RateLimitError} When the client sent too many events
+   * @throws {UnauthorizedError} When the site key is not the brand's
+   * @throws {ValidationError} When the page is not on a brand domain, or a
+   * conversion value is negative or too large
+   */
+  async collect(
+    brandId: string,
+    event: CollectedReferral,
+    client: string,
+    now = new Date(),
+  ): Promise<AiReferralCollectResult> {
+    this.consumeEvent(brandId, client, now.getTime());
+    await this.verifyKey(brandId, event.key);
+
+    const value = event.value ?? 0;
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ValidationError('Conversion value must not be negative', {
+        value,
+      });
+    }
+    if (value > this.config.maxConversionValue) {
+      throw new ValidationError(
+        `Conversion value must not exceed ${this.config.maxConversionValue}`,
+        { value },
+      );
+    }
+
+    let page: URL;
+    try {
+      page = new URL(event.url);
+    } catch {
+      throw new ValidationError(`${event.url} is not an absolute URL`, {
+        url: event.url,
+      });
+    }
+    const domain = ownDomain(
+      await this.brandService.findById(brandId),
+      page.hostname,
+    );
+
+    if (event.event === AiReferralEvent.CONVERSION) {
+      return this.convert(brandId, domain, event.sessionId, value, now);
+    }
+
+    const classified =
+      this.classifier.classify(event.referrer) ??
+      this.classifier.classifyLanding(page.toString());
+    if (!classified) {
+      return { recorded: false, platform: null };
+    }
+    if (!(await this.startSession(brandId, event.sessionId, classified))) {
+      return { recorded: false, platform: classified.platform };
+    }
+    await this.increment(
+      {
+        brandId,
+        domain,
+        date: this.day(now),
+        platform: classified.platform,
+        referrer: classified.referrer,
+        source: AiReferralSource.COLLECTOR,
+      },
+      { sessions: 1, conversions: 0, revenue: 0 },
+    );
+    return { recorded: true, platform: classified.platform };
+  }
+
+  /**
+   * Daily AI referral traffic of each brand domain that received any, or of
+   * the requested domain
+   * @param brandId - Brand ID
+   * @param filter - One domain, platform or source, and the days covered
+   * @param now - Time "today" is taken from
+   * @throws {ValidationError} When the period is reversed or too long
+   */
+  async getSeries(
+    brandId: string,
+    filter: AiReferralSeriesFilter = {},
+    now = new Date(),
+  ): Promise<AiReferralSeries[]> {
+    const until = this.day(filter.until ?? now);
+    const since = this.day(
+      filter.since ??
+        new Date(Date.parse(until) - (this.config.defaultDays - 1) * DAY_MS),
+    );
+    const length = (Date.parse(until) - Date.parse(since)) / DAY_MS + 1;
+    if (length < 1 || length > this.config.maxDays) {
+      throw new ValidationError(
+        `The period must run forward and cover at most ${this.config.maxDays} days`,
+        { since, until },
+      );
+    }
+
+    const query = this.repository
+      .createQueryBuilder('referral')
+      .select('referral.domain', 'domain')
+      .addSelect(`TO_CHAR(referral.date, 'YYYY-MM-DD')`, 'date')
+      .addSelect('referral.platform', 'platform')
+      .addSelect('SUM(referral.sessions)', 'sessions')
+      .addSelect('SUM(referral.conversions)', 'conversions')
+      .addSelect('SUM(referral.revenue)', 'revenue')
+      .where('referral.brandId = :brandId', { brandId })
+      .andWhere('referral.date BETWEEN :since AND :until', { since, until });
+    const domain = filter.domain ? normalizeDomain(filter.domain) : null;
+    if (domain) {
+      query.andWhere('referral.domain = :domain', { domain });
+    }
+    if (filter.platform) {
+      query.andWhere('referral.platform = :platform', {
+        platform: filter.platform,
+      });
+    }
+    if (filter.source) {
+      query.andWhere('referral.source = :source', { source: filter.source });
+    }
+    const rows = await query
+      .groupBy('referral.domain')
+      .addGroupBy('referral.date')
+      .addGroupBy('referral.platform')
+      .getRawMany<RawReferralDay>();
+
+    const byDomain = new Map<string, RawReferralDay[]>(
+      domain ? [[domain, []]] : [],
+    );
+    for (const row of rows) {
+      byDomain.set(row.domain, [...(byDomain.get(row.domain) ?? []), row]);
+    }
+
+    const dates = Array.from({ length }, (_, index) =>
+      this.day(new Date(Date.parse(since) + index * DAY_MS)),
+    );
+    return [...byDomain]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, domainRows]) => {
+        const totals = new Map<AiReferralPlatform, AiReferralTotals>();
+        const days = dates.map(date => {
+          const platforms = domainRows
+            .filter(row => row.date === date)
+            .map(row => this.totals(row));
+          for (const platform of platforms) {
+            totals.set(
+              platform.platform,
+              this.add(totals.get(platform.platform), platform),
+            );
+          }
+          return {
+            date,
+            sessions: this.sum(platforms, 'sessions'),
+            conversions: this.sum(platforms, 'conversions'),
+            revenue: this.sum(platforms, 'revenue'),
+            platforms: platforms.sort((a, b) => b.sessions - a.sessions),
+          };
+        });
+        return {
+          domain: name,
+          days,
+          totals: [...totals.values()].sort((a, b) => b.sessions - a.sessions),
+        };
+      });
+  }
+
+  /**
+   * Add counts to a collector row, creating it on the day's first event
+   */
+  private async increment(
+    key: ReferralKey,
+    counts: ReferralCounts,
+  ): Promise<void> {
+    const add = (): Promise<UpdateResult> =>
+      this.repository.update(key, {
+        sessions: () => `"sessions" + ${counts.sessions}`,
+        conversions: () => `"conversions" + ${counts.conversions}`,
+        revenue: () => `"revenue" + ${counts.revenue}`,
+      });
+
+    if ((await add()).affected) {
+      return;
+    }
+    try {
+      await this.repository.insert({ ...key, ...counts });
+    } catch (error) {
+      // Another event created the row first
+      const unique =
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION;
+      if (!unique) {
+        throw error;
+      }
+      await add();
+    }
+  }
+
+  /**
+   * Record a session, unless it was recorded before
+   * @returns Whether the session is new
+   */
+  private async startSession(
+    brandId: string,
+    sessionId: string,
+    { platform, referrer }: ClassifiedReferrer,
+  ): Promise<boolean> {
+    const result = await this.sessionRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ brandId, sessionId, platform, referrer })
+      .orIgnore()
+      .returning('id')
+      .execute();
+    return (result.raw as unknown[]).length > 0;
+  }
+
+  /**
+   * Credit a conversion to the platform that referred its session. Only the
+   * first conversion of a session counts, so a replayed beacon adds nothing.
+   */
+  private async convert(
+    brandId: string,
+    domain: string,
+    sessionId: string,
+    value: number,
+    now: Date,
+  ): Promise<AiReferralCollectResult> {
+    const session = await this.sessionRepository.findOne({
+      where: { brandId, sessionId },
+    });
+    if (!session) {
+      return { recorded: false, platform: null };
+    }
+
+    const claimed = await this.sessionRepository.update(
+      { id: session.id, convertedAt: IsNull() },
+      { convertedAt: now },
+    );
+    if (!claimed.affected) {
+      return { recorded: false, platform: session.platform };
+    }
+    await this.increment(
+      {
+        brandId,
+        domain,
+        date: this.day(now),
+        platform: session.platform,
+        // Sessions recorded before referrers were kept
+        referrer: session.referrer ?? session.platform,
+        source: AiReferralSource.COLLECTOR,
+      },
+      { sessions: 0, conversions: 1, revenue: value },
+    );
+    return { recorded: true, platform: session.platform };
+  }
+
+  /**
+   * Fixed per-client budget of collector events. The budget is kept per
+   * instance, which bounds abuse without a shared store.
+   */
+  private consumeEvent(brandId: string, client: string, now: number): void {
+    const windowStart = now - this.config.collectorWindowMs;
+    const key = `${brandId} ${client}`;
+    const events = (this.eventLog.get(key) ?? []).filter(
+      timestamp => timestamp > windowStart,
+    );
+
+    if (events.length >= this.config.maxCollectorEvents) {
+      throw new RateLimitError('Too many collector events', {
+        brandId,
+        retryAfterMs: events[0] + this.config.collectorWindowMs - now,
+      });
+    }
+
+    events.push(now);
+    this.eventLog.set(key, events);
+    if (this.eventLog.size > MAX_TRACKED_CLIENTS) {
+      for (const [tracked, timestamps] of this.eventLog) {
+        if (timestamps[timestamps.length - 1] <= windowStart) {
+          this.eventLog.delete(tracked);
+        }
+      }
+    }
+  }
+
+  private async verifyKey(brandId: string, key: string): Promise<void> {
+    const collector = await this.collectorRepository.findOne({
+      where: { brandId },
+    });
+    const valid =
+      !!collector &&
+      timingSafeEqual(
+        Buffer.from(collector.keyHash, 'hex'),
+        Buffer.from(this.hashKey(key), 'hex'),
+      );
+    if (!valid) {
+      throw new UnauthorizedError('Invalid collector key', { brandId });
+    }
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /** The platform a landing page's `utm_source` names, for paths too */
+  private classifyLanding(
+    landing: string | undefined,
+    domain: string,
+  ): ClassifiedReferrer | null {
+    if (!landing?.trim()) {
+      return null;
+    }
+    try {
+      return this.classifier.classifyLanding(
+        new URL(landing.trim(), `https://${domain}/`).toString(),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /** A date cell such as "2025-04-01" or "20250401" as a UTC date */
+  private parseDate(cell: string | undefined): string | null {
+    const match = cell?.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+    if (!match) {
+      return null;
+    }
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && this.day(parsed) === date ? date : null;
+  }
+
+  /**
+   * A count or amount such as "1,200" or "$99.50"; an empty cell is 0 and
+   * negative numbers are rejected
+   */
+  private parseNumber(cell: string | undefined): number | null {
+    const value = (cell ?? '')
+      .trim()
+      .replace(/^[$€£]/, '')
+      .replace(/,/g, '');
+    if (!value) {
+      return 0;
+    }
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : null;
+  }
+
+  private totals(row: RawReferralDay): AiReferralTotals {
+    return {
+      platform: row.platform,
+      sessions: parseInt(row.sessions, 10),
+      conversions: this.round(parseFloat(row.conversions)),
+      revenue: this.round(parseFloat(row.revenue)),
+    };
+  }
+
+  private add(
+    total: AiReferralTotals | undefined,
+    day: AiReferralTotals,
+  ): AiReferralTotals {
+    return {
+      platform: day.platform,
+      sessions: (total?.sessions ?? 0) + day.sessions,
+      conversions: this.round((total?.conversions ?? 0) + day.conversions),
+      revenue: this.round((total?.revenue ?? 0) + day.revenue),
+    };
+  }
+
+  private sum(totals: AiReferralTotals[], field: keyof ReferralCounts): number {
+    return this.round(totals.reduce((sum, total) => sum + total[field], 0));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /** UTC date of a time, e.g. "2025-04-01" */
+  private day(time: Date): string {
+    return time.toISOString().slice(0, 10);
+  }
+}
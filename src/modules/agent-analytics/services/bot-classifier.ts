@@ -0,0 +1,250 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AiBotPurpose,
+  AiBotSignature,
+} from '../interfaces/crawler-log.interface';
+
+/**
+ * User agents of known AI crawlers. Patterns match the product token the
+ * operators document; more specific tokens come before the ones they
+ * contain, e.g. "Claude-SearchBot" before "ClaudeBot". Host names are the
+ * reverse DNS domains operators document for verifying their crawlers.
+ */
+export const AI_BOT_SIGNATURES: readonly AiBotSignature[] = [
+  // OpenAI
+  {
+    name: 'GPTBot',
+    operator: 'OpenAI',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bGPTBot\b/i,
+  },
+  {
+    name: 'OAI-SearchBot',
+    operator: 'OpenAI',
+    purpose: AiBotPurpose.SEARCH,
+    pattern: /\bOAI-SearchBot\b/i,
+  },
+  {
+    name: 'ChatGPT-User',
+    operator: 'OpenAI',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bChatGPT-User\b/i,
+  },
+
+  // Perplexity
+  {
+    name: 'PerplexityBot',
+    operator: 'Perplexity',
+    purpose: AiBotPurpose.SEARCH,
+    pattern: /\bPerplexityBot\b/i,
+  },
+  {
+    name: 'Perplexity-User',
+    operator: 'Perplexity',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bPerplexity-User\b/i,
+  },
+
+  // Anthropic
+  {
+    name: 'Claude-SearchBot',
+    operator: 'Anthropic',
+    purpose: AiBotPurpose.SEARCH,
+    pattern: /\bClaude-SearchBot\b/i,
+  },
+  {
+    name: 'Claude-User',
+    operator: 'Anthropic',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bClaude-User\b/i,
+  },
+  {
+    name: 'ClaudeBot',
+    operator: 'Anthropic',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bClaudeBot\b/i,
+  },
+  {
+    name: 'anthropic-ai',
+    operator: 'Anthropic',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\banthropic-ai\b/i,
+  },
+
+  // Google
+  {
+    name: 'Google-Extended',
+    operator: 'Google',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bGoogle-Extended\b/i,
+    hostnames: ['googlebot.com', 'google.com', 'googleusercontent.com'],
+  },
+  {
+    name: 'GoogleOther',
+    operator: 'Google',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bGoogleOther\b/i,
+    hostnames: ['googlebot.com', 'google.com', 'googleusercontent.com'],
+  },
+
+  // Others
+  {
+    name: 'CCBot',
+    operator: 'Common Crawl',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bCCBot\b/i,
+  },
+  {
+    name: 'Bytespider',
+    operator: 'ByteDance',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bBytespider\b/i,
+  },
+  {
+    name: 'Applebot-Extended',
+    operator: 'Apple',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bApplebot-Extended\b/i,
+    hostnames: ['applebot.apple.com'],
+  },
+  {
+    name: 'Amazonbot',
+    operator: 'Amazon',
+    purpose: AiBotPurpose.SEARCH,
+    pattern: /\bAmazonbot\b/i,
+    hostnames: ['crawl.amazonbot.amazon'],
+  },
+  {
+    name: 'Meta-ExternalAgent',
+    operator: 'Meta',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bmeta-externalagent\b/i,
+  },
+  {
+    name: 'Meta-ExternalFetcher',
+    operator: 'Meta',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bmeta-externalfetcher\b/i,
+  },
+  {
+    name: 'cohere-ai',
+    operator: 'Cohere',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bcohere-(?:ai|training-data-crawler)\b/i,
+  },
+  {
+    name: 'MistralAI-User',
+    operator: 'Mistral',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bMistralAI-User\b/i,
+  },
+  {
+    name: 'YouBot',
+    operator: 'You.com',
+    purpose: AiBotPurpose.SEARCH,
+    pattern: /\bYouBot\b/i,
+  },
+  {
+    name: 'DuckAssistBot',
+    operator: 'DuckDuckGo',
+    purpose: AiBotPurpose.ASSISTANT,
+    pattern: /\bDuckAssistBot\b/i,
+  },
+  {
+    name: 'Diffbot',
+    operator: 'Diffbot',
+    purpose: AiBotPurpose.TRAINING,
+    pattern: /\bDiffbot\b/i,
+  },
+];
+
+/**
+ * Search engine, SEO and monitoring bots, which are not AI crawlers and are
+ * not reported as unknown either. Lowercase product tokens.
+ */
+export const KNOWN_NON_AI_BOTS: ReadonlySet<string> = new Set([
+  'googlebot',
+  'googlebot-image',
+  'googlebot-video',
+  'googlebot-news',
+  'adsbot-google',
+  'storebot-google',
+  'bingbot',
+  'adidxbot',
+  'yandexbot',
+  'baiduspider',
+  'duckduckbot',
+  'applebot',
+  'twitterbot',
+  'linkedinbot',
+  'slackbot',
+  'discordbot',
+  'telegrambot',
+  'pinterestbot',
+  'ahrefsbot',
+  'semrushbot',
+  'mj12bot',
+  'dotbot',
+  'petalbot',
+  'seznambot',
+  'uptimerobot',
+]);
+
+/**
+ * A product token naming a bot, e.g. "NewAIBot" in
+ * "Mozilla/5.0 (compatible; NewAIBot/1.0)"
+ */
+const BOT_TOKEN =
+  /(?:^|[\s;(,])([a-z][\w.-]*?(?:bot|crawler|spider|fetcher|scraper))(?=[/\s;),]|$)/i;
+
+/**
+ * Identifies AI crawlers, and bots no signature knows, from the user agent
+ * of a request
+ */
+@Injectable()
+export class BotClassifier {
+  private readonly signatures = AI_BOT_SIGNATURES;
+
+  /**
+   * The AI crawler a user agent belongs to
+   * @param userAgent - User-Agent header of the request
+   * @returns The crawler's signature, or null for any other client
+   */
+  classify(userAgent: string | null | undefined): AiBotSignature | null {
+    if (!userAgent) {
+      return null;
+    }
+    return (
+      this.signatures.find(signature => signature.pattern.test(userAgent)) ??
+      null
+    );
+  }
+
+  /**
+   * The name of a bot that declares itself in its user agent but matches no
+   * AI signature and is no known search engine or tool
+   * @param userAgent - User-Agent header of the request
+   * @returns The bot's product token, or null for browsers and known bots
+   */
+  unknownBot(userAgent: string | null | undefined): string | null {
+    if (!userAgent || this.classify(userAgent)) {
+      return null;
+    }
+
+    // Contact URLs often contain "bot", e.g. "+http://www.google.com/bot.html"
+    const name = userAgent
+      .replace(/\+?https?:\/\/\S+/gi, ' ')
+      .match(BOT_TOKEN)?.[1];
+    if (!name || KNOWN_NON_AI_BOTS.has(name.toLowerCase())) {
+      return null;
+    }
+    return name.slice(0, 100);
+  }
+
+  /**
+   * Known AI crawlers, in matching order
+   */
+  list(): readonly AiBotSignature[] {
+    return this.signatures;
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { CrawlAnomalyService } from './crawl-anomaly.service';
+
+/**
+ * Looks for crawl anomalies of all brands at a fixed interval
+ */
+@Injectable()
+export class CrawlAnomalyScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CrawlAnomalyScheduler.name);
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly crawlAnomalyService: CrawlAnomalyService,
+  ) {}
+
+  onModuleInit(): void {
+    const anomalies =
+      this.configService.get<AgentAnalyticsConfig>('agentAnalytics')?.anomalies;
+    if (!anomalies?.enabled) {
+      this.logger.log('Scheduled crawl anomaly detection is disabled');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.tick();
+    }, anomalies.intervalMs);
+
+    this.logger.log(
+      `Scheduled crawl anomaly detection every ${anomalies.intervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.log('Stopped scheduled crawl anomaly detection');
+    }
+  }
+
+  /**
+   * Detects anomalies for all brands unless the previous tick is still
+   * running
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('Previous crawl anomaly detection still running');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const found = await this.crawlAnomalyService.detectAll();
+      if (found === null) {
+        this.logger.debug(
+          'Crawl anomaly detection is running on another instance',
+        );
+      } else {
+        this.logger.log(`Detected ${found} crawl anomalies`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Crawl anomaly detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,448 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { DistributedLockService } from '../../../cache/distributed-lock.service';
+import { BaseService } from '../../../shared/classes/base.service';
+import { ConflictError, ExternalServiceError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import { normalizeDomain } from '../../brands/utils/domain.utils';
+import { Notification } from '../../notifications/interfaces/notification.interface';
+import { NotificationService } from '../../notifications/services/notification.service';
+import { AnalyticsGateway } from '../../real-time/gateways/analytics.gateway';
+import { CrawlAnomalyEntity } from '../entities/crawl-anomaly.entity';
+import { UnknownBotEntity } from '../entities/unknown-bot.entity';
+import {
+  CrawlAnomalyEvent,
+  CrawlAnomalyFilter,
+  CrawlAnomalySeverity,
+  CrawlAnomalyType,
+  CrawlWindowStats,
+} from '../interfaces/crawl-anomaly.interface';
+import { CrawlerLogService } from './crawler-log.service';
+
+const DEFAULT_ANOMALIES: AgentAnalyticsConfig['anomalies'] = {
+  enabled: false,
+  intervalMs: 3600000,
+  windowHours: 24,
+  baselineWindows: 14,
+  dropRatio: 0.5,
+  spikeRatio: 3,
+  minBaselineHits: 10,
+  errorRateIncrease: 0.2,
+  minErrorHits: 10,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long a detection lock is held before it expires */
+const DETECT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/** An anomaly of one bot, before it is tied to a brand and window */
+type Finding = Pick<
+  CrawlAnomalyEntity,
+  'type' | 'severity' | 'bot' | 'baselineValue' | 'observedValue' | 'message'
+>;
+
+/**
+ * Compares each AI crawler's recent traffic to a brand domain with its
+ * rolling baseline, and reports drops, spikes, error surges and bots no
+ * signature knows
+ */
+@Injectable()
+export class CrawlAnomalyService extends BaseService<CrawlAnomalyEntity> {
+  private readonly logger = new Logger(CrawlAnomalyService.name);
+  private readonly config: AgentAnalyticsConfig['anomalies'];
+
+  constructor(
+    @InjectRepository(CrawlAnomalyEntity)
+    repository: Repository<CrawlAnomalyEntity>,
+    private readonly brandService: BrandService,
+    private readonly crawlerLogService: CrawlerLogService,
+    private readonly notificationService: NotificationService,
+    private readonly lockService: DistributedLockService,
+    private readonly analyticsGateway: AnalyticsGateway,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.config =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.anomalies ??
+      DEFAULT_ANOMALIES;
+  }
+
+  /**
+   * Detect the anomalies of a brand's crawler traffic. Each domain's window
+   * ends where its imported logs end, so logs imported late do not read as a
+   * drop, while bots that stop crawling a domain that still logs requests
+   * do. An anomaly already reported for the same window is not repeated, and
+   * only one detection runs per brand at a time.
+   * @param brandId - Brand ID
+   * @param now - Latest time considered
+   * @returns The anomalies found, already stored and sent out
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ConflictError} When the brand's anomalies are already being
+   * detected
+   * @throws {ExternalServiceError} When the lock service is unavailable
+   */
+  async detect(
+    brandId: string,
+    now: Date = new Date(),
+  ): Promise<CrawlAnomalyEntity[]> {
+    await this.brandService.assertExists(brandId);
+
+    const anomalies = await this.lockService.withLock(
+      `crawl-anomalies:detect:${brandId}`,
+      () => this.detectUnlocked(brandId, now),
+      { ttl: DETECT_LOCK_TTL_MS, maxRetries: 1 },
+    );
+    if (!anomalies) {
+      await this.assertLockAvailable();
+      throw new ConflictError(
+        'Crawl anomalies of this brand are already being detected',
+        { brandId },
+      );
+    }
+    return anomalies;
+  }
+
+  /**
+   * Detect the crawl anomalies of every brand. Only one instance detects at
+   * a time.
+   * @param now - Latest time considered
+   * @returns The number of anomalies found, or null when another instance
+   * holds the lock
+   * @throws {ExternalServiceError} When the lock service is unavailable
+   */
+  async detectAll(now: Date = new Date()): Promise<number | null> {
+    const found = await this.lockService.withLock(
+      'crawl-anomalies:detect',
+      async () => {
+        const brands = await this.brandService.findAll();
+        let found = 0;
+
+        for (const brand of brands) {
+          try {
+            found += (await this.detect(brand.id, now)).length;
+          } catch (error) {
+            this.logger.error(
+              `Failed to detect crawl anomalies for brand ${brand.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            );
+          }
+        }
+
+        return found;
+      },
+      { ttl: DETECT_LOCK_TTL_MS, maxRetries: 1 },
+    );
+    if (found === null) {
+      await this.assertLockAvailable();
+    }
+    return found;
+  }
+
+  /**
+   * Tell a lock held elsewhere from a lock that cannot be taken at all
+   * @throws {ExternalServiceError} When the lock service is unavailable
+   */
+  private async assertLockAvailable(): Promise<void> {
+    if (!(await this.lockService.isAvailable())) {
+      throw new ExternalServiceError(
+        'Crawl anomalies cannot be detected while the lock service is unavailable',
+      );
+    }
+  }
+
+  /** Detect the anomalies of a brand while holding its lock */
+  private async detectUnlocked(
+    brandId: string,
+    now: Date,
+  ): Promise<CrawlAnomalyEntity[]> {
+    const windowMs = this.config.windowHours * HOUR_MS;
+    const baselineStart = new Date(
+      now.getTime() - windowMs * (this.config.baselineWindows + 1),
+    );
+    const [loggedUntil, reportedBots, unknownBots] = await Promise.all([
+      this.crawlerLogService.getLoggedUntil(brandId, baselineStart),
+      this.findByBrand(brandId, { type: CrawlAnomalyType.NEW_BOT }),
+      this.crawlerLogService.getUnknownBots(brandId, baselineStart),
+    ]);
+
+    const anomalies: CrawlAnomalyEntity[] = [];
+    for (const [domain, logEnd] of loggedUntil) {
+      const windowEnd = logEnd > now ? now : logEnd;
+      const windowStart = new Date(windowEnd.getTime() - windowMs);
+      const stats = await this.crawlerLogService.getWindowStats(
+        brandId,
+        domain,
+        new Date(
+          windowStart.getTime() - windowMs * this.config.baselineWindows,
+        ),
+        windowStart,
+        windowEnd,
+      );
+
+      const findings = stats.flatMap(bot => this.findings(bot));
+      // A domain whose logs stopped keeps the same window however late
+      // detection runs, so look for its window rather than recent reports
+      const inWindow =
+        findings.length === 0
+          ? []
+          : await this.repository.find({
+              where: { brandId, domain, windowEnd: MoreThan(windowStart) },
+            });
+      for (const finding of findings) {
+        const repeated = inWindow.some(
+          anomaly =>
+            anomaly.type === finding.type && anomaly.bot === finding.bot,
+        );
+        if (!repeated) {
+          anomalies.push(
+            this.repository.create({
+              ...finding,
+              brandId,
+              domain,
+              windowStart,
+              windowEnd,
+              detectedAt: now,
+            }),
+          );
+        }
+      }
+    }
+
+    const reported = new Set(
+      reportedBots.map(anomaly => `${anomaly.domain} ${anomaly.bot}`),
+    );
+    for (const bot of unknownBots) {
+      if (!reported.has(`${bot.domain} ${bot.name}`)) {
+        anomalies.push(this.newBot(brandId, bot, now));
+      }
+    }
+
+    if (anomalies.length === 0) {
+      return [];
+    }
+
+    const saved = await this.repository.save(anomalies);
+    for (const anomaly of saved) {
+      this.publish(this.toEvent(anomaly));
+    }
+    return saved;
+  }
+
+  /**
+   * Crawl anomalies of a brand, latest first
+   * @param brandId - Brand ID
+   * @param filter - Only one type, domain or bot, or anomalies since a time,
+   * and how many
+   */
+  async findByBrand(
+    brandId: string,
+    filter: CrawlAnomalyFilter = {},
+  ): Promise<CrawlAnomalyEntity[]> {
+    const query = this.repository
+      .createQueryBuilder('anomaly')
+      .where('anomaly.brandId = :brandId', { brandId });
+    if (filter.type) {
+      query.andWhere('anomaly.type = :type', { type: filter.type });
+    }
+    if (filter.domain) {
+      query.andWhere('anomaly.domain = :domain', {
+        domain: normalizeDomain(filter.domain),
+      });
+    }
+    if (filter.bot) {
+      query.andWhere('anomaly.bot = :bot', { bot: filter.bot });
+    }
+    if (filter.since) {
+      query.andWhere('anomaly.detectedAt >= :since', { since: filter.since });
+    }
+    if (filter.limit) {
+      query.take(filter.limit);
+    }
+    return query
+      .orderBy('anomaly.detectedAt', 'DESC')
+      .addOrderBy('anomaly.windowEnd', 'DESC')
+      .getMany();
+  }
+
+  /** Rate and error anomalies of one bot on one domain */
+  private findings(stats: CrawlWindowStats): Finding[] {
+    const findings: Finding[] = [];
+    const baseline = this.round(
+      stats.baselineHits / this.config.baselineWindows,
+    );
+    const hours = this.config.windowHours;
+
+    if (
+      baseline >= this.config.minBaselineHits &&
+      stats.hits <= baseline * this.config.dropRatio
+    ) {
+      findings.push({
+        type: CrawlAnomalyType.CRAWL_DROP,
+        severity:
+          stats.hits === 0
+            ? CrawlAnomalySeverity.HIGH
+            : stats.hits <= (baseline * this.config.dropRatio) / 2
+              ? CrawlAnomalySeverity.MEDIUM
+              : CrawlAnomalySeverity.LOW,
+        bot: stats.bot,
+        baselineValue: baseline,
+        observedValue: stats.hits,
+        message: `${stats.bot} made ${stats.hits} requests to ${stats.domain} in ${hours}h, down from ${baseline} on average`,
+      });
+    }
+
+    const floor = Math.max(baseline, this.config.minBaselineHits);
+    if (stats.hits >= floor * this.config.spikeRatio) {
+      const ratio = stats.hits / floor;
+      findings.push({
+        type: CrawlAnomalyType.CRAWL_SPIKE,
+        severity:
+          ratio >= this.config.spikeRatio * 3
+            ? CrawlAnomalySeverity.HIGH
+            : ratio >= this.config.spikeRatio * 2
+              ? CrawlAnomalySeverity.MEDIUM
+              : CrawlAnomalySeverity.LOW,
+        bot: stats.bot,
+        baselineValue: baseline,
+        observedValue: stats.hits,
+        message: `${stats.bot} made ${stats.hits} requests to ${stats.domain} in ${hours}h, up from ${baseline} on average`,
+      });
+    }
+
+    const surges = [
+      {
+        type: CrawlAnomalyType.CLIENT_ERROR_SURGE,
+        label: '4xx',
+        errors: stats.clientErrors,
+        baselineErrors: stats.baselineClientErrors,
+      },
+      {
+        type: CrawlAnomalyType.SERVER_ERROR_SURGE,
+        label: '5xx',
+        errors: stats.serverErrors,
+        baselineErrors: stats.baselineServerErrors,
+      },
+    ];
+    for (const surge of surges) {
+      if (surge.errors < this.config.minErrorHits) {
+        continue;
+      }
+      const rate = this.round(surge.errors / stats.hits);
+      const baselineRate =
+        stats.baselineHits > 0
+          ? this.round(surge.baselineErrors / stats.baselineHits)
+          : 0;
+      const increase = rate - baselineRate;
+      if (increase < this.config.errorRateIncrease) {
+        continue;
+      }
+
+      findings.push({
+        type: surge.type,
+        severity:
+          rate >= 0.5
+            ? CrawlAnomalySeverity.HIGH
+            : increase >= this.config.errorRateIncrease * 2
+              ? CrawlAnomalySeverity.MEDIUM
+              : CrawlAnomalySeverity.LOW,
+        bot: stats.bot,
+        baselineValue: baselineRate,
+        observedValue: rate,
+        message: `${this.percent(rate)} of ${stats.bot} requests to ${stats.domain} got a ${surge.label} response in ${hours}h, up from ${this.percent(baselineRate)}`,
+      });
+    }
+
+    return findings;
+  }
+
+  private newBot(
+    brandId: string,
+    bot: UnknownBotEntity,
+    now: Date,
+  ): CrawlAnomalyEntity {
+    return this.repository.create({
+      brandId,
+      type: CrawlAnomalyType.NEW_BOT,
+      severity: CrawlAnomalySeverity.LOW,
+      domain: bot.domain,
+      bot: bot.name,
+      baselineValue: 0,
+      observedValue: bot.hits,
+      windowStart: bot.firstSeenAt,
+      windowEnd: bot.lastSeenAt,
+      detectedAt: now,
+      message: `Unknown bot ${bot.name} made ${bot.hits} requests to ${bot.domain} since ${bot.firstSeenAt.toISOString()} (${bot.userAgent})`,
+    });
+  }
+
+  /**
+   * Tell the brand's dashboards, and its notification destinations in the
+   * background so their retries do not hold the detection lock. The anomaly
+   * is already stored, so a failure here is only logged.
+   */
+  private publish(event: CrawlAnomalyEvent): void {
+    const failed = (error: unknown): void => {
+      this.logger.error(
+        `Failed to publish crawl anomaly ${event.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    };
+
+    try {
+      this.analyticsGateway.emitCrawlerStatus({
+        brandId: event.brandId,
+        status: 'anomaly_detected',
+        message: event.message,
+        timestamp: new Date(),
+        details: { ...event },
+      });
+    } catch (error) {
+      failed(error);
+    }
+    this.notificationService.notify(this.toNotification(event)).catch(failed);
+  }
+
+  private toEvent(anomaly: CrawlAnomalyEntity): CrawlAnomalyEvent {
+    return {
+      id: anomaly.id,
+      brandId: anomaly.brandId,
+      type: anomaly.type,
+      severity: anomaly.severity,
+      domain: anomaly.domain,
+      bot: anomaly.bot,
+      baselineValue: anomaly.baselineValue,
+      observedValue: anomaly.observedValue,
+      windowStart: anomaly.windowStart,
+      windowEnd: anomaly.windowEnd,
+      message: anomaly.message,
+    };
+  }
+
+  private toNotification(event: CrawlAnomalyEvent): Notification {
+    return {
+      event: 'crawler.anomaly',
+      brandId: event.brandId,
+      subject: `Crawl anomaly: ${event.bot} on ${event.domain}`,
+      text: [
+        `${event.message}.`,
+        `Severity: ${event.severity}`,
+        `Window: ${event.windowStart.toISOString()} to ${event.windowEnd.toISOString()}`,
+      ].join('\n'),
+      payload: {
+        ...event,
+        windowStart: event.windowStart.toISOString(),
+        windowEnd: event.windowEnd.toISOString(),
+      },
+    };
+  }
+
+  private percent(rate: number): string {
+    return `${Math.round(rate * 1000) / 10}%`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,270 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { BrandPageEntity } from '../../brands/entities/brand-page.entity';
+import { BrandPageService } from '../../brands/services/brand-page.service';
+import { normalizeDomain } from '../../brands/utils/domain.utils';
+import { AnalyticsGateway } from '../../real-time/gateways/analytics.gateway';
+import {
+  BotCoverage,
+  CrawlCoverageOptions,
+  CrawlCoverageReport,
+  OrphanUrl,
+  StalePage,
+  StalePageReason,
+} from '../interfaces/crawl-coverage.interface';
+import { PageCrawl } from '../interfaces/crawler-log.interface';
+import { CrawlerLogService } from './crawler-log.service';
+
+const DEFAULT_COVERAGE: AgentAnalyticsConfig['coverage'] = {
+  criticalPriority: 0.8,
+  staleDays: 30,
+  lookbackDays: 90,
+  maxListed: 100,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SitemapPage {
+  page: BrandPageEntity;
+  critical: boolean;
+  lastCrawledAt: Date | null;
+}
+
+/**
+ * Joins the pages of a brand's sitemaps with AI crawler hits, to measure how
+ * much of the site AI crawlers index and which pages they miss
+ */
+@Injectable()
+export class CrawlCoverageService {
+  private readonly logger = new Logger(CrawlCoverageService.name);
+  private readonly config: AgentAnalyticsConfig['coverage'];
+
+  constructor(
+    private readonly brandPageService: BrandPageService,
+    private readonly crawlerLogService: CrawlerLogService,
+    private readonly analyticsGateway: AnalyticsGateway,
+    configService: ConfigService,
+  ) {
+    this.config =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.coverage ??
+      DEFAULT_COVERAGE;
+  }
+
+  /**
+   * Crawl coverage of a brand's sitemap pages. Spoofed crawler hits are
+   * left out.
+   * @param brandId - Brand ID
+   * @param options - Only one domain, the stale threshold, and how many
+   * pages to list
+   * @param now - Reference time for staleness
+   */
+  async getReport(
+    brandId: string,
+    options: CrawlCoverageOptions = {},
+    now = new Date(),
+  ): Promise<CrawlCoverageReport> {
+    const domain = options.domain ? normalizeDomain(options.domain) : null;
+    const staleDays = options.staleDays ?? this.config.staleDays;
+    const limit = options.limit ?? this.config.maxListed;
+
+    const [allPages, crawls] = await Promise.all([
+      this.brandPageService.findByBrand(brandId),
+      this.crawlerLogService.getPageCrawls(
+        brandId,
+        new Date(now.getTime() - this.config.lookbackDays * DAY_MS),
+        domain ?? undefined,
+      ),
+    ]);
+    const pages = domain
+      ? allPages.filter(page => page.domain === domain)
+      : allPages;
+
+    // Without declared priorities there is no telling pages apart
+    const prioritized = pages.some(page => page.priority !== null);
+    const sitemap = new Map<string, SitemapPage>();
+    for (const page of pages) {
+      sitemap.set(this.pageKey(page.domain, page.path), {
+        page,
+        critical:
+          !prioritized || (page.priority ?? 0) >= this.config.criticalPriority,
+        lastCrawledAt: null,
+      });
+    }
+    const criticalPageCount = [...sitemap.values()].filter(
+      entry => entry.critical,
+    ).length;
+
+    const bots = new Map<string, BotCoverage>();
+    const orphans = new Map<string, OrphanUrl>();
+    const sitemapDomains = new Set(pages.map(page => page.domain));
+    for (const crawl of crawls) {
+      const entry = sitemap.get(this.pageKey(crawl.domain, crawl.path));
+      if (entry) {
+        if (!entry.lastCrawledAt || crawl.lastCrawledAt > entry.lastCrawledAt) {
+          entry.lastCrawledAt = crawl.lastCrawledAt;
+        }
+        this.countBot(bots, crawl, entry.critical);
+      } else if (crawl.successfulHits > 0 && sitemapDomains.has(crawl.domain)) {
+        this.countOrphan(orphans, crawl);
+      }
+    }
+
+    const staleBefore = new Date(now.getTime() - staleDays * DAY_MS);
+    const stalePages: StalePage[] = [];
+    let freshCritical = 0;
+    for (const { page, critical, lastCrawledAt } of sitemap.values()) {
+      const reason = this.staleReason(page, lastCrawledAt, staleBefore);
+      if (reason) {
+        stalePages.push({
+          url: page.url,
+          critical,
+          reason,
+          lastModified: page.lastModified,
+          lastCrawledAt,
+        });
+      } else if (critical) {
+        freshCritical++;
+      }
+    }
+    stalePages.sort(
+      (a, b) =>
+        Number(b.critical) - Number(a.critical) ||
+        (a.lastCrawledAt?.getTime() ?? 0) - (b.lastCrawledAt?.getTime() ?? 0) ||
+        a.url.localeCompare(b.url),
+    );
+
+    const orphanUrls = [...orphans.values()].sort(
+      (a, b) => b.hits - a.hits || a.url.localeCompare(b.url),
+    );
+
+    return {
+      brandId,
+      domain,
+      generatedAt: now,
+      pageCount: sitemap.size,
+      criticalPageCount,
+      indexingRate: this.ratio(freshCritical, criticalPageCount),
+      staleDays,
+      bots: [...bots.values()]
+        .map(bot => ({
+          ...bot,
+          coverage: this.ratio(bot.criticalPagesCrawled, criticalPageCount),
+        }))
+        .sort(
+          (a, b) =>
+            b.coverage - a.coverage ||
+            b.crawledPages - a.crawledPages ||
+            a.bot.localeCompare(b.bot),
+        ),
+      stalePages: stalePages.slice(0, limit),
+      staleCount: stalePages.length,
+      orphanUrls: orphanUrls.slice(0, limit),
+      orphanCount: orphanUrls.length,
+    };
+  }
+
+  /**
+   * Compute a brand's crawl coverage and push it to clients as a
+   * `crawler.status` event. Failures are logged, not thrown, so callers can
+   * publish after an import without risking it.
+   * @param brandId - Brand ID
+   * @param trigger - What changed, e.g. "sitemap_imported"
+   */
+  async publish(brandId: string, trigger: string): Promise<void> {
+    try {
+      const report = await this.getReport(brandId);
+      this.analyticsGateway.emitCrawlerStatus({
+        brandId,
+        status: 'coverage_updated',
+        message: `AI crawlers indexed ${Math.round(report.indexingRate * 100)}% of ${report.criticalPageCount} critical pages`,
+        timestamp: report.generatedAt,
+        details: {
+          trigger,
+          indexingRate: report.indexingRate,
+          pageCount: report.pageCount,
+          criticalPageCount: report.criticalPageCount,
+          staleCount: report.staleCount,
+          orphanCount: report.orphanCount,
+          bots: report.bots.map(bot => ({
+            bot: bot.bot,
+            coverage: bot.coverage,
+          })),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish crawl coverage of brand ${brandId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private countBot(
+    bots: Map<string, BotCoverage>,
+    crawl: PageCrawl,
+    critical: boolean,
+  ): void {
+    const bot = bots.get(crawl.bot) ?? {
+      bot: crawl.bot,
+      operator: crawl.operator,
+      crawledPages: 0,
+      criticalPagesCrawled: 0,
+      coverage: 0,
+      lastCrawledAt: crawl.lastCrawledAt,
+    };
+    bot.crawledPages++;
+    if (critical) {
+      bot.criticalPagesCrawled++;
+    }
+    if (crawl.lastCrawledAt > bot.lastCrawledAt) {
+      bot.lastCrawledAt = crawl.lastCrawledAt;
+    }
+    bots.set(crawl.bot, bot);
+  }
+
+  private countOrphan(orphans: Map<string, OrphanUrl>, crawl: PageCrawl): void {
+    const url = `https://${crawl.domain}${crawl.path}`;
+    const orphan = orphans.get(url) ?? {
+      url,
+      hits: 0,
+      bots: [],
+      lastCrawledAt: crawl.lastCrawledAt,
+    };
+    orphan.hits += crawl.hits;
+    orphan.bots = [...new Set([...orphan.bots, crawl.bot])].sort();
+    if (crawl.lastCrawledAt > orphan.lastCrawledAt) {
+      orphan.lastCrawledAt = crawl.lastCrawledAt;
+    }
+    orphans.set(url, orphan);
+  }
+
+  private staleReason(
+    page: BrandPageEntity,
+    lastCrawledAt: Date | null,
+    staleBefore: Date,
+  ): StalePageReason | null {
+    if (!lastCrawledAt) {
+      return StalePageReason.NEVER_CRAWLED;
+    }
+    if (page.lastModified && page.lastModified > lastCrawledAt) {
+      return StalePageReason.MODIFIED_SINCE_CRAWL;
+    }
+    if (lastCrawledAt < staleBefore) {
+      return StalePageReason.NOT_RECRAWLED;
+    }
+    return null;
+  }
+
+  /**
+   * Key matching a sitemap page with crawled paths: query strings and
+   * trailing slashes are ignored
+   */
+  private pageKey(domain: string, path: string): string {
+    const pathname = path.replace(/[?#].*$/, '').replace(/(.)\/+$/, '$1');
+    return `${domain}${pathname || '/'}`;
+  }
+
+  private ratio(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+  }
+}
@@ -0,0 +1,927 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { In, MoreThanOrEqual, Repository, SelectQueryBuilder } from 'typeorm';
+import { createGunzip } from 'zlib';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { BaseService } from '../../../shared/classes/base.service';
+import { ValidationError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import {
+  isBrandDomain,
+  normalizeDomain,
+  ownDomain,
+} from '../../brands/utils/domain.utils';
+import { CrawlerHitEntity } from '../entities/crawler-hit.entity';
+import { UnknownBotEntity } from '../entities/unknown-bot.entity';
+import { LoggedDomainEntity } from '../entities/logged-domain.entity';
+import {
+  AccessLogEntry,
+  AccessLogFormat,
+  AiBotSignature,
+  CrawledPage,
+  CrawlerLogImportOptions,
+  CrawlerLogImportResult,
+  CrawlerReverificationResult,
+  CrawlerVerification,
+  CrawlFilter,
+  DomainCrawlStats,
+  PageCrawl,
+} from '../interfaces/crawler-log.interface';
+import { CrawlWindowStats } from '../interfaces/crawl-anomaly.interface';
+import { AccessLogParser } from './access-log.parser';
+import { BotClassifier } from './bot-classifier';
+import { CrawlerVerifier } from './crawler-verifier';
+import { resolveDataFile } from '../utils/data-file.utils';
+
+const DEFAULT_INGESTION: AgentAnalyticsConfig['ingestion'] = {
+  dataDir: join(process.cwd(), 'data', 'agent-analytics'),
+  batchSize: 1000,
+  maxUploadSize: '20mb',
+};
+
+/** Unreadable lines reported per import */
+const MAX_REPORTED_ERRORS = 20;
+
+/** Most pages listed at once */
+const MAX_CRAWLED_PAGES = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Requests one unknown bot made to one domain during an import */
+type UnknownBotTally = Pick<
+  UnknownBotEntity,
+  'domain' | 'name' | 'userAgent' | 'hits' | 'firstSeenAt' | 'lastSeenAt'
+>;
+
+interface RawCrawlStats {
+  domain: string;
+  bot: string;
+  operator: string;
+  hits: string;
+  pages: string;
+  activeDays: string;
+  verifiedHits: string;
+  spoofedHits: string;
+  firstSeenAt: Date | string;
+  lastSeenAt: Date | string;
+}
+
+interface RawStatusCount {
+  domain: string;
+  bot: string;
+  status: string;
+  count: string;
+}
+
+interface RawPageCrawl {
+  domain: string;
+  path: string;
+  bot: string;
+  operator: string;
+  hits: string;
+  successfulHits: string;
+  lastCrawledAt: Date | string;
+}
+
+interface RawVerificationPair {
+  bot: string;
+  ip: string;
+  verification: CrawlerVerification;
+  hits: string;
+}
+
+interface RawWindowStats {
+  domain: string;
+  bot: string;
+  hits: string;
+  clientErrors: string;
+  serverErrors: string;
+  baselineHits: string;
+  baselineClientErrors: string;
+  baselineServerErrors: string;
+}
+
+interface RawCrawledPage {
+  domain: string;
+  path: string;
+  hits: string;
+  bots: string[];
+  lastCrawledAt: Date | string;
+  lastStatus: string;
+}
+
+/**
+ * Imports web server access logs and keeps the requests AI crawlers made to
+ * a brand's domains
+ */
+@Injectable()
+export class CrawlerLogService extends BaseService<CrawlerHitEntity> {
+  private readonly config: AgentAnalyticsConfig['ingestion'];
+
+  constructor(
+    @InjectRepository(CrawlerHitEntity)
+    repository: Repository<CrawlerHitEntity>,
+    @InjectRepository(UnknownBotEntity)
+    private readonly unknownBotRepository: Repository<UnknownBotEntity>,
+    @InjectRepository(LoggedDomainEntity)
+    private readonly loggedDomainRepository: Repository<LoggedDomainEntity>,
+    private readonly brandService: BrandService,
+    private readonly parser: AccessLogParser,
+    private readonly classifier: BotClassifier,
+    private readonly verifier: CrawlerVerifier,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.config =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.ingestion ??
+      DEFAULT_INGESTION;
+  }
+
+  /**
+   * Import an uploaded access log
+   * @param brandId - Brand ID
+   * @param text - Contents of the log
+   * @param options - Format of the log and the domain it was served for
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the domain is not one of the brand's
+   */
+  async importText(
+    brandId: string,
+    text: string,
+    options: CrawlerLogImportOptions = {},
+  ): Promise<CrawlerLogImportResult> {
+    return this.ingest(brandId, text.split('\n'), options);
+  }
+
+  /**
+   * Import an access log from the ingestion directory. Files ending in .gz
+   * are decompressed as they are read.
+   * @param brandId - Brand ID
+   * @param fileName - Path of the log, relative to the ingestion directory
+   * @param options - Format of the log and the domain it was served for
+   * @throws {NotFoundError} When the brand or the file does not exist
+   * @throws {ValidationError} When the path leaves the ingestion directory,
+   * or the domain is not one of the brand's
+   */
+  async importFile(
+    brandId: string,
+    fileName: string,
+    options: CrawlerLogImportOptions = {},
+  ): Promise<CrawlerLogImportResult> {
+    const path = await resolveDataFile(
+      this.config.dataDir,
+      fileName,
+      'Access log',
+    );
+
+    const stream = createReadStream(path);
+    const lines = createInterface({
+      input: path.endsWith('.gz') ? stream.pipe(createGunzip()) : stream,
+      crlfDelay: Infinity,
+    });
+    try {
+      return await this.ingest(brandId, lines, options);
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+
+  /**
+   * Parse access log lines and store the requests made by AI crawlers, each
+   * verified against its claimed operator. Requests for hosts that are not
+   * brand domains are counted but not kept, and requests by bots no
+   * signature knows are tallied per bot. Lines stored by an earlier import
+   * are skipped, so a log can be imported again.
+   * @param brandId - Brand ID
+   * @param lines - Lines of the log
+   * @param options - Format of the log and the domain it was served for
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the domain is not one of the brand's
+   */
+  async ingest(
+    brandId: string,
+    lines: AsyncIterable<string> | Iterable<string>,
+    options: CrawlerLogImportOptions = {},
+  ): Promise<CrawlerLogImportResult> {
+    const brand = await this.brandService.findById(brandId);
+    const ownDomains = (brand.domains ?? []).map(normalizeDomain);
+    const isOwned = (domain: string): boolean =>
+      isBrandDomain(ownDomains, domain);
+
+    let defaultDomain = ownDomains.length === 1 ? ownDomains[0] : null;
+    if (options.domain) {
+      defaultDomain = ownDomain(brand, options.domain);
+    }
+
+    const result: CrawlerLogImportResult = {
+      format: options.format ?? AccessLogFormat.COMBINED,
+      lines: 0,
+      aiHits: 0,
+      duplicates: 0,
+      otherRequests: 0,
+      foreignHosts: 0,
+      bots: {},
+      unknownBots: {},
+      verification: {
+        [CrawlerVerification.VERIFIED]: 0,
+        [CrawlerVerification.UNVERIFIED]: 0,
+        [CrawlerVerification.SPOOFED]: 0,
+      },
+      errors: [],
+      errorCount: 0,
+    };
+    const addError = (line: number, reason: string): void => {
+      result.errorCount++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push({ line, reason });
+      }
+    };
+
+    // Logs repeat the same few crawler IPs, so verify each pair once. Checks
+    // run while the log is read and are awaited per batch; the verifier
+    // bounds how many query DNS at once.
+    const verdicts = new Map<string, Promise<CrawlerVerification>>();
+    const verify = (
+      bot: AiBotSignature,
+      ip: string,
+    ): Promise<CrawlerVerification> => {
+      const key = `${bot.name} ${ip}`;
+      let verdict = verdicts.get(key);
+      if (!verdict) {
+        verdict = this.verifier.verify(bot, ip);
+        // Failures surface when the batch is stored
+        verdict.catch(() => undefined);
+        verdicts.set(key, verdict);
+      }
+      return verdict;
+    };
+
+    // A failed import stores nothing, so it can simply be run again
+    await this.repository.manager.transaction(async manager => {
+      const hits = manager.withRepository(this.repository);
+      const unknownBotRepository = manager.withRepository(
+        this.unknownBotRepository,
+      );
+      const loggedDomainRepository = manager.withRepository(
+        this.loggedDomainRepository,
+      );
+      const loggedUntil = new Map<string, Date>();
+
+      // Requests inside a bot's tallied range were counted by an earlier
+      // import of the same log, so only requests outside it are added
+      const tallied = new Map(
+        (
+          await unknownBotRepository.find({
+            where: { brandId },
+            lock: { mode: 'pessimistic_write' },
+          })
+        ).map(bot => [`${bot.domain} ${bot.name}`, bot]),
+      );
+      const unknownBots = new Map<string, UnknownBotTally>();
+      const countUnknownBot = (
+        name: string,
+        domain: string,
+        entry: AccessLogEntry,
+      ): void => {
+        const key = `${domain} ${name}`;
+        const known = tallied.get(key);
+        if (
+          known &&
+          entry.requestedAt >= known.firstSeenAt &&
+          entry.requestedAt <= known.lastSeenAt
+        ) {
+          return;
+        }
+
+        const seen = unknownBots.get(key);
+        if (!seen) {
+          unknownBots.set(key, {
+            domain,
+            name,
+            userAgent: entry.userAgent,
+            hits: 1,
+            firstSeenAt: entry.requestedAt,
+            lastSeenAt: entry.requestedAt,
+          });
+        } else {
+          seen.hits++;
+          seen.firstSeenAt = this.earliest(seen.firstSeenAt, entry.requestedAt);
+          seen.lastSeenAt = this.latest(seen.lastSeenAt, entry.requestedAt);
+        }
+        result.unknownBots[name] = (result.unknownBots[name] ?? 0) + 1;
+      };
+
+      let batch: CrawlerHitEntity[] = [];
+      let pending: Promise<CrawlerVerification>[] = [];
+      const flush = async (): Promise<void> => {
+        const verifications = await Promise.all(pending);
+        batch.forEach((hit, index) => {
+          hit.verification = verifications[index];
+        });
+        await this.storeHits(hits, batch, result);
+        batch = [];
+        pending = [];
+      };
+
+      for await (const parsed of this.parser.parse(lines, options.format)) {
+        result.format = parsed.format;
+        result.lines++;
+        if ('error' in parsed) {
+          addError(parsed.line, parsed.error);
+          continue;
+        }
+
+        const { entry } = parsed;
+        const bot = this.classifier.classify(entry.userAgent);
+        const domain = entry.host ? normalizeDomain(entry.host) : defaultDomain;
+        if (domain && isOwned(domain)) {
+          const latest = loggedUntil.get(domain);
+          loggedUntil.set(
+            domain,
+            latest ? this.latest(latest, entry.requestedAt) : entry.requestedAt,
+          );
+        }
+        if (!bot) {
+          result.otherRequests++;
+          const unknown = this.classifier.unknownBot(entry.userAgent);
+          if (unknown && domain && isOwned(domain)) {
+            countUnknownBot(unknown, domain, entry);
+          }
+          continue;
+        }
+
+        if (!domain) {
+          addError(
+            parsed.line,
+            'The log does not record the host; pass the domain it was served for',
+          );
+          continue;
+        }
+        if (!isOwned(domain)) {
+          result.foreignHosts++;
+          continue;
+        }
+
+        const hit = hits.create({
+          brandId,
+          domain,
+          bot: bot.name,
+          operator: bot.operator,
+          purpose: bot.purpose,
+          path: entry.path,
+          method: entry.method.slice(0, 10),
+          status: entry.status,
+          bytes: entry.bytes,
+          ip: entry.ip.slice(0, 45),
+          userAgent: entry.userAgent,
+          requestedAt: entry.requestedAt,
+        });
+        hit.lineHash = this.lineHash(hit);
+        batch.push(hit);
+        pending.push(verify(bot, entry.ip));
+
+        if (batch.length >= this.config.batchSize) {
+          await flush();
+        }
+      }
+
+      if (batch.length > 0) {
+        await flush();
+      }
+      await this.saveUnknownBots(unknownBotRepository, brandId, tallied, [
+        ...unknownBots.values(),
+      ]);
+      await this.saveLoggedDomains(
+        loggedDomainRepository,
+        brandId,
+        loggedUntil,
+      );
+    });
+    return result;
+  }
+
+  /**
+   * How each AI crawler visited each of a brand's domains, busiest first
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param filter - Only one domain or bot, or some verification outcomes
+   * @throws {ValidationError} When the start date is after the end date
+   */
+  async getCrawlStats(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    filter: CrawlFilter = {},
+  ): Promise<DomainCrawlStats[]> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const base = (): SelectQueryBuilder<CrawlerHitEntity> =>
+      this.filteredHits(brandId, startDate, endDate, filter);
+
+    const [rows, statusRows] = await Promise.all([
+      base()
+        .select('hit.domain', 'domain')
+        .addSelect('hit.bot', 'bot')
+        .addSelect('MAX(hit.operator)', 'operator')
+        .addSelect('COUNT(*)', 'hits')
+        .addSelect('COUNT(DISTINCT hit.path)', 'pages')
+        .addSelect(
+          "COUNT(DISTINCT date_trunc('day', hit.requestedAt))",
+          'activeDays',
+        )
+        .addSelect(
+          'COUNT(*) FILTER (WHERE hit.verification = :verified)',
+          'verifiedHits',
+        )
+        .addSelect(
+          'COUNT(*) FILTER (WHERE hit.verification = :spoofed)',
+          'spoofedHits',
+        )
+        .setParameters({
+          verified: CrawlerVerification.VERIFIED,
+          spoofed: CrawlerVerification.SPOOFED,
+        })
+        .addSelect('MIN(hit.requestedAt)', 'firstSeenAt')
+        .addSelect('MAX(hit.requestedAt)', 'lastSeenAt')
+        .groupBy('hit.domain')
+        .addGroupBy('hit.bot')
+        .orderBy('COUNT(*)', 'DESC')
+        .getRawMany<RawCrawlStats>(),
+      base()
+        .select('hit.domain', 'domain')
+        .addSelect('hit.bot', 'bot')
+        .addSelect('hit.status', 'status')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('hit.domain')
+        .addGroupBy('hit.bot')
+        .addGroupBy('hit.status')
+        .getRawMany<RawStatusCount>(),
+    ]);
+
+    const statusCodes = new Map<string, DomainCrawlStats['statusCodes']>();
+    for (const row of statusRows) {
+      const key = `${row.domain} ${row.bot}`;
+      const counts = statusCodes.get(key) ?? [];
+      counts.push({
+        status: parseInt(row.status, 10),
+        count: parseInt(row.count, 10),
+      });
+      statusCodes.set(key, counts);
+    }
+
+    const days = Math.max(
+      Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS),
+      1,
+    );
+    return rows.map(row => {
+      const hits = parseInt(row.hits, 10);
+      return {
+        domain: row.domain,
+        bot: row.bot,
+        operator: row.operator,
+        hits,
+        pages: parseInt(row.pages, 10),
+        activeDays: parseInt(row.activeDays, 10),
+        hitsPerDay: Math.round((hits / days) * 100) / 100,
+        verifiedHits: parseInt(row.verifiedHits, 10),
+        spoofedHits: parseInt(row.spoofedHits, 10),
+        firstSeenAt: new Date(row.firstSeenAt),
+        lastSeenAt: new Date(row.lastSeenAt),
+        statusCodes: (statusCodes.get(`${row.domain} ${row.bot}`) ?? []).sort(
+          (a, b) => b.count - a.count || a.status - b.status,
+        ),
+      };
+    });
+  }
+
+  /**
+   * Pages AI crawlers requested, most crawled first
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param options - Only one domain or bot, or some verification outcomes,
+   * and how many pages, at most 500
+   * @throws {ValidationError} When the start date is after the end date, or
+   * the limit is out of range
+   */
+  async getCrawledPages(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    options: CrawlFilter & { limit?: number } = {},
+  ): Promise<CrawledPage[]> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+    const limit = options.limit ?? 100;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CRAWLED_PAGES) {
+      throw new ValidationError(
+        `limit must be between 1 and ${MAX_CRAWLED_PAGES}`,
+        { limit },
+      );
+    }
+
+    const rows = await this.filteredHits(brandId, startDate, endDate, options)
+      .select('hit.domain', 'domain')
+      .addSelect('hit.path', 'path')
+      .addSelect('COUNT(*)', 'hits')
+      .addSelect('array_agg(DISTINCT hit.bot)', 'bots')
+      .addSelect('MAX(hit.requestedAt)', 'lastCrawledAt')
+      .addSelect(
+        '(array_agg(hit.status ORDER BY hit.requestedAt DESC))[1]',
+        'lastStatus',
+      )
+      .groupBy('hit.domain')
+      .addGroupBy('hit.path')
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('MAX(hit.requestedAt)', 'DESC')
+      .limit(limit)
+      .getRawMany<RawCrawledPage>();
+
+    return rows.map(row => ({
+      domain: row.domain,
+      path: row.path,
+      hits: parseInt(row.hits, 10),
+      bots: [...row.bots].sort(),
+      lastCrawledAt: new Date(row.lastCrawledAt),
+      lastStatus: parseInt(row.lastStatus, 10),
+    }));
+  }
+
+  /**
+   * The last crawl of each page by each bot since a date. Query strings are
+   * ignored and spoofed hits left out.
+   * @param brandId - Brand ID
+   * @param since - Earliest hit considered
+   * @param domain - Only this domain
+   */
+  async getPageCrawls(
+    brandId: string,
+    since: Date,
+    domain?: string,
+  ): Promise<PageCrawl[]> {
+    const query = this.repository
+      .createQueryBuilder('hit')
+      .select('hit.domain', 'domain')
+      .addSelect("split_part(hit.path, '?', 1)", 'path')
+      .addSelect('hit.bot', 'bot')
+      .addSelect('MAX(hit.operator)', 'operator')
+      .addSelect('COUNT(*)', 'hits')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE hit.status BETWEEN 200 AND 299)',
+        'successfulHits',
+      )
+      .addSelect('MAX(hit.requestedAt)', 'lastCrawledAt')
+      .where('hit.brandId = :brandId', { brandId })
+      .andWhere('hit.requestedAt >= :since', { since })
+      .andWhere('hit.verification != :spoofed', {
+        spoofed: CrawlerVerification.SPOOFED,
+      });
+    if (domain) {
+      query.andWhere('hit.domain = :domain', {
+        domain: normalizeDomain(domain),
+      });
+    }
+
+    const rows = await query
+      .groupBy('hit.domain')
+      .addGroupBy("split_part(hit.path, '?', 1)")
+      .addGroupBy('hit.bot')
+      .getRawMany<RawPageCrawl>();
+
+    return rows.map(row => ({
+      domain: row.domain,
+      path: row.path,
+      bot: row.bot,
+      operator: row.operator,
+      hits: parseInt(row.hits, 10),
+      successfulHits: parseInt(row.successfulHits, 10),
+      lastCrawledAt: new Date(row.lastCrawledAt),
+    }));
+  }
+
+  /**
+   * How far the imported access logs of each of a brand's domains reach
+   * @param brandId - Brand ID
+   * @param since - Domains whose logs end earlier are left out
+   */
+  async getLoggedUntil(
+    brandId: string,
+    since: Date,
+  ): Promise<Map<string, Date>> {
+    const domains = await this.loggedDomainRepository.find({
+      where: { brandId, loggedUntil: MoreThanOrEqual(since) },
+    });
+    return new Map(domains.map(logged => [logged.domain, logged.loggedUntil]));
+  }
+
+  /**
+   * Hits and error responses of each bot on a domain in a window and in the
+   * baseline before it. Spoofed hits are left out.
+   * @param brandId - Brand ID
+   * @param domain - Normalized domain
+   * @param baselineStart - Start of the baseline (inclusive)
+   * @param windowStart - End of the baseline and start of the window
+   * @param windowEnd - End of the window (inclusive)
+   */
+  async getWindowStats(
+    brandId: string,
+    domain: string,
+    baselineStart: Date,
+    windowStart: Date,
+    windowEnd: Date,
+  ): Promise<CrawlWindowStats[]> {
+    const inWindow = 'hit.requestedAt >= :windowStart';
+    const inBaseline = 'hit.requestedAt < :windowStart';
+    const clientError = 'hit.status BETWEEN 400 AND 499';
+    const serverError = 'hit.status BETWEEN 500 AND 599';
+
+    const rows = await this.repository
+      .createQueryBuilder('hit')
+      .select('hit.domain', 'domain')
+      .addSelect('hit.bot', 'bot')
+      .addSelect(`COUNT(*) FILTER (WHERE ${inWindow})`, 'hits')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${inWindow} AND ${clientError})`,
+        'clientErrors',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${inWindow} AND ${serverError})`,
+        'serverErrors',
+      )
+      .addSelect(`COUNT(*) FILTER (WHERE ${inBaseline})`, 'baselineHits')
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${inBaseline} AND ${clientError})`,
+        'baselineClientErrors',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE ${inBaseline} AND ${serverError})`,
+        'baselineServerErrors',
+      )
+      .where('hit.brandId = :brandId', { brandId })
+      .andWhere('hit.domain = :domain', { domain })
+      .andWhere('hit.requestedAt BETWEEN :baselineStart AND :windowEnd', {
+        baselineStart,
+        windowEnd,
+      })
+      .andWhere('hit.verification != :spoofed', {
+        spoofed: CrawlerVerification.SPOOFED,
+      })
+      .setParameters({ windowStart })
+      .groupBy('hit.domain')
+      .addGroupBy('hit.bot')
+      .getRawMany<RawWindowStats>();
+
+    return rows.map(row => ({
+      domain: row.domain,
+      bot: row.bot,
+      hits: parseInt(row.hits, 10),
+      clientErrors: parseInt(row.clientErrors, 10),
+      serverErrors: parseInt(row.serverErrors, 10),
+      baselineHits: parseInt(row.baselineHits, 10),
+      baselineClientErrors: parseInt(row.baselineClientErrors, 10),
+      baselineServerErrors: parseInt(row.baselineServerErrors, 10),
+    }));
+  }
+
+  /**
+   * Bots without an AI signature seen on a brand's domains, most active
+   * first
+   * @param brandId - Brand ID
+   * @param since - Only bots seen since this time
+   */
+  async getUnknownBots(
+    brandId: string,
+    since?: Date,
+  ): Promise<UnknownBotEntity[]> {
+    const query = this.unknownBotRepository
+      .createQueryBuilder('bot')
+      .where('bot.brandId = :brandId', { brandId });
+    if (since) {
+      query.andWhere('bot.lastSeenAt >= :since', { since });
+    }
+    return query
+      .orderBy('bot.hits', 'DESC')
+      .addOrderBy('bot.name', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Verify the stored hits of a brand again, e.g. after the published IP
+   * ranges changed. Cached verdicts are ignored.
+   * @param brandId - Brand ID
+   * @throws {NotFoundError} When the brand does not exist
+   */
+  async reverify(brandId: string): Promise<CrawlerReverificationResult> {
+    await this.brandService.assertExists(brandId);
+
+    const pairs = await this.repository
+      .createQueryBuilder('hit')
+      .select('hit.bot', 'bot')
+      .addSelect('hit.ip', 'ip')
+      .addSelect('hit.verification', 'verification')
+      .addSelect('COUNT(*)', 'hits')
+      .where('hit.brandId = :brandId', { brandId })
+      .groupBy('hit.bot')
+      .addGroupBy('hit.ip')
+      .addGroupBy('hit.verification')
+      .getRawMany<RawVerificationPair>();
+
+    const signatures = new Map(
+      this.classifier.list().map(signature => [signature.name, signature]),
+    );
+    // Check each crawler and IP once; the verifier bounds how many of the
+    // checks query DNS at once
+    const checks = new Map<string, Promise<CrawlerVerification>>();
+    for (const pair of pairs) {
+      const bot = signatures.get(pair.bot);
+      const key = `${pair.bot} ${pair.ip}`;
+      if (bot && !checks.has(key)) {
+        checks.set(key, this.verifier.verify(bot, pair.ip, true));
+      }
+    }
+    const keys = [...checks.keys()];
+    const verdicts = new Map(
+      (await Promise.all(checks.values())).map((verification, index) => [
+        keys[index],
+        verification,
+      ]),
+    );
+
+    let updated = 0;
+    for (const pair of pairs) {
+      const verification = verdicts.get(`${pair.bot} ${pair.ip}`);
+      if (verification && verification !== pair.verification) {
+        await this.repository.update(
+          {
+            brandId,
+            bot: pair.bot,
+            ip: pair.ip,
+            verification: pair.verification,
+          },
+          { verification },
+        );
+        updated += parseInt(pair.hits, 10);
+      }
+    }
+    return { checked: verdicts.size, updated };
+  }
+
+  /**
+   * Insert a batch of hits and count those stored. Lines an earlier import
+   * stored are skipped.
+   */
+  private async storeHits(
+    repository: Repository<CrawlerHitEntity>,
+    batch: CrawlerHitEntity[],
+    result: CrawlerLogImportResult,
+  ): Promise<void> {
+    const inserted = await repository
+      .createQueryBuilder()
+      .insert()
+      .values(batch)
+      .orIgnore()
+      .returning(['lineHash'])
+      .execute();
+    const stored = new Set(
+      (inserted.raw as Pick<CrawlerHitEntity, 'lineHash'>[]).map(
+        row => row.lineHash,
+      ),
+    );
+
+    for (const hit of batch) {
+      // A line repeated within the batch is only stored once
+      if (!stored.delete(hit.lineHash)) {
+        result.duplicates++;
+        continue;
+      }
+      result.aiHits++;
+      result.bots[hit.bot] = (result.bots[hit.bot] ?? 0) + 1;
+      result.verification[hit.verification]++;
+    }
+  }
+
+  /** Identity of the log line a hit was read from */
+  private lineHash(hit: CrawlerHitEntity): string {
+    return createHash('sha256')
+      .update(
+        [
+          hit.domain,
+          hit.requestedAt.toISOString(),
+          hit.ip,
+          hit.method,
+          hit.path,
+          hit.userAgent,
+        ].join('\n'),
+      )
+      .digest('hex');
+  }
+
+  /** Add the tallies of an import to the bots already known */
+  private async saveUnknownBots(
+    repository: Repository<UnknownBotEntity>,
+    brandId: string,
+    known: Map<string, UnknownBotEntity>,
+    bots: UnknownBotTally[],
+  ): Promise<void> {
+    if (bots.length === 0) {
+      return;
+    }
+
+    await repository.save(
+      bots.map(bot => {
+        const current = known.get(`${bot.domain} ${bot.name}`);
+        if (!current) {
+          return repository.create({ ...bot, brandId });
+        }
+        return repository.merge(current, {
+          hits: current.hits + bot.hits,
+          firstSeenAt: this.earliest(current.firstSeenAt, bot.firstSeenAt),
+          lastSeenAt: this.latest(current.lastSeenAt, bot.lastSeenAt),
+        });
+      }),
+    );
+  }
+
+  /** Extend how far the logs of each domain reach */
+  private async saveLoggedDomains(
+    repository: Repository<LoggedDomainEntity>,
+    brandId: string,
+    loggedUntil: Map<string, Date>,
+  ): Promise<void> {
+    if (loggedUntil.size === 0) {
+      return;
+    }
+
+    const existing = await repository.find({
+      where: { brandId, domain: In([...loggedUntil.keys()]) },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const known = new Map(existing.map(logged => [logged.domain, logged]));
+
+    await repository.save(
+      [...loggedUntil].map(([domain, until]) => {
+        const current = known.get(domain);
+        if (!current) {
+          return repository.create({ brandId, domain, loggedUntil: until });
+        }
+        return repository.merge(current, {
+          loggedUntil: this.latest(current.loggedUntil, until),
+        });
+      }),
+    );
+  }
+
+  private earliest(a: Date, b: Date): Date {
+    return b < a ? b : a;
+  }
+
+  private latest(a: Date, b: Date): Date {
+    return b > a ? b : a;
+  }
+
+  /** Hits of a brand in a range, narrowed by a filter */
+  private filteredHits(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    filter: CrawlFilter,
+  ): SelectQueryBuilder<CrawlerHitEntity> {
+    const query = this.repository
+      .createQueryBuilder('hit')
+      .where('hit.brandId = :brandId', { brandId })
+      .andWhere('hit.requestedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      });
+    if (filter.domain) {
+      query.andWhere('hit.domain = :domain', {
+        domain: normalizeDomain(filter.domain),
+      });
+    }
+    if (filter.bot) {
+      query.andWhere('hit.bot = :bot', { bot: filter.bot });
+    }
+    if (filter.verification?.length) {
+      query.andWhere('hit.verification IN (:...verification)', {
+        verification: filter.verification,
+      });
+    }
+    return query;
+  }
+}
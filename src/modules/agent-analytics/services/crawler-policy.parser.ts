@@ -0,0 +1,221 @@
+import { Injectable } from '@nestjs/common';
+import {
+  LlmsTxt,
+  PolicyIssue,
+  PolicyIssueType,
+  RobotsGroup,
+  RobotsRuleType,
+  RobotsTxt,
+} from '../interfaces/crawler-policy.interface';
+
+/**
+ * Directives crawlers commonly understand without affecting access, which
+ * are not reported as invalid
+ */
+const IGNORED_DIRECTIVES = new Set([
+  'crawl-delay',
+  'host',
+  'clean-param',
+  'request-rate',
+  'visit-time',
+  'noindex',
+]);
+
+/** `- [title](url)` or `- [title](url): notes` */
+const LLMS_LINK_PATTERN =
+  /^\s*[-*+]\s*\[([^\]]+)\]\(\s*(\S+?)\s*\)(?::\s*(.*))?$/;
+
+/**
+ * Reads robots.txt following RFC 9309 and llms.txt following the format
+ * proposed at llmstxt.org
+ */
+@Injectable()
+export class CrawlerPolicyParser {
+  /**
+   * Parse robots.txt. Lines that cannot be read are reported as issues and
+   * otherwise ignored, as crawlers do.
+   * @param text - Contents of robots.txt
+   */
+  parseRobotsTxt(text: string): RobotsTxt {
+    const robots: RobotsTxt = { groups: [], sitemaps: [], issues: [] };
+    let group: RobotsGroup | null = null;
+
+    text
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n|\r/)
+      .forEach((raw, index) => {
+        const line = index + 1;
+        const content = raw.replace(/#.*$/, '').trim();
+        if (!content) {
+          return;
+        }
+
+        const separator = content.indexOf(':');
+        if (separator < 0) {
+          robots.issues.push(
+            this.issue(PolicyIssueType.INVALID_LINE, line, 'Missing ":"'),
+          );
+          return;
+        }
+        const key = content
+          .slice(0, separator)
+          .trim()
+          .toLowerCase()
+          .replace(/[\s_]/g, '-');
+        const value = content.slice(separator + 1).trim();
+
+        switch (key) {
+          case 'user-agent':
+          case 'useragent':
+            // User-agent lines after rules start a new group
+            if (!group || group.rules.length > 0) {
+              group = { userAgents: [], rules: [] };
+              robots.groups.push(group);
+            }
+            group.userAgents.push({ name: value, line });
+            return;
+
+          case 'allow':
+          case 'disallow': {
+            if (!group) {
+              robots.issues.push(
+                this.issue(
+                  PolicyIssueType.RULE_WITHOUT_USER_AGENT,
+                  line,
+                  `"${content}" comes before any User-agent line and applies to no crawler`,
+                ),
+              );
+              return;
+            }
+            // An empty rule allows everything, like no rule at all
+            if (!value) {
+              return;
+            }
+            if (!value.startsWith('/') && !value.startsWith('*')) {
+              robots.issues.push(
+                this.issue(
+                  PolicyIssueType.INVALID_LINE,
+                  line,
+                  `Path "${value}" must start with "/"`,
+                ),
+              );
+              return;
+            }
+            group.rules.push({
+              type:
+                key === 'allow'
+                  ? RobotsRuleType.ALLOW
+                  : RobotsRuleType.DISALLOW,
+              path: value,
+              line,
+            });
+            return;
+          }
+
+          case 'sitemap':
+            robots.sitemaps.push(value);
+            return;
+
+          default:
+            if (!IGNORED_DIRECTIVES.has(key)) {
+              robots.issues.push(
+                this.issue(
+                  PolicyIssueType.INVALID_LINE,
+                  line,
+                  `Unknown directive "${content.slice(0, separator).trim()}"`,
+                ),
+              );
+            }
+        }
+      });
+
+    return robots;
+  }
+
+  /**
+   * Parse llms.txt: an H1 title, an optional blockquote summary, and H2
+   * sections listing links
+   * @param text - Contents of llms.txt
+   */
+  parseLlmsTxt(text: string): LlmsTxt {
+    const llms: LlmsTxt = {
+      title: null,
+      summary: null,
+      sections: [],
+      links: [],
+      issues: [],
+    };
+    const summary: string[] = [];
+    let section: string | null = null;
+
+    text
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n|\r/)
+      .forEach((raw, index) => {
+        const line = index + 1;
+        const content = raw.trim();
+        if (!content) {
+          return;
+        }
+
+        const heading = content.match(/^(#{1,6})\s+(.+)$/);
+        if (heading?.[1] === '#') {
+          if (llms.title === null) {
+            llms.title = heading[2].trim();
+          } else {
+            llms.issues.push(
+              this.issue(
+                PolicyIssueType.INVALID_LLMS_TXT,
+                line,
+                'llms.txt has more than one H1 title',
+              ),
+            );
+          }
+          return;
+        }
+        if (heading?.[1] === '##') {
+          section = heading[2].trim();
+          llms.sections.push(section);
+          return;
+        }
+
+        const quote = content.match(/^>\s?(.*)$/);
+        if (quote && section === null) {
+          summary.push(quote[1].trim());
+          return;
+        }
+
+        const link = content.match(LLMS_LINK_PATTERN);
+        if (link) {
+          llms.links.push({
+            title: link[1].trim(),
+            url: link[2],
+            notes: link[3]?.trim() || null,
+            section,
+            optional: section?.toLowerCase() === 'optional',
+            line,
+          });
+        }
+      });
+
+    if (llms.title === null) {
+      llms.issues.push(
+        this.issue(
+          PolicyIssueType.INVALID_LLMS_TXT,
+          null,
+          'llms.txt must start with an H1 title naming the site',
+        ),
+      );
+    }
+    llms.summary = summary.filter(Boolean).join(' ') || null;
+    return llms;
+  }
+
+  private issue(
+    type: PolicyIssueType,
+    line: number | null,
+    message: string,
+  ): PolicyIssue {
+    return { type, message, line, userAgent: null, path: null };
+  }
+}
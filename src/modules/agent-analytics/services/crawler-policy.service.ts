@@ -0,0 +1,654 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Repository } from 'typeorm';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { BaseService } from '../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import { normalizeDomain, ownDomain } from '../../brands/utils/domain.utils';
+import { CrawlerPolicyEntity } from '../entities/crawler-policy.entity';
+import {
+  AiBotPurpose,
+  AiBotSignature,
+} from '../interfaces/crawler-log.interface';
+import {
+  AccessIntent,
+  BotAccess,
+  CrawlerIntent,
+  CrawlerPolicyFiles,
+  CrawlerPolicyReport,
+  CrawlerPolicySuggestions,
+  LlmsTxt,
+  PathAccess,
+  PolicyIssue,
+  PolicyIssueType,
+  PolicySuggestion,
+  RobotsRule,
+  RobotsRuleType,
+  RobotsTxt,
+  UrlAccess,
+} from '../interfaces/crawler-policy.interface';
+import { BotClassifier } from './bot-classifier';
+import { CrawlerPolicyParser } from './crawler-policy.parser';
+import { resolveDataFile } from '../utils/data-file.utils';
+
+/** The group of robots.txt rules a crawler follows */
+interface AppliedGroup {
+  /** User-agent as written, or `*` */
+  name: string;
+  rules: RobotsRule[];
+}
+
+interface AccessDecision {
+  allowed: boolean;
+  rule: RobotsRule | null;
+}
+
+/**
+ * Keeps the robots.txt and llms.txt of brand domains and works out what they
+ * let each known AI crawler fetch
+ */
+@Injectable()
+export class CrawlerPolicyService extends BaseService<CrawlerPolicyEntity> {
+  private readonly dataDir: string;
+
+  constructor(
+    @InjectRepository(CrawlerPolicyEntity)
+    repository: Repository<CrawlerPolicyEntity>,
+    private readonly brandService: BrandService,
+    private readonly parser: CrawlerPolicyParser,
+    private readonly classifier: BotClassifier,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.dataDir =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.ingestion
+        .dataDir ?? join(process.cwd(), 'data', 'agent-analytics');
+  }
+
+  /**
+   * Store the robots.txt, llms.txt or both that a brand domain serves. A
+   * file left out keeps its stored version.
+   * @param brandId - Brand ID
+   * @param domain - Brand domain the files are served on
+   * @param files - Contents of the files
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When no file is given, or the domain is not
+   * one of the brand's
+   */
+  async savePolicy(
+    brandId: string,
+    domain: string,
+    files: CrawlerPolicyFiles,
+  ): Promise<CrawlerPolicyReport> {
+    if (files.robotsTxt === undefined && files.llmsTxt === undefined) {
+      throw new ValidationError('Supply robots.txt, llms.txt or both', {
+        brandId,
+        domain,
+      });
+    }
+
+    const normalized = ownDomain(
+      await this.brandService.findById(brandId),
+      domain,
+    );
+    const changes: Partial<CrawlerPolicyEntity> = {};
+    if (files.robotsTxt !== undefined) {
+      changes.robotsTxt = files.robotsTxt;
+    }
+    if (files.llmsTxt !== undefined) {
+      changes.llmsTxt = files.llmsTxt;
+    }
+
+    const existing = await this.repository.findOne({
+      where: { brandId, domain: normalized },
+    });
+    const policy = await this.repository.save(
+      this.repository.merge(
+        existing ??
+          this.repository.create({
+            brandId,
+            domain: normalized,
+            robotsTxt: null,
+            llmsTxt: null,
+          }),
+        changes,
+      ),
+    );
+    return this.report(policy);
+  }
+
+  /**
+   * Store policy files read from the ingestion directory
+   * @param brandId - Brand ID
+   * @param domain - Brand domain the files are served on
+   * @param fileNames - Paths of the files, relative to the ingestion
+   * directory
+   * @throws {NotFoundError} When the brand or a file does not exist
+   * @throws {ValidationError} When no file is given, a path leaves the
+   * ingestion directory, or the domain is not one of the brand's
+   */
+  async importFiles(
+    brandId: string,
+    domain: string,
+    fileNames: CrawlerPolicyFiles,
+  ): Promise<CrawlerPolicyReport> {
+    const read = async (
+      fileName: string | undefined,
+      label: string,
+    ): Promise<string | undefined> =>
+      fileName === undefined
+        ? undefined
+        : readFile(
+            await resolveDataFile(this.dataDir, fileName, label),
+            'utf8',
+          );
+
+    return this.savePolicy(brandId, domain, {
+      robotsTxt: await read(fileNames.robotsTxt, 'robots.txt'),
+      llmsTxt: await read(fileNames.llmsTxt, 'llms.txt'),
+    });
+  }
+
+  /**
+   * Which AI crawlers a domain's robots.txt allows, per crawler and per path
+   * it mentions, with the problems found in its policy files
+   * @param brandId - Brand ID
+   * @param domain - Brand domain
+   * @throws {NotFoundError} When no policy is stored for the domain
+   */
+  async getReport(
+    brandId: string,
+    domain: string,
+  ): Promise<CrawlerPolicyReport> {
+    return this.report(await this.findPolicy(brandId, domain));
+  }
+
+  /**
+   * Whether each known AI crawler may fetch a URL under the robots.txt of
+   * its domain
+   * @param brandId - Brand ID
+   * @param url - Absolute URL on a brand domain
+   * @throws {ValidationError} When the URL is not an absolute http(s) URL
+   * @throws {NotFoundError} When no policy is stored for the URL's domain
+   */
+  async simulate(brandId: string, url: string): Promise<UrlAccess[]> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ValidationError(`${url} is not an absolute URL`, { url });
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new ValidationError(`${url} is not an http(s) URL`, { url });
+    }
+
+    const policy = await this.findPolicy(brandId, parsed.hostname);
+    const robots = this.parser.parseRobotsTxt(policy.robotsTxt ?? '');
+    const path = `${parsed.pathname}${parsed.search}`;
+
+    return this.classifier.list().map(bot => {
+      const group = this.groupFor(robots, bot.name);
+      return {
+        bot: bot.name,
+        operator: bot.operator,
+        purpose: bot.purpose,
+        group: group?.name ?? null,
+        ...this.decide(group?.rules ?? [], path),
+      };
+    });
+  }
+
+  /**
+   * Changes to a domain's policy files that make AI crawlers' access match
+   * the brand's intent, and the robots.txt they result in. Crawlers that
+   * already comply get no suggestion.
+   * @param brandId - Brand ID
+   * @param domain - Brand domain
+   * @param intent - Access wanted per crawler purpose
+   * @throws {ValidationError} When a path to disallow does not start with "/"
+   * @throws {NotFoundError} When no policy is stored for the domain
+   */
+  async suggest(
+    brandId: string,
+    domain: string,
+    intent: CrawlerIntent,
+  ): Promise<CrawlerPolicySuggestions> {
+    const disallowPaths = [
+      ...new Set((intent.disallowPaths ?? []).map(path => path.trim())),
+    ].filter(Boolean);
+    const invalid = disallowPaths.find(path => !path.startsWith('/'));
+    if (invalid) {
+      throw new ValidationError(`Path "${invalid}" must start with "/"`, {
+        path: invalid,
+      });
+    }
+
+    const policy = await this.findPolicy(brandId, domain);
+    const robots = this.parser.parseRobotsTxt(policy.robotsTxt ?? '');
+    const wanted: Record<AiBotPurpose, AccessIntent | undefined> = {
+      [AiBotPurpose.TRAINING]: intent.training,
+      [AiBotPurpose.SEARCH]: intent.search,
+      [AiBotPurpose.ASSISTANT]: intent.assistant,
+    };
+
+    const suggestions: PolicySuggestion[] = [];
+    for (const bot of this.classifier.list()) {
+      const want = wanted[bot.purpose];
+      const suggestion =
+        want && this.suggestFor(bot, want, robots, disallowPaths);
+      if (suggestion) {
+        suggestions.push(suggestion);
+      }
+    }
+
+    const wantsAssistants =
+      intent.search === AccessIntent.ALLOW ||
+      intent.assistant === AccessIntent.ALLOW;
+    if (wantsAssistants && !policy.llmsTxt) {
+      suggestions.push({
+        bot: null,
+        message:
+          'Publish an llms.txt that points AI search and assistants to the pages that matter most',
+        directives: [],
+      });
+    }
+
+    return {
+      brandId,
+      domain: policy.domain,
+      suggestions,
+      robotsTxt: this.applySuggestions(
+        policy.robotsTxt ?? '',
+        robots,
+        suggestions,
+      ),
+    };
+  }
+
+  private report(policy: CrawlerPolicyEntity): CrawlerPolicyReport {
+    const robots = this.parser.parseRobotsTxt(policy.robotsTxt ?? '');
+    const llms =
+      policy.llmsTxt === null ? null : this.parser.parseLlmsTxt(policy.llmsTxt);
+    const bots = this.classifier.list();
+
+    const access: BotAccess[] = bots.map(bot => {
+      const group = this.groupFor(robots, bot.name);
+      const rules = group?.rules ?? [];
+      const paths = (type: RobotsRuleType): string[] =>
+        rules.filter(rule => rule.type === type).map(rule => rule.path);
+      return {
+        bot: bot.name,
+        operator: bot.operator,
+        purpose: bot.purpose,
+        group: group?.name ?? null,
+        allowed: this.decide(rules, '/').allowed,
+        disallowed: paths(RobotsRuleType.DISALLOW),
+        allowedPaths: paths(RobotsRuleType.ALLOW),
+      };
+    });
+
+    const patterns = new Set(['/']);
+    for (const group of robots.groups) {
+      group.rules.forEach(rule => patterns.add(rule.path));
+    }
+    const paths: PathAccess[] = [...patterns].sort().map(path => {
+      const allowed = bots.map(
+        bot =>
+          [
+            bot.name,
+            this.decide(
+              this.groupFor(robots, bot.name)?.rules ?? [],
+              this.samplePath(path),
+            ).allowed,
+          ] as const,
+      );
+      return {
+        path,
+        allowedBots: allowed.filter(([, ok]) => ok).map(([name]) => name),
+        blockedBots: allowed.filter(([, ok]) => !ok).map(([name]) => name),
+      };
+    });
+
+    return {
+      brandId: policy.brandId,
+      domain: policy.domain,
+      hasRobotsTxt: policy.robotsTxt !== null,
+      llmsTxt: llms && {
+        title: llms.title,
+        summary: llms.summary,
+        sections: llms.sections,
+        linkCount: llms.links.length,
+      },
+      sitemaps: robots.sitemaps,
+      bots: access,
+      paths,
+      issues: [
+        ...robots.issues,
+        ...this.conflicts(robots, bots),
+        ...(llms
+          ? [
+              ...llms.issues,
+              ...this.blockedLinks(policy.domain, robots, llms, bots),
+            ]
+          : []),
+      ],
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  /**
+   * The group a crawler follows: every group naming its product token,
+   * merged, or else the `*` groups
+   */
+  private groupFor(robots: RobotsTxt, bot: string): AppliedGroup | null {
+    const pick = (token: string): AppliedGroup | null => {
+      const groups = robots.groups.filter(group =>
+        group.userAgents.some(agent => this.token(agent.name) === token),
+      );
+      if (groups.length === 0) {
+        return null;
+      }
+      return {
+        name:
+          groups[0].userAgents.find(agent => this.token(agent.name) === token)
+            ?.name ?? token,
+        rules: groups.flatMap(group => group.rules),
+      };
+    };
+    return pick(bot.toLowerCase()) ?? pick('*');
+  }
+
+  /**
+   * Whether rules allow a path: the longest matching pattern decides, and
+   * Allow wins a tie. robots.txt itself is always allowed.
+   */
+  private decide(rules: RobotsRule[], path: string): AccessDecision {
+    if (path === '/robots.txt') {
+      return { allowed: true, rule: null };
+    }
+
+    let match: RobotsRule | null = null;
+    for (const rule of rules) {
+      if (!this.matches(rule.path, path)) {
+        continue;
+      }
+      if (
+        !match ||
+        rule.path.length > match.path.length ||
+        (rule.path.length === match.path.length &&
+          rule.type === RobotsRuleType.ALLOW)
+      ) {
+        match = rule;
+      }
+    }
+    return { allowed: match?.type !== RobotsRuleType.DISALLOW, rule: match };
+  }
+
+  /**
+   * Whether a path matches a rule's pattern, where "*" stands for any
+   * characters and a trailing "$" anchors the end. A mismatch only backtracks
+   * to the last "*", so time grows with the pattern's length times the path's
+   * however many wildcards an uploaded rule has.
+   */
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const glob = anchored ? pattern.slice(0, -1) : `${pattern}*`;
+    let globAt = 0;
+    let pathAt = 0;
+    let starAt = -1;
+    let retryAt = 0;
+    while (pathAt < path.length) {
+      if (glob[globAt] === '*') {
+        starAt = globAt++;
+        retryAt = pathAt;
+      } else if (globAt < glob.length && glob[globAt] === path[pathAt]) {
+        globAt++;
+        pathAt++;
+      } else if (starAt >= 0) {
+        // Let the last "*" take one more character and try again
+        globAt = starAt + 1;
+        pathAt = ++retryAt;
+      } else {
+        return false;
+      }
+    }
+    while (glob[globAt] === '*') {
+      globAt++;
+    }
+    return globAt === glob.length;
+  }
+
+  /** A path a pattern matches, e.g. "/*.pdf$" -> "/.pdf" */
+  private samplePath(pattern: string): string {
+    return pattern.replace(/\*/g, '').replace(/\$$/, '') || '/';
+  }
+
+  /** User-agent product token, e.g. "GPTBot/1.0" -> "gptbot" */
+  private token(userAgent: string): string {
+    return userAgent.split('/')[0].trim().toLowerCase();
+  }
+
+  /** Directives that contradict each other or do not do what they seem to */
+  private conflicts(
+    robots: RobotsTxt,
+    bots: readonly AiBotSignature[],
+  ): PolicyIssue[] {
+    const issues: PolicyIssue[] = [];
+
+    const groupsByAgent = new Map<string, { name: string; line: number }[]>();
+    for (const group of robots.groups) {
+      for (const agent of group.userAgents) {
+        const token = this.token(agent.name);
+        groupsByAgent.set(token, [...(groupsByAgent.get(token) ?? []), agent]);
+      }
+
+      const types = new Map<string, RobotsRule>();
+      for (const rule of group.rules) {
+        const other = types.get(rule.path);
+        if (other && other.type !== rule.type) {
+          issues.push({
+            type: PolicyIssueType.CONFLICTING_RULES,
+            message: `${rule.path} is both allowed and disallowed (lines ${other.line} and ${rule.line}); crawlers follow the Allow rule`,
+            line: rule.line,
+            userAgent: group.userAgents.map(agent => agent.name).join(', '),
+            path: rule.path,
+          });
+        }
+        types.set(rule.path, rule);
+      }
+    }
+
+    for (const agents of groupsByAgent.values()) {
+      if (agents.length > 1) {
+        issues.push({
+          type: PolicyIssueType.DUPLICATE_GROUP,
+          message: `${agents[0].name} is named in ${agents.length} groups (lines ${agents.map(agent => agent.line).join(', ')}); crawlers merge their rules`,
+          line: agents[1].line,
+          userAgent: agents[0].name,
+          path: null,
+        });
+      }
+    }
+
+    const wildcard = this.groupFor(robots, '*');
+    for (const bot of bots) {
+      const group = this.groupFor(robots, bot.name);
+      if (!wildcard || !group || group.name === wildcard.name) {
+        continue;
+      }
+      for (const rule of wildcard.rules) {
+        const path = this.samplePath(rule.path);
+        if (
+          rule.type === RobotsRuleType.DISALLOW &&
+          !this.decide(wildcard.rules, path).allowed &&
+          this.decide(group.rules, path).allowed
+        ) {
+          issues.push({
+            type: PolicyIssueType.WILDCARD_OVERRIDE,
+            message: `${bot.name} follows its own group, so "Disallow: ${rule.path}" for * does not apply to it`,
+            line: rule.line,
+            userAgent: bot.name,
+            path: rule.path,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /** Pages on the domain that llms.txt lists but robots.txt blocks */
+  private blockedLinks(
+    domain: string,
+    robots: RobotsTxt,
+    llms: LlmsTxt,
+    bots: readonly AiBotSignature[],
+  ): PolicyIssue[] {
+    const issues: PolicyIssue[] = [];
+    for (const link of llms.links) {
+      let url: URL;
+      try {
+        url = new URL(link.url, `https://${domain}/`);
+      } catch {
+        continue;
+      }
+      if (normalizeDomain(url.hostname) !== domain) {
+        continue;
+      }
+
+      const path = `${url.pathname}${url.search}`;
+      const blocked = bots
+        .filter(
+          bot =>
+            !this.decide(this.groupFor(robots, bot.name)?.rules ?? [], path)
+              .allowed,
+        )
+        .map(bot => bot.name);
+      if (blocked.length > 0) {
+        issues.push({
+          type: PolicyIssueType.BLOCKED_LLMS_LINK,
+          message: `llms.txt lists ${link.url}, which robots.txt blocks for ${blocked.join(', ')}`,
+          line: link.line,
+          userAgent: null,
+          path,
+        });
+      }
+    }
+    return issues;
+  }
+
+  private suggestFor(
+    bot: AiBotSignature,
+    want: AccessIntent,
+    robots: RobotsTxt,
+    disallowPaths: string[],
+  ): PolicySuggestion | null {
+    const rules = this.groupFor(robots, bot.name)?.rules ?? [];
+    const rootAllowed = this.decide(rules, '/').allowed;
+
+    if (want === AccessIntent.BLOCK) {
+      return rootAllowed
+        ? {
+            bot: bot.name,
+            message: `${bot.name} (${bot.operator}, ${bot.purpose}) can crawl the site; block it`,
+            directives: ['Disallow: /'],
+          }
+        : null;
+    }
+
+    const open = disallowPaths.filter(path => this.decide(rules, path).allowed);
+    if (rootAllowed && open.length === 0) {
+      return null;
+    }
+
+    // Keep the crawler's narrower restrictions, dropping only a full block
+    const kept = rules
+      .filter(
+        rule =>
+          rule.type === RobotsRuleType.DISALLOW &&
+          this.samplePath(rule.path) !== '/',
+      )
+      .map(rule => rule.path);
+    const paths = [...new Set([...kept, ...disallowPaths])];
+    return {
+      bot: bot.name,
+      message: rootAllowed
+        ? `${bot.name} (${bot.operator}, ${bot.purpose}) can crawl ${open.join(', ')}; keep it out`
+        : `${bot.name} (${bot.operator}, ${bot.purpose}) is blocked from the site; allow it`,
+      directives:
+        paths.length > 0
+          ? paths.map(path => `Disallow: ${path}`)
+          : ['Allow: /'],
+    };
+  }
+
+  /**
+   * robots.txt with the suggested crawlers taken out of their groups and
+   * given new groups at the end, one per set of directives
+   */
+  private applySuggestions(
+    text: string,
+    robots: RobotsTxt,
+    suggestions: PolicySuggestion[],
+  ): string {
+    const changed = new Set(
+      suggestions.flatMap(suggestion =>
+        suggestion.bot ? [suggestion.bot.toLowerCase()] : [],
+      ),
+    );
+    if (changed.size === 0) {
+      return text;
+    }
+
+    const dropped = new Set<number>();
+    for (const group of robots.groups) {
+      const moved = group.userAgents.filter(agent =>
+        changed.has(this.token(agent.name)),
+      );
+      moved.forEach(agent => dropped.add(agent.line));
+      if (moved.length === group.userAgents.length) {
+        group.rules.forEach(rule => dropped.add(rule.line));
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const suggestion of suggestions) {
+      if (suggestion.bot && suggestion.directives.length > 0) {
+        const key = suggestion.directives.join('\n');
+        groups.set(key, [...(groups.get(key) ?? []), suggestion.bot]);
+      }
+    }
+
+    const kept = text
+      .split(/\r?\n|\r/)
+      .filter((_, index) => !dropped.has(index + 1))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    const added = [...groups].map(([directives, agents]) =>
+      [...agents.map(agent => `User-agent: ${agent}`), directives].join('\n'),
+    );
+    return `${[kept, ...added].filter(Boolean).join('\n\n')}\n`;
+  }
+
+  private async findPolicy(
+    brandId: string,
+    domain: string,
+  ): Promise<CrawlerPolicyEntity> {
+    const normalized = normalizeDomain(domain);
+    const policy = await this.repository.findOne({
+      where: { brandId, domain: normalized },
+    });
+    if (!policy) {
+      throw new NotFoundError(
+        `No robots.txt or llms.txt stored for ${normalized}`,
+        { brandId, domain: normalized },
+      );
+    }
+    return policy;
+  }
+}
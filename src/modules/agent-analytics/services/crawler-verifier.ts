@@ -0,0 +1,232 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { CacheService } from '../../../cache/cache.service';
+import { ValidationError } from '../../../shared/errors';
+import { isSameOrSubdomain } from '../../brands/utils/domain.utils';
+import {
+  AiBotSignature,
+  CrawlerIpRanges,
+  CrawlerVerification,
+} from '../interfaces/crawler-log.interface';
+
+const DEFAULT_VERIFICATION: AgentAnalyticsConfig['verification'] = {
+  rangesFile: '',
+  reverseDns: false,
+  dnsTimeout: 2000,
+  dnsConcurrency: 10,
+  cacheTtl: 24 * 60 * 60 * 1000,
+};
+
+/** DNS errors that mean the name has no record, rather than no answer */
+const NO_RECORD_CODES = new Set<string>([dns.NOTFOUND, dns.NODATA]);
+
+/**
+ * Tells genuine AI crawlers from clients that borrow their user agent, using
+ * the IP ranges operators publish and forward-confirmed reverse DNS
+ */
+@Injectable()
+export class CrawlerVerifier implements OnModuleInit {
+  private readonly logger = new Logger(CrawlerVerifier.name);
+  private readonly config: AgentAnalyticsConfig['verification'];
+  private readonly resolver: dns.Resolver;
+  private ranges = new Map<string, BlockList>();
+
+  /** DNS confirmations in flight, and those waiting for a slot */
+  private lookups = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(
+    private readonly cacheService: CacheService,
+    configService: ConfigService,
+  ) {
+    this.config =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.verification ??
+      DEFAULT_VERIFICATION;
+    this.resolver = new dns.Resolver({
+      timeout: this.config.dnsTimeout,
+      tries: 1,
+    });
+  }
+
+  async onModuleInit(): Promise<void> {
+    const path = this.config.rangesFile;
+    if (!path || !existsSync(path)) {
+      this.logger.warn(
+        'No crawler IP ranges configured; crawlers are verified by DNS only',
+      );
+      return;
+    }
+    try {
+      this.loadRanges(JSON.parse(await readFile(path, 'utf8')));
+    } catch (error) {
+      this.logger.error(
+        `Failed to load crawler IP ranges from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Replaces the published IP ranges crawlers are checked against
+   * @param ranges - CIDR lists keyed by crawler name
+   * @throws {ValidationError} When a range is not a valid CIDR block
+   */
+  loadRanges(ranges: CrawlerIpRanges): void {
+    const loaded = new Map<string, BlockList>();
+    for (const [bot, cidrs] of Object.entries(ranges ?? {})) {
+      if (!Array.isArray(cidrs)) {
+        throw new ValidationError(`IP ranges of ${bot} must be a list`, {
+          bot,
+        });
+      }
+      const list = new BlockList();
+      for (const cidr of cidrs) {
+        const [address, prefix] = String(cidr).split('/');
+        const family = isIP(address);
+        const bits = prefix === undefined ? (family === 6 ? 128 : 32) : +prefix;
+        const max = family === 6 ? 128 : 32;
+        if (!family || !Number.isInteger(bits) || bits < 0 || bits > max) {
+          throw new ValidationError(`Invalid IP range ${cidr} for ${bot}`, {
+            bot,
+            cidr,
+          });
+        }
+        list.addSubnet(address, bits, family === 6 ? 'ipv6' : 'ipv4');
+      }
+      loaded.set(bot.toLowerCase(), list);
+    }
+
+    this.ranges = loaded;
+    this.logger.log(`Loaded IP ranges for ${loaded.size} crawlers`);
+  }
+
+  /**
+   * Whether a request claiming to come from a crawler did. Verdicts are
+   * cached per crawler and IP.
+   * @param bot - Crawler the user agent claims
+   * @param ip - Source IP of the request
+   * @param refresh - Check again instead of using a cached verdict
+   */
+  async verify(
+    bot: AiBotSignature,
+    ip: string,
+    refresh = false,
+  ): Promise<CrawlerVerification> {
+    const family = isIP(ip);
+    if (!family) {
+      return CrawlerVerification.UNVERIFIED;
+    }
+
+    const cacheKey = `crawler-verification:${bot.name.toLowerCase()}:${ip}`;
+    const cached = refresh
+      ? null
+      : await this.cacheService.get<CrawlerVerification>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const verification = await this.check(bot, ip, family);
+    await this.cacheService.set(cacheKey, verification, this.config.cacheTtl);
+    return verification;
+  }
+
+  private async check(
+    bot: AiBotSignature,
+    ip: string,
+    family: number,
+  ): Promise<CrawlerVerification> {
+    const ranges = this.ranges.get(bot.name.toLowerCase());
+    if (ranges?.check(ip, family === 6 ? 'ipv6' : 'ipv4')) {
+      return CrawlerVerification.VERIFIED;
+    }
+
+    const hostnames = bot.hostnames ?? [];
+    const byDns =
+      this.config.reverseDns && hostnames.length
+        ? await this.limited(() => this.confirmByDns(ip, hostnames))
+        : null;
+    if (byDns !== null) {
+      return byDns ? CrawlerVerification.VERIFIED : CrawlerVerification.SPOOFED;
+    }
+
+    // Without a DNS verdict, the IP can only be ruled out by published ranges
+    return ranges
+      ? CrawlerVerification.SPOOFED
+      : CrawlerVerification.UNVERIFIED;
+  }
+
+  /**
+   * Forward-confirmed reverse DNS: a name of the IP falls under one of the
+   * operator's domains and resolves back to the IP
+   * @returns Whether the operator is confirmed, or null when DNS gave no
+   * answer
+   */
+  private async confirmByDns(
+    ip: string,
+    hostnames: string[],
+  ): Promise<boolean | null> {
+    try {
+      const names = await this.resolver.reverse(ip);
+      for (const name of names) {
+        const host = name.toLowerCase().replace(/\.$/, '');
+        if (!hostnames.some(owner => isSameOrSubdomain(host, owner))) {
+          continue;
+        }
+        const addresses =
+          isIP(ip) === 6
+            ? await this.resolver.resolve6(host)
+            : await this.resolver.resolve4(host);
+        if (addresses.some(address => this.sameAddress(address, ip))) {
+          return true;
+        }
+      }
+      return false;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code && NO_RECORD_CODES.has(code)) {
+        return false;
+      }
+      this.logger.warn(
+        `Reverse DNS lookup of ${ip} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Run a DNS confirmation once fewer than the configured number are in
+   * flight, so a log with many crawler IPs does not flood the resolver
+   */
+  private async limited<T>(lookup: () => Promise<T>): Promise<T> {
+    if (this.lookups >= this.config.dnsConcurrency) {
+      // The finished lookup hands its slot over
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.lookups++;
+    }
+
+    try {
+      return await lookup();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.lookups--;
+      }
+    }
+  }
+
+  private sameAddress(a: string, b: string): boolean {
+    if (isIP(a) !== 6) {
+      return a === b;
+    }
+    const list = new BlockList();
+    list.addAddress(a, 'ipv6');
+    return list.check(b, 'ipv6');
+  }
+}
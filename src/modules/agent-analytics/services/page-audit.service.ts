@@ -0,0 +1,758 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { QueryFailedError, Repository } from 'typeorm';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { BaseService } from '../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import {
+  isSameOrSubdomain,
+  normalizeDomain,
+} from '../../brands/utils/domain.utils';
+import { PageOptimizationEntity } from '../entities/page-optimization.entity';
+import {
+  AuditFinding,
+  OptimizationCategory,
+  OptimizationFilter,
+  OptimizationPriority,
+  OptimizationStatus,
+  OptimizationType,
+  PageAuditResult,
+  PageSnapshot,
+  ValidationResult,
+} from '../interfaces/page-audit.interface';
+import { PageHtmlParser } from './page-html.parser';
+import { resolveDataFile } from '../utils/data-file.utils';
+
+const DEFAULT_AUDIT: AgentAnalyticsConfig['audit'] = {
+  mirrorDir: join(process.cwd(), 'data', 'agent-analytics', 'mirror'),
+  minDescriptionLength: 50,
+  maxDescriptionLength: 160,
+  minContentRatio: 0.5,
+};
+
+/** Most optimizations listed at once */
+const MAX_LISTED_OPTIMIZATIONS = 500;
+
+/** Postgres error code of a unique index violation */
+const UNIQUE_VIOLATION = '23505';
+
+/** Where each type of optimization belongs and how much it matters */
+const OPTIMIZATION_KINDS: Record<
+  OptimizationType,
+  { category: OptimizationCategory; priority: OptimizationPriority }
+> = {
+  [OptimizationType.MISSING_STRUCTURED_DATA]: {
+    category: OptimizationCategory.STRUCTURED_DATA,
+    priority: OptimizationPriority.HIGH,
+  },
+  [OptimizationType.INVALID_STRUCTURED_DATA]: {
+    category: OptimizationCategory.STRUCTURED_DATA,
+    priority: OptimizationPriority.HIGH,
+  },
+  [OptimizationType.INCOMPLETE_STRUCTURED_DATA]: {
+    category: OptimizationCategory.STRUCTURED_DATA,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.MISSING_META_DESCRIPTION]: {
+    category: OptimizationCategory.META,
+    priority: OptimizationPriority.HIGH,
+  },
+  [OptimizationType.DUPLICATE_META_DESCRIPTION]: {
+    category: OptimizationCategory.META,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.META_DESCRIPTION_LENGTH]: {
+    category: OptimizationCategory.META,
+    priority: OptimizationPriority.LOW,
+  },
+  [OptimizationType.MISSING_H1]: {
+    category: OptimizationCategory.HEADINGS,
+    priority: OptimizationPriority.HIGH,
+  },
+  [OptimizationType.MULTIPLE_H1]: {
+    category: OptimizationCategory.HEADINGS,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.SKIPPED_HEADING_LEVEL]: {
+    category: OptimizationCategory.HEADINGS,
+    priority: OptimizationPriority.LOW,
+  },
+  [OptimizationType.MISSING_CANONICAL]: {
+    category: OptimizationCategory.CANONICAL,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.MULTIPLE_CANONICALS]: {
+    category: OptimizationCategory.CANONICAL,
+    priority: OptimizationPriority.HIGH,
+  },
+  [OptimizationType.INVALID_CANONICAL]: {
+    category: OptimizationCategory.CANONICAL,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.CROSS_DOMAIN_CANONICAL]: {
+    category: OptimizationCategory.CANONICAL,
+    priority: OptimizationPriority.MEDIUM,
+  },
+  [OptimizationType.LOW_CONTENT_RATIO]: {
+    category: OptimizationCategory.CONTENT,
+    priority: OptimizationPriority.MEDIUM,
+  },
+};
+
+const PRIORITY_ORDER = [
+  OptimizationPriority.HIGH,
+  OptimizationPriority.MEDIUM,
+  OptimizationPriority.LOW,
+];
+
+/**
+ * Properties a schema.org item of a type needs before answer engines use
+ * it. Alternatives are separated by "|".
+ */
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Article: ['headline', 'author', 'datePublished'],
+  NewsArticle: ['headline', 'author', 'datePublished'],
+  BlogPosting: ['headline', 'author', 'datePublished'],
+  Product: ['name', 'offers|review|aggregateRating'],
+  SoftwareApplication: ['name', 'offers|aggregateRating'],
+  Organization: ['name', 'url'],
+  LocalBusiness: ['name', 'address'],
+  Person: ['name'],
+  FAQPage: ['mainEntity'],
+  HowTo: ['name', 'step'],
+  BreadcrumbList: ['itemListElement'],
+  Event: ['name', 'startDate', 'location'],
+  Recipe: ['name', 'recipeIngredient'],
+};
+
+/** Longest excerpt of faulty markup kept on an optimization */
+const MAX_DETAIL_LENGTH = 500;
+
+interface AuditedPage {
+  /** Absolute URL without fragment */
+  url: string;
+
+  /** The brand's normalized domains */
+  domains: string[];
+}
+
+interface RecordedAudit {
+  saved: PageOptimizationEntity[];
+  resolved: number;
+}
+
+interface AuditRun {
+  result: PageAuditResult;
+  findings: AuditFinding[];
+  saved: PageOptimizationEntity[];
+}
+
+/**
+ * Audits brand pages for what answer engines need to understand and cite
+ * them, and tracks the resulting optimizations until an audit finds them
+ * implemented
+ */
+@Injectable()
+export class PageAuditService extends BaseService<PageOptimizationEntity> {
+  private readonly config: AgentAnalyticsConfig['audit'];
+
+  constructor(
+    @InjectRepository(PageOptimizationEntity)
+    repository: Repository<PageOptimizationEntity>,
+    private readonly brandService: BrandService,
+    private readonly parser: PageHtmlParser,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.config =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.audit ??
+      DEFAULT_AUDIT;
+  }
+
+  /**
+   * Audit a page's HTML. Problems found become open optimizations; open
+   * optimizations of the page the audit no longer finds are resolved.
+   * @param brandId - Brand ID
+   * @param url - Absolute URL of the page on a brand domain
+   * @param html - Page HTML
+   * @param now - Time of the audit
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the URL is not on a brand domain
+   */
+  async auditHtml(
+    brandId: string,
+    url: string,
+    html: string,
+    now = new Date(),
+  ): Promise<PageAuditResult> {
+    return (await this.run(brandId, url, html, now)).result;
+  }
+
+  /**
+   * Audit a page from the local mirror of the brand's sites
+   * @param brandId - Brand ID
+   * @param url - Absolute URL of the page on a brand domain
+   * @throws {NotFoundError} When the brand or the mirrored page does not
+   * exist
+   * @throws {ValidationError} When the URL is not on a brand domain, or its
+   * path leaves the host's mirror directory
+   */
+  async auditMirror(brandId: string, url: string): Promise<PageAuditResult> {
+    const page = await this.page(brandId, url);
+    return this.auditHtml(brandId, page.url, await this.readMirror(page.url));
+  }
+
+  /**
+   * Re-check a page for one optimization. The whole page is audited again,
+   * so its other optimizations are brought up to date as well.
+   * @param brandId - Brand ID
+   * @param optimizationId - Optimization ID
+   * @param html - Page HTML after the change; read from the local mirror
+   * when left out
+   * @param now - Time of the check
+   * @throws {NotFoundError} When the optimization or mirrored page does not
+   * exist
+   */
+  async validateImplementation(
+    brandId: string,
+    optimizationId: string,
+    html?: string,
+    now = new Date(),
+  ): Promise<ValidationResult> {
+    const optimization = await this.repository.findOne({
+      where: { id: optimizationId, brandId },
+    });
+    if (!optimization) {
+      throw new NotFoundError(`Optimization ${optimizationId} not found`, {
+        brandId,
+        optimizationId,
+      });
+    }
+
+    const { findings, saved } = await this.run(
+      brandId,
+      optimization.url,
+      html ?? (await this.readMirror(optimization.url)),
+      now,
+    );
+    const finding =
+      findings.find(found => found.type === optimization.type) ?? null;
+    return {
+      optimization:
+        saved.find(updated => updated.id === optimization.id) ?? optimization,
+      passed: finding === null,
+      checkedAt: now,
+      finding,
+    };
+  }
+
+  /**
+   * Optimizations of a brand's pages, highest priority first
+   * @param brandId - Brand ID
+   * @param filter - Only one page, status, priority or category, and how
+   * many, at most 500
+   * @throws {ValidationError} When the limit is out of range
+   */
+  async findByBrand(
+    brandId: string,
+    filter: OptimizationFilter = {},
+  ): Promise<PageOptimizationEntity[]> {
+    const limit = filter.limit ?? MAX_LISTED_OPTIMIZATIONS;
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_LISTED_OPTIMIZATIONS
+    ) {
+      throw new ValidationError(
+        `limit must be between 1 and ${MAX_LISTED_OPTIMIZATIONS}`,
+        { limit },
+      );
+    }
+
+    const query = this.repository
+      .createQueryBuilder('optimization')
+      .addSelect(
+        `CASE optimization.priority ${PRIORITY_ORDER.map(
+          (priority, rank) => `WHEN '${priority}' THEN ${rank}`,
+        ).join(' ')} END`,
+        'priority_rank',
+      )
+      .where('optimization.brandId = :brandId', { brandId });
+    if (filter.url) {
+      query.andWhere('optimization.url = :url', { url: filter.url });
+    }
+    if (filter.status) {
+      query.andWhere('optimization.status = :status', {
+        status: filter.status,
+      });
+    }
+    if (filter.priority) {
+      query.andWhere('optimization.priority = :priority', {
+        priority: filter.priority,
+      });
+    }
+    if (filter.category) {
+      query.andWhere('optimization.category = :category', {
+        category: filter.category,
+      });
+    }
+    return query
+      .take(limit)
+      .orderBy('priority_rank', 'ASC')
+      .addOrderBy('optimization.detectedAt', 'DESC')
+      .getMany();
+  }
+
+  private async run(
+    brandId: string,
+    url: string,
+    html: string,
+    now: Date,
+  ): Promise<AuditRun> {
+    const page = await this.page(brandId, url);
+    const snapshot = this.parser.parse(html);
+    const findings = this.check(snapshot, page);
+
+    let recorded: RecordedAudit;
+    try {
+      recorded = await this.record(brandId, page.url, findings, now);
+    } catch (error) {
+      // Another audit of the page opened one of the optimizations first
+      const unique =
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION;
+      if (!unique) {
+        throw error;
+      }
+      recorded = await this.record(brandId, page.url, findings, now);
+    }
+    const { saved, resolved } = recorded;
+
+    return {
+      result: {
+        brandId,
+        url: page.url,
+        checkedAt: now,
+        contentRatio: this.contentRatio(snapshot),
+        optimizations: saved
+          .filter(item => item.status === OptimizationStatus.OPEN)
+          .sort(
+            (a, b) =>
+              PRIORITY_ORDER.indexOf(a.priority) -
+              PRIORITY_ORDER.indexOf(b.priority),
+          ),
+        resolved,
+      },
+      findings,
+      saved,
+    };
+  }
+
+  /**
+   * Bring a page's optimizations in line with an audit's findings: update
+   * the open ones still found, open new ones and resolve the rest. The
+   * page's open optimizations are read and written in one transaction.
+   */
+  private async record(
+    brandId: string,
+    url: string,
+    findings: AuditFinding[],
+    now: Date,
+  ): Promise<RecordedAudit> {
+    return this.repository.manager.transaction(async manager => {
+      const repository = manager.withRepository(this.repository);
+      const open = await repository.find({
+        where: { brandId, url, status: OptimizationStatus.OPEN },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const openByType = new Map(open.map(item => [item.type, item]));
+      const found = new Set(findings.map(finding => finding.type));
+
+      const current = findings.map(finding => {
+        const existing = openByType.get(finding.type);
+        return existing
+          ? repository.merge(existing, { ...finding, lastCheckedAt: now })
+          : repository.create({
+              ...finding,
+              brandId,
+              url,
+              status: OptimizationStatus.OPEN,
+              detectedAt: now,
+              lastCheckedAt: now,
+              resolvedAt: null,
+            });
+      });
+      const resolved = open
+        .filter(item => !found.has(item.type))
+        .map(item =>
+          repository.merge(item, {
+            status: OptimizationStatus.RESOLVED,
+            lastCheckedAt: now,
+            resolvedAt: now,
+          }),
+        );
+
+      return {
+        saved: await repository.save([...current, ...resolved]),
+        resolved: resolved.length,
+      };
+    });
+  }
+
+  private check(snapshot: PageSnapshot, page: AuditedPage): AuditFinding[] {
+    return [
+      ...this.checkStructuredData(snapshot),
+      ...this.checkMetaDescription(snapshot),
+      ...this.checkHeadings(snapshot),
+      ...this.checkCanonical(snapshot, page),
+      ...this.checkContent(snapshot),
+    ];
+  }
+
+  private checkStructuredData(snapshot: PageSnapshot): AuditFinding[] {
+    if (snapshot.jsonLd.length === 0) {
+      return [
+        this.finding(
+          OptimizationType.MISSING_STRUCTURED_DATA,
+          'Add schema.org structured data',
+          'Describe the page in a JSON-LD block, e.g. as an Article, Product, FAQPage or Organization, so answer engines can tell what it is about',
+        ),
+      ];
+    }
+
+    const invalid: string[] = [];
+    const incomplete: string[] = [];
+    snapshot.jsonLd.forEach((block, index) => {
+      const label = `JSON-LD block ${index + 1}`;
+      let data: unknown;
+      try {
+        data = JSON.parse(block);
+      } catch (error) {
+        invalid.push(
+          `${label} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+        return;
+      }
+
+      const roots = (Array.isArray(data) ? data : [data]).filter(this.isItem);
+      if (roots.length === 0) {
+        invalid.push(`${label} holds no schema.org item`);
+        return;
+      }
+      for (const root of roots) {
+        const context = JSON.stringify(root['@context'] ?? '');
+        if (!context.includes('schema.org')) {
+          invalid.push(`${label} does not declare schema.org as @context`);
+        }
+        const items = Array.isArray(root['@graph'])
+          ? root['@graph'].filter(this.isItem)
+          : [root];
+        for (const item of items) {
+          const types = [item['@type']]
+            .flat()
+            .filter((type): type is string => typeof type === 'string');
+          if (types.length === 0) {
+            invalid.push(`An item of ${label} has no @type`);
+          }
+          for (const type of types) {
+            const missing = (REQUIRED_PROPERTIES[type] ?? []).filter(
+              property =>
+                !property.split('|').some(name => this.hasValue(item[name])),
+            );
+            if (missing.length > 0) {
+              incomplete.push(
+                `${type} lacks ${missing.map(property => property.split('|').join(' or ')).join(', ')}`,
+              );
+            }
+          }
+        }
+      }
+    });
+
+    const findings: AuditFinding[] = [];
+    if (invalid.length > 0) {
+      findings.push(
+        this.finding(
+          OptimizationType.INVALID_STRUCTURED_DATA,
+          'Fix invalid structured data',
+          'Make each JSON-LD block valid JSON with a schema.org @context and an @type; crawlers skip blocks they cannot read',
+          invalid.join('; '),
+        ),
+      );
+    }
+    if (incomplete.length > 0) {
+      findings.push(
+        this.finding(
+          OptimizationType.INCOMPLETE_STRUCTURED_DATA,
+          'Complete the structured data',
+          'Add the properties each schema.org type needs, so answer engines can use the item',
+          incomplete.join('; '),
+        ),
+      );
+    }
+    return findings;
+  }
+
+  private checkMetaDescription(snapshot: PageSnapshot): AuditFinding[] {
+    const descriptions = snapshot.metaDescriptions.filter(Boolean);
+    if (descriptions.length === 0) {
+      return [
+        this.finding(
+          OptimizationType.MISSING_META_DESCRIPTION,
+          'Add a meta description',
+          `Summarize the page in ${this.config.minDescriptionLength} to ${this.config.maxDescriptionLength} characters; answer engines quote it when citing the page`,
+        ),
+      ];
+    }
+
+    const findings: AuditFinding[] = [];
+    if (snapshot.metaDescriptions.length > 1) {
+      findings.push(
+        this.finding(
+          OptimizationType.DUPLICATE_META_DESCRIPTION,
+          'Keep a single meta description',
+          'Remove all but one <meta name="description"> tag; crawlers pick one of them arbitrarily',
+          snapshot.metaDescriptions.map(text => `"${text}"`).join(', '),
+        ),
+      );
+    }
+    const { length } = descriptions[0];
+    if (
+      length < this.config.minDescriptionLength ||
+      length > this.config.maxDescriptionLength
+    ) {
+      findings.push(
+        this.finding(
+          OptimizationType.META_DESCRIPTION_LENGTH,
+          length < this.config.minDescriptionLength
+            ? 'Lengthen the meta description'
+            : 'Shorten the meta description',
+          `Keep the meta description between ${this.config.minDescriptionLength} and ${this.config.maxDescriptionLength} characters`,
+          `${length} characters: "${descriptions[0]}"`,
+        ),
+      );
+    }
+    return findings;
+  }
+
+  private checkHeadings(snapshot: PageSnapshot): AuditFinding[] {
+    const findings: AuditFinding[] = [];
+    const h1s = snapshot.headings.filter(heading => heading.level === 1);
+    if (h1s.length === 0) {
+      findings.push(
+        this.finding(
+          OptimizationType.MISSING_H1,
+          'Add an H1 heading',
+          'Give the page one <h1> stating its topic',
+          snapshot.title ? `Page title: "${snapshot.title}"` : null,
+        ),
+      );
+    } else if (h1s.length > 1) {
+      findings.push(
+        this.finding(
+          OptimizationType.MULTIPLE_H1,
+          'Keep a single H1 heading',
+          'Use one <h1> for the page topic and <h2> to <h6> for its sections',
+          h1s.map(heading => `"${heading.text}"`).join(', '),
+        ),
+      );
+    }
+
+    const skipped = snapshot.headings
+      .slice(1)
+      .filter(
+        (heading, index) => heading.level > snapshot.headings[index].level + 1,
+      )
+      .map(heading => `H${heading.level} "${heading.text}"`);
+    if (skipped.length > 0) {
+      findings.push(
+        this.finding(
+          OptimizationType.SKIPPED_HEADING_LEVEL,
+          'Nest headings without skipping levels',
+          'Place each heading at most one level below the one before it, so the outline of the page reads as intended',
+          skipped.join(', '),
+        ),
+      );
+    }
+    return findings;
+  }
+
+  private checkCanonical(
+    snapshot: PageSnapshot,
+    page: AuditedPage,
+  ): AuditFinding[] {
+    const canonicals = [...new Set(snapshot.canonicals)];
+    if (canonicals.length === 0) {
+      return [
+        this.finding(
+          OptimizationType.MISSING_CANONICAL,
+          'Add a canonical link',
+          `Add <link rel="canonical" href="${page.url}"> so crawlers credit one URL for the page`,
+        ),
+      ];
+    }
+    if (canonicals.length > 1) {
+      return [
+        this.finding(
+          OptimizationType.MULTIPLE_CANONICALS,
+          'Keep a single canonical link',
+          'Remove all but one canonical link; crawlers ignore conflicting ones',
+          canonicals.join(', '),
+        ),
+      ];
+    }
+
+    const canonical = this.parseUrl(canonicals[0]);
+    if (!canonical) {
+      return [
+        this.finding(
+          OptimizationType.INVALID_CANONICAL,
+          'Use an absolute canonical URL',
+          'Point the canonical link to the absolute http(s) URL of the page',
+          canonicals[0],
+        ),
+      ];
+    }
+    const domain = normalizeDomain(canonical.hostname);
+    if (!page.domains.some(owner => isSameOrSubdomain(domain, owner))) {
+      return [
+        this.finding(
+          OptimizationType.CROSS_DOMAIN_CANONICAL,
+          'Point the canonical link to a brand domain',
+          'The canonical link credits another site with this page; point it to the brand URL unless the page is syndicated',
+          canonicals[0],
+        ),
+      ];
+    }
+    return [];
+  }
+
+  private checkContent(snapshot: PageSnapshot): AuditFinding[] {
+    const ratio = this.contentRatio(snapshot);
+    if (ratio >= this.config.minContentRatio) {
+      return [];
+    }
+    return [
+      this.finding(
+        OptimizationType.LOW_CONTENT_RATIO,
+        'Give the page more of its own content',
+        'Expand the main content or trim navigation, headers, footers and sidebars, and mark the content up with <main> or <article>',
+        `${snapshot.contentWords} of ${snapshot.bodyWords} words are the page's own content`,
+      ),
+    ];
+  }
+
+  private finding(
+    type: OptimizationType,
+    title: string,
+    recommendation: string,
+    detail: string | null = null,
+  ): AuditFinding {
+    return {
+      type,
+      ...OPTIMIZATION_KINDS[type],
+      title,
+      recommendation,
+      detail:
+        detail && detail.length > MAX_DETAIL_LENGTH
+          ? `${detail.slice(0, MAX_DETAIL_LENGTH - 1)}…`
+          : detail,
+    };
+  }
+
+  private contentRatio(snapshot: PageSnapshot): number {
+    return snapshot.bodyWords > 0
+      ? Math.round((snapshot.contentWords / snapshot.bodyWords) * 100) / 100
+      : 0;
+  }
+
+  private isItem(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private hasValue(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    return value !== undefined && value !== null && value !== '';
+  }
+
+  /**
+   * The page's URL without fragment, checked to be on a brand domain
+   */
+  private async page(brandId: string, url: string): Promise<AuditedPage> {
+    const parsed = this.parseUrl(url);
+    if (!parsed) {
+      throw new ValidationError(`${url} is not an absolute http(s) URL`, {
+        url,
+      });
+    }
+
+    const brand = await this.brandService.findById(brandId);
+    const domains = (brand.domains ?? []).map(normalizeDomain);
+    const domain = normalizeDomain(parsed.hostname);
+    if (!domains.some(owner => isSameOrSubdomain(domain, owner))) {
+      throw new ValidationError(`${url} is not on a domain of this brand`, {
+        brandId,
+        url,
+      });
+    }
+    parsed.hash = '';
+    return { url: parsed.toString(), domains };
+  }
+
+  private parseUrl(value: string): URL | null {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * HTML of a page from the local mirror, which keeps each host in its own
+   * directory. "/pricing" is looked up as "pricing", "pricing.html" and
+   * "pricing/index.html"; "/docs/" as "docs/index.html".
+   * @throws {ValidationError} When the decoded path leaves the host's
+   * directory or holds a NUL byte
+   * @throws {NotFoundError} When the page is not mirrored
+   */
+  private async readMirror(url: string): Promise<string> {
+    const { hostname, pathname } = new URL(url);
+    let path = pathname;
+    try {
+      path = decodeURIComponent(pathname);
+    } catch {
+      // Keep a path with malformed escapes as it is
+    }
+    if (path.includes('\0')) {
+      throw new ValidationError(`${url} is not a valid page path`, { url });
+    }
+    const candidates = path.endsWith('/')
+      ? [`${path}index.html`]
+      : [path, `${path}.html`, `${path}/index.html`];
+
+    for (const candidate of candidates) {
+      try {
+        // Resolved against the host's directory, so an encoded "../"
+        // cannot reach another host's pages
+        const file = await resolveDataFile(
+          join(this.config.mirrorDir, hostname),
+          `.${candidate}`,
+          'Mirrored page',
+        );
+        return await readFile(file, 'utf8');
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+    throw new NotFoundError(`No mirrored copy of ${url}`, { url });
+  }
+}
@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { PageSnapshot } from '../interfaces/page-audit.interface';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/** Elements whose contents are never shown as text */
+const HIDDEN_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg'];
+
+/** Elements holding site-wide navigation rather than the page's content */
+const BOILERPLATE_ELEMENTS = ['nav', 'header', 'footer', 'aside', 'form'];
+
+/**
+ * Reads the parts of a page's HTML that answer engines rely on. Markup is
+ * scanned rather than fully parsed, which tolerates the broken HTML real
+ * sites serve.
+ */
+@Injectable()
+export class PageHtmlParser {
+  /**
+   * @param html - Page HTML
+   */
+  parse(html: string): PageSnapshot {
+    const source = html.replace(/<!--[\s\S]*?-->/g, '');
+
+    const jsonLd = [
+      ...source.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi),
+    ]
+      .filter(
+        ([, attributes]) =>
+          this.attributes(attributes)
+            .type?.split(';')[0]
+            .trim()
+            .toLowerCase() === 'application/ld+json',
+      )
+      .map(([, , body]) => body.trim());
+
+    const metaDescriptions = this.tags(source, 'meta')
+      .filter(attributes => attributes.name?.toLowerCase() === 'description')
+      .map(attributes => this.text(attributes.content ?? ''));
+    const canonicals = this.tags(source, 'link')
+      .filter(attributes =>
+        (attributes.rel ?? '').toLowerCase().split(/\s+/).includes('canonical'),
+      )
+      .map(attributes => this.text(attributes.href ?? ''));
+
+    const visible = this.strip(source, HIDDEN_ELEMENTS);
+    const title = visible.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+    const headings = [
+      ...visible.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi),
+    ].map(([, level, text]) => ({
+      level: parseInt(level, 10),
+      text: this.text(text),
+    }));
+
+    const body =
+      visible.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i)?.[1] ??
+      visible.replace(/<head\b[\s\S]*?<\/head\s*>/i, '');
+    const main = [
+      ...body.matchAll(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi),
+    ].map(([, , content]) => content);
+
+    return {
+      title: title ? this.text(title[1]) || null : null,
+      metaDescriptions,
+      canonicals,
+      headings,
+      jsonLd,
+      bodyWords: this.words(body),
+      contentWords: this.words(
+        this.strip(
+          main.length > 0 ? main.join(' ') : body,
+          BOILERPLATE_ELEMENTS,
+        ),
+      ),
+    };
+  }
+
+  /** Attributes of each start tag with the given name */
+  private tags(html: string, name: string): Record<string, string>[] {
+    return [...html.matchAll(new RegExp(`<${name}\\b([^>]*)>`, 'gi'))].map(
+      ([, attributes]) => this.attributes(attributes),
+    );
+  }
+
+  /** Attributes by lowercase name; the first of repeated attributes wins */
+  private attributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, ...values] of raw.matchAll(
+      /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g,
+    )) {
+      const key = name.toLowerCase();
+      if (!(key in attributes)) {
+        attributes[key] = values.find(value => value !== undefined) ?? '';
+      }
+    }
+    return attributes;
+  }
+
+  /** HTML without the given elements and their contents */
+  private strip(html: string, names: string[]): string {
+    return html.replace(
+      new RegExp(`<(${names.join('|')})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, 'gi'),
+      ' ',
+    );
+  }
+
+  /** Text of an HTML fragment, with entities resolved and spaces collapsed */
+  private text(html: string): string {
+    return html
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+          const point =
+            code[1].toLowerCase() === 'x'
+              ? parseInt(code.slice(2), 16)
+              : parseInt(code.slice(1), 10);
+          return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private words(html: string): number {
+    return this.text(html)
+      .split(' ')
+      .filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  }
+}
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AiReferralPlatform,
+  AiReferrerSignature,
+  ClassifiedReferrer,
+} from '../interfaces/ai-referral.interface';
+
+/**
+ * Referrers of AI assistants and answer engines. Hosts are the ones their
+ * chat interfaces link out from, past and present.
+ */
+export const AI_REFERRER_SIGNATURES: readonly AiReferrerSignature[] = [
+  {
+    platform: AiReferralPlatform.CHATGPT,
+    name: 'ChatGPT',
+    hosts: ['chatgpt.com', 'chat.openai.com'],
+    utmSources: ['chatgpt.com', 'chatgpt', 'openai'],
+  },
+  {
+    platform: AiReferralPlatform.PERPLEXITY,
+    name: 'Perplexity',
+    hosts: ['perplexity.ai'],
+    utmSources: ['perplexity', 'perplexity.ai'],
+  },
+  {
+    platform: AiReferralPlatform.COPILOT,
+    name: 'Microsoft Copilot',
+    hosts: ['copilot.microsoft.com', 'copilot.cloud.microsoft'],
+    utmSources: ['copilot', 'copilot.microsoft.com'],
+  },
+  {
+    platform: AiReferralPlatform.GEMINI,
+    name: 'Gemini',
+    hosts: ['gemini.google.com', 'bard.google.com'],
+    utmSources: ['gemini', 'gemini.google.com'],
+  },
+  {
+    platform: AiReferralPlatform.CLAUDE,
+    name: 'Claude',
+    hosts: ['claude.ai'],
+    utmSources: ['claude', 'claude.ai'],
+  },
+  {
+    platform: AiReferralPlatform.DEEPSEEK,
+    name: 'DeepSeek',
+    hosts: ['chat.deepseek.com'],
+    utmSources: ['deepseek'],
+  },
+  {
+    platform: AiReferralPlatform.META_AI,
+    name: 'Meta AI',
+    hosts: ['meta.ai'],
+    utmSources: ['meta.ai'],
+  },
+  {
+    platform: AiReferralPlatform.GROK,
+    name: 'Grok',
+    hosts: ['grok.com'],
+    utmSources: ['grok', 'grok.com'],
+  },
+  {
+    platform: AiReferralPlatform.MISTRAL,
+    name: 'Mistral Le Chat',
+    hosts: ['chat.mistral.ai'],
+    utmSources: ['mistral', 'chat.mistral.ai'],
+  },
+  {
+    platform: AiReferralPlatform.YOU,
+    name: 'You.com',
+    hosts: ['you.com'],
+    utmSources: ['you.com'],
+  },
+  {
+    platform: AiReferralPlatform.PHIND,
+    name: 'Phind',
+    hosts: ['phind.com'],
+    utmSources: ['phind', 'phind.com'],
+  },
+  {
+    platform: AiReferralPlatform.POE,
+    name: 'Poe',
+    hosts: ['poe.com'],
+    utmSources: ['poe', 'poe.com'],
+  },
+];
+
+/**
+ * Identifies visits that came from AI platforms by their referrer or the
+ * `utm_source` of the page they landed on
+ */
+@Injectable()
+export class ReferrerClassifier {
+  private readonly signatures = AI_REFERRER_SIGNATURES;
+
+  /**
+   * The AI platform a referrer belongs to
+   * @param referrer - A referrer URL, a host, or an analytics source such as
+   * "chatgpt.com / referral"
+   * @returns The platform and the known host the referrer matched, so
+   * subdomains such as "www.perplexity.ai" count as "perplexity.ai", or null
+   * for other referrers
+   */
+  classify(referrer: string | null | undefined): ClassifiedReferrer | null {
+    const host = this.host(referrer ?? '');
+    if (!host) {
+      return null;
+    }
+    for (const signature of this.signatures) {
+      const known = signature.hosts.find(
+        candidate => host === candidate || host.endsWith(`.${candidate}`),
+      );
+      if (known) {
+        return { platform: signature.platform, referrer: known };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The AI platform a landing page URL is tagged with through `utm_source`,
+   * e.g. "https://acme.com/?utm_source=chatgpt.com"
+   * @param url - Landing page URL
+   */
+  classifyLanding(url: string): ClassifiedReferrer | null {
+    let source: string | null = null;
+    try {
+      source = new URL(url).searchParams.get('utm_source');
+    } catch {
+      return null;
+    }
+    const value = source?.trim().toLowerCase();
+    if (!value) {
+      return null;
+    }
+    const signature = this.signatures.find(candidate =>
+      candidate.utmSources.includes(value),
+    );
+    return signature ? { platform: signature.platform, referrer: value } : null;
+  }
+
+  /**
+   * Lowercase host of a referrer, e.g. "https://www.perplexity.ai/search?q="
+   * and "perplexity.ai / referral" -> "www.perplexity.ai", "perplexity.ai"
+   */
+  private host(referrer: string): string | null {
+    const value = referrer.split(' / ')[0].trim().toLowerCase();
+    if (!value || value === '(direct)' || value === '(not set)') {
+      return null;
+    }
+    try {
+      return new URL(
+        /^[a-z][a-z\d+.-]*:\/\//.test(value) ? value : `https://${value}`,
+      ).hostname;
+    } catch {
+      return null;
+    }
+  }
+}
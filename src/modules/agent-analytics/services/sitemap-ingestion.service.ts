@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile, stat } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+import { AgentAnalyticsConfig } from '../../../config/agent-analytics.config';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import { BrandPageService } from '../../brands/services/brand-page.service';
+import { SitemapIngestionResult } from '../interfaces/crawl-coverage.interface';
+import { resolveDataFile } from '../utils/data-file.utils';
+import { CrawlCoverageService } from './crawl-coverage.service';
+
+const gunzipAsync = promisify(gunzip);
+
+/** Largest sitemap the sitemap protocol allows, uncompressed */
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Imports a brand's sitemaps, uploaded or from the ingestion directory, and
+ * publishes the crawl coverage they result in
+ */
+@Injectable()
+export class SitemapIngestionService {
+  private readonly dataDir: string;
+
+  constructor(
+    private readonly brandPageService: BrandPageService,
+    private readonly coverageService: CrawlCoverageService,
+    configService: ConfigService,
+  ) {
+    this.dataDir =
+      configService.get<AgentAnalyticsConfig>('agentAnalytics')?.ingestion
+        .dataDir ?? join(process.cwd(), 'data', 'agent-analytics');
+  }
+
+  /**
+   * Import an uploaded sitemap. The sitemaps a sitemap index lists are
+   * returned as missing, to be uploaded next.
+   * @param brandId - Brand ID
+   * @param xml - Sitemap or sitemap index XML
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the document is not a sitemap
+   */
+  async importXml(
+    brandId: string,
+    xml: string,
+  ): Promise<SitemapIngestionResult> {
+    const result = await this.brandPageService.importSitemap(brandId, xml);
+    await this.coverageService.publish(brandId, 'sitemap_imported');
+
+    return {
+      imported: result.imported,
+      skipped: result.skipped,
+      files: [],
+      missing: result.sitemaps,
+    };
+  }
+
+  /**
+   * Import a sitemap from the ingestion directory. For a sitemap index, the
+   * sitemaps it lists are read from files of the same name next to it,
+   * optionally gzipped.
+   * @param brandId - Brand ID
+   * @param fileName - Path of the sitemap, relative to the ingestion directory
+   * @throws {NotFoundError} When the brand or the file does not exist
+   * @throws {ValidationError} When the path leaves the ingestion directory,
+   * or a file is not a sitemap or larger than 50MB uncompressed
+   */
+  async importFile(
+    brandId: string,
+    fileName: string,
+  ): Promise<SitemapIngestionResult> {
+    const result: SitemapIngestionResult = {
+      imported: 0,
+      skipped: [],
+      files: [],
+      missing: [],
+    };
+
+    const index = await this.importOne(brandId, fileName, result);
+    for (const loc of index) {
+      const child = await this.findListedFile(dirname(fileName), loc);
+      if (!child) {
+        result.missing.push(loc);
+        continue;
+      }
+      // Indexes may not list other indexes, so their entries are not followed
+      result.missing.push(...(await this.importOne(brandId, child, result)));
+    }
+
+    await this.coverageService.publish(brandId, 'sitemap_imported');
+    return result;
+  }
+
+  /**
+   * Import one sitemap file into the result
+   * @returns The sitemaps the file lists, when it is an index
+   */
+  private async importOne(
+    brandId: string,
+    fileName: string,
+    result: SitemapIngestionResult,
+  ): Promise<string[]> {
+    const path = await resolveDataFile(this.dataDir, fileName, 'Sitemap');
+    const tooLarge = new ValidationError(
+      `Sitemap ${fileName} is larger than 50MB`,
+      { fileName },
+    );
+    if ((await stat(path)).size > MAX_SITEMAP_BYTES) {
+      throw tooLarge;
+    }
+
+    let raw = await readFile(path);
+    if (path.endsWith('.gz')) {
+      try {
+        raw = await gunzipAsync(raw, { maxOutputLength: MAX_SITEMAP_BYTES });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw tooLarge;
+        }
+        throw new ValidationError(`Sitemap ${fileName} is not valid gzip`, {
+          fileName,
+        });
+      }
+    }
+    const xml = raw.toString('utf8');
+
+    const imported = await this.brandPageService.importSitemap(brandId, xml);
+    result.imported += imported.imported;
+    result.skipped.push(...imported.skipped);
+    result.files.push(fileName);
+    return imported.sitemaps;
+  }
+
+  /** Local file for a sitemap an index lists, by the name in its URL */
+  private async findListedFile(
+    directory: string,
+    loc: string,
+  ): Promise<string | null> {
+    let name: string;
+    try {
+      name = basename(new URL(loc).pathname);
+    } catch {
+      name = basename(loc);
+    }
+    if (!name) {
+      return null;
+    }
+
+    const candidates = name.endsWith('.gz')
+      ? [name, name.slice(0, -3)]
+      : [name, `${name}.gz`];
+    for (const candidate of candidates) {
+      const fileName = join(directory, candidate);
+      try {
+        await resolveDataFile(this.dataDir, fileName, 'Sitemap');
+        return fileName;
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+    return null;
+  }
+}
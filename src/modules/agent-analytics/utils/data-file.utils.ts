@@ -0,0 +1,34 @@
+import { stat } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+
+/**
+ * Absolute path of a file inside the ingestion directory
+ * e.g. ("/data", "nginx/access.log") -> "/data/nginx/access.log"
+ * @param root - Ingestion directory
+ * @param fileName - Path of the file, relative to the directory
+ * @param label - What the file holds, for error messages, e.g. "Access log"
+ * @throws {ValidationError} When the path leaves the directory
+ * @throws {NotFoundError} When the file does not exist
+ */
+export async function resolveDataFile(
+  root: string,
+  fileName: string,
+  label: string,
+): Promise<string> {
+  const base = resolve(root);
+  const path = resolve(base, fileName);
+  const inside = relative(base, path);
+  if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+    throw new ValidationError(
+      `${label} must be a file inside the ingestion directory`,
+      { fileName },
+    );
+  }
+
+  const file = await stat(path).catch(() => null);
+  if (!file?.isFile()) {
+    throw new NotFoundError(`${label} ${fileName} not found`, { fileName });
+  }
+  return path;
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { PlatformConnectorRegistry } from './services/platform-connector.registry';
+
+@Module({
+  providers: [PlatformConnectorRegistry],
+  exports: [PlatformConnectorRegistry],
+})
+export class AiPlatformsModule {}
@@ -0,0 +1,114 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+import { AIPlatform } from '../../interfaces/platform-connector.interface';
+import { ReplayFixture } from '../../interfaces/replay-fixture.interface';
+import { normalizePrompt, ReplayConnector } from '../replay.connector';
+
+describe('ReplayConnector', () => {
+  const fixture: ReplayFixture = {
+    platform: AIPlatform.PERPLEXITY,
+    model: 'sonar',
+    modelVersion: '2024-11',
+    rateLimit: { maxRequests: 2, windowMs: 1000 },
+    answers: [
+      {
+        prompt: 'Best CRM for startups?',
+        text: 'Acme CRM is a great choice [1].',
+        citations: [{ url: 'https://acmecrm.com/', title: 'Acme CRM' }],
+      },
+    ],
+  };
+
+  it('should replay the recorded answer with citations and model metadata', async () => {
+    const connector = new ReplayConnector(fixture);
+
+    const answer = await connector.submitPrompt('  best crm   for STARTUPS ');
+
+    expect(answer).toMatchObject({
+      platform: AIPlatform.PERPLEXITY,
+      prompt: '  best crm   for STARTUPS ',
+      text: 'Acme CRM is a great choice [1].',
+      citations: [{ url: 'https://acmecrm.com/', title: 'Acme CRM' }],
+      model: 'sonar',
+      modelVersion: '2024-11',
+    });
+    expect(answer.receivedAt).toBeInstanceOf(Date);
+    expect(connector.metadata).toEqual({
+      platform: AIPlatform.PERPLEXITY,
+      model: 'sonar',
+      modelVersion: '2024-11',
+      source: 'replay',
+      rateLimit: { maxRequests: 2, windowMs: 1000 },
+    });
+  });
+
+  it('should fall back to the wildcard recording', async () => {
+    const connector = new ReplayConnector({
+      ...fixture,
+      answers: [...fixture.answers, { prompt: '*', text: 'Generic answer' }],
+    });
+
+    const answer = await connector.submitPrompt('Something else entirely');
+
+    expect(answer.text).toBe('Generic answer');
+    expect(answer.citations).toEqual([]);
+  });
+
+  it('should throw NotFoundError when nothing was recorded', async () => {
+    const connector = new ReplayConnector(fixture);
+
+    await expect(connector.submitPrompt('Unknown prompt')).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+
+  it('should reject fixtures for unknown platforms', () => {
+    expect(
+      () =>
+        new ReplayConnector({
+          ...fixture,
+          platform: 'altavista' as AIPlatform,
+        }),
+    ).toThrow(ValidationError);
+  });
+
+  describe('fromFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'replay-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load a fixture file', async () => {
+      const path = join(dir, 'perplexity.json');
+      await writeFile(path, JSON.stringify(fixture));
+
+      const connector = await ReplayConnector.fromFile(path);
+
+      expect(connector.metadata.platform).toBe(AIPlatform.PERPLEXITY);
+    });
+
+    it('should reject files that are not JSON', async () => {
+      const path = join(dir, 'broken.json');
+      await writeFile(path, '{ not json');
+
+      await expect(ReplayConnector.fromFile(path)).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe('normalizePrompt', () => {
+    it('should ignore case, repeated whitespace and trailing punctuation', () => {
+      expect(normalizePrompt('  What is   the BEST crm?! ')).toBe(
+        'what is the best crm',
+      );
+    });
+  });
+});
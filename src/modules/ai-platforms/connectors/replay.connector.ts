@@ -0,0 +1,112 @@
+import { readFile } from 'fs/promises';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import {
+  AIPlatform,
+  AIPlatformConnector,
+  ConnectorMetadata,
+  PlatformAnswer,
+  RateLimit,
+} from '../interfaces/platform-connector.interface';
+import {
+  RecordedAnswer,
+  ReplayFixture,
+} from '../interfaces/replay-fixture.interface';
+
+/** Prompt that matches anything without a recording of its own */
+const WILDCARD_PROMPT = '*';
+
+/** Replayed answers are free, so the budget only guards runaway loops */
+const DEFAULT_RATE_LIMIT: RateLimit = { maxRequests: 600, windowMs: 60_000 };
+
+/**
+ * Normalizes a prompt so recordings match regardless of case, spacing and
+ * trailing punctuation
+ */
+export const normalizePrompt = (prompt: string): string =>
+  prompt
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[?.!\s]+$/, '');
+
+/**
+ * Offline connector that serves recorded answers, so the tracking pipeline
+ * can run without network access or API keys
+ */
+export class ReplayConnector implements AIPlatformConnector {
+  readonly metadata: ConnectorMetadata;
+  private readonly answers = new Map<string, RecordedAnswer>();
+
+  constructor(fixture: ReplayFixture) {
+    if (!(Object.values(AIPlatform) as string[]).includes(fixture.platform)) {
+      throw new ValidationError(
+        `Unknown platform in replay fixture: ${fixture.platform}`,
+        { platform: fixture.platform },
+      );
+    }
+    if (!Array.isArray(fixture.answers)) {
+      throw new ValidationError('Replay fixture must contain an answers list', {
+        platform: fixture.platform,
+      });
+    }
+
+    this.metadata = {
+      platform: fixture.platform,
+      model: fixture.model,
+      modelVersion: fixture.modelVersion,
+      source: 'replay',
+      rateLimit: fixture.rateLimit ?? DEFAULT_RATE_LIMIT,
+    };
+
+    for (const answer of fixture.answers) {
+      this.answers.set(normalizePrompt(answer.prompt), answer);
+    }
+  }
+
+  /**
+   * Loads a connector from a JSON fixture file
+   * @param path Path to the fixture
+   * @throws ValidationError if the file is not a valid fixture
+   */
+  static async fromFile(path: string): Promise<ReplayConnector> {
+    const raw = await readFile(path, 'utf8');
+    let fixture: ReplayFixture;
+    try {
+      fixture = JSON.parse(raw) as ReplayFixture;
+    } catch (error) {
+      throw new ValidationError(`Replay fixture is not valid JSON: ${path}`, {
+        path,
+      });
+    }
+    return new ReplayConnector(fixture);
+  }
+
+  /**
+   * Returns the recorded answer for a prompt
+   * @throws NotFoundError if nothing was recorded for the prompt
+   */
+  async submitPrompt(prompt: string): Promise<PlatformAnswer> {
+    const startedAt = Date.now();
+    const recorded =
+      this.answers.get(normalizePrompt(prompt)) ??
+      this.answers.get(WILDCARD_PROMPT);
+
+    if (!recorded) {
+      throw new NotFoundError(
+        `No recorded ${this.metadata.platform} answer for prompt`,
+        { platform: this.metadata.platform, prompt },
+      );
+    }
+
+    return {
+      platform: this.metadata.platform,
+      prompt,
+      text: recorded.text,
+      citations: (recorded.citations ?? []).map(citation => ({ ...citation })),
+      model: this.metadata.model,
+      modelVersion: this.metadata.modelVersion,
+      receivedAt: new Date(),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * AI platforms whose answers are tracked
+ */
+export enum AIPlatform {
+  CHATGPT = 'chatgpt',
+  PERPLEXITY = 'perplexity',
+  COPILOT = 'copilot',
+  GEMINI = 'gemini',
+}
+
+/**
+ * A URL cited by an AI platform in support of its answer
+ */
+export interface CitedUrl {
+  url: string;
+  title?: string;
+}
+
+/**
+ * Request-rate budget a connector must stay within
+ */
+export interface RateLimit {
+  /** Maximum prompts per rolling window */
+  maxRequests: number;
+
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Static description of a connector
+ */
+export interface ConnectorMetadata {
+  platform: AIPlatform;
+
+  /** Model the platform answers with, e.g. "gpt-4o" */
+  model: string;
+
+  /** Model snapshot or API version, when the platform exposes one */
+  modelVersion?: string;
+
+  /** Connector implementation, e.g. "replay" or "live" */
+  source: string;
+
+  rateLimit: RateLimit;
+}
+
+/**
+ * Options for a single prompt submission
+ */
+export interface PromptOptions {
+  language?: string;
+  region?: string;
+}
+
+/**
+ * An answer returned by an AI platform for a prompt
+ */
+export interface PlatformAnswer {
+  platform: AIPlatform;
+  prompt: string;
+  text: string;
+  citations: CitedUrl[];
+  model: string;
+  modelVersion?: string;
+  receivedAt: Date;
+  latencyMs: number;
+}
+
+/**
+ * Contract every AI platform connector implements
+ */
+export interface AIPlatformConnector {
+  readonly metadata: ConnectorMetadata;
+
+  submitPrompt(
+    prompt: string,
+    options?: PromptOptions,
+  ): Promise<PlatformAnswer>;
+}
@@ -0,0 +1,26 @@
+import {
+  AIPlatform,
+  CitedUrl,
+  RateLimit,
+} from './platform-connector.interface';
+
+/**
+ * A single recorded answer. A prompt of "*" matches any prompt that has no
+ * recording of its own.
+ */
+export interface RecordedAnswer {
+  prompt: string;
+  text: string;
+  citations?: CitedUrl[];
+}
+
+/**
+ * Contents of a replay fixture file, one per platform
+ */
+export interface ReplayFixture {
+  platform: AIPlatform;
+  model: string;
+  modelVersion?: string;
+  rateLimit?: RateLimit;
+  answers: RecordedAnswer[];
+}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { NotFoundError, RateLimitError } from '../../../../shared/errors';
+import { AiPlatformsConfig } from '../../../../config/ai-platforms.config';
+import { ReplayConnector } from '../../connectors/replay.connector';
+import { AIPlatform } from '../../interfaces/platform-connector.interface';
+import { PlatformConnectorRegistry } from '../platform-connector.registry';
+
+const FIXTURES_DIR = join(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  '..',
+  '..',
+  'fixtures',
+  'ai-platforms',
+);
+
+describe('PlatformConnectorRegistry', () => {
+  let registry: PlatformConnectorRegistry;
+  let config: AiPlatformsConfig;
+
+  beforeEach(async () => {
+    config = {
+      enabled: [AIPlatform.CHATGPT, AIPlatform.PERPLEXITY, AIPlatform.GEMINI],
+      replay: { fixturesDir: FIXTURES_DIR },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlatformConnectorRegistry,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => config) },
+        },
+      ],
+    }).compile();
+
+    registry = module.get(PlatformConnectorRegistry);
+    await registry.onModuleInit();
+  });
+
+  it('should load replay connectors for enabled platforms with fixtures', () => {
+    expect(registry.has(AIPlatform.CHATGPT)).toBe(true);
+    expect(registry.has(AIPlatform.PERPLEXITY)).toBe(true);
+    // Enabled, but no fixture shipped
+    expect(registry.has(AIPlatform.GEMINI)).toBe(false);
+    // Fixture shipped, but not enabled
+    expect(registry.has(AIPlatform.COPILOT)).toBe(false);
+    expect(registry.list().map(metadata => metadata.source)).toEqual([
+      'replay',
+      'replay',
+    ]);
+  });
+
+  it('should submit prompts through the registered connector', async () => {
+    const answer = await registry.submitPrompt(
+      AIPlatform.PERPLEXITY,
+      'What is the best CRM for startups?',
+    );
+
+    expect(answer.platform).toBe(AIPlatform.PERPLEXITY);
+    expect(answer.text).toContain('Acme CRM');
+    expect(answer.citations.length).toBeGreaterThan(0);
+  });
+
+  it('should throw NotFoundError for platforms without a connector', async () => {
+    await expect(
+      registry.submitPrompt(AIPlatform.GEMINI, 'Anything'),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should replace a connector registered for the same platform', async () => {
+    registry.register(
+      new ReplayConnector({
+        platform: AIPlatform.CHATGPT,
+        model: 'gpt-4o-mini',
+        answers: [{ prompt: '*', text: 'Overridden' }],
+      }),
+    );
+
+    const answer = await registry.submitPrompt(AIPlatform.CHATGPT, 'Hi');
+
+    expect(answer.text).toBe('Overridden');
+    expect(registry.get(AIPlatform.CHATGPT).metadata.model).toBe('gpt-4o-mini');
+  });
+
+  it('should enforce the connector rate limit', async () => {
+    registry.register(
+      new ReplayConnector({
+        platform: AIPlatform.COPILOT,
+        model: 'gpt-4-turbo',
+        rateLimit: { maxRequests: 2, windowMs: 60_000 },
+        answers: [{ prompt: '*', text: 'Answer' }],
+      }),
+    );
+
+    await registry.submitPrompt(AIPlatform.COPILOT, 'one');
+    await registry.submitPrompt(AIPlatform.COPILOT, 'two');
+
+    await expect(
+      registry.submitPrompt(AIPlatform.COPILOT, 'three'),
+    ).rejects.toThrow(RateLimitError);
+  });
+});
@@ -0,0 +1,122 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { NotFoundError, RateLimitError } from '../../../shared/errors';
+import { AiPlatformsConfig } from '../../../config/ai-platforms.config';
+import { ReplayConnector } from '../connectors/replay.connector';
+import {
+  AIPlatform,
+  AIPlatformConnector,
+  ConnectorMetadata,
+  PlatformAnswer,
+  PromptOptions,
+} from '../interfaces/platform-connector.interface';
+
+/**
+ * Holds one connector per AI platform and enforces each connector's rate
+ * limit. Live connectors register themselves with `register`; enabled
+ * platforms without one fall back to a replay connector when a fixture for
+ * them exists.
+ */
+@Injectable()
+export class PlatformConnectorRegistry implements OnModuleInit {
+  private readonly logger = new Logger(PlatformConnectorRegistry.name);
+  private readonly connectors = new Map<AIPlatform, AIPlatformConnector>();
+  private readonly requestLog = new Map<AIPlatform, number[]>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const config = this.configService.get<AiPlatformsConfig>('aiPlatforms');
+    if (!config) {
+      return;
+    }
+
+    for (const platform of config.enabled) {
+      if (this.connectors.has(platform)) {
+        continue;
+      }
+      const path = join(config.replay.fixturesDir, `${platform}.json`);
+      if (!existsSync(path)) {
+        this.logger.warn(`No connector available for ${platform}`);
+        continue;
+      }
+      try {
+        this.register(await ReplayConnector.fromFile(path));
+      } catch (error) {
+        this.logger.error(
+          `Failed to load replay fixture for ${platform}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Registers a connector, replacing any existing one for the same platform
+   */
+  register(connector: AIPlatformConnector): void {
+    const { platform, source, model } = connector.metadata;
+    this.connectors.set(platform, connector);
+    this.requestLog.delete(platform);
+    this.logger.log(
+      `Registered ${source} connector for ${platform} (${model})`,
+    );
+  }
+
+  has(platform: AIPlatform): boolean {
+    return this.connectors.has(platform);
+  }
+
+  /**
+   * @throws NotFoundError if no connector is registered for the platform
+   */
+  get(platform: AIPlatform): AIPlatformConnector {
+    const connector = this.connectors.get(platform);
+    if (!connector) {
+      throw new NotFoundError(`No connector registered for ${platform}`, {
+        platform,
+      });
+    }
+    return connector;
+  }
+
+  list(): ConnectorMetadata[] {
+    return Array.from(this.connectors.values()).map(
+      connector => connector.metadata,
+    );
+  }
+
+  /**
+   * Submits a prompt to a platform within its rate limit
+   * @throws NotFoundError if no connector is registered for the platform
+   * @throws RateLimitError if the platform's request budget is used up
+   */
+  async submitPrompt(
+    platform: AIPlatform,
+    prompt: string,
+    options?: PromptOptions,
+  ): Promise<PlatformAnswer> {
+    const connector = this.get(platform);
+    this.consumeRequest(connector.metadata);
+    return connector.submitPrompt(prompt, options);
+  }
+
+  private consumeRequest({ platform, rateLimit }: ConnectorMetadata): void {
+    const now = Date.now();
+    const windowStart = now - rateLimit.windowMs;
+    const requests = (this.requestLog.get(platform) ?? []).filter(
+      timestamp => timestamp > windowStart,
+    );
+
+    if (requests.length >= rateLimit.maxRequests) {
+      throw new RateLimitError(`Rate limit exceeded for ${platform}`, {
+        platform,
+        retryAfterMs: requests[0] + rateLimit.windowMs - now,
+      });
+    }
+
+    requests.push(now);
+    this.requestLog.set(platform, requests);
+  }
+}
@@ -0,0 +1,113 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../../auth/auth.module';
+import { CacheModule } from '../../cache/cache.module';
+import { BrandsModule } from '../brands/brands.module';
+import { AiPlatformsModule } from '../ai-platforms/ai-platforms.module';
+import { RealTimeModule } from '../real-time/real-time.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ConversationExplorerModule } from '../conversation-explorer/conversation-explorer.module';
+import { PubSubModule } from './graphql/pubsub.module';
+import { AnswerResolver } from './graphql/answer.resolver';
+import { CitationResolver } from './graphql/citation.resolver';
+import { ShareOfVoiceResolver } from './graphql/share-of-voice.resolver';
+import { VisibilityScoreResolver } from './graphql/visibility-score.resolver';
+import { AlertResolver } from './graphql/alert.resolver';
+import { TopicGapResolver } from './graphql/topic-gap.resolver';
+import { TopicGapController } from './controllers/topic-gap.controller';
+import { BrandMentionEntity } from './entities/brand-mention.entity';
+import { PromptRunEntity } from './entities/prompt-run.entity';
+import { AIAnswerEntity } from './entities/ai-answer.entity';
+import { CitationEntity } from './entities/citation.entity';
+import { AnalyticsMetricEntity } from './entities/analytics-metric.entity';
+import { VisibilityWeightsEntity } from './entities/visibility-weights.entity';
+import { AlertRuleEntity } from './entities/alert-rule.entity';
+import { AlertEntity } from './entities/alert.entity';
+import { BrandMentionService } from './services/brand-mention.service';
+import { BrandHealthService } from './services/brand-health.service';
+import { PromptTrackingService } from './services/prompt-tracking.service';
+import { CitationService } from './services/citation.service';
+import { CitationAuthorityService } from './services/citation-authority.service';
+import { ShareOfVoiceService } from './services/share-of-voice.service';
+import { TopicGapService } from './services/topic-gap.service';
+import { PromptTrackingScheduler } from './services/prompt-tracking.scheduler';
+import { VisibilityScoreCalculator } from './services/visibility/visibility-score.calculator';
+import { VisibilityWeightsService } from './services/visibility/visibility-weights.service';
+import { VisibilityScoreService } from './services/visibility/visibility-score.service';
+import { VisibilityScoreScheduler } from './services/visibility/visibility-score.scheduler';
+import { AlertRuleService } from './services/alerts/alert-rule.service';
+import { AlertService } from './services/alerts/alert.service';
+import { AlertEvaluatorService } from './services/alerts/alert-evaluator.service';
+import { MentionExtractor } from './services/extraction/mention-extractor';
+import { MentionExtractionService } from './services/extraction/mention-extraction.service';
+import { LexiconSentimentAnalyzer } from './services/sentiment/lexicon-sentiment.analyzer';
+import { sentimentAnalyzerProvider } from './services/sentiment/sentiment-analyzer.provider';
+import { SENTIMENT_ANALYZER } from './interfaces/sentiment-analysis.interface';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BrandMentionEntity,
+      PromptRunEntity,
+      AIAnswerEntity,
+      CitationEntity,
+      AnalyticsMetricEntity,
+      VisibilityWeightsEntity,
+      AlertRuleEntity,
+      AlertEntity,
+    ]),
+    AuthModule,
+    CacheModule,
+    BrandsModule,
+    AiPlatformsModule,
+    RealTimeModule,
+    NotificationsModule,
+    ConversationExplorerModule,
+    PubSubModule,
+  ],
+  controllers: [TopicGapController],
+  providers: [
+    AnswerResolver,
+    CitationResolver,
+    ShareOfVoiceResolver,
+    VisibilityScoreResolver,
+    AlertResolver,
+    TopicGapResolver,
+    BrandMentionService,
+    BrandHealthService,
+    CitationService,
+    CitationAuthorityService,
+    ShareOfVoiceService,
+    TopicGapService,
+    PromptTrackingService,
+    PromptTrackingScheduler,
+    VisibilityScoreCalculator,
+    VisibilityWeightsService,
+    VisibilityScoreService,
+    VisibilityScoreScheduler,
+    AlertRuleService,
+    AlertService,
+    AlertEvaluatorService,
+    MentionExtractor,
+    MentionExtractionService,
+    LexiconSentimentAnalyzer,
+    sentimentAnalyzerProvider,
+  ],
+  exports: [
+    BrandMentionService,
+    BrandHealthService,
+    PromptTrackingService,
+    MentionExtractionService,
+    CitationService,
+    CitationAuthorityService,
+    ShareOfVoiceService,
+    TopicGapService,
+    VisibilityScoreService,
+    VisibilityWeightsService,
+    AlertRuleService,
+    AlertService,
+    AlertEvaluatorService,
+    SENTIMENT_ANALYZER,
+  ],
+})
+export class AnswerEngineModule {}
@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { TopicGapService } from '../services/topic-gap.service';
+import { TopicGapExportQueryDto } from '../dto/topic-gap.dto';
+
+@ApiTags('topic-gaps')
+@Controller('brands/:brandId/topic-gaps')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.VIEW_ANALYTICS)
+@ApiBearerAuth()
+export class TopicGapController {
+  constructor(
+    private readonly topicGapService: TopicGapService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Get('export')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="topic-gaps.csv"')
+  @ApiOperation({ summary: 'Export the topic gap report as CSV' })
+  @ApiParam({ name: 'brandId', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Topic gaps, one row per topic' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async export(
+    @Param('brandId', ParseUUIDPipe) brandId: string,
+    @Query() query: TopicGapExportQueryDto,
+  ): Promise<string> {
+    await this.brandService.assertExists(brandId);
+    return this.topicGapService.exportCsv(
+      brandId,
+      query.startDate,
+      query.endDate,
+      { includeCovered: query.includeCovered, limit: query.limit },
+    );
+  }
+}
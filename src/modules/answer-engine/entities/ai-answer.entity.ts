@@ -0,0 +1,54 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { CitedUrl } from '../../ai-platforms/interfaces/platform-connector.interface';
+import { PromptRunEntity } from './prompt-run.entity';
+
+/**
+ * Raw answer returned by an AI platform for a tracked prompt
+ */
+@Entity('ai_answers')
+@Index('IDX_ai_answers_brand_received_at', ['brandId', 'receivedAt'])
+export class AIAnswerEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_ai_answers_run')
+  runId: string;
+
+  @ManyToOne(() => PromptRunEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'runId', foreignKeyConstraintName: 'FK_ai_answers_run' })
+  run?: PromptRunEntity;
+
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_ai_answers_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 50 })
+  platform: string;
+
+  @Column('text')
+  prompt: string;
+
+  @Column('text')
+  text: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  citations: CitedUrl[];
+
+  @Column({ length: 100 })
+  model: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  modelVersion: string | null;
+
+  @Column({ type: 'timestamptz' })
+  receivedAt: Date;
+
+  @Column({ type: 'int' })
+  latencyMs: number;
+}
@@ -0,0 +1,60 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { CompetitorSetEntity } from '../../brands/entities/competitor-set.entity';
+import { AlertDirection, AlertMetric } from '../interfaces/alert.interface';
+
+/**
+ * A condition on a brand metric that raises an alert when it is met
+ */
+@Entity('alert_rules')
+export class AlertRuleEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_alert_rules_brand')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_alert_rules_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  metric: AlertMetric;
+
+  @Column({ type: 'varchar', length: 10 })
+  direction: AlertDirection;
+
+  @Column({ type: 'float' })
+  threshold: number;
+
+  @Column({ type: 'int' })
+  windowDays: number;
+
+  @Column({ type: 'int' })
+  minMentions: number;
+
+  @Column({ type: 'int' })
+  cooldownMinutes: number;
+
+  /** Competitors to measure share of voice against; all when null */
+  @Column({ type: 'uuid', nullable: true })
+  competitorSetId: string | null;
+
+  @ManyToOne(() => CompetitorSetEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'competitorSetId',
+    foreignKeyConstraintName: 'FK_alert_rules_competitor_set',
+  })
+  competitorSet?: CompetitorSetEntity;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastTriggeredAt: Date | null;
+}
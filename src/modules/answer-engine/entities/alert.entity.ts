@@ -0,0 +1,78 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { AlertRuleEntity } from './alert-rule.entity';
+import {
+  AlertDirection,
+  AlertMetric,
+  AlertStatus,
+} from '../interfaces/alert.interface';
+
+/**
+ * An alert raised when a rule fired, with the values that fired it
+ */
+@Entity('alerts')
+@Index('IDX_alerts_brand_triggered_at', ['brandId', 'triggeredAt'])
+export class AlertEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_alerts_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column('uuid')
+  @Index('IDX_alerts_rule')
+  ruleId: string;
+
+  @ManyToOne(() => AlertRuleEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'ruleId',
+    foreignKeyConstraintName: 'FK_alerts_rule',
+  })
+  rule?: AlertRuleEntity;
+
+  @Column({ type: 'varchar', length: 50 })
+  metric: AlertMetric;
+
+  @Column({ type: 'varchar', length: 10 })
+  direction: AlertDirection;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: AlertStatus;
+
+  /** Threshold of the rule at the time it fired */
+  @Column({ type: 'float' })
+  threshold: number;
+
+  @Column({ type: 'float' })
+  previousValue: number;
+
+  @Column({ type: 'float' })
+  currentValue: number;
+
+  @Column({ type: 'float' })
+  change: number;
+
+  @Column({ type: 'int' })
+  mentionCount: number;
+
+  /** Start of the current comparison window */
+  @Column({ type: 'timestamptz' })
+  windowStart: Date;
+
+  @Column({ type: 'timestamptz' })
+  windowEnd: Date;
+
+  @Column({ type: 'timestamptz' })
+  triggeredAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  acknowledgedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolvedAt: Date | null;
+}
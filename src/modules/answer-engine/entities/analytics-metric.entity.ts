@@ -0,0 +1,42 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { AnalyticsMetricType } from '../interfaces/analytics-metric.interface';
+
+/**
+ * A metric value calculated for a brand over a period. One row is kept per
+ * brand, metric type and period end.
+ */
+@Entity('analytics_metrics')
+@Index(
+  'IDX_analytics_metrics_brand_type_period_end',
+  ['brandId', 'metricType', 'periodEnd'],
+  { unique: true },
+)
+export class AnalyticsMetricEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_analytics_metrics_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ type: 'varchar', length: 50 })
+  metricType: AnalyticsMetricType;
+
+  @Column({ type: 'float' })
+  value: number;
+
+  @Column({ type: 'timestamptz' })
+  periodStart: Date;
+
+  @Column({ type: 'timestamptz' })
+  periodEnd: Date;
+
+  /** Metric-specific detail, e.g. the components behind a visibility score */
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null;
+}
@@ -0,0 +1,73 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { AIAnswerEntity } from './ai-answer.entity';
+import {
+  MentionContext,
+  SentimentDetails,
+} from '../interfaces/brand-mention.interface';
+
+/**
+ * A single occurrence of a brand in content produced by an AI platform
+ */
+@Entity('brand_mentions')
+@Index('IDX_brand_mentions_brand_mentioned_at', ['brandId', 'mentionedAt'])
+export class BrandMentionEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_brand_mentions_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 50 })
+  platform: string;
+
+  @Column('text')
+  content: string;
+
+  @Column({ type: 'float', nullable: true })
+  sentiment: number | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  sentimentDetails: SentimentDetails | null;
+
+  @Column({ type: 'timestamptz' })
+  mentionedAt: Date;
+
+  @Column({ type: 'jsonb', nullable: true })
+  context: MentionContext | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  @Index('IDX_brand_mentions_answer')
+  answerId: string | null;
+
+  @ManyToOne(() => AIAnswerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'answerId',
+    foreignKeyConstraintName: 'FK_brand_mentions_answer',
+  })
+  answer?: AIAnswerEntity;
+
+  /** Name of the competitor mentioned, or null when the brand itself is */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  competitor: string | null;
+
+  /** Text as it appeared in the answer, e.g. "Acme's" */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  matchedText: string | null;
+
+  /** Character offsets of the match within the answer */
+  @Column({ type: 'int', nullable: true })
+  startOffset: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  endOffset: number | null;
+
+  /** Position of the list item containing the mention, for list answers */
+  @Column({ type: 'int', nullable: true })
+  rankPosition: number | null;
+}
@@ -0,0 +1,60 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { AIAnswerEntity } from './ai-answer.entity';
+import { CitationOwnership } from '../interfaces/citation.interface';
+
+/**
+ * A URL cited by an AI platform in an answer collected for a brand
+ */
+@Entity('citations')
+@Index('IDX_citations_brand_domain_cited_at', ['brandId', 'domain', 'citedAt'])
+export class CitationEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_citations_answer')
+  answerId: string;
+
+  @ManyToOne(() => AIAnswerEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'answerId',
+    foreignKeyConstraintName: 'FK_citations_answer',
+  })
+  answer?: AIAnswerEntity;
+
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_citations_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 50 })
+  platform: string;
+
+  @Column('text')
+  url: string;
+
+  /** Normalized domain, e.g. "example.com" */
+  @Column({ length: 255 })
+  domain: string;
+
+  @Column({ type: 'text', nullable: true })
+  title: string | null;
+
+  /** 1-based position in the answer's list of sources */
+  @Column({ type: 'int' })
+  position: number;
+
+  /** Ownership at the time the answer was collected */
+  @Column({ type: 'varchar', length: 20 })
+  ownership: CitationOwnership;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  competitor: string | null;
+
+  @Column({ type: 'timestamptz' })
+  citedAt: Date;
+}
@@ -0,0 +1,45 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  PromptRunError,
+  PromptRunStatus,
+} from '../interfaces/prompt-run.interface';
+
+/**
+ * One execution of a brand's tracked prompts against the enabled platforms
+ */
+@Entity('prompt_runs')
+@Index('IDX_prompt_runs_brand_started_at', ['brandId', 'startedAt'])
+export class PromptRunEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_prompt_runs_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: PromptRunStatus;
+
+  @Column({ type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  completedAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  promptCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  answerCount: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  errors: PromptRunError[];
+}
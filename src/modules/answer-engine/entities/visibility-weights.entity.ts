@@ -0,0 +1,21 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+
+/**
+ * Visibility score component weights configured for an organization
+ */
+@Entity('visibility_weights')
+export class VisibilityWeightsEntity extends BaseEntity {
+  @Index('IDX_visibility_weights_organization', { unique: true })
+  @Column({ length: 255 })
+  organizationId: string;
+
+  @Column({ type: 'float' })
+  mentions: number;
+
+  @Column({ type: 'float' })
+  sentiment: number;
+
+  @Column({ type: 'float' })
+  authority: number;
+}
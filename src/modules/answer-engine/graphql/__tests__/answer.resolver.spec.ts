@@ -1,5 +1,22 @@
 import { Test } from '@nestjs/testing';
 import { AnswerResolver } from '../answer.resolver';
+import { BrandMention } from '../answer.types';
+import { BrandMentionService } from '../../services/brand-mention.service';
+import { BrandMentionEntity } from '../../entities/brand-mention.entity';
+import { CreateBrandMention } from '../../interfaces/brand-mention.interface';
+import { JwtService } from '../../../../auth/services/jwt.service';
+import { BrandHealthService } from '../../services/brand-health.service';
+import { CitationService } from '../../services/citation.service';
+import { CitationOwnership } from '../../interfaces/citation.interface';
+import { TrendGranularity } from '../../interfaces/brand-health.interface';
+import {
+  SENTIMENT_ANALYZER,
+  SentimentLabel,
+} from '../../interfaces/sentiment-analysis.interface';
+import { LexiconSentimentAnalyzer } from '../../services/sentiment/lexicon-sentiment.analyzer';
+import { BrandService } from '../../../brands/services/brand.service';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { NotFoundError } from '../../../../shared/errors';
 
 interface PubSubPayload {
   brandMentionAdded: BrandMention;
@@ -67,12 +84,59 @@ class MockPubSub {
   }
 }
 
+class InMemoryBrandMentionService {
+  private mentions: BrandMentionEntity[] = [];
+
+  async recordMention(data: CreateBrandMention): Promise<BrandMentionEntity> {
+    const now = new Date();
+    const mention = {
+      id: `mention-${this.mentions.length + 1}`,
+      brandId: data.brandId,
+      platform: data.platform || 'manual',
+      content: data.content,
+      sentiment: data.sentiment ?? null,
+      sentimentDetails: data.sentimentDetails ?? null,
+      context: data.context ?? null,
+      mentionedAt: data.mentionedAt ?? now,
+      createdAt: now,
+      updatedAt: now,
+    } as BrandMentionEntity;
+    this.mentions.push(mention);
+    return mention;
+  }
+
+  async findByBrand(brandId?: string): Promise<BrandMentionEntity[]> {
+    return this.mentions.filter(m => !brandId || m.brandId === brandId);
+  }
+}
+
 describe('AnswerResolver', () => {
   let resolver: AnswerResolver;
   let pubSub: MockPubSub;
+  let brandHealthService: { getBrandHealth: jest.Mock };
+  let brandService: { assertExists: jest.Mock };
+  let citationService: { findByAnswer: jest.Mock };
+  let analyticsGateway: { emitMentionNew: jest.Mock };
 
   beforeEach(async () => {
     pubSub = new MockPubSub();
+    analyticsGateway = { emitMentionNew: jest.fn() };
+    brandService = { assertExists: jest.fn().mockResolvedValue(undefined) };
+    citationService = { findByAnswer: jest.fn().mockResolvedValue([]) };
+    brandHealthService = {
+      getBrandHealth: jest.fn().mockResolvedValue({
+        overallSentiment: 0.4,
+        mentionCount: 3,
+        trend: [
+          {
+            date: new Date('2025-03-01T00:00:00Z'),
+            sentiment: 0.4,
+            mentionCount: 3,
+            scoredCount: 3,
+          },
+        ],
+      }),
+    };
 
     const module = await Test.createTestingModule({
       providers: [
@@ -81,6 +145,34 @@ describe('AnswerResolver', () => {
           provide: 'PUB_SUB',
           useValue: pubSub,
         },
+        {
+          provide: BrandMentionService,
+          useValue: new InMemoryBrandMentionService(),
+        },
+        {
+          provide: SENTIMENT_ANALYZER,
+          useClass: LexiconSentimentAnalyzer,
+        },
+        {
+          provide: BrandHealthService,
+          useValue: brandHealthService,
+        },
+        {
+          provide: BrandService,
+          useValue: brandService,
+        },
+        {
+          provide: CitationService,
+          useValue: citationService,
+        },
+        {
+          provide: JwtService,
+          useValue: { verifyToken: jest.fn() },
+        },
+        {
+          provide: AnalyticsGateway,
+          useValue: analyticsGateway,
+        },
       ],
     }).compile();
 
@@ -115,28 +207,64 @@ describe('AnswerResolver', () => {
     });
   });
 
+  describe('unknown brands', () => {
+    beforeEach(() => {
+      brandService.assertExists.mockRejectedValue(
+        new NotFoundError('Brand with id missing-brand not found'),
+      );
+    });
+
+    it('should reject mentions for an unknown brand', async () => {
+      await expect(
+        resolver.analyzeContent({ brandId: 'missing-brand', content: 'x' }),
+      ).rejects.toThrow(NotFoundError);
+      await expect(resolver.brandMentions('missing-brand')).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    it('should reject health queries for an unknown brand', async () => {
+      await expect(
+        resolver.brandHealth({
+          brandId: 'missing-brand',
+          startDate: new Date(),
+          endDate: new Date(),
+        }),
+      ).rejects.toThrow(NotFoundError);
+      expect(brandHealthService.getBrandHealth).not.toHaveBeenCalled();
+    });
+  });
+
   describe('brandHealth', () => {
-    it('should return brand health metrics', async () => {
+    it('should return aggregated brand health metrics', async () => {
       // Arrange
       const input = {
         brandId: 'test-brand',
-        startDate: new Date(),
-        endDate: new Date(),
+        startDate: new Date('2025-03-01T00:00:00Z'),
+        endDate: new Date('2025-03-31T00:00:00Z'),
+        granularity: TrendGranularity.WEEK,
       };
 
       // Act
       const result = await resolver.brandHealth(input);
 
       // Assert
+      expect(brandHealthService.getBrandHealth).toHaveBeenCalledWith(
+        input.brandId,
+        input.startDate,
+        input.endDate,
+        TrendGranularity.WEEK,
+      );
       expect(result).toMatchObject({
-        overallSentiment: expect.any(Number),
+        overallSentiment: 0.4,
         trend: expect.arrayContaining([
           expect.objectContaining({
             date: expect.any(Date),
             sentiment: expect.any(Number),
+            mentionCount: 3,
           }),
         ]),
-        mentionCount: expect.any(Number),
+        mentionCount: 3,
       });
     });
   });
@@ -165,6 +293,26 @@ describe('AnswerResolver', () => {
       });
     });
 
+    it('should explain the sentiment score', async () => {
+      // Act
+      const result = await resolver.analyzeContent({
+        brandId: 'test-brand',
+        content: 'Support was not helpful and the app is really buggy.',
+      });
+
+      // Assert
+      expect(result.sentiment).toBeLessThan(0);
+      expect(result.sentimentAnalysis).toMatchObject({
+        score: result.sentiment,
+        label: SentimentLabel.NEGATIVE,
+        confidence: expect.any(Number),
+        analyzer: 'lexicon',
+      });
+      expect(result.sentimentAnalysis?.spans.map(span => span.text)).toEqual(
+        expect.arrayContaining(['not helpful', 'really buggy']),
+      );
+    });
+
     it('should publish brand mention added event', async () => {
       // Arrange
       const input = {
@@ -190,6 +338,53 @@ describe('AnswerResolver', () => {
       expect(event).toEqual({
         brandMentionAdded: mention,
       });
+      expect(analyticsGateway.emitMentionNew).toHaveBeenCalledWith(
+        'test-brand',
+        mention,
+      );
+    });
+  });
+
+  describe('citations', () => {
+    it('should resolve the sources cited in the mention answer', async () => {
+      const citedAt = new Date('2025-03-10T12:00:00Z');
+      citationService.findByAnswer.mockResolvedValue([
+        {
+          id: 'citation-1',
+          url: 'https://acme.com/pricing',
+          domain: 'acme.com',
+          title: null,
+          position: 1,
+          platform: 'perplexity',
+          ownership: CitationOwnership.OWNED,
+          competitor: null,
+          citedAt,
+        },
+      ]);
+
+      const result = await resolver.citations({
+        answerId: 'answer-1',
+      } as BrandMention);
+
+      expect(citationService.findByAnswer).toHaveBeenCalledWith('answer-1');
+      expect(result).toEqual([
+        expect.objectContaining({
+          domain: 'acme.com',
+          ownership: CitationOwnership.OWNED,
+          title: undefined,
+          competitor: undefined,
+        }),
+      ]);
+    });
+
+    it('should return no citations for manually analyzed content', async () => {
+      const mention = await resolver.analyzeContent({
+        brandId: 'test-brand',
+        content: 'Acme is great',
+      });
+
+      await expect(resolver.citations(mention)).resolves.toEqual([]);
+      expect(citationService.findByAnswer).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,126 @@
+import { RedisClientType } from 'redis';
+import { RedisPubSub } from '../redis-pubsub';
+
+/**
+ * Stand-in for a pair of node-redis clients connected to the same server
+ */
+const createRedisPair = () => {
+  const listeners: Array<{
+    pattern: string;
+    listener: (message: string, channel: string) => void;
+  }> = [];
+  const publisher = {
+    publish: jest.fn(async (channel: string, message: string) => {
+      listeners
+        .filter(({ pattern }) => channel.startsWith(pattern.slice(0, -1)))
+        .forEach(({ listener }) => listener(message, channel));
+      return listeners.length;
+    }),
+    quit: jest.fn().mockResolvedValue('OK'),
+  };
+  const subscriber = {
+    pSubscribe: jest.fn(
+      async (
+        pattern: string,
+        listener: (message: string, channel: string) => void,
+      ) => {
+        listeners.push({ pattern, listener });
+      },
+    ),
+    quit: jest.fn().mockResolvedValue('OK'),
+  };
+  return {
+    publisher,
+    subscriber,
+    deliver: (channel: string, message: string) =>
+      listeners.forEach(({ listener }) => listener(message, channel)),
+  };
+};
+
+describe('RedisPubSub', () => {
+  it('should deliver in-process when Redis is not configured', async () => {
+    const pubSub = await RedisPubSub.connect(undefined);
+    const onMessage = jest.fn();
+    await pubSub.subscribe('mentionAdded', onMessage);
+
+    await pubSub.publish('mentionAdded', { id: 'mention-1' });
+
+    expect(pubSub.distributed).toBe(false);
+    expect(onMessage).toHaveBeenCalledWith({ id: 'mention-1' });
+  });
+
+  it('should stay in-memory under test even with a Redis host', async () => {
+    const pubSub = await RedisPubSub.connect({
+      host: 'localhost',
+      port: 6379,
+      ttl: 300,
+      max: 100,
+      isGlobal: true,
+    });
+
+    expect(pubSub.distributed).toBe(false);
+  });
+
+  describe('with Redis', () => {
+    let redis: ReturnType<typeof createRedisPair>;
+    let pubSub: RedisPubSub;
+
+    beforeEach(async () => {
+      redis = createRedisPair();
+      pubSub = new RedisPubSub(
+        redis.publisher as unknown as RedisClientType,
+        redis.subscriber as unknown as RedisClientType,
+      );
+      await (pubSub as unknown as { listen(): Promise<void> }).listen();
+    });
+
+    it('should publish through Redis and deliver what comes back', async () => {
+      const onMessage = jest.fn();
+      await pubSub.subscribe('mentionAdded', onMessage);
+
+      await pubSub.publish('mentionAdded', { id: 'mention-1' });
+
+      expect(redis.publisher.publish).toHaveBeenCalledWith(
+        'graphql:mentionAdded',
+        '{"id":"mention-1"}',
+      );
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage).toHaveBeenCalledWith({ id: 'mention-1' });
+    });
+
+    it('should hand events published by other instances to subscribers', async () => {
+      const iterator = pubSub.asyncIterator<{
+        mention: { createdAt: Date };
+      }>('mentionAdded');
+      const next = iterator.next();
+
+      redis.deliver(
+        'graphql:mentionAdded',
+        '{"mention":{"createdAt":"2025-04-01T10:00:00.000Z"}}',
+      );
+
+      await expect(next).resolves.toEqual({
+        value: { mention: { createdAt: new Date('2025-04-01T10:00:00.000Z') } },
+        done: false,
+      });
+      await iterator.return?.();
+    });
+
+    it('should ignore malformed messages', async () => {
+      const onMessage = jest.fn();
+      await pubSub.subscribe('mentionAdded', onMessage);
+
+      expect(() =>
+        redis.deliver('graphql:mentionAdded', 'not json'),
+      ).not.toThrow();
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('should close both connections', async () => {
+      await pubSub.close();
+
+      expect(redis.publisher.quit).toHaveBeenCalled();
+      expect(redis.subscriber.quit).toHaveBeenCalled();
+    });
+  });
+});
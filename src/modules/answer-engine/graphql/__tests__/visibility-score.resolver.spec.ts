@@ -0,0 +1,79 @@
+import { VisibilityScoreResolver } from '../visibility-score.resolver';
+import { VisibilityScoreService } from '../../services/visibility/visibility-score.service';
+import { VisibilityWeightsService } from '../../services/visibility/visibility-weights.service';
+import { Permission } from '../../../../auth/enums/permission.enum';
+import { Role } from '../../../../auth/enums/role.enum';
+import { User } from '../../../../auth/types/auth.types';
+import { ForbiddenError } from '../../../../shared/errors';
+
+// The score service pulls in prompt tracking, the metrics service and the
+// analytics gateway; the weights queries do not use it
+jest.mock('../../services/visibility/visibility-score.service', () => ({
+  VisibilityScoreService: class VisibilityScoreService {},
+}));
+
+describe('VisibilityScoreResolver', () => {
+  const weights = { mentions: 0.5, sentiment: 0.2, authority: 0.3 };
+  const analyst: User = {
+    id: 'user-1',
+    roles: [Role.USER],
+    permissions: [Permission.VIEW_ANALYTICS, Permission.MANAGE_ANALYTICS],
+    organizationId: 'org-1',
+  };
+  let resolver: VisibilityScoreResolver;
+  let weightsService: {
+    getWeights: jest.Mock;
+    setWeights: jest.Mock;
+    resetWeights: jest.Mock;
+  };
+
+  beforeEach(() => {
+    weightsService = {
+      getWeights: jest.fn(async () => weights),
+      setWeights: jest.fn(async (_, update) => update),
+      resetWeights: jest.fn(async () => weights),
+    };
+    resolver = new VisibilityScoreResolver(
+      {} as VisibilityScoreService,
+      weightsService as unknown as VisibilityWeightsService,
+    );
+  });
+
+  it("should read the weights of the user's organization", async () => {
+    await expect(resolver.visibilityWeights('org-1', analyst)).resolves.toEqual(
+      { organizationId: 'org-1', ...weights },
+    );
+  });
+
+  it('should not read the weights of another organization', async () => {
+    await expect(resolver.visibilityWeights('org-2', analyst)).rejects.toThrow(
+      ForbiddenError,
+    );
+    expect(weightsService.getWeights).not.toHaveBeenCalled();
+  });
+
+  it('should not change the weights of another organization', async () => {
+    await expect(
+      resolver.updateVisibilityWeights(
+        { organizationId: 'org-2', ...weights },
+        analyst,
+      ),
+    ).rejects.toThrow(ForbiddenError);
+    await expect(
+      resolver.resetVisibilityWeights('org-2', analyst),
+    ).rejects.toThrow(ForbiddenError);
+    expect(weightsService.setWeights).not.toHaveBeenCalled();
+    expect(weightsService.resetWeights).not.toHaveBeenCalled();
+  });
+
+  it('should let admins change the weights of any organization', async () => {
+    const admin: User = { id: 'admin-1', roles: [Role.ADMIN] };
+
+    await resolver.updateVisibilityWeights(
+      { organizationId: 'org-2', ...weights },
+      admin,
+    );
+
+    expect(weightsService.setWeights).toHaveBeenCalledWith('org-2', weights);
+  });
+});
@@ -0,0 +1,113 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { AlertRuleService } from '../services/alerts/alert-rule.service';
+import { AlertService } from '../services/alerts/alert.service';
+import { AlertRuleEntity } from '../entities/alert-rule.entity';
+import { AlertEntity } from '../entities/alert.entity';
+import { AlertStatus } from '../interfaces/alert.interface';
+import {
+  Alert,
+  AlertRule,
+  CreateAlertRuleInput,
+  UpdateAlertRuleInput,
+} from './alert.types';
+
+@Resolver(() => Alert)
+export class AlertResolver {
+  constructor(
+    private readonly alertRuleService: AlertRuleService,
+    private readonly alertService: AlertService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [AlertRule])
+  @UseGuards(JwtAuthGuard)
+  async alertRules(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<AlertRule[]> {
+    await this.brandService.assertExists(brandId);
+    const rules = await this.alertRuleService.findByBrand(brandId);
+    return rules.map(rule => this.toAlertRule(rule));
+  }
+
+  @Query(() => [Alert])
+  @UseGuards(JwtAuthGuard)
+  async alerts(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('status', { type: () => AlertStatus, nullable: true })
+    status?: AlertStatus,
+  ): Promise<Alert[]> {
+    await this.brandService.assertExists(brandId);
+    const alerts = await this.alertService.findByBrand(brandId, status);
+    return alerts.map(alert => this.toAlert(alert));
+  }
+
+  @Mutation(() => AlertRule)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async createAlertRule(
+    @Args('input') input: CreateAlertRuleInput,
+  ): Promise<AlertRule> {
+    return this.toAlertRule(await this.alertRuleService.createRule(input));
+  }
+
+  @Mutation(() => AlertRule)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async updateAlertRule(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('input') input: UpdateAlertRuleInput,
+  ): Promise<AlertRule> {
+    return this.toAlertRule(await this.alertRuleService.updateRule(id, input));
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async deleteAlertRule(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<boolean> {
+    await this.alertRuleService.findRule(id);
+    await this.alertRuleService.softDelete(id);
+    return true;
+  }
+
+  @Mutation(() => Alert)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async acknowledgeAlert(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<Alert> {
+    return this.toAlert(await this.alertService.acknowledge(id));
+  }
+
+  @Mutation(() => Alert)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async resolveAlert(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<Alert> {
+    return this.toAlert(await this.alertService.resolve(id));
+  }
+
+  private toAlertRule(rule: AlertRuleEntity): AlertRule {
+    return {
+      ...rule,
+      competitorSetId: rule.competitorSetId ?? undefined,
+      lastTriggeredAt: rule.lastTriggeredAt ?? undefined,
+    };
+  }
+
+  private toAlert(alert: AlertEntity): Alert {
+    return {
+      ...alert,
+      acknowledgedAt: alert.acknowledgedAt ?? undefined,
+      resolvedAt: alert.resolvedAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Float,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  AlertDirection,
+  AlertMetric,
+  AlertStatus,
+} from '../interfaces/alert.interface';
+
+registerEnumType(AlertMetric, { name: 'AlertMetric' });
+registerEnumType(AlertDirection, { name: 'AlertDirection' });
+registerEnumType(AlertStatus, { name: 'AlertStatus' });
+
+@ObjectType()
+export class AlertRule {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => AlertMetric)
+  metric: AlertMetric;
+
+  @Field(() => AlertDirection)
+  direction: AlertDirection;
+
+  @Field(() => Float)
+  threshold: number;
+
+  @Field(() => Int)
+  windowDays: number;
+
+  @Field(() => Int)
+  minMentions: number;
+
+  @Field(() => Int)
+  cooldownMinutes: number;
+
+  @Field({ nullable: true })
+  competitorSetId?: string;
+
+  @Field()
+  enabled: boolean;
+
+  @Field({ nullable: true })
+  lastTriggeredAt?: Date;
+
+  @Field()
+  createdAt: Date;
+}
+
+@ObjectType()
+export class Alert {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field()
+  ruleId: string;
+
+  @Field(() => AlertMetric)
+  metric: AlertMetric;
+
+  @Field(() => AlertDirection)
+  direction: AlertDirection;
+
+  @Field(() => AlertStatus)
+  status: AlertStatus;
+
+  @Field(() => Float)
+  threshold: number;
+
+  @Field(() => Float)
+  previousValue: number;
+
+  @Field(() => Float)
+  currentValue: number;
+
+  @Field(() => Float)
+  change: number;
+
+  @Field(() => Int)
+  mentionCount: number;
+
+  @Field()
+  windowStart: Date;
+
+  @Field()
+  windowEnd: Date;
+
+  @Field()
+  triggeredAt: Date;
+
+  @Field({ nullable: true })
+  acknowledgedAt?: Date;
+
+  @Field({ nullable: true })
+  resolvedAt?: Date;
+}
+
+@InputType()
+export class CreateAlertRuleInput {
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => AlertMetric)
+  metric: AlertMetric;
+
+  @Field(() => AlertDirection, { nullable: true })
+  direction?: AlertDirection;
+
+  @Field(() => Float)
+  threshold: number;
+
+  @Field(() => Int, { nullable: true })
+  windowDays?: number;
+
+  @Field(() => Int, { nullable: true })
+  minMentions?: number;
+
+  @Field(() => Int, { nullable: true })
+  cooldownMinutes?: number;
+
+  @Field({ nullable: true })
+  competitorSetId?: string;
+
+  @Field({ nullable: true })
+  enabled?: boolean;
+}
+
+@InputType()
+export class UpdateAlertRuleInput {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field(() => AlertMetric, { nullable: true })
+  metric?: AlertMetric;
+
+  @Field(() => AlertDirection, { nullable: true })
+  direction?: AlertDirection;
+
+  @Field(() => Float, { nullable: true })
+  threshold?: number;
+
+  @Field(() => Int, { nullable: true })
+  windowDays?: number;
+
+  @Field(() => Int, { nullable: true })
+  minMentions?: number;
+
+  @Field(() => Int, { nullable: true })
+  cooldownMinutes?: number;
+
+  @Field({ nullable: true })
+  competitorSetId?: string;
+
+  @Field({ nullable: true })
+  enabled?: boolean;
+}
@@ -1,4 +1,12 @@
-import { Resolver, Query, Mutation, Args, Subscription } from '@nestjs/graphql';
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Args,
+  Subscription,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
 import { UseGuards, Inject } from '@nestjs/common';
 import { PubSub } from 'graphql-subscriptions';
 import {
@@ -7,26 +15,46 @@ import {
   AnalyzeContentInput,
   BrandHealthInput,
 } from './answer.types';
+import { Citation } from './citation.types';
 import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
-
-// Define event types
-interface BrandMentionAddedPayload {
-  brandMentionAdded: BrandMention;
-}
+import { BrandMentionService } from '../services/brand-mention.service';
+import { BrandHealthService } from '../services/brand-health.service';
+import { CitationService } from '../services/citation.service';
+import { BrandService } from '../../brands/services/brand.service';
+import { AnalyticsGateway } from '../../real-time/gateways/analytics.gateway';
+import {
+  SENTIMENT_ANALYZER,
+  SentimentAnalyzer,
+} from '../interfaces/sentiment-analysis.interface';
+import {
+  BRAND_MENTION_ADDED,
+  BrandMentionAddedPayload,
+  toBrandMention,
+} from './brand-mention.mapper';
 
 @Resolver(() => BrandMention)
 export class AnswerResolver {
-  constructor(@Inject('PUB_SUB') private readonly pubSub: PubSub) {}
-
-  // Mock data for testing
-  private mockBrandMentions: BrandMention[] = [];
-  private mockHealthData: Map<string, BrandHealth> = new Map();
+  constructor(
+    @Inject('PUB_SUB') private readonly pubSub: PubSub,
+    @Inject(SENTIMENT_ANALYZER)
+    private readonly sentimentAnalyzer: SentimentAnalyzer,
+    private readonly brandMentionService: BrandMentionService,
+    private readonly brandHealthService: BrandHealthService,
+    private readonly brandService: BrandService,
+    private readonly citationService: CitationService,
+    private readonly analyticsGateway: AnalyticsGateway,
+  ) {}
 
   @Query(() => [BrandMention])
   @UseGuards(JwtAuthGuard)
-  async brandMentions(): Promise<BrandMention[]> {
-    // Return all brand mentions
-    return this.mockBrandMentions;
+  async brandMentions(
+    @Args('brandId', { nullable: true }) brandId?: string,
+  ): Promise<BrandMention[]> {
+    if (brandId) {
+      await this.brandService.assertExists(brandId);
+    }
+    const mentions = await this.brandMentionService.findByBrand(brandId);
+    return mentions.map(toBrandMention);
   }
 
   @Query(() => BrandHealth)
@@ -34,17 +62,13 @@ export class AnswerResolver {
   async brandHealth(
     @Args('input') input: BrandHealthInput,
   ): Promise<BrandHealth> {
-    // Mock implementation
-    const health = this.mockHealthData.get(input.brandId) || {
-      overallSentiment: Math.random(),
-      trend: Array.from({ length: 7 }, (_, i) => ({
-        date: new Date(Date.now() - i * 24 * 60 * 60 * 1000),
-        sentiment: Math.random(),
-      })),
-      mentionCount: Math.floor(Math.random() * 100),
-    };
-
-    return health;
+    await this.brandService.assertExists(input.brandId);
+    return this.brandHealthService.getBrandHealth(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      input.granularity,
+    );
   }
 
   @Mutation(() => BrandMention)
@@ -52,27 +76,42 @@ export class AnswerResolver {
   async analyzeContent(
     @Args('input') input: AnalyzeContentInput,
   ): Promise<BrandMention> {
-    // Mock implementation
-    const mention: BrandMention = {
-      id: Math.random().toString(36).substring(7),
+    await this.brandService.assertExists(input.brandId);
+    const { score, ...sentimentDetails } = await this.sentimentAnalyzer.analyze(
+      input.content,
+    );
+    const entity = await this.brandMentionService.recordMention({
       brandId: input.brandId,
+      platform: input.platform,
       content: input.content,
-      sentiment: Math.random(),
-      context: input.context || '',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    this.mockBrandMentions.push(mention);
+      sentiment: score,
+      sentimentDetails,
+      context: input.context ? { text: input.context } : undefined,
+    });
+    const mention = toBrandMention(entity);
 
     // Publish update for subscriptions
-    await this.pubSub.publish('brandMentionAdded', {
+    await this.pubSub.publish(BRAND_MENTION_ADDED, {
       brandMentionAdded: mention,
     } as BrandMentionAddedPayload);
+    await this.analyticsGateway.emitMentionNew(mention.brandId, mention);
 
     return mention;
   }
 
+  @ResolveField(() => [Citation])
+  async citations(@Parent() mention: BrandMention): Promise<Citation[]> {
+    if (!mention.answerId) {
+      return [];
+    }
+    const citations = await this.citationService.findByAnswer(mention.answerId);
+    return citations.map(citation => ({
+      ...citation,
+      title: citation.title ?? undefined,
+      competitor: citation.competitor ?? undefined,
+    }));
+  }
+
   @Subscription(() => BrandMention, {
     filter: (
       payload: BrandMentionAddedPayload,
@@ -84,7 +123,7 @@ export class AnswerResolver {
     @Args('_brandId') _brandId: string,
   ): AsyncIterator<BrandMentionAddedPayload> {
     return this.pubSub.asyncIterator<BrandMentionAddedPayload>(
-      'brandMentionAdded',
+      BRAND_MENTION_ADDED,
     );
   }
 }
@@ -1,4 +1,50 @@
-import { ObjectType, Field, ID, Float, InputType } from '@nestjs/graphql';
+import {
+  ObjectType,
+  Field,
+  ID,
+  Float,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { TrendGranularity } from '../interfaces/brand-health.interface';
+import { SentimentLabel } from '../interfaces/sentiment-analysis.interface';
+
+registerEnumType(TrendGranularity, { name: 'TrendGranularity' });
+registerEnumType(SentimentLabel, { name: 'SentimentLabel' });
+
+@ObjectType()
+export class SentimentSpan {
+  @Field()
+  text: string;
+
+  @Field(() => Int)
+  start: number;
+
+  @Field(() => Int)
+  end: number;
+
+  @Field(() => Float)
+  weight: number;
+}
+
+@ObjectType()
+export class SentimentAnalysisResult {
+  @Field(() => Float)
+  score: number;
+
+  @Field(() => SentimentLabel)
+  label: SentimentLabel;
+
+  @Field(() => Float)
+  confidence: number;
+
+  @Field(() => [SentimentSpan])
+  spans: SentimentSpan[];
+
+  @Field()
+  analyzer: string;
+}
 
 @ObjectType()
 export class BrandMention {
@@ -8,15 +54,36 @@ export class BrandMention {
   @Field()
   brandId: string;
 
+  @Field()
+  platform: string;
+
   @Field()
   content: string;
 
   @Field(() => Float)
   sentiment: number;
 
+  @Field(() => SentimentAnalysisResult, { nullable: true })
+  sentimentAnalysis?: SentimentAnalysisResult;
+
   @Field()
   context: string;
 
+  @Field({ nullable: true })
+  answerId?: string;
+
+  @Field({ nullable: true })
+  competitor?: string;
+
+  @Field({ nullable: true })
+  matchedText?: string;
+
+  @Field(() => Int, { nullable: true })
+  rankPosition?: number;
+
+  @Field()
+  mentionedAt: Date;
+
   @Field()
   createdAt: Date;
 
@@ -43,6 +110,9 @@ export class SentimentTrend {
 
   @Field(() => Float)
   sentiment: number;
+
+  @Field(() => Int)
+  mentionCount: number;
 }
 
 @InputType()
@@ -55,6 +125,9 @@ export class AnalyzeContentInput {
 
   @Field({ nullable: true })
   context?: string;
+
+  @Field({ nullable: true })
+  platform?: string;
 }
 
 @InputType()
@@ -67,4 +140,7 @@ export class BrandHealthInput {
 
   @Field()
   endDate: Date;
+
+  @Field(() => TrendGranularity, { nullable: true })
+  granularity?: TrendGranularity;
 } 
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { BrandMention } from './answer.types';
+import { BrandMentionEntity } from '../entities/brand-mention.entity';
+
+/** PubSub trigger for newly recorded mentions */
+export const BRAND_MENTION_ADDED = 'brandMentionAdded';
+
+export type BrandMentionAddedPayload = {
+  brandMentionAdded: BrandMention;
+};
+
+/**
+ * Maps a stored mention to its GraphQL representation
+ */
+export function toBrandMention(entity: BrandMentionEntity): BrandMention {
+  return {
+    id: entity.id,
+    brandId: entity.brandId,
+    platform: entity.platform,
+    content: entity.content,
+    sentiment: entity.sentiment ?? 0,
+    sentimentAnalysis: entity.sentimentDetails
+      ? { score: entity.sentiment ?? 0, ...entity.sentimentDetails }
+      : undefined,
+    context: entity.context?.text ?? '',
+    answerId: entity.answerId ?? undefined,
+    competitor: entity.competitor ?? undefined,
+    matchedText: entity.matchedText ?? undefined,
+    rankPosition: entity.rankPosition ?? undefined,
+    mentionedAt: entity.mentionedAt,
+    createdAt: entity.createdAt,
+    updatedAt: entity.updatedAt,
+  };
+}
@@ -0,0 +1,33 @@
+import { Resolver, Query, Args } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { BrandService } from '../../brands/services/brand.service';
+import { CitationAuthorityService } from '../services/citation-authority.service';
+import { DomainAuthority, CitationAuthorityInput } from './citation.types';
+
+@Resolver(() => DomainAuthority)
+export class CitationResolver {
+  constructor(
+    private readonly citationAuthorityService: CitationAuthorityService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [DomainAuthority])
+  @UseGuards(JwtAuthGuard)
+  async citationAuthority(
+    @Args('input') input: CitationAuthorityInput,
+  ): Promise<DomainAuthority[]> {
+    await this.brandService.assertExists(input.brandId);
+    const domains =
+      await this.citationAuthorityService.calculateCitationAuthority(
+        input.brandId,
+        input.startDate,
+        input.endDate,
+        input.platform,
+      );
+    return domains.map(domain => ({
+      ...domain,
+      competitor: domain.competitor ?? undefined,
+    }));
+  }
+}
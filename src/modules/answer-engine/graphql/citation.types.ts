@@ -0,0 +1,96 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Float,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { CitationOwnership } from '../interfaces/citation.interface';
+
+registerEnumType(CitationOwnership, { name: 'CitationOwnership' });
+
+@ObjectType()
+export class Citation {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  url: string;
+
+  @Field()
+  domain: string;
+
+  @Field({ nullable: true })
+  title?: string;
+
+  @Field(() => Int)
+  position: number;
+
+  @Field()
+  platform: string;
+
+  @Field(() => CitationOwnership)
+  ownership: CitationOwnership;
+
+  @Field({ nullable: true })
+  competitor?: string;
+
+  @Field()
+  citedAt: Date;
+}
+
+@ObjectType()
+export class DomainAuthority {
+  @Field()
+  domain: string;
+
+  @Field(() => Float)
+  score: number;
+
+  @Field(() => CitationOwnership)
+  ownership: CitationOwnership;
+
+  @Field({ nullable: true })
+  competitor?: string;
+
+  @Field(() => Int)
+  citationCount: number;
+
+  @Field(() => [String])
+  platforms: string[];
+
+  @Field(() => Int)
+  activeDays: number;
+
+  @Field(() => Float)
+  frequency: number;
+
+  @Field(() => Float)
+  platformCoverage: number;
+
+  @Field(() => Float)
+  consistency: number;
+
+  @Field()
+  firstCitedAt: Date;
+
+  @Field()
+  lastCitedAt: Date;
+}
+
+@InputType()
+export class CitationAuthorityInput {
+  @Field()
+  brandId: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field({ nullable: true })
+  platform?: string;
+}
@@ -1,13 +1,23 @@
-import { Module } from '@nestjs/common';
-import { PubSub } from 'graphql-subscriptions';
+import { Inject, Module, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisConfig } from '../../../config/redis.config';
+import { RedisPubSub } from './redis-pubsub';
 
 @Module({
   providers: [
     {
       provide: 'PUB_SUB',
-      useValue: new PubSub(),
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): Promise<RedisPubSub> =>
+        RedisPubSub.connect(configService.get<RedisConfig>('redis')),
     },
   ],
   exports: ['PUB_SUB'],
 })
-export class PubSubModule {} 
\ No newline at end of file
+export class PubSubModule implements OnModuleDestroy {
+  constructor(@Inject('PUB_SUB') private readonly pubSub: RedisPubSub) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.pubSub.close();
+  }
+}
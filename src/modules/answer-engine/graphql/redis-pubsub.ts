@@ -0,0 +1,117 @@
+import { Logger } from '@nestjs/common';
+import { PubSub, PubSubEngine } from 'graphql-subscriptions';
+import { RedisClientType } from 'redis';
+import { RedisConfig } from '../../../config/redis.config';
+import { connectRedis } from '../../../cache/redis-connection';
+
+const CHANNEL_PREFIX = 'graphql:';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Payloads cross Redis as JSON, so dates are restored on the way back in
+ * for resolvers and DateTime scalars that expect Date instances
+ */
+const reviveDates = (_key: string, value: unknown): unknown =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value)
+    ? new Date(value)
+    : value;
+
+/**
+ * GraphQL subscription PubSub shared by every instance through Redis.
+ * Events are published to Redis and every instance, the publisher included,
+ * hands the ones it receives to its local subscribers. Without Redis clients
+ * it behaves like the in-process `PubSub`.
+ */
+export class RedisPubSub implements PubSubEngine {
+  private readonly logger = new Logger(RedisPubSub.name);
+  private readonly local = new PubSub();
+
+  constructor(
+    private readonly publisher: RedisClientType | null = null,
+    private readonly subscriber: RedisClientType | null = null,
+  ) {}
+
+  /**
+   * Connect using the redis config, falling back to in-memory delivery when
+   * Redis is disabled or unreachable
+   * @param config - Redis config
+   */
+  static async connect(config?: RedisConfig): Promise<RedisPubSub> {
+    const publisher = await connectRedis(config, RedisPubSub.name);
+    if (!publisher) {
+      return new RedisPubSub();
+    }
+
+    const subscriber = publisher.duplicate();
+    try {
+      await subscriber.connect();
+      const pubSub = new RedisPubSub(publisher, subscriber);
+      await pubSub.listen();
+      return pubSub;
+    } catch (error) {
+      new Logger(RedisPubSub.name).warn(
+        `Redis subscriber unavailable, falling back to in-memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      await Promise.allSettled([publisher.quit(), subscriber.disconnect()]);
+      return new RedisPubSub();
+    }
+  }
+
+  get distributed(): boolean {
+    return this.publisher !== null;
+  }
+
+  async publish<TPayload extends Record<string, unknown>>(
+    triggerName: string,
+    payload: TPayload,
+  ): Promise<void> {
+    if (!this.publisher) {
+      return this.local.publish(triggerName, payload);
+    }
+    await this.publisher.publish(
+      `${CHANNEL_PREFIX}${triggerName}`,
+      JSON.stringify(payload),
+    );
+  }
+
+  subscribe<TPayload extends Record<string, unknown>>(
+    triggerName: string,
+    onMessage: (payload: TPayload) => void,
+    options?: Record<string, unknown>,
+  ): Promise<number> {
+    return this.local.subscribe(triggerName, onMessage, options);
+  }
+
+  unsubscribe(subId: number): void {
+    this.local.unsubscribe(subId);
+  }
+
+  asyncIterator<TPayload extends Record<string, unknown>>(
+    triggers: string | string[],
+  ): AsyncIterator<TPayload> {
+    return this.local.asyncIterableIterator<TPayload>(triggers);
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled([this.subscriber?.quit(), this.publisher?.quit()]);
+  }
+
+  private async listen(): Promise<void> {
+    await this.subscriber?.pSubscribe(
+      `${CHANNEL_PREFIX}*`,
+      (message: string, channel: string) => {
+        try {
+          void this.local.publish(
+            channel.slice(CHANNEL_PREFIX.length),
+            JSON.parse(message, reviveDates),
+          );
+        } catch (error) {
+          this.logger.error(
+            `Dropped malformed message on ${channel}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Resolver, Query, Args } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { BrandService } from '../../brands/services/brand.service';
+import { ShareOfVoiceService } from '../services/share-of-voice.service';
+import { ShareOfVoice, ShareOfVoiceInput } from './share-of-voice.types';
+
+@Resolver(() => ShareOfVoice)
+export class ShareOfVoiceResolver {
+  constructor(
+    private readonly shareOfVoiceService: ShareOfVoiceService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => ShareOfVoice)
+  @UseGuards(JwtAuthGuard)
+  async shareOfVoice(
+    @Args('input') input: ShareOfVoiceInput,
+  ): Promise<ShareOfVoice> {
+    await this.brandService.assertExists(input.brandId);
+    const report = await this.shareOfVoiceService.getShareOfVoice(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      {
+        competitorSetId: input.competitorSetId,
+        platform: input.platform,
+        granularity: input.granularity,
+      },
+    );
+    return {
+      ...report,
+      competitorSetId: report.competitorSetId ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { ObjectType, Field, Float, Int, InputType } from '@nestjs/graphql';
+import { TrendGranularity } from '../interfaces/brand-health.interface';
+
+@ObjectType()
+export class ShareOfVoiceEntry {
+  @Field()
+  name: string;
+
+  @Field()
+  competitor: boolean;
+
+  @Field(() => Int)
+  appearances: number;
+
+  @Field(() => Float)
+  weightedScore: number;
+
+  @Field(() => Float)
+  share: number;
+}
+
+@ObjectType()
+export class ShareOfVoiceSegment {
+  @Field()
+  key: string;
+
+  @Field(() => [ShareOfVoiceEntry])
+  entries: ShareOfVoiceEntry[];
+}
+
+@ObjectType()
+export class ShareOfVoicePoint {
+  @Field()
+  date: Date;
+
+  @Field(() => [ShareOfVoiceEntry])
+  entries: ShareOfVoiceEntry[];
+}
+
+@ObjectType()
+export class ShareOfVoice {
+  @Field()
+  brandId: string;
+
+  @Field({ nullable: true })
+  competitorSetId?: string;
+
+  @Field(() => Int)
+  answerCount: number;
+
+  @Field(() => [ShareOfVoiceEntry])
+  entries: ShareOfVoiceEntry[];
+
+  @Field(() => [ShareOfVoiceSegment])
+  byPlatform: ShareOfVoiceSegment[];
+
+  @Field(() => [ShareOfVoiceSegment])
+  byTopic: ShareOfVoiceSegment[];
+
+  @Field(() => [ShareOfVoicePoint])
+  trend: ShareOfVoicePoint[];
+}
+
+@InputType()
+export class ShareOfVoiceInput {
+  @Field()
+  brandId: string;
+
+  @Field({ nullable: true })
+  competitorSetId?: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field({ nullable: true })
+  platform?: string;
+
+  @Field(() => TrendGranularity, { nullable: true })
+  granularity?: TrendGranularity;
+}
@@ -0,0 +1,32 @@
+import { Resolver, Query, Args } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { TopicGapService } from '../services/topic-gap.service';
+import { TopicGapInput, TopicGapReport } from './topic-gap.types';
+
+@Resolver(() => TopicGapReport)
+export class TopicGapResolver {
+  constructor(
+    private readonly topicGapService: TopicGapService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => TopicGapReport)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.VIEW_ANALYTICS)
+  async topicGaps(
+    @Args('input') input: TopicGapInput,
+  ): Promise<TopicGapReport> {
+    await this.brandService.assertExists(input.brandId);
+    return this.topicGapService.getReport(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      { includeCovered: input.includeCovered, limit: input.limit },
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { ConversationTopic } from '../../conversation-explorer/graphql/conversation-explorer.types';
+import { TopicGapType } from '../interfaces/topic-gap.interface';
+
+registerEnumType(TopicGapType, { name: 'TopicGapType' });
+
+@ObjectType()
+export class TopicCompetitor {
+  @Field()
+  name: string;
+
+  @Field(() => Int)
+  answerCount: number;
+}
+
+@ObjectType()
+export class TopicGap {
+  @Field(() => ConversationTopic)
+  topic: ConversationTopic;
+
+  @Field(() => TopicGapType)
+  type: TopicGapType;
+
+  @Field(() => Float)
+  priority: number;
+
+  @Field(() => Int)
+  demand: number;
+
+  @Field(() => Int)
+  answerCount: number;
+
+  @Field(() => Int)
+  mentionedAnswerCount: number;
+
+  @Field(() => Float, { nullable: true })
+  visibility: number | null;
+
+  @Field(() => Float)
+  contentMatch: number;
+
+  @Field(() => [String])
+  pages: string[];
+
+  @Field(() => [TopicCompetitor])
+  competitors: TopicCompetitor[];
+}
+
+@ObjectType()
+export class TopicGapReport {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field(() => Int)
+  pageCount: number;
+
+  @Field(() => [TopicGap])
+  gaps: TopicGap[];
+}
+
+@InputType()
+export class TopicGapInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field({ nullable: true })
+  includeCovered?: boolean;
+
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+}
@@ -0,0 +1,108 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  Args,
+  Int,
+  ResolveField,
+  Parent,
+} from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { Role } from '../../../auth/enums/role.enum';
+import { CurrentUser } from '../../../auth/decorators/current-user.decorator';
+import { User } from '../../../auth/types/auth.types';
+import { ForbiddenError } from '../../../shared/errors';
+import { Brand } from '../../brands/graphql/brand.types';
+import { VisibilityScoreService } from '../services/visibility/visibility-score.service';
+import { VisibilityWeightsService } from '../services/visibility/visibility-weights.service';
+import {
+  BrandVisibilityScore,
+  OrganizationVisibilityWeights,
+  VisibilityWeightsInput,
+} from './visibility-score.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Resolver(() => Brand)
+export class VisibilityScoreResolver {
+  constructor(
+    private readonly visibilityScoreService: VisibilityScoreService,
+    private readonly visibilityWeightsService: VisibilityWeightsService,
+  ) {}
+
+  @ResolveField(() => BrandVisibilityScore)
+  async visibilityScore(
+    @Parent() brand: Brand,
+    @Args('days', { type: () => Int, defaultValue: 30 }) days: number,
+  ): Promise<BrandVisibilityScore> {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - days * DAY_MS);
+    const [latest, history] = await Promise.all([
+      this.visibilityScoreService.getLatest(brand.id),
+      this.visibilityScoreService.getHistory(brand.id, startDate, endDate),
+    ]);
+    return { latest: latest ?? undefined, history };
+  }
+
+  @Query(() => OrganizationVisibilityWeights)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.VIEW_ANALYTICS)
+  async visibilityWeights(
+    @Args('organizationId') organizationId: string,
+    @CurrentUser() user: User,
+  ): Promise<OrganizationVisibilityWeights> {
+    this.assertOrganization(user, organizationId);
+    const weights =
+      await this.visibilityWeightsService.getWeights(organizationId);
+    return { organizationId, ...weights };
+  }
+
+  @Mutation(() => OrganizationVisibilityWeights)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async updateVisibilityWeights(
+    @Args('input') input: VisibilityWeightsInput,
+    @CurrentUser() user: User,
+  ): Promise<OrganizationVisibilityWeights> {
+    const { organizationId, ...weights } = input;
+    this.assertOrganization(user, organizationId);
+    const normalized = await this.visibilityWeightsService.setWeights(
+      organizationId,
+      weights,
+    );
+    return { organizationId, ...normalized };
+  }
+
+  @Mutation(() => OrganizationVisibilityWeights)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async resetVisibilityWeights(
+    @Args('organizationId') organizationId: string,
+    @CurrentUser() user: User,
+  ): Promise<OrganizationVisibilityWeights> {
+    this.assertOrganization(user, organizationId);
+    const weights =
+      await this.visibilityWeightsService.resetWeights(organizationId);
+    return { organizationId, ...weights };
+  }
+
+  /**
+   * Only admins may read or change the weights of another organization
+   * @throws {ForbiddenError} When the user belongs to another organization
+   */
+  private assertOrganization(user: User, organizationId: string): void {
+    if (
+      !user.roles?.includes(Role.ADMIN) &&
+      user.organizationId !== organizationId
+    ) {
+      throw new ForbiddenError(
+        'Visibility weights of another organization are not accessible',
+        { organizationId },
+      );
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { ObjectType, Field, Float, InputType } from '@nestjs/graphql';
+
+@ObjectType()
+export class VisibilityComponents {
+  @Field(() => Float)
+  mentions: number;
+
+  @Field(() => Float)
+  sentiment: number;
+
+  @Field(() => Float)
+  authority: number;
+}
+
+@ObjectType()
+export class VisibilityWeights {
+  @Field(() => Float)
+  mentions: number;
+
+  @Field(() => Float)
+  sentiment: number;
+
+  @Field(() => Float)
+  authority: number;
+}
+
+@ObjectType()
+export class VisibilityScore {
+  @Field(() => Float)
+  overall: number;
+
+  @Field(() => VisibilityComponents)
+  components: VisibilityComponents;
+
+  @Field(() => VisibilityWeights)
+  weights: VisibilityWeights;
+
+  @Field()
+  periodStart: Date;
+
+  @Field()
+  periodEnd: Date;
+}
+
+@ObjectType()
+export class BrandVisibilityScore {
+  @Field(() => VisibilityScore, { nullable: true })
+  latest?: VisibilityScore;
+
+  @Field(() => [VisibilityScore])
+  history: VisibilityScore[];
+}
+
+@ObjectType()
+export class OrganizationVisibilityWeights extends VisibilityWeights {
+  @Field()
+  organizationId: string;
+}
+
+@InputType()
+export class VisibilityWeightsInput {
+  @Field()
+  organizationId: string;
+
+  @Field(() => Float)
+  mentions: number;
+
+  @Field(() => Float)
+  sentiment: number;
+
+  @Field(() => Float)
+  authority: number;
+}
@@ -0,0 +1,89 @@
+/**
+ * Brand metric an alert rule watches
+ */
+export enum AlertMetric {
+  /** Average sentiment of the brand's own mentions, in the range [-1, 1] */
+  SENTIMENT = 'sentiment',
+
+  /** The brand's rank-weighted share of voice, in percent */
+  SHARE_OF_VOICE = 'share_of_voice',
+}
+
+/**
+ * Which way a metric has to move for a rule to fire
+ */
+export enum AlertDirection {
+  DROP = 'drop',
+  RISE = 'rise',
+  ANY = 'any',
+}
+
+export enum AlertStatus {
+  OPEN = 'open',
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+}
+
+/**
+ * Data accepted when creating an alert rule. Omitted fields take defaults
+ * suited to the metric.
+ */
+export interface CreateAlertRule {
+  brandId: string;
+  name: string;
+  metric: AlertMetric;
+  direction?: AlertDirection;
+
+  /**
+   * Smallest change between the previous and the current window that fires
+   * the rule, in the metric's own unit
+   */
+  threshold: number;
+
+  /** Length of each compared window in days */
+  windowDays?: number;
+
+  /** Mentions each window needs before the rule is evaluated */
+  minMentions?: number;
+
+  /** Minutes after firing during which the rule stays quiet */
+  cooldownMinutes?: number;
+
+  /** Competitors to measure share of voice against */
+  competitorSetId?: string | null;
+  enabled?: boolean;
+}
+
+export type UpdateAlertRule = Partial<Omit<CreateAlertRule, 'brandId'>>;
+
+/**
+ * A metric measured over the current window and the one before it
+ */
+export interface MetricComparison {
+  previousValue: number;
+  currentValue: number;
+  change: number;
+
+  /** Mentions in the current window */
+  mentionCount: number;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+/**
+ * Payload of the `alert.triggered` event on the analytics namespace
+ */
+export interface AlertTriggeredEvent {
+  id: string;
+  brandId: string;
+  ruleId: string;
+  ruleName: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: number;
+  previousValue: number;
+  currentValue: number;
+  change: number;
+  mentionCount: number;
+  triggeredAt: Date;
+}
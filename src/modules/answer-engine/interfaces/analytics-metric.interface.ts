@@ -0,0 +1,6 @@
+/**
+ * Kinds of metric stored in the analytics_metrics table
+ */
+export enum AnalyticsMetricType {
+  VISIBILITY_SCORE = 'visibility_score',
+}
@@ -0,0 +1,34 @@
+/**
+ * Bucket size used when building a sentiment trend series
+ */
+export enum TrendGranularity {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+/**
+ * Aggregated sentiment for a single trend bucket
+ */
+export interface SentimentBucket {
+  /** Start of the bucket */
+  date: Date;
+
+  /** Average sentiment of the scored mentions in the bucket */
+  sentiment: number;
+
+  /** Number of mentions in the bucket */
+  mentionCount: number;
+
+  /** Number of mentions in the bucket that carry a sentiment score */
+  scoredCount: number;
+}
+
+/**
+ * Brand health summary over a date range
+ */
+export interface BrandHealthSummary {
+  overallSentiment: number;
+  mentionCount: number;
+  trend: SentimentBucket[];
+}
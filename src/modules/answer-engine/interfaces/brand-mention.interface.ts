@@ -0,0 +1,46 @@
+import { SentimentAnalysis } from './sentiment-analysis.interface';
+
+/**
+ * Free-form context captured alongside a brand mention.
+ * Stored as JSONB so that connectors can attach additional fields.
+ */
+export interface MentionContext {
+  /** Text surrounding the mention, as supplied by the caller */
+  text?: string;
+
+  /** Prompt that produced the answer containing the mention */
+  query?: string;
+
+  /** Full answer text the mention was found in */
+  response?: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * Explanation of a mention's sentiment score, as produced by the analyzer
+ */
+export type SentimentDetails = Omit<SentimentAnalysis, 'score'>;
+
+/**
+ * Data required to record a new brand mention
+ */
+export interface CreateBrandMention {
+  brandId: string;
+  platform?: string;
+  content: string;
+  sentiment?: number | null;
+  sentimentDetails?: SentimentDetails;
+  context?: MentionContext;
+  mentionedAt?: Date;
+
+  /** Stored AI answer the mention was extracted from */
+  answerId?: string | null;
+
+  /** Competitor that was mentioned, or null for the brand itself */
+  competitor?: string | null;
+  matchedText?: string | null;
+  startOffset?: number | null;
+  endOffset?: number | null;
+  rankPosition?: number | null;
+}
@@ -0,0 +1,61 @@
+/**
+ * Who a cited domain belongs to, relative to the tracked brand
+ */
+export enum CitationOwnership {
+  OWNED = 'owned',
+  COMPETITOR = 'competitor',
+  THIRD_PARTY = 'third_party',
+}
+
+/**
+ * How often a domain was cited for a brand over a date range
+ */
+export interface DomainCitationStats {
+  domain: string;
+  ownership: CitationOwnership;
+
+  /** Competitor owning the domain, if any */
+  competitor: string | null;
+  citationCount: number;
+
+  /** Distinct platforms that cited the domain */
+  platforms: string[];
+
+  /** Distinct days on which the domain was cited */
+  activeDays: number;
+  firstCitedAt: Date;
+  lastCitedAt: Date;
+}
+
+/**
+ * Totals across all cited domains, used to normalize per-domain stats
+ */
+export interface CitationTotals {
+  citationCount: number;
+  platformCount: number;
+  activeDays: number;
+}
+
+/**
+ * Authority of a cited domain, in the range [0, 100]
+ */
+export interface DomainAuthority extends DomainCitationStats {
+  score: number;
+
+  /** Citation count relative to the most cited domain, log-scaled */
+  frequency: number;
+
+  /** Share of citing platforms that cited the domain */
+  platformCoverage: number;
+
+  /** Share of days with citations on which the domain was cited */
+  consistency: number;
+}
+
+/**
+ * A cited page and its title
+ */
+export interface CitedPage {
+  url: string;
+  title: string | null;
+}
@@ -0,0 +1,36 @@
+/**
+ * A brand or competitor to look for in an answer
+ */
+export interface MentionTarget {
+  name: string;
+  aliases: string[];
+  competitor: boolean;
+}
+
+/**
+ * Settings that control what counts as a mention
+ */
+export interface MentionExtractionOptions {
+  /** Sentences containing any of these phrases are ignored */
+  excludeKeywords?: string[];
+}
+
+/**
+ * A single occurrence of a target in an answer
+ */
+export interface ExtractedMention {
+  /** Canonical name of the brand or competitor */
+  name: string;
+  competitor: boolean;
+
+  /** Text as it appeared in the answer, including any possessive suffix */
+  matchedText: string;
+  start: number;
+  end: number;
+
+  /** Text surrounding the mention, cut at word boundaries */
+  context: string;
+
+  /** Position of the list item containing the mention, for list answers */
+  rankPosition: number | null;
+}
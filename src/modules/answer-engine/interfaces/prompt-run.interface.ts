@@ -0,0 +1,16 @@
+export enum PromptRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  /** Some prompts failed on some platforms, but at least one answer was stored */
+  PARTIAL = 'partial',
+  FAILED = 'failed',
+}
+
+/**
+ * A prompt that could not be answered by a platform during a run
+ */
+export interface PromptRunError {
+  platform: string;
+  prompt: string;
+  message: string;
+}
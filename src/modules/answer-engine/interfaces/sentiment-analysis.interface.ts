@@ -0,0 +1,74 @@
+/**
+ * Injection token for the active sentiment analyzer
+ */
+export const SENTIMENT_ANALYZER = 'SENTIMENT_ANALYZER';
+
+/**
+ * Injection token for an optional LLM completion client used by the
+ * LLM-backed analyzer
+ */
+export const SENTIMENT_LLM_CLIENT = 'SENTIMENT_LLM_CLIENT';
+
+/**
+ * Coarse polarity of a piece of content
+ */
+export enum SentimentLabel {
+  POSITIVE = 'positive',
+  NEUTRAL = 'neutral',
+  NEGATIVE = 'negative',
+}
+
+/**
+ * A span of the analysed text that contributed to the score
+ */
+export interface SentimentSpan {
+  /** Matched text, including any negation or intensifier */
+  text: string;
+
+  /** Start offset in the analysed content */
+  start: number;
+
+  /** End offset (exclusive) in the analysed content */
+  end: number;
+
+  /** Signed contribution of the span to the raw score */
+  weight: number;
+}
+
+/**
+ * Result of analysing a piece of content
+ */
+export interface SentimentAnalysis {
+  /** Normalised score in the range [-1, 1] */
+  score: number;
+
+  label: SentimentLabel;
+
+  /** How much the analyzer trusts its own score, in the range [0, 1] */
+  confidence: number;
+
+  /** Spans that drove the score, strongest first */
+  spans: SentimentSpan[];
+
+  /** Name of the analyzer that produced the result */
+  analyzer: string;
+}
+
+/**
+ * Provider interface implemented by every sentiment analyzer
+ */
+export interface SentimentAnalyzer {
+  readonly name: string;
+
+  analyze(content: string): Promise<SentimentAnalysis>;
+}
+
+/**
+ * Minimal completion client an LLM-backed analyzer needs. Implementations
+ * wrap a concrete model API and are registered under SENTIMENT_LLM_CLIENT.
+ */
+export interface LlmCompletionClient {
+  readonly model: string;
+
+  complete(prompt: string): Promise<string>;
+}
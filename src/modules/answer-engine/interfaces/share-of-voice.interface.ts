@@ -0,0 +1,63 @@
+import { TrendGranularity } from './brand-health.interface';
+
+/**
+ * A brand or competitor appearing in one AI answer. Repeated mentions in the
+ * same answer collapse into one appearance at their best rank.
+ */
+export interface MentionAppearance {
+  answerId: string;
+  platform: string;
+
+  /** Tracked prompt that produced the answer */
+  prompt: string | null;
+
+  /** Competitor that appeared, or null for the brand itself */
+  competitor: string | null;
+  rankPosition: number | null;
+  mentionedAt: Date;
+}
+
+/**
+ * One brand's share of the rank-weighted appearances in a segment
+ */
+export interface ShareOfVoiceEntry {
+  name: string;
+  competitor: boolean;
+  appearances: number;
+  weightedScore: number;
+
+  /** Percentage of the segment's weighted score, in the range [0, 100] */
+  share: number;
+}
+
+export interface ShareOfVoiceSegment {
+  /** Platform or prompt the segment covers */
+  key: string;
+  entries: ShareOfVoiceEntry[];
+}
+
+export interface ShareOfVoicePoint {
+  date: Date;
+  entries: ShareOfVoiceEntry[];
+}
+
+export interface ShareOfVoiceOptions {
+  /** Competitors to compare against; defaults to all of the brand's */
+  competitorSetId?: string;
+  platform?: string;
+  granularity?: TrendGranularity;
+}
+
+export interface ShareOfVoiceReport {
+  brandId: string;
+  competitorSetId: string | null;
+
+  /** Answers in which at least one compared brand appeared */
+  answerCount: number;
+  entries: ShareOfVoiceEntry[];
+  byPlatform: ShareOfVoiceSegment[];
+
+  /** Breakdown per tracked prompt */
+  byTopic: ShareOfVoiceSegment[];
+  trend: ShareOfVoicePoint[];
+}
@@ -0,0 +1,84 @@
+import { ConversationTopic } from '../../conversation-explorer/interfaces/conversation-topic.interface';
+
+/**
+ * What a brand is missing for a topic people ask AI platforms about
+ */
+export enum TopicGapType {
+  /** No page covers the topic and answers about it never mention the brand */
+  CONTENT_AND_VISIBILITY = 'content_and_visibility',
+
+  /** A page covers the topic, yet answers about it never mention the brand */
+  VISIBILITY = 'visibility',
+
+  /** Answers mention the brand, but no page of its own covers the topic */
+  CONTENT = 'content',
+
+  /** The brand has a page and is mentioned */
+  NONE = 'none',
+}
+
+/**
+ * A competitor mentioned in answers about a topic
+ */
+export interface TopicCompetitor {
+  name: string;
+
+  /** Answers about the topic that mention the competitor */
+  answerCount: number;
+}
+
+/**
+ * How well a brand's content and AI visibility meet the demand of a topic
+ */
+export interface TopicGap {
+  topic: ConversationTopic;
+  type: TopicGapType;
+
+  /** Ranking score: demand discounted by existing visibility and content */
+  priority: number;
+
+  /** Estimated monthly AI search volume, or the topic's volume without one */
+  demand: number;
+
+  /** Answers collected for the topic's tracked prompts */
+  answerCount: number;
+
+  /** Answers that mention the brand */
+  mentionedAnswerCount: number;
+
+  /**
+   * Share of answers that mention the brand, in [0, 1]; null when none of
+   * the topic's queries is a tracked prompt
+   */
+  visibility: number | null;
+
+  /** Best share of the topic's terms found in one of the brand's pages */
+  contentMatch: number;
+
+  /** Brand pages that cover the topic, best match first */
+  pages: string[];
+
+  /** Competitors mentioned instead, most mentioned first */
+  competitors: TopicCompetitor[];
+}
+
+/**
+ * Topics ranked by how much demand the brand leaves unanswered
+ */
+export interface TopicGapReport {
+  brandId: string;
+  startDate: Date;
+  endDate: Date;
+
+  /** Brand pages the topics were matched against */
+  pageCount: number;
+  gaps: TopicGap[];
+}
+
+export interface TopicGapOptions {
+  /** Include topics the brand already covers; false by default */
+  includeCovered?: boolean;
+
+  /** Most topics returned */
+  limit?: number;
+}
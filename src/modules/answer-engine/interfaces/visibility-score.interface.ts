@@ -0,0 +1,57 @@
+/**
+ * The three signals the AI visibility score combines, each in the range
+ * [0, 1]
+ */
+export interface VisibilityComponents {
+  /** Share of tracked AI answers that mention the brand */
+  mentions: number;
+
+  /** Average sentiment of the brand's mentions, rescaled from [-1, 1] */
+  sentiment: number;
+
+  /** Citation authority of the brand's best-cited owned domain */
+  authority: number;
+}
+
+/**
+ * Relative weight of each component. Weights are normalized to sum to one
+ * before they are applied.
+ */
+export interface VisibilityWeights {
+  mentions: number;
+  sentiment: number;
+  authority: number;
+}
+
+/**
+ * Raw data the visibility score is calculated from
+ */
+export interface VisibilityScoreInput {
+  /** Tracked answers collected in the window */
+  answerCount: number;
+
+  /** Tracked answers that mention the brand itself */
+  mentionedAnswerCount: number;
+
+  /** Average sentiment in [-1, 1], or null when no mention was scored */
+  sentiment: number | null;
+
+  /** Authority score of the best-cited owned domain, in the range [0, 100] */
+  authority: number;
+}
+
+export interface VisibilityScore {
+  /** Weighted combination of the components, in the range [0, 1] */
+  overall: number;
+  components: VisibilityComponents;
+  weights: VisibilityWeights;
+}
+
+/**
+ * A visibility score calculated for a brand over a period
+ */
+export interface VisibilityScoreSnapshot extends VisibilityScore {
+  brandId: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBrandMentions1740787200000 implements MigrationInterface {
+  name = 'CreateBrandMentions1740787200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+
+    await queryRunner.query(`
+      CREATE TABLE "brand_mentions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" character varying NOT NULL,
+        "platform" character varying(50) NOT NULL,
+        "content" text NOT NULL,
+        "sentiment" double precision,
+        "mentionedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "context" jsonb,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_brand_mentions" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_brand_mentions_brand_mentioned_at"
+        ON "brand_mentions" ("brandId", "mentionedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_brand_mentions_brand_mentioned_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "brand_mentions"`);
+  }
+}
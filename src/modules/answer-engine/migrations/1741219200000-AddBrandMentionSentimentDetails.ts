@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBrandMentionSentimentDetails1741219200000
+  implements MigrationInterface
+{
+  name = 'AddBrandMentionSentimentDetails1741219200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "brand_mentions" ADD "sentimentDetails" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "brand_mentions" DROP COLUMN "sentimentDetails"`,
+    );
+  }
+}
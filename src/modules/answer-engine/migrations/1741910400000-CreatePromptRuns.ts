@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePromptRuns1741910400000 implements MigrationInterface {
+  name = 'CreatePromptRuns1741910400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "prompt_runs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "status" character varying(20) NOT NULL,
+        "startedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "completedAt" TIMESTAMP WITH TIME ZONE,
+        "durationMs" integer,
+        "promptCount" integer NOT NULL DEFAULT 0,
+        "answerCount" integer NOT NULL DEFAULT 0,
+        "errors" jsonb NOT NULL DEFAULT '[]',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_prompt_runs" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_prompt_runs_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_prompt_runs_brand_started_at"
+        ON "prompt_runs" ("brandId", "startedAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "ai_answers" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "runId" uuid NOT NULL,
+        "brandId" uuid NOT NULL,
+        "platform" character varying(50) NOT NULL,
+        "prompt" text NOT NULL,
+        "text" text NOT NULL,
+        "citations" jsonb NOT NULL DEFAULT '[]',
+        "model" character varying(100) NOT NULL,
+        "modelVersion" character varying(100),
+        "receivedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "latencyMs" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_ai_answers" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_ai_answers_run" FOREIGN KEY ("runId")
+          REFERENCES "prompt_runs" ("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_ai_answers_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ai_answers_run" ON "ai_answers" ("runId")`,
+    );
+    await queryRunner.query(`
+      CREATE INDEX "IDX_ai_answers_brand_received_at"
+        ON "ai_answers" ("brandId", "receivedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_ai_answers_brand_received_at"`);
+    await queryRunner.query(`DROP INDEX "IDX_ai_answers_run"`);
+    await queryRunner.query(`DROP TABLE "ai_answers"`);
+    await queryRunner.query(`DROP INDEX "IDX_prompt_runs_brand_started_at"`);
+    await queryRunner.query(`DROP TABLE "prompt_runs"`);
+  }
+}
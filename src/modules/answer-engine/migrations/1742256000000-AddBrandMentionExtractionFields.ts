@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBrandMentionExtractionFields1742256000000
+  implements MigrationInterface
+{
+  name = 'AddBrandMentionExtractionFields1742256000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "brand_mentions"
+        ADD "answerId" uuid,
+        ADD "competitor" character varying(255),
+        ADD "matchedText" character varying(255),
+        ADD "startOffset" integer,
+        ADD "endOffset" integer,
+        ADD "rankPosition" integer
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "brand_mentions"
+        ADD CONSTRAINT "FK_brand_mentions_answer" FOREIGN KEY ("answerId")
+        REFERENCES "ai_answers" ("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_brand_mentions_answer" ON "brand_mentions" ("answerId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_brand_mentions_answer"`);
+    await queryRunner.query(
+      `ALTER TABLE "brand_mentions" DROP CONSTRAINT "FK_brand_mentions_answer"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "brand_mentions"
+        DROP COLUMN "rankPosition",
+        DROP COLUMN "endOffset",
+        DROP COLUMN "startOffset",
+        DROP COLUMN "matchedText",
+        DROP COLUMN "competitor",
+        DROP COLUMN "answerId"
+    `);
+  }
+}
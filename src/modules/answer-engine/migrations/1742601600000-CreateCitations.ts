@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCitations1742601600000 implements MigrationInterface {
+  name = 'CreateCitations1742601600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "citations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "answerId" uuid NOT NULL,
+        "brandId" uuid NOT NULL,
+        "platform" character varying(50) NOT NULL,
+        "url" text NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "title" text,
+        "position" integer NOT NULL,
+        "ownership" character varying(20) NOT NULL,
+        "competitor" character varying(255),
+        "citedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_citations" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_citations_answer" FOREIGN KEY ("answerId")
+          REFERENCES "ai_answers" ("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_citations_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_citations_answer" ON "citations" ("answerId")`,
+    );
+    await queryRunner.query(`
+      CREATE INDEX "IDX_citations_brand_domain_cited_at"
+        ON "citations" ("brandId", "domain", "citedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_citations_brand_domain_cited_at"`);
+    await queryRunner.query(`DROP INDEX "IDX_citations_answer"`);
+    await queryRunner.query(`DROP TABLE "citations"`);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAnalyticsMetrics1743379200000 implements MigrationInterface {
+  name = 'CreateAnalyticsMetrics1743379200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "analytics_metrics" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "metricType" character varying(50) NOT NULL,
+        "value" double precision NOT NULL,
+        "periodStart" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "periodEnd" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "metadata" jsonb,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_analytics_metrics" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_analytics_metrics_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_analytics_metrics_brand_type_period_end"
+        ON "analytics_metrics" ("brandId", "metricType", "periodEnd")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "visibility_weights" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organizationId" character varying(255) NOT NULL,
+        "mentions" double precision NOT NULL,
+        "sentiment" double precision NOT NULL,
+        "authority" double precision NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_visibility_weights" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_visibility_weights_organization"
+        ON "visibility_weights" ("organizationId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_visibility_weights_organization"`);
+    await queryRunner.query(`DROP TABLE "visibility_weights"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_analytics_metrics_brand_type_period_end"`,
+    );
+    await queryRunner.query(`DROP TABLE "analytics_metrics"`);
+  }
+}
@@ -0,0 +1,79 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAlerts1743465600000 implements MigrationInterface {
+  name = 'CreateAlerts1743465600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "alert_rules" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "metric" character varying(50) NOT NULL,
+        "direction" character varying(10) NOT NULL,
+        "threshold" double precision NOT NULL,
+        "windowDays" integer NOT NULL,
+        "minMentions" integer NOT NULL,
+        "cooldownMinutes" integer NOT NULL,
+        "competitorSetId" uuid,
+        "enabled" boolean NOT NULL DEFAULT true,
+        "lastTriggeredAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_alert_rules" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_alert_rules_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_alert_rules_brand" ON "alert_rules" ("brandId")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE "alerts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "ruleId" uuid NOT NULL,
+        "metric" character varying(50) NOT NULL,
+        "direction" character varying(10) NOT NULL,
+        "status" character varying(20) NOT NULL,
+        "threshold" double precision NOT NULL,
+        "previousValue" double precision NOT NULL,
+        "currentValue" double precision NOT NULL,
+        "change" double precision NOT NULL,
+        "mentionCount" integer NOT NULL,
+        "windowStart" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "windowEnd" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "triggeredAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "acknowledgedAt" TIMESTAMP WITH TIME ZONE,
+        "resolvedAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_alerts" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_alerts_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_alerts_rule" FOREIGN KEY ("ruleId")
+          REFERENCES "alert_rules" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_alerts_rule" ON "alerts" ("ruleId")`,
+    );
+    await queryRunner.query(`
+      CREATE INDEX "IDX_alerts_brand_triggered_at"
+        ON "alerts" ("brandId", "triggeredAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_alerts_brand_triggered_at"`);
+    await queryRunner.query(`DROP INDEX "IDX_alerts_rule"`);
+    await queryRunner.query(`DROP TABLE "alerts"`);
+    await queryRunner.query(`DROP INDEX "IDX_alert_rules_brand"`);
+    await queryRunner.query(`DROP TABLE "alert_rules"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAlertRuleCompetitorSetForeignKey1744502400000
+  implements MigrationInterface
+{
+  name = 'AddAlertRuleCompetitorSetForeignKey1744502400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Rules whose set is already gone could never be evaluated again
+    await queryRunner.query(`
+      UPDATE "alert_rules"
+        SET "competitorSetId" = NULL, "enabled" = false
+        WHERE "competitorSetId" IS NOT NULL
+          AND "competitorSetId" NOT IN (SELECT "id" FROM "competitor_sets")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "alert_rules"
+        ADD CONSTRAINT "FK_alert_rules_competitor_set"
+        FOREIGN KEY ("competitorSetId")
+        REFERENCES "competitor_sets" ("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "alert_rules" DROP CONSTRAINT "FK_alert_rules_competitor_set"`,
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BrandHealthService } from '../brand-health.service';
+import { BrandMentionService } from '../brand-mention.service';
+import { TrendGranularity } from '../../interfaces/brand-health.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('BrandHealthService', () => {
+  let service: BrandHealthService;
+  let brandMentionService: { getSentimentTrend: jest.Mock };
+
+  const startDate = new Date('2025-03-01T00:00:00Z');
+  const endDate = new Date('2025-03-31T23:59:59Z');
+
+  beforeEach(async () => {
+    brandMentionService = { getSentimentTrend: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrandHealthService,
+        { provide: BrandMentionService, useValue: brandMentionService },
+      ],
+    }).compile();
+
+    service = module.get<BrandHealthService>(BrandHealthService);
+  });
+
+  it('should weight overall sentiment by scored mentions per bucket', async () => {
+    brandMentionService.getSentimentTrend.mockResolvedValue([
+      {
+        date: new Date('2025-03-01T00:00:00Z'),
+        sentiment: 0.9,
+        mentionCount: 1,
+        scoredCount: 1,
+      },
+      {
+        date: new Date('2025-03-02T00:00:00Z'),
+        sentiment: 0.1,
+        mentionCount: 4,
+        scoredCount: 3,
+      },
+    ]);
+
+    const result = await service.getBrandHealth(
+      'brand-1',
+      startDate,
+      endDate,
+      TrendGranularity.DAY,
+    );
+
+    expect(result.overallSentiment).toBeCloseTo((0.9 + 0.1 * 3) / 4);
+    expect(result.mentionCount).toBe(5);
+    expect(result.trend).toHaveLength(2);
+  });
+
+  it('should default to daily buckets', async () => {
+    brandMentionService.getSentimentTrend.mockResolvedValue([]);
+
+    await service.getBrandHealth('brand-1', startDate, endDate);
+
+    expect(brandMentionService.getSentimentTrend).toHaveBeenCalledWith(
+      'brand-1',
+      startDate,
+      endDate,
+      TrendGranularity.DAY,
+    );
+  });
+
+  it('should return zeros when there are no mentions in range', async () => {
+    brandMentionService.getSentimentTrend.mockResolvedValue([]);
+
+    const result = await service.getBrandHealth('brand-1', startDate, endDate);
+
+    expect(result).toEqual({ overallSentiment: 0, mentionCount: 0, trend: [] });
+  });
+
+  it('should reject an inverted date range', async () => {
+    await expect(
+      service.getBrandHealth('brand-1', endDate, startDate),
+    ).rejects.toThrow(ValidationError);
+    expect(brandMentionService.getSentimentTrend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BrandMentionService } from '../brand-mention.service';
+import { BrandMentionEntity } from '../../entities/brand-mention.entity';
+
+describe('BrandMentionService', () => {
+  let service: BrandMentionService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => ({ id: 'mention-1', ...entity })),
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrandMentionService,
+        {
+          provide: getRepositoryToken(BrandMentionEntity),
+          useValue: repository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BrandMentionService>(BrandMentionService);
+  });
+
+  describe('recordMention', () => {
+    it('should persist a mention with defaults applied', async () => {
+      const result = await service.recordMention({
+        brandId: 'brand-1',
+        content: 'Acme is great',
+      });
+
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          brandId: 'brand-1',
+          platform: 'manual',
+          content: 'Acme is great',
+          sentiment: null,
+          context: null,
+          mentionedAt: expect.any(Date),
+        }),
+      );
+      expect(result.id).toBe('mention-1');
+    });
+
+    it('should keep the supplied platform and context', async () => {
+      await service.recordMention({
+        brandId: 'brand-1',
+        platform: 'perplexity',
+        content: 'Acme is great',
+        context: { query: 'best anvils' },
+      });
+
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          platform: 'perplexity',
+          context: { query: 'best anvils' },
+        }),
+      );
+    });
+  });
+
+  describe('findByBrand', () => {
+    it('should filter by brand and order newest first', async () => {
+      await service.findByBrand('brand-1');
+
+      expect(repository.find).toHaveBeenCalledWith({
+        where: { brandId: 'brand-1' },
+        order: { mentionedAt: 'DESC' },
+      });
+    });
+
+    it('should return all mentions when no brand is given', async () => {
+      await service.findByBrand();
+
+      expect(repository.find).toHaveBeenCalledWith({
+        where: {},
+        order: { mentionedAt: 'DESC' },
+      });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CitationAuthorityService } from '../citation-authority.service';
+import { CitationService } from '../citation.service';
+import {
+  CitationOwnership,
+  DomainCitationStats,
+} from '../../interfaces/citation.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('CitationAuthorityService', () => {
+  let service: CitationAuthorityService;
+  let citationService: { getDomainStats: jest.Mock; getTotals: jest.Mock };
+
+  const startDate = new Date('2025-03-01T00:00:00Z');
+  const endDate = new Date('2025-03-31T23:59:59Z');
+
+  const stats = (
+    domain: string,
+    citationCount: number,
+    platforms: string[],
+    activeDays: number,
+  ): DomainCitationStats => ({
+    domain,
+    ownership: CitationOwnership.THIRD_PARTY,
+    competitor: null,
+    citationCount,
+    platforms,
+    activeDays,
+    firstCitedAt: startDate,
+    lastCitedAt: endDate,
+  });
+
+  beforeEach(async () => {
+    citationService = {
+      getDomainStats: jest.fn(),
+      getTotals: jest.fn().mockResolvedValue({
+        citationCount: 30,
+        platformCount: 3,
+        activeDays: 10,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CitationAuthorityService,
+        { provide: CitationService, useValue: citationService },
+      ],
+    }).compile();
+
+    service = module.get<CitationAuthorityService>(CitationAuthorityService);
+  });
+
+  it('should score domains by frequency, platform coverage and consistency', async () => {
+    citationService.getDomainStats.mockResolvedValue([
+      stats('acme.com', 20, ['chatgpt', 'copilot', 'perplexity'], 10),
+      stats('reviews.example.com', 9, ['perplexity'], 2),
+      stats('forum.example.org', 1, ['chatgpt'], 1),
+    ]);
+
+    const result = await service.calculateCitationAuthority(
+      'brand-1',
+      startDate,
+      endDate,
+    );
+
+    expect(result.map(domain => domain.domain)).toEqual([
+      'acme.com',
+      'reviews.example.com',
+      'forum.example.org',
+    ]);
+    expect(result[0]).toMatchObject({
+      score: 100,
+      frequency: 1,
+      platformCoverage: 1,
+      consistency: 1,
+    });
+    expect(result[1]).toMatchObject({
+      frequency: 0.76,
+      platformCoverage: 0.33,
+      consistency: 0.2,
+      score: 51.82,
+    });
+    expect(result[2].score).toBeLessThan(result[1].score);
+  });
+
+  it('should rank a domain cited everywhere above a more frequent niche one', async () => {
+    citationService.getDomainStats.mockResolvedValue([
+      stats('niche.example.com', 12, ['perplexity'], 2),
+      stats(
+        'everywhere.example.com',
+        8,
+        ['chatgpt', 'copilot', 'perplexity'],
+        8,
+      ),
+    ]);
+
+    const result = await service.calculateCitationAuthority(
+      'brand-1',
+      startDate,
+      endDate,
+    );
+
+    expect(result[0].domain).toBe('everywhere.example.com');
+  });
+
+  it('should pass the platform filter through', async () => {
+    citationService.getDomainStats.mockResolvedValue([]);
+
+    await service.calculateCitationAuthority(
+      'brand-1',
+      startDate,
+      endDate,
+      'chatgpt',
+    );
+
+    expect(citationService.getDomainStats).toHaveBeenCalledWith(
+      'brand-1',
+      startDate,
+      endDate,
+      'chatgpt',
+    );
+    expect(citationService.getTotals).toHaveBeenCalledWith(
+      'brand-1',
+      startDate,
+      endDate,
+      'chatgpt',
+    );
+  });
+
+  it('should return nothing when no sources were cited', async () => {
+    citationService.getDomainStats.mockResolvedValue([]);
+
+    await expect(
+      service.calculateCitationAuthority('brand-1', startDate, endDate),
+    ).resolves.toEqual([]);
+  });
+
+  it('should reject an inverted range', async () => {
+    await expect(
+      service.calculateCitationAuthority('brand-1', endDate, startDate),
+    ).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CitationService } from '../citation.service';
+import { CitationEntity } from '../../entities/citation.entity';
+import { AIAnswerEntity } from '../../entities/ai-answer.entity';
+import { CitationOwnership } from '../../interfaces/citation.interface';
+import { BrandEntity } from '../../../brands/entities/brand.entity';
+
+describe('CitationService', () => {
+  let service: CitationService;
+  let repository: { create: jest.Mock; save: jest.Mock; find: jest.Mock };
+
+  const brand = {
+    id: 'brand-1',
+    name: 'Acme',
+    domains: ['acme.com'],
+    competitors: [{ name: 'Globex', aliases: [], domains: ['globex.io'] }],
+  } as unknown as BrandEntity;
+
+  const answer = (citations: AIAnswerEntity['citations']): AIAnswerEntity =>
+    ({
+      id: 'answer-1',
+      platform: 'perplexity',
+      citations,
+      receivedAt: new Date('2025-03-10T12:00:00Z'),
+    }) as AIAnswerEntity;
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entities => entities),
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CitationService,
+        { provide: getRepositoryToken(CitationEntity), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<CitationService>(CitationService);
+  });
+
+  describe('recordFromAnswer', () => {
+    it('should normalize domains and flag owned and competitor sources', async () => {
+      const result = await service.recordFromAnswer(
+        answer([
+          { url: 'https://www.Acme.com/pricing', title: 'Pricing' },
+          { url: 'https://blog.globex.io/forecasting' },
+          { url: 'https://reviews.example.com/best-crm' },
+        ]),
+        brand,
+      );
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          answerId: 'answer-1',
+          brandId: 'brand-1',
+          platform: 'perplexity',
+          domain: 'acme.com',
+          title: 'Pricing',
+          position: 1,
+          ownership: CitationOwnership.OWNED,
+          competitor: null,
+          citedAt: new Date('2025-03-10T12:00:00Z'),
+        }),
+        expect.objectContaining({
+          domain: 'blog.globex.io',
+          position: 2,
+          ownership: CitationOwnership.COMPETITOR,
+          competitor: 'Globex',
+        }),
+        expect.objectContaining({
+          domain: 'reviews.example.com',
+          position: 3,
+          ownership: CitationOwnership.THIRD_PARTY,
+          title: null,
+        }),
+      ]);
+    });
+
+    it('should not treat look-alike domains as owned', async () => {
+      const [citation] = await service.recordFromAnswer(
+        answer([{ url: 'https://notacme.com/' }]),
+        brand,
+      );
+
+      expect(citation.ownership).toBe(CitationOwnership.THIRD_PARTY);
+    });
+
+    it('should skip duplicate and empty URLs', async () => {
+      const result = await service.recordFromAnswer(
+        answer([
+          { url: 'https://acme.com/' },
+          { url: 'https://acme.com/' },
+          { url: ' ' },
+        ]),
+        brand,
+      );
+
+      expect(result).toHaveLength(1);
+    });
+
+    it('should not write anything when the answer cites no sources', async () => {
+      await expect(
+        service.recordFromAnswer(answer([]), brand),
+      ).resolves.toEqual([]);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByAnswer', () => {
+    it('should return citations in source order', async () => {
+      await service.findByAnswer('answer-1');
+
+      expect(repository.find).toHaveBeenCalledWith({
+        where: { answerId: 'answer-1' },
+        order: { position: 'ASC' },
+      });
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PromptTrackingService } from '../prompt-tracking.service';
+import { MentionExtractionService } from '../extraction/mention-extraction.service';
+import { CitationService } from '../citation.service';
+import { AlertEvaluatorService } from '../alerts/alert-evaluator.service';
+import { ConversationQueryService } from '../../../conversation-explorer/services/conversation-query.service';
+import { ConversationQuerySource } from '../../../conversation-explorer/interfaces/conversation-topic.interface';
+import { PromptRunEntity } from '../../entities/prompt-run.entity';
+import { AIAnswerEntity } from '../../entities/ai-answer.entity';
+import { PromptRunStatus } from '../../interfaces/prompt-run.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { PlatformConnectorRegistry } from '../../../ai-platforms/services/platform-connector.registry';
+import { AIPlatform } from '../../../ai-platforms/interfaces/platform-connector.interface';
+import { DistributedLockService } from '../../../../cache/distributed-lock.service';
+import { BusinessMetricsService } from '../../../../metrics/services/business-metrics.service';
+import { RateLimitError } from '../../../../shared/errors';
+
+// Replace the metrics and gateway modules wholesale so the test does not
+// depend on the Prometheus service and socket server they wrap
+jest.mock('../../../../metrics/services/business-metrics.service', () => ({
+  BusinessMetricsService: class BusinessMetricsService {},
+}));
+jest.mock('../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('PromptTrackingService', () => {
+  let service: PromptTrackingService;
+  let runRepository: { create: jest.Mock; save: jest.Mock };
+  let answerRepository: { create: jest.Mock; save: jest.Mock };
+  let brandService: { findById: jest.Mock; findAll: jest.Mock };
+  let registry: { list: jest.Mock; submitPrompt: jest.Mock };
+  let mentionExtractionService: { extractFromAnswer: jest.Mock };
+  let citationService: { recordFromAnswer: jest.Mock };
+  let alertEvaluator: { evaluateBrand: jest.Mock };
+  let conversationQueryService: { recordQueries: jest.Mock };
+  let lockService: { withLock: jest.Mock };
+  let businessMetrics: {
+    trackPromptTrackingRun: jest.Mock;
+    trackPromptTrackingError: jest.Mock;
+  };
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  const brand = {
+    id: brandId,
+    name: 'Acme',
+    trackingConfig: {
+      prompts: ['best crm for startups', 'cheapest crm'],
+      keywords: [],
+      excludeKeywords: [],
+      languages: ['en'],
+      regions: ['us'],
+    },
+  };
+
+  beforeEach(async () => {
+    runRepository = {
+      create: jest.fn(data => ({ id: 'run-1', ...data })),
+      save: jest.fn(async entity => entity),
+    };
+    answerRepository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => entity),
+    };
+    brandService = {
+      findById: jest.fn().mockResolvedValue(brand),
+      findAll: jest.fn().mockResolvedValue([brand]),
+    };
+    registry = {
+      list: jest.fn(() => [
+        { platform: AIPlatform.CHATGPT },
+        { platform: AIPlatform.PERPLEXITY },
+      ]),
+      submitPrompt: jest.fn(async (platform: AIPlatform, prompt: string) => ({
+        platform,
+        prompt,
+        text: `Answer from ${platform}`,
+        citations: [{ url: 'https://acme.com/' }],
+        model: 'model-1',
+        receivedAt: new Date('2025-03-10T12:00:00Z'),
+        latencyMs: 42,
+      })),
+    };
+    mentionExtractionService = {
+      extractFromAnswer: jest.fn().mockResolvedValue([]),
+    };
+    citationService = { recordFromAnswer: jest.fn().mockResolvedValue([]) };
+    alertEvaluator = { evaluateBrand: jest.fn().mockResolvedValue([]) };
+    conversationQueryService = {
+      recordQueries: jest.fn().mockResolvedValue([]),
+    };
+    lockService = {
+      withLock: jest.fn((_key: string, fn: () => Promise<unknown>) => fn()),
+    };
+    businessMetrics = {
+      trackPromptTrackingRun: jest.fn(),
+      trackPromptTrackingError: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromptTrackingService,
+        {
+          provide: getRepositoryToken(PromptRunEntity),
+          useValue: runRepository,
+        },
+        {
+          provide: getRepositoryToken(AIAnswerEntity),
+          useValue: answerRepository,
+        },
+        { provide: BrandService, useValue: brandService },
+        { provide: PlatformConnectorRegistry, useValue: registry },
+        { provide: CitationService, useValue: citationService },
+        { provide: AlertEvaluatorService, useValue: alertEvaluator },
+        {
+          provide: ConversationQueryService,
+          useValue: conversationQueryService,
+        },
+        {
+          provide: MentionExtractionService,
+          useValue: mentionExtractionService,
+        },
+        { provide: DistributedLockService, useValue: lockService },
+        { provide: BusinessMetricsService, useValue: businessMetrics },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(() => ({ tracking: { lockTtlMs: 60000 } })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PromptTrackingService>(PromptTrackingService);
+  });
+
+  it('should run every prompt on every platform under a per-brand lock', async () => {
+    const run = await service.runForBrand(brandId);
+
+    expect(lockService.withLock).toHaveBeenCalledWith(
+      `prompt-tracking:${brandId}`,
+      expect.any(Function),
+      { ttl: 60000, maxRetries: 1 },
+    );
+    expect(registry.submitPrompt).toHaveBeenCalledTimes(4);
+    expect(registry.submitPrompt).toHaveBeenCalledWith(
+      AIPlatform.CHATGPT,
+      'best crm for startups',
+      { language: 'en', region: 'us' },
+    );
+    expect(answerRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runId: 'run-1',
+        brandId,
+        platform: AIPlatform.PERPLEXITY,
+        prompt: 'cheapest crm',
+        text: 'Answer from perplexity',
+        modelVersion: null,
+      }),
+    );
+    expect(citationService.recordFromAnswer).toHaveBeenCalledTimes(4);
+    expect(mentionExtractionService.extractFromAnswer).toHaveBeenCalledTimes(4);
+    expect(mentionExtractionService.extractFromAnswer).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: AIPlatform.CHATGPT }),
+      brand,
+    );
+    expect(conversationQueryService.recordQueries).toHaveBeenCalledTimes(4);
+    expect(conversationQueryService.recordQueries).toHaveBeenCalledWith(
+      brandId,
+      [
+        {
+          text: 'cheapest crm',
+          platform: AIPlatform.PERPLEXITY,
+          observedAt: new Date('2025-03-10T12:00:00Z'),
+        },
+      ],
+      ConversationQuerySource.TRACKED,
+    );
+    expect(run).toMatchObject({
+      status: PromptRunStatus.COMPLETED,
+      promptCount: 2,
+      answerCount: 4,
+      errors: [],
+    });
+    expect(run?.durationMs).toEqual(expect.any(Number));
+    expect(businessMetrics.trackPromptTrackingRun).toHaveBeenCalledWith(
+      PromptRunStatus.COMPLETED,
+      expect.any(Number),
+    );
+    expect(alertEvaluator.evaluateBrand).toHaveBeenCalledWith(brandId);
+  });
+
+  it('should record platform failures and mark the run partial', async () => {
+    registry.submitPrompt.mockImplementationOnce(async () => {
+      throw new RateLimitError('Rate limit exceeded for chatgpt');
+    });
+
+    const run = await service.runForBrand(brandId);
+
+    expect(run?.status).toBe(PromptRunStatus.PARTIAL);
+    expect(run?.answerCount).toBe(3);
+    expect(run?.errors).toEqual([
+      {
+        platform: AIPlatform.CHATGPT,
+        prompt: 'best crm for startups',
+        message: 'Rate limit exceeded for chatgpt',
+      },
+    ]);
+    expect(businessMetrics.trackPromptTrackingError).toHaveBeenCalledWith(
+      AIPlatform.CHATGPT,
+    );
+  });
+
+  it('should not fail the run when mention extraction fails', async () => {
+    mentionExtractionService.extractFromAnswer.mockRejectedValue(
+      new Error('database unavailable'),
+    );
+
+    const run = await service.runForBrand(brandId);
+
+    expect(run?.status).toBe(PromptRunStatus.COMPLETED);
+    expect(run?.answerCount).toBe(4);
+  });
+
+  it('should not fail the run when alert evaluation fails', async () => {
+    alertEvaluator.evaluateBrand.mockRejectedValue(new Error('timeout'));
+
+    const run = await service.runForBrand(brandId);
+
+    expect(run?.status).toBe(PromptRunStatus.COMPLETED);
+  });
+
+  it('should mark the run failed when no platform answered', async () => {
+    registry.submitPrompt.mockRejectedValue(new Error('offline'));
+
+    const run = await service.runForBrand(brandId);
+
+    expect(run?.status).toBe(PromptRunStatus.FAILED);
+    expect(run?.errors).toHaveLength(4);
+    expect(alertEvaluator.evaluateBrand).not.toHaveBeenCalled();
+    expect(businessMetrics.trackPromptTrackingRun).toHaveBeenCalledWith(
+      PromptRunStatus.FAILED,
+      expect.any(Number),
+    );
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    lockService.withLock.mockResolvedValue(null);
+
+    await expect(service.runForBrand(brandId)).resolves.toBeNull();
+    expect(registry.submitPrompt).not.toHaveBeenCalled();
+    expect(runRepository.save).not.toHaveBeenCalled();
+    expect(alertEvaluator.evaluateBrand).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate alerts while holding the lock', async () => {
+    let locked = false;
+    lockService.withLock.mockImplementation(
+      async (_key: string, fn: () => Promise<unknown>) => {
+        locked = true;
+        try {
+          return await fn();
+        } finally {
+          locked = false;
+        }
+      },
+    );
+    let lockedDuringEvaluation = false;
+    alertEvaluator.evaluateBrand.mockImplementation(async () => {
+      lockedDuringEvaluation = locked;
+      return [];
+    });
+
+    await service.runForBrand(brandId);
+
+    expect(alertEvaluator.evaluateBrand).toHaveBeenCalledWith(brandId);
+    expect(lockedDuringEvaluation).toBe(true);
+  });
+
+  it('should keep going when one brand fails during runAll', async () => {
+    brandService.findAll.mockResolvedValue([{ id: 'missing-brand' }, brand]);
+    brandService.findById.mockImplementation(async (id: string) => {
+      if (id !== brandId) throw new Error('not found');
+      return brand;
+    });
+
+    const runs = await service.runAll();
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].brandId).toBe(brandId);
+  });
+});
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ShareOfVoiceService } from '../share-of-voice.service';
+import { BrandMentionService } from '../brand-mention.service';
+import { BrandService } from '../../../brands/services/brand.service';
+import { CompetitorSetService } from '../../../brands/services/competitor-set.service';
+import { TrendGranularity } from '../../interfaces/brand-health.interface';
+import { MentionAppearance } from '../../interfaces/share-of-voice.interface';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('ShareOfVoiceService', () => {
+  let service: ShareOfVoiceService;
+  let brandMentionService: { getAnswerAppearances: jest.Mock };
+  let competitorSetService: { findSet: jest.Mock };
+
+  const brandId = 'brand-1';
+  const startDate = new Date('2025-03-01T00:00:00Z');
+  const endDate = new Date('2025-03-31T23:59:59Z');
+
+  const appearance = (
+    answerId: string,
+    competitor: string | null,
+    rankPosition: number | null,
+    overrides: Partial<MentionAppearance> = {},
+  ): MentionAppearance => ({
+    answerId,
+    platform: 'chatgpt',
+    prompt: 'best crm',
+    competitor,
+    rankPosition,
+    mentionedAt: new Date('2025-03-03T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    brandMentionService = { getAnswerAppearances: jest.fn() };
+    competitorSetService = { findSet: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShareOfVoiceService,
+        { provide: BrandMentionService, useValue: brandMentionService },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              id: brandId,
+              name: 'Acme',
+              competitors: [{ name: 'Globex' }, { name: 'Initech' }],
+            }),
+          },
+        },
+        { provide: CompetitorSetService, useValue: competitorSetService },
+      ],
+    }).compile();
+
+    service = module.get<ShareOfVoiceService>(ShareOfVoiceService);
+  });
+
+  it('should weight appearances by the inverse of their rank', async () => {
+    brandMentionService.getAnswerAppearances.mockResolvedValue([
+      appearance('a1', null, 1),
+      appearance('a1', 'Globex', 2),
+      appearance('a2', 'Globex', null),
+      appearance('a2', null, null),
+    ]);
+
+    const report = await service.getShareOfVoice(brandId, startDate, endDate);
+
+    expect(report.answerCount).toBe(2);
+    expect(report.entries).toEqual([
+      {
+        name: 'Acme',
+        competitor: false,
+        appearances: 2,
+        weightedScore: 2,
+        share: 57.14,
+      },
+      {
+        name: 'Globex',
+        competitor: true,
+        appearances: 2,
+        weightedScore: 1.5,
+        share: 42.86,
+      },
+      {
+        name: 'Initech',
+        competitor: true,
+        appearances: 0,
+        weightedScore: 0,
+        share: 0,
+      },
+    ]);
+  });
+
+  it('should break down by platform, topic and time', async () => {
+    brandMentionService.getAnswerAppearances.mockResolvedValue([
+      appearance('a1', null, null),
+      appearance('a2', 'Globex', null, {
+        platform: 'perplexity',
+        prompt: 'cheap crm',
+        mentionedAt: new Date('2025-03-12T09:00:00Z'),
+      }),
+    ]);
+
+    const report = await service.getShareOfVoice(brandId, startDate, endDate, {
+      granularity: TrendGranularity.WEEK,
+    });
+
+    expect(report.byPlatform.map(segment => segment.key)).toEqual([
+      'chatgpt',
+      'perplexity',
+    ]);
+    expect(report.byPlatform[1].entries[0]).toMatchObject({
+      name: 'Globex',
+      share: 100,
+    });
+    expect(report.byTopic.map(segment => segment.key)).toEqual([
+      'best crm',
+      'cheap crm',
+    ]);
+    expect(report.trend.map(point => point.date)).toEqual([
+      new Date('2025-03-03T00:00:00Z'),
+      new Date('2025-03-10T00:00:00Z'),
+    ]);
+    expect(report.trend[0].entries[0]).toMatchObject({
+      name: 'Acme',
+      share: 100,
+    });
+  });
+
+  it('should only compare against the competitors in the set', async () => {
+    competitorSetService.findSet.mockResolvedValue({
+      id: 'set-1',
+      brandId,
+      competitors: ['Initech'],
+    });
+    brandMentionService.getAnswerAppearances.mockResolvedValue([
+      appearance('a1', null, 1),
+      appearance('a1', 'Globex', 2),
+      appearance('a1', 'Initech', 3),
+    ]);
+
+    const report = await service.getShareOfVoice(brandId, startDate, endDate, {
+      competitorSetId: 'set-1',
+      platform: 'chatgpt',
+    });
+
+    expect(competitorSetService.findSet).toHaveBeenCalledWith('set-1', brandId);
+    expect(brandMentionService.getAnswerAppearances).toHaveBeenCalledWith(
+      brandId,
+      startDate,
+      endDate,
+      'chatgpt',
+    );
+    expect(report.competitorSetId).toBe('set-1');
+    expect(report.entries.map(entry => [entry.name, entry.share])).toEqual([
+      ['Acme', 75],
+      ['Initech', 25],
+    ]);
+  });
+
+  it('should reject a competitor set from another brand', async () => {
+    competitorSetService.findSet.mockRejectedValue(
+      new NotFoundError('Competitor set with id set-2 not found'),
+    );
+
+    await expect(
+      service.getShareOfVoice(brandId, startDate, endDate, {
+        competitorSetId: 'set-2',
+      }),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should report zero shares when nothing was mentioned', async () => {
+    brandMentionService.getAnswerAppearances.mockResolvedValue([]);
+
+    const report = await service.getShareOfVoice(brandId, startDate, endDate);
+
+    expect(report.answerCount).toBe(0);
+    expect(report.entries.every(entry => entry.share === 0)).toBe(true);
+    expect(report.trend).toEqual([]);
+  });
+
+  it('should reject an inverted range', async () => {
+    await expect(
+      service.getShareOfVoice(brandId, endDate, startDate),
+    ).rejects.toThrow(ValidationError);
+  });
+});
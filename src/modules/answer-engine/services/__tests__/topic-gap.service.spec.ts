@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TopicGapService } from '../topic-gap.service';
+import { BrandMentionService } from '../brand-mention.service';
+import { CitationService } from '../citation.service';
+import { PromptTrackingService } from '../prompt-tracking.service';
+import { BrandPageService } from '../../../brands/services/brand-page.service';
+import { ConversationExplorerService } from '../../../conversation-explorer/services/conversation-explorer.service';
+import { TopicClusterer } from '../../../conversation-explorer/services/topic-clusterer';
+import { ClusteredTopic } from '../../../conversation-explorer/interfaces/conversation-topic.interface';
+import { VolumeConfidence } from '../../../conversation-explorer/interfaces/search-volume.interface';
+import { MentionAppearance } from '../../interfaces/share-of-voice.interface';
+import { TopicGapType } from '../../interfaces/topic-gap.interface';
+import { parseCsv } from '../../../../shared/utils/csv.utils';
+
+// Replace the metrics and gateway modules wholesale so the test does not
+// depend on the Prometheus service and socket server they wrap
+jest.mock('../../../../metrics/services/business-metrics.service', () => ({
+  BusinessMetricsService: class BusinessMetricsService {},
+}));
+jest.mock('../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('TopicGapService', () => {
+  let service: TopicGapService;
+  let explorerService: { topicsWithQueries: jest.Mock };
+
+  const brandId = 'brand-1';
+  const startDate = new Date('2025-03-01T00:00:00Z');
+  const endDate = new Date('2025-03-31T23:59:59Z');
+
+  const topic = (
+    label: string,
+    terms: string[],
+    queries: string[],
+    estimate: number,
+  ): ClusteredTopic => ({
+    topic: {
+      key: label.replace(/\s+/g, '-'),
+      label,
+      terms,
+      volume: 10,
+      previousVolume: 5,
+      velocity: 1,
+      firstSeenAt: startDate,
+      lastSeenAt: endDate,
+      representativeQueries: queries.map(text => ({ text, count: 5 })),
+      searchVolume: {
+        estimate,
+        low: estimate / 2,
+        high: estimate * 2,
+        confidence: VolumeConfidence.MEDIUM,
+        observedCount: 10,
+        platformCoverage: 0.6,
+      },
+    },
+    queries,
+  });
+
+  const appearance = (
+    answerId: string,
+    prompt: string,
+    competitor: string | null,
+  ): MentionAppearance => ({
+    answerId,
+    platform: 'chatgpt',
+    prompt,
+    competitor,
+    rankPosition: null,
+    mentionedAt: new Date('2025-03-10T10:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    explorerService = {
+      topicsWithQueries: jest
+        .fn()
+        .mockResolvedValue([
+          topic(
+            'crm startup',
+            ['crm', 'startup', 'crm startup', 'best', 'best crm'],
+            ['best crm for startups', 'cheapest crm for startups'],
+            4000,
+          ),
+          topic(
+            'email marketing',
+            ['email', 'marketing', 'email marketing'],
+            ['email marketing tools'],
+            1000,
+          ),
+          topic(
+            'gdpr checklist',
+            ['gdpr', 'checklist', 'gdpr checklist'],
+            ['gdpr checklist'],
+            500,
+          ),
+        ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TopicGapService,
+        TopicClusterer,
+        { provide: ConversationExplorerService, useValue: explorerService },
+        {
+          provide: BrandPageService,
+          useValue: {
+            findByBrand: jest.fn().mockResolvedValue([
+              {
+                url: 'https://acme.com/blog/email-marketing-tools',
+                path: '/blog/email-marketing-tools',
+                title: null,
+              },
+            ]),
+          },
+        },
+        {
+          provide: CitationService,
+          useValue: {
+            getOwnedPages: jest.fn().mockResolvedValue([
+              {
+                url: 'https://acme.com/resources/42#top',
+                title: 'The GDPR Checklist',
+              },
+            ]),
+          },
+        },
+        {
+          provide: BrandMentionService,
+          useValue: {
+            getAnswerAppearances: jest
+              .fn()
+              .mockResolvedValue([
+                appearance('a1', 'Best CRM for startups', 'Globex'),
+                appearance('a2', 'best crm for  startups', 'Globex'),
+                appearance('a3', 'best crm for startups', 'Initech'),
+                appearance('a5', 'email marketing tools', null),
+                appearance('a6', 'unrelated prompt', null),
+              ]),
+          },
+        },
+        {
+          provide: PromptTrackingService,
+          useValue: {
+            countAnswersByPrompt: jest.fn().mockResolvedValue(
+              new Map([
+                ['best crm for startups', 4],
+                ['email marketing tools', 2],
+              ]),
+            ),
+          },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<TopicGapService>(TopicGapService);
+  });
+
+  it('should rank topics the brand neither covers nor appears for first', async () => {
+    const report = await service.getReport(brandId, startDate, endDate);
+
+    expect(explorerService.topicsWithQueries).toHaveBeenCalledWith(
+      brandId,
+      startDate,
+      endDate,
+      50,
+    );
+    expect(report.pageCount).toBe(2);
+    expect(report.gaps.map(gap => gap.topic.label)).toEqual([
+      'crm startup',
+      'gdpr checklist',
+    ]);
+    expect(report.gaps[0]).toEqual(
+      expect.objectContaining({
+        type: TopicGapType.CONTENT_AND_VISIBILITY,
+        priority: 4000,
+        demand: 4000,
+        answerCount: 4,
+        mentionedAnswerCount: 0,
+        visibility: 0,
+        pages: [],
+        competitors: [
+          { name: 'Globex', answerCount: 2 },
+          { name: 'Initech', answerCount: 1 },
+        ],
+      }),
+    );
+  });
+
+  it('should match cited brand pages by their title', async () => {
+    const report = await service.getReport(brandId, startDate, endDate);
+
+    expect(report.gaps[1]).toEqual(
+      expect.objectContaining({
+        type: TopicGapType.VISIBILITY,
+        priority: 250,
+        answerCount: 0,
+        visibility: null,
+        contentMatch: 1,
+        pages: ['https://acme.com/resources/42'],
+      }),
+    );
+  });
+
+  it('should include covered topics on request', async () => {
+    const report = await service.getReport(brandId, startDate, endDate, {
+      includeCovered: true,
+    });
+
+    expect(report.gaps.map(gap => gap.topic.label)).toEqual([
+      'crm startup',
+      'email marketing',
+      'gdpr checklist',
+    ]);
+    expect(report.gaps[1]).toEqual(
+      expect.objectContaining({
+        type: TopicGapType.NONE,
+        priority: 250,
+        visibility: 0.5,
+        pages: ['https://acme.com/blog/email-marketing-tools'],
+      }),
+    );
+  });
+
+  it('should export the report as CSV', async () => {
+    const rows = parseCsv(
+      await service.exportCsv(brandId, startDate, endDate, { limit: 1 }),
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].slice(0, 4)).toEqual(['topic', 'gap', 'priority', 'demand']);
+    expect(rows[1]).toEqual([
+      'crm startup',
+      'content_and_visibility',
+      '4000',
+      '4000',
+      '2000',
+      '8000',
+      'medium',
+      '10',
+      '1',
+      '4',
+      '0',
+      '0',
+      '0',
+      '',
+      'Globex (2); Initech (1)',
+      'best crm for startups; cheapest crm for startups',
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AlertEvaluatorService } from '../alert-evaluator.service';
+import { AlertRuleService } from '../alert-rule.service';
+import { AlertService } from '../alert.service';
+import { BrandHealthService } from '../../brand-health.service';
+import { ShareOfVoiceService } from '../../share-of-voice.service';
+import { AnalyticsGateway } from '../../../../real-time/gateways/analytics.gateway';
+import { NotificationService } from '../../../../notifications/services/notification.service';
+import { AlertRuleEntity } from '../../../entities/alert-rule.entity';
+import { NotFoundError } from '../../../../../shared/errors';
+import {
+  AlertDirection,
+  AlertMetric,
+  AlertStatus,
+} from '../../../interfaces/alert.interface';
+
+// Replace the gateway module wholesale so the test does not depend on the
+// socket server it wraps
+jest.mock('../../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('AlertEvaluatorService', () => {
+  let service: AlertEvaluatorService;
+  let alertRuleService: {
+    findEnabledByBrand: jest.Mock;
+    markTriggered: jest.Mock;
+    disableRule: jest.Mock;
+  };
+  let alertService: { create: jest.Mock };
+  let brandHealthService: { getBrandHealth: jest.Mock };
+  let shareOfVoiceService: { getShareOfVoice: jest.Mock };
+  let analyticsGateway: { emitAlertTriggered: jest.Mock };
+  let notificationService: { notify: jest.Mock };
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  const now = new Date('2025-03-15T12:00:00Z');
+  const windowStart = new Date('2025-03-08T12:00:00Z');
+
+  const rule = (overrides: Partial<AlertRuleEntity> = {}): AlertRuleEntity =>
+    ({
+      id: 'rule-1',
+      brandId,
+      name: 'Sentiment drop',
+      metric: AlertMetric.SENTIMENT,
+      direction: AlertDirection.DROP,
+      threshold: 0.2,
+      windowDays: 7,
+      minMentions: 5,
+      cooldownMinutes: 60,
+      competitorSetId: null,
+      enabled: true,
+      lastTriggeredAt: null,
+      ...overrides,
+    }) as AlertRuleEntity;
+
+  const health = (overallSentiment: number, scoredCount: number) => ({
+    overallSentiment,
+    mentionCount: scoredCount,
+    trend: [
+      {
+        date: now,
+        sentiment: overallSentiment,
+        mentionCount: scoredCount,
+        scoredCount,
+      },
+    ],
+  });
+
+  /** Previous window first, current window second */
+  const mockSentiment = (previous: number, current: number, scored = 10) => {
+    brandHealthService.getBrandHealth.mockImplementation(
+      async (_brandId: string, start: Date) =>
+        start < windowStart
+          ? health(previous, scored)
+          : health(current, scored),
+    );
+  };
+
+  beforeEach(async () => {
+    alertRuleService = {
+      findEnabledByBrand: jest.fn().mockResolvedValue([]),
+      markTriggered: jest.fn(async entity => entity),
+      disableRule: jest.fn(async entity => entity),
+    };
+    alertService = {
+      create: jest.fn(async data => ({ id: 'alert-1', ...data })),
+    };
+    brandHealthService = { getBrandHealth: jest.fn() };
+    shareOfVoiceService = { getShareOfVoice: jest.fn() };
+    analyticsGateway = { emitAlertTriggered: jest.fn() };
+    notificationService = { notify: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertEvaluatorService,
+        { provide: AlertRuleService, useValue: alertRuleService },
+        { provide: AlertService, useValue: alertService },
+        { provide: BrandHealthService, useValue: brandHealthService },
+        { provide: ShareOfVoiceService, useValue: shareOfVoiceService },
+        { provide: AnalyticsGateway, useValue: analyticsGateway },
+        { provide: NotificationService, useValue: notificationService },
+      ],
+    }).compile();
+
+    service = module.get<AlertEvaluatorService>(AlertEvaluatorService);
+  });
+
+  it('should raise and emit an alert when sentiment drops past the threshold', async () => {
+    mockSentiment(0.5, 0.2);
+
+    const alert = await service.evaluateRule(rule(), now);
+
+    expect(brandHealthService.getBrandHealth).toHaveBeenCalledWith(
+      brandId,
+      windowStart,
+      now,
+    );
+    expect(alertService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        brandId,
+        ruleId: 'rule-1',
+        status: AlertStatus.OPEN,
+        previousValue: 0.5,
+        currentValue: 0.2,
+        change: -0.3,
+        mentionCount: 10,
+        windowStart,
+        windowEnd: now,
+        triggeredAt: now,
+      }),
+    );
+    expect(alertRuleService.markTriggered).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'rule-1' }),
+      now,
+    );
+    expect(analyticsGateway.emitAlertTriggered).toHaveBeenCalledWith(
+      brandId,
+      expect.objectContaining({
+        id: 'alert-1',
+        ruleName: 'Sentiment drop',
+        metric: AlertMetric.SENTIMENT,
+        change: -0.3,
+      }),
+    );
+    expect(notificationService.notify).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'alert.triggered',
+        brandId,
+        subject: 'Alert: Sentiment drop',
+        payload: expect.objectContaining({ id: 'alert-1', change: -0.3 }),
+      }),
+    );
+    expect(alert?.id).toBe('alert-1');
+  });
+
+  it('should keep the alert when notifications cannot be sent', async () => {
+    mockSentiment(0.5, 0.2);
+    notificationService.notify.mockRejectedValue(new Error('db unavailable'));
+
+    const alert = await service.evaluateRule(rule(), now);
+
+    expect(alert?.id).toBe('alert-1');
+    expect(analyticsGateway.emitAlertTriggered).toHaveBeenCalled();
+  });
+
+  it('should not wait for notifications to be delivered', async () => {
+    mockSentiment(0.5, 0.2);
+    notificationService.notify.mockReturnValue(new Promise(() => undefined));
+
+    const alert = await service.evaluateRule(rule(), now);
+
+    expect(alert?.id).toBe('alert-1');
+    expect(notificationService.notify).toHaveBeenCalled();
+  });
+
+  it('should disable a rule whose competitor set was deleted', async () => {
+    shareOfVoiceService.getShareOfVoice.mockRejectedValue(
+      new NotFoundError('Competitor set with id set-1 not found', {
+        competitorSetId: 'set-1',
+        brandId,
+      }),
+    );
+    const deleted = rule({
+      metric: AlertMetric.SHARE_OF_VOICE,
+      competitorSetId: 'set-1',
+    });
+
+    await expect(service.evaluateRule(deleted, now)).resolves.toBeNull();
+    expect(alertRuleService.disableRule).toHaveBeenCalledWith(deleted);
+    expect(alertService.create).not.toHaveBeenCalled();
+  });
+
+  it('should not fire for a change in the other direction', async () => {
+    mockSentiment(0.2, 0.5);
+
+    await expect(service.evaluateRule(rule(), now)).resolves.toBeNull();
+    expect(alertService.create).not.toHaveBeenCalled();
+    expect(notificationService.notify).not.toHaveBeenCalled();
+  });
+
+  it('should not fire while a window has too few mentions', async () => {
+    mockSentiment(0.5, 0.2, 3);
+
+    await expect(service.evaluateRule(rule(), now)).resolves.toBeNull();
+  });
+
+  it('should stay quiet during the cooldown', async () => {
+    mockSentiment(0.5, 0.2);
+
+    const cooling = rule({ lastTriggeredAt: new Date('2025-03-15T11:30:00Z') });
+    await expect(service.evaluateRule(cooling, now)).resolves.toBeNull();
+    expect(brandHealthService.getBrandHealth).not.toHaveBeenCalled();
+
+    const cooled = rule({ lastTriggeredAt: new Date('2025-03-15T10:59:00Z') });
+    await expect(service.evaluateRule(cooled, now)).resolves.not.toBeNull();
+  });
+
+  it('should fire on a share of voice swing in either direction', async () => {
+    shareOfVoiceService.getShareOfVoice.mockImplementation(
+      async (_brandId: string, start: Date) => ({
+        answerCount: 12,
+        entries: [
+          { name: 'Globex', competitor: true, share: 40 },
+          {
+            name: 'Acme',
+            competitor: false,
+            share: start < windowStart ? 45 : 60,
+          },
+        ],
+      }),
+    );
+
+    const alert = await service.evaluateRule(
+      rule({
+        metric: AlertMetric.SHARE_OF_VOICE,
+        direction: AlertDirection.ANY,
+        threshold: 10,
+        competitorSetId: 'set-1',
+      }),
+      now,
+    );
+
+    expect(shareOfVoiceService.getShareOfVoice).toHaveBeenCalledWith(
+      brandId,
+      windowStart,
+      now,
+      { competitorSetId: 'set-1' },
+    );
+    expect(alert).toMatchObject({
+      metric: AlertMetric.SHARE_OF_VOICE,
+      previousValue: 45,
+      currentValue: 60,
+      change: 15,
+      mentionCount: 12,
+    });
+  });
+
+  it('should keep evaluating other rules when one fails', async () => {
+    alertRuleService.findEnabledByBrand.mockResolvedValue([
+      rule({ id: 'broken', metric: AlertMetric.SHARE_OF_VOICE }),
+      rule(),
+    ]);
+    shareOfVoiceService.getShareOfVoice.mockRejectedValue(
+      new Error('competitor set not found'),
+    );
+    mockSentiment(0.5, 0.2);
+
+    const alerts = await service.evaluateBrand(brandId, now);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].ruleId).toBe('rule-1');
+  });
+});
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AlertRuleService } from '../alert-rule.service';
+import { AlertRuleEntity } from '../../../entities/alert-rule.entity';
+import {
+  AlertDirection,
+  AlertMetric,
+} from '../../../interfaces/alert.interface';
+import { BrandService } from '../../../../brands/services/brand.service';
+import { CompetitorSetService } from '../../../../brands/services/competitor-set.service';
+import { NotFoundError, ValidationError } from '../../../../../shared/errors';
+
+describe('AlertRuleService', () => {
+  let service: AlertRuleService;
+  let repository: { create: jest.Mock; save: jest.Mock; findOne: jest.Mock };
+  let brandService: { assertExists: jest.Mock };
+  let competitorSetService: { findSet: jest.Mock };
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => entity),
+      findOne: jest.fn(),
+    };
+    brandService = { assertExists: jest.fn().mockResolvedValue(undefined) };
+    competitorSetService = { findSet: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertRuleService,
+        { provide: getRepositoryToken(AlertRuleEntity), useValue: repository },
+        { provide: BrandService, useValue: brandService },
+        { provide: CompetitorSetService, useValue: competitorSetService },
+      ],
+    }).compile();
+
+    service = module.get<AlertRuleService>(AlertRuleService);
+  });
+
+  describe('createRule', () => {
+    it('should apply defaults suited to the metric', async () => {
+      const sentiment = await service.createRule({
+        brandId,
+        name: ' Sentiment drop ',
+        metric: AlertMetric.SENTIMENT,
+        threshold: 0.2,
+      });
+      const shareOfVoice = await service.createRule({
+        brandId,
+        name: 'Share of voice swing',
+        metric: AlertMetric.SHARE_OF_VOICE,
+        threshold: 10,
+      });
+
+      expect(sentiment).toMatchObject({
+        name: 'Sentiment drop',
+        direction: AlertDirection.DROP,
+        windowDays: 7,
+        minMentions: 5,
+        cooldownMinutes: 1440,
+        competitorSetId: null,
+        enabled: true,
+      });
+      expect(shareOfVoice.direction).toBe(AlertDirection.ANY);
+    });
+
+    it('should reject out of range limits', async () => {
+      await expect(
+        service.createRule({
+          brandId,
+          name: 'Broken',
+          metric: AlertMetric.SENTIMENT,
+          threshold: 0,
+          windowDays: 0,
+        }),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should require the competitor set to belong to the brand', async () => {
+      competitorSetService.findSet.mockRejectedValue(
+        new NotFoundError('Competitor set with id set-1 not found'),
+      );
+
+      await expect(
+        service.createRule({
+          brandId,
+          name: 'Swing',
+          metric: AlertMetric.SHARE_OF_VOICE,
+          threshold: 10,
+          competitorSetId: 'set-1',
+        }),
+      ).rejects.toThrow(NotFoundError);
+      expect(competitorSetService.findSet).toHaveBeenCalledWith(
+        'set-1',
+        brandId,
+      );
+    });
+  });
+
+  describe('updateRule', () => {
+    it('should update only the given fields', async () => {
+      repository.findOne.mockResolvedValue({
+        id: 'rule-1',
+        brandId,
+        name: 'Sentiment drop',
+        metric: AlertMetric.SENTIMENT,
+        direction: AlertDirection.DROP,
+        threshold: 0.2,
+        windowDays: 7,
+        minMentions: 5,
+        cooldownMinutes: 60,
+        competitorSetId: null,
+        enabled: true,
+      });
+
+      const rule = await service.updateRule('rule-1', {
+        threshold: 0.3,
+        enabled: false,
+      });
+
+      expect(rule).toMatchObject({
+        threshold: 0.3,
+        enabled: false,
+        windowDays: 7,
+        direction: AlertDirection.DROP,
+      });
+    });
+
+    it('should throw NotFoundError for a missing rule', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.updateRule('rule-1', {})).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AlertService } from '../alert.service';
+import { AlertEntity } from '../../../entities/alert.entity';
+import { AlertStatus } from '../../../interfaces/alert.interface';
+import { NotFoundError, ValidationError } from '../../../../../shared/errors';
+
+describe('AlertService', () => {
+  let service: AlertService;
+  let repository: { findOne: jest.Mock; save: jest.Mock };
+
+  const alertId = 'c2a7d0a4-5c0f-4d8e-9c43-0f5f0e8f6d21';
+
+  beforeEach(async () => {
+    repository = {
+      findOne: jest.fn(),
+      save: jest.fn(async entity => entity),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertService,
+        { provide: getRepositoryToken(AlertEntity), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<AlertService>(AlertService);
+  });
+
+  it('should acknowledge an open alert', async () => {
+    repository.findOne.mockResolvedValue({
+      id: alertId,
+      status: AlertStatus.OPEN,
+    });
+
+    const alert = await service.acknowledge(alertId);
+
+    expect(alert.status).toBe(AlertStatus.ACKNOWLEDGED);
+    expect(alert.acknowledgedAt).toEqual(expect.any(Date));
+  });
+
+  it('should not acknowledge a resolved alert', async () => {
+    repository.findOne.mockResolvedValue({
+      id: alertId,
+      status: AlertStatus.RESOLVED,
+    });
+
+    await expect(service.acknowledge(alertId)).rejects.toThrow(ValidationError);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should resolve an acknowledged alert', async () => {
+    repository.findOne.mockResolvedValue({
+      id: alertId,
+      status: AlertStatus.ACKNOWLEDGED,
+    });
+
+    const alert = await service.resolve(alertId);
+
+    expect(alert.status).toBe(AlertStatus.RESOLVED);
+    expect(alert.resolvedAt).toEqual(expect.any(Date));
+  });
+
+  it('should not resolve an alert twice', async () => {
+    repository.findOne.mockResolvedValue({
+      id: alertId,
+      status: AlertStatus.RESOLVED,
+    });
+
+    await expect(service.resolve(alertId)).rejects.toThrow(ValidationError);
+  });
+
+  it('should throw NotFoundError for a missing alert', async () => {
+    repository.findOne.mockResolvedValue(null);
+
+    await expect(service.resolve(alertId)).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { NotificationService } from '../../../notifications/services/notification.service';
+import { Notification } from '../../../notifications/interfaces/notification.interface';
+import { NotFoundError } from '../../../../shared/errors';
+import { BrandHealthService } from '../brand-health.service';
+import { ShareOfVoiceService } from '../share-of-voice.service';
+import { AlertRuleService } from './alert-rule.service';
+import { AlertService } from './alert.service';
+import { AlertRuleEntity } from '../../entities/alert-rule.entity';
+import { AlertEntity } from '../../entities/alert.entity';
+import {
+  AlertDirection,
+  AlertMetric,
+  AlertStatus,
+  AlertTriggeredEvent,
+  MetricComparison,
+} from '../../interfaces/alert.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+interface MetricWindow {
+  value: number;
+  mentionCount: number;
+}
+
+/**
+ * Checks a brand's alert rules against its latest aggregates, records an
+ * alert for each rule that fires, pushes it to the analytics namespace and
+ * sends it to the brand's notification destinations
+ */
+@Injectable()
+export class AlertEvaluatorService {
+  private readonly logger = new Logger(AlertEvaluatorService.name);
+
+  constructor(
+    private readonly alertRuleService: AlertRuleService,
+    private readonly alertService: AlertService,
+    private readonly brandHealthService: BrandHealthService,
+    private readonly shareOfVoiceService: ShareOfVoiceService,
+    private readonly analyticsGateway: AnalyticsGateway,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Evaluate every enabled rule of a brand. A rule that fails to evaluate is
+   * logged and does not stop the others.
+   * @param brandId - Brand ID
+   * @param now - End of the current comparison window
+   * @returns The alerts raised
+   */
+  async evaluateBrand(
+    brandId: string,
+    now: Date = new Date(),
+  ): Promise<AlertEntity[]> {
+    const rules = await this.alertRuleService.findEnabledByBrand(brandId);
+    const alerts: AlertEntity[] = [];
+
+    for (const rule of rules) {
+      try {
+        const alert = await this.evaluateRule(rule, now);
+        if (alert) {
+          alerts.push(alert);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to evaluate alert rule ${rule.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Evaluate a single rule
+   * @param rule - Rule to evaluate
+   * @param now - End of the current comparison window
+   * @returns The alert raised, or null when the rule is cooling down, lacks
+   * mentions or did not fire. A rule whose competitor set was deleted is
+   * disabled and returns null.
+   */
+  async evaluateRule(
+    rule: AlertRuleEntity,
+    now: Date = new Date(),
+  ): Promise<AlertEntity | null> {
+    if (this.isCoolingDown(rule, now)) {
+      return null;
+    }
+
+    let comparison: MetricComparison | null;
+    try {
+      comparison = await this.compare(rule, now);
+    } catch (error) {
+      if (!this.isMissingCompetitorSet(rule, error)) {
+        throw error;
+      }
+      this.logger.warn(
+        `Disabled alert rule ${rule.id}: competitor set ${rule.competitorSetId} no longer exists`,
+      );
+      await this.alertRuleService.disableRule(rule);
+      return null;
+    }
+    if (!comparison || !this.crossesThreshold(rule, comparison.change)) {
+      return null;
+    }
+
+    const alert = await this.alertService.create({
+      brandId: rule.brandId,
+      ruleId: rule.id,
+      metric: rule.metric,
+      direction: rule.direction,
+      status: AlertStatus.OPEN,
+      threshold: rule.threshold,
+      ...comparison,
+      triggeredAt: now,
+      acknowledgedAt: null,
+      resolvedAt: null,
+    });
+    await this.alertRuleService.markTriggered(rule, now);
+
+    const event = this.toEvent(alert, rule);
+    this.analyticsGateway.emitAlertTriggered(rule.brandId, event);
+    this.logger.log(
+      `Alert rule ${rule.id} fired for brand ${rule.brandId}: ${rule.metric} changed by ${comparison.change}`,
+    );
+    this.notify(event);
+
+    return alert;
+  }
+
+  /**
+   * Send the alert to the brand's destinations in the background, so slow
+   * destinations and their retries do not hold up evaluation. The alert is
+   * already stored, so a failure here is only logged.
+   */
+  private notify(event: AlertTriggeredEvent): void {
+    this.notificationService.notify(this.toNotification(event)).catch(error => {
+      this.logger.error(
+        `Failed to send notifications for alert ${event.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    });
+  }
+
+  private isMissingCompetitorSet(
+    rule: AlertRuleEntity,
+    error: unknown,
+  ): boolean {
+    return (
+      !!rule.competitorSetId &&
+      error instanceof NotFoundError &&
+      error.context?.competitorSetId === rule.competitorSetId
+    );
+  }
+
+  private isCoolingDown(rule: AlertRuleEntity, now: Date): boolean {
+    if (!rule.lastTriggeredAt) {
+      return false;
+    }
+    const elapsed = now.getTime() - new Date(rule.lastTriggeredAt).getTime();
+    return elapsed < rule.cooldownMinutes * MINUTE_MS;
+  }
+
+  /**
+   * Measure the metric over the current window and the one right before it.
+   * Returns null unless both windows have enough mentions to compare.
+   */
+  private async compare(
+    rule: AlertRuleEntity,
+    now: Date,
+  ): Promise<MetricComparison | null> {
+    const windowMs = rule.windowDays * DAY_MS;
+    const windowStart = new Date(now.getTime() - windowMs);
+    const previousStart = new Date(windowStart.getTime() - windowMs);
+    const previousEnd = new Date(windowStart.getTime() - 1);
+
+    const [previous, current] = await Promise.all([
+      this.measure(rule, previousStart, previousEnd),
+      this.measure(rule, windowStart, now),
+    ]);
+    if (
+      previous.mentionCount < rule.minMentions ||
+      current.mentionCount < rule.minMentions
+    ) {
+      return null;
+    }
+
+    return {
+      previousValue: previous.value,
+      currentValue: current.value,
+      change: this.round(current.value - previous.value),
+      mentionCount: current.mentionCount,
+      windowStart,
+      windowEnd: now,
+    };
+  }
+
+  private async measure(
+    rule: AlertRuleEntity,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<MetricWindow> {
+    switch (rule.metric) {
+      case AlertMetric.SENTIMENT: {
+        const health = await this.brandHealthService.getBrandHealth(
+          rule.brandId,
+          startDate,
+          endDate,
+        );
+        // Only mentions with a score count towards the average
+        const scored = health.trend.reduce(
+          (sum, bucket) => sum + bucket.scoredCount,
+          0,
+        );
+        return {
+          value: this.round(health.overallSentiment),
+          mentionCount: scored,
+        };
+      }
+      case AlertMetric.SHARE_OF_VOICE: {
+        const report = await this.shareOfVoiceService.getShareOfVoice(
+          rule.brandId,
+          startDate,
+          endDate,
+          { competitorSetId: rule.competitorSetId ?? undefined },
+        );
+        const own = report.entries.find(entry => !entry.competitor);
+        return {
+          value: own?.share ?? 0,
+          mentionCount: report.answerCount,
+        };
+      }
+    }
+  }
+
+  private crossesThreshold(rule: AlertRuleEntity, change: number): boolean {
+    switch (rule.direction) {
+      case AlertDirection.DROP:
+        return change <= -rule.threshold;
+      case AlertDirection.RISE:
+        return change >= rule.threshold;
+      case AlertDirection.ANY:
+        return Math.abs(change) >= rule.threshold;
+    }
+  }
+
+  private toEvent(
+    alert: AlertEntity,
+    rule: AlertRuleEntity,
+  ): AlertTriggeredEvent {
+    return {
+      id: alert.id,
+      brandId: alert.brandId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      metric: alert.metric,
+      direction: alert.direction,
+      threshold: alert.threshold,
+      previousValue: alert.previousValue,
+      currentValue: alert.currentValue,
+      change: alert.change,
+      mentionCount: alert.mentionCount,
+      triggeredAt: alert.triggeredAt,
+    };
+  }
+
+  private toNotification(event: AlertTriggeredEvent): Notification {
+    const sentiment = event.metric === AlertMetric.SENTIMENT;
+    const label = sentiment ? 'Sentiment' : 'Share of voice';
+    const basis = sentiment ? 'scored mentions' : 'answers';
+    const sign = event.change > 0 ? '+' : '';
+
+    return {
+      event: 'alert.triggered',
+      brandId: event.brandId,
+      subject: `Alert: ${event.ruleName}`,
+      text: [
+        `${label} changed by ${sign}${event.change} (threshold ${event.threshold}).`,
+        `Previous window: ${event.previousValue}`,
+        `Current window: ${event.currentValue} from ${event.mentionCount} ${basis}`,
+        `Triggered at ${event.triggeredAt.toISOString()}`,
+      ].join('\n'),
+      payload: { ...event, triggeredAt: event.triggeredAt.toISOString() },
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseService } from '../../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+import { BrandService } from '../../../brands/services/brand.service';
+import { CompetitorSetService } from '../../../brands/services/competitor-set.service';
+import { AlertRuleEntity } from '../../entities/alert-rule.entity';
+import {
+  AlertDirection,
+  AlertMetric,
+  CreateAlertRule,
+  UpdateAlertRule,
+} from '../../interfaces/alert.interface';
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_MIN_MENTIONS = 5;
+const DEFAULT_COOLDOWN_MINUTES = 24 * 60;
+
+/**
+ * Sentiment rules watch for drops by default; share of voice rules for swings
+ * either way
+ */
+const DEFAULT_DIRECTIONS: Record<AlertMetric, AlertDirection> = {
+  [AlertMetric.SENTIMENT]: AlertDirection.DROP,
+  [AlertMetric.SHARE_OF_VOICE]: AlertDirection.ANY,
+};
+
+/**
+ * CRUD service for the alert rules configured on brands
+ */
+@Injectable()
+export class AlertRuleService extends BaseService<AlertRuleEntity> {
+  constructor(
+    @InjectRepository(AlertRuleEntity)
+    repository: Repository<AlertRuleEntity>,
+    private readonly brandService: BrandService,
+    private readonly competitorSetService: CompetitorSetService,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Create an alert rule
+   * @param data - Rule data
+   * @throws {NotFoundError} When the brand or competitor set does not exist
+   * @throws {ValidationError} When a limit is out of range
+   */
+  async createRule(data: CreateAlertRule): Promise<AlertRuleEntity> {
+    await this.brandService.assertExists(data.brandId);
+
+    const rule = this.repository.create({
+      brandId: data.brandId,
+      name: data.name.trim(),
+      metric: data.metric,
+      direction: data.direction ?? DEFAULT_DIRECTIONS[data.metric],
+      threshold: data.threshold,
+      windowDays: data.windowDays ?? DEFAULT_WINDOW_DAYS,
+      minMentions: data.minMentions ?? DEFAULT_MIN_MENTIONS,
+      cooldownMinutes: data.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      competitorSetId: data.competitorSetId ?? null,
+      enabled: data.enabled ?? true,
+      lastTriggeredAt: null,
+    });
+    await this.validateRule(rule);
+
+    return this.repository.save(rule);
+  }
+
+  /**
+   * Update an alert rule
+   * @param id - Rule ID
+   * @param data - Fields to update
+   * @throws {NotFoundError} When the rule or competitor set does not exist
+   * @throws {ValidationError} When a limit is out of range
+   */
+  async updateRule(
+    id: string,
+    data: UpdateAlertRule,
+  ): Promise<AlertRuleEntity> {
+    const rule = await this.findRule(id);
+
+    if (data.name !== undefined) rule.name = data.name.trim();
+    if (data.metric !== undefined) rule.metric = data.metric;
+    if (data.direction !== undefined) rule.direction = data.direction;
+    if (data.threshold !== undefined) rule.threshold = data.threshold;
+    if (data.windowDays !== undefined) rule.windowDays = data.windowDays;
+    if (data.minMentions !== undefined) rule.minMentions = data.minMentions;
+    if (data.cooldownMinutes !== undefined) {
+      rule.cooldownMinutes = data.cooldownMinutes;
+    }
+    if (data.competitorSetId !== undefined) {
+      rule.competitorSetId = data.competitorSetId;
+    }
+    if (data.enabled !== undefined) rule.enabled = data.enabled;
+    await this.validateRule(rule);
+
+    return this.repository.save(rule);
+  }
+
+  /**
+   * Alert rules defined for a brand, by name
+   * @param brandId - Brand ID
+   */
+  async findByBrand(brandId: string): Promise<AlertRuleEntity[]> {
+    return this.findAll({ where: { brandId }, order: { name: 'ASC' } });
+  }
+
+  /**
+   * Rules that are evaluated for a brand
+   * @param brandId - Brand ID
+   */
+  async findEnabledByBrand(brandId: string): Promise<AlertRuleEntity[]> {
+    return this.findAll({
+      where: { brandId, enabled: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Find an alert rule
+   * @param id - Rule ID
+   * @throws {NotFoundError} When the rule does not exist
+   */
+  async findRule(id: string): Promise<AlertRuleEntity> {
+    const rule = await this.repository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundError(`Alert rule with id ${id} not found`, {
+        alertRuleId: id,
+      });
+    }
+    return rule;
+  }
+
+  /**
+   * Stop evaluating a rule that can no longer be measured
+   * @param rule - Rule to disable
+   */
+  async disableRule(rule: AlertRuleEntity): Promise<AlertRuleEntity> {
+    rule.enabled = false;
+    return this.repository.save(rule);
+  }
+
+  /**
+   * Start a rule's cooldown
+   * @param rule - Rule that fired
+   * @param triggeredAt - When it fired
+   */
+  async markTriggered(
+    rule: AlertRuleEntity,
+    triggeredAt: Date,
+  ): Promise<AlertRuleEntity> {
+    rule.lastTriggeredAt = triggeredAt;
+    return this.repository.save(rule);
+  }
+
+  private async validateRule(rule: AlertRuleEntity): Promise<void> {
+    const invalid: string[] = [];
+    if (!rule.name) invalid.push('name must not be empty');
+    if (!(rule.threshold > 0)) invalid.push('threshold must be positive');
+    if (!Number.isInteger(rule.windowDays) || rule.windowDays < 1) {
+      invalid.push('windowDays must be a positive integer');
+    }
+    if (!Number.isInteger(rule.minMentions) || rule.minMentions < 0) {
+      invalid.push('minMentions must be a non-negative integer');
+    }
+    if (!Number.isInteger(rule.cooldownMinutes) || rule.cooldownMinutes < 0) {
+      invalid.push('cooldownMinutes must be a non-negative integer');
+    }
+
+    if (invalid.length > 0) {
+      throw new ValidationError(`Invalid alert rule: ${invalid.join(', ')}`, {
+        brandId: rule.brandId,
+        invalid,
+      });
+    }
+
+    if (rule.competitorSetId) {
+      await this.competitorSetService.findSet(
+        rule.competitorSetId,
+        rule.brandId,
+      );
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseService } from '../../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+import { AlertEntity } from '../../entities/alert.entity';
+import { AlertStatus } from '../../interfaces/alert.interface';
+
+/**
+ * Stores raised alerts and moves them through acknowledge and resolve
+ */
+@Injectable()
+export class AlertService extends BaseService<AlertEntity> {
+  constructor(
+    @InjectRepository(AlertEntity)
+    repository: Repository<AlertEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Alerts raised for a brand, newest first
+   * @param brandId - Brand ID
+   * @param status - Limit to alerts in this state
+   */
+  async findByBrand(
+    brandId: string,
+    status?: AlertStatus,
+  ): Promise<AlertEntity[]> {
+    return this.findAll({
+      where: status ? { brandId, status } : { brandId },
+      order: { triggeredAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Find an alert
+   * @param id - Alert ID
+   * @throws {NotFoundError} When the alert does not exist
+   */
+  async findAlert(id: string): Promise<AlertEntity> {
+    const alert = await this.repository.findOne({ where: { id } });
+    if (!alert) {
+      throw new NotFoundError(`Alert with id ${id} not found`, {
+        alertId: id,
+      });
+    }
+    return alert;
+  }
+
+  /**
+   * Mark an open alert as seen
+   * @param id - Alert ID
+   * @throws {NotFoundError} When the alert does not exist
+   * @throws {ValidationError} When the alert is not open
+   */
+  async acknowledge(id: string): Promise<AlertEntity> {
+    const alert = await this.findAlert(id);
+    if (alert.status !== AlertStatus.OPEN) {
+      throw new ValidationError(
+        `Alert ${id} is ${alert.status} and cannot be acknowledged`,
+        { alertId: id, status: alert.status },
+      );
+    }
+
+    alert.status = AlertStatus.ACKNOWLEDGED;
+    alert.acknowledgedAt = new Date();
+    return this.repository.save(alert);
+  }
+
+  /**
+   * Close an alert, whether or not it was acknowledged first
+   * @param id - Alert ID
+   * @throws {NotFoundError} When the alert does not exist
+   * @throws {ValidationError} When the alert is already resolved
+   */
+  async resolve(id: string): Promise<AlertEntity> {
+    const alert = await this.findAlert(id);
+    if (alert.status === AlertStatus.RESOLVED) {
+      throw new ValidationError(`Alert ${id} is already resolved`, {
+        alertId: id,
+      });
+    }
+
+    alert.status = AlertStatus.RESOLVED;
+    alert.resolvedAt = new Date();
+    return this.repository.save(alert);
+  }
+}
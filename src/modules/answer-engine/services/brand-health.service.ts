@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { BrandMentionService } from './brand-mention.service';
+import {
+  BrandHealthSummary,
+  TrendGranularity,
+} from '../interfaces/brand-health.interface';
+import { ValidationError } from '../../../shared/errors';
+
+/**
+ * Computes brand health metrics from stored mentions
+ */
+@Injectable()
+export class BrandHealthService {
+  constructor(private readonly brandMentionService: BrandMentionService) {}
+
+  /**
+   * Aggregate a brand's mentions over a date range
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param granularity - Trend bucket size, defaults to daily
+   * @throws {ValidationError} When the range is inverted
+   */
+  async getBrandHealth(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    granularity: TrendGranularity = TrendGranularity.DAY,
+  ): Promise<BrandHealthSummary> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const trend = await this.brandMentionService.getSentimentTrend(
+      brandId,
+      startDate,
+      endDate,
+      granularity,
+    );
+
+    // Weight each bucket by the number of scored mentions it contains so the
+    // overall figure equals the mean over all scored mentions in the window
+    let weightedSum = 0;
+    let scoredTotal = 0;
+    let mentionCount = 0;
+    for (const bucket of trend) {
+      weightedSum += bucket.sentiment * bucket.scoredCount;
+      scoredTotal += bucket.scoredCount;
+      mentionCount += bucket.mentionCount;
+    }
+
+    return {
+      overallSentiment: scoredTotal > 0 ? weightedSum / scoredTotal : 0,
+      mentionCount,
+      trend,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { BrandMentionEntity } from '../entities/brand-mention.entity';
+import { CreateBrandMention } from '../interfaces/brand-mention.interface';
+import {
+  SentimentBucket,
+  TrendGranularity,
+} from '../interfaces/brand-health.interface';
+import { MentionAppearance } from '../interfaces/share-of-voice.interface';
+
+interface RawSentimentBucket {
+  bucket: Date | string;
+  mentionCount: string;
+  scoredCount: string;
+  sentiment: string | null;
+}
+
+interface RawMentionAppearance {
+  answerId: string;
+  platform: string;
+  prompt: string | null;
+  competitor: string | null;
+  rankPosition: number | null;
+  mentionedAt: Date | string;
+}
+
+/**
+ * Platform recorded for mentions submitted directly through the API
+ */
+export const DEFAULT_MENTION_PLATFORM = 'manual';
+
+/**
+ * Persistence service for brand mentions
+ */
+@Injectable()
+export class BrandMentionService extends BaseService<BrandMentionEntity> {
+  constructor(
+    @InjectRepository(BrandMentionEntity)
+    repository: Repository<BrandMentionEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Records a new brand mention
+   * @param data - Mention data
+   */
+  async recordMention(data: CreateBrandMention): Promise<BrandMentionEntity> {
+    return this.create({
+      brandId: data.brandId,
+      platform: data.platform || DEFAULT_MENTION_PLATFORM,
+      content: data.content,
+      sentiment: data.sentiment ?? null,
+      sentimentDetails: data.sentimentDetails ?? null,
+      context: data.context ?? null,
+      mentionedAt: data.mentionedAt ?? new Date(),
+      answerId: data.answerId ?? null,
+      competitor: data.competitor ?? null,
+      matchedText: data.matchedText ?? null,
+      startOffset: data.startOffset ?? null,
+      endOffset: data.endOffset ?? null,
+      rankPosition: data.rankPosition ?? null,
+    });
+  }
+
+  /**
+   * Find mentions, newest first, optionally limited to a single brand
+   * @param brandId - Brand ID to filter by
+   */
+  async findByBrand(brandId?: string): Promise<BrandMentionEntity[]> {
+    return this.findAll({
+      where: brandId ? { brandId } : {},
+      order: { mentionedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Aggregate a brand's own mentions into sentiment buckets. Competitor
+   * mentions found alongside the brand are left out.
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param granularity - Bucket size
+   */
+  async getSentimentTrend(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    granularity: TrendGranularity,
+  ): Promise<SentimentBucket[]> {
+    const rows = await this.repository
+      .createQueryBuilder('mention')
+      .select('date_trunc(:granularity, mention.mentionedAt)', 'bucket')
+      .addSelect('COUNT(*)', 'mentionCount')
+      .addSelect('COUNT(mention.sentiment)', 'scoredCount')
+      .addSelect('AVG(mention.sentiment)', 'sentiment')
+      .where('mention.brandId = :brandId', { brandId })
+      .andWhere('mention.competitor IS NULL')
+      .andWhere('mention.mentionedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      })
+      .setParameter('granularity', granularity)
+      .groupBy('bucket')
+      .orderBy('bucket', 'ASC')
+      .getRawMany<RawSentimentBucket>();
+
+    return rows.map(row => ({
+      date: new Date(row.bucket),
+      sentiment: row.sentiment === null ? 0 : parseFloat(row.sentiment),
+      mentionCount: parseInt(row.mentionCount, 10),
+      scoredCount: parseInt(row.scoredCount, 10),
+    }));
+  }
+
+  /**
+   * Number of stored AI answers in which the brand itself was mentioned
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   */
+  async countMentionedAnswers(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const row = await this.repository
+      .createQueryBuilder('mention')
+      .select('COUNT(DISTINCT mention.answerId)', 'answerCount')
+      .where('mention.brandId = :brandId', { brandId })
+      .andWhere('mention.competitor IS NULL')
+      .andWhere('mention.answerId IS NOT NULL')
+      .andWhere('mention.mentionedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      })
+      .getRawOne<{ answerCount: string }>();
+
+    return row ? parseInt(row.answerCount, 10) : 0;
+  }
+
+  /**
+   * Appearances of the brand and its competitors in stored AI answers, one
+   * per answer and name at the best rank it reached
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param platform - Limit to a single platform
+   */
+  async getAnswerAppearances(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    platform?: string,
+  ): Promise<MentionAppearance[]> {
+    const query = this.repository
+      .createQueryBuilder('mention')
+      .select('mention.answerId', 'answerId')
+      .addSelect('mention.platform', 'platform')
+      .addSelect("mention.context ->> 'query'", 'prompt')
+      .addSelect('mention.competitor', 'competitor')
+      .addSelect('MIN(mention.rankPosition)', 'rankPosition')
+      .addSelect('MIN(mention.mentionedAt)', 'mentionedAt')
+      .where('mention.brandId = :brandId', { brandId })
+      .andWhere('mention.answerId IS NOT NULL')
+      .andWhere('mention.mentionedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      });
+
+    if (platform) {
+      query.andWhere('mention.platform = :platform', { platform });
+    }
+
+    const rows = await query
+      .groupBy('mention.answerId')
+      .addGroupBy('mention.platform')
+      .addGroupBy("mention.context ->> 'query'")
+      .addGroupBy('mention.competitor')
+      .getRawMany<RawMentionAppearance>();
+
+    return rows.map(row => ({
+      answerId: row.answerId,
+      platform: row.platform,
+      prompt: row.prompt,
+      competitor: row.competitor,
+      rankPosition: row.rankPosition === null ? null : Number(row.rankPosition),
+      mentionedAt: new Date(row.mentionedAt),
+    }));
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ValidationError } from '../../../shared/errors';
+import { CitationService } from './citation.service';
+import { DomainAuthority } from '../interfaces/citation.interface';
+
+/** Relative weight of each authority component; they sum to one */
+const FREQUENCY_WEIGHT = 0.5;
+const PLATFORM_COVERAGE_WEIGHT = 0.3;
+const CONSISTENCY_WEIGHT = 0.2;
+
+/**
+ * Scores cited domains by how often, how widely and how consistently AI
+ * platforms cite them for a brand
+ */
+@Injectable()
+export class CitationAuthorityService {
+  constructor(private readonly citationService: CitationService) {}
+
+  /**
+   * Ranks the domains cited for a brand by authority
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param platform - Limit to a single platform
+   * @throws {ValidationError} When the range is inverted
+   */
+  async calculateCitationAuthority(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    platform?: string,
+  ): Promise<DomainAuthority[]> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const [stats, totals] = await Promise.all([
+      this.citationService.getDomainStats(
+        brandId,
+        startDate,
+        endDate,
+        platform,
+      ),
+      this.citationService.getTotals(brandId, startDate, endDate, platform),
+    ]);
+    if (stats.length === 0) {
+      return [];
+    }
+
+    // Log scaling keeps a single dominant domain from flattening the rest
+    const maxCount = Math.max(...stats.map(domain => domain.citationCount));
+    const maxLog = Math.log1p(maxCount);
+
+    return stats
+      .map(domain => {
+        const frequency = Math.log1p(domain.citationCount) / maxLog;
+        const platformCoverage = this.ratio(
+          domain.platforms.length,
+          totals.platformCount,
+        );
+        const consistency = this.ratio(domain.activeDays, totals.activeDays);
+        const score =
+          100 *
+          (FREQUENCY_WEIGHT * frequency +
+            PLATFORM_COVERAGE_WEIGHT * platformCoverage +
+            CONSISTENCY_WEIGHT * consistency);
+
+        return {
+          ...domain,
+          score: this.round(score),
+          frequency: this.round(frequency),
+          platformCoverage: this.round(platformCoverage),
+          consistency: this.round(consistency),
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.domain.localeCompare(b.domain));
+  }
+
+  private ratio(part: number, total: number): number {
+    return total > 0 ? Math.min(1, part / total) : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
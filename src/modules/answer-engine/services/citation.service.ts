@@ -0,0 +1,246 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  isSameOrSubdomain,
+  normalizeDomain,
+} from '../../brands/utils/domain.utils';
+import { AIAnswerEntity } from '../entities/ai-answer.entity';
+import { CitationEntity } from '../entities/citation.entity';
+import {
+  CitationOwnership,
+  CitationTotals,
+  CitedPage,
+  DomainCitationStats,
+} from '../interfaces/citation.interface';
+
+interface RawDomainStats {
+  domain: string;
+  ownership: CitationOwnership;
+  competitor: string | null;
+  citationCount: string;
+  platforms: string[];
+  activeDays: string;
+  firstCitedAt: Date | string;
+  lastCitedAt: Date | string;
+}
+
+interface RawCitedPage {
+  url: string;
+  title: string | null;
+}
+
+interface RawCitationTotals {
+  citationCount: string;
+  platformCount: string;
+  activeDays: string;
+}
+
+/**
+ * Persistence and aggregation for the sources AI platforms cite
+ */
+@Injectable()
+export class CitationService extends BaseService<CitationEntity> {
+  constructor(
+    @InjectRepository(CitationEntity)
+    repository: Repository<CitationEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Records the URLs cited by an answer, classifying each domain as owned by
+   * the brand, by one of its competitors, or by a third party
+   * @param answer - Stored AI answer
+   * @param brand - Brand the answer was collected for
+   */
+  async recordFromAnswer(
+    answer: AIAnswerEntity,
+    brand: BrandEntity,
+  ): Promise<CitationEntity[]> {
+    const seen = new Set<string>();
+    const citations: CitationEntity[] = [];
+
+    for (const cited of answer.citations ?? []) {
+      const url = cited.url?.trim();
+      const domain = url ? normalizeDomain(url) : '';
+      if (!domain || seen.has(url)) {
+        continue;
+      }
+      seen.add(url);
+
+      const { ownership, competitor } = this.classifyDomain(domain, brand);
+      citations.push(
+        this.repository.create({
+          answerId: answer.id,
+          brandId: brand.id,
+          platform: answer.platform,
+          url,
+          domain,
+          title: cited.title ?? null,
+          position: citations.length + 1,
+          ownership,
+          competitor,
+          citedAt: answer.receivedAt,
+        }),
+      );
+    }
+
+    return citations.length > 0 ? this.repository.save(citations) : [];
+  }
+
+  /**
+   * Sources cited by an answer, in the order the platform listed them
+   * @param answerId - Answer ID
+   */
+  async findByAnswer(answerId: string): Promise<CitationEntity[]> {
+    return this.findAll({
+      where: { answerId },
+      order: { position: 'ASC' },
+    });
+  }
+
+  /**
+   * Per-domain citation counts for a brand. Ownership is taken from the most
+   * recent citation of each domain.
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param platform - Limit to a single platform
+   */
+  async getDomainStats(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    platform?: string,
+  ): Promise<DomainCitationStats[]> {
+    const rows = await this.scopedQuery(brandId, startDate, endDate, platform)
+      .select('citation.domain', 'domain')
+      .addSelect(
+        '(array_agg(citation.ownership ORDER BY citation.citedAt DESC))[1]',
+        'ownership',
+      )
+      .addSelect(
+        '(array_agg(citation.competitor ORDER BY citation.citedAt DESC))[1]',
+        'competitor',
+      )
+      .addSelect('COUNT(*)', 'citationCount')
+      .addSelect(
+        'array_agg(DISTINCT citation.platform ORDER BY citation.platform)',
+        'platforms',
+      )
+      .addSelect(
+        "COUNT(DISTINCT date_trunc('day', citation.citedAt))",
+        'activeDays',
+      )
+      .addSelect('MIN(citation.citedAt)', 'firstCitedAt')
+      .addSelect('MAX(citation.citedAt)', 'lastCitedAt')
+      .groupBy('citation.domain')
+      .orderBy('COUNT(*)', 'DESC')
+      .getRawMany<RawDomainStats>();
+
+    return rows.map(row => ({
+      domain: row.domain,
+      ownership: row.ownership,
+      competitor: row.competitor,
+      citationCount: parseInt(row.citationCount, 10),
+      platforms: row.platforms,
+      activeDays: parseInt(row.activeDays, 10),
+      firstCitedAt: new Date(row.firstCitedAt),
+      lastCitedAt: new Date(row.lastCitedAt),
+    }));
+  }
+
+  /**
+   * Totals across all of a brand's citations in a window
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param platform - Limit to a single platform
+   */
+  async getTotals(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    platform?: string,
+  ): Promise<CitationTotals> {
+    const row = await this.scopedQuery(brandId, startDate, endDate, platform)
+      .select('COUNT(*)', 'citationCount')
+      .addSelect('COUNT(DISTINCT citation.platform)', 'platformCount')
+      .addSelect(
+        "COUNT(DISTINCT date_trunc('day', citation.citedAt))",
+        'activeDays',
+      )
+      .getRawOne<RawCitationTotals>();
+
+    return {
+      citationCount: parseInt(row?.citationCount ?? '0', 10),
+      platformCount: parseInt(row?.platformCount ?? '0', 10),
+      activeDays: parseInt(row?.activeDays ?? '0', 10),
+    };
+  }
+
+  /**
+   * Distinct pages on the brand's own domains that AI platforms have cited,
+   * with the most recent title seen for each
+   * @param brandId - Brand ID
+   */
+  async getOwnedPages(brandId: string): Promise<CitedPage[]> {
+    const rows = await this.repository
+      .createQueryBuilder('citation')
+      .select('citation.url', 'url')
+      .addSelect(
+        '(array_agg(citation.title ORDER BY citation.citedAt DESC))[1]',
+        'title',
+      )
+      .where('citation.brandId = :brandId', { brandId })
+      .andWhere('citation.ownership = :ownership', {
+        ownership: CitationOwnership.OWNED,
+      })
+      .groupBy('citation.url')
+      .getRawMany<RawCitedPage>();
+
+    return rows.map(row => ({ url: row.url, title: row.title }));
+  }
+
+  private scopedQuery(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    platform?: string,
+  ): SelectQueryBuilder<CitationEntity> {
+    const query = this.repository
+      .createQueryBuilder('citation')
+      .where('citation.brandId = :brandId', { brandId })
+      .andWhere('citation.citedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      });
+    return platform
+      ? query.andWhere('citation.platform = :platform', { platform })
+      : query;
+  }
+
+  private classifyDomain(
+    domain: string,
+    brand: BrandEntity,
+  ): { ownership: CitationOwnership; competitor: string | null } {
+    if ((brand.domains ?? []).some(owned => isSameOrSubdomain(domain, owned))) {
+      return { ownership: CitationOwnership.OWNED, competitor: null };
+    }
+
+    const competitor = (brand.competitors ?? []).find(candidate =>
+      (candidate.domains ?? []).some(owned => isSameOrSubdomain(domain, owned)),
+    );
+    if (competitor) {
+      return {
+        ownership: CitationOwnership.COMPETITOR,
+        competitor: competitor.name,
+      };
+    }
+
+    return { ownership: CitationOwnership.THIRD_PARTY, competitor: null };
+  }
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MentionExtractionService } from '../mention-extraction.service';
+import { MentionExtractor } from '../mention-extractor';
+import { BrandMentionService } from '../../brand-mention.service';
+import { LexiconSentimentAnalyzer } from '../../sentiment/lexicon-sentiment.analyzer';
+import { SENTIMENT_ANALYZER } from '../../../interfaces/sentiment-analysis.interface';
+import { AIAnswerEntity } from '../../../entities/ai-answer.entity';
+import { BrandEntity } from '../../../../brands/entities/brand.entity';
+import { AnalyticsGateway } from '../../../../real-time/gateways/analytics.gateway';
+
+describe('MentionExtractionService', () => {
+  let service: MentionExtractionService;
+  let pubSub: { publish: jest.Mock };
+  let brandMentionService: { recordMention: jest.Mock };
+  let analyticsGateway: { emitMentionNew: jest.Mock };
+
+  const brand = {
+    id: 'brand-1',
+    name: 'Acme',
+    aliases: ['Acme CRM'],
+    domains: ['acme.com'],
+    competitors: [{ name: 'Globex', aliases: [], domains: [] }],
+    trackingConfig: {
+      prompts: [],
+      keywords: [],
+      excludeKeywords: ['acme anvils'],
+      languages: [],
+      regions: [],
+    },
+  } as unknown as BrandEntity;
+
+  const answer = {
+    id: 'answer-1',
+    platform: 'chatgpt',
+    prompt: 'best crm for startups',
+    text: '1. Acme CRM is excellent.\n2. Globex is expensive.\nAcme Anvils is unrelated.',
+    receivedAt: new Date('2025-03-10T12:00:00Z'),
+  } as AIAnswerEntity;
+
+  beforeEach(async () => {
+    pubSub = { publish: jest.fn() };
+    analyticsGateway = { emitMentionNew: jest.fn() };
+    brandMentionService = {
+      recordMention: jest.fn(async data => ({
+        id: `mention-${data.startOffset}`,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MentionExtractionService,
+        MentionExtractor,
+        { provide: 'PUB_SUB', useValue: pubSub },
+        { provide: SENTIMENT_ANALYZER, useClass: LexiconSentimentAnalyzer },
+        { provide: BrandMentionService, useValue: brandMentionService },
+        { provide: AnalyticsGateway, useValue: analyticsGateway },
+      ],
+    }).compile();
+
+    service = module.get<MentionExtractionService>(MentionExtractionService);
+  });
+
+  it('should record brand and competitor mentions with sentiment', async () => {
+    const mentions = await service.extractFromAnswer(answer, brand);
+
+    expect(mentions).toHaveLength(2);
+    expect(brandMentionService.recordMention).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        brandId: 'brand-1',
+        platform: 'chatgpt',
+        answerId: 'answer-1',
+        competitor: null,
+        matchedText: 'Acme CRM',
+        startOffset: 3,
+        endOffset: 11,
+        rankPosition: 1,
+        context: expect.objectContaining({ query: 'best crm for startups' }),
+        mentionedAt: answer.receivedAt,
+        sentiment: expect.any(Number),
+      }),
+    );
+    expect(brandMentionService.recordMention).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ competitor: 'Globex', rankPosition: 2 }),
+    );
+  });
+
+  it('should publish every mention to brandMentionAdded subscribers', async () => {
+    await service.extractFromAnswer(answer, brand);
+
+    expect(pubSub.publish).toHaveBeenCalledTimes(2);
+    expect(pubSub.publish).toHaveBeenCalledWith('brandMentionAdded', {
+      brandMentionAdded: expect.objectContaining({
+        id: 'mention-3',
+        brandId: 'brand-1',
+        matchedText: 'Acme CRM',
+        rankPosition: 1,
+      }),
+    });
+  });
+
+  it('should push every mention to the analytics namespace', async () => {
+    await service.extractFromAnswer(answer, brand);
+
+    expect(analyticsGateway.emitMentionNew).toHaveBeenCalledTimes(2);
+    expect(analyticsGateway.emitMentionNew).toHaveBeenCalledWith(
+      'brand-1',
+      expect.objectContaining({ id: 'mention-3', matchedText: 'Acme CRM' }),
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { MentionExtractor } from '../mention-extractor';
+import { MentionTarget } from '../../../interfaces/mention-extraction.interface';
+
+describe('MentionExtractor', () => {
+  const extractor = new MentionExtractor();
+  const targets: MentionTarget[] = [
+    { name: 'Acme', aliases: ['Acme CRM', 'acmecrm'], competitor: false },
+    { name: 'Globex', aliases: ['Globex Sales'], competitor: true },
+  ];
+
+  it('should match names and aliases regardless of case with offsets', () => {
+    const text = 'We compared ACME with globex sales.';
+
+    const mentions = extractor.extract(text, targets);
+
+    expect(mentions).toEqual([
+      expect.objectContaining({
+        name: 'Acme',
+        competitor: false,
+        matchedText: 'ACME',
+        start: 12,
+        end: 16,
+      }),
+      expect.objectContaining({
+        name: 'Globex',
+        competitor: true,
+        matchedText: 'globex sales',
+        start: 22,
+        end: 34,
+      }),
+    ]);
+    expect(text.slice(mentions[1].start, mentions[1].end)).toBe('globex sales');
+  });
+
+  it('should prefer the longest alias and accept possessives', () => {
+    const mentions = extractor.extract(
+      "Acme CRM's pricing beats Globex’s.",
+      targets,
+    );
+
+    expect(mentions.map(mention => mention.matchedText)).toEqual([
+      "Acme CRM's",
+      'Globex’s',
+    ]);
+  });
+
+  it('should respect word boundaries', () => {
+    const mentions = extractor.extract(
+      'Acmetech and Globexian are unrelated; acmecrm is not.',
+      targets,
+    );
+
+    expect(mentions.map(mention => mention.matchedText)).toEqual(['acmecrm']);
+  });
+
+  it('should skip sentences containing excluded keywords', () => {
+    const mentions = extractor.extract(
+      'Acme Anvils sells hardware. Acme CRM is great for startups.',
+      targets,
+      { excludeKeywords: ['acme anvils'] },
+    );
+
+    expect(mentions).toHaveLength(1);
+    expect(mentions[0].matchedText).toBe('Acme CRM');
+  });
+
+  it('should capture a context window cut at word boundaries', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(10);
+    const text = `${filler}Acme is affordable. ${filler}`;
+
+    const [mention] = extractor.extract(text, targets);
+
+    expect(mention.context).toContain('Acme is affordable.');
+    expect(mention.context.length).toBeLessThanOrEqual(124 * 2);
+    expect(mention.context).toMatch(/^[a-z]+ .* [a-z]+$/);
+    expect(filler).toContain(mention.context.split(' Acme')[0]);
+  });
+
+  it('should assign rank positions in list-style answers', () => {
+    const text = [
+      'Here are the top CRMs:',
+      '',
+      '1. **Globex Sales** - strong forecasting.',
+      '   Acme integrates with it too.',
+      '2. **Acme** - affordable and easy.',
+      '',
+      'Other options:',
+      '- Initech',
+      '- Acme CRM',
+      '',
+      'Overall, Acme is a safe bet.',
+    ].join('\n');
+
+    const mentions = extractor.extract(text, targets);
+
+    expect(
+      mentions.map(mention => [mention.matchedText, mention.rankPosition]),
+    ).toEqual([
+      ['Globex Sales', 1],
+      ['Acme', 1],
+      ['Acme', 2],
+      ['Acme CRM', 2],
+      ['Acme', null],
+    ]);
+  });
+
+  it('should return nothing when there are no targets', () => {
+    expect(extractor.extract('Acme', [])).toEqual([]);
+  });
+});
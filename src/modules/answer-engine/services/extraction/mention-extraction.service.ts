@@ -0,0 +1,93 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { PubSub } from 'graphql-subscriptions';
+import { BrandEntity } from '../../../brands/entities/brand.entity';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { AIAnswerEntity } from '../../entities/ai-answer.entity';
+import { BrandMentionEntity } from '../../entities/brand-mention.entity';
+import { MentionTarget } from '../../interfaces/mention-extraction.interface';
+import {
+  SENTIMENT_ANALYZER,
+  SentimentAnalyzer,
+} from '../../interfaces/sentiment-analysis.interface';
+import {
+  BRAND_MENTION_ADDED,
+  BrandMentionAddedPayload,
+  toBrandMention,
+} from '../../graphql/brand-mention.mapper';
+import { BrandMentionService } from '../brand-mention.service';
+import { MentionExtractor } from './mention-extractor';
+
+/**
+ * Turns stored AI answers into brand mentions: finds the brand and its
+ * competitors, scores the sentiment around each hit, persists it and
+ * notifies subscribers
+ */
+@Injectable()
+export class MentionExtractionService {
+  constructor(
+    @Inject('PUB_SUB') private readonly pubSub: PubSub,
+    @Inject(SENTIMENT_ANALYZER)
+    private readonly sentimentAnalyzer: SentimentAnalyzer,
+    private readonly extractor: MentionExtractor,
+    private readonly brandMentionService: BrandMentionService,
+    private readonly analyticsGateway: AnalyticsGateway,
+  ) {}
+
+  /**
+   * Extracts and records every mention of a brand and its competitors in an
+   * answer
+   * @param answer - Stored AI answer
+   * @param brand - Brand the answer was collected for
+   */
+  async extractFromAnswer(
+    answer: AIAnswerEntity,
+    brand: BrandEntity,
+  ): Promise<BrandMentionEntity[]> {
+    const hits = this.extractor.extract(answer.text, this.toTargets(brand), {
+      excludeKeywords: brand.trackingConfig?.excludeKeywords,
+    });
+
+    const mentions: BrandMentionEntity[] = [];
+    for (const hit of hits) {
+      const { score, ...sentimentDetails } =
+        await this.sentimentAnalyzer.analyze(hit.context);
+
+      const mention = await this.brandMentionService.recordMention({
+        brandId: brand.id,
+        platform: answer.platform,
+        content: hit.context,
+        sentiment: score,
+        sentimentDetails,
+        context: { text: hit.context, query: answer.prompt },
+        mentionedAt: answer.receivedAt,
+        answerId: answer.id,
+        competitor: hit.competitor ? hit.name : null,
+        matchedText: hit.matchedText,
+        startOffset: hit.start,
+        endOffset: hit.end,
+        rankPosition: hit.rankPosition,
+      });
+
+      const brandMention = toBrandMention(mention);
+      await this.pubSub.publish(BRAND_MENTION_ADDED, {
+        brandMentionAdded: brandMention,
+      } as BrandMentionAddedPayload);
+      await this.analyticsGateway.emitMentionNew(brand.id, brandMention);
+
+      mentions.push(mention);
+    }
+
+    return mentions;
+  }
+
+  private toTargets(brand: BrandEntity): MentionTarget[] {
+    return [
+      { name: brand.name, aliases: brand.aliases ?? [], competitor: false },
+      ...(brand.competitors ?? []).map(competitor => ({
+        name: competitor.name,
+        aliases: competitor.aliases ?? [],
+        competitor: true,
+      })),
+    ];
+  }
+}
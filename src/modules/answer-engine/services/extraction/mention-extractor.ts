@@ -0,0 +1,184 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExtractedMention,
+  MentionExtractionOptions,
+  MentionTarget,
+} from '../../interfaces/mention-extraction.interface';
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+interface ListLine extends Range {
+  rank: number | null;
+}
+
+/** Characters of context kept on each side of a mention */
+const CONTEXT_RADIUS = 120;
+
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+/** Numbered ("1.", "2)") or bulleted ("-", "*", "•") list item, optionally inside a heading */
+const LIST_ITEM_PATTERN = /^\s*(?:#{1,6}\s*)?(?:(\d{1,3})[.)]|[-*•])\s+/;
+
+/**
+ * Finds brands and competitors in AI-generated answers. Matching is
+ * case-insensitive, respects word boundaries, accepts possessives
+ * ("Acme's") and prefers the longest alias when several overlap.
+ */
+@Injectable()
+export class MentionExtractor {
+  /**
+   * Extracts every mention of the given targets, ordered by position
+   * @param text - Answer text
+   * @param targets - Brands and competitors to look for
+   * @param options - Exclusion settings
+   */
+  extract(
+    text: string,
+    targets: MentionTarget[],
+    options: MentionExtractionOptions = {},
+  ): ExtractedMention[] {
+    const terms = this.buildTermIndex(targets);
+    if (terms.size === 0) {
+      return [];
+    }
+
+    const pattern = this.buildPattern([...terms.keys()]);
+    const excludedSentences = this.findExcludedSentences(
+      text,
+      options.excludeKeywords ?? [],
+    );
+    const listLines = this.findListLines(text);
+    const mentions: ExtractedMention[] = [];
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const target = terms.get(this.normalizeTerm(match[1]));
+
+      if (!target || this.contains(excludedSentences, start)) {
+        continue;
+      }
+
+      mentions.push({
+        name: target.name,
+        competitor: target.competitor,
+        matchedText: match[0],
+        start,
+        end,
+        context: this.contextWindow(text, start, end),
+        rankPosition:
+          listLines.find(line => start >= line.start && start < line.end)
+            ?.rank ?? null,
+      });
+    }
+
+    return mentions;
+  }
+
+  /** Maps each normalized name and alias to its target; first target wins */
+  private buildTermIndex(targets: MentionTarget[]): Map<string, MentionTarget> {
+    const terms = new Map<string, MentionTarget>();
+    for (const target of targets) {
+      for (const term of [target.name, ...target.aliases]) {
+        const normalized = this.normalizeTerm(term);
+        if (normalized && !terms.has(normalized)) {
+          terms.set(normalized, target);
+        }
+      }
+    }
+    return terms;
+  }
+
+  private buildPattern(terms: string[]): RegExp {
+    const alternatives = terms
+      .sort((a, b) => b.length - a.length)
+      .map(term =>
+        term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'),
+      )
+      .join('|');
+
+    return new RegExp(
+      `(?<![\\p{L}\\p{N}])(${alternatives})(?:['’]s)?(?![\\p{L}\\p{N}])`,
+      'giu',
+    );
+  }
+
+  private normalizeTerm(term: string): string {
+    return term.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private findExcludedSentences(text: string, keywords: string[]): Range[] {
+    const phrases = keywords.map(keyword => this.normalizeTerm(keyword));
+    if (phrases.length === 0) {
+      return [];
+    }
+
+    const excluded: Range[] = [];
+    for (const match of text.matchAll(SENTENCE_PATTERN)) {
+      const sentence = this.normalizeTerm(match[0]);
+      if (phrases.some(phrase => phrase && sentence.includes(phrase))) {
+        const start = match.index ?? 0;
+        excluded.push({ start, end: start + match[0].length });
+      }
+    }
+    return excluded;
+  }
+
+  /**
+   * Assigns a rank to every line that belongs to a list item. Numbered items
+   * keep their own number; bullets are counted within their list. Indented
+   * lines continue the item above them.
+   */
+  private findListLines(text: string): ListLine[] {
+    const lines: ListLine[] = [];
+    let offset = 0;
+    let bulletCount = 0;
+    let currentRank: number | null = null;
+
+    for (const line of text.split('\n')) {
+      const start = offset;
+      offset += line.length + 1;
+
+      const item = LIST_ITEM_PATTERN.exec(line);
+      if (item) {
+        bulletCount++;
+        currentRank = item[1] ? parseInt(item[1], 10) : bulletCount;
+      } else if (line.trim() && !/^\s/.test(line)) {
+        bulletCount = 0;
+        currentRank = null;
+      }
+
+      if (currentRank !== null) {
+        lines.push({ start, end: start + line.length, rank: currentRank });
+      }
+    }
+
+    return lines;
+  }
+
+  private contextWindow(text: string, start: number, end: number): string {
+    let from = Math.max(0, start - CONTEXT_RADIUS);
+    let to = Math.min(text.length, end + CONTEXT_RADIUS);
+
+    // Avoid cutting words in half at either edge
+    if (from > 0) {
+      const space = text.indexOf(' ', from);
+      from = space >= 0 && space < start ? space + 1 : from;
+    }
+    if (to < text.length) {
+      const space = text.lastIndexOf(' ', to);
+      to = space > end ? space : to;
+    }
+
+    return text.slice(from, to).replace(/\s+/g, ' ').trim();
+  }
+
+  private contains(ranges: Range[], position: number): boolean {
+    return ranges.some(
+      range => position >= range.start && position < range.end,
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnswerEngineConfig } from '../../../config/answer-engine.config';
+import { PromptTrackingService } from './prompt-tracking.service';
+
+/**
+ * Triggers prompt tracking for all brands at a fixed interval
+ */
+@Injectable()
+export class PromptTrackingScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PromptTrackingScheduler.name);
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly promptTrackingService: PromptTrackingService,
+  ) {}
+
+  onModuleInit(): void {
+    const tracking =
+      this.configService.get<AnswerEngineConfig>('answerEngine')?.tracking;
+    if (!tracking?.enabled) {
+      this.logger.log('Scheduled prompt tracking is disabled');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.tick();
+    }, tracking.intervalMs);
+
+    this.logger.log(`Scheduled prompt tracking every ${tracking.intervalMs}ms`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.log('Stopped scheduled prompt tracking');
+    }
+  }
+
+  /**
+   * Runs tracking for all brands unless the previous tick is still running
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('Previous prompt tracking cycle still running');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const runs = await this.promptTrackingService.runAll();
+      this.logger.log(
+        `Prompt tracking cycle finished with ${runs.length} runs`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Prompt tracking cycle failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
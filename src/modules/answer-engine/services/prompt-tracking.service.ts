@@ -0,0 +1,304 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { DistributedLockService } from '../../../cache/distributed-lock.service';
+import { BusinessMetricsService } from '../../../metrics/services/business-metrics.service';
+import { AnswerEngineConfig } from '../../../config/answer-engine.config';
+import { BrandService } from '../../brands/services/brand.service';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { PlatformConnectorRegistry } from '../../ai-platforms/services/platform-connector.registry';
+import { MentionExtractionService } from './extraction/mention-extraction.service';
+import { CitationService } from './citation.service';
+import { AlertEvaluatorService } from './alerts/alert-evaluator.service';
+import { ConversationQueryService } from '../../conversation-explorer/services/conversation-query.service';
+import { ConversationQuerySource } from '../../conversation-explorer/interfaces/conversation-topic.interface';
+import { PromptRunEntity } from '../entities/prompt-run.entity';
+import { AIAnswerEntity } from '../entities/ai-answer.entity';
+import {
+  PromptRunError,
+  PromptRunStatus,
+} from '../interfaces/prompt-run.interface';
+
+/** Prompt normalized in SQL the way normalizeQueryText does it */
+const NORMALIZED_PROMPT =
+  "LOWER(REGEXP_REPLACE(TRIM(answer.prompt), '\\s+', ' ', 'g'))";
+
+interface RawPromptAnswerCount {
+  prompt: string;
+  count: string;
+}
+
+/**
+ * Runs each brand's tracked prompts against every registered AI platform,
+ * stores the raw answers and extracts brand mentions and cited sources from
+ * them. Each answered prompt is also recorded for the Conversation Explorer.
+ */
+@Injectable()
+export class PromptTrackingService extends BaseService<PromptRunEntity> {
+  private readonly logger = new Logger(PromptTrackingService.name);
+  private readonly lockTtlMs: number;
+
+  constructor(
+    @InjectRepository(PromptRunEntity)
+    repository: Repository<PromptRunEntity>,
+    @InjectRepository(AIAnswerEntity)
+    private readonly answerRepository: Repository<AIAnswerEntity>,
+    private readonly brandService: BrandService,
+    private readonly connectorRegistry: PlatformConnectorRegistry,
+    private readonly mentionExtractionService: MentionExtractionService,
+    private readonly citationService: CitationService,
+    private readonly alertEvaluator: AlertEvaluatorService,
+    private readonly conversationQueryService: ConversationQueryService,
+    private readonly lockService: DistributedLockService,
+    private readonly businessMetrics: BusinessMetricsService,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.lockTtlMs =
+      configService.get<AnswerEngineConfig>('answerEngine')?.tracking
+        .lockTtlMs ?? 900000;
+  }
+
+  /**
+   * Run tracking for every brand, one after the other
+   * @returns The runs that executed; brands locked by another instance are
+   * skipped
+   */
+  async runAll(): Promise<PromptRunEntity[]> {
+    const brands = await this.brandService.findAll();
+    const runs: PromptRunEntity[] = [];
+
+    for (const brand of brands) {
+      try {
+        const run = await this.runForBrand(brand.id);
+        if (run) {
+          runs.push(run);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Prompt tracking failed for brand ${brand.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Run a brand's tracked prompts on all registered platforms, then evaluate
+   * its alert rules against the new data. Only one instance runs a given
+   * brand at a time; alerts are evaluated under the same lock so two
+   * instances cannot both pass a rule's cooldown check.
+   * @param brandId - Brand ID
+   * @returns The finished run, or null when another instance holds the lock
+   * @throws {NotFoundException} When the brand does not exist
+   */
+  async runForBrand(brandId: string): Promise<PromptRunEntity | null> {
+    const run = await this.lockService.withLock(
+      `prompt-tracking:${brandId}`,
+      async () => {
+        const finished = await this.executeRun(brandId);
+        if (finished.answerCount > 0) {
+          await this.evaluateAlerts(brandId);
+        }
+        return finished;
+      },
+      { ttl: this.lockTtlMs, maxRetries: 1 },
+    );
+
+    if (!run) {
+      this.logger.debug(
+        `Skipped prompt tracking for brand ${brandId}: run already in progress`,
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Raw answers stored by a run
+   * @param runId - Run ID
+   */
+  async findAnswersByRun(runId: string): Promise<AIAnswerEntity[]> {
+    return this.answerRepository.find({
+      where: { runId },
+      order: { receivedAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Number of answers stored for a brand in a date range
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   */
+  async countAnswers(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    return this.answerRepository.count({
+      where: { brandId, receivedAt: Between(startDate, endDate) },
+    });
+  }
+
+  /**
+   * Number of answers stored for each prompt of a brand in a date range
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @returns Counts keyed by prompt, normalized like conversation queries
+   */
+  async countAnswersByPrompt(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Map<string, number>> {
+    const rows = await this.answerRepository
+      .createQueryBuilder('answer')
+      .select(NORMALIZED_PROMPT, 'prompt')
+      .addSelect('COUNT(*)', 'count')
+      .where('answer.brandId = :brandId', { brandId })
+      .andWhere('answer.receivedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      })
+      .groupBy(NORMALIZED_PROMPT)
+      .getRawMany<RawPromptAnswerCount>();
+
+    return new Map(rows.map(row => [row.prompt, parseInt(row.count, 10)]));
+  }
+
+  private async executeRun(brandId: string): Promise<PromptRunEntity> {
+    const brand = await this.brandService.findById(brandId);
+    const prompts = brand.trackingConfig?.prompts ?? [];
+    const platforms = this.connectorRegistry
+      .list()
+      .map(metadata => metadata.platform);
+    const options = {
+      language: brand.trackingConfig?.languages?.[0],
+      region: brand.trackingConfig?.regions?.[0],
+    };
+
+    const startedAt = new Date();
+    const run = await this.create({
+      brandId,
+      status: PromptRunStatus.RUNNING,
+      startedAt,
+      promptCount: prompts.length,
+      answerCount: 0,
+      errors: [],
+    });
+
+    const errors: PromptRunError[] = [];
+    let answerCount = 0;
+
+    try {
+      for (const prompt of prompts) {
+        for (const platform of platforms) {
+          try {
+            const answer = await this.connectorRegistry.submitPrompt(
+              platform,
+              prompt,
+              options,
+            );
+            const stored = await this.answerRepository.save(
+              this.answerRepository.create({
+                runId: run.id,
+                brandId,
+                platform: answer.platform,
+                prompt,
+                text: answer.text,
+                citations: answer.citations,
+                model: answer.model,
+                modelVersion: answer.modelVersion ?? null,
+                receivedAt: answer.receivedAt,
+                latencyMs: answer.latencyMs,
+              }),
+            );
+            answerCount++;
+            await this.processAnswer(stored, brand);
+          } catch (error) {
+            errors.push({
+              platform,
+              prompt,
+              message: error instanceof Error ? error.message : 'Unknown error',
+            });
+            this.businessMetrics.trackPromptTrackingError(platform);
+          }
+        }
+      }
+
+      run.status = this.resolveStatus(answerCount, errors.length);
+    } catch (error) {
+      run.status = PromptRunStatus.FAILED;
+      throw error;
+    } finally {
+      run.completedAt = new Date();
+      run.durationMs = run.completedAt.getTime() - startedAt.getTime();
+      run.answerCount = answerCount;
+      run.errors = errors;
+      await this.repository.save(run);
+
+      this.businessMetrics.trackPromptTrackingRun(
+        run.status,
+        run.durationMs / 1000,
+      );
+      this.logger.log(
+        `Prompt tracking run ${run.id} for brand ${brandId} ${run.status}: ${answerCount} answers, ${errors.length} errors in ${run.durationMs}ms`,
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Processing failures are logged but do not fail the run; the raw answer is
+   * already stored and can be reprocessed
+   */
+  private async processAnswer(
+    answer: AIAnswerEntity,
+    brand: BrandEntity,
+  ): Promise<void> {
+    try {
+      await this.citationService.recordFromAnswer(answer, brand);
+      await this.mentionExtractionService.extractFromAnswer(answer, brand);
+      await this.conversationQueryService.recordQueries(
+        answer.brandId,
+        [
+          {
+            text: answer.prompt,
+            platform: answer.platform,
+            observedAt: answer.receivedAt,
+          },
+        ],
+        ConversationQuerySource.TRACKED,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to process answer ${answer.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Alert failures are logged but do not fail the run
+   */
+  private async evaluateAlerts(brandId: string): Promise<void> {
+    try {
+      await this.alertEvaluator.evaluateBrand(brandId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to evaluate alerts for brand ${brandId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private resolveStatus(answers: number, errors: number): PromptRunStatus {
+    if (errors === 0) {
+      return PromptRunStatus.COMPLETED;
+    }
+    return answers > 0 ? PromptRunStatus.PARTIAL : PromptRunStatus.FAILED;
+  }
+}
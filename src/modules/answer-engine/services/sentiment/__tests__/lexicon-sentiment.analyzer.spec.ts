@@ -0,0 +1,88 @@
+import { LexiconSentimentAnalyzer } from '../lexicon-sentiment.analyzer';
+import { SentimentLabel } from '../../../interfaces/sentiment-analysis.interface';
+
+describe('LexiconSentimentAnalyzer', () => {
+  let analyzer: LexiconSentimentAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new LexiconSentimentAnalyzer();
+  });
+
+  it('should label clearly positive content', async () => {
+    const result = await analyzer.analyze(
+      'Acme is a reliable and intuitive CRM that most reviewers recommend.',
+    );
+
+    expect(result.label).toBe(SentimentLabel.POSITIVE);
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThanOrEqual(1);
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should label clearly negative content', async () => {
+    const result = await analyzer.analyze(
+      'Users report frequent outages and the pricing is overpriced.',
+    );
+
+    expect(result.label).toBe(SentimentLabel.NEGATIVE);
+    expect(result.score).toBeLessThan(0);
+  });
+
+  it('should return neutral with zero confidence when no sentiment words occur', async () => {
+    const result = await analyzer.analyze(
+      'Acme was founded in 2012 in Boston.',
+    );
+
+    expect(result).toMatchObject({
+      score: 0,
+      label: SentimentLabel.NEUTRAL,
+      confidence: 0,
+      spans: [],
+    });
+  });
+
+  it('should flip polarity on negation and include it in the span', async () => {
+    const result = await analyzer.analyze('The onboarding is not great.');
+
+    expect(result.label).toBe(SentimentLabel.NEGATIVE);
+    expect(result.spans).toEqual([
+      { text: 'not great', start: 18, end: 27, weight: expect.any(Number) },
+    ]);
+    expect(result.spans[0].weight).toBeLessThan(0);
+  });
+
+  it('should not carry negation across clause boundaries', async () => {
+    const result = await analyzer.analyze('Not cheap, but great.');
+
+    expect(result.label).toBe(SentimentLabel.POSITIVE);
+    expect(result.spans[0].text).toBe('great');
+  });
+
+  it('should amplify and dampen with intensifiers', async () => {
+    const plain = await analyzer.analyze('It is good.');
+    const intensified = await analyzer.analyze('It is extremely good.');
+    const dampened = await analyzer.analyze('It is somewhat good.');
+
+    expect(intensified.score).toBeGreaterThan(plain.score);
+    expect(dampened.score).toBeLessThan(plain.score);
+    expect(intensified.spans[0].text).toBe('extremely good');
+  });
+
+  it('should order spans by strength and lower confidence on mixed evidence', async () => {
+    const mixed = await analyzer.analyze('A great product with slow support.');
+    const consistent = await analyzer.analyze(
+      'A great product with fast support.',
+    );
+
+    expect(mixed.spans.map(span => span.text)).toEqual(['great', 'slow']);
+    expect(mixed.confidence).toBeLessThan(consistent.confidence);
+  });
+
+  it('should be deterministic', async () => {
+    const content = "Honestly it isn't reliable, and it's really buggy.";
+
+    expect(await analyzer.analyze(content)).toEqual(
+      await analyzer.analyze(content),
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { LlmSentimentAnalyzer } from '../llm-sentiment.analyzer';
+import { LexiconSentimentAnalyzer } from '../lexicon-sentiment.analyzer';
+import {
+  LlmCompletionClient,
+  SentimentLabel,
+} from '../../../interfaces/sentiment-analysis.interface';
+
+describe('LlmSentimentAnalyzer', () => {
+  let client: { model: string; complete: jest.Mock };
+  let analyzer: LlmSentimentAnalyzer;
+
+  beforeEach(() => {
+    client = { model: 'test-model', complete: jest.fn() };
+    analyzer = new LlmSentimentAnalyzer(
+      client as LlmCompletionClient,
+      new LexiconSentimentAnalyzer(),
+    );
+  });
+
+  it('should parse the model response and locate quoted spans', async () => {
+    const content = 'Acme has a clunky interface.';
+    client.complete.mockResolvedValue(
+      'Sure! {"score": -0.6, "label": "negative", "confidence": 0.8, ' +
+        '"spans": [{"text": "clunky interface", "weight": -0.6}, ' +
+        '{"text": "not in the text", "weight": 1}]}',
+    );
+
+    const result = await analyzer.analyze(content);
+
+    expect(client.complete).toHaveBeenCalledWith(
+      expect.stringContaining(content),
+    );
+    expect(result).toEqual({
+      score: -0.6,
+      label: SentimentLabel.NEGATIVE,
+      confidence: 0.8,
+      spans: [{ text: 'clunky interface', start: 11, end: 27, weight: -0.6 }],
+      analyzer: 'llm:test-model',
+    });
+  });
+
+  it('should fall back when the response is malformed', async () => {
+    client.complete.mockResolvedValue('{"score": "high"}');
+
+    const result = await analyzer.analyze('A great product.');
+
+    expect(result.analyzer).toBe('lexicon');
+    expect(result.label).toBe(SentimentLabel.POSITIVE);
+  });
+
+  it('should fall back when the client fails', async () => {
+    client.complete.mockRejectedValue(new Error('rate limited'));
+
+    const result = await analyzer.analyze('A great product.');
+
+    expect(result.analyzer).toBe('lexicon');
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import {
+  SentimentAnalysis,
+  SentimentAnalyzer,
+  SentimentLabel,
+  SentimentSpan,
+} from '../../interfaces/sentiment-analysis.interface';
+import {
+  INTENSIFIERS,
+  NEGATIONS,
+  SENTIMENT_LEXICON,
+} from './sentiment-lexicon';
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/** How far back to look for negations and intensifiers */
+const MODIFIER_WINDOW = 3;
+
+/** Dampening applied when a sentiment word is negated ("not great") */
+const NEGATION_SCALAR = -0.74;
+
+/** Smoothing constant used to squash the raw score into [-1, 1] */
+const NORMALIZATION_ALPHA = 15;
+
+/** Scores within this distance of zero are labelled neutral */
+const NEUTRAL_THRESHOLD = 0.05;
+
+const WORD_PATTERN = /[a-z]+(?:['’][a-z]+)?/gi;
+const CLAUSE_BREAK = /[.!?;,:]/;
+
+/**
+ * Deterministic, offline sentiment analyzer based on a word lexicon with
+ * negation and intensifier handling
+ */
+@Injectable()
+export class LexiconSentimentAnalyzer implements SentimentAnalyzer {
+  readonly name = 'lexicon';
+
+  async analyze(content: string): Promise<SentimentAnalysis> {
+    const tokens = this.tokenize(content);
+    const spans: SentimentSpan[] = [];
+
+    tokens.forEach((token, index) => {
+      const valence = SENTIMENT_LEXICON[token.word];
+      if (valence === undefined) {
+        return;
+      }
+
+      let multiplier = 1;
+      let negated = false;
+      let spanStart = token.start;
+
+      for (let j = index - 1; j >= 0 && j >= index - MODIFIER_WINDOW; j--) {
+        const previous = tokens[j];
+        const gap = content.slice(previous.end, tokens[j + 1].start);
+        if (CLAUSE_BREAK.test(gap) || previous.word === 'but') {
+          break;
+        }
+
+        if (NEGATIONS.has(previous.word)) {
+          negated = !negated;
+          spanStart = previous.start;
+        } else if (INTENSIFIERS[previous.word] !== undefined) {
+          multiplier *= INTENSIFIERS[previous.word];
+          spanStart = previous.start;
+        }
+      }
+
+      const weight = valence * multiplier * (negated ? NEGATION_SCALAR : 1);
+
+      spans.push({
+        text: content.slice(spanStart, token.end),
+        start: spanStart,
+        end: token.end,
+        weight: this.round(weight),
+      });
+    });
+
+    const raw = spans.reduce((sum, span) => sum + span.weight, 0);
+    const magnitude = spans.reduce(
+      (sum, span) => sum + Math.abs(span.weight),
+      0,
+    );
+    const score = raw / Math.sqrt(raw * raw + NORMALIZATION_ALPHA);
+
+    return {
+      score: this.round(score),
+      label: this.toLabel(score),
+      confidence: this.round(this.confidence(raw, magnitude, spans.length)),
+      spans: spans.sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)),
+      analyzer: this.name,
+    };
+  }
+
+  private tokenize(content: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of content.matchAll(WORD_PATTERN)) {
+      const start = match.index ?? 0;
+      tokens.push({
+        word: match[0].toLowerCase().replace('’', "'"),
+        start,
+        end: start + match[0].length,
+      });
+    }
+    return tokens;
+  }
+
+  private toLabel(score: number): SentimentLabel {
+    if (score >= NEUTRAL_THRESHOLD) {
+      return SentimentLabel.POSITIVE;
+    }
+    if (score <= -NEUTRAL_THRESHOLD) {
+      return SentimentLabel.NEGATIVE;
+    }
+    return SentimentLabel.NEUTRAL;
+  }
+
+  /**
+   * Confidence grows with the amount of evidence and shrinks when the
+   * evidence points in opposite directions
+   */
+  private confidence(raw: number, magnitude: number, hits: number): number {
+    if (hits === 0 || magnitude === 0) {
+      return 0;
+    }
+    const agreement = Math.abs(raw) / magnitude;
+    const evidence = 1 - Math.exp(-hits / 2);
+    return agreement * evidence;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
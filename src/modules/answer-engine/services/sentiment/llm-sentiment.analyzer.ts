@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import {
+  LlmCompletionClient,
+  SentimentAnalysis,
+  SentimentAnalyzer,
+  SentimentLabel,
+  SentimentSpan,
+} from '../../interfaces/sentiment-analysis.interface';
+
+interface LlmSentimentResponse {
+  score: number;
+  label: string;
+  confidence: number;
+  spans?: { text: string; weight: number }[];
+}
+
+/**
+ * Adapter that scores sentiment with an LLM completion client. Falls back to
+ * the supplied analyzer when the model is unavailable or its answer cannot be
+ * parsed, so a flaky provider never blocks mention ingestion.
+ */
+export class LlmSentimentAnalyzer implements SentimentAnalyzer {
+  readonly name: string;
+  private readonly logger = new Logger(LlmSentimentAnalyzer.name);
+
+  constructor(
+    private readonly client: LlmCompletionClient,
+    private readonly fallback: SentimentAnalyzer,
+  ) {
+    this.name = `llm:${client.model}`;
+  }
+
+  async analyze(content: string): Promise<SentimentAnalysis> {
+    try {
+      const completion = await this.client.complete(this.buildPrompt(content));
+      return this.parse(completion, content);
+    } catch (error) {
+      this.logger.warn(
+        `LLM sentiment analysis failed, using ${this.fallback.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return this.fallback.analyze(content);
+    }
+  }
+
+  private buildPrompt(content: string): string {
+    return [
+      'Rate the sentiment of the following text towards the brands it mentions.',
+      'Respond with JSON only, using this shape:',
+      '{"score": <number between -1 and 1>, "label": "positive" | "neutral" | "negative",',
+      ' "confidence": <number between 0 and 1>,',
+      ' "spans": [{"text": <exact quote from the text>, "weight": <signed number>}]}',
+      '',
+      'Text:',
+      content,
+    ].join('\n');
+  }
+
+  private parse(completion: string, content: string): SentimentAnalysis {
+    const json = completion.slice(
+      completion.indexOf('{'),
+      completion.lastIndexOf('}') + 1,
+    );
+    const response = JSON.parse(json) as LlmSentimentResponse;
+
+    const labels = Object.values(SentimentLabel) as string[];
+    if (
+      typeof response.score !== 'number' ||
+      typeof response.confidence !== 'number' ||
+      !labels.includes(response.label)
+    ) {
+      throw new Error('Malformed sentiment response');
+    }
+
+    const spans: SentimentSpan[] = [];
+    for (const span of response.spans ?? []) {
+      // Only keep quotes that actually occur in the content
+      const start = content.indexOf(span.text);
+      if (start >= 0 && typeof span.weight === 'number') {
+        spans.push({
+          text: span.text,
+          start,
+          end: start + span.text.length,
+          weight: span.weight,
+        });
+      }
+    }
+
+    return {
+      score: Math.max(-1, Math.min(1, response.score)),
+      label: response.label as SentimentLabel,
+      confidence: Math.max(0, Math.min(1, response.confidence)),
+      spans,
+      analyzer: this.name,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnswerEngineConfig } from '../../../../config/answer-engine.config';
+import {
+  LlmCompletionClient,
+  SENTIMENT_ANALYZER,
+  SENTIMENT_LLM_CLIENT,
+  SentimentAnalyzer,
+} from '../../interfaces/sentiment-analysis.interface';
+import { LexiconSentimentAnalyzer } from './lexicon-sentiment.analyzer';
+import { LlmSentimentAnalyzer } from './llm-sentiment.analyzer';
+
+/**
+ * Resolves the configured sentiment analyzer. The LLM adapter is only used
+ * when a completion client has been registered under SENTIMENT_LLM_CLIENT.
+ */
+export const sentimentAnalyzerProvider: Provider = {
+  provide: SENTIMENT_ANALYZER,
+  inject: [
+    ConfigService,
+    LexiconSentimentAnalyzer,
+    { token: SENTIMENT_LLM_CLIENT, optional: true },
+  ],
+  useFactory: (
+    configService: ConfigService,
+    lexicon: LexiconSentimentAnalyzer,
+    llmClient?: LlmCompletionClient,
+  ): SentimentAnalyzer => {
+    const config = configService.get<AnswerEngineConfig>('answerEngine');
+    if (config?.sentiment.provider !== 'llm') {
+      return lexicon;
+    }
+
+    if (!llmClient) {
+      new Logger('SentimentAnalyzer').warn(
+        'LLM sentiment provider configured but no completion client is registered, using lexicon analyzer',
+      );
+      return lexicon;
+    }
+
+    return new LlmSentimentAnalyzer(llmClient, lexicon);
+  },
+};
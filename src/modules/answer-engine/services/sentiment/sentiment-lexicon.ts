@@ -0,0 +1,143 @@
+/**
+ * Word-level valence scores used by the lexicon analyzer, roughly in the
+ * range [-3, 3]. Tuned for the way AI assistants describe products and
+ * vendors rather than for general-purpose text.
+ */
+export const SENTIMENT_LEXICON: Readonly<Record<string, number>> = {
+  // Positive
+  excellent: 3,
+  outstanding: 3,
+  exceptional: 3,
+  best: 2.5,
+  great: 2.5,
+  love: 2.5,
+  loved: 2.5,
+  amazing: 2.5,
+  impressive: 2.2,
+  fantastic: 2.5,
+  superior: 2.2,
+  leading: 1.8,
+  innovative: 1.8,
+  powerful: 1.8,
+  robust: 1.6,
+  reliable: 1.8,
+  trusted: 1.8,
+  recommended: 1.8,
+  recommend: 1.8,
+  popular: 1.3,
+  good: 1.9,
+  better: 1.5,
+  strong: 1.5,
+  intuitive: 1.7,
+  easy: 1.4,
+  helpful: 1.6,
+  fast: 1.3,
+  affordable: 1.4,
+  secure: 1.4,
+  scalable: 1.3,
+  flexible: 1.3,
+  efficient: 1.5,
+  effective: 1.5,
+  solid: 1.3,
+  seamless: 1.7,
+  satisfied: 1.6,
+  useful: 1.4,
+  favorite: 2,
+  preferred: 1.5,
+  praised: 2,
+  win: 1.5,
+  wins: 1.5,
+
+  // Negative
+  terrible: -3,
+  awful: -3,
+  horrible: -3,
+  worst: -3,
+  hate: -2.7,
+  scam: -3,
+  fraud: -3,
+  bad: -2.2,
+  poor: -2.1,
+  worse: -1.9,
+  disappointing: -2.1,
+  unreliable: -2.1,
+  buggy: -2,
+  broken: -2,
+  outdated: -1.5,
+  expensive: -1.3,
+  overpriced: -2,
+  slow: -1.5,
+  difficult: -1.4,
+  complicated: -1.4,
+  confusing: -1.6,
+  clunky: -1.6,
+  limited: -1.1,
+  lacking: -1.4,
+  lacks: -1.4,
+  insecure: -2,
+  vulnerable: -1.8,
+  breach: -2.3,
+  outage: -2,
+  outages: -2,
+  downtime: -1.7,
+  issues: -1.2,
+  problems: -1.4,
+  complaints: -1.8,
+  criticized: -1.9,
+  lawsuit: -2.2,
+  risky: -1.6,
+  avoid: -2,
+  frustrating: -2,
+  weak: -1.6,
+};
+
+/**
+ * Words that flip the polarity of the sentiment word that follows them
+ */
+export const NEGATIONS: ReadonlySet<string> = new Set([
+  'not',
+  'no',
+  'never',
+  'neither',
+  'nor',
+  'without',
+  'hardly',
+  'barely',
+  "isn't",
+  "aren't",
+  "wasn't",
+  "weren't",
+  "don't",
+  "doesn't",
+  "didn't",
+  "can't",
+  'cannot',
+  "won't",
+  "shouldn't",
+  "wouldn't",
+  'lack',
+]);
+
+/**
+ * Multipliers applied to the sentiment word that follows them. Values below
+ * one dampen the score.
+ */
+export const INTENSIFIERS: Readonly<Record<string, number>> = {
+  very: 1.3,
+  really: 1.3,
+  extremely: 1.5,
+  incredibly: 1.5,
+  highly: 1.4,
+  exceptionally: 1.5,
+  particularly: 1.2,
+  especially: 1.2,
+  truly: 1.3,
+  most: 1.3,
+  so: 1.2,
+  quite: 1.1,
+  fairly: 0.8,
+  somewhat: 0.7,
+  slightly: 0.6,
+  relatively: 0.8,
+  bit: 0.7,
+};
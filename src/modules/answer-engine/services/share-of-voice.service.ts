@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common';
+import { ValidationError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import { CompetitorSetService } from '../../brands/services/competitor-set.service';
+import { BrandMentionService } from './brand-mention.service';
+import { TrendGranularity } from '../interfaces/brand-health.interface';
+import {
+  MentionAppearance,
+  ShareOfVoiceEntry,
+  ShareOfVoiceOptions,
+  ShareOfVoiceReport,
+  ShareOfVoiceSegment,
+} from '../interfaces/share-of-voice.interface';
+
+interface ComparedName {
+  name: string;
+  competitor: boolean;
+}
+
+/** Label used for mentions recorded without a tracked prompt */
+const UNKNOWN_TOPIC = 'unknown';
+
+/**
+ * Computes how much of the AI answer space a brand owns relative to its
+ * competitors. Each appearance in an answer counts once, weighted by the
+ * inverse of its rank in list-style answers so that being listed first
+ * counts more than being listed fifth.
+ */
+@Injectable()
+export class ShareOfVoiceService {
+  constructor(
+    private readonly brandMentionService: BrandMentionService,
+    private readonly brandService: BrandService,
+    private readonly competitorSetService: CompetitorSetService,
+  ) {}
+
+  /**
+   * Share of voice for a brand against a competitor set
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @param options - Competitor set, platform filter and trend bucket size
+   * @throws {ValidationError} When the range is inverted
+   * @throws {NotFoundError} When the competitor set does not belong to the brand
+   */
+  async getShareOfVoice(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    options: ShareOfVoiceOptions = {},
+  ): Promise<ShareOfVoiceReport> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const compared = await this.comparedNames(brandId, options.competitorSetId);
+    const brandName = compared[0].name;
+    const competitorNames = new Set(compared.slice(1).map(c => c.name));
+
+    const appearances = (
+      await this.brandMentionService.getAnswerAppearances(
+        brandId,
+        startDate,
+        endDate,
+        options.platform,
+      )
+    ).filter(
+      appearance =>
+        appearance.competitor === null ||
+        competitorNames.has(appearance.competitor),
+    );
+    const nameOf = (appearance: MentionAppearance): string =>
+      appearance.competitor ?? brandName;
+
+    const granularity = options.granularity ?? TrendGranularity.DAY;
+    const trend = [
+      ...this.groupBy(appearances, appearance =>
+        this.truncate(appearance.mentionedAt, granularity).toISOString(),
+      ),
+    ]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, group]) => ({
+        date: new Date(date),
+        entries: this.score(group, compared, nameOf),
+      }));
+
+    return {
+      brandId,
+      competitorSetId: options.competitorSetId ?? null,
+      answerCount: new Set(appearances.map(a => a.answerId)).size,
+      entries: this.score(appearances, compared, nameOf),
+      byPlatform: this.segment(appearances, a => a.platform, compared, nameOf),
+      byTopic: this.segment(
+        appearances,
+        a => a.prompt ?? UNKNOWN_TOPIC,
+        compared,
+        nameOf,
+      ),
+      trend,
+    };
+  }
+
+  /** The brand first, followed by the competitors being compared */
+  private async comparedNames(
+    brandId: string,
+    competitorSetId?: string,
+  ): Promise<ComparedName[]> {
+    const brand = await this.brandService.findById(brandId);
+    const competitors = competitorSetId
+      ? (await this.competitorSetService.findSet(competitorSetId, brandId))
+          .competitors
+      : (brand.competitors ?? []).map(competitor => competitor.name);
+
+    return [
+      { name: brand.name, competitor: false },
+      ...competitors.map(name => ({ name, competitor: true })),
+    ];
+  }
+
+  private segment(
+    appearances: MentionAppearance[],
+    keyOf: (appearance: MentionAppearance) => string,
+    compared: ComparedName[],
+    nameOf: (appearance: MentionAppearance) => string,
+  ): ShareOfVoiceSegment[] {
+    return [...this.groupBy(appearances, keyOf)]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, group]) => ({
+        key,
+        entries: this.score(group, compared, nameOf),
+      }));
+  }
+
+  /**
+   * Scores every compared name, including those that never appeared, so each
+   * segment lists the same names
+   */
+  private score(
+    appearances: MentionAppearance[],
+    compared: ComparedName[],
+    nameOf: (appearance: MentionAppearance) => string,
+  ): ShareOfVoiceEntry[] {
+    const totals = new Map(
+      compared.map(({ name }) => [name, { appearances: 0, weighted: 0 }]),
+    );
+    for (const appearance of appearances) {
+      const total = totals.get(nameOf(appearance));
+      if (total) {
+        total.appearances++;
+        total.weighted += this.rankWeight(appearance.rankPosition);
+      }
+    }
+
+    const overall = [...totals.values()].reduce(
+      (sum, total) => sum + total.weighted,
+      0,
+    );
+
+    return compared
+      .map(({ name, competitor }) => {
+        const total = totals.get(name) ?? { appearances: 0, weighted: 0 };
+        return {
+          name,
+          competitor,
+          appearances: total.appearances,
+          weightedScore: this.round(total.weighted),
+          share: overall > 0 ? this.round((100 * total.weighted) / overall) : 0,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.share - a.share || Number(a.competitor) - Number(b.competitor),
+      );
+  }
+
+  /** Unranked (prose) appearances count as fully as a first place */
+  private rankWeight(rankPosition: number | null): number {
+    return rankPosition && rankPosition > 0 ? 1 / rankPosition : 1;
+  }
+
+  /** Start of the UTC day, ISO week (Monday) or month containing a date */
+  private truncate(date: Date, granularity: TrendGranularity): Date {
+    const day = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    if (granularity === TrendGranularity.WEEK) {
+      day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    } else if (granularity === TrendGranularity.MONTH) {
+      day.setUTCDate(1);
+    }
+    return day;
+  }
+
+  private groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+    return groups;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,339 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConversationExplorerConfig } from '../../../config/conversation-explorer.config';
+import { formatCsv } from '../../../shared/utils/csv.utils';
+import { BrandPageService } from '../../brands/services/brand-page.service';
+import { ConversationExplorerService } from '../../conversation-explorer/services/conversation-explorer.service';
+import {
+  normalizeQueryText,
+  TopicClusterer,
+} from '../../conversation-explorer/services/topic-clusterer';
+import { ClusteredTopic } from '../../conversation-explorer/interfaces/conversation-topic.interface';
+import { BrandMentionService } from './brand-mention.service';
+import { CitationService } from './citation.service';
+import { PromptTrackingService } from './prompt-tracking.service';
+import { MentionAppearance } from '../interfaces/share-of-voice.interface';
+import {
+  TopicCompetitor,
+  TopicGap,
+  TopicGapOptions,
+  TopicGapReport,
+  TopicGapType,
+} from '../interfaces/topic-gap.interface';
+
+const DEFAULT_GAPS: ConversationExplorerConfig['gaps'] = {
+  maxTopics: 50,
+  contentMatchThreshold: 0.5,
+  coveredContentWeight: 0.5,
+};
+
+/** Pages listed per gap */
+const MAX_PAGES = 3;
+
+interface ContentPage {
+  url: string;
+  terms: Set<string>;
+}
+
+interface TopicAnswers {
+  answerCount: number;
+  mentioned: Set<string>;
+  competitors: Map<string, Set<string>>;
+}
+
+/**
+ * Cross-references the topics people ask AI platforms about with the brand's
+ * own pages and with whether AI answers about them mention the brand, to
+ * rank the topics where demand goes unanswered
+ */
+@Injectable()
+export class TopicGapService {
+  private readonly config: ConversationExplorerConfig['gaps'];
+
+  constructor(
+    private readonly explorerService: ConversationExplorerService,
+    private readonly clusterer: TopicClusterer,
+    private readonly brandPageService: BrandPageService,
+    private readonly citationService: CitationService,
+    private readonly brandMentionService: BrandMentionService,
+    private readonly promptTrackingService: PromptTrackingService,
+    configService: ConfigService,
+  ) {
+    this.config =
+      configService.get<ConversationExplorerConfig>('conversationExplorer')
+        ?.gaps ?? DEFAULT_GAPS;
+  }
+
+  /**
+   * Topic gaps of a brand, highest priority first. Brand pages come from
+   * imported sitemaps and from cited URLs on the brand's domains.
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param options - Whether to include covered topics, and how many
+   * @throws {ValidationError} When the range is empty
+   */
+  async getReport(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    options: TopicGapOptions = {},
+  ): Promise<TopicGapReport> {
+    const [topics, pages, answerCounts, appearances] = await Promise.all([
+      this.explorerService.topicsWithQueries(
+        brandId,
+        startDate,
+        endDate,
+        this.config.maxTopics,
+      ),
+      this.contentPages(brandId),
+      this.promptTrackingService.countAnswersByPrompt(
+        brandId,
+        startDate,
+        endDate,
+      ),
+      this.brandMentionService.getAnswerAppearances(
+        brandId,
+        startDate,
+        endDate,
+      ),
+    ]);
+
+    const gaps = topics
+      .map(topic =>
+        this.analyze(
+          topic,
+          pages,
+          this.answers(topic, answerCounts, appearances),
+        ),
+      )
+      .filter(gap => options.includeCovered || gap.type !== TopicGapType.NONE)
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          b.demand - a.demand ||
+          b.topic.volume - a.topic.volume,
+      )
+      .slice(0, options.limit ?? 20);
+
+    return { brandId, startDate, endDate, pageCount: pages.length, gaps };
+  }
+
+  /**
+   * The topic gap report as CSV, one row per topic
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param options - Whether to include covered topics, and how many
+   * @throws {ValidationError} When the range is empty
+   */
+  async exportCsv(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    options: TopicGapOptions = {},
+  ): Promise<string> {
+    const report = await this.getReport(brandId, startDate, endDate, options);
+
+    return formatCsv([
+      [
+        'topic',
+        'gap',
+        'priority',
+        'demand',
+        'demand_low',
+        'demand_high',
+        'demand_confidence',
+        'queries',
+        'velocity',
+        'answers',
+        'mentioned_answers',
+        'visibility',
+        'content_match',
+        'pages',
+        'competitors',
+        'top_queries',
+      ],
+      ...report.gaps.map(gap => [
+        gap.topic.label,
+        gap.type,
+        gap.priority,
+        gap.demand,
+        gap.topic.searchVolume?.low,
+        gap.topic.searchVolume?.high,
+        gap.topic.searchVolume?.confidence,
+        gap.topic.volume,
+        gap.topic.velocity,
+        gap.answerCount,
+        gap.mentionedAnswerCount,
+        gap.visibility,
+        gap.contentMatch,
+        gap.pages.join(' '),
+        gap.competitors
+          .map(competitor => `${competitor.name} (${competitor.answerCount})`)
+          .join('; '),
+        gap.topic.representativeQueries.map(query => query.text).join('; '),
+      ]),
+    ]);
+  }
+
+  private analyze(
+    { topic }: ClusteredTopic,
+    pages: ContentPage[],
+    answers: TopicAnswers,
+  ): TopicGap {
+    const scored = pages
+      .map(page => ({
+        url: page.url,
+        match: this.round(
+          topic.terms.filter(term => page.terms.has(term)).length /
+            Math.max(topic.terms.length, 1),
+        ),
+      }))
+      .sort((a, b) => b.match - a.match || a.url.localeCompare(b.url));
+    const matches = scored.filter(
+      page => page.match >= this.config.contentMatchThreshold,
+    );
+
+    const visibility =
+      answers.answerCount > 0
+        ? this.round(Math.min(answers.mentioned.size / answers.answerCount, 1))
+        : null;
+    const hasContent = matches.length > 0;
+    const visible = (visibility ?? 0) > 0;
+    const demand = topic.searchVolume?.estimate ?? topic.volume;
+
+    return {
+      topic,
+      type: this.gapType(hasContent, visible),
+      priority: this.round(
+        demand *
+          (1 - (visibility ?? 0)) *
+          (hasContent ? this.config.coveredContentWeight : 1),
+      ),
+      demand,
+      answerCount: answers.answerCount,
+      mentionedAnswerCount: answers.mentioned.size,
+      visibility,
+      contentMatch: scored[0]?.match ?? 0,
+      pages: matches.slice(0, MAX_PAGES).map(page => page.url),
+      competitors: [...answers.competitors]
+        .map(
+          ([name, answerIds]): TopicCompetitor => ({
+            name,
+            answerCount: answerIds.size,
+          }),
+        )
+        .sort(
+          (a, b) =>
+            b.answerCount - a.answerCount || a.name.localeCompare(b.name),
+        ),
+    };
+  }
+
+  private gapType(hasContent: boolean, visible: boolean): TopicGapType {
+    if (visible) {
+      return hasContent ? TopicGapType.NONE : TopicGapType.CONTENT;
+    }
+    return hasContent
+      ? TopicGapType.VISIBILITY
+      : TopicGapType.CONTENT_AND_VISIBILITY;
+  }
+
+  /** Answers to the topic's tracked prompts, and who they mention */
+  private answers(
+    { queries }: ClusteredTopic,
+    answerCounts: Map<string, number>,
+    appearances: MentionAppearance[],
+  ): TopicAnswers {
+    const members = new Set(queries);
+    const answers: TopicAnswers = {
+      answerCount: queries.reduce(
+        (sum, query) => sum + (answerCounts.get(query) ?? 0),
+        0,
+      ),
+      mentioned: new Set(),
+      competitors: new Map(),
+    };
+
+    for (const appearance of appearances) {
+      if (
+        !appearance.prompt ||
+        !members.has(normalizeQueryText(appearance.prompt))
+      ) {
+        continue;
+      }
+      if (appearance.competitor === null) {
+        answers.mentioned.add(appearance.answerId);
+      } else {
+        const answerIds =
+          answers.competitors.get(appearance.competitor) ?? new Set<string>();
+        answerIds.add(appearance.answerId);
+        answers.competitors.set(appearance.competitor, answerIds);
+      }
+    }
+    return answers;
+  }
+
+  /**
+   * Imported pages and cited pages on the brand's domains, described by the
+   * words of their path and title
+   */
+  private async contentPages(brandId: string): Promise<ContentPage[]> {
+    const [imported, cited] = await Promise.all([
+      this.brandPageService.findByBrand(brandId),
+      this.citationService.getOwnedPages(brandId),
+    ]);
+
+    const pages = new Map<string, { path: string; title: string | null }>();
+    for (const page of cited) {
+      const url = this.parseUrl(page.url);
+      if (url) {
+        pages.set(url.toString(), { path: url.pathname, title: page.title });
+      }
+    }
+    for (const page of imported) {
+      pages.set(page.url, {
+        path: page.path,
+        title: page.title ?? pages.get(page.url)?.title ?? null,
+      });
+    }
+
+    return [...pages].map(([url, page]) => ({
+      url,
+      terms: new Set(
+        this.clusterer.terms(
+          `${this.pathWords(page.path)} ${page.title ?? ''}`,
+        ),
+      ),
+    }));
+  }
+
+  /** Words of a URL path, e.g. "/blog/crm-for_startups" -> "blog crm for startups" */
+  private pathWords(path: string): string {
+    let decoded = path;
+    try {
+      decoded = decodeURIComponent(path);
+    } catch {
+      // Keep malformed escapes as they are
+    }
+    return decoded
+      .replace(/[?#].*$/, '')
+      .replace(/\.[a-z0-9]+$/i, '')
+      .replace(/[^\p{L}\p{N}]+/gu, ' ');
+  }
+
+  private parseUrl(value: string): URL | null {
+    try {
+      const url = new URL(value);
+      url.hash = '';
+      return url;
+    } catch {
+      return null;
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,92 @@
+import { VisibilityScoreCalculator } from '../visibility-score.calculator';
+import { VisibilityScoreInput } from '../../../interfaces/visibility-score.interface';
+import { ValidationError } from '../../../../../shared/errors';
+
+describe('VisibilityScoreCalculator', () => {
+  const calculator = new VisibilityScoreCalculator();
+  const weights = { mentions: 0.4, sentiment: 0.3, authority: 0.3 };
+
+  const input: VisibilityScoreInput = {
+    answerCount: 20,
+    mentionedAnswerCount: 10,
+    sentiment: 0.6,
+    authority: 75,
+  };
+
+  it('should combine the components with the given weights', () => {
+    const result = calculator.calculate(input, weights);
+
+    expect(result.components).toEqual({
+      mentions: 0.5,
+      sentiment: 0.8,
+      authority: 0.75,
+    });
+    expect(result.overall).toBeCloseTo(0.665, 4);
+    expect(result.overall).toBeGreaterThan(0);
+    expect(result.overall).toBeLessThanOrEqual(1);
+  });
+
+  it('should normalize weights that do not sum to one', () => {
+    const result = calculator.calculate(input, {
+      mentions: 2,
+      sentiment: 1,
+      authority: 1,
+    });
+
+    expect(result.weights).toEqual({
+      mentions: 0.5,
+      sentiment: 0.25,
+      authority: 0.25,
+    });
+    expect(result.overall).toBeCloseTo(0.6375, 4);
+  });
+
+  it('should score a brand without answers, mentions or citations as zero', () => {
+    const result = calculator.calculate(
+      {
+        answerCount: 0,
+        mentionedAnswerCount: 0,
+        sentiment: null,
+        authority: 0,
+      },
+      weights,
+    );
+
+    expect(result.overall).toBe(0);
+    expect(result.components).toEqual({
+      mentions: 0,
+      sentiment: 0,
+      authority: 0,
+    });
+  });
+
+  it('should clamp components to the unit range', () => {
+    const result = calculator.calculate(
+      {
+        answerCount: 5,
+        mentionedAnswerCount: 8,
+        sentiment: -1.5,
+        authority: 120,
+      },
+      weights,
+    );
+
+    expect(result.components).toEqual({
+      mentions: 1,
+      sentiment: 0,
+      authority: 1,
+    });
+  });
+
+  it('should reject negative weights', () => {
+    expect(() =>
+      calculator.calculate(input, { ...weights, sentiment: -0.1 }),
+    ).toThrow(ValidationError);
+  });
+
+  it('should reject weights that are all zero', () => {
+    expect(() =>
+      calculator.normalizeWeights({ mentions: 0, sentiment: 0, authority: 0 }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { VisibilityScoreService } from '../visibility-score.service';
+import { VisibilityScoreCalculator } from '../visibility-score.calculator';
+import { VisibilityWeightsService } from '../visibility-weights.service';
+import { BrandHealthService } from '../../brand-health.service';
+import { BrandMentionService } from '../../brand-mention.service';
+import { CitationAuthorityService } from '../../citation-authority.service';
+import { PromptTrackingService } from '../../prompt-tracking.service';
+import { AnalyticsMetricEntity } from '../../../entities/analytics-metric.entity';
+import { AnalyticsMetricType } from '../../../interfaces/analytics-metric.interface';
+import { CitationOwnership } from '../../../interfaces/citation.interface';
+import { BrandService } from '../../../../brands/services/brand.service';
+import { DistributedLockService } from '../../../../../cache/distributed-lock.service';
+import { AnalyticsGateway } from '../../../../real-time/gateways/analytics.gateway';
+import { ValidationError } from '../../../../../shared/errors';
+
+// The service and prompt tracking pull in the analytics gateway and the
+// metrics service; replace them wholesale so the test does not depend on the Prometheus service
+// and socket server they wrap
+jest.mock('../../../../../metrics/services/business-metrics.service', () => ({
+  BusinessMetricsService: class BusinessMetricsService {},
+}));
+jest.mock('../../../../real-time/gateways/analytics.gateway', () => ({
+  AnalyticsGateway: class AnalyticsGateway {},
+}));
+
+describe('VisibilityScoreService', () => {
+  let service: VisibilityScoreService;
+  let repository: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let brandService: { findById: jest.Mock; findAll: jest.Mock };
+  let brandHealthService: { getBrandHealth: jest.Mock };
+  let brandMentionService: { countMentionedAnswers: jest.Mock };
+  let citationAuthorityService: { calculateCitationAuthority: jest.Mock };
+  let promptTrackingService: { countAnswers: jest.Mock };
+  let weightsService: { getWeights: jest.Mock };
+  let analyticsGateway: { emitAnalyticsUpdate: jest.Mock };
+  let lockService: { withLock: jest.Mock };
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  const startDate = new Date('2025-03-01T00:00:00Z');
+  const endDate = new Date('2025-03-30T23:59:59.999Z');
+
+  const domain = (
+    name: string,
+    score: number,
+    ownership: CitationOwnership,
+  ) => ({
+    domain: name,
+    ownership,
+    competitor: null,
+    score,
+  });
+
+  beforeEach(async () => {
+    repository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn(() => ({})),
+      save: jest.fn(async entity => entity),
+    };
+    brandService = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ id: brandId, organizationId: 'org-1' }),
+      findAll: jest.fn(),
+    };
+    brandHealthService = {
+      getBrandHealth: jest.fn().mockResolvedValue({
+        overallSentiment: 0.6,
+        mentionCount: 12,
+        trend: [
+          {
+            date: startDate,
+            sentiment: 0.6,
+            mentionCount: 12,
+            scoredCount: 10,
+          },
+        ],
+      }),
+    };
+    brandMentionService = {
+      countMentionedAnswers: jest.fn().mockResolvedValue(10),
+    };
+    citationAuthorityService = {
+      calculateCitationAuthority: jest
+        .fn()
+        .mockResolvedValue([
+          domain('reviews.example.com', 90, CitationOwnership.THIRD_PARTY),
+          domain('acme.com', 75, CitationOwnership.OWNED),
+          domain('docs.acme.com', 40, CitationOwnership.OWNED),
+        ]),
+    };
+    promptTrackingService = {
+      countAnswers: jest.fn().mockResolvedValue(20),
+    };
+    weightsService = {
+      getWeights: jest
+        .fn()
+        .mockResolvedValue({ mentions: 0.4, sentiment: 0.3, authority: 0.3 }),
+    };
+    analyticsGateway = { emitAnalyticsUpdate: jest.fn() };
+    lockService = {
+      withLock: jest.fn((_key: string, fn: () => Promise<unknown>) => fn()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VisibilityScoreService,
+        VisibilityScoreCalculator,
+        {
+          provide: getRepositoryToken(AnalyticsMetricEntity),
+          useValue: repository,
+        },
+        { provide: BrandService, useValue: brandService },
+        { provide: BrandHealthService, useValue: brandHealthService },
+        { provide: BrandMentionService, useValue: brandMentionService },
+        {
+          provide: CitationAuthorityService,
+          useValue: citationAuthorityService,
+        },
+        { provide: PromptTrackingService, useValue: promptTrackingService },
+        { provide: VisibilityWeightsService, useValue: weightsService },
+        { provide: DistributedLockService, useValue: lockService },
+        { provide: AnalyticsGateway, useValue: analyticsGateway },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue({ visibility: { windowDays: 30 } }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VisibilityScoreService>(VisibilityScoreService);
+  });
+
+  describe('calculate', () => {
+    it('should score the brand with its organization weights', async () => {
+      const result = await service.calculate(brandId, startDate, endDate);
+
+      expect(weightsService.getWeights).toHaveBeenCalledWith('org-1');
+      expect(result).toEqual({
+        brandId,
+        overall: 0.665,
+        components: { mentions: 0.5, sentiment: 0.8, authority: 0.75 },
+        weights: { mentions: 0.4, sentiment: 0.3, authority: 0.3 },
+        periodStart: startDate,
+        periodEnd: endDate,
+      });
+    });
+
+    it('should not credit sentiment when no mention was scored', async () => {
+      brandHealthService.getBrandHealth.mockResolvedValue({
+        overallSentiment: 0,
+        mentionCount: 0,
+        trend: [],
+      });
+      citationAuthorityService.calculateCitationAuthority.mockResolvedValue([]);
+
+      const result = await service.calculate(brandId, startDate, endDate);
+
+      expect(result.components).toEqual({
+        mentions: 0.5,
+        sentiment: 0,
+        authority: 0,
+      });
+    });
+
+    it('should reject an inverted range', async () => {
+      await expect(
+        service.calculate(brandId, endDate, startDate),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('recordDailyScore', () => {
+    it('should store the score for the trailing window ending that day', async () => {
+      await service.recordDailyScore(brandId, new Date('2025-03-30T15:20:00Z'));
+
+      expect(promptTrackingService.countAnswers).toHaveBeenCalledWith(
+        brandId,
+        startDate,
+        endDate,
+      );
+      expect(repository.save).toHaveBeenCalledWith({
+        brandId,
+        metricType: AnalyticsMetricType.VISIBILITY_SCORE,
+        value: 0.665,
+        periodStart: startDate,
+        periodEnd: endDate,
+        metadata: {
+          components: { mentions: 0.5, sentiment: 0.8, authority: 0.75 },
+          weights: { mentions: 0.4, sentiment: 0.3, authority: 0.3 },
+        },
+      });
+      expect(analyticsGateway.emitAnalyticsUpdate).toHaveBeenCalledWith(
+        brandId,
+        {
+          visibilityScore: expect.objectContaining({
+            overall: 0.665,
+            periodEnd: endDate,
+          }),
+        },
+      );
+    });
+
+    it('should replace the value already stored for the day', async () => {
+      repository.findOne.mockResolvedValue({ id: 'metric-1', value: 0.2 });
+
+      await service.recordDailyScore(brandId, new Date('2025-03-30T23:00:00Z'));
+
+      expect(repository.create).not.toHaveBeenCalled();
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'metric-1', value: 0.665 }),
+      );
+    });
+  });
+
+  describe('recordAll', () => {
+    it('should keep recording when one brand fails', async () => {
+      brandService.findAll.mockResolvedValue([
+        { id: 'missing' },
+        { id: brandId },
+      ]);
+      brandService.findById.mockImplementation(async (id: string) => {
+        if (id === 'missing') {
+          throw new Error('not found');
+        }
+        return { id, organizationId: null };
+      });
+
+      await expect(service.recordAll()).resolves.toBe(1);
+      expect(repository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when another instance holds the lock', async () => {
+      lockService.withLock.mockResolvedValue(null);
+
+      await expect(service.recordAll()).resolves.toBeNull();
+      expect(brandService.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should map the stored metric back to a score', async () => {
+      repository.findOne.mockResolvedValue({
+        brandId,
+        value: 0.665,
+        periodStart: startDate,
+        periodEnd: endDate,
+        metadata: {
+          components: { mentions: 0.5, sentiment: 0.8, authority: 0.75 },
+          weights: { mentions: 0.4, sentiment: 0.3, authority: 0.3 },
+        },
+      });
+
+      const result = await service.getLatest(brandId);
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { brandId, metricType: AnalyticsMetricType.VISIBILITY_SCORE },
+        order: { periodEnd: 'DESC' },
+      });
+      expect(result?.overall).toBe(0.665);
+      expect(result?.components.authority).toBe(0.75);
+    });
+
+    it('should return null before any score is recorded', async () => {
+      await expect(service.getLatest(brandId)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { ValidationError } from '../../../../shared/errors';
+import {
+  VisibilityComponents,
+  VisibilityScore,
+  VisibilityScoreInput,
+  VisibilityWeights,
+} from '../../interfaces/visibility-score.interface';
+
+const COMPONENTS: (keyof VisibilityWeights)[] = [
+  'mentions',
+  'sentiment',
+  'authority',
+];
+
+/**
+ * Combines mention frequency, sentiment and citation authority into a single
+ * AI visibility score in the range [0, 1]
+ */
+@Injectable()
+export class VisibilityScoreCalculator {
+  /**
+   * Score a brand from its raw visibility data
+   * @param input - Answer coverage, sentiment and authority for the period
+   * @param weights - Relative component weights, normalized before use
+   * @throws {ValidationError} When the weights are invalid
+   */
+  calculate(
+    input: VisibilityScoreInput,
+    weights: VisibilityWeights,
+  ): VisibilityScore {
+    const normalized = this.normalizeWeights(weights);
+    const components: VisibilityComponents = {
+      mentions: this.calculateMentionScore(input),
+      sentiment: this.calculateSentimentScore(input.sentiment),
+      authority: this.calculateAuthorityScore(input.authority),
+    };
+
+    const overall = COMPONENTS.reduce(
+      (sum, key) => sum + normalized[key] * components[key],
+      0,
+    );
+
+    return {
+      overall: this.round(overall),
+      components: {
+        mentions: this.round(components.mentions),
+        sentiment: this.round(components.sentiment),
+        authority: this.round(components.authority),
+      },
+      weights: normalized,
+    };
+  }
+
+  /**
+   * Scale weights so they sum to one
+   * @param weights - Relative component weights
+   * @throws {ValidationError} When a weight is negative or not finite, or all
+   * weights are zero
+   */
+  normalizeWeights(weights: VisibilityWeights): VisibilityWeights {
+    for (const key of COMPONENTS) {
+      if (!Number.isFinite(weights[key]) || weights[key] < 0) {
+        throw new ValidationError(
+          'Visibility weights must be non-negative numbers',
+          { weights },
+        );
+      }
+    }
+
+    const total = COMPONENTS.reduce((sum, key) => sum + weights[key], 0);
+    if (total === 0) {
+      throw new ValidationError('At least one visibility weight must be set', {
+        weights,
+      });
+    }
+
+    return {
+      mentions: this.round(weights.mentions / total),
+      sentiment: this.round(weights.sentiment / total),
+      authority: this.round(weights.authority / total),
+    };
+  }
+
+  private calculateMentionScore(input: VisibilityScoreInput): number {
+    if (input.answerCount <= 0) {
+      return 0;
+    }
+    return this.clamp(input.mentionedAnswerCount / input.answerCount);
+  }
+
+  /**
+   * A brand that is never mentioned has no sentiment to speak of, so it
+   * contributes nothing rather than a neutral half score
+   */
+  private calculateSentimentScore(sentiment: number | null): number {
+    if (sentiment === null) {
+      return 0;
+    }
+    return this.clamp((sentiment + 1) / 2);
+  }
+
+  private calculateAuthorityScore(authority: number): number {
+    return this.clamp(authority / 100);
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnswerEngineConfig } from '../../../../config/answer-engine.config';
+import { VisibilityScoreService } from './visibility-score.service';
+
+/**
+ * Records the current day's visibility score for all brands at a fixed
+ * interval, so each day's stored value reflects its latest data
+ */
+@Injectable()
+export class VisibilityScoreScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VisibilityScoreScheduler.name);
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly visibilityScoreService: VisibilityScoreService,
+  ) {}
+
+  onModuleInit(): void {
+    const visibility =
+      this.configService.get<AnswerEngineConfig>('answerEngine')?.visibility;
+    if (!visibility?.enabled) {
+      this.logger.log('Scheduled visibility scoring is disabled');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      void this.tick();
+    }, visibility.intervalMs);
+
+    this.logger.log(
+      `Scheduled visibility scoring every ${visibility.intervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.log('Stopped scheduled visibility scoring');
+    }
+  }
+
+  /**
+   * Records scores for all brands unless the previous tick is still running
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('Previous visibility scoring cycle still running');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const recorded = await this.visibilityScoreService.recordAll();
+      if (recorded === null) {
+        this.logger.debug('Visibility scoring is running on another instance');
+      } else {
+        this.logger.log(`Recorded visibility scores for ${recorded} brands`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Visibility scoring cycle failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
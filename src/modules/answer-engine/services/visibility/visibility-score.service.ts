@@ -0,0 +1,261 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import { BaseService } from '../../../../shared/classes/base.service';
+import { ValidationError } from '../../../../shared/errors';
+import { DistributedLockService } from '../../../../cache/distributed-lock.service';
+import { AnswerEngineConfig } from '../../../../config/answer-engine.config';
+import { BrandService } from '../../../brands/services/brand.service';
+import { AnalyticsGateway } from '../../../real-time/gateways/analytics.gateway';
+import { BrandHealthService } from '../brand-health.service';
+import { BrandMentionService } from '../brand-mention.service';
+import { CitationAuthorityService } from '../citation-authority.service';
+import { PromptTrackingService } from '../prompt-tracking.service';
+import { VisibilityScoreCalculator } from './visibility-score.calculator';
+import { VisibilityWeightsService } from './visibility-weights.service';
+import { AnalyticsMetricEntity } from '../../entities/analytics-metric.entity';
+import { AnalyticsMetricType } from '../../interfaces/analytics-metric.interface';
+import { CitationOwnership } from '../../interfaces/citation.interface';
+import {
+  VisibilityComponents,
+  VisibilityScoreSnapshot,
+  VisibilityWeights,
+} from '../../interfaces/visibility-score.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long the daily recording lock is held before it expires */
+const RECORD_LOCK_TTL_MS = 10 * 60 * 1000;
+
+type VisibilityScoreMetadata = {
+  components: VisibilityComponents;
+  weights: VisibilityWeights;
+};
+
+/**
+ * Calculates brands' AI visibility scores with their organization's weights
+ * and keeps a daily history of them in the analytics_metrics table
+ */
+@Injectable()
+export class VisibilityScoreService extends BaseService<AnalyticsMetricEntity> {
+  private readonly logger = new Logger(VisibilityScoreService.name);
+  private readonly windowDays: number;
+
+  constructor(
+    @InjectRepository(AnalyticsMetricEntity)
+    repository: Repository<AnalyticsMetricEntity>,
+    private readonly brandService: BrandService,
+    private readonly brandHealthService: BrandHealthService,
+    private readonly brandMentionService: BrandMentionService,
+    private readonly citationAuthorityService: CitationAuthorityService,
+    private readonly promptTrackingService: PromptTrackingService,
+    private readonly weightsService: VisibilityWeightsService,
+    private readonly calculator: VisibilityScoreCalculator,
+    private readonly lockService: DistributedLockService,
+    private readonly analyticsGateway: AnalyticsGateway,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.windowDays =
+      configService.get<AnswerEngineConfig>('answerEngine')?.visibility
+        .windowDays ?? 30;
+  }
+
+  /**
+   * Calculate a brand's visibility score over a date range
+   * @param brandId - Brand ID
+   * @param startDate - Start of the window (inclusive)
+   * @param endDate - End of the window (inclusive)
+   * @throws {ValidationError} When the range is inverted
+   * @throws {NotFoundException} When the brand does not exist
+   */
+  async calculate(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<VisibilityScoreSnapshot> {
+    if (startDate > endDate) {
+      throw new ValidationError('startDate must not be after endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const brand = await this.brandService.findById(brandId);
+    const [weights, answerCount, mentionedAnswerCount, health, authority] =
+      await Promise.all([
+        this.weightsService.getWeights(brand.organizationId),
+        this.promptTrackingService.countAnswers(brandId, startDate, endDate),
+        this.brandMentionService.countMentionedAnswers(
+          brandId,
+          startDate,
+          endDate,
+        ),
+        this.brandHealthService.getBrandHealth(brandId, startDate, endDate),
+        this.citationAuthorityService.calculateCitationAuthority(
+          brandId,
+          startDate,
+          endDate,
+        ),
+      ]);
+
+    const scored = health.trend.some(bucket => bucket.scoredCount > 0);
+    // Domains come back sorted by score, so the first owned one is the best
+    const ownedDomain = authority.find(
+      domain => domain.ownership === CitationOwnership.OWNED,
+    );
+
+    const score = this.calculator.calculate(
+      {
+        answerCount,
+        mentionedAnswerCount,
+        sentiment: scored ? health.overallSentiment : null,
+        authority: ownedDomain?.score ?? 0,
+      },
+      weights,
+    );
+
+    return {
+      brandId,
+      ...score,
+      periodStart: startDate,
+      periodEnd: endDate,
+    };
+  }
+
+  /**
+   * Calculate and store a brand's score for a day. The score covers the
+   * configured trailing window ending with that day; recording the same day
+   * again replaces the stored value.
+   * @param brandId - Brand ID
+   * @param day - Any time on the day to record, in UTC
+   * @throws {NotFoundException} When the brand does not exist
+   */
+  async recordDailyScore(
+    brandId: string,
+    day: Date = new Date(),
+  ): Promise<VisibilityScoreSnapshot> {
+    const dayStart = Date.UTC(
+      day.getUTCFullYear(),
+      day.getUTCMonth(),
+      day.getUTCDate(),
+    );
+    const periodEnd = new Date(dayStart + DAY_MS - 1);
+    const periodStart = new Date(dayStart - (this.windowDays - 1) * DAY_MS);
+
+    const snapshot = await this.calculate(brandId, periodStart, periodEnd);
+    const metadata: VisibilityScoreMetadata = {
+      components: snapshot.components,
+      weights: snapshot.weights,
+    };
+
+    const existing = await this.repository.findOne({
+      where: {
+        brandId,
+        metricType: AnalyticsMetricType.VISIBILITY_SCORE,
+        periodEnd,
+      },
+    });
+    await this.repository.save(
+      Object.assign(existing ?? this.repository.create(), {
+        brandId,
+        metricType: AnalyticsMetricType.VISIBILITY_SCORE,
+        value: snapshot.overall,
+        periodStart,
+        periodEnd,
+        metadata,
+      }),
+    );
+    await this.analyticsGateway.emitAnalyticsUpdate(brandId, {
+      visibilityScore: snapshot,
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Record the day's score for every brand. Only one instance records at a
+   * time.
+   * @param day - Any time on the day to record, in UTC
+   * @returns The number of brands recorded, or null when another instance
+   * holds the lock
+   */
+  async recordAll(day: Date = new Date()): Promise<number | null> {
+    return this.lockService.withLock(
+      'visibility-score:daily',
+      async () => {
+        const brands = await this.brandService.findAll();
+        let recorded = 0;
+
+        for (const brand of brands) {
+          try {
+            await this.recordDailyScore(brand.id, day);
+            recorded++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to record visibility score for brand ${brand.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            );
+          }
+        }
+
+        return recorded;
+      },
+      { ttl: RECORD_LOCK_TTL_MS, maxRetries: 1 },
+    );
+  }
+
+  /**
+   * The most recently recorded score for a brand
+   * @param brandId - Brand ID
+   */
+  async getLatest(brandId: string): Promise<VisibilityScoreSnapshot | null> {
+    const latest = await this.repository.findOne({
+      where: { brandId, metricType: AnalyticsMetricType.VISIBILITY_SCORE },
+      order: { periodEnd: 'DESC' },
+    });
+    return latest ? this.toSnapshot(latest) : null;
+  }
+
+  /**
+   * Recorded daily scores for a brand, oldest first
+   * @param brandId - Brand ID
+   * @param startDate - Earliest period end to include
+   * @param endDate - Latest period end to include
+   */
+  async getHistory(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<VisibilityScoreSnapshot[]> {
+    const rows = await this.repository.find({
+      where: {
+        brandId,
+        metricType: AnalyticsMetricType.VISIBILITY_SCORE,
+        periodEnd: Between(startDate, endDate),
+      },
+      order: { periodEnd: 'ASC' },
+    });
+    return rows.map(row => this.toSnapshot(row));
+  }
+
+  private toSnapshot(metric: AnalyticsMetricEntity): VisibilityScoreSnapshot {
+    const metadata = metric.metadata as VisibilityScoreMetadata | null;
+    return {
+      brandId: metric.brandId,
+      overall: metric.value,
+      components: metadata?.components ?? {
+        mentions: 0,
+        sentiment: 0,
+        authority: 0,
+      },
+      weights: metadata?.weights ?? {
+        mentions: 0,
+        sentiment: 0,
+        authority: 0,
+      },
+      periodStart: new Date(metric.periodStart),
+      periodEnd: new Date(metric.periodEnd),
+    };
+  }
+}
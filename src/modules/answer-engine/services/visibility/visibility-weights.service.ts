@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseService } from '../../../../shared/classes/base.service';
+import { AnswerEngineConfig } from '../../../../config/answer-engine.config';
+import { VisibilityWeightsEntity } from '../../entities/visibility-weights.entity';
+import { VisibilityWeights } from '../../interfaces/visibility-score.interface';
+import { VisibilityScoreCalculator } from './visibility-score.calculator';
+
+const FALLBACK_WEIGHTS: VisibilityWeights = {
+  mentions: 0.4,
+  sentiment: 0.3,
+  authority: 0.3,
+};
+
+/**
+ * Stores the visibility score weights each organization has configured
+ */
+@Injectable()
+export class VisibilityWeightsService extends BaseService<VisibilityWeightsEntity> {
+  private readonly defaultWeights: VisibilityWeights;
+
+  constructor(
+    @InjectRepository(VisibilityWeightsEntity)
+    repository: Repository<VisibilityWeightsEntity>,
+    private readonly calculator: VisibilityScoreCalculator,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.defaultWeights = calculator.normalizeWeights(
+      configService.get<AnswerEngineConfig>('answerEngine')?.visibility
+        .defaultWeights ?? FALLBACK_WEIGHTS,
+    );
+  }
+
+  /**
+   * Weights that apply to an organization's brands, falling back to the
+   * configured defaults
+   * @param organizationId - Organization ID; brands without one use defaults
+   */
+  async getWeights(organizationId?: string | null): Promise<VisibilityWeights> {
+    if (!organizationId) {
+      return this.defaultWeights;
+    }
+
+    const stored = await this.repository.findOne({ where: { organizationId } });
+    if (!stored) {
+      return this.defaultWeights;
+    }
+    return {
+      mentions: stored.mentions,
+      sentiment: stored.sentiment,
+      authority: stored.authority,
+    };
+  }
+
+  /**
+   * Configure an organization's weights. They are normalized to sum to one.
+   * @param organizationId - Organization ID
+   * @param weights - Relative component weights
+   * @throws {ValidationError} When the weights are invalid
+   */
+  async setWeights(
+    organizationId: string,
+    weights: VisibilityWeights,
+  ): Promise<VisibilityWeights> {
+    const normalized = this.calculator.normalizeWeights(weights);
+    const stored =
+      (await this.repository.findOne({ where: { organizationId } })) ??
+      this.repository.create({ organizationId });
+
+    await this.repository.save(Object.assign(stored, normalized));
+    return normalized;
+  }
+
+  /**
+   * Drop an organization's weights so the defaults apply again
+   * @param organizationId - Organization ID
+   */
+  async resetWeights(organizationId: string): Promise<VisibilityWeights> {
+    await this.repository.delete({ organizationId });
+    return this.defaultWeights;
+  }
+}
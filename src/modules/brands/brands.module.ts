@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../../auth/auth.module';
+import { BrandEntity } from './entities/brand.entity';
+import { CompetitorSetEntity } from './entities/competitor-set.entity';
+import { BrandPageEntity } from './entities/brand-page.entity';
+import { BrandService } from './services/brand.service';
+import { CompetitorSetService } from './services/competitor-set.service';
+import { BrandPageService } from './services/brand-page.service';
+import { BrandController } from './controllers/brand.controller';
+import { BrandResolver } from './graphql/brand.resolver';
+import { CompetitorSetResolver } from './graphql/competitor-set.resolver';
+import { BrandPageResolver } from './graphql/brand-page.resolver';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BrandEntity,
+      CompetitorSetEntity,
+      BrandPageEntity,
+    ]),
+    AuthModule,
+  ],
+  controllers: [BrandController],
+  providers: [
+    BrandService,
+    CompetitorSetService,
+    BrandPageService,
+    BrandResolver,
+    CompetitorSetResolver,
+    BrandPageResolver,
+  ],
+  exports: [BrandService, CompetitorSetService, BrandPageService],
+})
+export class BrandsModule {}
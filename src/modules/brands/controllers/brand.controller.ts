@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../services/brand.service';
+import { BrandEntity } from '../entities/brand.entity';
+import { CreateBrandDto, UpdateBrandDto } from '../dto/brand.dto';
+
+@ApiTags('brands')
+@Controller('brands')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+@ApiBearerAuth()
+export class BrandController {
+  constructor(private readonly brandService: BrandService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List tracked brands' })
+  @ApiResponse({ status: 200, description: 'Brands' })
+  async findAll(): Promise<BrandEntity[]> {
+    return this.brandService.findAll({ order: { name: 'ASC' } });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a brand' })
+  @ApiParam({ name: 'id', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Brand' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<BrandEntity> {
+    return this.brandService.findById(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a brand' })
+  @ApiResponse({ status: 201, description: 'Brand created' })
+  async create(@Body() dto: CreateBrandDto): Promise<BrandEntity> {
+    return this.brandService.createBrand(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a brand' })
+  @ApiParam({ name: 'id', description: 'Brand ID' })
+  @ApiResponse({ status: 200, description: 'Brand updated' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateBrandDto,
+  ): Promise<BrandEntity> {
+    return this.brandService.updateBrand(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a brand' })
+  @ApiParam({ name: 'id', description: 'Brand ID' })
+  @ApiResponse({ status: 204, description: 'Brand deleted' })
+  @ApiResponse({ status: 404, description: 'Brand not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.brandService.softDelete(id);
+  }
+}
@@ -0,0 +1,45 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from './brand.entity';
+import { BrandPageSource } from '../interfaces/brand-page.interface';
+
+/**
+ * A page published on one of a brand's domains
+ */
+@Entity('brand_pages')
+@Index('IDX_brand_pages_brand_url', ['brandId', 'url'], { unique: true })
+export class BrandPageEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_brand_pages_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column('text')
+  url: string;
+
+  /** Normalized domain, e.g. "example.com" */
+  @Column({ length: 255 })
+  domain: string;
+
+  /** Path and query of the URL, e.g. "/blog/crm-for-startups" */
+  @Column('text')
+  path: string;
+
+  @Column({ type: 'text', nullable: true })
+  title: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastModified: Date | null;
+
+  /** Sitemap priority in [0, 1] */
+  @Column({ type: 'float', nullable: true })
+  priority: number | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  source: BrandPageSource;
+}
@@ -0,0 +1,37 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import {
+  BrandCompetitor,
+  BrandSettings,
+  BrandTrackingConfig,
+} from '../interfaces/brand.interface';
+
+/**
+ * A brand whose visibility across AI platforms is being tracked
+ */
+@Entity('brands')
+export class BrandEntity extends BaseEntity {
+  @Index('IDX_brands_name')
+  @Column({ length: 255 })
+  name: string;
+
+  /** Organization that owns the brand; selects its visibility score weights */
+  @Index('IDX_brands_organization')
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  organizationId: string | null;
+
+  @Column('text', { array: true, default: '{}' })
+  aliases: string[];
+
+  @Column('text', { array: true, default: '{}' })
+  domains: string[];
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  competitors: BrandCompetitor[];
+
+  @Column({ type: 'jsonb' })
+  trackingConfig: BrandTrackingConfig;
+
+  @Column({ type: 'jsonb' })
+  settings: BrandSettings;
+}
@@ -0,0 +1,28 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from './brand.entity';
+
+/**
+ * A named group of a brand's competitors to benchmark against, e.g.
+ * "Enterprise CRMs"
+ */
+@Entity('competitor_sets')
+export class CompetitorSetEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_competitor_sets_brand')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_competitor_sets_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 255 })
+  name: string;
+
+  /** Names of competitors configured on the brand */
+  @Column('text', { array: true, default: '{}' })
+  competitors: string[];
+}
@@ -0,0 +1,28 @@
+import { Resolver, Query, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../services/brand.service';
+import { BrandPageService } from '../services/brand-page.service';
+import { BrandPageEntity } from '../entities/brand-page.entity';
+import { BrandPage } from './brand-page.types';
+
+@Resolver(() => BrandPage)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+export class BrandPageResolver {
+  constructor(
+    private readonly brandPageService: BrandPageService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [BrandPage])
+  async brandPages(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<BrandPageEntity[]> {
+    await this.brandService.assertExists(brandId);
+    return this.brandPageService.findByBrand(brandId);
+  }
+}
@@ -0,0 +1,48 @@
+import { ObjectType, Field, ID, Int, Float } from '@nestjs/graphql';
+
+@ObjectType()
+export class BrandPage {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  url: string;
+
+  @Field()
+  domain: string;
+
+  @Field()
+  path: string;
+
+  @Field({ nullable: true })
+  title?: string;
+
+  @Field({ nullable: true })
+  lastModified?: Date;
+
+  @Field(() => Float, { nullable: true })
+  priority?: number;
+}
+
+@ObjectType()
+export class SkippedSitemapUrl {
+  @Field()
+  url: string;
+
+  @Field()
+  reason: string;
+}
+
+@ObjectType()
+export class SitemapImport {
+  @Field(() => Int)
+  imported: number;
+
+  @Field(() => [SkippedSitemapUrl])
+  skipped: SkippedSitemapUrl[];
+
+  @Field(() => [String], {
+    description: 'Sitemaps listed by a sitemap index, to import next',
+  })
+  sitemaps: string[];
+}
@@ -0,0 +1,49 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../services/brand.service';
+import { Brand, CreateBrandInput, UpdateBrandInput } from './brand.types';
+
+@Resolver(() => Brand)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+export class BrandResolver {
+  constructor(private readonly brandService: BrandService) {}
+
+  @Query(() => [Brand])
+  async brands(): Promise<Brand[]> {
+    return this.brandService.findAll({ order: { name: 'ASC' } });
+  }
+
+  @Query(() => Brand)
+  async brand(@Args('id', { type: () => ID }) id: string): Promise<Brand> {
+    await this.brandService.assertExists(id);
+    return this.brandService.findById(id);
+  }
+
+  @Mutation(() => Brand)
+  async createBrand(@Args('input') input: CreateBrandInput): Promise<Brand> {
+    return this.brandService.createBrand(input);
+  }
+
+  @Mutation(() => Brand)
+  async updateBrand(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('input') input: UpdateBrandInput,
+  ): Promise<Brand> {
+    await this.brandService.assertExists(id);
+    return this.brandService.updateBrand(id, input);
+  }
+
+  @Mutation(() => Boolean)
+  async deleteBrand(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<boolean> {
+    await this.brandService.assertExists(id);
+    await this.brandService.softDelete(id);
+    return true;
+  }
+}
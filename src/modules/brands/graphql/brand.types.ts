@@ -0,0 +1,166 @@
+import { ObjectType, Field, ID, Float, InputType } from '@nestjs/graphql';
+
+@ObjectType()
+export class BrandCompetitor {
+  @Field()
+  name: string;
+
+  @Field(() => [String], { nullable: true })
+  aliases?: string[];
+
+  @Field(() => [String], { nullable: true })
+  domains?: string[];
+}
+
+@ObjectType()
+export class BrandTrackingConfig {
+  @Field(() => [String])
+  prompts: string[];
+
+  @Field(() => [String])
+  keywords: string[];
+
+  @Field(() => [String])
+  excludeKeywords: string[];
+
+  @Field(() => [String])
+  languages: string[];
+
+  @Field(() => [String])
+  regions: string[];
+}
+
+@ObjectType()
+export class BrandAlertThresholds {
+  @Field(() => Float, { nullable: true })
+  sentimentDrop?: number;
+
+  @Field(() => Float, { nullable: true })
+  shareOfVoiceChange?: number;
+}
+
+@ObjectType()
+export class BrandSettings {
+  @Field(() => BrandAlertThresholds)
+  alertThresholds: BrandAlertThresholds;
+}
+
+@ObjectType()
+export class Brand {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => String, { nullable: true })
+  organizationId: string | null;
+
+  @Field(() => [String])
+  aliases: string[];
+
+  @Field(() => [String])
+  domains: string[];
+
+  @Field(() => [BrandCompetitor])
+  competitors: BrandCompetitor[];
+
+  @Field(() => BrandTrackingConfig)
+  trackingConfig: BrandTrackingConfig;
+
+  @Field(() => BrandSettings)
+  settings: BrandSettings;
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+}
+
+@InputType()
+export class BrandCompetitorInput {
+  @Field()
+  name: string;
+
+  @Field(() => [String], { nullable: true })
+  aliases?: string[];
+
+  @Field(() => [String], { nullable: true })
+  domains?: string[];
+}
+
+@InputType()
+export class BrandTrackingConfigInput {
+  @Field(() => [String], { nullable: true })
+  prompts?: string[];
+
+  @Field(() => [String], { nullable: true })
+  keywords?: string[];
+
+  @Field(() => [String], { nullable: true })
+  excludeKeywords?: string[];
+
+  @Field(() => [String], { nullable: true })
+  languages?: string[];
+
+  @Field(() => [String], { nullable: true })
+  regions?: string[];
+}
+
+@InputType()
+export class BrandAlertThresholdsInput {
+  @Field(() => Float, { nullable: true })
+  sentimentDrop?: number;
+
+  @Field(() => Float, { nullable: true })
+  shareOfVoiceChange?: number;
+}
+
+@InputType()
+export class CreateBrandInput {
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  organizationId?: string;
+
+  @Field(() => [String], { nullable: true })
+  aliases?: string[];
+
+  @Field(() => [String], { nullable: true })
+  domains?: string[];
+
+  @Field(() => [BrandCompetitorInput], { nullable: true })
+  competitors?: BrandCompetitorInput[];
+
+  @Field(() => BrandTrackingConfigInput, { nullable: true })
+  trackingConfig?: BrandTrackingConfigInput;
+
+  @Field(() => BrandAlertThresholdsInput, { nullable: true })
+  alertThresholds?: BrandAlertThresholdsInput;
+}
+
+@InputType()
+export class UpdateBrandInput {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field({ nullable: true })
+  organizationId?: string;
+
+  @Field(() => [String], { nullable: true })
+  aliases?: string[];
+
+  @Field(() => [String], { nullable: true })
+  domains?: string[];
+
+  @Field(() => [BrandCompetitorInput], { nullable: true })
+  competitors?: BrandCompetitorInput[];
+
+  @Field(() => BrandTrackingConfigInput, { nullable: true })
+  trackingConfig?: BrandTrackingConfigInput;
+
+  @Field(() => BrandAlertThresholdsInput, { nullable: true })
+  alertThresholds?: BrandAlertThresholdsInput;
+}
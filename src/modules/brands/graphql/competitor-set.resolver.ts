@@ -0,0 +1,55 @@
+import { Resolver, Query, Mutation, Args, ID } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../services/brand.service';
+import { CompetitorSetService } from '../services/competitor-set.service';
+import {
+  CompetitorSet,
+  CreateCompetitorSetInput,
+  UpdateCompetitorSetInput,
+} from './competitor-set.types';
+
+@Resolver(() => CompetitorSet)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Permissions(Permission.MANAGE_ANALYTICS)
+export class CompetitorSetResolver {
+  constructor(
+    private readonly competitorSetService: CompetitorSetService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [CompetitorSet])
+  async competitorSets(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<CompetitorSet[]> {
+    await this.brandService.assertExists(brandId);
+    return this.competitorSetService.findByBrand(brandId);
+  }
+
+  @Mutation(() => CompetitorSet)
+  async createCompetitorSet(
+    @Args('input') input: CreateCompetitorSetInput,
+  ): Promise<CompetitorSet> {
+    return this.competitorSetService.createSet(input);
+  }
+
+  @Mutation(() => CompetitorSet)
+  async updateCompetitorSet(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('input') input: UpdateCompetitorSetInput,
+  ): Promise<CompetitorSet> {
+    return this.competitorSetService.updateSet(id, input);
+  }
+
+  @Mutation(() => Boolean)
+  async deleteCompetitorSet(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<boolean> {
+    await this.competitorSetService.findSet(id);
+    await this.competitorSetService.softDelete(id);
+    return true;
+  }
+}
@@ -0,0 +1,43 @@
+import { ObjectType, Field, ID, InputType } from '@nestjs/graphql';
+
+@ObjectType()
+export class CompetitorSet {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => [String])
+  competitors: string[];
+
+  @Field()
+  createdAt: Date;
+
+  @Field()
+  updatedAt: Date;
+}
+
+@InputType()
+export class CreateCompetitorSetInput {
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => [String])
+  competitors: string[];
+}
+
+@InputType()
+export class UpdateCompetitorSetInput {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field(() => [String], { nullable: true })
+  competitors?: string[];
+}
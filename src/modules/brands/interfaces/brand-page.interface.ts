@@ -0,0 +1,19 @@
+/**
+ * How a brand page became known
+ */
+export enum BrandPageSource {
+  SITEMAP = 'sitemap',
+}
+
+/**
+ * Outcome of importing a sitemap
+ */
+export interface SitemapImportResult {
+  imported: number;
+
+  /** URLs left out, e.g. because they are not on one of the brand's domains */
+  skipped: { url: string; reason: string }[];
+
+  /** Sitemaps listed by a sitemap index, which still need importing */
+  sitemaps: string[];
+}
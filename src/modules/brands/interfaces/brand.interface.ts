@@ -0,0 +1,64 @@
+/**
+ * A competitor tracked alongside a brand
+ */
+export interface BrandCompetitor {
+  name: string;
+
+  /** Alternative spellings or product names that refer to the competitor */
+  aliases?: string[];
+
+  /** Domains owned by the competitor */
+  domains?: string[];
+}
+
+/**
+ * What to look for when tracking a brand across AI platforms
+ */
+export interface BrandTrackingConfig {
+  /** Prompts submitted to every enabled AI platform on each tracking run */
+  prompts: string[];
+  keywords: string[];
+  excludeKeywords: string[];
+  languages: string[];
+  regions: string[];
+}
+
+/**
+ * Thresholds that trigger alerts for a brand
+ */
+export interface BrandAlertThresholds {
+  /** Drop in average sentiment between periods, in the range [0, 2] */
+  sentimentDrop?: number;
+
+  /** Change in share of voice between periods, in percentage points */
+  shareOfVoiceChange?: number;
+}
+
+export interface BrandSettings {
+  alertThresholds: BrandAlertThresholds;
+}
+
+/**
+ * Data accepted when creating a brand. Omitted tracking fields default to
+ * empty lists.
+ */
+export interface CreateBrand {
+  name: string;
+  organizationId?: string | null;
+  aliases?: string[];
+  domains?: string[];
+  competitors?: BrandCompetitor[];
+  trackingConfig?: Partial<BrandTrackingConfig>;
+  alertThresholds?: BrandAlertThresholds;
+}
+
+export type UpdateBrand = Partial<CreateBrand>;
+
+/**
+ * Authenticated user whose access to a brand is being checked
+ */
+export interface BrandAccessor {
+  roles?: string[];
+  permissions?: string[];
+  organizationId?: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Data accepted when creating a competitor set. Competitors are referenced by
+ * the names configured on the brand.
+ */
+export interface CreateCompetitorSet {
+  brandId: string;
+  name: string;
+  competitors: string[];
+}
+
+export type UpdateCompetitorSet = Partial<Omit<CreateCompetitorSet, 'brandId'>>;
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBrands1741564800000 implements MigrationInterface {
+  name = 'CreateBrands1741564800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+
+    await queryRunner.query(`
+      CREATE TABLE "brands" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(255) NOT NULL,
+        "aliases" text array NOT NULL DEFAULT '{}',
+        "domains" text array NOT NULL DEFAULT '{}',
+        "competitors" jsonb NOT NULL DEFAULT '[]',
+        "trackingConfig" jsonb NOT NULL,
+        "settings" jsonb NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_brands" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_brands_name" ON "brands" ("name")`,
+    );
+
+    // Mentions were previously keyed by a free-form brand string
+    await queryRunner.query(`
+      ALTER TABLE "brand_mentions"
+        ALTER COLUMN "brandId" TYPE uuid USING "brandId"::uuid
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "brand_mentions"
+        ADD CONSTRAINT "FK_brand_mentions_brand"
+        FOREIGN KEY ("brandId") REFERENCES "brands"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "brand_mentions" DROP CONSTRAINT "FK_brand_mentions_brand"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "brand_mentions" ALTER COLUMN "brandId" TYPE character varying`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_brands_name"`);
+    await queryRunner.query(`DROP TABLE "brands"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCompetitorSets1742947200000 implements MigrationInterface {
+  name = 'CreateCompetitorSets1742947200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "competitor_sets" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "competitors" text array NOT NULL DEFAULT '{}',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_competitor_sets" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_competitor_sets_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_competitor_sets_brand" ON "competitor_sets" ("brandId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_competitor_sets_brand"`);
+    await queryRunner.query(`DROP TABLE "competitor_sets"`);
+  }
+}
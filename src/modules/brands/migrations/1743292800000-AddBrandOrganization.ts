@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBrandOrganization1743292800000 implements MigrationInterface {
+  name = 'AddBrandOrganization1743292800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "brands" ADD "organizationId" character varying(255)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_brands_organization" ON "brands" ("organizationId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_brands_organization"`);
+    await queryRunner.query(
+      `ALTER TABLE "brands" DROP COLUMN "organizationId"`,
+    );
+  }
+}
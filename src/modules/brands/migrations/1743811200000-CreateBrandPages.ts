@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBrandPages1743811200000 implements MigrationInterface {
+  name = 'CreateBrandPages1743811200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "brand_pages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "url" text NOT NULL,
+        "domain" character varying(255) NOT NULL,
+        "path" text NOT NULL,
+        "title" text,
+        "lastModified" TIMESTAMP WITH TIME ZONE,
+        "priority" double precision,
+        "source" character varying(20) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_brand_pages" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_brand_pages_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_brand_pages_brand_url"
+        ON "brand_pages" ("brandId", "url")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_brand_pages_brand_url"`);
+    await queryRunner.query(`DROP TABLE "brand_pages"`);
+  }
+}
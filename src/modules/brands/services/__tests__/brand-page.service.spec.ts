@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BrandPageService } from '../brand-page.service';
+import { BrandService } from '../brand.service';
+import { BrandPageEntity } from '../../entities/brand-page.entity';
+import { BrandPageSource } from '../../interfaces/brand-page.interface';
+
+describe('BrandPageService', () => {
+  let service: BrandPageService;
+  let repository: {
+    find: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+  };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+
+  const sitemap = (...urls: string[]): string =>
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+    urls.join('') +
+    '</urlset>';
+
+  beforeEach(async () => {
+    repository = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async entities => entities),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrandPageService,
+        { provide: getRepositoryToken(BrandPageEntity), useValue: repository },
+        {
+          provide: BrandService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              id: brandId,
+              domains: ['https://www.acme.com'],
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BrandPageService>(BrandPageService);
+  });
+
+  it('should import pages on the brand domains', async () => {
+    const result = await service.importSitemap(
+      brandId,
+      sitemap(
+        '<url><loc>https://www.acme.com/blog/crm-for-startups#intro</loc>' +
+          '<lastmod>2025-03-01</lastmod><priority>0.8</priority></url>',
+        '<url><loc>https://docs.acme.com/api?v=2&amp;lang=en</loc></url>',
+        '<url><loc>https://globex.com/pricing</loc></url>',
+        '<url><loc>not a url</loc></url>',
+      ),
+    );
+
+    expect(result).toEqual({
+      imported: 2,
+      skipped: [
+        { url: 'https://globex.com/pricing', reason: 'Not on a brand domain' },
+        { url: 'not a url', reason: 'Invalid URL' },
+      ],
+      sitemaps: [],
+    });
+    expect(repository.save).toHaveBeenCalledWith([
+      {
+        brandId,
+        url: 'https://www.acme.com/blog/crm-for-startups',
+        title: null,
+        domain: 'acme.com',
+        path: '/blog/crm-for-startups',
+        lastModified: new Date('2025-03-01'),
+        priority: 0.8,
+        source: BrandPageSource.SITEMAP,
+      },
+      expect.objectContaining({
+        url: 'https://docs.acme.com/api?v=2&lang=en',
+        domain: 'docs.acme.com',
+        path: '/api?v=2&lang=en',
+        lastModified: null,
+        priority: null,
+      }),
+    ]);
+  });
+
+  it('should update pages imported before', async () => {
+    const existing = {
+      id: 'page-1',
+      brandId,
+      url: 'https://acme.com/pricing',
+      title: 'Pricing',
+    };
+    repository.find.mockResolvedValue([existing]);
+
+    await service.importSitemap(
+      brandId,
+      sitemap(
+        '<url><loc>https://acme.com/pricing</loc><lastmod>2025-04-01</lastmod></url>',
+      ),
+    );
+
+    expect(repository.create).not.toHaveBeenCalled();
+    expect(repository.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        id: 'page-1',
+        title: 'Pricing',
+        lastModified: new Date('2025-04-01'),
+      }),
+    ]);
+  });
+
+  it('should list the sitemaps of a sitemap index', async () => {
+    const index =
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+      '<sitemap><loc>https://acme.com/sitemap-blog.xml</loc></sitemap>' +
+      '</sitemapindex>';
+
+    await expect(service.importSitemap(brandId, index)).resolves.toEqual({
+      imported: 0,
+      skipped: [],
+      sitemaps: ['https://acme.com/sitemap-blog.xml'],
+    });
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BrandService } from '../brand.service';
+import { BrandEntity } from '../../entities/brand.entity';
+import { NotFoundError } from '../../../../shared/errors';
+import { Permission } from '../../../../auth/enums/permission.enum';
+import { Role } from '../../../../auth/enums/role.enum';
+
+describe('BrandService', () => {
+  let service: BrandService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    exists: jest.Mock;
+  };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => ({ id: brandId, ...entity })),
+      findOne: jest.fn(),
+      exists: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrandService,
+        { provide: getRepositoryToken(BrandEntity), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<BrandService>(BrandService);
+  });
+
+  describe('createBrand', () => {
+    it('should normalise domains and default the tracking config', async () => {
+      await service.createBrand({
+        name: ' Acme ',
+        domains: ['https://www.Acme.com/pricing', 'acme.com', ' '],
+        competitors: [{ name: 'Globex', domains: ['WWW.globex.io'] }],
+        trackingConfig: { keywords: ['anvils', 'anvils'] },
+      });
+
+      expect(repository.save).toHaveBeenCalledWith({
+        name: 'Acme',
+        organizationId: null,
+        aliases: [],
+        domains: ['acme.com'],
+        competitors: [{ name: 'Globex', aliases: [], domains: ['globex.io'] }],
+        trackingConfig: {
+          prompts: [],
+          keywords: ['anvils'],
+          excludeKeywords: [],
+          languages: [],
+          regions: [],
+        },
+        settings: { alertThresholds: {} },
+      });
+    });
+  });
+
+  describe('updateBrand', () => {
+    it('should merge tracking config and alert thresholds', async () => {
+      repository.findOne.mockResolvedValue({
+        id: brandId,
+        name: 'Acme',
+        aliases: [],
+        domains: ['acme.com'],
+        competitors: [],
+        trackingConfig: {
+          prompts: ['best anvils'],
+          keywords: ['anvils'],
+          excludeKeywords: ['acme corp lawsuit'],
+          languages: ['en'],
+          regions: [],
+        },
+        settings: { alertThresholds: { sentimentDrop: 0.3 } },
+      });
+
+      const result = await service.updateBrand(brandId, {
+        trackingConfig: { keywords: ['rockets'] },
+        alertThresholds: { shareOfVoiceChange: 10 },
+      });
+
+      expect(result.trackingConfig).toEqual({
+        prompts: ['best anvils'],
+        keywords: ['rockets'],
+        excludeKeywords: ['acme corp lawsuit'],
+        languages: ['en'],
+        regions: [],
+      });
+      expect(result.settings.alertThresholds).toEqual({
+        sentimentDrop: 0.3,
+        shareOfVoiceChange: 10,
+      });
+      expect(result.domains).toEqual(['acme.com']);
+    });
+  });
+
+  describe('assertExists', () => {
+    it('should resolve for an existing brand', async () => {
+      repository.exists.mockResolvedValue(true);
+
+      await expect(service.assertExists(brandId)).resolves.toBeUndefined();
+      expect(repository.exists).toHaveBeenCalledWith({
+        where: { id: brandId },
+      });
+    });
+
+    it('should throw NotFoundError for a missing brand', async () => {
+      repository.exists.mockResolvedValue(false);
+
+      await expect(service.assertExists(brandId)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    it('should not query the database for malformed IDs', async () => {
+      await expect(service.assertExists('test-brand')).rejects.toThrow(
+        NotFoundError,
+      );
+      expect(repository.exists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canAccess', () => {
+    const analyst = {
+      roles: [Role.USER],
+      permissions: [Permission.VIEW_ANALYTICS],
+      organizationId: 'org-1',
+    };
+
+    it('should let analysts read brands of their organization', async () => {
+      repository.findOne.mockResolvedValue({
+        id: brandId,
+        organizationId: 'org-1',
+      });
+
+      await expect(service.canAccess(brandId, analyst)).resolves.toBe(true);
+      await expect(
+        service.canAccess(brandId, { ...analyst, organizationId: 'org-2' }),
+      ).resolves.toBe(false);
+    });
+
+    it('should require the analytics permission', async () => {
+      repository.findOne.mockResolvedValue({
+        id: brandId,
+        organizationId: null,
+      });
+
+      await expect(
+        service.canAccess(brandId, { ...analyst, permissions: [] }),
+      ).resolves.toBe(false);
+      await expect(
+        service.canAccess(brandId, { roles: [Role.ADMIN] }),
+      ).resolves.toBe(true);
+    });
+
+    it('should deny access to missing brands', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.canAccess(brandId, { roles: [Role.ADMIN] }),
+      ).resolves.toBe(false);
+      await expect(service.canAccess('test-brand', analyst)).resolves.toBe(
+        false,
+      );
+    });
+  });
+});
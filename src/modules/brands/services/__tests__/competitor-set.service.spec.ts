@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CompetitorSetService } from '../competitor-set.service';
+import { BrandService } from '../brand.service';
+import { CompetitorSetEntity } from '../../entities/competitor-set.entity';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('CompetitorSetService', () => {
+  let service: CompetitorSetService;
+  let repository: { create: jest.Mock; save: jest.Mock; findOne: jest.Mock };
+  let brandService: { assertExists: jest.Mock; findById: jest.Mock };
+
+  const brandId = '5f0c9a52-8a9d-4c43-9a43-0a8b8a1d2f11';
+  const setId = '0b6a9a1e-2f3c-4d5e-8f90-1a2b3c4d5e6f';
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => ({ id: setId, ...entity })),
+      findOne: jest.fn(),
+    };
+    brandService = {
+      assertExists: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue({
+        id: brandId,
+        competitors: [
+          { name: 'Globex', aliases: [], domains: [] },
+          { name: 'Initech', aliases: [], domains: [] },
+        ],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CompetitorSetService,
+        {
+          provide: getRepositoryToken(CompetitorSetEntity),
+          useValue: repository,
+        },
+        { provide: BrandService, useValue: brandService },
+      ],
+    }).compile();
+
+    service = module.get<CompetitorSetService>(CompetitorSetService);
+  });
+
+  describe('createSet', () => {
+    it('should store competitors using the names configured on the brand', async () => {
+      const result = await service.createSet({
+        brandId,
+        name: ' Enterprise ',
+        competitors: ['globex', 'INITECH', 'Globex'],
+      });
+
+      expect(result).toEqual({
+        id: setId,
+        brandId,
+        name: 'Enterprise',
+        competitors: ['Globex', 'Initech'],
+      });
+    });
+
+    it('should reject competitors that are not configured on the brand', async () => {
+      await expect(
+        service.createSet({
+          brandId,
+          name: 'Enterprise',
+          competitors: ['Globex', 'Umbrella'],
+        }),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findSet', () => {
+    it('should not return a set that belongs to another brand', async () => {
+      repository.findOne.mockResolvedValue({
+        id: setId,
+        brandId: 'other-brand',
+        competitors: [],
+      });
+
+      await expect(service.findSet(setId, brandId)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    it('should not look up an ID that is not a UUID', async () => {
+      await expect(service.findSet('set-1')).rejects.toThrow(NotFoundError);
+      expect(repository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSet', () => {
+    it('should replace members and keep the name when omitted', async () => {
+      repository.findOne.mockResolvedValue({
+        id: setId,
+        brandId,
+        name: 'Enterprise',
+        competitors: ['Globex'],
+      });
+
+      const result = await service.updateSet(setId, {
+        competitors: ['initech'],
+      });
+
+      expect(result).toMatchObject({
+        name: 'Enterprise',
+        competitors: ['Initech'],
+      });
+    });
+  });
+});
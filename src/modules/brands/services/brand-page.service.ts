@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { parseSitemap } from '../../../shared/utils/sitemap.utils';
+import { BrandPageEntity } from '../entities/brand-page.entity';
+import {
+  BrandPageSource,
+  SitemapImportResult,
+} from '../interfaces/brand-page.interface';
+import { isSameOrSubdomain, normalizeDomain } from '../utils/domain.utils';
+import { BrandService } from './brand.service';
+
+/**
+ * Inventory of the pages a brand publishes on its own domains
+ */
+@Injectable()
+export class BrandPageService extends BaseService<BrandPageEntity> {
+  constructor(
+    @InjectRepository(BrandPageEntity)
+    repository: Repository<BrandPageEntity>,
+    private readonly brandService: BrandService,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Import the pages listed in a sitemap. Only URLs on the brand's domains
+   * are kept; pages already known are updated. A sitemap index imports no
+   * pages and returns the sitemaps it lists instead.
+   * @param brandId - Brand ID
+   * @param xml - Sitemap or sitemap index XML
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the document is not a sitemap
+   */
+  async importSitemap(
+    brandId: string,
+    xml: string,
+  ): Promise<SitemapImportResult> {
+    const brand = await this.brandService.findById(brandId);
+    const sitemap = parseSitemap(xml);
+    if (sitemap.type === 'sitemapindex') {
+      return {
+        imported: 0,
+        skipped: [],
+        sitemaps: sitemap.entries.map(entry => entry.loc),
+      };
+    }
+
+    const ownDomains = (brand.domains ?? []).map(normalizeDomain);
+    const pages = new Map<string, Partial<BrandPageEntity>>();
+    const skipped: SitemapImportResult['skipped'] = [];
+    for (const entry of sitemap.entries) {
+      const url = this.parseUrl(entry.loc);
+      if (!url) {
+        skipped.push({ url: entry.loc, reason: 'Invalid URL' });
+        continue;
+      }
+
+      const domain = normalizeDomain(url.hostname);
+      if (!ownDomains.some(owner => isSameOrSubdomain(domain, owner))) {
+        skipped.push({ url: entry.loc, reason: 'Not on a brand domain' });
+        continue;
+      }
+
+      url.hash = '';
+      pages.set(url.toString(), {
+        domain,
+        path: `${url.pathname}${url.search}`,
+        lastModified: entry.lastModified,
+        priority: entry.priority,
+      });
+    }
+
+    if (pages.size === 0) {
+      return { imported: 0, skipped, sitemaps: [] };
+    }
+
+    const existing = await this.repository.find({
+      where: { brandId, url: In([...pages.keys()]) },
+    });
+    const byUrl = new Map(existing.map(page => [page.url, page]));
+
+    await this.repository.save(
+      [...pages].map(([url, page]) =>
+        this.repository.merge(
+          byUrl.get(url) ??
+            this.repository.create({ brandId, url, title: null }),
+          { ...page, source: BrandPageSource.SITEMAP },
+        ),
+      ),
+    );
+
+    return { imported: pages.size, skipped, sitemaps: [] };
+  }
+
+  /**
+   * Known pages of a brand, by URL
+   * @param brandId - Brand ID
+   */
+  async findByBrand(brandId: string): Promise<BrandPageEntity[]> {
+    return this.repository.find({ where: { brandId }, order: { url: 'ASC' } });
+  }
+
+  private parseUrl(value: string): URL | null {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+      return null;
+    }
+  }
+}
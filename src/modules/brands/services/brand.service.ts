@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { BaseService } from '../../../shared/classes/base.service';
+import { NotFoundError } from '../../../shared/errors';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { Role } from '../../../auth/enums/role.enum';
+import { BrandEntity } from '../entities/brand.entity';
+import {
+  BrandAccessor,
+  BrandCompetitor,
+  BrandTrackingConfig,
+  CreateBrand,
+  UpdateBrand,
+} from '../interfaces/brand.interface';
+import { normalizeDomain } from '../utils/domain.utils';
+
+/**
+ * CRUD service for tracked brands
+ */
+@Injectable()
+export class BrandService extends BaseService<BrandEntity> {
+  constructor(
+    @InjectRepository(BrandEntity)
+    repository: Repository<BrandEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Create a new brand
+   * @param data - Brand data
+   */
+  async createBrand(data: CreateBrand): Promise<BrandEntity> {
+    return this.create({
+      name: data.name.trim(),
+      organizationId: data.organizationId?.trim() || null,
+      aliases: this.normalizeList(data.aliases),
+      domains: this.normalizeDomains(data.domains),
+      competitors: this.normalizeCompetitors(data.competitors),
+      trackingConfig: this.mergeTrackingConfig(undefined, data.trackingConfig),
+      settings: { alertThresholds: data.alertThresholds ?? {} },
+    });
+  }
+
+  /**
+   * Update a brand. Tracking config and alert thresholds are merged with the
+   * stored values; list fields are replaced.
+   * @param id - Brand ID
+   * @param data - Fields to update
+   * @throws {NotFoundException} When the brand does not exist
+   */
+  async updateBrand(id: string, data: UpdateBrand): Promise<BrandEntity> {
+    const brand = await this.findById(id);
+
+    if (data.name !== undefined) brand.name = data.name.trim();
+    if (data.organizationId !== undefined) {
+      brand.organizationId = data.organizationId?.trim() || null;
+    }
+    if (data.aliases !== undefined) {
+      brand.aliases = this.normalizeList(data.aliases);
+    }
+    if (data.domains !== undefined) {
+      brand.domains = this.normalizeDomains(data.domains);
+    }
+    if (data.competitors !== undefined) {
+      brand.competitors = this.normalizeCompetitors(data.competitors);
+    }
+    if (data.trackingConfig !== undefined) {
+      brand.trackingConfig = this.mergeTrackingConfig(
+        brand.trackingConfig,
+        data.trackingConfig,
+      );
+    }
+    if (data.alertThresholds !== undefined) {
+      brand.settings = {
+        ...brand.settings,
+        alertThresholds: {
+          ...brand.settings?.alertThresholds,
+          ...data.alertThresholds,
+        },
+      };
+    }
+
+    return this.repository.save(brand);
+  }
+
+  /**
+   * Check whether a brand exists
+   * @param id - Brand ID
+   */
+  async exists(id: string): Promise<boolean> {
+    if (!isUUID(id)) {
+      return false;
+    }
+    return this.repository.exists({ where: { id } });
+  }
+
+  /**
+   * Ensure a brand exists before operating on data that belongs to it
+   * @param id - Brand ID
+   * @throws {NotFoundError} When the brand does not exist
+   */
+  async assertExists(id: string): Promise<void> {
+    if (!(await this.exists(id))) {
+      throw new NotFoundError(`Brand with id ${id} not found`, {
+        brandId: id,
+      });
+    }
+  }
+
+  /**
+   * Check whether a user may read a brand's analytics. Admins may read every
+   * brand; other users need the analytics permission and, for brands owned
+   * by an organization, must belong to it.
+   * @param id - Brand ID
+   * @param user - Authenticated user
+   * @returns False as well when the brand does not exist
+   */
+  async canAccess(id: string, user: BrandAccessor): Promise<boolean> {
+    if (!isUUID(id)) {
+      return false;
+    }
+    const brand = await this.repository.findOne({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+    if (!brand) {
+      return false;
+    }
+
+    if (user.roles?.includes(Role.ADMIN)) {
+      return true;
+    }
+    if (!user.permissions?.includes(Permission.VIEW_ANALYTICS)) {
+      return false;
+    }
+    return (
+      !brand.organizationId || brand.organizationId === user.organizationId
+    );
+  }
+
+  private mergeTrackingConfig(
+    current: BrandTrackingConfig | undefined,
+    update: Partial<BrandTrackingConfig> = {},
+  ): BrandTrackingConfig {
+    return {
+      prompts: this.normalizeList(update.prompts ?? current?.prompts),
+      keywords: this.normalizeList(update.keywords ?? current?.keywords),
+      excludeKeywords: this.normalizeList(
+        update.excludeKeywords ?? current?.excludeKeywords,
+      ),
+      languages: this.normalizeList(update.languages ?? current?.languages),
+      regions: this.normalizeList(update.regions ?? current?.regions),
+    };
+  }
+
+  private normalizeCompetitors(
+    competitors: BrandCompetitor[] = [],
+  ): BrandCompetitor[] {
+    return competitors.map(competitor => ({
+      name: competitor.name.trim(),
+      aliases: this.normalizeList(competitor.aliases),
+      domains: this.normalizeDomains(competitor.domains),
+    }));
+  }
+
+  private normalizeDomains(domains: string[] = []): string[] {
+    return this.normalizeList(domains.map(normalizeDomain));
+  }
+
+  /** Trim entries and drop blanks and duplicates, preserving order */
+  private normalizeList(values: string[] = []): string[] {
+    return [...new Set(values.map(value => value.trim()).filter(Boolean))];
+  }
+}
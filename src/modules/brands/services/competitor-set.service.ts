@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { BaseService } from '../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import { CompetitorSetEntity } from '../entities/competitor-set.entity';
+import {
+  CreateCompetitorSet,
+  UpdateCompetitorSet,
+} from '../interfaces/competitor-set.interface';
+import { BrandService } from './brand.service';
+
+/**
+ * CRUD service for named groups of a brand's competitors
+ */
+@Injectable()
+export class CompetitorSetService extends BaseService<CompetitorSetEntity> {
+  constructor(
+    @InjectRepository(CompetitorSetEntity)
+    repository: Repository<CompetitorSetEntity>,
+    private readonly brandService: BrandService,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Create a competitor set
+   * @param data - Set data
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When a competitor is not configured on the brand
+   */
+  async createSet(data: CreateCompetitorSet): Promise<CompetitorSetEntity> {
+    await this.brandService.assertExists(data.brandId);
+    return this.create({
+      brandId: data.brandId,
+      name: data.name.trim(),
+      competitors: await this.resolveCompetitors(
+        data.brandId,
+        data.competitors,
+      ),
+    });
+  }
+
+  /**
+   * Update a competitor set's name or members
+   * @param id - Set ID
+   * @param data - Fields to update
+   * @throws {NotFoundError} When the set does not exist
+   * @throws {ValidationError} When a competitor is not configured on the brand
+   */
+  async updateSet(
+    id: string,
+    data: UpdateCompetitorSet,
+  ): Promise<CompetitorSetEntity> {
+    const set = await this.findSet(id);
+
+    if (data.name !== undefined) set.name = data.name.trim();
+    if (data.competitors !== undefined) {
+      set.competitors = await this.resolveCompetitors(
+        set.brandId,
+        data.competitors,
+      );
+    }
+
+    return this.repository.save(set);
+  }
+
+  /**
+   * Competitor sets defined for a brand, by name
+   * @param brandId - Brand ID
+   */
+  async findByBrand(brandId: string): Promise<CompetitorSetEntity[]> {
+    return this.findAll({ where: { brandId }, order: { name: 'ASC' } });
+  }
+
+  /**
+   * Find a competitor set, optionally requiring it to belong to a brand
+   * @param id - Set ID
+   * @param brandId - Brand the set must belong to
+   * @throws {NotFoundError} When no matching set exists
+   */
+  async findSet(id: string, brandId?: string): Promise<CompetitorSetEntity> {
+    const set = isUUID(id)
+      ? await this.repository.findOne({ where: { id } })
+      : null;
+    if (!set || (brandId && set.brandId !== brandId)) {
+      throw new NotFoundError(`Competitor set with id ${id} not found`, {
+        competitorSetId: id,
+        brandId,
+      });
+    }
+    return set;
+  }
+
+  /**
+   * Map the requested names onto the brand's configured competitors,
+   * case-insensitively, keeping the configured spelling
+   */
+  private async resolveCompetitors(
+    brandId: string,
+    names: string[],
+  ): Promise<string[]> {
+    const brand = await this.brandService.findById(brandId);
+    const configured = new Map(
+      (brand.competitors ?? []).map(competitor => [
+        competitor.name.toLowerCase(),
+        competitor.name,
+      ]),
+    );
+
+    const resolved: string[] = [];
+    const unknown: string[] = [];
+    for (const name of names.map(value => value.trim()).filter(Boolean)) {
+      const match = configured.get(name.toLowerCase());
+      if (!match) {
+        unknown.push(name);
+      } else if (!resolved.includes(match)) {
+        resolved.push(match);
+      }
+    }
+
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown competitors for brand ${brandId}: ${unknown.join(', ')}`,
+        { brandId, unknown },
+      );
+    }
+    return resolved;
+  }
+}
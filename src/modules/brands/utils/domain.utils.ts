@@ -0,0 +1,62 @@
+import { ValidationError } from '../../../shared/errors';
+import { BrandEntity } from '../entities/brand.entity';
+
+/**
+ * Reduce a URL or hostname to a bare, lower-case domain
+ * e.g. "https://WWW.Example.com/pricing" -> "example.com"
+ * @param value - URL or hostname
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Whether a normalized domain is the given domain or one of its subdomains
+ * e.g. "blog.example.com" belongs to "example.com"
+ * @param domain - Normalized domain to test
+ * @param owner - Normalized domain that may own it
+ */
+export function isSameOrSubdomain(domain: string, owner: string): boolean {
+  return domain === owner || domain.endsWith(`.${owner}`);
+}
+
+/**
+ * Whether a URL or hostname is on one of a brand's domains or their
+ * subdomains
+ * @param domains - Brand's domains, as stored
+ * @param domain - URL or hostname to test
+ */
+export function isBrandDomain(domains: string[], domain: string): boolean {
+  const normalized = normalizeDomain(domain);
+  return (
+    !!normalized &&
+    domains.some(owner => isSameOrSubdomain(normalized, normalizeDomain(owner)))
+  );
+}
+
+/**
+ * Normalize a domain the brand owns
+ * e.g. "https://Blog.Acme.com" of a brand on "acme.com" -> "blog.acme.com"
+ * @param brand - Brand the domain must belong to
+ * @param domain - URL or hostname
+ * @throws {ValidationError} When the domain is not one of the brand's
+ */
+export function ownDomain(
+  brand: Pick<BrandEntity, 'id' | 'domains'>,
+  domain: string,
+): string {
+  if (!isBrandDomain(brand.domains ?? [], domain)) {
+    throw new ValidationError(`${domain} is not a domain of this brand`, {
+      brandId: brand.id,
+      domain,
+    });
+  }
+  return normalizeDomain(domain);
+}
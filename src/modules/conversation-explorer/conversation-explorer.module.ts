@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../../auth/auth.module';
+import { BrandsModule } from '../brands/brands.module';
+import { ConversationQueryEntity } from './entities/conversation-query.entity';
+import { KeywordVolumeEntity } from './entities/keyword-volume.entity';
+import { TopicClusterer } from './services/topic-clusterer';
+import { ConversationQueryService } from './services/conversation-query.service';
+import { KeywordVolumeService } from './services/keyword-volume.service';
+import { SearchVolumeEstimator } from './services/search-volume.estimator';
+import { ConversationExplorerService } from './services/conversation-explorer.service';
+import { ConversationExplorerResolver } from './graphql/conversation-explorer.resolver';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ConversationQueryEntity, KeywordVolumeEntity]),
+    AuthModule,
+    BrandsModule,
+  ],
+  providers: [
+    TopicClusterer,
+    ConversationQueryService,
+    KeywordVolumeService,
+    SearchVolumeEstimator,
+    ConversationExplorerService,
+    ConversationExplorerResolver,
+  ],
+  exports: [
+    TopicClusterer,
+    ConversationQueryService,
+    ConversationExplorerService,
+  ],
+})
+export class ConversationExplorerModule {}
@@ -0,0 +1,37 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import { ConversationQuerySource } from '../interfaces/conversation-topic.interface';
+
+/**
+ * One occurrence of a prompt or question asked on an AI platform
+ */
+@Entity('conversation_queries')
+@Index('IDX_conversation_queries_brand_observed_at', ['brandId', 'observedAt'])
+export class ConversationQueryEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_conversation_queries_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column('text')
+  text: string;
+
+  /** Lower-cased text with collapsed whitespace, used to count repeats */
+  @Column('text')
+  normalizedText: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  source: ConversationQuerySource;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  platform: string | null;
+
+  @Column({ type: 'timestamptz' })
+  observedAt: Date;
+}
@@ -0,0 +1,40 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+
+/**
+ * Classic search volume of a keyword, imported from an SEO tool export. One
+ * row is kept per brand and keyword; later imports overwrite it.
+ */
+@Entity('keyword_volumes')
+@Index('IDX_keyword_volumes_brand_keyword', ['brandId', 'normalizedKeyword'], {
+  unique: true,
+})
+export class KeywordVolumeEntity extends BaseEntity {
+  @Column('uuid')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_keyword_volumes_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column('text')
+  keyword: string;
+
+  /** Keyword normalized like conversation queries, so the two can be matched */
+  @Column('text')
+  normalizedKeyword: string;
+
+  @Column({ type: 'int' })
+  monthlyVolume: number;
+
+  /** Tool or file the volume came from */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  source: string | null;
+
+  @Column({ type: 'timestamptz' })
+  importedAt: Date;
+}
@@ -0,0 +1,96 @@
+import { Resolver, Query, Mutation, Args, ID, Int } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { ConversationExplorerService } from '../services/conversation-explorer.service';
+import { ConversationQueryService } from '../services/conversation-query.service';
+import { KeywordVolumeService } from '../services/keyword-volume.service';
+import { ConversationQuerySource } from '../interfaces/conversation-topic.interface';
+import {
+  ConversationTopic,
+  ImportKeywordVolumesInput,
+  KeywordVolumeImport,
+  RecordConversationQueriesInput,
+  SearchVolumeEstimate,
+  TrendingTopicsInput,
+} from './conversation-explorer.types';
+
+@Resolver(() => ConversationTopic)
+export class ConversationExplorerResolver {
+  constructor(
+    private readonly explorerService: ConversationExplorerService,
+    private readonly queryService: ConversationQueryService,
+    private readonly keywordVolumeService: KeywordVolumeService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [ConversationTopic])
+  @UseGuards(JwtAuthGuard)
+  async trendingTopics(
+    @Args('input') input: TrendingTopicsInput,
+  ): Promise<ConversationTopic[]> {
+    await this.brandService.assertExists(input.brandId);
+    return this.explorerService.trendingTopics(
+      input.brandId,
+      input.startDate,
+      input.endDate,
+      input.limit,
+    );
+  }
+
+  @Query(() => [ConversationTopic])
+  @UseGuards(JwtAuthGuard)
+  async emergingTopics(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('limit', { type: () => Int, defaultValue: 10 }) limit?: number,
+  ): Promise<ConversationTopic[]> {
+    await this.brandService.assertExists(brandId);
+    return this.explorerService.emergingTopics(brandId, limit);
+  }
+
+  @Query(() => SearchVolumeEstimate)
+  @UseGuards(JwtAuthGuard)
+  async searchVolume(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('query') query: string,
+  ): Promise<SearchVolumeEstimate> {
+    await this.brandService.assertExists(brandId);
+    return this.explorerService.estimateSearchVolume(brandId, query);
+  }
+
+  /**
+   * Record questions observed on AI platforms
+   * @returns Number of queries recorded
+   */
+  @Mutation(() => Int)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async recordConversationQueries(
+    @Args('input') input: RecordConversationQueriesInput,
+  ): Promise<number> {
+    await this.brandService.assertExists(input.brandId);
+    const recorded = await this.queryService.recordQueries(
+      input.brandId,
+      input.queries,
+      ConversationQuerySource.OBSERVED,
+    );
+    return recorded.length;
+  }
+
+  @Mutation(() => KeywordVolumeImport)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async importKeywordVolumes(
+    @Args('input') input: ImportKeywordVolumesInput,
+  ): Promise<KeywordVolumeImport> {
+    await this.brandService.assertExists(input.brandId);
+    return this.keywordVolumeService.importCsv(
+      input.brandId,
+      input.csv,
+      input.source,
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  ObjectType,
+  Field,
+  Float,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { VolumeConfidence } from '../interfaces/search-volume.interface';
+
+registerEnumType(VolumeConfidence, { name: 'VolumeConfidence' });
+
+@ObjectType()
+export class SearchVolumeEstimate {
+  @Field(() => Int)
+  estimate: number;
+
+  @Field(() => Int)
+  low: number;
+
+  @Field(() => Int)
+  high: number;
+
+  @Field(() => VolumeConfidence)
+  confidence: VolumeConfidence;
+
+  @Field(() => Int)
+  observedCount: number;
+
+  @Field(() => Float)
+  platformCoverage: number;
+
+  @Field(() => Int, { nullable: true })
+  keywordVolume?: number;
+}
+
+@ObjectType()
+export class TopicQuery {
+  @Field()
+  text: string;
+
+  @Field(() => Int)
+  count: number;
+}
+
+@ObjectType()
+export class ConversationTopic {
+  @Field()
+  key: string;
+
+  @Field()
+  label: string;
+
+  @Field(() => [String])
+  terms: string[];
+
+  @Field(() => Int)
+  volume: number;
+
+  @Field(() => Float)
+  previousVolume: number;
+
+  @Field(() => Float)
+  velocity: number;
+
+  @Field()
+  firstSeenAt: Date;
+
+  @Field()
+  lastSeenAt: Date;
+
+  @Field(() => [TopicQuery])
+  representativeQueries: TopicQuery[];
+
+  @Field(() => SearchVolumeEstimate, { nullable: true })
+  searchVolume?: SearchVolumeEstimate;
+}
+
+@InputType()
+export class TrendingTopicsInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field()
+  startDate: Date;
+
+  @Field()
+  endDate: Date;
+
+  @Field(() => Int, { nullable: true })
+  limit?: number;
+}
+
+@InputType()
+export class ConversationQueryInput {
+  @Field()
+  text: string;
+
+  @Field({ nullable: true })
+  platform?: string;
+
+  @Field({ nullable: true })
+  observedAt?: Date;
+}
+
+@InputType()
+export class RecordConversationQueriesInput {
+  @Field(() => ID)
+  brandId: string;
+
+  @Field(() => [ConversationQueryInput])
+  queries: ConversationQueryInput[];
+}
+
+@ObjectType()
+export class SkippedKeywordRow {
+  @Field(() => Int)
+  line: number;
+
+  @Field()
+  reason: string;
+}
+
+@ObjectType()
+export class KeywordVolumeImport {
+  @Field(() => Int)
+  imported: number;
+
+  @Field(() => [SkippedKeywordRow])
+  skipped: SkippedKeywordRow[];
+}
+
+@InputType()
+export class ImportKeywordVolumesInput {
+  @Field(() => ID)
+  brandId: string;
+
+  /** CSV with a keyword and a monthly volume column */
+  @Field()
+  csv: string;
+
+  @Field({ nullable: true })
+  source?: string;
+}
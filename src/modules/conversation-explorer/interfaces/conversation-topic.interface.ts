@@ -0,0 +1,102 @@
+import { VolumeEstimate } from './search-volume.interface';
+
+/**
+ * Where a conversation query came from
+ */
+export enum ConversationQuerySource {
+  /** A brand's tracked prompt, recorded each time a platform answers it */
+  TRACKED = 'tracked',
+
+  /** A question seen asked on an AI platform, e.g. from a panel or export */
+  OBSERVED = 'observed',
+}
+
+/**
+ * A query to record for a brand
+ */
+export interface RecordConversationQuery {
+  text: string;
+  platform?: string;
+
+  /** When the query was asked; defaults to now */
+  observedAt?: Date;
+}
+
+/**
+ * A distinct query text and how often it was asked
+ */
+export interface WeightedQuery {
+  text: string;
+  count: number;
+}
+
+/**
+ * Queries grouped by the clusterer, with the terms that best describe them
+ */
+export interface QueryCluster {
+  /** Highest-weighted terms of the cluster, best first */
+  terms: string[];
+
+  /** Member queries, most asked and most central first */
+  queries: WeightedQuery[];
+}
+
+/**
+ * A topic people ask AI platforms about, with its movement between two
+ * windows
+ */
+export interface ConversationTopic {
+  /**
+   * Identifier derived from the topic's label, numbered from the second
+   * topic sharing a label on, e.g. "crm-pricing-2"
+   */
+  key: string;
+  label: string;
+  terms: string[];
+
+  /** Queries in the current window */
+  volume: number;
+
+  /** Queries in the comparison window, scaled to the current window's length */
+  previousVolume: number;
+
+  /**
+   * Relative change from the comparison window to the current one, e.g. 1.5
+   * for 150% more queries. A topic absent before grows by its volume.
+   */
+  velocity: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+
+  /** Most asked queries of the topic */
+  representativeQueries: WeightedQuery[];
+
+  /** Estimated monthly AI search volume of the topic's queries */
+  searchVolume?: VolumeEstimate;
+}
+
+/**
+ * A topic along with the queries it is made of
+ */
+export interface ClusteredTopic {
+  topic: ConversationTopic;
+
+  /** Normalized texts of the topic's queries */
+  queries: string[];
+}
+
+/**
+ * How often a distinct query was asked before and after a split point
+ */
+export interface QueryWindowCounts {
+  /** Most common spelling of the query */
+  text: string;
+
+  /** Occurrences from the split point to the end of the range */
+  current: number;
+
+  /** Occurrences from the start of the range up to the split point */
+  previous: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
@@ -0,0 +1,47 @@
+/**
+ * How far an estimate can be trusted, from the width of its band
+ */
+export enum VolumeConfidence {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
+
+/**
+ * Evidence of how often a query is asked
+ */
+export interface SearchVolumeSignals {
+  /** Observed occurrences per platform; unknown platforms are keyed '' */
+  platformCounts: Record<string, number>;
+
+  /** Length of the window the occurrences were observed in, in days */
+  windowDays: number;
+
+  /** Monthly classic search volume from an imported keyword list */
+  keywordVolume?: number;
+}
+
+/**
+ * Estimated monthly AI search volume with an 80% confidence band
+ */
+export interface VolumeEstimate {
+  estimate: number;
+  low: number;
+  high: number;
+  confidence: VolumeConfidence;
+
+  /** Observed occurrences the estimate is based on */
+  observedCount: number;
+
+  /** Combined share of AI queries handled by the platforms observed, [0, 1] */
+  platformCoverage: number;
+  keywordVolume?: number;
+}
+
+/**
+ * Outcome of importing a keyword volume CSV
+ */
+export interface KeywordVolumeImportResult {
+  imported: number;
+  skipped: { line: number; reason: string }[];
+}
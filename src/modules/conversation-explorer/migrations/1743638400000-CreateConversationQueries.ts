@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateConversationQueries1743638400000
+  implements MigrationInterface
+{
+  name = 'CreateConversationQueries1743638400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "conversation_queries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "text" text NOT NULL,
+        "normalizedText" text NOT NULL,
+        "source" character varying(20) NOT NULL,
+        "platform" character varying(50),
+        "observedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_conversation_queries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_conversation_queries_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_conversation_queries_brand_observed_at"
+        ON "conversation_queries" ("brandId", "observedAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_conversation_queries_brand_observed_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "conversation_queries"`);
+  }
+}
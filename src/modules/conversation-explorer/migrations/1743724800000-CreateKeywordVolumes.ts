@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateKeywordVolumes1743724800000 implements MigrationInterface {
+  name = 'CreateKeywordVolumes1743724800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "keyword_volumes" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "keyword" text NOT NULL,
+        "normalizedKeyword" text NOT NULL,
+        "monthlyVolume" integer NOT NULL,
+        "source" character varying(100),
+        "importedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_keyword_volumes" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_keyword_volumes_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_keyword_volumes_brand_keyword"
+        ON "keyword_volumes" ("brandId", "normalizedKeyword")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_keyword_volumes_brand_keyword"`);
+    await queryRunner.query(`DROP TABLE "keyword_volumes"`);
+  }
+}
@@ -0,0 +1,291 @@
+import { ConfigService } from '@nestjs/config';
+import { ConversationExplorerService } from '../conversation-explorer.service';
+import { ConversationQueryService } from '../conversation-query.service';
+import { KeywordVolumeService } from '../keyword-volume.service';
+import { SearchVolumeEstimator } from '../search-volume.estimator';
+import { TopicClusterer } from '../topic-clusterer';
+import { QueryWindowCounts } from '../../interfaces/conversation-topic.interface';
+import { VolumeConfidence } from '../../interfaces/search-volume.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('ConversationExplorerService', () => {
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  let service: ConversationExplorerService;
+  let queryService: { countByQuery: jest.Mock; countObservations: jest.Mock };
+  let keywordVolumeService: { findVolumes: jest.Mock };
+
+  const counts = (
+    text: string,
+    current: number,
+    previous: number,
+  ): QueryWindowCounts => ({
+    text,
+    current,
+    previous,
+    firstSeenAt: new Date('2025-03-01T00:00:00Z'),
+    lastSeenAt: new Date('2025-03-20T00:00:00Z'),
+  });
+
+  beforeEach(() => {
+    queryService = {
+      countByQuery: jest.fn(),
+      countObservations: jest.fn().mockResolvedValue(new Map()),
+    };
+    keywordVolumeService = {
+      findVolumes: jest.fn().mockResolvedValue(new Map()),
+    };
+    const configService = {
+      get: jest.fn(() => ({
+        clustering: {
+          similarityThreshold: 0.3,
+          maxQueries: 100,
+          representativeQueries: 2,
+        },
+        trends: {
+          minVolume: 2,
+          emergingWindowDays: 7,
+          emergingBaselineDays: 28,
+        },
+        searchVolume: {
+          windowDays: 30,
+          panelScale: 100,
+          panelLogError: 0.3,
+          aiShareOfSearch: 0.08,
+          keywordLogError: 0.7,
+          platformShares: { chatgpt: 0.5, gemini: 0.25, perplexity: 0.25 },
+        },
+      })),
+    };
+    service = new ConversationExplorerService(
+      queryService as unknown as ConversationQueryService,
+      new TopicClusterer(),
+      keywordVolumeService as unknown as KeywordVolumeService,
+      new SearchVolumeEstimator(),
+      configService as unknown as ConfigService,
+    );
+  });
+
+  describe('trendingTopics', () => {
+    const startDate = new Date('2025-03-15T00:00:00Z');
+    const endDate = new Date('2025-03-22T00:00:00Z');
+
+    it('should compare the range with the period before it', async () => {
+      queryService.countByQuery.mockResolvedValue([
+        counts('best crm for startups', 6, 2),
+        counts('cheapest crm for startups', 3, 0),
+        counts('crm for small startups', 1, 1),
+        counts('email marketing automation tools', 4, 4),
+        counts('marketing automation for email campaigns', 0, 4),
+      ]);
+
+      const topics = await service.trendingTopics(brandId, startDate, endDate);
+
+      expect(queryService.countByQuery).toHaveBeenCalledWith(
+        brandId,
+        new Date('2025-03-08T00:00:00Z'),
+        startDate,
+        endDate,
+        100,
+      );
+      expect(topics).toHaveLength(2);
+      expect(topics[0]).toEqual({
+        key: 'crm-startup',
+        label: 'crm startup',
+        terms: expect.arrayContaining(['crm', 'startup', 'crm startup']),
+        volume: 10,
+        previousVolume: 3,
+        velocity: 2.3333,
+        firstSeenAt: new Date('2025-03-01T00:00:00Z'),
+        lastSeenAt: new Date('2025-03-20T00:00:00Z'),
+        representativeQueries: [
+          { text: 'best crm for startups', count: 6 },
+          { text: 'cheapest crm for startups', count: 3 },
+        ],
+        searchVolume: expect.objectContaining({
+          confidence: VolumeConfidence.LOW,
+        }),
+      });
+      expect(topics[1]).toEqual(
+        expect.objectContaining({
+          volume: 4,
+          previousVolume: 8,
+          velocity: -0.5,
+          representativeQueries: [
+            { text: 'email marketing automation tools', count: 4 },
+          ],
+        }),
+      );
+    });
+
+    it('should number the keys of topics sharing a label', async () => {
+      queryService.countByQuery.mockResolvedValue([
+        counts('crm pricing', 5, 0),
+        counts('crm login', 3, 0),
+      ]);
+      jest.spyOn(TopicClusterer.prototype, 'cluster').mockReturnValueOnce([
+        {
+          terms: ['crm', 'pricing'],
+          queries: [{ text: 'crm pricing', count: 5 }],
+        },
+        { terms: ['crm', 'login'], queries: [{ text: 'crm login', count: 3 }] },
+      ]);
+
+      const topics = await service.trendingTopics(brandId, startDate, endDate);
+
+      expect(topics.map(topic => [topic.label, topic.key])).toEqual([
+        ['crm', 'crm'],
+        ['crm', 'crm-2'],
+      ]);
+    });
+
+    it('should leave out topics below the minimum volume', async () => {
+      queryService.countByQuery.mockResolvedValue([
+        counts('best crm for startups', 1, 0),
+      ]);
+
+      await expect(
+        service.trendingTopics(brandId, startDate, endDate),
+      ).resolves.toEqual([]);
+    });
+
+    it('should estimate each topic from its queries in the range', async () => {
+      queryService.countByQuery.mockResolvedValue([
+        counts('best crm for startups', 6, 2),
+        counts('cheapest crm for startups', 3, 0),
+      ]);
+      queryService.countObservations.mockResolvedValue(
+        new Map([
+          ['best crm for startups', { chatgpt: 30, gemini: 10 }],
+          ['cheapest crm for startups', { chatgpt: 5 }],
+        ]),
+      );
+      keywordVolumeService.findVolumes.mockResolvedValue(
+        new Map([['best crm for startups', 12000]]),
+      );
+
+      const [topic] = await service.trendingTopics(brandId, startDate, endDate);
+
+      expect(queryService.countObservations).toHaveBeenCalledWith(
+        brandId,
+        ['best crm for startups', 'cheapest crm for startups'],
+        startDate,
+        endDate,
+      );
+      expect(topic.searchVolume).toEqual(
+        expect.objectContaining({
+          observedCount: 45,
+          keywordVolume: 12000,
+        }),
+      );
+      expect(topic.searchVolume!.low).toBeLessThan(
+        topic.searchVolume!.estimate,
+      );
+      expect(topic.searchVolume!.high).toBeGreaterThan(
+        topic.searchVolume!.estimate,
+      );
+    });
+
+    it('should reject an empty range', async () => {
+      await expect(
+        service.trendingTopics(brandId, endDate, startDate),
+      ).rejects.toThrow(ValidationError);
+      expect(queryService.countByQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('emergingTopics', () => {
+    it('should return topics absent from the baseline weeks', async () => {
+      const now = new Date('2025-03-29T00:00:00Z');
+      queryService.countByQuery.mockResolvedValue([
+        counts('best crm for startups', 9, 12),
+        counts('ai agents for customer support', 3, 0),
+        counts('customer support ai agents pricing', 2, 0),
+        counts('gdpr compliance checklist', 1, 0),
+      ]);
+
+      const topics = await service.emergingTopics(brandId, 10, now);
+
+      expect(queryService.countByQuery).toHaveBeenCalledWith(
+        brandId,
+        new Date('2025-02-22T00:00:00Z'),
+        new Date('2025-03-22T00:00:00Z'),
+        now,
+        100,
+      );
+      expect(topics).toHaveLength(1);
+      expect(topics[0]).toEqual(
+        expect.objectContaining({
+          volume: 5,
+          previousVolume: 0,
+          velocity: 5,
+          representativeQueries: [
+            { text: 'ai agents for customer support', count: 3 },
+            { text: 'customer support ai agents pricing', count: 2 },
+          ],
+        }),
+      );
+    });
+  });
+
+  describe('topicsWithQueries', () => {
+    it('should return the most asked topics with all their queries', async () => {
+      queryService.countByQuery.mockResolvedValue([
+        counts('email marketing automation tools', 4, 0),
+        counts('best crm for startups', 6, 2),
+        counts('cheapest crm for startups', 3, 0),
+      ]);
+
+      const topics = await service.topicsWithQueries(
+        brandId,
+        new Date('2025-03-15T00:00:00Z'),
+        new Date('2025-03-22T00:00:00Z'),
+      );
+
+      expect(topics.map(({ topic }) => topic.volume)).toEqual([9, 4]);
+      expect(topics[0].queries).toEqual([
+        'best crm for startups',
+        'cheapest crm for startups',
+      ]);
+      expect(topics[0].topic.searchVolume).toBeDefined();
+    });
+  });
+
+  describe('estimateSearchVolume', () => {
+    const now = new Date('2025-03-31T00:00:00Z');
+
+    it('should estimate from the trailing window of observations', async () => {
+      queryService.countObservations.mockResolvedValue(
+        new Map([['best crm for startups', { chatgpt: 12 }]]),
+      );
+
+      const estimate = await service.estimateSearchVolume(
+        brandId,
+        '  Best CRM for Startups',
+        now,
+      );
+
+      expect(queryService.countObservations).toHaveBeenCalledWith(
+        brandId,
+        ['best crm for startups'],
+        new Date('2025-03-01T00:00:00Z'),
+        now,
+      );
+      expect(keywordVolumeService.findVolumes).toHaveBeenCalledWith(brandId, [
+        'best crm for startups',
+      ]);
+      expect(estimate).toEqual(
+        expect.objectContaining({
+          estimate: 2500,
+          observedCount: 12,
+          platformCoverage: 0.5,
+        }),
+      );
+    });
+
+    it('should reject an empty query', async () => {
+      await expect(
+        service.estimateSearchVolume(brandId, '   ', now),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { Repository } from 'typeorm';
+import { ConversationQueryService } from '../conversation-query.service';
+import { ConversationQueryEntity } from '../../entities/conversation-query.entity';
+import { ConversationQuerySource } from '../../interfaces/conversation-topic.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('ConversationQueryService', () => {
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  let service: ConversationQueryService;
+  let repository: { create: jest.Mock; save: jest.Mock };
+
+  beforeEach(() => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entities => entities),
+    };
+    service = new ConversationQueryService(
+      repository as unknown as Repository<ConversationQueryEntity>,
+    );
+  });
+
+  it('should store each query with its normalized text', async () => {
+    const observedAt = new Date('2025-03-10T12:00:00Z');
+
+    const recorded = await service.recordQueries(
+      brandId,
+      [
+        { text: '  Best CRM for  Startups ', platform: 'chatgpt', observedAt },
+        { text: 'cheapest crm' },
+      ],
+      ConversationQuerySource.OBSERVED,
+    );
+
+    expect(recorded).toEqual([
+      {
+        brandId,
+        text: 'Best CRM for  Startups',
+        normalizedText: 'best crm for startups',
+        source: ConversationQuerySource.OBSERVED,
+        platform: 'chatgpt',
+        observedAt,
+      },
+      expect.objectContaining({
+        normalizedText: 'cheapest crm',
+        platform: null,
+        observedAt: expect.any(Date),
+      }),
+    ]);
+  });
+
+  it('should reject blank queries', async () => {
+    await expect(
+      service.recordQueries(
+        brandId,
+        [{ text: 'cheapest crm' }, { text: '   ' }],
+        ConversationQuerySource.OBSERVED,
+      ),
+    ).rejects.toThrow(ValidationError);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
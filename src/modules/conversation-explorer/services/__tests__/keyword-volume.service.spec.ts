@@ -0,0 +1,148 @@
+import { Repository } from 'typeorm';
+import { KeywordVolumeService } from '../keyword-volume.service';
+import { KeywordVolumeEntity } from '../../entities/keyword-volume.entity';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('KeywordVolumeService', () => {
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  let service: KeywordVolumeService;
+  let repository: {
+    find: jest.Mock;
+    create: jest.Mock;
+    merge: jest.Mock;
+    save: jest.Mock;
+  };
+
+  beforeEach(() => {
+    repository = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn(data => ({ ...data })),
+      merge: jest.fn((entity, data) => Object.assign(entity, data)),
+      save: jest.fn(async entities => entities),
+    };
+    service = new KeywordVolumeService(
+      repository as unknown as Repository<KeywordVolumeEntity>,
+    );
+  });
+
+  describe('importCsv', () => {
+    it('should read the keyword and volume columns by header', async () => {
+      const csv = [
+        'Keyword,Intent,Search Volume',
+        'Best CRM for Startups,commercial,"1,200"',
+        'crm pricing,transactional,3.5K',
+      ].join('\n');
+
+      const result = await service.importCsv(brandId, csv, 'semrush');
+
+      expect(result).toEqual({ imported: 2, skipped: [] });
+      expect(repository.save).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            brandId,
+            keyword: 'Best CRM for Startups',
+            normalizedKeyword: 'best crm for startups',
+            monthlyVolume: 1200,
+            source: 'semrush',
+          }),
+          expect.objectContaining({
+            normalizedKeyword: 'crm pricing',
+            monthlyVolume: 3500,
+          }),
+        ],
+        { chunk: 1000 },
+      );
+    });
+
+    it('should use the first two columns without a header', async () => {
+      await service.importCsv(brandId, 'crm software,880\r\ncrm app,2M\r\n');
+
+      expect(repository.save).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            keyword: 'crm software',
+            monthlyVolume: 880,
+          }),
+          expect.objectContaining({
+            keyword: 'crm app',
+            monthlyVolume: 2000000,
+            source: null,
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('should report rows it cannot read', async () => {
+      const csv =
+        'keyword,volume\ncrm,n/a\n,100\ncrm tools,-5\ncrm,40\ncrm app,5000m\ncrm api,3000000000';
+
+      const result = await service.importCsv(brandId, csv);
+
+      expect(result).toEqual({
+        imported: 1,
+        skipped: [
+          { line: 2, reason: 'Invalid volume' },
+          { line: 3, reason: 'Missing keyword' },
+          { line: 4, reason: 'Invalid volume' },
+          { line: 6, reason: 'Invalid volume' },
+          { line: 7, reason: 'Invalid volume' },
+        ],
+      });
+    });
+
+    it('should overwrite keywords imported before', async () => {
+      const existing = {
+        id: 'volume-1',
+        brandId,
+        keyword: 'CRM',
+        normalizedKeyword: 'crm',
+        monthlyVolume: 10,
+      };
+      repository.find.mockResolvedValue([existing]);
+
+      await service.importCsv(brandId, 'keyword,volume\ncrm,500\nCRM ,900');
+
+      expect(repository.create).not.toHaveBeenCalled();
+      expect(repository.save).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            id: 'volume-1',
+            keyword: 'CRM',
+            monthlyVolume: 900,
+          }),
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('should reject a malformed CSV', async () => {
+      await expect(
+        service.importCsv(brandId, 'keyword,volume\n"crm,100'),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a CSV with more than 50,000 keyword rows', async () => {
+      const rows = Array.from({ length: 50_001 }, (_, i) => `kw ${i},10`);
+
+      await expect(
+        service.importCsv(brandId, ['keyword,volume', ...rows].join('\n')),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should map imported volumes by keyword', async () => {
+    repository.find.mockResolvedValue([
+      { normalizedKeyword: 'crm pricing', monthlyVolume: 3500 },
+    ]);
+
+    const volumes = await service.findVolumes(brandId, [
+      'crm pricing',
+      'crm app',
+    ]);
+
+    expect(volumes).toEqual(new Map([['crm pricing', 3500]]));
+  });
+});
@@ -0,0 +1,145 @@
+import { SearchVolumeEstimator } from '../search-volume.estimator';
+import {
+  VolumeConfidence,
+  VolumeEstimate,
+} from '../../interfaces/search-volume.interface';
+
+describe('SearchVolumeEstimator', () => {
+  const estimator = new SearchVolumeEstimator();
+  const config = {
+    windowDays: 30,
+    panelScale: 100,
+    panelLogError: 0.3,
+    aiShareOfSearch: 0.08,
+    keywordLogError: 0.7,
+    platformShares: { chatgpt: 0.5, gemini: 0.25, perplexity: 0.25 },
+  };
+
+  describe('estimate', () => {
+    it('should extrapolate observations to the platforms not seen', () => {
+      const estimate = estimator.estimate(
+        { platformCounts: { chatgpt: 40, gemini: 9 }, windowDays: 30 },
+        config,
+      );
+
+      expect(estimate).toEqual(
+        expect.objectContaining({
+          estimate: 6600,
+          observedCount: 49,
+          platformCoverage: 0.75,
+        }),
+      );
+      expect(estimate.low).toBeLessThan(estimate.estimate);
+      expect(estimate.high).toBeGreaterThan(estimate.estimate);
+    });
+
+    it('should scale a shorter window to a month', () => {
+      const week = estimator.estimate(
+        { platformCounts: { '': 20 }, windowDays: 7.5 },
+        config,
+      );
+
+      expect(week.estimate).toBe(8200);
+      expect(week.platformCoverage).toBe(1);
+    });
+
+    it('should grow more confident with more observations', () => {
+      const few = estimator.estimate(
+        { platformCounts: { chatgpt: 1 }, windowDays: 30 },
+        config,
+      );
+      const many = estimator.estimate(
+        { platformCounts: { chatgpt: 200 }, windowDays: 30 },
+        config,
+      );
+
+      expect(few.confidence).toBe(VolumeConfidence.LOW);
+      expect(many.confidence).toBe(VolumeConfidence.HIGH);
+      expect(many.high / many.low).toBeLessThan(few.high / few.low);
+    });
+
+    it('should pull a thin panel estimate towards the keyword volume', () => {
+      const panelOnly = estimator.estimate(
+        { platformCounts: { chatgpt: 1 }, windowDays: 30 },
+        config,
+      );
+      const withKeyword = estimator.estimate(
+        {
+          platformCounts: { chatgpt: 1 },
+          windowDays: 30,
+          keywordVolume: 50000,
+        },
+        config,
+      );
+
+      expect(withKeyword.estimate).toBeGreaterThan(panelOnly.estimate);
+      expect(withKeyword.estimate).toBeLessThan(50000 * 0.08);
+      expect(withKeyword.keywordVolume).toBe(50000);
+    });
+
+    it('should estimate from the keyword volume alone', () => {
+      const estimate = estimator.estimate(
+        { platformCounts: {}, windowDays: 30, keywordVolume: 10000 },
+        config,
+      );
+
+      expect(estimate.observedCount).toBe(0);
+      expect(estimate.estimate).toBeGreaterThan(0);
+      expect(estimate.low).toBeGreaterThan(0);
+    });
+
+    it('should bound a query never seen without estimating it', () => {
+      expect(
+        estimator.estimate({ platformCounts: {}, windowDays: 30 }, config),
+      ).toEqual({
+        estimate: 0,
+        low: 0,
+        high: 300,
+        confidence: VolumeConfidence.LOW,
+        observedCount: 0,
+        platformCoverage: 1,
+      });
+    });
+  });
+
+  describe('combineQueries', () => {
+    const query = (
+      estimate: number,
+      low: number,
+      high: number,
+      observedCount: number,
+      platformCoverage: number,
+    ): VolumeEstimate => ({
+      estimate,
+      low,
+      high,
+      confidence: VolumeConfidence.MEDIUM,
+      observedCount,
+      platformCoverage,
+    });
+
+    it('should add up the queries of a topic', () => {
+      const topic = estimator.combineQueries([
+        query(1000, 700, 1400, 30, 0.5),
+        query(500, 300, 800, 10, 1),
+      ]);
+
+      expect(topic).toEqual({
+        estimate: 1500,
+        low: 1000,
+        high: 2200,
+        confidence: VolumeConfidence.HIGH,
+        observedCount: 40,
+        platformCoverage: 0.625,
+        keywordVolume: undefined,
+      });
+    });
+
+    it('should report low confidence when no query has a lower bound', () => {
+      const topic = estimator.combineQueries([query(0, 0, 300, 0, 1)]);
+
+      expect(topic.confidence).toBe(VolumeConfidence.LOW);
+      expect(topic.platformCoverage).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { normalizeQueryText, TopicClusterer } from '../topic-clusterer';
+
+describe('TopicClusterer', () => {
+  const clusterer = new TopicClusterer();
+
+  describe('terms', () => {
+    it('should drop stopwords, fold plurals and add bigrams', () => {
+      expect(clusterer.terms('What are the best CRMs for startups?')).toEqual([
+        'crm',
+        'startup',
+        'crm startup',
+      ]);
+    });
+
+    it('should return nothing for a query of stopwords', () => {
+      expect(clusterer.terms('what is the best?')).toEqual([]);
+    });
+  });
+
+  describe('cluster', () => {
+    it('should group similar queries into topics, largest first', () => {
+      const clusters = clusterer.cluster(
+        [
+          { text: 'best crm for startups', count: 5 },
+          { text: 'cheapest crm for startups', count: 2 },
+          { text: 'crm for small startups', count: 1 },
+          { text: 'how to migrate data to a new crm', count: 1 },
+          { text: 'email marketing automation tools', count: 3 },
+          { text: 'marketing automation for email campaigns', count: 2 },
+        ],
+        0.3,
+      );
+
+      expect(
+        clusters.map(cluster => cluster.queries.map(query => query.text)),
+      ).toEqual([
+        [
+          'best crm for startups',
+          'cheapest crm for startups',
+          'crm for small startups',
+        ],
+        [
+          'email marketing automation tools',
+          'marketing automation for email campaigns',
+        ],
+        ['how to migrate data to a new crm'],
+      ]);
+      expect(clusters[0].terms.slice(0, 3)).toEqual(
+        expect.arrayContaining(['crm', 'startup']),
+      );
+    });
+
+    it('should keep every query apart at a threshold of one', () => {
+      const clusters = clusterer.cluster(
+        [
+          { text: 'best crm for startups', count: 2 },
+          { text: 'cheapest crm for startups', count: 1 },
+        ],
+        1,
+      );
+
+      expect(clusters).toHaveLength(2);
+    });
+
+    it('should leave out queries without meaningful words', () => {
+      expect(
+        clusterer.cluster([{ text: 'what is it?', count: 4 }], 0.3),
+      ).toEqual([]);
+    });
+  });
+
+  it('should normalize case and whitespace', () => {
+    expect(normalizeQueryText('  Best   CRM\tfor Startups ')).toBe(
+      'best crm for startups',
+    );
+  });
+});
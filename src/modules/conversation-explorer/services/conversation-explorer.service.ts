@@ -0,0 +1,388 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ValidationError } from '../../../shared/errors';
+import { ConversationExplorerConfig } from '../../../config/conversation-explorer.config';
+import {
+  ClusteredTopic,
+  ConversationTopic,
+  QueryCluster,
+  QueryWindowCounts,
+} from '../interfaces/conversation-topic.interface';
+import { VolumeEstimate } from '../interfaces/search-volume.interface';
+import { ConversationQueryService } from './conversation-query.service';
+import { KeywordVolumeService } from './keyword-volume.service';
+import { SearchVolumeEstimator } from './search-volume.estimator';
+import { normalizeQueryText, TopicClusterer } from './topic-clusterer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_CONFIG: ConversationExplorerConfig = {
+  clustering: {
+    similarityThreshold: 0.3,
+    maxQueries: 5000,
+    representativeQueries: 3,
+  },
+  trends: { minVolume: 2, emergingWindowDays: 7, emergingBaselineDays: 28 },
+  searchVolume: {
+    windowDays: 30,
+    panelScale: 100,
+    panelLogError: 0.3,
+    aiShareOfSearch: 0.08,
+    keywordLogError: 0.7,
+    platformShares: {
+      chatgpt: 0.6,
+      gemini: 0.15,
+      copilot: 0.15,
+      perplexity: 0.1,
+    },
+  },
+  gaps: {
+    maxTopics: 50,
+    contentMatchThreshold: 0.5,
+    coveredContentWeight: 0.5,
+  },
+};
+
+/**
+ * Surfaces what people ask AI platforms about a brand: queries are clustered
+ * into topics, and each topic's volume is compared with the preceding period
+ */
+@Injectable()
+export class ConversationExplorerService {
+  private readonly config: ConversationExplorerConfig;
+
+  constructor(
+    private readonly queryService: ConversationQueryService,
+    private readonly clusterer: TopicClusterer,
+    private readonly keywordVolumeService: KeywordVolumeService,
+    private readonly estimator: SearchVolumeEstimator,
+    configService: ConfigService,
+  ) {
+    this.config =
+      configService.get<ConversationExplorerConfig>('conversationExplorer') ??
+      DEFAULT_CONFIG;
+  }
+
+  /**
+   * Topics in a range, fastest growing first. Growth is measured against the
+   * period of the same length just before the range.
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param limit - Most topics returned
+   * @throws {ValidationError} When the range is empty
+   */
+  async trendingTopics(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    limit = 10,
+  ): Promise<ConversationTopic[]> {
+    if (startDate >= endDate) {
+      throw new ValidationError('startDate must be before endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const topics = await this.topics(
+      brandId,
+      this.previousStart(startDate, endDate),
+      startDate,
+      endDate,
+    );
+
+    const trending = await this.withSearchVolume(
+      brandId,
+      topics
+        .filter(({ topic }) => topic.volume >= this.config.trends.minVolume)
+        .sort(
+          (a, b) =>
+            b.topic.velocity - a.topic.velocity ||
+            b.topic.volume - a.topic.volume,
+        )
+        .slice(0, limit),
+      startDate,
+      endDate,
+    );
+    return trending.map(({ topic }) => topic);
+  }
+
+  /**
+   * Most asked topics in a range, along with every query they are made of.
+   * Movement is measured as for trending topics.
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @param limit - Most topics returned
+   * @throws {ValidationError} When the range is empty
+   */
+  async topicsWithQueries(
+    brandId: string,
+    startDate: Date,
+    endDate: Date,
+    limit = 50,
+  ): Promise<ClusteredTopic[]> {
+    if (startDate >= endDate) {
+      throw new ValidationError('startDate must be before endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const topics = await this.topics(
+      brandId,
+      this.previousStart(startDate, endDate),
+      startDate,
+      endDate,
+    );
+    return this.withSearchVolume(
+      brandId,
+      topics
+        .filter(({ topic }) => topic.volume >= this.config.trends.minVolume)
+        .sort((a, b) => b.topic.volume - a.topic.volume)
+        .slice(0, limit),
+      startDate,
+      endDate,
+    );
+  }
+
+  /**
+   * Topics first asked about in the last few days and absent from the
+   * weeks before, most asked first
+   * @param brandId - Brand ID
+   * @param limit - Most topics returned
+   * @param now - End of the recent window
+   */
+  async emergingTopics(
+    brandId: string,
+    limit = 10,
+    now = new Date(),
+  ): Promise<ConversationTopic[]> {
+    const { emergingWindowDays, emergingBaselineDays, minVolume } =
+      this.config.trends;
+    const recentStart = new Date(now.getTime() - emergingWindowDays * DAY_MS);
+    const baselineStart = new Date(
+      recentStart.getTime() - emergingBaselineDays * DAY_MS,
+    );
+    const topics = await this.topics(
+      brandId,
+      baselineStart,
+      recentStart,
+      now,
+      emergingWindowDays / emergingBaselineDays,
+    );
+
+    const emerging = await this.withSearchVolume(
+      brandId,
+      topics
+        .filter(
+          ({ topic }) =>
+            topic.previousVolume === 0 && topic.volume >= minVolume,
+        )
+        .sort(
+          (a, b) =>
+            b.topic.volume - a.topic.volume ||
+            b.topic.lastSeenAt.getTime() - a.topic.lastSeenAt.getTime(),
+        )
+        .slice(0, limit),
+      recentStart,
+      now,
+    );
+    return emerging.map(({ topic }) => topic);
+  }
+
+  /**
+   * Estimated monthly AI search volume of a query, from how often it was
+   * observed on AI platforms in the trailing window and its imported keyword
+   * volume, if any
+   * @param brandId - Brand ID
+   * @param query - Query text
+   * @param now - End of the observation window
+   * @throws {ValidationError} When the query is empty
+   */
+  async estimateSearchVolume(
+    brandId: string,
+    query: string,
+    now = new Date(),
+  ): Promise<VolumeEstimate> {
+    const normalized = normalizeQueryText(query);
+    if (!normalized) {
+      throw new ValidationError('Query must not be empty', { brandId });
+    }
+
+    const { windowDays } = this.config.searchVolume;
+    const [estimate] = await this.estimateQueries(
+      brandId,
+      [normalized],
+      new Date(now.getTime() - windowDays * DAY_MS),
+      now,
+    );
+    return estimate;
+  }
+
+  /**
+   * Cluster the queries of both windows together, so a topic is the same
+   * topic on either side of the split, then count each side
+   * @param previousScale - Factor bringing the previous window's counts to
+   * the current window's length
+   */
+  private async topics(
+    brandId: string,
+    startDate: Date,
+    splitAt: Date,
+    endDate: Date,
+    previousScale = 1,
+  ): Promise<ClusteredTopic[]> {
+    const { similarityThreshold, maxQueries } = this.config.clustering;
+    const counts = await this.queryService.countByQuery(
+      brandId,
+      startDate,
+      splitAt,
+      endDate,
+      maxQueries,
+    );
+    const byText = new Map(
+      counts.map(count => [normalizeQueryText(count.text), count]),
+    );
+
+    const clusters = this.clusterer.cluster(
+      counts.map(count => ({
+        text: count.text,
+        count: count.current + count.previous,
+      })),
+      similarityThreshold,
+    );
+
+    const labelUses = new Map<string, number>();
+    return clusters.map(cluster => {
+      const topic = this.summarize(
+        cluster,
+        cluster.queries
+          .map(query => byText.get(normalizeQueryText(query.text)))
+          .filter((count): count is QueryWindowCounts => !!count),
+        previousScale,
+      );
+      // Clusters can share a label; later ones get a numbered key
+      const uses = (labelUses.get(topic.key) ?? 0) + 1;
+      labelUses.set(topic.key, uses);
+      return {
+        topic: uses > 1 ? { ...topic, key: `${topic.key}-${uses}` } : topic,
+        queries: cluster.queries.map(query => normalizeQueryText(query.text)),
+      };
+    });
+  }
+
+  /**
+   * Attach each topic's search volume, estimated from observations in the
+   * topic's current window
+   */
+  private async withSearchVolume(
+    brandId: string,
+    topics: ClusteredTopic[],
+    startDate: Date,
+    endDate: Date,
+  ): Promise<ClusteredTopic[]> {
+    const estimates = await this.estimateQueries(
+      brandId,
+      topics.flatMap(({ queries }) => queries),
+      startDate,
+      endDate,
+    );
+
+    let offset = 0;
+    return topics.map(({ topic, queries }) => {
+      const members = estimates.slice(offset, offset + queries.length);
+      offset += queries.length;
+      return {
+        topic: {
+          ...topic,
+          searchVolume: this.estimator.combineQueries(members),
+        },
+        queries,
+      };
+    });
+  }
+
+  /** Start of the period of the same length just before a range */
+  private previousStart(startDate: Date, endDate: Date): Date {
+    return new Date(
+      startDate.getTime() - (endDate.getTime() - startDate.getTime()),
+    );
+  }
+
+  /**
+   * Estimate queries' volumes from their observations in a range
+   * @param queries - Normalized query texts
+   * @returns Estimates in the order of the queries
+   */
+  private async estimateQueries(
+    brandId: string,
+    queries: string[],
+    startDate: Date,
+    endDate: Date,
+  ): Promise<VolumeEstimate[]> {
+    const [observations, keywordVolumes] = await Promise.all([
+      this.queryService.countObservations(brandId, queries, startDate, endDate),
+      this.keywordVolumeService.findVolumes(brandId, queries),
+    ]);
+    const windowDays = (endDate.getTime() - startDate.getTime()) / DAY_MS;
+
+    return queries.map(query =>
+      this.estimator.estimate(
+        {
+          platformCounts: observations.get(query) ?? {},
+          windowDays,
+          keywordVolume: keywordVolumes.get(query),
+        },
+        this.config.searchVolume,
+      ),
+    );
+  }
+
+  private summarize(
+    cluster: QueryCluster,
+    members: QueryWindowCounts[],
+    previousScale: number,
+  ): ConversationTopic {
+    const volume = members.reduce((sum, member) => sum + member.current, 0);
+    const previousVolume = this.round(
+      members.reduce((sum, member) => sum + member.previous, 0) * previousScale,
+    );
+    const label = this.label(cluster.terms);
+
+    return {
+      key: label.replace(/\s+/g, '-'),
+      label,
+      terms: cluster.terms,
+      volume,
+      previousVolume,
+      velocity: this.round(
+        (volume - previousVolume) / Math.max(previousVolume, 1),
+      ),
+      firstSeenAt: new Date(
+        Math.min(...members.map(member => member.firstSeenAt.getTime())),
+      ),
+      lastSeenAt: new Date(
+        Math.max(...members.map(member => member.lastSeenAt.getTime())),
+      ),
+      representativeQueries: members
+        .filter(member => member.current > 0)
+        .sort((a, b) => b.current - a.current)
+        .slice(0, this.config.clustering.representativeQueries)
+        .map(member => ({ text: member.text, count: member.current })),
+    };
+  }
+
+  /**
+   * A topic is named after its leading phrase when one of its top terms is
+   * a bigram, otherwise after its top word
+   */
+  private label(terms: string[]): string {
+    return terms.slice(0, 3).find(term => term.includes(' ')) ?? terms[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
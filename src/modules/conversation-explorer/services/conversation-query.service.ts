@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { ValidationError } from '../../../shared/errors';
+import { ConversationQueryEntity } from '../entities/conversation-query.entity';
+import {
+  ConversationQuerySource,
+  QueryWindowCounts,
+  RecordConversationQuery,
+} from '../interfaces/conversation-topic.interface';
+import { normalizeQueryText } from './topic-clusterer';
+
+const MAX_QUERY_LENGTH = 2000;
+
+interface RawQueryWindowCounts {
+  text: string;
+  current: string;
+  previous: string;
+  firstSeenAt: Date | string;
+  lastSeenAt: Date | string;
+}
+
+interface RawPlatformCount {
+  normalizedText: string;
+  platform: string;
+  count: string;
+}
+
+/**
+ * Persistence and counting for the prompts and questions asked about a brand
+ */
+@Injectable()
+export class ConversationQueryService extends BaseService<ConversationQueryEntity> {
+  constructor(
+    @InjectRepository(ConversationQueryEntity)
+    repository: Repository<ConversationQueryEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Record occurrences of queries
+   * @param brandId - Brand ID
+   * @param queries - Queries to record
+   * @param source - Where the queries came from
+   * @throws {ValidationError} When a query is empty or too long
+   */
+  async recordQueries(
+    brandId: string,
+    queries: RecordConversationQuery[],
+    source: ConversationQuerySource,
+  ): Promise<ConversationQueryEntity[]> {
+    const invalid = queries.filter(
+      query => !query.text?.trim() || query.text.length > MAX_QUERY_LENGTH,
+    );
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `Queries must be between 1 and ${MAX_QUERY_LENGTH} characters`,
+        { brandId, invalid: invalid.length },
+      );
+    }
+    if (queries.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    return this.repository.save(
+      queries.map(query =>
+        this.repository.create({
+          brandId,
+          text: query.text.trim(),
+          normalizedText: normalizeQueryText(query.text),
+          source,
+          platform: query.platform ?? null,
+          observedAt: query.observedAt ?? now,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Occurrences of each distinct query on either side of a split point, most
+   * asked first
+   * @param brandId - Brand ID
+   * @param startDate - Start of the range (inclusive)
+   * @param splitAt - Start of the current part of the range
+   * @param endDate - End of the range (inclusive)
+   * @param limit - Most distinct queries returned
+   */
+  async countByQuery(
+    brandId: string,
+    startDate: Date,
+    splitAt: Date,
+    endDate: Date,
+    limit: number,
+  ): Promise<QueryWindowCounts[]> {
+    const rows = await this.repository
+      .createQueryBuilder('query')
+      .select('mode() WITHIN GROUP (ORDER BY query.text)', 'text')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE query.observedAt >= :splitAt)',
+        'current',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE query.observedAt < :splitAt)',
+        'previous',
+      )
+      .addSelect('MIN(query.observedAt)', 'firstSeenAt')
+      .addSelect('MAX(query.observedAt)', 'lastSeenAt')
+      .where('query.brandId = :brandId', { brandId })
+      .andWhere('query.observedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      })
+      .setParameter('splitAt', splitAt)
+      .groupBy('query.normalizedText')
+      .orderBy('COUNT(*)', 'DESC')
+      .limit(limit)
+      .getRawMany<RawQueryWindowCounts>();
+
+    return rows.map(row => ({
+      text: row.text,
+      current: parseInt(row.current, 10),
+      previous: parseInt(row.previous, 10),
+      firstSeenAt: new Date(row.firstSeenAt),
+      lastSeenAt: new Date(row.lastSeenAt),
+    }));
+  }
+
+  /**
+   * Occurrences of queries observed on AI platforms, per platform. Tracked
+   * prompts are left out, since the brand asks those itself.
+   * @param brandId - Brand ID
+   * @param normalizedTexts - Queries, normalized
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (inclusive)
+   * @returns Counts per platform keyed by normalized query; occurrences of
+   * unknown platform are keyed ''
+   */
+  async countObservations(
+    brandId: string,
+    normalizedTexts: string[],
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Map<string, Record<string, number>>> {
+    const counts = new Map<string, Record<string, number>>();
+    if (normalizedTexts.length === 0) {
+      return counts;
+    }
+
+    const rows = await this.repository
+      .createQueryBuilder('query')
+      .select('query.normalizedText', 'normalizedText')
+      .addSelect("COALESCE(query.platform, '')", 'platform')
+      .addSelect('COUNT(*)', 'count')
+      .where('query.brandId = :brandId', { brandId })
+      .andWhere('query.source = :source', {
+        source: ConversationQuerySource.OBSERVED,
+      })
+      .andWhere('query.normalizedText IN (:...normalizedTexts)', {
+        normalizedTexts,
+      })
+      .andWhere('query.observedAt BETWEEN :startDate AND :endDate', {
+        startDate,
+        endDate,
+      })
+      .groupBy('query.normalizedText')
+      .addGroupBy('query.platform')
+      .getRawMany<RawPlatformCount>();
+
+    for (const row of rows) {
+      const platforms = counts.get(row.normalizedText) ?? {};
+      platforms[row.platform] =
+        (platforms[row.platform] ?? 0) + parseInt(row.count, 10);
+      counts.set(row.normalizedText, platforms);
+    }
+    return counts;
+  }
+}
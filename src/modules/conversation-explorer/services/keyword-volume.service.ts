@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { BaseService } from '../../../shared/classes/base.service';
+import { ValidationError } from '../../../shared/errors';
+import { parseCsv } from '../../../shared/utils/csv.utils';
+import { KeywordVolumeEntity } from '../entities/keyword-volume.entity';
+import { KeywordVolumeImportResult } from '../interfaces/search-volume.interface';
+import { normalizeQueryText } from './topic-clusterer';
+
+const KEYWORD_HEADERS = ['keyword', 'keywords', 'query', 'term', 'search term'];
+const VOLUME_HEADERS = [
+  'volume',
+  'search volume',
+  'monthly volume',
+  'avg. monthly searches',
+  'avg monthly searches',
+];
+
+const MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+/**
+ * Keyword rows read from one CSV. Keeps the lookup of existing keywords
+ * under Postgres' limit of 65,535 bind parameters per query.
+ */
+const MAX_KEYWORD_ROWS = 50_000;
+
+/** Largest volume the keyword_volumes integer column holds */
+const MAX_VOLUME = 2_147_483_647;
+
+/** Keywords inserted per statement */
+const SAVE_CHUNK_SIZE = 1_000;
+
+interface KeywordRow {
+  keyword: string;
+  monthlyVolume: number;
+}
+
+/**
+ * Stores classic keyword search volumes imported from SEO tool exports
+ */
+@Injectable()
+export class KeywordVolumeService extends BaseService<KeywordVolumeEntity> {
+  constructor(
+    @InjectRepository(KeywordVolumeEntity)
+    repository: Repository<KeywordVolumeEntity>,
+  ) {
+    super(repository);
+  }
+
+  /**
+   * Import a keyword volume CSV. The keyword and volume columns are found by
+   * their header, e.g. "Keyword" and "Search Volume"; without a recognized
+   * header the first two columns are used. Volumes like "1,200" or "3.5K"
+   * are accepted. Rows that cannot be read are skipped and reported, and a
+   * keyword already imported is overwritten.
+   * @param brandId - Brand ID
+   * @param csv - CSV text
+   * @param source - Tool or file the volumes came from
+   * @throws {ValidationError} When the CSV is malformed or has more than
+   * 50,000 keyword rows
+   */
+  async importCsv(
+    brandId: string,
+    csv: string,
+    source?: string,
+  ): Promise<KeywordVolumeImportResult> {
+    const rows = parseCsv(csv);
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const keywordColumn = header.findIndex(cell =>
+      KEYWORD_HEADERS.includes(cell),
+    );
+    const volumeColumn = header.findIndex(cell =>
+      VOLUME_HEADERS.includes(cell),
+    );
+    const hasHeader = keywordColumn >= 0 && volumeColumn >= 0;
+    const rowCount = rows.length - (hasHeader ? 1 : 0);
+    if (rowCount > MAX_KEYWORD_ROWS) {
+      throw new ValidationError(
+        `A keyword volume CSV may have at most ${MAX_KEYWORD_ROWS} rows`,
+        { rows: rowCount },
+      );
+    }
+
+    const keywords = new Map<string, KeywordRow>();
+    const skipped: KeywordVolumeImportResult['skipped'] = [];
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+      const line = index + (hasHeader ? 2 : 1);
+      const keyword = row[hasHeader ? keywordColumn : 0]?.trim();
+      const volume = this.parseVolume(row[hasHeader ? volumeColumn : 1]);
+
+      if (!keyword) {
+        skipped.push({ line, reason: 'Missing keyword' });
+      } else if (volume === null) {
+        skipped.push({ line, reason: 'Invalid volume' });
+      } else {
+        keywords.set(normalizeQueryText(keyword), {
+          keyword,
+          monthlyVolume: volume,
+        });
+      }
+    });
+
+    if (keywords.size === 0) {
+      return { imported: 0, skipped };
+    }
+
+    const existing = await this.repository.find({
+      where: { brandId, normalizedKeyword: In([...keywords.keys()]) },
+    });
+    const byKeyword = new Map(
+      existing.map(entity => [entity.normalizedKeyword, entity]),
+    );
+
+    const importedAt = new Date();
+    await this.repository.save(
+      [...keywords].map(([normalizedKeyword, row]) =>
+        this.repository.merge(
+          byKeyword.get(normalizedKeyword) ??
+            this.repository.create({ brandId, normalizedKeyword }),
+          {
+            keyword: row.keyword,
+            monthlyVolume: row.monthlyVolume,
+            source: source ?? null,
+            importedAt,
+          },
+        ),
+      ),
+      { chunk: SAVE_CHUNK_SIZE },
+    );
+
+    return { imported: keywords.size, skipped };
+  }
+
+  /**
+   * Imported monthly volumes of keywords
+   * @param brandId - Brand ID
+   * @param normalizedKeywords - Keywords, normalized like query texts
+   * @returns Volumes keyed by normalized keyword; keywords never imported
+   * are absent
+   */
+  async findVolumes(
+    brandId: string,
+    normalizedKeywords: string[],
+  ): Promise<Map<string, number>> {
+    if (normalizedKeywords.length === 0) {
+      return new Map();
+    }
+
+    const entities = await this.repository.find({
+      where: { brandId, normalizedKeyword: In(normalizedKeywords) },
+    });
+    return new Map(
+      entities.map(entity => [entity.normalizedKeyword, entity.monthlyVolume]),
+    );
+  }
+
+  /**
+   * Read a volume cell such as "880", "1,200", "3.5K" or "2M". Ranges,
+   * negative numbers and volumes too large to store are rejected.
+   */
+  private parseVolume(cell: string | undefined): number | null {
+    const match = cell
+      ?.trim()
+      .replace(/[,\s]/g, '')
+      .match(/^(\d+(?:\.\d+)?)([km])?$/i);
+    if (!match) {
+      return null;
+    }
+
+    const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+    const volume = Math.round(parseFloat(match[1]) * multiplier);
+    return volume > MAX_VOLUME ? null : volume;
+  }
+}
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { ConversationExplorerConfig } from '../../../config/conversation-explorer.config';
+import {
+  SearchVolumeSignals,
+  VolumeConfidence,
+  VolumeEstimate,
+} from '../interfaces/search-volume.interface';
+
+type SearchVolumeConfig = ConversationExplorerConfig['searchVolume'];
+
+/** Normal quantile of an 80% two-sided band */
+const BAND_Z = 1.2816;
+
+/** Upper bound on events per window when none were seen, at 95% */
+const RULE_OF_THREE = 3;
+
+/** Coverage floor, so a query seen on a niche platform is not overblown */
+const MIN_COVERAGE = 0.05;
+
+const DAYS_PER_MONTH = 30;
+
+interface LogEstimate {
+  mean: number;
+  deviation: number;
+}
+
+/**
+ * Estimates monthly AI search volume from panel observations and imported
+ * keyword volumes. Each source gives a log-normal estimate; they are combined
+ * by inverse-variance weighting, so the tighter source dominates and agreeing
+ * sources narrow the band.
+ */
+@Injectable()
+export class SearchVolumeEstimator {
+  /**
+   * Estimate one query's volume
+   * @param signals - Observations and keyword volume of the query
+   * @param config - Estimation settings
+   */
+  estimate(
+    signals: SearchVolumeSignals,
+    config: SearchVolumeConfig,
+  ): VolumeEstimate {
+    const observedCount = Object.values(signals.platformCounts).reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+    const platformCoverage = this.coverage(signals.platformCounts, config);
+    const monthFactor = DAYS_PER_MONTH / signals.windowDays;
+    const keywordVolume = signals.keywordVolume;
+
+    if (observedCount === 0 && keywordVolume === undefined) {
+      return {
+        estimate: 0,
+        low: 0,
+        high: Math.round(RULE_OF_THREE * config.panelScale * monthFactor),
+        confidence: VolumeConfidence.LOW,
+        observedCount,
+        platformCoverage,
+      };
+    }
+
+    // Half an occurrence keeps the log finite and the estimate humble when
+    // nothing was observed
+    const estimates: LogEstimate[] = [
+      {
+        mean: Math.log(
+          ((observedCount + 0.5) * config.panelScale * monthFactor) /
+            Math.max(platformCoverage, MIN_COVERAGE),
+        ),
+        deviation: Math.sqrt(
+          1 / (observedCount + 0.5) + config.panelLogError ** 2,
+        ),
+      },
+    ];
+    if (keywordVolume !== undefined) {
+      estimates.push({
+        mean: Math.log(Math.max(keywordVolume, 0.5) * config.aiShareOfSearch),
+        deviation: config.keywordLogError,
+      });
+    }
+
+    const { mean, deviation } = this.combine(estimates);
+    return {
+      estimate: Math.round(Math.exp(mean)),
+      low: Math.round(Math.exp(mean - BAND_Z * deviation)),
+      high: Math.round(Math.exp(mean + BAND_Z * deviation)),
+      confidence: this.confidence(deviation),
+      observedCount,
+      platformCoverage,
+      keywordVolume,
+    };
+  }
+
+  /**
+   * Add up query estimates into a topic estimate. Bands are summed as well,
+   * which assumes the queries' errors move together and so errs wide.
+   * @param estimates - Estimates of the topic's queries
+   */
+  combineQueries(estimates: VolumeEstimate[]): VolumeEstimate {
+    const sum = (pick: (estimate: VolumeEstimate) => number): number =>
+      estimates.reduce((total, estimate) => total + pick(estimate), 0);
+    const observedCount = sum(estimate => estimate.observedCount);
+    const keywordEstimates = estimates.filter(
+      estimate => estimate.keywordVolume !== undefined,
+    );
+
+    const total = {
+      estimate: sum(estimate => estimate.estimate),
+      low: sum(estimate => estimate.low),
+      high: sum(estimate => estimate.high),
+    };
+    const deviation =
+      total.low > 0 ? Math.log(total.high / total.low) / (2 * BAND_Z) : null;
+
+    return {
+      ...total,
+      confidence:
+        deviation === null ? VolumeConfidence.LOW : this.confidence(deviation),
+      observedCount,
+      platformCoverage:
+        observedCount === 0
+          ? 0
+          : this.round(
+              sum(
+                estimate => estimate.platformCoverage * estimate.observedCount,
+              ) / observedCount,
+            ),
+      keywordVolume:
+        keywordEstimates.length > 0
+          ? keywordEstimates.reduce(
+              (total, estimate) => total + (estimate.keywordVolume ?? 0),
+              0,
+            )
+          : undefined,
+    };
+  }
+
+  /**
+   * Share of AI queries handled by the platforms the query was seen on.
+   * Without a known share to go by, such as for occurrences of unknown
+   * origin, nothing is extrapolated.
+   */
+  private coverage(
+    platformCounts: Record<string, number>,
+    config: SearchVolumeConfig,
+  ): number {
+    const platforms = Object.keys(platformCounts).filter(
+      platform => platformCounts[platform] > 0,
+    );
+    if (platforms.includes('')) {
+      return 1;
+    }
+    const covered = platforms.reduce(
+      (sum, platform) =>
+        sum + (config.platformShares[platform.toLowerCase()] ?? 0),
+      0,
+    );
+    return covered > 0 ? this.round(Math.min(covered, 1)) : 1;
+  }
+
+  private combine(estimates: LogEstimate[]): LogEstimate {
+    const weights = estimates.map(estimate => 1 / estimate.deviation ** 2);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    return {
+      mean:
+        estimates.reduce(
+          (sum, estimate, index) => sum + weights[index] * estimate.mean,
+          0,
+        ) / totalWeight,
+      deviation: 1 / Math.sqrt(totalWeight),
+    };
+  }
+
+  private confidence(deviation: number): VolumeConfidence {
+    if (deviation <= 0.35) {
+      return VolumeConfidence.HIGH;
+    }
+    return deviation <= 0.75 ? VolumeConfidence.MEDIUM : VolumeConfidence.LOW;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,216 @@
+import { Injectable } from '@nestjs/common';
+import {
+  QueryCluster,
+  WeightedQuery,
+} from '../interfaces/conversation-topic.interface';
+
+const STOPWORDS = new Set(
+  (
+    'a about am an and any are as at be best between by can could did do ' +
+    'does for from get good has have how i if in into is it its me my of ' +
+    'on or our should so some than that the their there these this to top ' +
+    'vs was we what when where which who why will with would you your'
+  ).split(' '),
+);
+
+/** Terms kept to describe each cluster */
+const DESCRIBING_TERMS = 5;
+
+type TermVector = Map<string, number>;
+
+interface Member {
+  query: WeightedQuery;
+  vector: TermVector;
+}
+
+interface Cluster {
+  members: Member[];
+
+  /** Count-weighted sum of the member vectors */
+  centroid: TermVector;
+}
+
+/**
+ * Lower-case a query and collapse its whitespace, so repeats of the same
+ * question count together
+ */
+export function normalizeQueryText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Groups queries into topics without embeddings: each query becomes a TF-IDF
+ * vector of its word unigrams and bigrams, and queries join the most similar
+ * existing topic by cosine similarity, most asked queries first
+ */
+@Injectable()
+export class TopicClusterer {
+  /**
+   * Cluster queries into topics, largest topic first. Queries made only of
+   * stopwords are left out.
+   * @param queries - Distinct queries with how often each was asked
+   * @param similarityThreshold - Cosine similarity, in [0, 1], a query needs
+   * with a topic to join it
+   */
+  cluster(
+    queries: WeightedQuery[],
+    similarityThreshold: number,
+  ): QueryCluster[] {
+    const documents = queries
+      .map(query => ({ query, terms: this.terms(query.text) }))
+      .filter(document => document.terms.length > 0);
+    const idf = this.inverseDocumentFrequency(
+      documents.map(document => document.terms),
+    );
+
+    const members: Member[] = documents
+      .map(({ query, terms }) => ({
+        query,
+        vector: this.vectorize(terms, idf),
+      }))
+      .sort(
+        (a, b) =>
+          b.query.count - a.query.count ||
+          a.query.text.localeCompare(b.query.text),
+      );
+
+    const clusters: Cluster[] = [];
+    for (const member of members) {
+      let best: Cluster | null = null;
+      let bestSimilarity = 0;
+      for (const cluster of clusters) {
+        const similarity = this.cosine(member.vector, cluster.centroid);
+        if (similarity > bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best && bestSimilarity >= similarityThreshold) {
+        best.members.push(member);
+        this.accumulate(best.centroid, member);
+      } else {
+        const centroid: TermVector = new Map();
+        this.accumulate(centroid, member);
+        clusters.push({ members: [member], centroid });
+      }
+    }
+
+    return clusters
+      .map(cluster => this.describe(cluster))
+      .sort(
+        (a, b) =>
+          this.total(b.queries) - this.total(a.queries) ||
+          a.terms[0].localeCompare(b.terms[0]),
+      );
+  }
+
+  /**
+   * Unigrams and bigrams of a query's meaningful words. Stopwords are dropped
+   * and simple plurals folded, so "CRMs for startups" and "startup CRM"
+   * share terms.
+   * @param text - Query text
+   */
+  terms(text: string): string[] {
+    const words = normalizeQueryText(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+      .map(word => this.singular(word));
+
+    const bigrams = words
+      .slice(1)
+      .map((word, index) => `${words[index]} ${word}`);
+    return [...words, ...bigrams];
+  }
+
+  private singular(word: string): string {
+    return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+      ? word.slice(0, -1)
+      : word;
+  }
+
+  /**
+   * Smoothed inverse document frequency, so terms shared by every query
+   * still carry some weight
+   */
+  private inverseDocumentFrequency(documents: string[][]): Map<string, number> {
+    const frequency = new Map<string, number>();
+    for (const terms of documents) {
+      for (const term of new Set(terms)) {
+        frequency.set(term, (frequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    const idf = new Map<string, number>();
+    for (const [term, count] of frequency) {
+      idf.set(term, Math.log((1 + documents.length) / (1 + count)) + 1);
+    }
+    return idf;
+  }
+
+  /** Unit-length TF-IDF vector */
+  private vectorize(terms: string[], idf: Map<string, number>): TermVector {
+    const vector: TermVector = new Map();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) ?? 0) + (idf.get(term) ?? 0));
+    }
+
+    const length = this.length(vector);
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / length);
+    }
+    return vector;
+  }
+
+  private accumulate(centroid: TermVector, member: Member): void {
+    for (const [term, weight] of member.vector) {
+      centroid.set(
+        term,
+        (centroid.get(term) ?? 0) + weight * member.query.count,
+      );
+    }
+  }
+
+  private cosine(vector: TermVector, centroid: TermVector): number {
+    let dot = 0;
+    for (const [term, weight] of vector) {
+      dot += weight * (centroid.get(term) ?? 0);
+    }
+    const lengths = this.length(vector) * this.length(centroid);
+    return lengths === 0 ? 0 : dot / lengths;
+  }
+
+  private length(vector: TermVector): number {
+    let sum = 0;
+    for (const weight of vector.values()) {
+      sum += weight * weight;
+    }
+    return Math.sqrt(sum);
+  }
+
+  private describe(cluster: Cluster): QueryCluster {
+    const terms = [...cluster.centroid.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, DESCRIBING_TERMS)
+      .map(([term]) => term);
+
+    const queries = cluster.members
+      .map(member => ({
+        query: member.query,
+        similarity: this.cosine(member.vector, cluster.centroid),
+      }))
+      .sort(
+        (a, b) =>
+          b.query.count - a.query.count ||
+          b.similarity - a.similarity ||
+          a.query.text.localeCompare(b.query.text),
+      )
+      .map(({ query }) => query);
+
+    return { terms, queries };
+  }
+
+  private total(queries: WeightedQuery[]): number {
+    return queries.reduce((sum, query) => sum + query.count, 0);
+  }
+}
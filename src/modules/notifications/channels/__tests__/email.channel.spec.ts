@@ -0,0 +1,224 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { EmailChannel } from '../email.channel';
+import { Notification } from '../../interfaces/notification.interface';
+import { NotificationsConfig } from '../../../../config/notifications.config';
+import {
+  ExternalServiceError,
+  ValidationError,
+} from '../../../../shared/errors';
+
+interface Session {
+  commands: string[];
+  data: string;
+  closed: boolean;
+}
+
+/**
+ * Local stand-in SMTP server that accepts everything except recipients at
+ * the rejected.test domain. With `startTls` it offers STARTTLS but then
+ * answers the handshake with plain text.
+ */
+function createSmtpServer(
+  sessions: Session[],
+  options: { startTls: boolean },
+): Server {
+  return createServer((socket: Socket) => {
+    const session: Session = { commands: [], data: '', closed: false };
+    sessions.push(session);
+    socket.on('close', () => (session.closed = true));
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 stand-in ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        session.commands.push(line);
+
+        const verb = line.split(/[\s:]/)[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write(
+            options.startTls
+              ? '250-stand-in\r\n250-STARTTLS\r\n250 AUTH PLAIN\r\n'
+              : '250-stand-in\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n',
+          );
+        } else if (verb === 'STARTTLS') {
+          socket.write('220 ready\r\n');
+          setTimeout(() => socket.write('not a TLS handshake\r\n'), 10);
+        } else if (verb === 'AUTH') {
+          socket.write('235 authenticated\r\n');
+        } else if (verb === 'RCPT' && line.includes('@rejected.test')) {
+          socket.write('550 no such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+}
+
+describe('EmailChannel', () => {
+  let server: Server;
+  let port: number;
+  let sessions: Session[];
+
+  const notification: Notification = {
+    event: 'alert.triggered',
+    brandId: 'brand-1',
+    subject: 'Alert: Sentiment drop – Acme',
+    text: 'Sentiment changed by -0.3\n.\nCurrent window: 0.2',
+    payload: {},
+  };
+
+  const channelFor = (smtp: Partial<NotificationsConfig['smtp']> = {}) =>
+    new EmailChannel({
+      get: () => ({
+        smtp: {
+          host: '127.0.0.1',
+          port,
+          secure: false,
+          from: 'Alerts <alerts@example.com>',
+          ...smtp,
+        },
+        retry: { maxAttempts: 1, initialDelayMs: 1, maxDelayMs: 1 },
+        timeoutMs: 2000,
+      }),
+    } as unknown as ConfigService);
+
+  beforeAll(async () => {
+    sessions = [];
+    server = createSmtpServer(sessions, { startTls: false });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    sessions.length = 0;
+  });
+
+  it('should send the notification as a plain-text email', async () => {
+    await channelFor({
+      user: 'bot',
+      pass: 'hunter2',
+      allowInsecureAuth: true,
+    }).send(
+      { recipients: ['ops@example.com', 'cmo@example.com'] },
+      notification,
+    );
+
+    const [session] = sessions;
+    expect(session.commands).toEqual([
+      'EHLO localhost',
+      `AUTH PLAIN ${Buffer.from('\0bot\0hunter2').toString('base64')}`,
+      'MAIL FROM:<alerts@example.com>',
+      'RCPT TO:<ops@example.com>',
+      'RCPT TO:<cmo@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+
+    const [headers, body] = session.data.split('\r\n\r\n');
+    expect(headers).toContain('From: Alerts <alerts@example.com>');
+    expect(headers).toContain('To: ops@example.com, cmo@example.com');
+    expect(headers).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(notification.subject).toString('base64')}?=`,
+    );
+    expect(headers).toContain('Content-Transfer-Encoding: base64');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe(
+      notification.text,
+    );
+  });
+
+  it('should skip authentication without credentials', async () => {
+    await channelFor().send({ recipients: ['ops@example.com'] }, notification);
+
+    expect(sessions[0].commands[1]).toBe('MAIL FROM:<alerts@example.com>');
+  });
+
+  it('should not send credentials over an unencrypted connection', async () => {
+    await expect(
+      channelFor({ user: 'bot', pass: 'hunter2' }).send(
+        { recipients: ['ops@example.com'] },
+        notification,
+      ),
+    ).rejects.toThrow(ExternalServiceError);
+
+    expect(sessions[0].commands).toEqual(['EHLO localhost']);
+  });
+
+  it('should close the connection when the TLS upgrade fails', async () => {
+    const tlsSessions: Session[] = [];
+    const tlsServer = createSmtpServer(tlsSessions, { startTls: true });
+    await new Promise<void>(resolve =>
+      tlsServer.listen(0, '127.0.0.1', resolve),
+    );
+
+    try {
+      await expect(
+        channelFor({
+          port: (tlsServer.address() as AddressInfo).port,
+          user: 'bot',
+          pass: 'hunter2',
+        }).send({ recipients: ['ops@example.com'] }, notification),
+      ).rejects.toThrow('TLS upgrade with SMTP server failed');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(tlsSessions[0].commands).toEqual(['EHLO localhost', 'STARTTLS']);
+      expect(tlsSessions[0].closed).toBe(true);
+    } finally {
+      await new Promise(resolve => tlsServer.close(resolve));
+    }
+  });
+
+  it('should fail when the server rejects a recipient', async () => {
+    await expect(
+      channelFor().send({ recipients: ['nobody@rejected.test'] }, notification),
+    ).rejects.toThrow(ExternalServiceError);
+  });
+
+  it('should fail when the server cannot be reached', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const unusedPort = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    await expect(
+      channelFor({ port: unusedPort }).send(
+        { recipients: ['ops@example.com'] },
+        notification,
+      ),
+    ).rejects.toThrow(ExternalServiceError);
+  });
+
+  it('should refuse to send without recipients', async () => {
+    await expect(
+      channelFor().send({ recipients: [] }, notification),
+    ).rejects.toThrow(ValidationError);
+    expect(sessions).toHaveLength(0);
+  });
+});
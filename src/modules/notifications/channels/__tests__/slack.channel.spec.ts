@@ -0,0 +1,72 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { SlackChannel } from '../slack.channel';
+import { Notification } from '../../interfaces/notification.interface';
+
+describe('SlackChannel', () => {
+  let server: Server;
+  let url: string;
+  let received: string[];
+  let channel: SlackChannel;
+
+  const notification: Notification = {
+    event: 'alert.triggered',
+    brandId: 'brand-1',
+    subject: 'Alert: Share of voice <Acme>',
+    text: 'Share of voice changed by +15 & more',
+    payload: {},
+  };
+
+  beforeAll(async () => {
+    // Local stand-in for the Slack incoming webhook
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push(body);
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/services/T000/B000/XXX`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    channel = new SlackChannel(new HttpService(), {
+      // The test receiver listens on loopback
+      get: () => ({ timeoutMs: 2000, allowPrivateNetworks: true }),
+    } as unknown as ConfigService);
+  });
+
+  it('should post a formatted message with a plain-text fallback', async () => {
+    await channel.send({ url }, notification);
+
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0])).toEqual({
+      text: 'Alert: Share of voice <Acme>',
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: '*Alert: Share of voice &lt;Acme&gt;*',
+          },
+        },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: 'Share of voice changed by +15 &amp; more',
+          },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import {
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  TIMESTAMP_HEADER,
+  WebhookChannel,
+} from '../webhook.channel';
+import { Notification } from '../../interfaces/notification.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+interface ReceivedRequest {
+  method?: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookChannel', () => {
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let channel: WebhookChannel;
+
+  const secret = 'a-shared-secret-value';
+  const notification: Notification = {
+    event: 'alert.triggered',
+    brandId: 'brand-1',
+    subject: 'Alert: Sentiment drop',
+    text: 'Sentiment changed by -0.3',
+    payload: { id: 'alert-1', change: -0.3 },
+  };
+
+  beforeAll(async () => {
+    // Local stand-in for the receiving endpoint
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 204;
+    channel = new WebhookChannel(new HttpService(), {
+      // The test receiver listens on loopback
+      get: () => ({ timeoutMs: 2000, allowPrivateNetworks: true }),
+    } as unknown as ConfigService);
+  });
+
+  it('should post a JSON body the receiver can verify', async () => {
+    await channel.send({ url, secret }, notification);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.method).toBe('POST');
+    expect(request.headers['content-type']).toContain('application/json');
+    expect(request.headers[EVENT_HEADER.toLowerCase()]).toBe('alert.triggered');
+
+    const timestamp = request.headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signWebhookPayload(secret, timestamp, request.body),
+    );
+    expect(JSON.parse(request.body)).toEqual({
+      event: 'alert.triggered',
+      brandId: 'brand-1',
+      subject: 'Alert: Sentiment drop',
+      text: 'Sentiment changed by -0.3',
+      data: { id: 'alert-1', change: -0.3 },
+    });
+  });
+
+  it('should reject when the receiver answers with an error', async () => {
+    responseStatus = 500;
+
+    await expect(channel.send({ url, secret }, notification)).rejects.toThrow(
+      '500',
+    );
+  });
+
+  it('should refuse to post to private addresses', async () => {
+    const publicOnly = new WebhookChannel(new HttpService(), {
+      get: () => ({ timeoutMs: 2000, allowPrivateNetworks: false }),
+    } as unknown as ConfigService);
+
+    await expect(
+      publicOnly.send({ url, secret }, notification),
+    ).rejects.toThrow(ValidationError);
+    expect(received).toHaveLength(0);
+  });
+
+  it('should refuse to send without a secret', async () => {
+    await expect(channel.send({ url }, notification)).rejects.toThrow(
+      ValidationError,
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  it('should sign with HMAC-SHA256 over timestamp and body', () => {
+    expect(signWebhookPayload('secret', '1700000000', '{}')).toBe(
+      'sha256=b8569b78799ff9e3cbff0fc2d63a33a2b57f3282abd07c37ae5e8e7d79a5f163',
+    );
+  });
+});
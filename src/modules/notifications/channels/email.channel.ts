@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotificationsConfig } from '../../../config/notifications.config';
+import { ValidationError } from '../../../shared/errors';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDestinationConfig,
+} from '../interfaces/notification.interface';
+import { SmtpClient } from './smtp.client';
+
+/**
+ * Sends the notification as a plain-text email through the configured SMTP
+ * server
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.EMAIL;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(
+    config: NotificationDestinationConfig,
+    notification: Notification,
+  ): Promise<void> {
+    if (!config.recipients?.length) {
+      throw new ValidationError('Email destination needs recipients');
+    }
+
+    const settings =
+      this.configService.get<NotificationsConfig>('notifications');
+    if (!settings) {
+      throw new ValidationError('Notifications are not configured');
+    }
+
+    const client = new SmtpClient({
+      ...settings.smtp,
+      timeoutMs: settings.timeoutMs,
+    });
+    await client.send({
+      from: settings.smtp.from,
+      to: config.recipients,
+      subject: notification.subject,
+      text: notification.text,
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { NotificationsConfig } from '../../../config/notifications.config';
+import { ValidationError } from '../../../shared/errors';
+import { assertPublicUrl, PUBLIC_AGENTS } from '../utils/public-network.utils';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDestinationConfig,
+} from '../interfaces/notification.interface';
+
+/**
+ * Message body accepted by Slack incoming webhooks
+ */
+export interface SlackMessage {
+  text: string;
+  blocks: Array<{
+    type: string;
+    text?: { type: string; text: string };
+  }>;
+}
+
+/**
+ * Posts the notification to a Slack incoming webhook
+ */
+@Injectable()
+export class SlackChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.SLACK;
+  private readonly timeoutMs: number;
+  private readonly allowPrivateNetworks: boolean;
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    const config = configService.get<NotificationsConfig>('notifications');
+    this.timeoutMs = config?.timeoutMs ?? 10000;
+    this.allowPrivateNetworks = config?.allowPrivateNetworks ?? false;
+  }
+
+  async send(
+    config: NotificationDestinationConfig,
+    notification: Notification,
+  ): Promise<void> {
+    if (!config.url) {
+      throw new ValidationError('Slack destination needs a webhook url');
+    }
+    if (!this.allowPrivateNetworks) {
+      await assertPublicUrl(config.url);
+    }
+
+    await firstValueFrom(
+      this.httpService.post(config.url, this.format(notification), {
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        ...(this.allowPrivateNetworks ? {} : PUBLIC_AGENTS),
+      }),
+    );
+  }
+
+  /**
+   * Headline in bold followed by the body. `text` doubles as the fallback
+   * shown in push notifications.
+   */
+  format(notification: Notification): SlackMessage {
+    return {
+      text: notification.subject,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${this.escape(notification.subject)}*`,
+          },
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: this.escape(notification.text) },
+        },
+      ],
+    };
+  }
+
+  /** Slack only requires these three characters to be escaped */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
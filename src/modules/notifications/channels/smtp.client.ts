@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { ExternalServiceError } from '../../../shared/errors';
+
+export interface SmtpClientOptions {
+  host: string;
+  port: number;
+
+  /** Connect over TLS from the start instead of upgrading with STARTTLS */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+
+  /**
+   * Send credentials even when the connection is not encrypted; only for
+   * relays on a trusted network
+   */
+  allowInsecureAuth?: boolean;
+  timeoutMs: number;
+
+  /** Name announced in EHLO */
+  clientName?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+interface PendingReply {
+  resolve: (reply: SmtpReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Minimal SMTP client for sending plain-text mail: EHLO, STARTTLS when the
+ * server offers it, AUTH PLAIN when credentials are set, then a single
+ * message. Credentials are only sent over TLS unless `allowInsecureAuth` is
+ * set. Opens a new connection per message.
+ */
+export class SmtpClient {
+  private socket: Socket | null = null;
+  private buffer = '';
+  private pending: PendingReply | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpClientOptions) {}
+
+  /**
+   * @throws {ExternalServiceError} When the server cannot be reached or
+   * rejects a command
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.connect();
+      this.expect(await this.readReply(), [220], 'greeting');
+
+      const capabilities = await this.hello();
+      let encrypted = this.options.secure;
+      if (!encrypted && capabilities.includes('STARTTLS')) {
+        await this.command('STARTTLS', [220]);
+        await this.upgrade();
+        await this.hello();
+        encrypted = true;
+      }
+
+      if (this.options.user && !encrypted && !this.options.allowInsecureAuth) {
+        throw new ExternalServiceError(
+          'SMTP server does not offer STARTTLS; refusing to send credentials unencrypted',
+          { host: this.options.host },
+        );
+      }
+      if (this.options.user) {
+        const credentials = Buffer.from(
+          `\0${this.options.user}\0${this.options.pass ?? ''}`,
+        ).toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await this.command(`MAIL FROM:<${this.address(message.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await this.command(`RCPT TO:<${this.address(recipient)}>`, [250, 251]);
+      }
+      await this.command('DATA', [354]);
+      await this.command(`${this.dotStuff(this.build(message))}\r\n.`, [250]);
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure
+      ? connectTls({ host, port, servername: host })
+      : connectTcp({ host, port });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once(secure ? 'secureConnect' : 'connect', resolve);
+      socket.once('error', reject);
+    }).catch(error => {
+      socket.destroy();
+      throw new ExternalServiceError(
+        `Could not connect to SMTP server ${host}:${port}: ${error.message}`,
+        { host, port },
+      );
+    });
+
+    this.attach(socket);
+  }
+
+  /** Switches the open connection to TLS after a successful STARTTLS */
+  private async upgrade(): Promise<void> {
+    const plain = this.detach();
+    const socket = connectTls({ socket: plain, servername: this.options.host });
+    socket.setTimeout(this.options.timeoutMs, () =>
+      socket.destroy(new Error('TLS handshake timed out')),
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('secureConnect', resolve);
+      socket.once('error', reject);
+    }).catch(error => {
+      socket.destroy();
+      plain.destroy();
+      throw new ExternalServiceError(
+        `TLS upgrade with SMTP server failed: ${error.message}`,
+        { host: this.options.host },
+      );
+    });
+
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    this.failure = null;
+    socket.setTimeout(this.options.timeoutMs, () =>
+      socket.destroy(new Error('SMTP connection timed out')),
+    );
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(): Socket {
+    const socket = this.socket as Socket;
+    socket.setTimeout(0);
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+    this.socket = null;
+    return socket;
+  }
+
+  private readonly onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+    this.flush();
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.fail(error);
+  };
+
+  private readonly onClose = (): void => {
+    this.fail(new Error('SMTP server closed the connection'));
+  };
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(this.failure);
+  }
+
+  private flush(): void {
+    if (!this.pending) {
+      return;
+    }
+    const reply = this.takeReply();
+    if (reply) {
+      const pending = this.pending;
+      this.pending = null;
+      pending.resolve(reply);
+    }
+  }
+
+  /**
+   * Removes one complete reply from the buffer. Multiline replies mark every
+   * line but the last with a dash after the code.
+   */
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf('\n', offset);
+      if (end === -1) {
+        return null;
+      }
+      const line = this.buffer.slice(offset, end).replace(/\r$/, '');
+      offset = end + 1;
+      lines.push(line.slice(4));
+
+      if (line.charAt(3) !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        return { code: parseInt(line.slice(0, 3), 10), lines };
+      }
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    return new Promise<SmtpReply>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.pending = { resolve, reject };
+      this.flush();
+    }).catch(error => {
+      throw new ExternalServiceError(`SMTP exchange failed: ${error.message}`, {
+        host: this.options.host,
+      });
+    });
+  }
+
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket?.write(`${line}\r\n`);
+    const verb = line.startsWith('AUTH') ? 'AUTH' : line.split(/[\s:]/)[0];
+    return this.expect(await this.readReply(), expected, verb);
+  }
+
+  private expect(
+    reply: SmtpReply,
+    expected: number[],
+    step: string,
+  ): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new ExternalServiceError(
+        `SMTP server rejected ${step}: ${reply.code} ${reply.lines.join(' ')}`,
+        { host: this.options.host, code: reply.code },
+      );
+    }
+    return reply;
+  }
+
+  /** @returns Extensions the server advertises, upper-cased */
+  private async hello(): Promise<string[]> {
+    const reply = await this.command(
+      `EHLO ${this.options.clientName ?? 'localhost'}`,
+      [250],
+    );
+    return reply.lines.slice(1).map(line => line.split(' ')[0].toUpperCase());
+  }
+
+  private build(message: MailMessage): string {
+    const domain = this.address(message.from).split('@')[1] || 'localhost';
+    const body = Buffer.from(message.text, 'utf8')
+      .toString('base64')
+      .replace(/.{1,76}/g, '$&\r\n')
+      .trimEnd();
+
+    return [
+      `From: ${this.header(message.from)}`,
+      `To: ${message.to.map(recipient => this.header(recipient)).join(', ')}`,
+      `Subject: ${this.encodeHeader(this.header(message.subject))}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n');
+  }
+
+  /** Lines starting with a dot get a second one so they don't end DATA */
+  private dotStuff(data: string): string {
+    return data.replace(/^\./gm, '..');
+  }
+
+  /** Line breaks in header values would let them inject further headers */
+  private header(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ').trim();
+  }
+
+  private address(value: string): string {
+    const match = /<([^>]+)>/.exec(value);
+    return this.header(match ? match[1] : value);
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { NotificationsConfig } from '../../../config/notifications.config';
+import { ValidationError } from '../../../shared/errors';
+import { assertPublicUrl, PUBLIC_AGENTS } from '../utils/public-network.utils';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDestinationConfig,
+} from '../interfaces/notification.interface';
+
+export const SIGNATURE_HEADER = 'X-Notification-Signature';
+export const TIMESTAMP_HEADER = 'X-Notification-Timestamp';
+export const EVENT_HEADER = 'X-Notification-Event';
+
+/**
+ * Signature of a webhook body: an HMAC-SHA256 over the timestamp header and
+ * the raw body joined by a dot. Receivers recompute it to verify the sender
+ * and reject stale timestamps to prevent replays.
+ * @param secret - Destination secret
+ * @param timestamp - Value of the timestamp header, in Unix seconds
+ * @param body - Raw request body
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Posts the notification as signed JSON to an arbitrary HTTP endpoint
+ */
+@Injectable()
+export class WebhookChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.WEBHOOK;
+  private readonly timeoutMs: number;
+  private readonly allowPrivateNetworks: boolean;
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    const config = configService.get<NotificationsConfig>('notifications');
+    this.timeoutMs = config?.timeoutMs ?? 10000;
+    this.allowPrivateNetworks = config?.allowPrivateNetworks ?? false;
+  }
+
+  async send(
+    config: NotificationDestinationConfig,
+    notification: Notification,
+  ): Promise<void> {
+    if (!config.url || !config.secret) {
+      throw new ValidationError('Webhook destination needs a url and secret');
+    }
+
+    const body = JSON.stringify({
+      event: notification.event,
+      brandId: notification.brandId,
+      subject: notification.subject,
+      text: notification.text,
+      data: notification.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    if (!this.allowPrivateNetworks) {
+      await assertPublicUrl(config.url);
+    }
+
+    await firstValueFrom(
+      this.httpService.post(config.url, body, {
+        timeout: this.timeoutMs,
+        // A redirect could lead to a private address
+        maxRedirects: 0,
+        ...(this.allowPrivateNetworks ? {} : PUBLIC_AGENTS),
+        headers: {
+          'Content-Type': 'application/json',
+          [EVENT_HEADER]: notification.event,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhookPayload(
+            config.secret,
+            timestamp,
+            body,
+          ),
+        },
+      }),
+    );
+  }
+}
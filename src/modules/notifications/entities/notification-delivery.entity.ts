@@ -0,0 +1,50 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { NotificationDestinationEntity } from './notification-destination.entity';
+import {
+  DeliveryStatus,
+  NotificationChannelType,
+} from '../interfaces/notification.interface';
+
+/**
+ * Log entry for one notification sent to one destination
+ */
+@Entity('notification_deliveries')
+@Index('IDX_notification_deliveries_brand_created', ['brandId', 'createdAt'])
+export class NotificationDeliveryEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_notification_deliveries_destination')
+  destinationId: string;
+
+  @ManyToOne(() => NotificationDestinationEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'destinationId',
+    foreignKeyConstraintName: 'FK_notification_deliveries_destination',
+  })
+  destination?: NotificationDestinationEntity;
+
+  @Column('uuid')
+  brandId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: NotificationChannelType;
+
+  @Column({ length: 100 })
+  event: string;
+
+  @Column({ length: 255 })
+  subject: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: DeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /** Error of the most recent failed attempt */
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+}
@@ -0,0 +1,37 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '../../../shared/classes/base.entity';
+import { BrandEntity } from '../../brands/entities/brand.entity';
+import {
+  NotificationChannelType,
+  NotificationDestinationConfig,
+} from '../interfaces/notification.interface';
+
+/**
+ * Somewhere a brand's notifications are delivered to, e.g. a webhook URL or
+ * a list of email recipients
+ */
+@Entity('notification_destinations')
+export class NotificationDestinationEntity extends BaseEntity {
+  @Column('uuid')
+  @Index('IDX_notification_destinations_brand')
+  brandId: string;
+
+  @ManyToOne(() => BrandEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'brandId',
+    foreignKeyConstraintName: 'FK_notification_destinations_brand',
+  })
+  brand?: BrandEntity;
+
+  @Column({ length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: NotificationChannelType;
+
+  @Column({ type: 'jsonb' })
+  config: NotificationDestinationConfig;
+
+  @Column({ default: true })
+  enabled: boolean;
+}
@@ -0,0 +1,140 @@
+import { Resolver, Query, Mutation, Args, ID, Int } from '@nestjs/graphql';
+import { UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../../auth/guards/permissions.guard';
+import { Permissions } from '../../../auth/decorators/permissions.decorator';
+import { Permission } from '../../../auth/enums/permission.enum';
+import { BrandService } from '../../brands/services/brand.service';
+import { NotificationDestinationService } from '../services/notification-destination.service';
+import { NotificationService } from '../services/notification.service';
+import { NotificationDestinationEntity } from '../entities/notification-destination.entity';
+import { NotificationDeliveryEntity } from '../entities/notification-delivery.entity';
+import { DeliveryStatus } from '../interfaces/notification.interface';
+import {
+  CreateNotificationDestinationInput,
+  NotificationDelivery,
+  NotificationDestination,
+  UpdateNotificationDestinationInput,
+} from './notification.types';
+
+@Resolver(() => NotificationDestination)
+export class NotificationResolver {
+  constructor(
+    private readonly destinationService: NotificationDestinationService,
+    private readonly notificationService: NotificationService,
+    private readonly brandService: BrandService,
+  ) {}
+
+  @Query(() => [NotificationDestination])
+  @UseGuards(JwtAuthGuard)
+  async notificationDestinations(
+    @Args('brandId', { type: () => ID }) brandId: string,
+  ): Promise<NotificationDestination[]> {
+    await this.brandService.assertExists(brandId);
+    const destinations = await this.destinationService.findByBrand(brandId);
+    return destinations.map(destination => this.toDestination(destination));
+  }
+
+  @Query(() => [NotificationDelivery])
+  @UseGuards(JwtAuthGuard)
+  async notificationDeliveries(
+    @Args('brandId', { type: () => ID }) brandId: string,
+    @Args('destinationId', { type: () => ID, nullable: true })
+    destinationId?: string,
+    @Args('status', { type: () => DeliveryStatus, nullable: true })
+    status?: DeliveryStatus,
+    @Args('limit', {
+      type: () => Int,
+      defaultValue: 50,
+      description: 'At most 500; 50 by default',
+    })
+    limit?: number,
+  ): Promise<NotificationDelivery[]> {
+    await this.brandService.assertExists(brandId);
+    const deliveries = await this.notificationService.findDeliveries(brandId, {
+      destinationId,
+      status,
+      limit,
+    });
+    return deliveries.map(delivery => this.toDelivery(delivery));
+  }
+
+  @Mutation(() => NotificationDestination)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async createNotificationDestination(
+    @Args('input') input: CreateNotificationDestinationInput,
+  ): Promise<NotificationDestination> {
+    return this.toDestination(
+      await this.destinationService.createDestination(input),
+    );
+  }
+
+  @Mutation(() => NotificationDestination)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async updateNotificationDestination(
+    @Args('id', { type: () => ID }) id: string,
+    @Args('input') input: UpdateNotificationDestinationInput,
+  ): Promise<NotificationDestination> {
+    return this.toDestination(
+      await this.destinationService.updateDestination(id, input),
+    );
+  }
+
+  @Mutation(() => Boolean)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async deleteNotificationDestination(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<boolean> {
+    await this.destinationService.findDestination(id);
+    await this.destinationService.softDelete(id);
+    return true;
+  }
+
+  @Mutation(() => NotificationDelivery, {
+    description: 'Send a test message to a destination to check its setup',
+  })
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions(Permission.MANAGE_ANALYTICS)
+  async testNotificationDestination(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<NotificationDelivery> {
+    const destination = await this.destinationService.findDestination(id);
+    const delivery = await this.notificationService.deliver(destination, {
+      event: 'notification.test',
+      brandId: destination.brandId,
+      subject: `Test notification for ${destination.name}`,
+      text: 'This destination is set up to receive notifications.',
+      payload: { destinationId: destination.id },
+    });
+    return this.toDelivery(delivery);
+  }
+
+  private toDestination(
+    destination: NotificationDestinationEntity,
+  ): NotificationDestination {
+    return {
+      id: destination.id,
+      brandId: destination.brandId,
+      name: destination.name,
+      channel: destination.channel,
+      url: destination.config.url,
+      recipients: destination.config.recipients,
+      hasSecret: Boolean(destination.config.secret),
+      enabled: destination.enabled,
+      createdAt: destination.createdAt,
+    };
+  }
+
+  private toDelivery(
+    delivery: NotificationDeliveryEntity,
+  ): NotificationDelivery {
+    return {
+      ...delivery,
+      lastError: delivery.lastError ?? undefined,
+      deliveredAt: delivery.deliveredAt ?? undefined,
+    };
+  }
+}
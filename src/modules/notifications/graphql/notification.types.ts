@@ -0,0 +1,121 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Int,
+  InputType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  DeliveryStatus,
+  NotificationChannelType,
+} from '../interfaces/notification.interface';
+
+registerEnumType(NotificationChannelType, { name: 'NotificationChannel' });
+registerEnumType(DeliveryStatus, { name: 'NotificationDeliveryStatus' });
+
+@ObjectType()
+export class NotificationDestination {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @Field({ nullable: true })
+  url?: string;
+
+  @Field(() => [String], { nullable: true })
+  recipients?: string[];
+
+  /** The secret itself is write-only */
+  @Field()
+  hasSecret: boolean;
+
+  @Field()
+  enabled: boolean;
+
+  @Field()
+  createdAt: Date;
+}
+
+@ObjectType()
+export class NotificationDelivery {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  destinationId: string;
+
+  @Field(() => NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @Field()
+  event: string;
+
+  @Field()
+  subject: string;
+
+  @Field(() => DeliveryStatus)
+  status: DeliveryStatus;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field({ nullable: true })
+  lastError?: string;
+
+  @Field({ nullable: true })
+  deliveredAt?: Date;
+
+  @Field()
+  createdAt: Date;
+}
+
+@InputType()
+export class NotificationDestinationConfigInput {
+  @Field({ nullable: true })
+  url?: string;
+
+  @Field({ nullable: true })
+  secret?: string;
+
+  @Field(() => [String], { nullable: true })
+  recipients?: string[];
+}
+
+@InputType()
+export class CreateNotificationDestinationInput {
+  @Field()
+  brandId: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @Field(() => NotificationDestinationConfigInput)
+  config: NotificationDestinationConfigInput;
+
+  @Field({ nullable: true })
+  enabled?: boolean;
+}
+
+@InputType()
+export class UpdateNotificationDestinationInput {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field(() => NotificationDestinationConfigInput, { nullable: true })
+  config?: NotificationDestinationConfigInput;
+
+  @Field({ nullable: true })
+  enabled?: boolean;
+}
@@ -0,0 +1,76 @@
+/**
+ * Ways a notification can be delivered
+ */
+export enum NotificationChannelType {
+  WEBHOOK = 'webhook',
+  EMAIL = 'email',
+  SLACK = 'slack',
+}
+
+/**
+ * Outcome of delivering a notification to one destination
+ */
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+/**
+ * A message to deliver, independent of the channel carrying it
+ */
+export interface Notification {
+  /** Event that caused the notification, e.g. "alert.triggered" */
+  event: string;
+  brandId: string;
+
+  /** One-line summary, used as email subject and Slack headline */
+  subject: string;
+
+  /** Plain-text body */
+  text: string;
+
+  /** Structured event data, sent as-is to webhooks */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Channel-specific settings of a destination
+ */
+export interface NotificationDestinationConfig {
+  /** Target URL of webhook and Slack destinations */
+  url?: string;
+
+  /** Shared secret webhook payloads are signed with */
+  secret?: string;
+
+  /** Email addresses of email destinations */
+  recipients?: string[];
+}
+
+/**
+ * A transport notifications can be sent over. Implementations throw when the
+ * receiving end does not accept the message, so that the delivery is retried.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+
+  send(
+    config: NotificationDestinationConfig,
+    notification: Notification,
+  ): Promise<void>;
+}
+
+export interface CreateNotificationDestination {
+  brandId: string;
+  name: string;
+  channel: NotificationChannelType;
+  config: NotificationDestinationConfig;
+  enabled?: boolean;
+}
+
+export interface UpdateNotificationDestination {
+  name?: string;
+  config?: NotificationDestinationConfig;
+  enabled?: boolean;
+}
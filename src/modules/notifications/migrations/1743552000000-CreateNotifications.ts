@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateNotifications1743552000000 implements MigrationInterface {
+  name = 'CreateNotifications1743552000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "notification_destinations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "brandId" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "channel" character varying(20) NOT NULL,
+        "config" jsonb NOT NULL,
+        "enabled" boolean NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_notification_destinations" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_notification_destinations_brand" FOREIGN KEY ("brandId")
+          REFERENCES "brands" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_destinations_brand"
+        ON "notification_destinations" ("brandId")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "notification_deliveries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "destinationId" uuid NOT NULL,
+        "brandId" uuid NOT NULL,
+        "channel" character varying(20) NOT NULL,
+        "event" character varying(100) NOT NULL,
+        "subject" character varying(255) NOT NULL,
+        "status" character varying(20) NOT NULL,
+        "attempts" integer NOT NULL DEFAULT 0,
+        "lastError" text,
+        "deliveredAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "deletedAt" TIMESTAMP,
+        CONSTRAINT "PK_notification_deliveries" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_notification_deliveries_destination" FOREIGN KEY ("destinationId")
+          REFERENCES "notification_destinations" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_deliveries_destination"
+        ON "notification_deliveries" ("destinationId")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_notification_deliveries_brand_created"
+        ON "notification_deliveries" ("brandId", "createdAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_notification_deliveries_brand_created"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_notification_deliveries_destination"`,
+    );
+    await queryRunner.query(`DROP TABLE "notification_deliveries"`);
+    await queryRunner.query(`DROP INDEX "IDX_notification_destinations_brand"`);
+    await queryRunner.query(`DROP TABLE "notification_destinations"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../../auth/auth.module';
+import { BrandsModule } from '../brands/brands.module';
+import { NotificationDestinationEntity } from './entities/notification-destination.entity';
+import { NotificationDeliveryEntity } from './entities/notification-delivery.entity';
+import { WebhookChannel } from './channels/webhook.channel';
+import { EmailChannel } from './channels/email.channel';
+import { SlackChannel } from './channels/slack.channel';
+import { NotificationChannelRegistry } from './services/notification-channel.registry';
+import { NotificationDestinationService } from './services/notification-destination.service';
+import { NotificationService } from './services/notification.service';
+import { NotificationResolver } from './graphql/notification.resolver';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      NotificationDestinationEntity,
+      NotificationDeliveryEntity,
+    ]),
+    HttpModule,
+    AuthModule,
+    BrandsModule,
+  ],
+  providers: [
+    WebhookChannel,
+    EmailChannel,
+    SlackChannel,
+    NotificationChannelRegistry,
+    NotificationDestinationService,
+    NotificationService,
+    NotificationResolver,
+  ],
+  exports: [
+    NotificationChannelRegistry,
+    NotificationDestinationService,
+    NotificationService,
+  ],
+})
+export class NotificationsModule {}
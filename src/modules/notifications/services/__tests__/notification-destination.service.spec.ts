@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as dns } from 'dns';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotificationDestinationService } from '../notification-destination.service';
+import { NotificationDestinationEntity } from '../../entities/notification-destination.entity';
+import { NotificationChannelType } from '../../interfaces/notification.interface';
+import { BrandService } from '../../../brands/services/brand.service';
+import { NotFoundError, ValidationError } from '../../../../shared/errors';
+
+describe('NotificationDestinationService', () => {
+  let service: NotificationDestinationService;
+  let repository: { create: jest.Mock; save: jest.Mock; findOne: jest.Mock };
+  let brandService: { assertExists: jest.Mock };
+  let lookup: jest.SpyInstance;
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  const secret = 'a-shared-secret-value';
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async entity => entity),
+      findOne: jest.fn(),
+    };
+    brandService = { assertExists: jest.fn().mockResolvedValue(undefined) };
+    lookup = jest
+      .spyOn(dns, 'lookup')
+      .mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as never);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDestinationService,
+        {
+          provide: getRepositoryToken(NotificationDestinationEntity),
+          useValue: repository,
+        },
+        { provide: BrandService, useValue: brandService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => ({ allowPrivateNetworks: false })) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationDestinationService>(
+      NotificationDestinationService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createDestination', () => {
+    it('should create a webhook destination', async () => {
+      const destination = await service.createDestination({
+        brandId,
+        name: ' Ops webhook ',
+        channel: NotificationChannelType.WEBHOOK,
+        config: { url: ' https://hooks.example.com/alerts ', secret },
+      });
+
+      expect(brandService.assertExists).toHaveBeenCalledWith(brandId);
+      expect(destination).toMatchObject({
+        name: 'Ops webhook',
+        config: { url: 'https://hooks.example.com/alerts', secret },
+        enabled: true,
+      });
+    });
+
+    it('should normalize email recipients', async () => {
+      const destination = await service.createDestination({
+        brandId,
+        name: 'Marketing',
+        channel: NotificationChannelType.EMAIL,
+        config: { recipients: ['CMO@example.com ', 'cmo@example.com', ''] },
+      });
+
+      expect(destination.config).toEqual({ recipients: ['cmo@example.com'] });
+    });
+
+    it('should reject configs that do not suit the channel', async () => {
+      await expect(
+        service.createDestination({
+          brandId,
+          name: 'Ops webhook',
+          channel: NotificationChannelType.WEBHOOK,
+          config: { url: 'ftp://example.com', secret: 'short' },
+        }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.createDestination({
+          brandId,
+          name: 'Marketing',
+          channel: NotificationChannelType.EMAIL,
+          config: { recipients: ['not-an-address'] },
+        }),
+      ).rejects.toThrow(ValidationError);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject plain http URLs', async () => {
+      await expect(
+        service.createDestination({
+          brandId,
+          name: 'Slack',
+          channel: NotificationChannelType.SLACK,
+          config: { url: 'http://hooks.slack.com/services/T000' },
+        }),
+      ).rejects.toThrow('url must be an https URL');
+    });
+
+    it('should reject URLs of loopback, link-local and private addresses', async () => {
+      for (const url of [
+        'https://127.0.0.1/hook',
+        'https://169.254.169.254/latest/meta-data',
+        'https://[::ffff:10.0.0.1]/hook',
+      ]) {
+        await expect(
+          service.createDestination({
+            brandId,
+            name: 'Ops webhook',
+            channel: NotificationChannelType.WEBHOOK,
+            config: { url, secret },
+          }),
+        ).rejects.toThrow(ValidationError);
+      }
+
+      lookup.mockResolvedValueOnce([
+        { address: '93.184.215.14', family: 4 },
+        { address: '192.168.1.20', family: 4 },
+      ]);
+      await expect(
+        service.createDestination({
+          brandId,
+          name: 'Ops webhook',
+          channel: NotificationChannelType.WEBHOOK,
+          config: { url: 'https://intranet.example.com/hook', secret },
+        }),
+      ).rejects.toThrow('resolves to the non-public address 192.168.1.20');
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateDestination', () => {
+    it('should keep the stored secret when none is given', async () => {
+      repository.findOne.mockResolvedValue({
+        id: 'destination-1',
+        brandId,
+        name: 'Ops webhook',
+        channel: NotificationChannelType.WEBHOOK,
+        config: { url: 'https://hooks.example.com/alerts', secret },
+        enabled: true,
+      });
+
+      const destination = await service.updateDestination('destination-1', {
+        config: { url: 'https://hooks.example.com/v2' },
+      });
+
+      expect(destination.config).toEqual({
+        url: 'https://hooks.example.com/v2',
+        secret,
+      });
+    });
+
+    it('should throw NotFoundError for a missing destination', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateDestination('missing', { enabled: false }),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AxiosError, AxiosResponse } from 'axios';
+import { NotificationService } from '../notification.service';
+import { NotificationDestinationService } from '../notification-destination.service';
+import { NotificationChannelRegistry } from '../notification-channel.registry';
+import { NotificationDeliveryEntity } from '../../entities/notification-delivery.entity';
+import { NotificationDestinationEntity } from '../../entities/notification-destination.entity';
+import {
+  DeliveryStatus,
+  Notification,
+  NotificationChannelType,
+} from '../../interfaces/notification.interface';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let deliveryRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+  };
+  let destinationService: { findEnabledByBrand: jest.Mock };
+  let channel: { type: NotificationChannelType; send: jest.Mock };
+  let savedStatuses: DeliveryStatus[];
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+  const notification: Notification = {
+    event: 'alert.triggered',
+    brandId,
+    subject: 'Alert: Sentiment drop',
+    text: 'Sentiment changed by -0.3',
+    payload: { id: 'alert-1' },
+  };
+
+  const destination = (
+    overrides: Partial<NotificationDestinationEntity> = {},
+  ): NotificationDestinationEntity =>
+    ({
+      id: 'destination-1',
+      brandId,
+      name: 'Ops webhook',
+      channel: NotificationChannelType.WEBHOOK,
+      config: { url: 'http://127.0.0.1/hook', secret: 'a-shared-secret' },
+      enabled: true,
+      ...overrides,
+    }) as NotificationDestinationEntity;
+
+  const httpError = (status: number): AxiosError =>
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      'ERR_BAD_RESPONSE',
+      undefined,
+      undefined,
+      { status } as AxiosResponse,
+    );
+
+  beforeEach(async () => {
+    savedStatuses = [];
+    deliveryRepository = {
+      create: jest.fn(data => ({ id: 'delivery-1', ...data })),
+      save: jest.fn(async entity => {
+        savedStatuses.push(entity.status);
+        return entity;
+      }),
+      find: jest.fn().mockResolvedValue([]),
+    };
+    destinationService = { findEnabledByBrand: jest.fn() };
+    channel = {
+      type: NotificationChannelType.WEBHOOK,
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        {
+          provide: getRepositoryToken(NotificationDeliveryEntity),
+          useValue: deliveryRepository,
+        },
+        {
+          provide: NotificationDestinationService,
+          useValue: destinationService,
+        },
+        {
+          provide: NotificationChannelRegistry,
+          useValue: { get: jest.fn(() => channel) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: () => ({
+              retry: { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 2 },
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+  });
+
+  it('should log a delivery to every enabled destination', async () => {
+    destinationService.findEnabledByBrand.mockResolvedValue([
+      destination(),
+      destination({ id: 'destination-2' }),
+    ]);
+
+    const deliveries = await service.notify(notification);
+
+    expect(destinationService.findEnabledByBrand).toHaveBeenCalledWith(brandId);
+    expect(channel.send).toHaveBeenCalledTimes(2);
+    expect(channel.send).toHaveBeenCalledWith(
+      destination().config,
+      notification,
+    );
+    expect(deliveries).toEqual([
+      expect.objectContaining({
+        destinationId: 'destination-1',
+        status: DeliveryStatus.DELIVERED,
+        attempts: 1,
+        deliveredAt: expect.any(Date),
+      }),
+      expect.objectContaining({ destinationId: 'destination-2' }),
+    ]);
+  });
+
+  it('should retry a failed attempt and record each one', async () => {
+    channel.send
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValueOnce(undefined);
+
+    const delivery = await service.deliver(destination(), notification);
+
+    expect(channel.send).toHaveBeenCalledTimes(2);
+    expect(delivery).toMatchObject({
+      status: DeliveryStatus.DELIVERED,
+      attempts: 2,
+      lastError: 'connect ECONNREFUSED',
+    });
+    expect(savedStatuses).toEqual([
+      DeliveryStatus.PENDING,
+      DeliveryStatus.PENDING,
+      DeliveryStatus.DELIVERED,
+    ]);
+  });
+
+  it('should give up after the last attempt', async () => {
+    channel.send.mockRejectedValue(httpError(503));
+
+    const delivery = await service.deliver(destination(), notification);
+
+    expect(channel.send).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({
+      status: DeliveryStatus.FAILED,
+      attempts: 3,
+      lastError: 'HTTP 503: Request failed with status code 503',
+      deliveredAt: null,
+    });
+  });
+
+  it('should not retry errors that would repeat', async () => {
+    channel.send.mockRejectedValueOnce(httpError(404));
+    await expect(
+      service.deliver(destination(), notification),
+    ).resolves.toMatchObject({ status: DeliveryStatus.FAILED, attempts: 1 });
+
+    channel.send.mockRejectedValueOnce(new ValidationError('missing secret'));
+    await expect(
+      service.deliver(destination(), notification),
+    ).resolves.toMatchObject({ status: DeliveryStatus.FAILED, attempts: 1 });
+  });
+
+  it('should retry rate-limited deliveries', async () => {
+    channel.send
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce(undefined);
+
+    const delivery = await service.deliver(destination(), notification);
+
+    expect(delivery).toMatchObject({
+      status: DeliveryStatus.DELIVERED,
+      attempts: 2,
+    });
+  });
+
+  it('should list at most 500 deliveries at once', async () => {
+    await service.findDeliveries(brandId, { limit: 500 });
+    expect(deliveryRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 500 }),
+    );
+
+    await expect(
+      service.findDeliveries(brandId, { limit: 501 }),
+    ).rejects.toThrow(ValidationError);
+    await expect(service.findDeliveries(brandId, { limit: 0 })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
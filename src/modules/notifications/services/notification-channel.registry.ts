@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { NotFoundError } from '../../../shared/errors';
+import { WebhookChannel } from '../channels/webhook.channel';
+import { EmailChannel } from '../channels/email.channel';
+import { SlackChannel } from '../channels/slack.channel';
+import {
+  NotificationChannel,
+  NotificationChannelType,
+} from '../interfaces/notification.interface';
+
+/**
+ * Holds one channel implementation per channel type. The built-in channels
+ * are registered up front; others can be added or swapped with `register`.
+ */
+@Injectable()
+export class NotificationChannelRegistry {
+  private readonly channels = new Map<
+    NotificationChannelType,
+    NotificationChannel
+  >();
+
+  constructor(
+    webhook: WebhookChannel,
+    email: EmailChannel,
+    slack: SlackChannel,
+  ) {
+    [webhook, email, slack].forEach(channel => this.register(channel));
+  }
+
+  /**
+   * Registers a channel, replacing any existing one of the same type
+   */
+  register(channel: NotificationChannel): void {
+    this.channels.set(channel.type, channel);
+  }
+
+  /**
+   * @throws NotFoundError if no channel is registered for the type
+   */
+  get(type: NotificationChannelType): NotificationChannel {
+    const channel = this.channels.get(type);
+    if (!channel) {
+      throw new NotFoundError(
+        `No notification channel registered for ${type}`,
+        { channel: type },
+      );
+    }
+    return channel;
+  }
+}
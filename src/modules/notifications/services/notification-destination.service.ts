@@ -0,0 +1,213 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotificationsConfig } from '../../../config/notifications.config';
+import { BaseService } from '../../../shared/classes/base.service';
+import { NotFoundError, ValidationError } from '../../../shared/errors';
+import { BrandService } from '../../brands/services/brand.service';
+import { NotificationDestinationEntity } from '../entities/notification-destination.entity';
+import {
+  CreateNotificationDestination,
+  NotificationChannelType,
+  NotificationDestinationConfig,
+  UpdateNotificationDestination,
+} from '../interfaces/notification.interface';
+import { assertPublicUrl } from '../utils/public-network.utils';
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * CRUD service for the places a brand's notifications are delivered to
+ */
+@Injectable()
+export class NotificationDestinationService extends BaseService<NotificationDestinationEntity> {
+  private readonly allowPrivateNetworks: boolean;
+
+  constructor(
+    @InjectRepository(NotificationDestinationEntity)
+    repository: Repository<NotificationDestinationEntity>,
+    private readonly brandService: BrandService,
+    configService: ConfigService,
+  ) {
+    super(repository);
+    this.allowPrivateNetworks =
+      configService.get<NotificationsConfig>('notifications')
+        ?.allowPrivateNetworks ?? false;
+  }
+
+  /**
+   * Create a destination
+   * @param data - Destination data
+   * @throws {NotFoundError} When the brand does not exist
+   * @throws {ValidationError} When the config does not suit the channel, or
+   * its URL points at a loopback, link-local or private address
+   */
+  async createDestination(
+    data: CreateNotificationDestination,
+  ): Promise<NotificationDestinationEntity> {
+    await this.brandService.assertExists(data.brandId);
+
+    const destination = this.repository.create({
+      brandId: data.brandId,
+      name: data.name.trim(),
+      channel: data.channel,
+      config: this.normalizeConfig(data.config),
+      enabled: data.enabled ?? true,
+    });
+    this.validateDestination(destination);
+    await this.assertPublicDestination(destination);
+
+    return this.repository.save(destination);
+  }
+
+  /**
+   * Update a destination. A config replaces the stored one, except that an
+   * omitted webhook secret keeps the current secret.
+   * @param id - Destination ID
+   * @param data - Fields to update
+   * @throws {NotFoundError} When the destination does not exist
+   * @throws {ValidationError} When the config does not suit the channel, or
+   * its URL points at a loopback, link-local or private address
+   */
+  async updateDestination(
+    id: string,
+    data: UpdateNotificationDestination,
+  ): Promise<NotificationDestinationEntity> {
+    const destination = await this.findDestination(id);
+
+    if (data.name !== undefined) destination.name = data.name.trim();
+    if (data.config !== undefined) {
+      destination.config = this.normalizeConfig({
+        ...data.config,
+        secret: data.config.secret ?? destination.config.secret,
+      });
+    }
+    if (data.enabled !== undefined) destination.enabled = data.enabled;
+    this.validateDestination(destination);
+    if (data.config !== undefined) {
+      await this.assertPublicDestination(destination);
+    }
+
+    return this.repository.save(destination);
+  }
+
+  /**
+   * Destinations configured for a brand, by name
+   * @param brandId - Brand ID
+   */
+  async findByBrand(brandId: string): Promise<NotificationDestinationEntity[]> {
+    return this.findAll({ where: { brandId }, order: { name: 'ASC' } });
+  }
+
+  /**
+   * Destinations a brand's notifications are currently sent to
+   * @param brandId - Brand ID
+   */
+  async findEnabledByBrand(
+    brandId: string,
+  ): Promise<NotificationDestinationEntity[]> {
+    return this.findAll({
+      where: { brandId, enabled: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Find a destination
+   * @param id - Destination ID
+   * @throws {NotFoundError} When the destination does not exist
+   */
+  async findDestination(id: string): Promise<NotificationDestinationEntity> {
+    const destination = await this.repository.findOne({ where: { id } });
+    if (!destination) {
+      throw new NotFoundError(
+        `Notification destination with id ${id} not found`,
+        { destinationId: id },
+      );
+    }
+    return destination;
+  }
+
+  private normalizeConfig(
+    config: NotificationDestinationConfig,
+  ): NotificationDestinationConfig {
+    const normalized: NotificationDestinationConfig = {};
+    if (config.url?.trim()) normalized.url = config.url.trim();
+    if (config.secret) normalized.secret = config.secret;
+    if (config.recipients) {
+      normalized.recipients = [
+        ...new Set(
+          config.recipients
+            .map(recipient => recipient.trim().toLowerCase())
+            .filter(Boolean),
+        ),
+      ];
+    }
+    return normalized;
+  }
+
+  private validateDestination(
+    destination: NotificationDestinationEntity,
+  ): void {
+    const { channel, config } = destination;
+    const invalid: string[] = [];
+    if (!destination.name) invalid.push('name must not be empty');
+
+    switch (channel) {
+      case NotificationChannelType.WEBHOOK:
+        if (!this.isHttpsUrl(config.url)) {
+          invalid.push('url must be an https URL');
+        }
+        if (!config.secret || config.secret.length < 16) {
+          invalid.push('secret must be at least 16 characters');
+        }
+        break;
+      case NotificationChannelType.SLACK:
+        if (!this.isHttpsUrl(config.url)) {
+          invalid.push('url must be an https URL');
+        }
+        break;
+      case NotificationChannelType.EMAIL:
+        if (!config.recipients?.length) {
+          invalid.push('recipients must not be empty');
+        }
+        config.recipients
+          ?.filter(recipient => !EMAIL_PATTERN.test(recipient))
+          .forEach(recipient =>
+            invalid.push(`${recipient} is not an email address`),
+          );
+        break;
+    }
+
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `Invalid notification destination: ${invalid.join(', ')}`,
+        { brandId: destination.brandId, channel, invalid },
+      );
+    }
+  }
+
+  /**
+   * Webhooks are posted from the server, so they must not reach its own
+   * network
+   */
+  private async assertPublicDestination(
+    destination: NotificationDestinationEntity,
+  ): Promise<void> {
+    if (destination.config.url && !this.allowPrivateNetworks) {
+      await assertPublicUrl(destination.config.url);
+    }
+  }
+
+  private isHttpsUrl(value?: string): boolean {
+    if (!value) {
+      return false;
+    }
+    try {
+      return new URL(value).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
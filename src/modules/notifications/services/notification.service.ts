@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isAxiosError } from 'axios';
+import { Repository } from 'typeorm';
+import { NotificationsConfig } from '../../../config/notifications.config';
+import { ValidationError } from '../../../shared/errors';
+import { NotificationDestinationEntity } from '../entities/notification-destination.entity';
+import { NotificationDeliveryEntity } from '../entities/notification-delivery.entity';
+import { NotificationDestinationService } from './notification-destination.service';
+import { NotificationChannelRegistry } from './notification-channel.registry';
+import {
+  DeliveryStatus,
+  Notification,
+} from '../interfaces/notification.interface';
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+/** Most deliveries one listing returns */
+const MAX_DELIVERY_LIMIT = 500;
+
+/**
+ * Sends notifications to every enabled destination of a brand, retrying
+ * failed attempts with exponential backoff and logging each delivery
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+  private readonly retry: NotificationsConfig['retry'];
+
+  constructor(
+    @InjectRepository(NotificationDeliveryEntity)
+    private readonly deliveryRepository: Repository<NotificationDeliveryEntity>,
+    private readonly destinationService: NotificationDestinationService,
+    private readonly channelRegistry: NotificationChannelRegistry,
+    configService: ConfigService,
+  ) {
+    this.retry = configService.get<NotificationsConfig>('notifications')
+      ?.retry ?? { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30000 };
+  }
+
+  /**
+   * Deliver a notification to all enabled destinations of its brand. Failed
+   * deliveries are recorded in the delivery log rather than thrown.
+   * @param notification - Notification to send
+   * @returns One delivery record per destination
+   */
+  async notify(
+    notification: Notification,
+  ): Promise<NotificationDeliveryEntity[]> {
+    const destinations = await this.destinationService.findEnabledByBrand(
+      notification.brandId,
+    );
+    return Promise.all(
+      destinations.map(destination => this.deliver(destination, notification)),
+    );
+  }
+
+  /**
+   * Deliver a notification to one destination
+   * @param destination - Destination to send to
+   * @param notification - Notification to send
+   * @returns The delivery record, delivered or failed
+   */
+  async deliver(
+    destination: NotificationDestinationEntity,
+    notification: Notification,
+  ): Promise<NotificationDeliveryEntity> {
+    const delivery = await this.deliveryRepository.save(
+      this.deliveryRepository.create({
+        destinationId: destination.id,
+        brandId: destination.brandId,
+        channel: destination.channel,
+        event: notification.event,
+        subject: notification.subject.slice(0, 255),
+        status: DeliveryStatus.PENDING,
+        attempts: 0,
+        lastError: null,
+        deliveredAt: null,
+      }),
+    );
+
+    for (;;) {
+      delivery.attempts += 1;
+      try {
+        await this.channelRegistry
+          .get(destination.channel)
+          .send(destination.config, notification);
+        delivery.status = DeliveryStatus.DELIVERED;
+        delivery.deliveredAt = new Date();
+        return this.deliveryRepository.save(delivery);
+      } catch (error) {
+        delivery.lastError = this.describe(error);
+        if (
+          delivery.attempts >= this.retry.maxAttempts ||
+          !this.isRetryable(error)
+        ) {
+          delivery.status = DeliveryStatus.FAILED;
+          this.logger.warn(
+            `Giving up on ${destination.channel} delivery to destination ${destination.id} after ${delivery.attempts} attempt(s): ${delivery.lastError}`,
+          );
+          return this.deliveryRepository.save(delivery);
+        }
+        await this.deliveryRepository.save(delivery);
+        await this.sleep(this.backoff(delivery.attempts));
+      }
+    }
+  }
+
+  /**
+   * Recent deliveries of a brand's notifications, newest first
+   * @param brandId - Brand ID
+   * @param options - Limit to one destination or status, and how many to return
+   * @throws {ValidationError} When the limit is not between 1 and 500
+   */
+  async findDeliveries(
+    brandId: string,
+    options: {
+      destinationId?: string;
+      status?: DeliveryStatus;
+      limit?: number;
+    } = {},
+  ): Promise<NotificationDeliveryEntity[]> {
+    const limit = options.limit ?? DEFAULT_DELIVERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+      throw new ValidationError(
+        `limit must be between 1 and ${MAX_DELIVERY_LIMIT}`,
+        { limit },
+      );
+    }
+
+    return this.deliveryRepository.find({
+      where: {
+        brandId,
+        ...(options.destinationId && { destinationId: options.destinationId }),
+        ...(options.status && { status: options.status }),
+      },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /** Wait before the retry following the given attempt */
+  private backoff(attempt: number): number {
+    return Math.min(
+      this.retry.initialDelayMs * 2 ** (attempt - 1),
+      this.retry.maxDelayMs,
+    );
+  }
+
+  /**
+   * Invalid destinations and client errors other than timeouts and rate
+   * limits fail the same way on every attempt
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof ValidationError) {
+      return false;
+    }
+    const status = isAxiosError(error) ? error.response?.status : undefined;
+    if (status !== undefined && status >= 400 && status < 500) {
+      return status === 408 || status === 429;
+    }
+    return true;
+  }
+
+  private describe(error: unknown): string {
+    if (isAxiosError(error) && error.response) {
+      return `HTTP ${error.response.status}: ${error.message}`;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
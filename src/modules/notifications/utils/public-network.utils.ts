@@ -0,0 +1,116 @@
+import { lookup, LookupAddress, promises as dns } from 'dns';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { ValidationError } from '../../../shared/errors';
+
+/** Loopback, link-local, private and other non-routable ranges */
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is reachable on the public internet
+ * e.g. "93.184.215.14" is, "169.254.169.254" and "::ffff:10.0.0.1" are not
+ * @param address - IPv4 or IPv6 address
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return !NON_PUBLIC.check(address, 'ipv4');
+  }
+  if (family !== 6) {
+    return false;
+  }
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped
+    ? isPublicAddress(mapped[1])
+    : !NON_PUBLIC.check(address, 'ipv6');
+}
+
+/**
+ * DNS lookup for sockets that may only reach public addresses. Checking the
+ * addresses a connection actually uses stops hosts that resolve to a public
+ * address when a destination is saved and to a private one later.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      callback(
+        Object.assign(new Error(`${hostname} resolves to ${blocked.address}`), {
+          code: 'ENOTPUBLIC',
+        }),
+        '',
+        0,
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Agents for requests that may only reach public addresses */
+export const PUBLIC_AGENTS = {
+  httpAgent: new HttpAgent({ lookup: publicLookup }),
+  httpsAgent: new HttpsAgent({ lookup: publicLookup }),
+};
+
+/**
+ * Make sure a URL points at a host on the public internet
+ * @param url - URL to check
+ * @throws {ValidationError} When the host is an address or resolves to
+ * addresses that are loopback, link-local or private, or does not resolve
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: LookupAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await dns.lookup(hostname, { all: true });
+    } catch {
+      throw new ValidationError(`${hostname} does not resolve`, { url });
+    }
+  }
+
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new ValidationError(
+      `${hostname} resolves to the non-public address ${blocked.address}`,
+      { url },
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { RedisIoAdapter } from '../redis-io.adapter';
+
+describe('RedisIoAdapter', () => {
+  it('should keep the in-memory adapter when Redis is disabled', async () => {
+    const adapter = new RedisIoAdapter(null as never);
+
+    await expect(
+      adapter.connectToRedis({
+        host: 'localhost',
+        port: 6379,
+        ttl: 300,
+        max: 100,
+        isGlobal: true,
+      }),
+    ).resolves.toBe(false);
+
+    const server = adapter.createIOServer(0);
+    try {
+      expect(server.of('/analytics').adapter.constructor.name).toBe('Adapter');
+    } finally {
+      await adapter.close(server);
+      await adapter.dispose();
+    }
+  });
+});
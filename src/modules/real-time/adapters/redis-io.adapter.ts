@@ -0,0 +1,62 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { RedisClientType } from 'redis';
+import { Server, ServerOptions } from 'socket.io';
+import { RedisConfig } from '../../../config/redis.config';
+import { connectRedis } from '../../../cache/redis-connection';
+
+/**
+ * socket.io adapter that relays room broadcasts and socket lookups between
+ * instances through Redis. Until `connectToRedis` succeeds, servers use the
+ * default in-memory adapter and only reach their own clients.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter> | null = null;
+  private clients: RedisClientType[] = [];
+
+  constructor(app: INestApplicationContext) {
+    super(app);
+  }
+
+  /**
+   * Connect using the redis config. Returns whether the Redis adapter will
+   * be used.
+   * @param config - Redis config
+   */
+  async connectToRedis(config?: RedisConfig): Promise<boolean> {
+    const pubClient = await connectRedis(config, RedisIoAdapter.name);
+    if (!pubClient) {
+      return false;
+    }
+
+    const subClient = pubClient.duplicate();
+    try {
+      await subClient.connect();
+    } catch (error) {
+      this.logger.warn(
+        `Redis subscriber unavailable, falling back to in-memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      await Promise.allSettled([pubClient.quit(), subClient.disconnect()]);
+      return false;
+    }
+
+    this.clients = [pubClient, subClient];
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    return true;
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server: Server = super.createIOServer(port, options);
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+
+  async dispose(): Promise<void> {
+    await Promise.allSettled(this.clients.map(client => client.quit()));
+    this.clients = [];
+  }
+}
@@ -0,0 +1,325 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { WsException } from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { AnalyticsGateway } from '../analytics.gateway';
+import { JwtService } from '../../../../auth/services/jwt.service';
+import { BrandService } from '../../../brands/services/brand.service';
+import { AnalyticsEventStreamService } from '../../services/analytics-event-stream.service';
+import { BrandMention } from '../../../answer-engine/graphql/answer.types';
+import { AnalyticsEvent } from '../../interfaces/analytics-events.interface';
+
+describe('AnalyticsGateway', () => {
+  let gateway: AnalyticsGateway;
+  let jwtService: { verifyToken: jest.Mock };
+  let brandService: { canAccess: jest.Mock };
+  let server: { to: jest.Mock; in: jest.Mock; emit: jest.Mock };
+  let roomEmit: jest.Mock;
+
+  const brandId = '4f9f1a2e-4c4b-4a4e-9c1e-0d2c1b7a5e11';
+
+  const createClient = (
+    auth: Record<string, unknown> = { token: 'valid-token' },
+    headers: Record<string, string> = {},
+  ) =>
+    ({
+      id: 'client-1',
+      handshake: { auth, headers },
+      data: {},
+      join: jest.fn(),
+      leave: jest.fn(),
+      emit: jest.fn(),
+      disconnect: jest.fn(),
+    }) as unknown as Socket & {
+      join: jest.Mock;
+      emit: jest.Mock;
+      disconnect: jest.Mock;
+    };
+
+  beforeEach(async () => {
+    jwtService = {
+      verifyToken: jest.fn().mockResolvedValue({
+        sub: 'user-1',
+        email: 'analyst@example.com',
+        roles: ['USER'],
+        permissions: ['view:analytics'],
+        organizationId: 'org-1',
+      }),
+    };
+    brandService = { canAccess: jest.fn().mockResolvedValue(true) };
+    roomEmit = jest.fn();
+    server = {
+      to: jest.fn(() => ({ emit: roomEmit })),
+      in: jest.fn(),
+      emit: jest.fn(),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AnalyticsGateway,
+        { provide: JwtService, useValue: jwtService },
+        { provide: BrandService, useValue: brandService },
+        AnalyticsEventStreamService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    gateway = module.get<AnalyticsGateway>(AnalyticsGateway);
+    gateway.server = server as unknown as Server;
+  });
+
+  describe('handleConnection', () => {
+    it('should attach the user from the handshake token', async () => {
+      const client = createClient();
+
+      await gateway.handleConnection(client);
+
+      expect(jwtService.verifyToken).toHaveBeenCalledWith('valid-token');
+      expect(client.data.user).toEqual({
+        id: 'user-1',
+        email: 'analyst@example.com',
+        roles: ['USER'],
+        permissions: ['view:analytics'],
+        organizationId: 'org-1',
+      });
+      expect(client.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should accept a bearer Authorization header', async () => {
+      const client = createClient({}, { authorization: 'Bearer header-token' });
+
+      await gateway.handleConnection(client);
+
+      expect(jwtService.verifyToken).toHaveBeenCalledWith('header-token');
+    });
+
+    it('should disconnect clients without a valid token', async () => {
+      const anonymous = createClient({});
+      await gateway.handleConnection(anonymous);
+      expect(anonymous.disconnect).toHaveBeenCalledWith(true);
+
+      jwtService.verifyToken.mockRejectedValue(new Error('Invalid token'));
+      const forged = createClient({ token: 'forged' });
+      await gateway.handleConnection(forged);
+      expect(forged.disconnect).toHaveBeenCalledWith(true);
+      expect(forged.data.user).toBeUndefined();
+    });
+  });
+
+  describe('subscribeToAnalytics', () => {
+    it('should join the brand room after checking access', async () => {
+      const client = createClient();
+      await gateway.handleConnection(client);
+
+      await expect(
+        gateway.handleSubscribeToAnalytics(client, {
+          brandId,
+          metrics: ['visibilityScore'],
+        }),
+      ).resolves.toEqual({
+        brandId,
+        metrics: ['visibilityScore'],
+        sequence: 0,
+        truncated: false,
+      });
+
+      expect(brandService.canAccess).toHaveBeenCalledWith(
+        brandId,
+        client.data.user,
+      );
+      expect(client.join).toHaveBeenCalledWith(`analytics:${brandId}`);
+      expect(client.data.subscriptions).toEqual({
+        [brandId]: ['visibilityScore'],
+      });
+    });
+
+    it('should refuse brands the user cannot access', async () => {
+      brandService.canAccess.mockResolvedValue(false);
+      const client = createClient();
+      await gateway.handleConnection(client);
+
+      await expect(
+        gateway.handleSubscribeToAnalytics(client, { brandId }),
+      ).rejects.toThrow(WsException);
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unauthenticated sockets', async () => {
+      const client = createClient();
+
+      await expect(
+        gateway.handleSubscribeToAnalytics(client, { brandId }),
+      ).rejects.toThrow(WsException);
+      expect(brandService.canAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsubscribeFromAnalytics', () => {
+    it('should leave the room and drop the filter', async () => {
+      const client = createClient();
+      await gateway.handleConnection(client);
+      await gateway.handleSubscribeToAnalytics(client, { brandId });
+
+      await gateway.handleUnsubscribeFromAnalytics(client, { brandId });
+
+      expect(client.leave).toHaveBeenCalledWith(`analytics:${brandId}`);
+      expect(client.data.subscriptions).toEqual({});
+    });
+  });
+
+  describe('emitAnalyticsUpdate', () => {
+    it('should send each subscriber only the metrics it asked for', async () => {
+      const everything = createClient();
+      everything.data.subscriptions = { [brandId]: null };
+      const filtered = createClient();
+      filtered.data.subscriptions = { [brandId]: ['visibilityScore'] };
+      const unrelated = createClient();
+      unrelated.data.subscriptions = { [brandId]: ['sentiment'] };
+      server.in.mockReturnValue({
+        fetchSockets: jest
+          .fn()
+          .mockResolvedValue([everything, filtered, unrelated]),
+      });
+
+      await gateway.emitAnalyticsUpdate(brandId, {
+        visibilityScore: 0.7,
+        shareOfVoice: 42,
+      });
+
+      expect(server.in).toHaveBeenCalledWith(`analytics:${brandId}`);
+      expect(everything.emit).toHaveBeenCalledWith(
+        AnalyticsEvent.ANALYTICS_UPDATE,
+        {
+          brandId,
+          timestamp: expect.any(Date),
+          metrics: { visibilityScore: 0.7, shareOfVoice: 42 },
+          sequence: 1,
+        },
+      );
+      expect(filtered.emit).toHaveBeenCalledWith(
+        AnalyticsEvent.ANALYTICS_UPDATE,
+        expect.objectContaining({ metrics: { visibilityScore: 0.7 } }),
+      );
+      expect(unrelated.emit).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when sockets cannot be fetched', async () => {
+      server.in.mockReturnValue({
+        fetchSockets: jest.fn().mockRejectedValue(new Error('timeout')),
+      });
+
+      await expect(
+        gateway.emitAnalyticsUpdate(brandId, { visibilityScore: 0.7 }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('replay', () => {
+    const mention = { id: 'mention-1', brandId } as BrandMention;
+
+    beforeEach(() => {
+      server.in.mockReturnValue({
+        fetchSockets: jest.fn().mockResolvedValue([]),
+      });
+    });
+
+    it('should number mentions and updates per brand', async () => {
+      await gateway.emitMentionNew(brandId, mention);
+
+      expect(roomEmit).toHaveBeenCalledWith(AnalyticsEvent.MENTION_NEW, {
+        ...mention,
+        sequence: 1,
+      });
+    });
+
+    it('should send missed events in order before acknowledging', async () => {
+      await gateway.emitAnalyticsUpdate(brandId, { visibilityScore: 0.5 });
+      await gateway.emitMentionNew(brandId, mention);
+      await gateway.emitAnalyticsUpdate(brandId, {
+        visibilityScore: 0.6,
+        sentiment: 0.2,
+      });
+      await gateway.emitAnalyticsUpdate(brandId, { sentiment: 0.3 });
+      const client = createClient();
+      await gateway.handleConnection(client);
+
+      const ack = await gateway.handleSubscribeToAnalytics(client, {
+        brandId,
+        metrics: ['visibilityScore'],
+        sinceSequence: 1,
+      });
+
+      expect(ack).toEqual({
+        brandId,
+        metrics: ['visibilityScore'],
+        sequence: 4,
+        truncated: false,
+      });
+      expect(client.emit.mock.calls).toEqual([
+        [AnalyticsEvent.MENTION_NEW, { ...mention, sequence: 2 }],
+        [
+          AnalyticsEvent.ANALYTICS_UPDATE,
+          expect.objectContaining({
+            metrics: { visibilityScore: 0.6 },
+            sequence: 3,
+          }),
+        ],
+      ]);
+    });
+
+    it('should report when the stream no longer holds the missed events', async () => {
+      const streams = (
+        gateway as unknown as {
+          eventStream: AnalyticsEventStreamService;
+        }
+      ).eventStream;
+      jest.spyOn(streams, 'readSince').mockResolvedValue({
+        events: [],
+        sequence: 250,
+        truncated: true,
+      });
+      const client = createClient();
+      await gateway.handleConnection(client);
+
+      await expect(
+        gateway.handleSubscribeToAnalytics(client, {
+          brandId,
+          sinceSequence: 10,
+        }),
+      ).resolves.toEqual(
+        expect.objectContaining({ sequence: 250, truncated: true }),
+      );
+      expect(client.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('typed events', () => {
+    it('should emit brand events to the brand room', () => {
+      const triggeredAt = new Date();
+      gateway.emitCrawlerStatus({
+        brandId,
+        status: 'completed',
+        timestamp: triggeredAt,
+      });
+
+      expect(server.to).toHaveBeenCalledWith(`analytics:${brandId}`);
+      expect(roomEmit).toHaveBeenCalledWith(AnalyticsEvent.CRAWLER_STATUS, {
+        brandId,
+        status: 'completed',
+        timestamp: triggeredAt,
+      });
+    });
+
+    it('should broadcast system health to every client', () => {
+      const health = { status: 'up' as const, timestamp: new Date() };
+
+      gateway.emitSystemHealth(health);
+
+      expect(server.emit).toHaveBeenCalledWith(
+        AnalyticsEvent.SYSTEM_HEALTH,
+        health,
+      );
+      expect(server.to).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,42 +7,87 @@ import {
   WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { SupabaseService } from '../../../supabase/supabase.service';
 import { Logger } from '@nestjs/common';
+import { JwtService } from '../../../auth/services/jwt.service';
+import { BrandService } from '../../brands/services/brand.service';
+import { AnalyticsEventStreamService } from '../services/analytics-event-stream.service';
+import { BrandMention } from '../../answer-engine/graphql/answer.types';
+import { AlertTriggeredEvent } from '../../answer-engine/interfaces/alert.interface';
+import {
+  AnalyticsEvent,
+  AnalyticsEventRecord,
+  AnalyticsEvents,
+  AnalyticsSocketUser,
+  AnalyticsSubscription,
+  AnalyticsSubscriptionAck,
+  AnalyticsUpdate,
+  CrawlerStatus,
+  HealthStatus,
+  ReplayableAnalyticsEvent,
+} from '../interfaces/analytics-events.interface';
 
-interface AnalyticsSubscription {
-  brandId: string;
+/**
+ * State kept on each socket. Subscriptions map a brand ID to the metrics the
+ * client wants in analytics updates, or null for all of them.
+ */
+interface AnalyticsSocketData {
+  user?: AnalyticsSocketUser;
+  subscriptions?: Record<string, string[] | null>;
 }
 
+/**
+ * Pushes brand analytics to clients on the `analytics` namespace. Clients
+ * authenticate with the API's bearer token during the handshake and may only
+ * subscribe to brands they have access to. Mentions and analytics updates
+ * carry a per-brand sequence so reconnecting clients can ask for the ones
+ * they missed.
+ */
 @WebSocketGateway({
   cors: {
-    origin: process.env.CLIENT_URL,
+    origin: process.env.CLIENT_URL || 'http://localhost:3000',
     credentials: true,
   },
   namespace: 'analytics',
 })
-export class AnalyticsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class AnalyticsGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(AnalyticsGateway.name);
 
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly brandService: BrandService,
+    private readonly eventStream: AnalyticsEventStreamService,
+  ) {}
 
   async handleConnection(client: Socket): Promise<void> {
-    try {
-      const token = client.handshake.auth.token;
-      if (!token) {
-        throw new WsException('No authentication token provided');
-      }
+    const token = this.extractToken(client);
+    if (!token) {
+      this.logger.warn(`Client ${client.id} connected without a token`);
+      client.disconnect(true);
+      return;
+    }
 
-      const user = await this.supabaseService.verifyToken(token);
-      client.data.user = user;
-      
+    try {
+      const payload = await this.jwtService.verifyToken(token);
+      const data: AnalyticsSocketData = client.data;
+      data.user = {
+        id: payload.sub,
+        email: payload.email,
+        roles: payload.roles ?? [],
+        permissions: payload.permissions ?? [],
+        organizationId: payload.organizationId,
+      };
+      data.subscriptions = {};
       this.logger.log(`Client connected: ${client.id}`);
     } catch (error) {
-      this.logger.error(`Connection error: ${error.message}`);
-      client.disconnect();
+      this.logger.warn(
+        `Rejected client ${client.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      client.disconnect(true);
     }
   }
 
@@ -50,23 +95,244 @@ export class AnalyticsGateway implements OnGatewayConnection, OnGatewayDisconnec
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  /**
+   * Join a brand's room. Subscribing again replaces the metric filter. With
+   * `sinceSequence`, events kept since that sequence are sent first; live
+   * events arriving meanwhile may repeat some of them, which clients can
+   * drop by sequence.
+   * @throws {WsException} When the client is not authenticated or may not
+   * read the brand
+   */
   @SubscribeMessage('subscribeToAnalytics')
-  handleSubscribeToAnalytics(client: Socket, payload: AnalyticsSubscription): void {
-    const room = `analytics:${payload.brandId}`;
-    client.join(room);
+  async handleSubscribeToAnalytics(
+    client: Socket,
+    payload: AnalyticsSubscription,
+  ): Promise<AnalyticsSubscriptionAck> {
+    const data: AnalyticsSocketData = client.data;
+    if (!data.user) {
+      throw new WsException('Not authenticated');
+    }
+
+    const brandId = payload?.brandId;
+    if (!brandId || !(await this.brandService.canAccess(brandId, data.user))) {
+      throw new WsException(`Access to brand ${brandId} denied`);
+    }
+
+    const metrics = Array.isArray(payload.metrics)
+      ? payload.metrics.filter(metric => typeof metric === 'string')
+      : null;
+    data.subscriptions = { ...data.subscriptions, [brandId]: metrics };
+
+    const room = this.room(brandId);
+    await client.join(room);
     this.logger.log(`Client ${client.id} subscribed to ${room}`);
+
+    const { sequence, truncated } = await this.replay(
+      client,
+      brandId,
+      payload.sinceSequence,
+    );
+    return { brandId, metrics: metrics ?? undefined, sequence, truncated };
   }
 
   @SubscribeMessage('unsubscribeFromAnalytics')
-  handleUnsubscribeFromAnalytics(client: Socket, payload: AnalyticsSubscription): void {
-    const room = `analytics:${payload.brandId}`;
-    client.leave(room);
+  async handleUnsubscribeFromAnalytics(
+    client: Socket,
+    payload: AnalyticsSubscription,
+  ): Promise<void> {
+    const data: AnalyticsSocketData = client.data;
+    if (data.subscriptions) {
+      delete data.subscriptions[payload?.brandId];
+    }
+
+    const room = this.room(payload?.brandId);
+    await client.leave(room);
     this.logger.log(`Client ${client.id} unsubscribed from ${room}`);
   }
 
-  async broadcastAnalyticsUpdate(brandId: string, data: unknown): Promise<void> {
-    const room = `analytics:${brandId}`;
-    this.server.to(room).emit('analyticsUpdate', data);
-    this.logger.debug(`Broadcasting analytics update to ${room}`);
+  /**
+   * Send a new mention to a brand's subscribers and keep it for replay
+   * @param brandId - Brand ID
+   * @param mention - The mention
+   */
+  async emitMentionNew(brandId: string, mention: BrandMention): Promise<void> {
+    const sequence = await this.record(
+      brandId,
+      AnalyticsEvent.MENTION_NEW,
+      mention,
+    );
+    this.emitToBrand(brandId, AnalyticsEvent.MENTION_NEW, {
+      ...mention,
+      sequence,
+    });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Send fresh metric values to a brand's subscribers, each receiving only
+   * the metrics they subscribed to, and keep the update for replay. Failures
+   * are logged, not thrown.
+   * @param brandId - Brand ID
+   * @param metrics - Metric values keyed by metric name
+   */
+  async emitAnalyticsUpdate(
+    brandId: string,
+    metrics: Record<string, unknown>,
+  ): Promise<void> {
+    const update: AnalyticsUpdate = { brandId, timestamp: new Date(), metrics };
+    const sequence = await this.record(
+      brandId,
+      AnalyticsEvent.ANALYTICS_UPDATE,
+      update,
+    );
+    try {
+      const sockets = await this.server.in(this.room(brandId)).fetchSockets();
+      for (const socket of sockets) {
+        this.emitUpdate(socket, { ...update, sequence });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to emit analytics update for brand ${brandId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  emitAlertTriggered(brandId: string, alert: AlertTriggeredEvent): void {
+    this.emitToBrand(brandId, AnalyticsEvent.ALERT_TRIGGERED, alert);
+  }
+
+  emitCrawlerStatus(status: CrawlerStatus): void {
+    this.emitToBrand(status.brandId, AnalyticsEvent.CRAWLER_STATUS, status);
+  }
+
+  /** Health concerns every client, whichever brands they follow */
+  emitSystemHealth(health: HealthStatus): void {
+    this.server.emit(AnalyticsEvent.SYSTEM_HEALTH, health);
+  }
+
+  private emitToBrand<E extends AnalyticsEvent>(
+    brandId: string,
+    event: E,
+    payload: AnalyticsEvents[E],
+  ): void {
+    const room = this.room(brandId);
+    this.server.to(room).emit(event, payload);
+    this.logger.debug(`Emitting ${event} to ${room}`);
+  }
+
+  /**
+   * Send a client the kept events after `sinceSequence`. Without a sequence
+   * nothing is sent and only the current sequence is looked up.
+   */
+  private async replay(
+    client: Socket,
+    brandId: string,
+    sinceSequence?: number,
+  ): Promise<{ sequence: number; truncated: boolean }> {
+    const requested =
+      typeof sinceSequence === 'number' && Number.isFinite(sinceSequence);
+    try {
+      if (!requested) {
+        return {
+          sequence: await this.eventStream.currentSequence(brandId),
+          truncated: false,
+        };
+      }
+
+      const replay = await this.eventStream.readSince(brandId, sinceSequence);
+      replay.events.forEach(record => this.emitRecord(client, record));
+      this.logger.debug(
+        `Replayed ${replay.events.length} events of ${brandId} to ${client.id}`,
+      );
+      return { sequence: replay.sequence, truncated: replay.truncated };
+    } catch (error) {
+      this.logger.error(
+        `Failed to replay events of brand ${brandId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return { sequence: requested ? sinceSequence : 0, truncated: requested };
+    }
+  }
+
+  private emitRecord(client: Socket, record: AnalyticsEventRecord): void {
+    const { sequence } = record;
+    if (this.isRecordOf(record, AnalyticsEvent.ANALYTICS_UPDATE)) {
+      this.emitUpdate(client, { ...record.payload, sequence });
+    } else if (this.isRecordOf(record, AnalyticsEvent.MENTION_NEW)) {
+      client.emit(AnalyticsEvent.MENTION_NEW, { ...record.payload, sequence });
+    }
+  }
+
+  private isRecordOf<E extends ReplayableAnalyticsEvent>(
+    record: AnalyticsEventRecord,
+    event: E,
+  ): record is AnalyticsEventRecord<E> {
+    return record.event === event;
+  }
+
+  /**
+   * Send an update to one socket, narrowed to the metrics it subscribed to
+   */
+  private emitUpdate(
+    socket: Pick<Socket, 'data' | 'emit'>,
+    update: AnalyticsUpdate,
+  ): void {
+    const data: AnalyticsSocketData = socket.data;
+    const metrics = this.selectMetrics(
+      update.metrics,
+      data.subscriptions?.[update.brandId] ?? null,
+    );
+    if (Object.keys(metrics).length > 0) {
+      socket.emit(AnalyticsEvent.ANALYTICS_UPDATE, { ...update, metrics });
+    }
+  }
+
+  /**
+   * Keep an event for replay. Live delivery does not depend on it, so
+   * failures are logged and the event goes out without a sequence.
+   */
+  private async record<E extends ReplayableAnalyticsEvent>(
+    brandId: string,
+    event: E,
+    payload: AnalyticsEvents[E],
+  ): Promise<number | undefined> {
+    try {
+      return await this.eventStream.append(brandId, event, payload);
+    } catch (error) {
+      this.logger.error(
+        `Failed to keep ${event} for brand ${brandId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return undefined;
+    }
+  }
+
+  private selectMetrics(
+    metrics: Record<string, unknown>,
+    filter: string[] | null,
+  ): Record<string, unknown> {
+    if (!filter) {
+      return metrics;
+    }
+    return Object.fromEntries(
+      Object.entries(metrics).filter(([name]) => filter.includes(name)),
+    );
+  }
+
+  /**
+   * Token from the handshake auth payload, falling back to a bearer
+   * Authorization header for clients that cannot set auth data
+   */
+  private extractToken(client: Socket): string | undefined {
+    const token = client.handshake.auth?.token;
+    if (typeof token === 'string' && token) {
+      return token.replace(/^Bearer\s+/i, '');
+    }
+
+    const [type, value] = (client.handshake.headers.authorization ?? '').split(
+      ' ',
+    );
+    return type === 'Bearer' && value ? value : undefined;
+  }
+
+  private room(brandId: string): string {
+    return `analytics:${brandId}`;
+  }
+}
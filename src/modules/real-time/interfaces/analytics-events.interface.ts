@@ -0,0 +1,140 @@
+import { BrandMention } from '../../answer-engine/graphql/answer.types';
+import { AlertTriggeredEvent } from '../../answer-engine/interfaces/alert.interface';
+
+/**
+ * Events pushed on the analytics namespace
+ */
+export enum AnalyticsEvent {
+  MENTION_NEW = 'mention.new',
+  ANALYTICS_UPDATE = 'analytics.update',
+  ALERT_TRIGGERED = 'alert.triggered',
+  CRAWLER_STATUS = 'crawler.status',
+  SYSTEM_HEALTH = 'system.health',
+}
+
+/**
+ * Fresh values of one or more of a brand's metrics, keyed by metric name.
+ * Subscribers that asked for specific metrics only receive those keys.
+ */
+export interface AnalyticsUpdate {
+  brandId: string;
+  timestamp: Date;
+  metrics: Record<string, unknown>;
+
+  /** Position in the brand's event stream, absent when it could not be kept */
+  sequence?: number;
+}
+
+/**
+ * A new brand mention with its position in the brand's event stream
+ */
+export type MentionNew = BrandMention & { sequence?: number };
+
+/**
+ * Progress or outcome of crawler-related processing for a brand
+ */
+export interface CrawlerStatus {
+  brandId: string;
+  status: string;
+  message?: string;
+  timestamp: Date;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Overall service health, sent to every connected client
+ */
+export interface HealthStatus {
+  status: 'up' | 'degraded' | 'down';
+  timestamp: Date;
+  components?: Record<string, 'up' | 'down'>;
+}
+
+/**
+ * Payload of each analytics event
+ */
+export interface AnalyticsEvents {
+  [AnalyticsEvent.MENTION_NEW]: MentionNew;
+  [AnalyticsEvent.ANALYTICS_UPDATE]: AnalyticsUpdate;
+  [AnalyticsEvent.ALERT_TRIGGERED]: AlertTriggeredEvent;
+  [AnalyticsEvent.CRAWLER_STATUS]: CrawlerStatus;
+  [AnalyticsEvent.SYSTEM_HEALTH]: HealthStatus;
+}
+
+/**
+ * Message sent by clients to follow or stop following a brand
+ */
+export interface AnalyticsSubscription {
+  brandId: string;
+
+  /** Metric names to receive in analytics updates; all when omitted */
+  metrics?: string[];
+
+  /**
+   * Last sequence the client received before reconnecting. Events kept since
+   * then are sent again before the subscription is acknowledged.
+   */
+  sinceSequence?: number;
+}
+
+/**
+ * Acknowledgement of a subscription
+ */
+export interface AnalyticsSubscriptionAck {
+  brandId: string;
+  metrics?: string[];
+
+  /** Latest sequence in the brand's event stream */
+  sequence: number;
+
+  /**
+   * Whether events after `sinceSequence` were no longer kept, so the client
+   * should reload instead of relying on the replay
+   */
+  truncated: boolean;
+}
+
+/**
+ * Events kept in a brand's stream for replay
+ */
+export type ReplayableAnalyticsEvent =
+  | AnalyticsEvent.MENTION_NEW
+  | AnalyticsEvent.ANALYTICS_UPDATE;
+
+/**
+ * An event kept in a brand's stream
+ */
+export interface AnalyticsEventRecord<
+  E extends ReplayableAnalyticsEvent = ReplayableAnalyticsEvent,
+> {
+  sequence: number;
+  event: E;
+  payload: AnalyticsEvents[E];
+
+  /** When the event was kept, in milliseconds since the epoch */
+  recordedAt: number;
+}
+
+/**
+ * Events kept after a given sequence
+ */
+export interface AnalyticsEventReplay {
+  events: AnalyticsEventRecord[];
+
+  /** Latest sequence in the stream */
+  sequence: number;
+
+  /** Whether some events after the requested sequence are gone */
+  truncated: boolean;
+}
+
+/**
+ * User attached to an authenticated analytics socket
+ */
+export interface AnalyticsSocketUser {
+  id: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  organizationId?: string;
+}
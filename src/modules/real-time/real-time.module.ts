@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { AnalyticsGateway } from './gateways/analytics.gateway';
-import { SupabaseModule } from '../../supabase/supabase.module';
+import { AnalyticsEventStreamService } from './services/analytics-event-stream.service';
+import { AuthModule } from '../../auth/auth.module';
+import { BrandsModule } from '../brands/brands.module';
 
 @Module({
-  imports: [SupabaseModule],
-  providers: [AnalyticsGateway],
+  imports: [AuthModule, BrandsModule],
+  providers: [AnalyticsGateway, AnalyticsEventStreamService],
   exports: [AnalyticsGateway],
 })
-export class RealTimeModule {} 
\ No newline at end of file
+export class RealTimeModule {}
@@ -0,0 +1,163 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+import { AnalyticsEventStreamService } from '../analytics-event-stream.service';
+import {
+  AnalyticsEvent,
+  AnalyticsUpdate,
+} from '../../interfaces/analytics-events.interface';
+
+describe('AnalyticsEventStreamService', () => {
+  const brandId = 'brand-1';
+  let service: AnalyticsEventStreamService;
+
+  const update = (visibilityScore: number): AnalyticsUpdate => ({
+    brandId,
+    timestamp: new Date('2025-04-01T10:00:00.000Z'),
+    metrics: { visibilityScore },
+  });
+
+  const appendUpdates = async (count: number): Promise<void> => {
+    for (let i = 1; i <= count; i++) {
+      await service.append(
+        brandId,
+        AnalyticsEvent.ANALYTICS_UPDATE,
+        update(i / 10),
+      );
+    }
+  };
+
+  beforeEach(async () => {
+    const configService = {
+      get: jest.fn((key: string) =>
+        key === 'realTime'
+          ? { replay: { maxEvents: 3, ttlSeconds: 60 } }
+          : undefined,
+      ),
+    };
+    service = new AnalyticsEventStreamService(
+      configService as unknown as ConfigService,
+    );
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should number events per brand', async () => {
+    await expect(
+      service.append(brandId, AnalyticsEvent.ANALYTICS_UPDATE, update(0.1)),
+    ).resolves.toBe(1);
+    await expect(
+      service.append('brand-2', AnalyticsEvent.ANALYTICS_UPDATE, update(0.1)),
+    ).resolves.toBe(1);
+    await expect(
+      service.append(brandId, AnalyticsEvent.ANALYTICS_UPDATE, update(0.2)),
+    ).resolves.toBe(2);
+    await expect(service.currentSequence(brandId)).resolves.toBe(2);
+  });
+
+  it('should return events after the given sequence, oldest first', async () => {
+    await appendUpdates(3);
+
+    const replay = await service.readSince(brandId, 1);
+
+    expect(replay.events.map(record => record.sequence)).toEqual([2, 3]);
+    expect(replay.events[0]).toEqual({
+      sequence: 2,
+      event: AnalyticsEvent.ANALYTICS_UPDATE,
+      payload: update(0.2),
+      recordedAt: expect.any(Number),
+    });
+    expect(replay).toEqual(
+      expect.objectContaining({ sequence: 3, truncated: false }),
+    );
+  });
+
+  it('should keep only the most recent events', async () => {
+    await appendUpdates(5);
+
+    const replay = await service.readSince(brandId, 1);
+
+    expect(replay.events.map(record => record.sequence)).toEqual([3, 4, 5]);
+    expect(replay.truncated).toBe(true);
+    await expect(service.readSince(brandId, 2)).resolves.toEqual(
+      expect.objectContaining({ truncated: false }),
+    );
+  });
+
+  it('should drop events older than the TTL', async () => {
+    jest.useFakeTimers({ now: new Date('2025-04-01T10:00:00.000Z') });
+    await appendUpdates(2);
+
+    jest.setSystemTime(new Date('2025-04-01T10:01:30.000Z'));
+    const replay = await service.readSince(brandId, 0);
+
+    expect(replay).toEqual({ events: [], sequence: 2, truncated: true });
+  });
+
+  it('should treat a sequence ahead of the stream as a reset', async () => {
+    await appendUpdates(2);
+
+    const replay = await service.readSince(brandId, 40);
+
+    expect(replay.events.map(record => record.sequence)).toEqual([1, 2]);
+    expect(replay.truncated).toBe(true);
+  });
+
+  it('should report nothing missed for an up-to-date client', async () => {
+    await appendUpdates(2);
+
+    await expect(service.readSince(brandId, 2)).resolves.toEqual({
+      events: [],
+      sequence: 2,
+      truncated: false,
+    });
+  });
+
+  describe('with Redis', () => {
+    it('should number and push an event in one script', async () => {
+      const redis = { eval: jest.fn().mockResolvedValue(7) };
+      (service as unknown as { redisClient: RedisClientType }).redisClient =
+        redis as unknown as RedisClientType;
+
+      await expect(
+        service.append(brandId, AnalyticsEvent.ANALYTICS_UPDATE, update(0.1)),
+      ).resolves.toBe(7);
+
+      const key = `analytics:stream:${brandId}`;
+      const [script, { keys, arguments: args }] = redis.eval.mock.calls[0];
+      expect(script).toContain("redis.call('INCR', KEYS[2])");
+      expect(keys).toEqual([key, `${key}:sequence`]);
+      expect(args.slice(1)).toEqual(['3', '60']);
+
+      // The script splices the sequence in as the first field
+      const pushed = `{"sequence":7,${args[0].slice(1)}`;
+      expect(JSON.parse(pushed)).toEqual(
+        expect.objectContaining({ sequence: 7, event: 'analytics.update' }),
+      );
+    });
+
+    it('should read the stream back oldest first', async () => {
+      const entry = (sequence: number): string =>
+        JSON.stringify({
+          sequence,
+          event: AnalyticsEvent.ANALYTICS_UPDATE,
+          payload: update(sequence / 10),
+          recordedAt: Date.now(),
+        });
+      const redis = {
+        get: jest.fn().mockResolvedValue('9'),
+        lRange: jest.fn().mockResolvedValue([entry(9), entry(8), entry(7)]),
+      };
+      (service as unknown as { redisClient: RedisClientType }).redisClient =
+        redis as unknown as RedisClientType;
+
+      const replay = await service.readSince(brandId, 7);
+
+      expect(replay.events.map(record => record.sequence)).toEqual([8, 9]);
+      expect(replay.sequence).toBe(9);
+      expect(replay.truncated).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+import { RedisConfig } from '../../../config/redis.config';
+import { RealTimeConfig } from '../../../config/real-time.config';
+import { connectRedis } from '../../../cache/redis-connection';
+import {
+  AnalyticsEventRecord,
+  AnalyticsEventReplay,
+  AnalyticsEvents,
+  ReplayableAnalyticsEvent,
+} from '../interfaces/analytics-events.interface';
+
+const DEFAULT_REPLAY: RealTimeConfig['replay'] = {
+  maxEvents: 200,
+  ttlSeconds: 3600,
+};
+
+/**
+ * Number a record and push it in one step, so records from concurrent
+ * instances land in the list in sequence order. ARGV[1] is the record's JSON
+ * without its sequence, which is spliced in as the first field.
+ */
+const APPEND_SCRIPT = `
+  local sequence = redis.call('INCR', KEYS[2])
+  local record = '{"sequence":' .. sequence .. ',' .. string.sub(ARGV[1], 2)
+  redis.call('LPUSH', KEYS[1], record)
+  redis.call('LTRIM', KEYS[1], 0, tonumber(ARGV[2]) - 1)
+  redis.call('EXPIRE', KEYS[1], tonumber(ARGV[3]))
+  return sequence
+`;
+
+interface InMemoryStream {
+  sequence: number;
+  records: AnalyticsEventRecord[];
+}
+
+/**
+ * Keeps each brand's recent analytics events, numbered by a per-brand
+ * sequence, so reconnecting clients can catch up on what they missed. The
+ * stream is bounded in length and age. It lives in Redis so every instance
+ * shares it, or in memory when Redis is unavailable.
+ */
+@Injectable()
+export class AnalyticsEventStreamService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(AnalyticsEventStreamService.name);
+  private redisClient: RedisClientType | null = null;
+  private readonly streams = new Map<string, InMemoryStream>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    this.redisClient = await connectRedis(
+      this.configService.get<RedisConfig>('redis'),
+      AnalyticsEventStreamService.name,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    try {
+      await this.redisClient?.quit();
+    } catch (error) {
+      this.logger.warn(
+        `Error closing Redis client: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+    this.redisClient = null;
+  }
+
+  /**
+   * Add an event to a brand's stream
+   * @param brandId - Brand ID
+   * @param event - Event name
+   * @param payload - Event payload
+   * @returns The event's sequence
+   */
+  async append<E extends ReplayableAnalyticsEvent>(
+    brandId: string,
+    event: E,
+    payload: AnalyticsEvents[E],
+  ): Promise<number> {
+    const { maxEvents, ttlSeconds } = this.replayConfig();
+
+    if (this.redisClient) {
+      const record: Omit<AnalyticsEventRecord<E>, 'sequence'> = {
+        event,
+        payload,
+        recordedAt: Date.now(),
+      };
+      const sequence = await this.redisClient.eval(APPEND_SCRIPT, {
+        keys: [this.streamKey(brandId), this.sequenceKey(brandId)],
+        arguments: [
+          JSON.stringify(record),
+          String(maxEvents),
+          String(ttlSeconds),
+        ],
+      });
+      return Number(sequence);
+    }
+
+    const stream = this.streams.get(brandId) ?? { sequence: 0, records: [] };
+    stream.sequence += 1;
+    stream.records = [
+      ...this.unexpired(stream.records, ttlSeconds),
+      { sequence: stream.sequence, event, payload, recordedAt: Date.now() },
+    ].slice(-maxEvents);
+    this.streams.set(brandId, stream);
+    return stream.sequence;
+  }
+
+  /**
+   * Events kept after a sequence, oldest first. A sequence ahead of the
+   * stream means the stream was reset, so everything kept is returned.
+   * @param brandId - Brand ID
+   * @param sinceSequence - Last sequence the client received
+   */
+  async readSince(
+    brandId: string,
+    sinceSequence: number,
+  ): Promise<AnalyticsEventReplay> {
+    const { sequence, records } = await this.load(brandId);
+    const kept = this.unexpired(records, this.replayConfig().ttlSeconds);
+
+    const reset = sinceSequence > sequence;
+    const after = reset ? 0 : Math.max(sinceSequence, 0);
+    const events = kept.filter(record => record.sequence > after);
+    const missing =
+      sequence > after && (events[0]?.sequence ?? Infinity) > after + 1;
+
+    return { events, sequence, truncated: reset || missing };
+  }
+
+  /**
+   * Sequence of the latest event appended to a brand's stream, or 0
+   * @param brandId - Brand ID
+   */
+  async currentSequence(brandId: string): Promise<number> {
+    if (this.redisClient) {
+      const sequence = await this.redisClient.get(this.sequenceKey(brandId));
+      return parseInt(sequence ?? '0', 10);
+    }
+    return this.streams.get(brandId)?.sequence ?? 0;
+  }
+
+  private async load(brandId: string): Promise<InMemoryStream> {
+    if (!this.redisClient) {
+      return this.streams.get(brandId) ?? { sequence: 0, records: [] };
+    }
+
+    const [sequence, entries] = await Promise.all([
+      this.redisClient.get(this.sequenceKey(brandId)),
+      this.redisClient.lRange(this.streamKey(brandId), 0, -1),
+    ]);
+    const records: AnalyticsEventRecord[] = [];
+    for (const entry of entries.reverse()) {
+      try {
+        records.push(JSON.parse(entry) as AnalyticsEventRecord);
+      } catch {
+        this.logger.warn(`Skipping malformed event in stream of ${brandId}`);
+      }
+    }
+    return { sequence: parseInt(sequence ?? '0', 10), records };
+  }
+
+  private unexpired(
+    records: AnalyticsEventRecord[],
+    ttlSeconds: number,
+  ): AnalyticsEventRecord[] {
+    const cutoff = Date.now() - ttlSeconds * 1000;
+    return records.filter(record => record.recordedAt >= cutoff);
+  }
+
+  private replayConfig(): RealTimeConfig['replay'] {
+    return (
+      this.configService.get<RealTimeConfig>('realTime')?.replay ??
+      DEFAULT_REPLAY
+    );
+  }
+
+  private streamKey(brandId: string): string {
+    return `analytics:stream:${brandId}`;
+  }
+
+  private sequenceKey(brandId: string): string {
+    return `analytics:stream:${brandId}:sequence`;
+  }
+}
@@ -0,0 +1,71 @@
+import { formatCsv, parseCsv } from '../utils/csv.utils';
+import { ValidationError } from '../errors';
+
+describe('csv utils', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(
+        parseCsv('keyword,volume\nbest crm,1200\r\ncheap crm,300'),
+      ).toEqual([
+        ['keyword', 'volume'],
+        ['best crm', '1200'],
+        ['cheap crm', '300'],
+      ]);
+    });
+
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      expect(
+        parseCsv('"crm, for startups","say ""hi""","two\nlines"\n'),
+      ).toEqual([['crm, for startups', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([
+        ['a', '', 'c'],
+        ['', '', ''],
+      ]);
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(() => parseCsv('a,"b\n1,2')).toThrow(ValidationError);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should quote fields that need it', () => {
+      expect(
+        formatCsv([
+          ['topic', 'volume', 'note'],
+          ['crm, for startups', 1200, 'say "hi"'],
+          ['email tools', null, undefined],
+        ]),
+      ).toBe(
+        'topic,volume,note\r\n' +
+          '"crm, for startups",1200,"say ""hi"""\r\n' +
+          'email tools,,\r\n',
+      );
+    });
+
+    it('should defuse values a spreadsheet would run as formulas', () => {
+      expect(formatCsv([['=HYPERLINK("x")', -3]])).toBe(
+        '"\'=HYPERLINK(""x"")",-3\r\n',
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const rows = [
+        ['a', 'b,c'],
+        ['line\nbreak', '"quoted"'],
+      ];
+
+      expect(parseCsv(formatCsv(rows))).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { parseSitemap } from '../utils/sitemap.utils';
+import { ValidationError } from '../errors';
+
+describe('sitemap utils', () => {
+  it('should read the pages of a URL set', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+              xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+        <url>
+          <loc>https://acme.com/blog?tag=crm&amp;page=2</loc>
+          <lastmod>2025-03-01T10:00:00+00:00</lastmod>
+          <priority>0.9</priority>
+          <image:image><image:loc>https://acme.com/a.png</image:loc></image:image>
+        </url>
+        <url><loc><![CDATA[https://acme.com/pricing]]></loc><priority>2</priority></url>
+        <url><lastmod>2025-03-01</lastmod></url>
+      </urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      type: 'urlset',
+      entries: [
+        {
+          loc: 'https://acme.com/blog?tag=crm&page=2',
+          lastModified: new Date('2025-03-01T10:00:00Z'),
+          priority: 0.9,
+        },
+        { loc: 'https://acme.com/pricing', lastModified: null, priority: null },
+      ],
+    });
+  });
+
+  it('should read the sitemaps of an index', () => {
+    const xml =
+      '<sitemapindex><sitemap><loc>https://acme.com/sitemap-1.xml</loc>' +
+      '<lastmod>2025-03-02</lastmod></sitemap></sitemapindex>';
+
+    expect(parseSitemap(xml)).toEqual({
+      type: 'sitemapindex',
+      entries: [
+        {
+          loc: 'https://acme.com/sitemap-1.xml',
+          lastModified: new Date('2025-03-02'),
+          priority: null,
+        },
+      ],
+    });
+  });
+
+  it('should keep character references beyond Unicode as written', () => {
+    const xml =
+      '<urlset><url><loc>https://acme.com/&#x110000;&#233;</loc></url></urlset>';
+
+    expect(parseSitemap(xml).entries[0].loc).toBe(
+      'https://acme.com/&#x110000;é',
+    );
+  });
+
+  it('should reject other documents', () => {
+    expect(() => parseSitemap('<html><body></body></html>')).toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -5,7 +5,8 @@ import {
   FindOneOptions,
   DeepPartial,
 } from 'typeorm';
-import { BaseEntity } from '../entities/base.entity';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { BaseEntity } from './base.entity';
 
 /**
  * Base service class providing common CRUD operations
@@ -50,7 +51,7 @@ export abstract class BaseService<T extends BaseEntity> {
    * @throws {NotFoundException} When entity is not found
    */
   async update(id: string, data: DeepPartial<T>): Promise<T> {
-    await this.repository.update(id, data);
+    await this.repository.update(id, data as QueryDeepPartialEntity<T>);
     return this.findById(id);
   }
 
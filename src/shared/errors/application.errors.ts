@@ -30,6 +30,7 @@ export enum ErrorCode {
   EXTERNAL_SERVICE_ERROR = 'EXTERNAL_SERVICE_ERROR',
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
   TIMEOUT = 'TIMEOUT',
+  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   
   // System errors (500 range)
   INTERNAL_ERROR = 'INTERNAL_ERROR',
@@ -216,4 +217,22 @@ export class TimeoutError extends BaseError {
       context,
     );
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Rate limit error - used when a caller exceeds an allowed request rate
+ */
+export class RateLimitError extends BaseError {
+  constructor(
+    message: string,
+    context?: Record<string, unknown>,
+  ) {
+    super(
+      message,
+      ErrorCode.RATE_LIMIT_EXCEEDED,
+      HttpStatus.TOO_MANY_REQUESTS,
+      ErrorCategory.RATE_LIMIT,
+      context,
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { ValidationError } from '../errors';
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields containing
+ * commas, line breaks and doubled quotes, CRLF or LF line endings and a
+ * leading byte order mark. Blank lines are skipped.
+ * @param text - CSV text
+ * @throws {ValidationError} When a quoted field is not closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Unterminated quoted field in CSV', {
+      row: rows.length + 1,
+    });
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Formats rows of values as CSV with CRLF line endings. Fields containing
+ * commas, quotes or line breaks are quoted, and fields that a spreadsheet
+ * would read as a formula are prefixed with a quote. Null and undefined
+ * become empty fields.
+ * @param rows - Rows of values, usually a header row first
+ */
+export function formatCsv(
+  rows: (string | number | boolean | null | undefined)[][],
+): string {
+  return rows
+    .map(row => row.map(value => formatCsvField(value)).join(','))
+    .join('\r\n')
+    .concat(rows.length > 0 ? '\r\n' : '');
+}
+
+function formatCsvField(
+  value: string | number | boolean | null | undefined,
+): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
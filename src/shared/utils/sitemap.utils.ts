@@ -0,0 +1,93 @@
+import { ValidationError } from '../errors';
+
+/**
+ * One entry of a sitemap: a page in a URL set, or a child sitemap in a
+ * sitemap index
+ */
+export interface SitemapEntry {
+  loc: string;
+  lastModified: Date | null;
+
+  /** Relative importance in [0, 1], for pages that declare one */
+  priority: number | null;
+}
+
+export interface ParsedSitemap {
+  /** `urlset` lists pages, `sitemapindex` lists other sitemaps */
+  type: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parses a sitemap or sitemap index following the sitemaps.org protocol.
+ * Entries without a location are dropped, as are unreadable dates and
+ * priorities.
+ * @param xml - Sitemap XML
+ * @throws {ValidationError} When the document is neither a URL set nor a
+ * sitemap index
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const root = xml.match(/<(?:[\w-]+:)?(urlset|sitemapindex)[\s>]/);
+  if (!root) {
+    throw new ValidationError(
+      'Not a sitemap: expected <urlset> or <sitemapindex>',
+    );
+  }
+
+  const type = root[1] as ParsedSitemap['type'];
+  const entryTag = type === 'urlset' ? 'url' : 'sitemap';
+  const entries: SitemapEntry[] = [];
+  for (const block of elements(xml, entryTag)) {
+    const loc = decode(elements(block, 'loc')[0] ?? '').trim();
+    if (!loc) {
+      continue;
+    }
+
+    const lastModified = new Date(elements(block, 'lastmod')[0]?.trim() ?? '');
+    const priority = parseFloat(elements(block, 'priority')[0] ?? '');
+    entries.push({
+      loc,
+      lastModified: isNaN(lastModified.getTime()) ? null : lastModified,
+      priority: priority >= 0 && priority <= 1 ? priority : null,
+    });
+  }
+  return { type, entries };
+}
+
+/**
+ * Raw contents of each element with the given name. Prefixed elements
+ * belong to extensions, e.g. `<image:loc>`, and are not matched.
+ */
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(
+    `<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`,
+    'g',
+  );
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+/** Text content with entities and a CDATA wrapper resolved */
+function decode(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
@@ -33,6 +33,9 @@ declare module 'graphql-subscriptions' {
     asyncIterator<TPayload extends Record<string, unknown>>(
       triggers: string | string[],
     ): AsyncIterator<TPayload>;
+    asyncIterableIterator<TPayload extends Record<string, unknown>>(
+      triggers: string | readonly string[],
+    ): AsyncIterableIterator<TPayload>;
   }
 
   export type PubSubConstructor = new () => PubSubEngine;
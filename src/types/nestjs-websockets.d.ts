@@ -1,4 +1,10 @@
 declare module '@nestjs/websockets' {
+  import {
+    INestApplicationContext,
+    WebSocketAdapter,
+    WsMessageHandler,
+  } from '@nestjs/common';
+  import { Observable } from 'rxjs';
   import { Socket } from 'socket.io';
 
   export interface WsResponse<T> {
@@ -43,4 +49,27 @@ declare module '@nestjs/websockets' {
   export interface WebSocketServer {
     emit<T>(event: string, data: T): boolean;
   }
+
+  export type MessageMappingProperties = WsMessageHandler & {
+    methodName: string;
+  };
+
+  export abstract class AbstractWsAdapter<
+    TServer = unknown,
+    TClient = unknown,
+    TOptions = unknown,
+  > implements WebSocketAdapter<TServer, TClient, TOptions>
+  {
+    constructor(appOrHttpServer?: INestApplicationContext | object);
+    bindClientConnect(server: TServer, callback: () => void): void;
+    bindClientDisconnect(client: TClient, callback: () => void): void;
+    close(server: TServer): Promise<void>;
+    dispose(): Promise<void>;
+    abstract create(port: number, options?: TOptions): TServer;
+    abstract bindMessageHandlers(
+      client: TClient,
+      handlers: WsMessageHandler[],
+      transform: (data: unknown) => Observable<unknown>,
+    ): void;
+  }
 }